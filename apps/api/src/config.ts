@@ -18,6 +18,8 @@ interface AppConfig {
   port: number;
   host: string;
   databasePath: string;
+  templatesPath: string;
+  draftRetentionDays: number;
   nodeEnv: string;
   isProduction: boolean;
   secureCookies: boolean;
@@ -32,6 +34,10 @@ function loadConfig(): AppConfig {
   const port = Number(process.env.PORT) || 5181;
   const host = process.env.HOST || '127.0.0.1';
   const databasePath = process.env.DATABASE_PATH || path.join(process.cwd(), 'data');
+  const templatesPath =
+    process.env.STATEMENT_TEMPLATES_PATH || path.join(databasePath, 'templates');
+  // Unconfirmed upload previews (draft ledgers) older than this are purged
+  const draftRetentionDays = Number(process.env.DRAFT_RETENTION_DAYS) || 7;
   const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || [
     'http://localhost:5180',
     'http://127.0.0.1:5180',
@@ -64,7 +70,7 @@ function loadConfig(): AppConfig {
     ? process.env.SECURE_COOKIES === 'true'
     : isProduction;
 
-  return { port, host, databasePath, nodeEnv, isProduction, secureCookies, allowedOrigins, smtp, resend, demoMode };
+  return { port, host, databasePath, templatesPath, draftRetentionDays, nodeEnv, isProduction, secureCookies, allowedOrigins, smtp, resend, demoMode };
 }
 
 export const config = loadConfig();
@@ -72,6 +72,22 @@ function createSchema(): void {
     )
   `);
 
+  // Accounts table (bank accounts that group a workspace's ledgers)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS accounts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL DEFAULT 'bank' CHECK(type IN ('bank', 'cash')),
+      bank_id TEXT,
+      account_number TEXT,
+      currency TEXT NOT NULL DEFAULT 'EUR',
+      opening_balance REAL NOT NULL DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(workspace_id, name)
+    )
+  `);
+
   // Ledgers table
   db.exec(`
     CREATE TABLE IF NOT EXISTS ledgers (
@@ -82,7 +98,11 @@ function createSchema(): void {
       period_end TEXT,
       bank_id TEXT NOT NULL,
       file_hash TEXT UNIQUE,
-      workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE
+      workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'confirmed' CHECK(status IN ('draft', 'confirmed')),
+      draft_data TEXT,
+      account_id INTEGER REFERENCES accounts(id) ON DELETE SET NULL,
+      replaces_ledger_id INTEGER REFERENCES ledgers(id) ON DELETE SET NULL
     )
   `);
 
@@ -92,6 +112,7 @@ function createSchema(): void {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       ledger_id INTEGER NOT NULL,
       date TEXT NOT NULL,
+      value_date TEXT,
       description TEXT NOT NULL,
       amount REAL NOT NULL,
       balance REAL,
@@ -99,6 +120,9 @@ function createSchema(): void {
       is_income INTEGER NOT NULL,
       is_manual INTEGER DEFAULT 0,
       raw_text TEXT,
+      external_id TEXT,
+      transaction_type TEXT,
+      merchant_id INTEGER REFERENCES merchants(id) ON DELETE SET NULL,
       recurring_pattern_id INTEGER REFERENCES recurring_patterns(id) ON DELETE SET NULL,
       created_at TEXT DEFAULT (datetime('now')),
       FOREIGN KEY (ledger_id) REFERENCES ledgers(id) ON DELETE CASCADE,
@@ -182,6 +206,221 @@ function createSchema(): void {
     )
   `);
 
+  // CSV import profiles table (per-workspace column mappings)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS csv_profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      delimiter TEXT NOT NULL DEFAULT ',',
+      date_format TEXT NOT NULL,
+      decimal_format TEXT NOT NULL DEFAULT 'standard' CHECK(decimal_format IN ('european','standard')),
+      has_header INTEGER DEFAULT 1,
+      skip_rows INTEGER DEFAULT 0,
+      currency TEXT DEFAULT 'EUR',
+      column_mapping TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(workspace_id, name)
+    )
+  `);
+
+  // Statement templates table (per-workspace declarative PDF parsers)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS statement_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      currency TEXT DEFAULT 'EUR',
+      definition TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(workspace_id, name)
+    )
+  `);
+
+  // Merchants table (per-workspace names extracted from transaction descriptions)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS merchants (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Merchant aliases table (normalized extracted names that resolve to a merchant)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS merchant_aliases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      merchant_id INTEGER NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      alias TEXT NOT NULL,
+      UNIQUE(workspace_id, alias)
+    )
+  `);
+
+  // Internal transfers table (an expense paired with the matching income in another ledger)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS transfers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      outgoing_transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      incoming_transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'suggested' CHECK(status IN ('suggested', 'confirmed', 'unlinked')),
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Exchange rates table (units of a currency per 1 EUR on a date, per workspace)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      currency TEXT NOT NULL,
+      date TEXT NOT NULL,
+      rate REAL NOT NULL CHECK(rate > 0),
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(workspace_id, currency, date)
+    )
+  `);
+
+  // Net worth items table (manual assets and liabilities)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS net_worth_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL CHECK(kind IN ('asset', 'liability')),
+      name TEXT NOT NULL,
+      value REAL NOT NULL DEFAULT 0,
+      currency TEXT NOT NULL DEFAULT 'EUR',
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Net worth snapshots table (totals in the base currency, one per workspace and day)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS net_worth_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,
+      total_assets REAL NOT NULL,
+      total_liabilities REAL NOT NULL,
+      net_worth REAL NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(workspace_id, date)
+    )
+  `);
+
+  // Loans table (fixed or Euribor + spread, repaid in monthly installments)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS loans (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      principal REAL NOT NULL CHECK(principal > 0),
+      currency TEXT NOT NULL DEFAULT 'EUR',
+      rate_type TEXT NOT NULL CHECK(rate_type IN ('fixed', 'euribor')),
+      fixed_rate REAL,
+      euribor_tenor TEXT CHECK(euribor_tenor IN ('3M', '6M', '12M')),
+      spread REAL,
+      term_months INTEGER NOT NULL CHECK(term_months > 0),
+      start_date TEXT NOT NULL,
+      account_id INTEGER REFERENCES accounts(id) ON DELETE SET NULL,
+      description_pattern TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Loan payments table (installment transactions linked to a loan; unlinked
+  // rows keep a transaction from being matched to the loan again)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS loan_payments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      loan_id INTEGER NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+      transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      installment_number INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'linked' CHECK(status IN ('linked', 'unlinked')),
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(loan_id, transaction_id)
+    )
+  `);
+
+  // Euribor rates table (annual %, entered by hand per workspace)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS euribor_rates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      tenor TEXT NOT NULL CHECK(tenor IN ('3M', '6M', '12M')),
+      date TEXT NOT NULL,
+      rate REAL NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(workspace_id, tenor, date)
+    )
+  `);
+
+  // Tags table (per-workspace labels that cut across categories)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      name TEXT NOT NULL COLLATE NOCASE,
+      color TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(workspace_id, name)
+    )
+  `);
+
+  // Transaction tags table (many-to-many link between transactions and tags)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS transaction_tags (
+      transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (transaction_id, tag_id)
+    )
+  `);
+
+  // Transaction splits table (parts of a transaction, each with its own category)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS transaction_splits (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+      amount REAL NOT NULL,
+      note TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Columns added after the initial schema (CREATE TABLE IF NOT EXISTS skips existing tables)
+  addColumnIfMissing('transactions', 'external_id', 'TEXT');
+  addColumnIfMissing(
+    'ledgers',
+    'status',
+    "TEXT NOT NULL DEFAULT 'confirmed' CHECK(status IN ('draft', 'confirmed'))"
+  );
+  addColumnIfMissing('ledgers', 'draft_data', 'TEXT');
+  addColumnIfMissing('transactions', 'transaction_type', 'TEXT');
+  addColumnIfMissing(
+    'transactions',
+    'merchant_id',
+    'INTEGER REFERENCES merchants(id) ON DELETE SET NULL'
+  );
+  addColumnIfMissing('transactions', 'value_date', 'TEXT');
+  addColumnIfMissing('ledgers', 'account_id', 'INTEGER REFERENCES accounts(id) ON DELETE SET NULL');
+  addColumnIfMissing(
+    'accounts',
+    'type',
+    "TEXT NOT NULL DEFAULT 'bank' CHECK(type IN ('bank', 'cash'))"
+  );
+  addColumnIfMissing('workspaces', 'base_currency', "TEXT NOT NULL DEFAULT 'EUR'");
+  addColumnIfMissing('ledgers', 'currency', 'TEXT');
+  addColumnIfMissing('categories', 'parent_id', 'INTEGER REFERENCES categories(id) ON DELETE SET NULL');
+  addColumnIfMissing(
+    'ledgers',
+    'replaces_ledger_id',
+    'INTEGER REFERENCES ledgers(id) ON DELETE SET NULL'
+  );
+
   // Indexes
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
@@ -191,6 +430,7 @@ function createSchema(): void {
     CREATE INDEX IF NOT EXISTS idx_category_patterns_bank ON category_patterns(bank_id);
     CREATE INDEX IF NOT EXISTS idx_ledgers_bank ON ledgers(bank_id);
     CREATE INDEX IF NOT EXISTS idx_categories_workspace ON categories(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_categories_parent ON categories(parent_id);
     CREATE INDEX IF NOT EXISTS idx_ledgers_workspace ON ledgers(workspace_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_ledger_date ON transactions(ledger_id, date);
     CREATE INDEX IF NOT EXISTS idx_transactions_ledger_category ON transactions(ledger_id, category_id);
@@ -206,10 +446,34 @@ function createSchema(): void {
     CREATE INDEX IF NOT EXISTS idx_workspace_invitations_status ON workspace_invitations(status);
     CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id);
     CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_hash ON password_reset_tokens(token_hash);
+    CREATE INDEX IF NOT EXISTS idx_csv_profiles_workspace ON csv_profiles(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_statement_templates_workspace ON statement_templates(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_transactions_external_id ON transactions(external_id);
+    CREATE INDEX IF NOT EXISTS idx_ledgers_workspace_status ON ledgers(workspace_id, status);
+    CREATE INDEX IF NOT EXISTS idx_transactions_ledger_type ON transactions(ledger_id, transaction_type);
+    CREATE INDEX IF NOT EXISTS idx_transactions_merchant ON transactions(merchant_id);
+    CREATE INDEX IF NOT EXISTS idx_merchants_workspace ON merchants(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_merchant_aliases_merchant ON merchant_aliases(merchant_id);
+    CREATE INDEX IF NOT EXISTS idx_accounts_workspace ON accounts(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_ledgers_account ON ledgers(account_id);
+    CREATE INDEX IF NOT EXISTS idx_transfers_workspace ON transfers(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_tags_workspace ON tags(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag ON transaction_tags(tag_id);
+    CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON transaction_splits(transaction_id);
+    CREATE INDEX IF NOT EXISTS idx_transaction_splits_category ON transaction_splits(category_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_transfers_outgoing ON transfers(outgoing_transaction_id) WHERE status != 'unlinked';
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_transfers_incoming ON transfers(incoming_transaction_id) WHERE status != 'unlinked';
   `);
 
 }
 
+function addColumnIfMissing(table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 export function initTestDatabase(): void {
   db = new Database(':memory:');
   db.pragma('foreign_keys = ON');
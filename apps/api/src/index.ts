@@ -5,9 +5,21 @@ import { config } from './config.js';
 import { initDatabase } from './db/database.js';
 import { seedDefaultCategories } from './db/seed.js';
 import { cleanExpiredSessions } from './services/authService.js';
+import { loadStatementTemplateFiles } from './services/statementTemplateService.js';
+import { purgeStaleDrafts } from './services/uploadService.js';
+import { recordAllNetWorthSnapshots } from './services/netWorthService.js';
 import { seedDemoData } from './db/demo-seed.js';
 import { createApp } from './app.js';
 
+// Register instance-wide statement templates before seeding their category patterns
+const templates = loadStatementTemplateFiles(config.templatesPath);
+if (templates.loaded.length > 0) {
+  console.log(`Loaded statement templates: ${templates.loaded.join(', ')}`);
+}
+for (const error of templates.errors) {
+  console.warn(`Skipped statement template ${error}`);
+}
+
 // Initialize database
 initDatabase(config.databasePath);
 seedDefaultCategories();
@@ -51,16 +63,30 @@ if (config.isProduction) {
   }
 }
 
-// Clean expired sessions on startup and every 24 hours
+// Clean expired sessions and stale upload drafts, and record net worth
+// snapshots, on startup and every 24 hours
 const cleaned = cleanExpiredSessions();
 if (cleaned > 0) {
   console.log(`Cleaned ${cleaned} expired sessions`);
 }
+const purged = purgeStaleDrafts(config.draftRetentionDays);
+if (purged > 0) {
+  console.log(`Purged ${purged} stale upload drafts`);
+}
+const snapshots = recordAllNetWorthSnapshots();
+if (snapshots > 0) {
+  console.log(`Recorded ${snapshots} net worth snapshots`);
+}
 setInterval(() => {
   const count = cleanExpiredSessions();
   if (count > 0) {
     console.log(`Cleaned ${count} expired sessions`);
   }
+  const drafts = purgeStaleDrafts(config.draftRetentionDays);
+  if (drafts > 0) {
+    console.log(`Purged ${drafts} stale upload drafts`);
+  }
+  recordAllNetWorthSnapshots();
 }, 24 * 60 * 60 * 1000);
 
 app.listen(config.port, config.host, () => {
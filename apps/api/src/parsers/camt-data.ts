@@ -0,0 +1,20 @@
+import type { BankParserDefinition } from './types.js';
+
+type BankParserData = Omit<BankParserDefinition, 'parse'>;
+
+// camt.053 / camt.052 is bank-agnostic (ISO 20022), so there are no bank-specific patterns to seed
+export const camtData: BankParserData = {
+  config: {
+    id: 'camt',
+    name: 'ISO 20022 camt.053 / camt.052',
+    country: '',
+    currency: 'EUR',
+    dateFormat: 'YYYY-MM-DD',
+    decimalFormat: 'standard',
+    format: 'camt',
+  },
+  fingerprint: { patterns: [/BkToCstmrStmt|BkToCstmrAcctRpt/] },
+  transactionPatterns: {},
+  merchantRules: { stripPatterns: [], locations: [] },
+  categoryPatterns: {},
+};
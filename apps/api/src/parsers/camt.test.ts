@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { parseCamtText, parseCAMTStatement } from './camt.js';
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG-1</MsgId><CreDtTm>2025-02-01T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-2025-01</Id>
+      <FrToDt><FrDtTm>2025-01-01T00:00:00</FrDtTm><ToDtTm>2025-01-31T23:59:59</ToDtTm></FrToDt>
+      <Acct><Id><IBAN>PT50000700000000000000001</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2025-01-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">2476.55</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2025-01-31</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="EUR">23.45</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-03</Dt></BookgDt>
+        <ValDt><Dt>2025-01-04</Dt></ValDt>
+        <AcctSvcrRef>REF-001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>Pingo Doce &amp; Filhos</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Compra cartao</Ustrd><Ustrd>1234</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">1500.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2025-01-25T10:00:00</DtTm></BookgDt>
+        <AcctSvcrRef>REF-002</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties>
+            <Dbtr><Nm>ACME LDA</Nm></Dbtr>
+            <Cdtr><Nm>Account Holder</Nm></Cdtr>
+          </RltdPties>
+          <RmtInf><Ustrd>Salario Janeiro</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">4.90</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-27</Dt></BookgDt>
+        <AddtlNtryInf>COMISSAO MANUTENCAO</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>
+`;
+
+const CAMT_052 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.052.001.08">
+  <BkToCstmrAcctRpt>
+    <Rpt>
+      <Id>RPT-1</Id>
+      <Acct><Id><Othr><Id>123456789</Id></Othr></Id></Acct>
+      <Ntry>
+        <NtryRef>N-1</NtryRef>
+        <Amt Ccy="EUR">59.99</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-02-10</Dt></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Pty><Nm>Amazon EU</Nm></Pty></Cdtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <NtryRef>N-2</NtryRef>
+        <Amt Ccy="EUR">59.99</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <RvslInd>true</RvslInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-02-12</Dt></BookgDt>
+        <AddtlNtryInf>ESTORNO Amazon EU</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <NtryRef>N-3</NtryRef>
+        <Amt Ccy="EUR">12.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>PDNG</Cd></Sts>
+        <BookgDt><Dt>2025-02-14</Dt></BookgDt>
+        <AddtlNtryInf>PENDING CARD</AddtlNtryInf>
+      </Ntry>
+    </Rpt>
+  </BkToCstmrAcctRpt>
+</Document>
+`;
+
+describe('parseCamtText', () => {
+  it('should parse camt.053 entries with dates, amounts and references', () => {
+    const result = parseCamtText(CAMT_053);
+
+    expect(result.periodStart).toBe('2025-01-01');
+    expect(result.periodEnd).toBe('2025-01-31');
+    expect(result.accountNumber).toBe('PT50000700000000000000001');
+    expect(result.transactions).toHaveLength(3);
+    expect(result.transactions[0]).toMatchObject({
+      date: '2025-01-03',
+      valueDate: '2025-01-04',
+      description: 'Pingo Doce & Filhos Compra cartao 1234',
+      amount: 23.45,
+      balance: 976.55,
+      isIncome: false,
+      externalId: 'PT50000700000000000000001:REF-001',
+      suggestedCategoryId: null,
+      suggestedCategoryName: null,
+    });
+  });
+
+  it('should use the debtor as counterparty for credits', () => {
+    const result = parseCamtText(CAMT_053);
+
+    expect(result.transactions[1]).toMatchObject({
+      date: '2025-01-25',
+      valueDate: '2025-01-25',
+      description: 'ACME LDA Salario Janeiro',
+      amount: 1500,
+      balance: 2476.55,
+      isIncome: true,
+    });
+  });
+
+  it('should fall back to AddtlNtryInf when there are no transaction details', () => {
+    const result = parseCamtText(CAMT_053);
+
+    expect(result.transactions[2]).toMatchObject({
+      description: 'COMISSAO MANUTENCAO',
+      amount: 4.9,
+      balance: 2471.65,
+    });
+    expect(result.transactions[2].externalId).toBeUndefined();
+  });
+
+  it('should warn when the closing balance does not match the entries', () => {
+    const result = parseCamtText(CAMT_053);
+
+    expect(result.warnings).toEqual([
+      'Statement STMT-2025-01: opening balance 1000.00 + entries 1471.65 = 2471.65, but closing balance is 2476.55',
+    ]);
+  });
+
+  it('should return the opening and closing balances', () => {
+    const result = parseCamtText(CAMT_053);
+
+    expect(result.openingBalance).toBe(1000);
+    expect(result.closingBalance).toBe(2476.55);
+  });
+
+  it('should not warn when the balances reconcile', () => {
+    const result = parseCamtText(CAMT_053.replace('2476.55</Amt>', '2471.65</Amt>'));
+
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should parse camt.052 reports, skipping pending entries and inverting reversals', () => {
+    const result = parseCamtText(CAMT_052);
+
+    expect(
+      result.transactions.map((tx) => [tx.description, tx.amount, tx.isIncome, tx.externalId])
+    ).toEqual([
+      ['Amazon EU', 59.99, false, '123456789:N-1'],
+      ['ESTORNO Amazon EU', 59.99, true, '123456789:N-2'],
+    ]);
+    expect(result.transactions[0].balance).toBeNull();
+  });
+
+  it('should fall back to transaction dates when the period is missing', () => {
+    const result = parseCamtText(CAMT_052);
+
+    expect(result.periodStart).toBe('2025-02-10');
+    expect(result.periodEnd).toBe('2025-02-12');
+  });
+
+  it('should return no transactions for a document without statements', () => {
+    const result = parseCamtText('<Document></Document>');
+
+    expect(result).toEqual({ transactions: [], periodStart: null, periodEnd: null, warnings: [] });
+  });
+});
+
+describe('parseCAMTStatement', () => {
+  it('should include the file hash', async () => {
+    const result = await parseCAMTStatement(Buffer.from(CAMT_053, 'utf8'));
+
+    expect(result.fileHash).toHaveLength(64);
+    expect(result.transactions).toHaveLength(3);
+  });
+});
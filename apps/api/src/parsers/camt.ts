@@ -0,0 +1,206 @@
+import type { ParsedTransaction, ParseResult } from '@compasso/shared';
+import { generateFileHash } from '../utils/fileHash.js';
+import type { BankParserDefinition } from './types.js';
+import { camtData } from './camt-data.js';
+import { checkStatementBalance, decodeText } from './formats.js';
+import { parseXml, xmlChild, xmlChildren, xmlText, type XmlElement } from './xml.js';
+
+/**
+ * Parser for ISO 20022 bank-to-customer statements: camt.053 (end-of-day
+ * statement) and camt.052 (intraday account report).
+ *
+ * Algorithm: parse XML → for each Stmt/Rpt read the account, period and Bal
+ * elements → map every booked Ntry to a transaction. CdtDbtInd gives the sign
+ * (inverted for reversals), BookgDt/ValDt the dates, and the counterparty name
+ * plus RmtInf/Ustrd the description. Running balances are derived from the
+ * opening balance, and the closing balance is cross-checked against the sum of
+ * the entries; a mismatch is reported as a warning.
+ */
+
+// Opening balance types: opening booked, previously closed booked
+const OPENING_BALANCE_CODES = ['OPBD', 'PRCD'];
+// Closing balance types: closing booked, interim booked (camt.052)
+const CLOSING_BALANCE_CODES = ['CLBD', 'ITBD'];
+
+interface StatementBalance {
+  code: string;
+  amount: number;
+  date: string | null;
+}
+
+// Dates are either <Dt>YYYY-MM-DD</Dt> or <DtTm>YYYY-MM-DDThh:mm:ss</DtTm>
+function readDate(element: XmlElement | null): string | null {
+  const value = xmlText(element, 'Dt') ?? xmlText(element, 'DtTm') ?? element?.text ?? null;
+  const match = value?.match(/^\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : null;
+}
+
+function readSignedAmount(element: XmlElement): number | null {
+  const amount = parseFloat(xmlText(element, 'Amt') ?? '');
+  if (Number.isNaN(amount)) return null;
+  return xmlText(element, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+}
+
+function readBalances(statement: XmlElement): StatementBalance[] {
+  return xmlChildren(statement, 'Bal').flatMap((bal) => {
+    const code = xmlText(bal, 'Tp', 'CdOrPrtry', 'Cd') ?? xmlText(bal, 'Tp', 'CdOrPrtry', 'Prtry');
+    const amount = readSignedAmount(bal);
+    if (!code || amount === null) return [];
+    return [{ code, amount, date: readDate(xmlChild(bal, 'Dt')) }];
+  });
+}
+
+function findBalance(balances: StatementBalance[], codes: string[]): StatementBalance | null {
+  for (const code of codes) {
+    const balance = balances.find((b) => b.code === code);
+    if (balance) return balance;
+  }
+  return null;
+}
+
+// Party names moved under <Pty> in camt.053.001.08+
+function readPartyName(parties: XmlElement | null, role: 'Cdtr' | 'Dbtr'): string | null {
+  return xmlText(parties, role, 'Nm') ?? xmlText(parties, role, 'Pty', 'Nm');
+}
+
+function buildDescription(entry: XmlElement, isIncome: boolean): string {
+  const details = xmlChild(entry, 'NtryDtls', 'TxDtls');
+  const parties = xmlChild(details, 'RltdPties');
+  // The counterparty is the debtor for credits and the creditor for debits
+  const counterparty = readPartyName(parties, isIncome ? 'Dbtr' : 'Cdtr');
+  const remittance = xmlChildren(xmlChild(details, 'RmtInf'), 'Ustrd')
+    .map((ustrd) => ustrd.text)
+    .join(' ');
+
+  const parts = [counterparty, remittance].filter(Boolean);
+  const description = parts.length > 0 ? parts.join(' ') : (xmlText(entry, 'AddtlNtryInf') ?? '');
+  return description.replace(/\s+/g, ' ').trim();
+}
+
+function isBooked(entry: XmlElement): boolean {
+  // <Sts>BOOK</Sts> up to v7, <Sts><Cd>BOOK</Cd></Sts> from v8
+  const status = xmlText(entry, 'Sts', 'Cd') ?? xmlText(entry, 'Sts');
+  return !status || status === 'BOOK';
+}
+
+export function parseCamtText(text: string): Omit<ParseResult, 'fileHash'> {
+  const root = parseXml(text);
+  const container = xmlChild(root, 'BkToCstmrStmt') ?? xmlChild(root, 'BkToCstmrAcctRpt');
+  if (!container) {
+    return { transactions: [], periodStart: null, periodEnd: null, warnings: [] };
+  }
+
+  const statements = [...xmlChildren(container, 'Stmt'), ...xmlChildren(container, 'Rpt')];
+  const transactions: ParsedTransaction[] = [];
+  const warnings: string[] = [];
+  // Of the whole file: the first statement's opening and the last statement's closing balance
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  let accountNumber: string | null = null;
+  const periodStarts: string[] = [];
+  const periodEnds: string[] = [];
+
+  for (const statement of statements) {
+    const statementId = xmlText(statement, 'Id') ?? `#${statements.indexOf(statement) + 1}`;
+    const account =
+      xmlText(statement, 'Acct', 'Id', 'IBAN') ?? xmlText(statement, 'Acct', 'Id', 'Othr', 'Id');
+    accountNumber ??= account;
+    const balances = readBalances(statement);
+    const opening = findBalance(balances, OPENING_BALANCE_CODES);
+    const closing = findBalance(balances, CLOSING_BALANCE_CODES);
+
+    const period = xmlChild(statement, 'FrToDt');
+    const periodStart =
+      readDate(xmlChild(period, 'FrDtTm')) ??
+      readDate(xmlChild(period, 'FrDt')) ??
+      opening?.date ??
+      null;
+    const periodEnd =
+      readDate(xmlChild(period, 'ToDtTm')) ??
+      readDate(xmlChild(period, 'ToDt')) ??
+      closing?.date ??
+      null;
+    if (periodStart) periodStarts.push(periodStart);
+    if (opening && openingBalance === null) openingBalance = opening.amount;
+    if (closing) closingBalance = closing.amount;
+    if (periodEnd) periodEnds.push(periodEnd);
+
+    let runningBalance = opening?.amount ?? null;
+    let entriesTotal = 0;
+
+    for (const entry of xmlChildren(statement, 'Ntry')) {
+      if (!isBooked(entry)) continue;
+
+      let signedAmount = readSignedAmount(entry);
+      const date = readDate(xmlChild(entry, 'BookgDt'));
+      if (signedAmount === null || !date) continue;
+
+      // For reversals, CdtDbtInd is the direction of the original entry
+      if (xmlText(entry, 'RvslInd') === 'true') signedAmount = -signedAmount;
+
+      const isIncome = signedAmount > 0;
+      const description = buildDescription(entry, isIncome);
+      if (!description) continue;
+
+      entriesTotal += signedAmount;
+      if (runningBalance !== null) {
+        runningBalance = Math.round((runningBalance + signedAmount) * 100) / 100;
+      }
+
+      const reference =
+        xmlText(entry, 'AcctSvcrRef') ??
+        xmlText(entry, 'NtryRef') ??
+        xmlText(entry, 'NtryDtls', 'TxDtls', 'Refs', 'AcctSvcrRef');
+
+      transactions.push({
+        date,
+        valueDate: readDate(xmlChild(entry, 'ValDt')) ?? date,
+        description,
+        amount: Math.abs(signedAmount),
+        balance: runningBalance,
+        isIncome,
+        rawText: [date, signedAmount.toFixed(2), description].join(' '),
+        suggestedCategoryId: null,
+        suggestedCategoryName: null,
+        ...(reference && { externalId: account ? `${account}:${reference}` : reference }),
+      });
+    }
+
+    if (opening && closing) {
+      const warning = checkStatementBalance(
+        statementId,
+        opening.amount,
+        entriesTotal,
+        closing.amount
+      );
+      if (warning) warnings.push(warning);
+    }
+  }
+
+  // Fall back to the transaction date range when neither FrToDt nor Bal dates exist
+  const dates = transactions.map((tx) => tx.date);
+  const starts = periodStarts.length > 0 ? periodStarts : dates;
+  const ends = periodEnds.length > 0 ? periodEnds : dates;
+
+  return {
+    transactions,
+    periodStart: starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : null,
+    periodEnd: ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : null,
+    warnings,
+    openingBalance,
+    closingBalance,
+    accountNumber,
+  };
+}
+
+export async function parseCAMTStatement(buffer: Buffer): Promise<ParseResult> {
+  const fileHash = generateFileHash(buffer);
+  const result = parseCamtText(decodeText(buffer));
+
+  return { ...result, fileHash };
+}
+
+export const camt: BankParserDefinition = {
+  ...camtData,
+  parse: parseCAMTStatement,
+};
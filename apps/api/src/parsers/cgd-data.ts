@@ -1,4 +1,6 @@
+import type { StatementTemplateDefinition } from '@compasso/shared';
 import type { BankParserDefinition } from './types.js';
+import { PORTUGUESE_LOCATIONS } from './locations.js';
 
 type BankParserData = Omit<BankParserDefinition, 'parse'>;
 
@@ -10,6 +12,11 @@ export const cgdData: BankParserData = {
     currency: 'EUR',
     dateFormat: 'YYYY-MM-DD',
     decimalFormat: 'european',
+    format: 'pdf',
+  },
+  fingerprint: {
+    patterns: [/Caixa Geral de Dep[oó]sitos/i, /^-\s+-\s+\d{4}-\d{2}-\d{2}\s/m],
+    ibanPrefixes: ['PT500035'],
   },
   transactionPatterns: {
     CARD_PURCHASE: /^COMPRA\s+/i,
@@ -20,6 +27,17 @@ export const cgdData: BankParserData = {
     STANDING_ORDER: /^ORD\s+/i,
     BANK_FEE: /^MANUT\s+CONTA|^IMPOSTO\s+SELO|^\d+[,.]\d+\s+COM\s+S[BI]/i,
   },
+  merchantRules: {
+    // "COMPRA 1234 CONTINENTE ALMADA" -> "Continente"
+    stripPatterns: [
+      /^COMPRA\s+(\d{4}\s+)?/i,
+      /^(TFI|TRF)\s+/i,
+      /^Trf\s+Mbway\s+/i,
+      /^ORD\s+/i,
+      /^PAGAMENTO\s+/i,
+    ],
+    locations: PORTUGUESE_LOCATIONS,
+  },
   categoryPatterns: {
     Groceries: ['Continente', 'Pingo Doce', 'Lidl', 'Aldi', 'Mercadona', 'Intermarche', 'Mini Preco'],
     Fuel: ['BP', 'Galp', 'Repsol', 'Cepsa', 'Disa', 'Petrogal'],
@@ -36,3 +54,21 @@ export const cgdData: BankParserData = {
     Cash: ['Levantamento'],
   },
 };
+
+// Transaction lines start with "- - YYYY-MM-DD" (dashes for the mov/value date columns)
+// and end with a signed amount and the balance, so no column headers are needed.
+export const cgdTemplate: StatementTemplateDefinition = {
+  dateFormat: 'YYYY-MM-DD',
+  decimalFormat: 'european',
+  period: {
+    pattern: '/Per[ií]odo\\s+(\\d{4}-\\d{2}-\\d{2})\\s+a\\s+(\\d{4}-\\d{2}-\\d{2})/i',
+  },
+  openingBalancePattern: 'SALDO ANTERIOR',
+  closingBalancePattern: '/SALDO CONTABIL[IÍ]STICO/i',
+  transaction: {
+    pattern: '^-\\s+-\\s+(?<date>\\d{4}-\\d{2}-\\d{2})\\s+',
+    amountPattern: '-?[\\d.]+,\\d{2}',
+  },
+  amountLayouts: [{ amount: -2, balance: -1, incomeFrom: 'sign' }],
+  continuation: 'ignore',
+};
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsvRows, parseCsvLines, parseCSVStatement, type CsvParseOptions } from './csv.js';
+import { parseAmount, parseDateWithFormat } from './formats.js';
+
+describe('parseDateWithFormat', () => {
+  it('should parse day-first formats', () => {
+    expect(parseDateWithFormat('15/03/2025', 'DD/MM/YYYY')).toBe('2025-03-15');
+    expect(parseDateWithFormat('5.3.25', 'DD.MM.YY')).toBe('2025-03-05');
+  });
+
+  it('should parse ISO and month-first formats', () => {
+    expect(parseDateWithFormat('2025-03-15', 'YYYY-MM-DD')).toBe('2025-03-15');
+    expect(parseDateWithFormat('03/15/2025', 'MM/DD/YYYY')).toBe('2025-03-15');
+  });
+
+  it('should ignore a trailing time component', () => {
+    expect(parseDateWithFormat('2025-03-15 10:42:00', 'YYYY-MM-DD')).toBe('2025-03-15');
+  });
+
+  it('should reject impossible dates and mismatched formats', () => {
+    expect(parseDateWithFormat('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+    expect(parseDateWithFormat('2025-03-15', 'DD/MM/YYYY')).toBeNull();
+    expect(parseDateWithFormat('', 'DD/MM/YYYY')).toBeNull();
+  });
+});
+
+describe('parseAmount', () => {
+  it('should parse european amounts', () => {
+    expect(parseAmount('1.234,56', 'european')).toBe(1234.56);
+    expect(parseAmount('-12,50 €', 'european')).toBe(-12.5);
+  });
+
+  it('should parse standard amounts', () => {
+    expect(parseAmount('1,234.56', 'standard')).toBe(1234.56);
+    expect(parseAmount('+8.00', 'standard')).toBe(8);
+  });
+
+  it('should handle trailing minus and parentheses', () => {
+    expect(parseAmount('45,00-', 'european')).toBe(-45);
+    expect(parseAmount('(45.00)', 'standard')).toBe(-45);
+  });
+
+  it('should return null for empty or non-numeric values', () => {
+    expect(parseAmount('', 'european')).toBeNull();
+    expect(parseAmount('n/a', 'standard')).toBeNull();
+  });
+});
+
+describe('parseCsvRows', () => {
+  it('should split rows and cells', () => {
+    expect(parseCsvRows('a;b\r\nc;d\n', ';')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+    const text = '"Shop, Lisbon";"He said ""hi""";"line\nbreak"';
+    expect(parseCsvRows(text, ';')).toEqual([['Shop, Lisbon', 'He said "hi"', 'line\nbreak']]);
+  });
+});
+
+describe('parseCsvLines', () => {
+  const signedAmountOptions: CsvParseOptions = {
+    delimiter: ';',
+    dateFormat: 'DD/MM/YYYY',
+    decimalFormat: 'european',
+    hasHeader: true,
+    skipRows: 0,
+    columns: { date: 0, description: [2], amount: 3, balance: 4, valueDate: 1 },
+  };
+
+  it('should map a signed amount column', () => {
+    const rows = [
+      ['Data', 'Data Valor', 'Descrição', 'Montante', 'Saldo'],
+      ['02/01/2025', '03/01/2025', 'Pingo Doce', '-23,45', '976,55'],
+      ['05/01/2025', '', 'Salário', '1.500,00', '2.476,55'],
+    ];
+
+    const result = parseCsvLines(rows, signedAmountOptions);
+
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({
+      date: '2025-01-02',
+      valueDate: '2025-01-03',
+      description: 'Pingo Doce',
+      amount: 23.45,
+      balance: 976.55,
+      isIncome: false,
+    });
+    expect(result.transactions[1]).toMatchObject({
+      valueDate: '2025-01-05',
+      amount: 1500,
+      isIncome: true,
+    });
+    expect(result.periodStart).toBe('2025-01-02');
+    expect(result.periodEnd).toBe('2025-01-05');
+  });
+
+  it('should map separate debit and credit columns', () => {
+    const options: CsvParseOptions = {
+      delimiter: ',',
+      dateFormat: 'YYYY-MM-DD',
+      decimalFormat: 'standard',
+      hasHeader: false,
+      skipRows: 2,
+      columns: { date: 0, description: [1, 2], debit: 3, credit: 4 },
+    };
+    const rows = [
+      ['Account statement'],
+      [''],
+      ['2025-02-10', 'Card', 'Amazon', '19.99', ''],
+      ['2025-02-11', 'Transfer', 'John', '', '50.00'],
+      ['2025-02-12', 'Fee', 'Maintenance', '-2.50', ''],
+    ];
+
+    const result = parseCsvLines(rows, options);
+
+    expect(result.transactions.map((tx) => [tx.description, tx.amount, tx.isIncome])).toEqual([
+      ['Card Amazon', 19.99, false],
+      ['Transfer John', 50, true],
+      ['Fee Maintenance', 2.5, false],
+    ]);
+  });
+
+  it('should skip rows without a valid date, description or amount', () => {
+    const rows = [
+      ['Data', 'Data Valor', 'Descrição', 'Montante', 'Saldo'],
+      ['Total', '', '', '1.476,55', ''],
+      ['02/01/2025', '', '', '-1,00', ''],
+      ['02/01/2025', '', 'No amount', '', ''],
+      ['', '', '', '', ''],
+    ];
+
+    const result = parseCsvLines(rows, signedAmountOptions);
+
+    expect(result.transactions).toHaveLength(0);
+    expect(result.periodStart).toBeNull();
+    expect(result.periodEnd).toBeNull();
+    expect(result.diagnostics).toEqual({
+      skippedLines: [
+        { page: null, line: 2, text: 'Total;;;1.476,55;' },
+        { page: null, line: 3, text: '02/01/2025;;;-1,00;' },
+      ],
+      dateWithoutAmount: [{ page: null, line: 4, text: '02/01/2025;;No amount;;' }],
+    });
+  });
+});
+
+describe('parseCSVStatement', () => {
+  it('should decode Latin-1 files and strip the UTF-8 BOM', async () => {
+    const options: CsvParseOptions = {
+      delimiter: ';',
+      dateFormat: 'DD/MM/YYYY',
+      decimalFormat: 'european',
+      hasHeader: false,
+      skipRows: 0,
+      columns: { date: 0, description: [1], amount: 2 },
+    };
+
+    const latin1 = await parseCSVStatement(
+      Buffer.from('01/01/2025;Café Central;-1,20', 'latin1'),
+      options
+    );
+    expect(latin1.transactions[0].description).toBe('Café Central');
+    expect(latin1.fileHash).toHaveLength(64);
+
+    const bom = await parseCSVStatement(
+      Buffer.from('\uFEFF01/01/2025;Padaria;-0,80', 'utf-8'),
+      options
+    );
+    expect(bom.transactions[0].date).toBe('2025-01-01');
+  });
+});
@@ -0,0 +1,168 @@
+import type { CsvProfile, ParsedTransaction, ParseResult } from '@compasso/shared';
+import { generateFileHash } from '../utils/fileHash.js';
+import { decodeText, parseAmount, parseDateWithFormat } from './formats.js';
+import { addDiagnosticLine, createParseDiagnostics } from './diagnostics.js';
+
+/**
+ * Generic CSV statement parser driven by a user-defined column mapping profile.
+ *
+ * Algorithm: decode buffer → split into rows (RFC 4180 quoting) → drop preamble
+ * and header rows → map each row's cells to date, description and amount using
+ * the profile. Amounts come either from one signed column or from separate
+ * debit/credit columns. The statement period is the min/max transaction date.
+ */
+
+export type CsvParseOptions = Pick<
+  CsvProfile,
+  'delimiter' | 'dateFormat' | 'decimalFormat' | 'hasHeader' | 'skipRows' | 'columns'
+>;
+
+/**
+ * Split CSV text into rows of cells. Handles quoted fields containing the
+ * delimiter, escaped quotes ("") and line breaks.
+ */
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function cellAt(row: string[], index: number | null | undefined): string {
+  if (index === null || index === undefined) return '';
+  return (row[index] ?? '').trim();
+}
+
+export function parseCsvLines(
+  rows: string[][],
+  options: CsvParseOptions
+): Omit<ParseResult, 'fileHash'> {
+  const { columns, dateFormat, decimalFormat } = options;
+  const transactions: ParsedTransaction[] = [];
+
+  const diagnostics = createParseDiagnostics();
+
+  const firstDataRow = options.skipRows + (options.hasHeader ? 1 : 0);
+  const dataRows = rows.slice(firstDataRow);
+
+  for (const [index, row] of dataRows.entries()) {
+    if (row.every((cell) => cell.trim() === '')) continue;
+
+    const report = (list: typeof diagnostics.skippedLines) =>
+      addDiagnosticLine(list, null, firstDataRow + index + 1, row.join(options.delimiter));
+
+    const date = parseDateWithFormat(cellAt(row, columns.date), dateFormat);
+    if (!date) {
+      report(diagnostics.skippedLines);
+      continue;
+    }
+
+    const valueDate =
+      parseDateWithFormat(cellAt(row, columns.valueDate), dateFormat) ?? date;
+
+    const description = columns.description
+      .map((index) => cellAt(row, index))
+      .filter(Boolean)
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!description) {
+      report(diagnostics.skippedLines);
+      continue;
+    }
+
+    let signedAmount: number | null;
+    if (columns.amount !== null && columns.amount !== undefined) {
+      signedAmount = parseAmount(cellAt(row, columns.amount), decimalFormat);
+    } else {
+      // Debit columns are sometimes exported as negative numbers, sometimes not
+      const debit = parseAmount(cellAt(row, columns.debit), decimalFormat);
+      const credit = parseAmount(cellAt(row, columns.credit), decimalFormat);
+      if (credit) {
+        signedAmount = Math.abs(credit);
+      } else if (debit) {
+        signedAmount = -Math.abs(debit);
+      } else {
+        signedAmount = debit ?? credit;
+      }
+    }
+
+    if (signedAmount === null) {
+      report(diagnostics.dateWithoutAmount);
+      continue;
+    }
+
+    transactions.push({
+      date,
+      valueDate,
+      description,
+      amount: Math.abs(signedAmount),
+      balance: parseAmount(cellAt(row, columns.balance), decimalFormat),
+      isIncome: signedAmount > 0,
+      rawText: row.join(options.delimiter),
+      suggestedCategoryId: null,
+      suggestedCategoryName: null,
+    });
+  }
+
+  const dates = transactions.map((tx) => tx.date).sort();
+
+  return {
+    transactions,
+    periodStart: dates[0] ?? null,
+    periodEnd: dates[dates.length - 1] ?? null,
+    diagnostics,
+  };
+}
+
+export async function parseCSVStatement(
+  buffer: Buffer,
+  options: CsvParseOptions
+): Promise<ParseResult> {
+  const fileHash = generateFileHash(buffer);
+  const rows = parseCsvRows(decodeText(buffer), options.delimiter);
+  const result = parseCsvLines(rows, options);
+
+  return { ...result, fileHash };
+}
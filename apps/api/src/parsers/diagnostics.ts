@@ -0,0 +1,23 @@
+import type { ParseDiagnosticLine, ParseDiagnostics } from '@compasso/shared';
+
+// Enough to spot a pattern in a misparsed statement without bloating the response
+const MAX_DIAGNOSTIC_LINES = 200;
+
+export function createParseDiagnostics(): ParseDiagnostics {
+  return { skippedLines: [], dateWithoutAmount: [] };
+}
+
+/**
+ * Record a line the parser passed over. Lists stop growing at
+ * MAX_DIAGNOSTIC_LINES entries.
+ */
+export function addDiagnosticLine(
+  list: ParseDiagnosticLine[],
+  page: number | null,
+  line: number,
+  text: string
+): void {
+  if (list.length < MAX_DIAGNOSTIC_LINES) {
+    list.push({ page, line, text });
+  }
+}
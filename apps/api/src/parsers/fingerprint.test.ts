@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { StatementTemplateDefinition } from '@compasso/shared';
+import { findIbans, scoreFingerprint, getTemplateFingerprint } from './fingerprint.js';
+import { novoBancoData } from './novo-banco-data.js';
+import { cgdData } from './cgd-data.js';
+
+const novoBancoText = [
+  'Novo Banco, S.A. - Sede: Av. da Liberdade, 195, Lisboa',
+  'Extrato Integrado de 01.01.2025 a 31.01.2025',
+  'IBAN PT50 0007 0000 0012 3456 7892 3',
+  'MOVIMENTOS DE CONTA',
+].join('\n');
+
+describe('findIbans', () => {
+  it('should find IBANs printed with or without spaces', () => {
+    expect(findIbans('IBAN PT50 0007 0000 0012 3456 7892 3 / DE89370400440532013000')).toEqual([
+      'PT50000700000012345678923',
+      'DE89370400440532013000',
+    ]);
+  });
+
+  it('should ignore short codes and amounts', () => {
+    expect(findIbans('NIB 1.234,56 PT50 EUR')).toEqual([]);
+  });
+});
+
+describe('scoreFingerprint', () => {
+  it('should score the share of matched signals', () => {
+    expect(scoreFingerprint(novoBancoData.fingerprint, novoBancoText)).toBe(1);
+    expect(
+      scoreFingerprint(novoBancoData.fingerprint, 'Extrato Integrado de 01.01.2025 a 31.01.2025')
+    ).toBe(0.25);
+  });
+
+  it('should count a matching IBAN prefix as one signal', () => {
+    const text = 'Caixa Geral de Depósitos\nIBAN PT50 0035 0000 0012 3456 7890 1';
+    expect(scoreFingerprint(cgdData.fingerprint, text)).toBe(0.67);
+    expect(scoreFingerprint(cgdData.fingerprint, novoBancoText)).toBe(0);
+  });
+
+  it('should score 0 for a fingerprint without signals', () => {
+    expect(scoreFingerprint({ patterns: [] }, novoBancoText)).toBe(0);
+  });
+});
+
+describe('getTemplateFingerprint', () => {
+  const definition: StatementTemplateDefinition = {
+    dateFormat: 'DD/MM/YYYY',
+    decimalFormat: 'european',
+    transaction: { pattern: '^(?<date>\\d{2}/\\d{2}/\\d{4})\\s+' },
+    amountLayouts: [{ amount: 0 }],
+  };
+
+  it('should compile multiline patterns and normalize IBAN prefixes', () => {
+    const fingerprint = getTemplateFingerprint({
+      ...definition,
+      fingerprint: { patterns: ['/^millennium bcp$/i'], ibanPrefixes: ['pt50 0033'] },
+    });
+
+    expect(fingerprint.patterns[0].flags).toBe('im');
+    expect(fingerprint.ibanPrefixes).toEqual(['PT500033']);
+    expect(
+      scoreFingerprint(fingerprint, 'Extrato\nMillennium BCP\nPT50 0033 0000 1234 5678 9012 3')
+    ).toBe(1);
+  });
+
+  it('should return an empty fingerprint for templates without one', () => {
+    expect(getTemplateFingerprint(definition)).toEqual({ patterns: [], ibanPrefixes: undefined });
+  });
+});
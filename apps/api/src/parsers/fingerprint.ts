@@ -0,0 +1,47 @@
+import type { StatementTemplateDefinition } from '@compasso/shared';
+import type { BankFingerprint } from './types.js';
+import { compileTemplatePattern } from './template.js';
+
+// Country code, check digits and 10-30 alphanumerics, optionally printed in groups of four
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]{4}){2,7}(?:[ ]?[A-Z0-9]{1,3})?\b/g;
+
+/**
+ * Find IBAN-like strings in statement text, with spaces removed.
+ */
+export function findIbans(text: string): string[] {
+  return [...text.matchAll(IBAN_PATTERN)].map((m) => m[0].replace(/ /g, ''));
+}
+
+/**
+ * Score how well statement text matches a bank fingerprint: the share of its
+ * signals (each text pattern, plus one for the IBAN prefixes) that are found,
+ * rounded to two decimals. A fingerprint without signals scores 0.
+ */
+export function scoreFingerprint(fingerprint: BankFingerprint, text: string): number {
+  const hasIbanSignal = (fingerprint.ibanPrefixes?.length ?? 0) > 0;
+  const signals = fingerprint.patterns.length + (hasIbanSignal ? 1 : 0);
+  if (signals === 0) return 0;
+
+  let hits = fingerprint.patterns.filter((pattern) => pattern.test(text)).length;
+  if (hasIbanSignal) {
+    const ibans = findIbans(text);
+    if (ibans.some((iban) => fingerprint.ibanPrefixes!.some((prefix) => iban.startsWith(prefix)))) {
+      hits++;
+    }
+  }
+
+  return Math.round((hits / signals) * 100) / 100;
+}
+
+/**
+ * Build the fingerprint of a statement template. Templates without one are
+ * never auto-detected.
+ */
+export function getTemplateFingerprint(definition: StatementTemplateDefinition): BankFingerprint {
+  return {
+    patterns: (definition.fingerprint?.patterns ?? []).map((p) => compileTemplatePattern(p, 'm')),
+    ibanPrefixes: definition.fingerprint?.ibanPrefixes?.map((p) =>
+      p.replace(/ /g, '').toUpperCase()
+    ),
+  };
+}
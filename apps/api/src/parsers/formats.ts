@@ -0,0 +1,128 @@
+/**
+ * Format-driven value parsers shared by text-based importers (CSV profiles, OFX,
+ * camt, MT940).
+ *
+ * Unlike the bank-specific helpers in each parser file, these take the date and
+ * decimal format as arguments, so a single implementation serves any layout a
+ * user describes.
+ */
+
+const DATE_TOKEN_PATTERN = /YYYY|YY|MM|DD/g;
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parse a date string using a format such as "DD/MM/YYYY" or "YYYY-MM-DD".
+ * Returns an ISO date (YYYY-MM-DD), or null if the value doesn't match the
+ * format or isn't a real calendar date.
+ */
+export function parseDateWithFormat(value: string, format: string): string | null {
+  if (!value) return null;
+
+  const tokens: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(DATE_TOKEN_PATTERN)) {
+    source += escapeRegex(format.slice(lastIndex, match.index));
+    tokens.push(match[0]);
+    source += match[0] === 'YYYY' ? '(\\d{4})' : match[0] === 'YY' ? '(\\d{2})' : '(\\d{1,2})';
+    lastIndex = match.index! + match[0].length;
+  }
+  source += escapeRegex(format.slice(lastIndex));
+
+  const match = value.trim().match(new RegExp(`^${source}`));
+  if (!match) return null;
+
+  let year = 0;
+  let month = 0;
+  let day = 0;
+
+  tokens.forEach((token, i) => {
+    const n = parseInt(match[i + 1], 10);
+    if (token === 'YYYY') year = n;
+    else if (token === 'YY') year = n > 50 ? 1900 + n : 2000 + n;
+    else if (token === 'MM') month = n;
+    else day = n;
+  });
+
+  if (month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a monetary amount in European (1.234,56) or standard (1,234.56) format.
+ * Tolerates currency symbols, whitespace, a leading or trailing minus sign and
+ * accounting-style parentheses. Returns null for empty or unparseable values.
+ */
+export function parseAmount(value: string, decimalFormat: 'european' | 'standard'): number | null {
+  if (!value) return null;
+
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  // Keep only digits, separators and sign characters (drops "€", "EUR", spaces)
+  text = text.replace(/[^\d.,+-]/g, '');
+
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  const normalized =
+    decimalFormat === 'european'
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+
+  if (!/^\d+(\.\d+)?$/.test(normalized)) return null;
+
+  const amount = parseFloat(normalized);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Decode a text statement as UTF-8, falling back to Latin-1 (common in
+ * Portuguese bank exports) when the bytes aren't valid UTF-8. Strips the BOM.
+ */
+export function decodeText(buffer: Buffer): string {
+  const utf8 = buffer.toString('utf-8');
+  const text = utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+  return text.replace(/^\uFEFF/, '');
+}
+
+/**
+ * Cross-check a statement's closing balance against its opening balance plus
+ * the signed sum of its entries. Returns a warning message on a mismatch
+ * (compared in cents), or null when the balances reconcile.
+ */
+export function checkStatementBalance(
+  statementId: string,
+  opening: number,
+  entriesTotal: number,
+  closing: number
+): string | null {
+  const expected = Math.round((opening + entriesTotal) * 100) / 100;
+  if (Math.abs(expected - closing) < 0.005) return null;
+
+  return (
+    `Statement ${statementId}: opening balance ${opening.toFixed(2)} + entries ` +
+    `${entriesTotal.toFixed(2)} = ${expected.toFixed(2)}, but closing balance is ${closing.toFixed(2)}`
+  );
+}
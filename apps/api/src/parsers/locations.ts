@@ -0,0 +1,37 @@
+// Place names Portuguese banks append to card purchase descriptions
+// ("... PINGO DOCE LISBOA"), dropped when extracting merchant names
+export const PORTUGUESE_LOCATIONS = [
+  'Lisboa',
+  'Porto',
+  'Vila Nova de Gaia',
+  'Gaia',
+  'Matosinhos',
+  'Maia',
+  'Gondomar',
+  'Braga',
+  'Guimaraes',
+  'Coimbra',
+  'Aveiro',
+  'Leiria',
+  'Viseu',
+  'Setubal',
+  'Almada',
+  'Seixal',
+  'Barreiro',
+  'Amadora',
+  'Odivelas',
+  'Loures',
+  'Oeiras',
+  'Cascais',
+  'Sintra',
+  'Carcavelos',
+  'Evora',
+  'Faro',
+  'Portimao',
+  'Albufeira',
+  'Funchal',
+  'Ponta Delgada',
+  'Portugal',
+  'PT',
+  'PRT',
+];
@@ -0,0 +1,20 @@
+import type { BankParserDefinition } from './types.js';
+
+type BankParserData = Omit<BankParserDefinition, 'parse'>;
+
+// MT940 is a SWIFT standard shared by many banks, so there are no bank-specific patterns to seed
+export const mt940Data: BankParserData = {
+  config: {
+    id: 'mt940',
+    name: 'SWIFT MT940',
+    country: '',
+    currency: 'EUR',
+    dateFormat: 'YYMMDD',
+    decimalFormat: 'european',
+    format: 'mt940',
+  },
+  fingerprint: { patterns: [/:20:[\s\S]*:60[FM]:/] },
+  transactionPatterns: {},
+  merchantRules: { stripPatterns: [], locations: [] },
+  categoryPatterns: {},
+};
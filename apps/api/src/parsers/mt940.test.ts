@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { parseMt940Information, parseMt940Text, parseMT940Statement } from './mt940.js';
+
+const SINGLE_STATEMENT = `:20:STMT250131
+:25:PT50000700000000000000001
+:28C:1/1
+:60F:C241231EUR1000,00
+:61:2501030103D23,45NMSCNONREF//B5010300001
+:86:PINGO DOCE LISBOA
+COMPRA CARTAO 1234
+:61:2501250125C1500,NTRFSAL-JAN//B5012500001
+:86:?00GUTSCHRIFT?20SALARIO JANEIRO?32ACME?33LDA
+:61:250127D4,90NCHGNONREF
+:86:COMISSAO MANUTENCAO
+:62F:C250131EUR2471,65
+`;
+
+const SWIFT_FILE = `{1:F01BANKPTPLAXXX0000000000}{2:O9400000250301BANKPTPLAXXX00000000002503010000N}{3:{108:MT940}}{4:
+:20:STMT-A
+:25:11112222/333
+:28C:10/1
+:60F:C250228EUR100,00
+:61:2503010301C50,00NTRFREF1//BANKREF1
+/EXTRA DETAILS/
+:86:TRANSFER FROM JOHN
+:62F:C250301EUR150,00
+-}
+{1:F01BANKPTPLAXXX0000000000}{2:O9400000250302BANKPTPLAXXX00000000002503020000N}{4:
+:20:STMT-B
+:25:11112222/333
+:28C:11/1
+:60F:C250301EUR150,00
+:61:2503020302RC50,00NTRFREF1//BANKREF2
+:86:RETURN TRANSFER FROM JOHN
+:61:2503020302D10,00NMSCNONREF//BANKREF3
+:86:CARD FEE
+:62F:C250302EUR90,00
+-}
+`;
+
+describe('parseMt940Information', () => {
+  it('should join free-text lines', () => {
+    expect(parseMt940Information('PINGO DOCE LISBOA\nCOMPRA  CARTAO')).toBe(
+      'PINGO DOCE LISBOA COMPRA CARTAO'
+    );
+  });
+
+  it('should read structured ?NN subfields, name first', () => {
+    expect(parseMt940Information('166?00GUTSCHRIFT?20SVWZ+INV 42?21MARCH?32ACME GMBH')).toBe(
+      'ACME GMBH SVWZ+INV 42 MARCH'
+    );
+  });
+
+  it('should fall back to the posting text', () => {
+    expect(parseMt940Information('?00ENTGELT?10 931')).toBe('ENTGELT');
+  });
+});
+
+describe('parseMt940Text', () => {
+  it('should parse :61:/:86: pairs with dates, amounts and running balances', () => {
+    const result = parseMt940Text(SINGLE_STATEMENT);
+
+    expect(result.periodStart).toBe('2024-12-31');
+    expect(result.periodEnd).toBe('2025-01-31');
+    expect(result.transactions).toHaveLength(3);
+    expect(result.transactions[0]).toMatchObject({
+      date: '2025-01-03',
+      valueDate: '2025-01-03',
+      description: 'PINGO DOCE LISBOA COMPRA CARTAO 1234',
+      amount: 23.45,
+      balance: 976.55,
+      isIncome: false,
+      externalId: 'PT50000700000000000000001:B5010300001',
+      suggestedCategoryId: null,
+      suggestedCategoryName: null,
+    });
+    expect(result.transactions[1]).toMatchObject({
+      description: 'ACME LDA SALARIO JANEIRO',
+      amount: 1500,
+      balance: 2476.55,
+      isIncome: true,
+    });
+  });
+
+  it('should use the customer reference when :86: is missing', () => {
+    const result = parseMt940Text(
+      SINGLE_STATEMENT.replace(
+        ':61:250127D4,90NCHGNONREF\n:86:COMISSAO MANUTENCAO',
+        ':61:250127D4,90NCHGFEE-JAN'
+      )
+    );
+
+    expect(result.transactions[2]).toMatchObject({ description: 'FEE-JAN', amount: 4.9 });
+    expect(result.transactions[2].externalId).toBeUndefined();
+  });
+
+  it('should skip statement lines without any description', () => {
+    const result = parseMt940Text(SINGLE_STATEMENT.replace(':86:COMISSAO MANUTENCAO\n', ''));
+
+    expect(result.transactions).toHaveLength(2);
+    // The skipped line still counts towards the closing balance check
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should not warn when the closing balance reconciles', () => {
+    const result = parseMt940Text(SINGLE_STATEMENT);
+
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should warn when the closing balance does not match the entries', () => {
+    const result = parseMt940Text(
+      SINGLE_STATEMENT.replace('C250131EUR2471,65', 'C250131EUR2500,00')
+    );
+
+    expect(result.warnings).toEqual([
+      'Statement STMT250131: opening balance 1000.00 + entries 1471.65 = 2471.65, but closing balance is 2500.00',
+    ]);
+  });
+
+  it('should parse multi-statement files inside SWIFT blocks', () => {
+    const result = parseMt940Text(SWIFT_FILE);
+
+    expect(result.periodStart).toBe('2025-02-28');
+    expect(result.periodEnd).toBe('2025-03-02');
+    expect(result.warnings).toEqual([]);
+    expect(
+      result.transactions.map((tx) => [tx.date, tx.description, tx.amount, tx.isIncome, tx.balance])
+    ).toEqual([
+      ['2025-03-01', 'TRANSFER FROM JOHN', 50, true, 150],
+      ['2025-03-02', 'RETURN TRANSFER FROM JOHN', 50, false, 100],
+      ['2025-03-02', 'CARD FEE', 10, false, 90],
+    ]);
+    expect(result.transactions[0].externalId).toBe('11112222/333:BANKREF1');
+  });
+
+  it('should return the first opening and the last closing balance of the file', () => {
+    const result = parseMt940Text(SWIFT_FILE);
+
+    expect(result.openingBalance).toBe(100);
+    expect(result.closingBalance).toBe(90);
+  });
+
+  it('should return the account of the first statement', () => {
+    expect(parseMt940Text(SINGLE_STATEMENT).accountNumber).toBe('PT50000700000000000000001');
+    expect(parseMt940Text(SWIFT_FILE).accountNumber).toBe('11112222/333');
+  });
+
+  it('should reset the running balance for each statement', () => {
+    const result = parseMt940Text(
+      SWIFT_FILE.replace(':60F:C250301EUR150,00', ':60F:C250301EUR155,00')
+    );
+
+    expect(result.transactions[0].balance).toBe(150);
+    expect(result.transactions[1].balance).toBe(105);
+    expect(result.warnings).toEqual([
+      'Statement STMT-B: opening balance 155.00 + entries -60.00 = 95.00, but closing balance is 90.00',
+    ]);
+  });
+
+  it('should resolve entry dates across a year boundary', () => {
+    const result = parseMt940Text(':20:X\n:61:2501021231D5,00NMSCNONREF\n:86:LATE BOOKING\n');
+
+    expect(result.transactions[0]).toMatchObject({ date: '2024-12-31', valueDate: '2025-01-02' });
+  });
+
+  it('should return no transactions for text without statements', () => {
+    expect(parseMt940Text('hello')).toEqual({
+      transactions: [],
+      periodStart: null,
+      periodEnd: null,
+      warnings: [],
+      openingBalance: null,
+      closingBalance: null,
+      accountNumber: null,
+    });
+  });
+});
+
+describe('parseMT940Statement', () => {
+  it('should include the file hash', async () => {
+    const result = await parseMT940Statement(Buffer.from(SINGLE_STATEMENT, 'latin1'));
+
+    expect(result.fileHash).toHaveLength(64);
+    expect(result.transactions).toHaveLength(3);
+  });
+});
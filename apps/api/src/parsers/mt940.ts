@@ -0,0 +1,264 @@
+import type { ParsedTransaction, ParseResult } from '@compasso/shared';
+import { generateFileHash } from '../utils/fileHash.js';
+import type { BankParserDefinition } from './types.js';
+import { mt940Data } from './mt940-data.js';
+import { checkStatementBalance, decodeText } from './formats.js';
+
+/**
+ * Parser for SWIFT MT940 customer statements, including files that hold
+ * several statements back to back (with or without SWIFT {1:}..{4:} blocks).
+ *
+ * Algorithm: split the text into tagged fields → start a new statement at each
+ * :20: → read :25: (account), :60F:/:60M: (opening) and :62F:/:62M: (closing)
+ * balances → pair every :61: statement line with the :86: that follows it.
+ * :61: gives the dates, debit/credit mark and amount; :86: the description,
+ * either as free text or as ?NN subfields. Running balances are derived from
+ * the opening balance and the closing balance is cross-checked.
+ */
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+interface Mt940Balance {
+  amount: number;
+  date: string;
+}
+
+// Value date (YYMMDD), optional entry date (MMDD), mark (C, D, RC, RD), optional
+// funds code, amount, transaction type, customer reference[//bank reference][\n details]
+const STATEMENT_LINE_PATTERN =
+  /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+const BALANCE_PATTERN = /^([CD])(\d{6})([A-Z]{3})(\d+,\d*)/;
+const FIELD_START_PATTERN = /^:(\d{2}[A-Z]?):/;
+// SWIFT envelope: basic/application/user header blocks ({3:} may nest) and the opening of {4:
+const ENVELOPE_PATTERN = /^(?:\{[1-3]:(?:[^{}]|\{[^{}]*\})*\})*(?:\{4:)?/;
+
+// MT940 amounts have a decimal comma and no thousands separator ("1234,5", "100,")
+function parseMt940Amount(value: string): number {
+  return parseFloat(value.replace(',', '.')) || 0;
+}
+
+function parseMt940Date(value: string): string {
+  const year = parseInt(value.slice(0, 2), 10);
+  return `${year > 50 ? 1900 + year : 2000 + year}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+// The entry date has no year: take the value date's year, adjusted when the
+// two dates straddle a year boundary (e.g. booked 12-31, value date 01-02)
+function resolveEntryDate(valueDate: string, entryDate: string): string {
+  const year = parseInt(valueDate.slice(0, 4), 10);
+  const valueMonth = parseInt(valueDate.slice(5, 7), 10);
+  const entryMonth = parseInt(entryDate.slice(0, 2), 10);
+
+  let entryYear = year;
+  if (entryMonth - valueMonth > 6) entryYear--;
+  else if (valueMonth - entryMonth > 6) entryYear++;
+
+  return `${entryYear}-${entryDate.slice(0, 2)}-${entryDate.slice(2, 4)}`;
+}
+
+function splitFields(text: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    // Drop SWIFT envelope headers and the "-}" / "-" message trailers
+    const line = rawLine.replace(ENVELOPE_PATTERN, '');
+    if (/^-(\}|\s*$)/.test(line)) continue;
+
+    const match = line.match(FIELD_START_PATTERN);
+    if (match) {
+      fields.push({ tag: match[1], value: line.slice(match[0].length) });
+    } else if (fields.length > 0 && line.trim()) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+}
+
+function parseBalance(value: string): Mt940Balance | null {
+  const match = value.match(BALANCE_PATTERN);
+  if (!match) return null;
+  const amount = parseMt940Amount(match[4]);
+  return { amount: match[1] === 'D' ? -amount : amount, date: parseMt940Date(match[2]) };
+}
+
+/**
+ * Build a description from :86: information. Structured (German-style)
+ * subfields start with "?NN": ?00 is the posting text, ?20-?29 and ?60-?63
+ * the remittance lines, ?32-?33 the counterparty name. Anything else is
+ * treated as free text.
+ */
+export function parseMt940Information(value: string): string {
+  const text = value.replace(/\r?\n/g, '');
+
+  if (!/\?\d{2}/.test(text)) {
+    return value.replace(/\s+/g, ' ').trim();
+  }
+
+  const subfields = new Map<number, string>();
+  for (const match of text.matchAll(/\?(\d{2})([^?]*)/g)) {
+    subfields.set(parseInt(match[1], 10), match[2].trim());
+  }
+
+  const pick = (from: number, to: number) =>
+    [...subfields.entries()]
+      .filter(([code, content]) => code >= from && code <= to && content)
+      .sort(([a], [b]) => a - b)
+      .map(([, content]) => content)
+      .join(' ');
+
+  const name = pick(32, 33);
+  const remittance = [pick(20, 29), pick(60, 63)].filter(Boolean).join(' ');
+  const parts = [name, remittance].filter(Boolean);
+
+  return (parts.length > 0 ? parts.join(' ') : (subfields.get(0) ?? ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function parseMt940Text(text: string): Omit<ParseResult, 'fileHash'> {
+  const transactions: ParsedTransaction[] = [];
+  const warnings: string[] = [];
+  const periodStarts: string[] = [];
+  const periodEnds: string[] = [];
+
+  let statementId = '';
+  let account: string | null = null;
+  let opening: Mt940Balance | null = null;
+  // Of the whole file: the first statement's opening and the last statement's closing balance
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  // The first statement's account identifies the file's account
+  let accountNumber: string | null = null;
+  let runningBalance: number | null = null;
+  let entriesTotal = 0;
+  let statementCount = 0;
+  let pending: ParsedTransaction | null = null;
+  let pendingDetails = '';
+  let pendingReference = '';
+
+  const flushPending = () => {
+    if (!pending) return;
+    pending.description ||= pendingDetails || pendingReference;
+    if (pending.description) transactions.push(pending);
+    pending = null;
+  };
+
+  for (const { tag, value } of splitFields(text)) {
+    switch (tag) {
+      case '20':
+        flushPending();
+        statementCount++;
+        statementId = value.trim() || `#${statementCount}`;
+        account = null;
+        opening = null;
+        runningBalance = null;
+        entriesTotal = 0;
+        break;
+      case '25':
+        account = value.trim() || null;
+        accountNumber ??= account;
+        break;
+      case '60F':
+      case '60M':
+        opening = parseBalance(value);
+        runningBalance = opening?.amount ?? null;
+        if (opening) periodStarts.push(opening.date);
+        if (opening && openingBalance === null) openingBalance = opening.amount;
+        break;
+      case '61': {
+        flushPending();
+        const match = value.match(STATEMENT_LINE_PATTERN);
+        if (!match) break;
+
+        const [, valueDateRaw, entryDateRaw, mark, , amountRaw, , customerRef, bankRef, details] =
+          match;
+        const valueDate = parseMt940Date(valueDateRaw);
+        const date = entryDateRaw ? resolveEntryDate(valueDate, entryDateRaw) : valueDate;
+        const amount = parseMt940Amount(amountRaw);
+        // RC (reversal of credit) is a debit, RD (reversal of debit) a credit
+        const isIncome = mark === 'C' || mark === 'RD';
+        const signedAmount = isIncome ? amount : -amount;
+
+        entriesTotal += signedAmount;
+        if (runningBalance !== null) {
+          runningBalance = Math.round((runningBalance + signedAmount) * 100) / 100;
+        }
+
+        const bankReference = bankRef?.trim();
+        pending = {
+          date,
+          valueDate,
+          description: '',
+          amount,
+          balance: runningBalance,
+          isIncome,
+          rawText: `:61:${value.replace(/\s+/g, ' ').trim()}`,
+          suggestedCategoryId: null,
+          suggestedCategoryName: null,
+          ...(bankReference && {
+            externalId: account ? `${account}:${bankReference}` : bankReference,
+          }),
+        };
+        pendingDetails = details?.replace(/\s+/g, ' ').trim() ?? '';
+        pendingReference = customerRef.trim() === 'NONREF' ? '' : customerRef.trim();
+        break;
+      }
+      case '86':
+        if (pending) {
+          pending.description = parseMt940Information(value);
+          pending.rawText += ` :86:${value.replace(/\s+/g, ' ').trim()}`;
+        }
+        break;
+      case '62F':
+      case '62M': {
+        flushPending();
+        const closing = parseBalance(value);
+        if (!closing) break;
+        periodEnds.push(closing.date);
+        closingBalance = closing.amount;
+        if (opening) {
+          const warning = checkStatementBalance(
+            statementId,
+            opening.amount,
+            entriesTotal,
+            closing.amount
+          );
+          if (warning) warnings.push(warning);
+        }
+        break;
+      }
+    }
+  }
+  flushPending();
+
+  // Fall back to the transaction date range when balances are missing
+  const dates = transactions.map((tx) => tx.date);
+  const starts = periodStarts.length > 0 ? periodStarts : dates;
+  const ends = periodEnds.length > 0 ? periodEnds : dates;
+
+  return {
+    transactions,
+    periodStart: starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : null,
+    periodEnd: ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : null,
+    warnings,
+    openingBalance,
+    closingBalance,
+    accountNumber,
+  };
+}
+
+export async function parseMT940Statement(buffer: Buffer): Promise<ParseResult> {
+  const fileHash = generateFileHash(buffer);
+  const result = parseMt940Text(decodeText(buffer));
+
+  return { ...result, fileHash };
+}
+
+export const mt940: BankParserDefinition = {
+  ...mt940Data,
+  parse: parseMT940Statement,
+};
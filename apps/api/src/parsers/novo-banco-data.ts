@@ -1,4 +1,6 @@
+import type { StatementTemplateDefinition } from '@compasso/shared';
 import type { BankParserDefinition } from './types.js';
+import { PORTUGUESE_LOCATIONS } from './locations.js';
 
 type BankParserData = Omit<BankParserDefinition, 'parse'>;
 
@@ -10,6 +12,11 @@ export const novoBancoData: BankParserData = {
     currency: 'EUR',
     dateFormat: 'DD.MM.YY',
     decimalFormat: 'european',
+    format: 'pdf',
+  },
+  fingerprint: {
+    patterns: [/Extrato Integrado/i, /Novo Banco, S\.A\./i, /MOVIMENTOS DE CONTA/],
+    ibanPrefixes: ['PT500007'],
   },
   transactionPatterns: {
     CARD_PURCHASE: /^Compra\s+(Mb\s+)?Cartão|^Compra\s+Mbway/i,
@@ -22,6 +29,20 @@ export const novoBancoData: BankParserData = {
     STANDING_ORDER: /^Ordem\s+Permanente/i,
     BANK_FEE: /^Manutencao\s+Conta|^Imposto\s+Do\s+Selo/i,
   },
+  merchantRules: {
+    // "Compra Mb Cartão 1234 Pingo Doce Lisboa" -> "Pingo Doce"
+    stripPatterns: [
+      /^Compra\s+(Mb\s+)?Cartão\s+(\d{4}\s+)?/i,
+      /^Compra\s+Mbway\s+/i,
+      /^Cobrança\s+Sdd\s+/i,
+      /^Trf\s+(Imediata\s+)?Sepa\+?\s+(De|App)\s+/i,
+      /^Trf\s+Cred\s+(Sepa|Intrab)\s+/i,
+      /^Pag\s+Serv\s+/i,
+      /^Pagamento\s+Prestação\s+/i,
+      /^Ordem\s+Permanente\s+/i,
+    ],
+    locations: PORTUGUESE_LOCATIONS,
+  },
   categoryPatterns: {
     Groceries: ['Pingo Doce', 'Lidl', 'Continente', 'Aldi', 'Mercadona', 'Intermarche', 'Frutaria'],
     Fuel: ['BP', 'Disa', 'Petrogal', 'Galp', 'Repsol', 'Cepsa'],
@@ -38,3 +59,59 @@ export const novoBancoData: BankParserData = {
     Cash: ['Levantamento'],
   },
 };
+
+// "Extrato Integrado" layout: transactions live in "MOVIMENTOS DE CONTA" sections.
+// Rows are read by the Débito/Crédito/Saldo columns; as text, lines have either three
+// amounts or a merged amount + balance.
+export const novoBancoTemplate: StatementTemplateDefinition = {
+  dateFormat: 'DD.MM.YY',
+  decimalFormat: 'european',
+  period: {
+    pattern: '/de\\s+(\\d{2}\\.\\d{2}\\.\\d{4})\\s+a\\s+(\\d{2}\\.\\d{2}\\.\\d{4})/i',
+    dateFormat: 'DD.MM.YYYY',
+  },
+  sections: {
+    start: ['MOVIMENTOS DE CONTA'],
+    end: ['SALDO CONTABILÍSTICO', '^(?!.*MOVIMENTOS).*TOTAL', 'MOVIMENTOS DE(?! CONTA)'],
+  },
+  // Column headers, single-word layout artifacts and page headers/footers
+  skipLines: [
+    'Data Descritivo',
+    'Débito Crédito',
+    'Saldo \\(Euros\\)',
+    '^(Data|Valor|Online|Banco|Digital|-|DN|Computador|por|Processado|EXTINT05)$',
+    'Extrato Integrado',
+    'Novo Banco, S\\.A\\.',
+    'Taguspark,',
+    'Atendimento personalizado',
+    'pessoa coletiva',
+    'capital social de',
+    'fins de semana e feriados',
+    '^CONTA.*DO nº',
+  ],
+  // Sidebar artifact "-" that sometimes lands on the same Y as a transaction
+  stripPatterns: ['^-\\s+(?=\\d{2}\\.\\d{2}\\.\\d{2}\\s)'],
+  openingBalancePattern: 'SALDO ANTERIOR',
+  closingBalancePattern: 'SALDO CONTABILÍSTICO',
+  transaction: {
+    pattern: '^(?<date>\\d{2}\\.\\d{2}\\.\\d{2})\\s+(?:(?<valueDate>\\d{2}\\.\\d{2}\\.\\d{2})\\s+)?',
+    amountPattern: '-?\\s?[\\d.]+,\\d{2}',
+  },
+  amountLayouts: [
+    { count: 3, debit: 0, credit: 1, balance: 2 },
+    { amount: -2, balance: -1, incomeFrom: 'balance' },
+  ],
+  // Below the column header, debit and credit are told apart by position
+  columns: {
+    headers: {
+      date: '^Data',
+      description: '^Descritivo',
+      debit: '^Débito',
+      credit: '^Crédito',
+      balance: '^Saldo',
+    },
+  },
+  continuation: 'append',
+  // Without a previous balance: "trf ... de" = transfer from, "reembolso" = refund
+  incomePatterns: ['/(?=.*trf)(?=.* de )/i', '/reembolso/i'],
+};
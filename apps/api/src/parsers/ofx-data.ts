@@ -0,0 +1,20 @@
+import type { BankParserDefinition } from './types.js';
+
+type BankParserData = Omit<BankParserDefinition, 'parse'>;
+
+// OFX/QFX is a bank-agnostic format, so there are no bank-specific patterns to seed
+export const ofxData: BankParserData = {
+  config: {
+    id: 'ofx',
+    name: 'OFX / QFX',
+    country: '',
+    currency: 'EUR',
+    dateFormat: 'YYYYMMDD',
+    decimalFormat: 'standard',
+    format: 'ofx',
+  },
+  fingerprint: { patterns: [/OFXHEADER|<OFX>/i] },
+  transactionPatterns: {},
+  merchantRules: { stripPatterns: [], locations: [] },
+  categoryPatterns: {},
+};
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { parseOfxDate, parseOfxText, parseOFXStatement } from './ofx.js';
+
+const SGML_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20250201120000<LANGUAGE>POR</SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM>
+<BANKID>0007
+<ACCTID>123456789
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250101
+<DTEND>20250131235959[+0:GMT]
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250103
+<DTAVAIL>20250104
+<TRNAMT>-23.45
+<FITID>2025010300001
+<NAME>PINGO DOCE LISBOA
+<MEMO>Compra cartao 1234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250125100000.000[+1:WET]
+<TRNAMT>1500.00
+<FITID>2025012500001
+<NAME>SALARIO
+<MEMO>SALARIO
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250127
+<TRNAMT>-4,90
+<FITID>2025012700001
+<NAME>A&amp;B CAFE
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>2476.55<DTASOF>20250131</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+const XML_STATEMENT = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <TRNUID>1</TRNUID>
+      <CCSTMTRS>
+        <CURDEF>EUR</CURDEF>
+        <CCACCTFROM><ACCTID>4111XXXXXXXX1111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>20250201000000</DTSTART>
+          <DTEND>20250228000000</DTEND>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20250210</DTPOSTED>
+            <TRNAMT>-59.99</TRNAMT>
+            <FITID>CC-001</FITID>
+            <NAME>Amazon EU</NAME>
+            <MEMO>Order 123-456</MEMO>
+          </STMTTRN>
+          <STMTTRN>
+            <TRNTYPE>CREDIT</TRNTYPE>
+            <DTPOSTED>20250215</DTPOSTED>
+            <TRNAMT>10.00</TRNAMT>
+            <FITID>CC-002</FITID>
+            <MEMO>Refund</MEMO>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+describe('parseOfxDate', () => {
+  it('should parse date-only and date-time values', () => {
+    expect(parseOfxDate('20250103')).toBe('2025-01-03');
+    expect(parseOfxDate('20250125100000.000[+1:WET]')).toBe('2025-01-25');
+  });
+
+  it('should return null for missing or malformed values', () => {
+    expect(parseOfxDate(null)).toBeNull();
+    expect(parseOfxDate('2025-01-03')).toBeNull();
+  });
+});
+
+describe('parseOfxText', () => {
+  it('should parse OFX 1.x SGML statements', () => {
+    const result = parseOfxText(SGML_STATEMENT);
+
+    expect(result.periodStart).toBe('2025-01-01');
+    expect(result.periodEnd).toBe('2025-01-31');
+    expect(result.accountNumber).toBe('123456789');
+    expect(result.transactions).toHaveLength(3);
+    expect(result.transactions[0]).toMatchObject({
+      date: '2025-01-03',
+      valueDate: '2025-01-04',
+      description: 'PINGO DOCE LISBOA Compra cartao 1234',
+      amount: 23.45,
+      balance: 981.45,
+      isIncome: false,
+      externalId: '123456789:2025010300001',
+      suggestedCategoryId: null,
+      suggestedCategoryName: null,
+    });
+  });
+
+  it('should not repeat a memo that matches the name', () => {
+    const result = parseOfxText(SGML_STATEMENT);
+
+    expect(result.transactions[1]).toMatchObject({
+      date: '2025-01-25',
+      valueDate: '2025-01-25',
+      description: 'SALARIO',
+      amount: 1500,
+      isIncome: true,
+    });
+  });
+
+  it('should decode entities and accept a decimal comma', () => {
+    const result = parseOfxText(SGML_STATEMENT);
+
+    expect(result.transactions[2]).toMatchObject({ description: 'A&B CAFE', amount: 4.9 });
+  });
+
+  it('should parse OFX 2.x XML credit card statements', () => {
+    const result = parseOfxText(XML_STATEMENT);
+
+    expect(result.periodStart).toBe('2025-02-01');
+    expect(result.periodEnd).toBe('2025-02-28');
+    expect(result.transactions.map((tx) => [tx.description, tx.amount, tx.isIncome, tx.externalId])).toEqual([
+      ['Amazon EU Order 123-456', 59.99, false, '4111XXXXXXXX1111:CC-001'],
+      ['Refund', 10, true, '4111XXXXXXXX1111:CC-002'],
+    ]);
+  });
+
+  it('should work the running balances back from the ledger balance', () => {
+    // The earliest transaction listed last: balances still follow the dates
+    const text = SGML_STATEMENT.replace(
+      /<STMTTRN>\n<TRNTYPE>DEBIT\n<DTPOSTED>20250103[\s\S]*?<\/STMTTRN>\n/,
+      ''
+    ).replace('</BANKTRANLIST>', `<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250103<TRNAMT>-23.45<FITID>1<NAME>PINGO DOCE</STMTTRN>
+</BANKTRANLIST>`);
+
+    const result = parseOfxText(text);
+
+    expect(result.closingBalance).toBe(2476.55);
+    expect(result.transactions.map((tx) => [tx.date, tx.balance])).toEqual([
+      ['2025-01-25', 2481.45],
+      ['2025-01-27', 2476.55],
+      ['2025-01-03', 981.45],
+    ]);
+  });
+
+  it('should leave balances out without a ledger balance closing the list', () => {
+    const stale = SGML_STATEMENT.replace('<DTASOF>20250131', '<DTASOF>20250126');
+
+    expect(parseOfxText(stale).transactions.map((tx) => tx.balance)).toEqual([null, null, null]);
+    expect(parseOfxText(stale).closingBalance).toBeNull();
+    expect(parseOfxText(XML_STATEMENT).transactions.map((tx) => tx.balance)).toEqual([null, null]);
+  });
+
+  it('should fall back to transaction dates when the period is missing', () => {
+    const text = XML_STATEMENT.replace(/<DTSTART>.*<\/DTSTART>/, '').replace(/<DTEND>.*<\/DTEND>/, '');
+
+    const result = parseOfxText(text);
+
+    expect(result.periodStart).toBe('2025-02-10');
+    expect(result.periodEnd).toBe('2025-02-15');
+  });
+
+  it('should return no transactions for a file without statements', () => {
+    const result = parseOfxText('<OFX></OFX>');
+
+    expect(result).toEqual({
+      transactions: [],
+      periodStart: null,
+      periodEnd: null,
+      closingBalance: null,
+      accountNumber: null,
+    });
+  });
+});
+
+describe('parseOFXStatement', () => {
+  it('should include the file hash', async () => {
+    const result = await parseOFXStatement(Buffer.from(SGML_STATEMENT, 'latin1'));
+
+    expect(result.fileHash).toHaveLength(64);
+    expect(result.transactions).toHaveLength(3);
+  });
+});
@@ -0,0 +1,166 @@
+import type { ParsedTransaction, ParseResult } from '@compasso/shared';
+import { generateFileHash } from '../utils/fileHash.js';
+import type { BankParserDefinition } from './types.js';
+import { ofxData } from './ofx-data.js';
+import { decodeText, parseAmount } from './formats.js';
+
+/**
+ * Parser for OFX 1.x (SGML) and 2.x (XML) statements, including Quicken QFX.
+ *
+ * Algorithm: decode text → find each bank (STMTRS) or credit card (CCSTMTRS)
+ * statement → read the account ID and BANKTRANLIST period → map every STMTTRN
+ * to a transaction. Leaf elements are read with an open-tag regex, which works
+ * for both SGML (unclosed leaves) and XML. TRNAMT is signed: positive = income.
+ * FITID, prefixed with the account ID, becomes the transaction's externalId.
+ * OFX has no per-row balance: with a LEDGERBAL as of the end of the list, the
+ * running balances are worked back from it in date order.
+ */
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' ',
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos|nbsp);/gi, (entity) => ENTITIES[entity.toLowerCase()]);
+}
+
+// All <TAG>...</TAG> aggregates with the given name
+function findAggregates(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return [...text.matchAll(pattern)].map((match) => match[1]);
+}
+
+// Value of the first leaf element with the given name (closing tag optional)
+function readElement(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return null;
+  const value = decodeEntities(match[1]).trim();
+  return value || null;
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]) to YYYY-MM-DD.
+ */
+export function parseOfxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+// OFX amounts use a dot, but some banks emit a decimal comma
+function parseOfxAmount(value: string | null): number | null {
+  if (!value) return null;
+  const decimalComma = value.includes(',') && !value.includes('.');
+  return parseAmount(value, decimalComma ? 'european' : 'standard');
+}
+
+/**
+ * Set each transaction's balance, walking back from the balance after the
+ * latest one. Transactions on the same day keep their statement order.
+ */
+function applyRunningBalances(transactions: ParsedTransaction[], closingBalance: number): void {
+  const byDate = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  let balance = closingBalance;
+  for (let i = byDate.length - 1; i >= 0; i--) {
+    byDate[i].balance = balance;
+    const signedAmount = byDate[i].isIncome ? byDate[i].amount : -byDate[i].amount;
+    balance = Math.round((balance - signedAmount) * 100) / 100;
+  }
+}
+
+function buildDescription(name: string | null, memo: string | null): string {
+  if (!name) return memo ?? '';
+  if (!memo || name.toUpperCase().includes(memo.toUpperCase())) return name;
+  if (memo.toUpperCase().includes(name.toUpperCase())) return memo;
+  return `${name} ${memo}`;
+}
+
+export function parseOfxText(text: string): Omit<ParseResult, 'fileHash'> {
+  const transactions: ParsedTransaction[] = [];
+  const periodStarts: string[] = [];
+  const periodEnds: string[] = [];
+  let accountNumber: string | null = null;
+  let closingBalance: number | null = null;
+
+  const statements = [...findAggregates(text, 'STMTRS'), ...findAggregates(text, 'CCSTMTRS')];
+
+  for (const statement of statements) {
+    const accountId = readElement(statement, 'ACCTID');
+    accountNumber ??= accountId;
+
+    const tranList = findAggregates(statement, 'BANKTRANLIST')[0] ?? statement;
+    const dtStart = parseOfxDate(readElement(tranList, 'DTSTART'));
+    const dtEnd = parseOfxDate(readElement(tranList, 'DTEND'));
+    if (dtStart) periodStarts.push(dtStart);
+    if (dtEnd) periodEnds.push(dtEnd);
+
+    const statementTransactions: ParsedTransaction[] = [];
+    for (const block of findAggregates(tranList, 'STMTTRN')) {
+      const date = parseOfxDate(readElement(block, 'DTPOSTED'));
+      const signedAmount = parseOfxAmount(readElement(block, 'TRNAMT'));
+      if (!date || signedAmount === null) continue;
+
+      const description = buildDescription(readElement(block, 'NAME'), readElement(block, 'MEMO'))
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (!description) continue;
+
+      const fitId = readElement(block, 'FITID');
+
+      statementTransactions.push({
+        date,
+        valueDate: parseOfxDate(readElement(block, 'DTAVAIL')) ?? date,
+        description,
+        amount: Math.abs(signedAmount),
+        balance: null,
+        isIncome: signedAmount > 0,
+        rawText: block.replace(/\s+/g, ' ').trim(),
+        suggestedCategoryId: null,
+        suggestedCategoryName: null,
+        ...(fitId && { externalId: accountId ? `${accountId}:${fitId}` : fitId }),
+      });
+    }
+
+    // A ledger balance dated before the last transaction doesn't close the list
+    const ledgerBalance = findAggregates(statement, 'LEDGERBAL')[0];
+    const balanceAmount = ledgerBalance ? parseOfxAmount(readElement(ledgerBalance, 'BALAMT')) : null;
+    const balanceDate = ledgerBalance ? parseOfxDate(readElement(ledgerBalance, 'DTASOF')) : null;
+    const lastDate = statementTransactions.reduce((last, tx) => (tx.date > last ? tx.date : last), '');
+    if (balanceAmount !== null && (!balanceDate || balanceDate >= lastDate)) {
+      applyRunningBalances(statementTransactions, balanceAmount);
+      closingBalance = balanceAmount;
+    }
+
+    transactions.push(...statementTransactions);
+  }
+
+  // Fall back to the transaction date range when BANKTRANLIST has no period
+  const dates = transactions.map((tx) => tx.date);
+  const starts = periodStarts.length > 0 ? periodStarts : dates;
+  const ends = periodEnds.length > 0 ? periodEnds : dates;
+
+  return {
+    transactions,
+    periodStart: starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : null,
+    periodEnd: ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : null,
+    closingBalance,
+    accountNumber,
+  };
+}
+
+export async function parseOFXStatement(buffer: Buffer): Promise<ParseResult> {
+  const fileHash = generateFileHash(buffer);
+  const result = parseOfxText(decodeText(buffer));
+
+  return { ...result, fileHash };
+}
+
+export const ofx: BankParserDefinition = {
+  ...ofxData,
+  parse: parseOFXStatement,
+};
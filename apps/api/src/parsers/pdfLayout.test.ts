@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clusterRows,
+  buildCells,
+  detectColumns,
+  assignColumn,
+  buildLayout,
+  type PdfTextItem,
+} from './pdfLayout.js';
+
+// Items of one word: width of 5 units per character
+function item(text: string, x: number, y: number): PdfTextItem {
+  return { text, x, y, width: text.length * 5 };
+}
+
+const headers = {
+  date: /^Data/,
+  description: /^Descritivo/,
+  debit: /^Débito/,
+  credit: /^Crédito/,
+  balance: /^Saldo/,
+};
+
+const headerItems = [
+  item('Data', 10, 700),
+  item('Descritivo', 80, 700),
+  item('Débito', 300, 700),
+  item('Crédito', 380, 700),
+  item('Saldo', 460, 700),
+];
+
+describe('clusterRows', () => {
+  it('should group items within the Y tolerance, top to bottom and left to right', () => {
+    const rows = clusterRows([
+      item('b', 50, 500),
+      item('c', 10, 480),
+      item('a', 10, 501.5),
+      item('d', 10, 470),
+    ]);
+
+    expect(rows.map((row) => row.map((i) => i.text))).toEqual([['a', 'b'], ['c'], ['d']]);
+  });
+
+  it('should not chain rows through items that drift within the tolerance', () => {
+    const rows = clusterRows([item('a', 0, 100), item('b', 10, 98.5), item('c', 20, 97)]);
+
+    expect(rows.map((row) => row.map((i) => i.text))).toEqual([['a', 'b'], ['c']]);
+  });
+});
+
+describe('buildCells', () => {
+  it('should merge items separated by less than the cell gap', () => {
+    const cells = buildCells([
+      item('COMPRA', 80, 600),
+      item('CONTINENTE', 113, 600),
+      item('25,3', 300, 600),
+      item('0', 320, 600),
+      item(' ', 330, 600),
+    ]);
+
+    expect(cells.map((c) => [c.text, c.x, c.right])).toEqual([
+      ['COMPRA CONTINENTE', 80, 163],
+      ['25,30', 300, 325],
+    ]);
+  });
+});
+
+describe('detectColumns', () => {
+  it('should locate the columns of a header row', () => {
+    const columns = detectColumns(buildCells(headerItems), headers);
+
+    expect(columns).toEqual([
+      { name: 'date', x: 10, right: 30 },
+      { name: 'description', x: 80, right: 130 },
+      { name: 'debit', x: 300, right: 330 },
+      { name: 'credit', x: 380, right: 415 },
+      { name: 'balance', x: 460, right: 485 },
+    ]);
+  });
+
+  it('should accept a single header word alone on its row but not inside a line', () => {
+    expect(detectColumns(buildCells([item('Saldo', 460, 700)]), headers)).toHaveLength(1);
+    expect(
+      detectColumns(buildCells([item('Saldo', 10, 700), item('1.000,00', 460, 700)]), headers)
+    ).toBeNull();
+  });
+});
+
+describe('assignColumn', () => {
+  const columns = detectColumns(buildCells(headerItems), headers)!;
+
+  it('should pick the overlapped header, else the nearest', () => {
+    expect(assignColumn({ text: '25,30', x: 305, right: 330, column: null }, columns)).toBe(
+      'debit'
+    );
+    expect(assignColumn({ text: '1.074,70', x: 488, right: 528, column: null }, columns)).toBe(
+      'balance'
+    );
+    expect(assignColumn({ text: 'TRF', x: 60, right: 75, column: null }, columns)).toBe(
+      'description'
+    );
+  });
+});
+
+describe('buildLayout', () => {
+  it('should number rows per page and assign cells once a header is seen', () => {
+    const rows = buildLayout(
+      [
+        {
+          page: 1,
+          items: [
+            item('Extrato', 10, 780),
+            ...headerItems,
+            item('02.01.25', 10, 680),
+            item('COMPRA', 80, 680),
+            item('25,30', 305, 680),
+            item('974,70', 470, 680),
+          ],
+        },
+        { page: 2, items: [item('05.01.25', 10, 780), item('100,00', 385, 780)] },
+      ],
+      { columns: headers }
+    );
+
+    expect(rows.map((row) => [row.page, row.line, row.header, row.text])).toEqual([
+      [1, 1, false, 'Extrato'],
+      [1, 2, true, 'Data Descritivo Débito Crédito Saldo'],
+      [1, 3, false, '02.01.25 COMPRA 25,30 974,70'],
+      [2, 1, false, '05.01.25 100,00'],
+    ]);
+    expect(rows[0].cells[0].column).toBeNull();
+    expect(rows[2].cells.map((c) => c.column)).toEqual(['date', 'description', 'debit', 'balance']);
+    expect(rows[3].cells.map((c) => c.column)).toEqual(['date', 'credit']);
+  });
+
+  it('should leave cells unassigned without column headers', () => {
+    const rows = buildLayout([{ page: 1, items: headerItems }]);
+
+    expect(rows[0].header).toBe(false);
+    expect(rows[0].cells.every((c) => c.column === null)).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Column-aware layout of PDF text, shared by all PDF parsers.
+ *
+ * Algorithm: text items are clustered into rows by Y position (items within
+ * a tolerance of the row's first item share the row) → rows are ordered top
+ * to bottom and items left to right → neighbouring items separated by less
+ * than a word gap are merged into cells → when column headers are given, a
+ * row whose cells match them sets each column's X range, and the cells of
+ * later rows are assigned to the column they overlap (or the nearest one).
+ *
+ * The functions here are pure; reading items from a PDF lives in pdfText.ts.
+ */
+
+export interface PdfTextItem {
+  text: string;
+  x: number; // Left edge, in PDF units
+  y: number; // Baseline, PDF coordinates grow upwards
+  width: number;
+}
+
+export interface PdfPageItems {
+  page: number; // 1-based
+  items: PdfTextItem[];
+}
+
+export interface LayoutCell {
+  text: string;
+  x: number;
+  right: number;
+  column: string | null; // Null until a header row has been seen
+}
+
+export interface LayoutRow {
+  page: number; // 1-based
+  line: number; // 1-based, counted top to bottom within the page
+  y: number;
+  text: string; // All items joined left to right
+  cells: LayoutCell[];
+  header: boolean; // The row set the column positions
+}
+
+export interface LayoutColumn {
+  name: string;
+  x: number;
+  right: number;
+}
+
+export interface LayoutOptions {
+  yTolerance?: number; // Max Y distance between items on the same row
+  cellGap?: number; // Max horizontal gap between items of the same cell
+  columns?: Record<string, RegExp>; // Header label pattern per column
+}
+
+const DEFAULT_Y_TOLERANCE = 2;
+const DEFAULT_CELL_GAP = 5;
+
+/**
+ * Cluster text items into rows, top to bottom, each row ordered left to right.
+ */
+export function clusterRows(
+  items: PdfTextItem[],
+  yTolerance = DEFAULT_Y_TOLERANCE
+): PdfTextItem[][] {
+  const sorted = [...items].sort((a, b) => b.y - a.y);
+  const rows: { y: number; items: PdfTextItem[] }[] = [];
+
+  for (const item of sorted) {
+    const current = rows[rows.length - 1];
+    // Compare with the row's first item so slanted runs of items don't chain rows together
+    if (current && current.y - item.y <= yTolerance) {
+      current.items.push(item);
+    } else {
+      rows.push({ y: item.y, items: [item] });
+    }
+  }
+
+  return rows.map((row) => row.items.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Merge the items of a row into cells. Whitespace-only items are dropped.
+ */
+export function buildCells(rowItems: PdfTextItem[], cellGap = DEFAULT_CELL_GAP): LayoutCell[] {
+  const cells: LayoutCell[] = [];
+
+  for (const item of rowItems) {
+    const text = item.text.trim();
+    if (!text) continue;
+
+    const right = item.x + item.width;
+    const current = cells[cells.length - 1];
+    if (current && item.x - current.right <= cellGap) {
+      // Touching items are fragments of one word
+      current.text += item.x - current.right > 0.5 ? ` ${text}` : text;
+      current.right = Math.max(current.right, right);
+    } else {
+      cells.push({ text, x: item.x, right, column: null });
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Find the header cells of a row. A row is a header when at least two of its
+ * cells match column headers, or when all of its cells do (a header wrapped
+ * over several lines). Returns null for other rows.
+ */
+export function detectColumns(
+  cells: LayoutCell[],
+  headers: Record<string, RegExp>
+): LayoutColumn[] | null {
+  const columns: LayoutColumn[] = [];
+  const used = new Set<LayoutCell>();
+
+  for (const [name, pattern] of Object.entries(headers)) {
+    const cell = cells.find((c) => !used.has(c) && pattern.test(c.text));
+    if (!cell) continue;
+    used.add(cell);
+    columns.push({ name, x: cell.x, right: cell.right });
+  }
+
+  const isHeader = columns.length >= 2 || (columns.length > 0 && used.size === cells.length);
+  return isHeader ? columns : null;
+}
+
+/**
+ * The column a cell belongs to: the one whose header it overlaps most,
+ * otherwise the nearest one.
+ */
+export function assignColumn(cell: LayoutCell, columns: LayoutColumn[]): string | null {
+  let best: string | null = null;
+  let bestScore = -Infinity;
+
+  for (const column of columns) {
+    // Positive: overlap width, negative: distance between the cell and the header
+    const score = Math.min(cell.right, column.right) - Math.max(cell.x, column.x);
+    if (score > bestScore) {
+      bestScore = score;
+      best = column.name;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Lay out the text items of PDF pages as rows of cells. A header row moves
+ * the columns it names and keeps the others, so headers wrapped over several
+ * lines add up; positions carry over to later pages.
+ */
+export function buildLayout(pages: PdfPageItems[], options: LayoutOptions = {}): LayoutRow[] {
+  const rows: LayoutRow[] = [];
+  let columns: LayoutColumn[] = [];
+
+  for (const { page, items } of pages) {
+    let line = 0;
+
+    for (const rowItems of clusterRows(items, options.yTolerance)) {
+      const text = rowItems
+        .map((item) => item.text)
+        .join(' ')
+        .trim();
+      if (!text) continue;
+
+      const cells = buildCells(rowItems, options.cellGap);
+      const headerColumns = options.columns ? detectColumns(cells, options.columns) : null;
+
+      if (headerColumns) {
+        const kept = columns.filter((c) => !headerColumns.some((h) => h.name === c.name));
+        columns = [...kept, ...headerColumns];
+      }
+
+      if (columns.length > 0) {
+        for (const cell of cells) cell.column = assignColumn(cell, columns);
+      }
+
+      rows.push({
+        page,
+        line: ++line,
+        y: rowItems[0].y,
+        text,
+        cells,
+        header: headerColumns !== null,
+      });
+    }
+  }
+
+  return rows;
+}
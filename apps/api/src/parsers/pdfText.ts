@@ -0,0 +1,87 @@
+import * as pdfjsLib from 'pdfjs-dist/build/pdf.mjs';
+import { ErrorCode } from '@compasso/shared';
+import { AppError } from '../errors.js';
+import { buildLayout, type LayoutOptions, type LayoutRow, type PdfPageItems } from './pdfLayout.js';
+
+interface TextItem {
+  str: string;
+  transform: number[];
+  width: number;
+}
+
+export interface PdfReadOptions {
+  maxPages?: number;
+  password?: string;
+}
+
+// pdfjs rejects encrypted documents with a PasswordException whose code tells
+// a missing password from a wrong one
+async function openDocument(buffer: Buffer, password: string | undefined) {
+  try {
+    return await pdfjsLib.getDocument({ data: new Uint8Array(buffer), password }).promise;
+  } catch (err) {
+    if ((err as { name?: string })?.name !== 'PasswordException') throw err;
+    if ((err as { code?: number }).code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD) {
+      throw AppError.badRequest(
+        'The password for this PDF is incorrect.',
+        ErrorCode.PDF_PASSWORD_INCORRECT
+      );
+    }
+    throw AppError.badRequest(
+      'This PDF is password-protected. Enter its password and upload again.',
+      ErrorCode.PDF_PASSWORD_REQUIRED
+    );
+  }
+}
+
+/**
+ * Read the positioned text items of a PDF using pdfjs-dist. `maxPages` limits
+ * the extraction to the first pages (e.g. for reading statement headers);
+ * `password` opens encrypted PDFs.
+ */
+async function readPdfItems(
+  buffer: Buffer,
+  { maxPages, password }: PdfReadOptions
+): Promise<PdfPageItems[]> {
+  const doc = await openDocument(buffer, password);
+  const pages: PdfPageItems[] = [];
+
+  const pageCount = Math.min(doc.numPages, maxPages ?? doc.numPages);
+
+  for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
+    const page = await doc.getPage(pageNum);
+    const textContent = await page.getTextContent();
+    const items = (textContent.items as TextItem[]).map((item) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width ?? 0,
+    }));
+    pages.push({ page: pageNum, items });
+  }
+
+  return pages;
+}
+
+/**
+ * Extract the rows of a PDF with their cells and page/line positions. With
+ * `columns`, cells are assigned to the column whose header they sit under.
+ */
+export async function extractLayout(
+  buffer: Buffer,
+  options: LayoutOptions & PdfReadOptions = {}
+): Promise<LayoutRow[]> {
+  return buildLayout(await readPdfItems(buffer, options), options);
+}
+
+/**
+ * Extract text lines from a PDF: each row's items joined left to right,
+ * ordered top to bottom. Empty lines are dropped.
+ */
+export async function extractTextLines(
+  buffer: Buffer,
+  options: PdfReadOptions = {}
+): Promise<string[]> {
+  const rows = await extractLayout(buffer, options);
+  return rows.map((row) => row.text);
+}
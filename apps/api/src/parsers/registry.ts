@@ -1,13 +1,19 @@
-import type { BankParserDefinition } from './types.js';
+import {
+  CSV_PROFILE_BANK_PREFIX,
+  STATEMENT_TEMPLATE_BANK_PREFIX,
+  type StatementFormat,
+  type StatementTemplateDefinition,
+} from '@compasso/shared';
+import type { BankFingerprint, BankParserDefinition } from './types.js';
 import { novoBancoData } from './novo-banco-data.js';
 import { cgdData } from './cgd-data.js';
+import { ofxData } from './ofx-data.js';
+import { camtData } from './camt-data.js';
+import { mt940Data } from './mt940-data.js';
 
 type BankParserData = Omit<BankParserDefinition, 'parse'>;
 
-const definitions: BankParserData[] = [
-  novoBancoData,
-  cgdData,
-];
+const definitions: BankParserData[] = [novoBancoData, cgdData, ofxData, camtData, mt940Data];
 
 // Derived constants (no pdfjs-dist dependency)
 export const SUPPORTED_BANKS = Object.fromEntries(
@@ -21,10 +27,31 @@ export const BANK_CONFIGS: Record<string, BankParserData['config']> = Object.fro
 export const BANK_CATEGORY_PATTERNS: Record<string, BankParserData['categoryPatterns']> =
   Object.fromEntries(definitions.map((d) => [d.config.id, d.categoryPatterns]));
 
+export const BANK_TRANSACTION_PATTERNS: Record<string, BankParserData['transactionPatterns']> =
+  Object.fromEntries(definitions.map((d) => [d.config.id, d.transactionPatterns]));
+
+export const BANK_MERCHANT_RULES: Record<string, BankParserData['merchantRules']> =
+  Object.fromEntries(definitions.map((d) => [d.config.id, d.merchantRules]));
+
+export const BANK_FINGERPRINTS: Record<string, BankFingerprint> = Object.fromEntries(
+  definitions.map((d) => [d.config.id, d.fingerprint])
+);
+
+// Built-in banks declare their file format; CSV profile IDs ("csv:<id>") are always CSV
+// and workspace template IDs ("template:<id>") are always PDF
+export function getStatementFormat(bankId: string): StatementFormat {
+  if (bankId.startsWith(CSV_PROFILE_BANK_PREFIX)) return 'csv';
+  if (bankId.startsWith(STATEMENT_TEMPLATE_BANK_PREFIX)) return 'pdf';
+  return BANK_CONFIGS[bankId]?.format ?? 'pdf';
+}
+
 // Lazy-load parsers only when needed to avoid loading pdfjs-dist at startup
 const parserLoaders: Record<string, () => Promise<BankParserDefinition['parse']>> = {
   novo_banco: async () => (await import('./novo-banco.js')).novoBanco.parse,
   cgd: async () => (await import('./cgd.js')).cgd.parse,
+  ofx: async () => (await import('./ofx.js')).ofx.parse,
+  camt: async () => (await import('./camt.js')).camt.parse,
+  mt940: async () => (await import('./mt940.js')).mt940.parse,
 };
 
 export async function getParser(bankId: string) {
@@ -32,3 +59,29 @@ export async function getParser(bankId: string) {
   if (!loader) return undefined;
   return loader();
 }
+
+/**
+ * Register an instance-wide bank backed by a statement template (loaded from
+ * disk at startup). It then behaves like a built-in bank: listed, seeded with
+ * its category patterns and parsed by the template engine.
+ */
+export function registerTemplateBank(
+  data: BankParserData,
+  template: StatementTemplateDefinition
+): void {
+  const id = data.config.id;
+  if (BANK_CONFIGS[id]) {
+    throw new Error(`Bank "${id}" is already registered`);
+  }
+
+  SUPPORTED_BANKS[id.toUpperCase().replace(/[^A-Z0-9]/g, '_')] = id;
+  BANK_CONFIGS[id] = data.config;
+  BANK_CATEGORY_PATTERNS[id] = data.categoryPatterns;
+  BANK_TRANSACTION_PATTERNS[id] = data.transactionPatterns;
+  BANK_MERCHANT_RULES[id] = data.merchantRules;
+  BANK_FINGERPRINTS[id] = data.fingerprint;
+  parserLoaders[id] = async () => {
+    const { parseTemplateStatement } = await import('./template.js');
+    return (buffer, options) => parseTemplateStatement(buffer, template, options);
+  };
+}
@@ -0,0 +1,336 @@
+import { describe, it, expect } from 'vitest';
+import type { StatementTemplateDefinition } from '@compasso/shared';
+import {
+  compileTemplatePattern,
+  validateStatementTemplate,
+  runStatementTemplate,
+} from './template.js';
+import { buildLayout, type PdfTextItem } from './pdfLayout.js';
+import { novoBancoTemplate } from './novo-banco-data.js';
+import { cgdTemplate } from './cgd-data.js';
+
+const simpleTemplate: StatementTemplateDefinition = {
+  dateFormat: 'DD/MM/YYYY',
+  decimalFormat: 'european',
+  period: { pattern: 'Período: (\\S+) a (\\S+)' },
+  transaction: { pattern: '^(?<date>\\d{2}/\\d{2}/\\d{4})\\s+' },
+  amountLayouts: [{ amount: 0, balance: 1, incomeFrom: 'sign' }],
+  continuation: 'append',
+};
+
+describe('compileTemplatePattern', () => {
+  it('should compile plain sources and /source/flags literals', () => {
+    expect(compileTemplatePattern('^abc').test('abcd')).toBe(true);
+    expect(compileTemplatePattern('/^abc/i').test('ABC')).toBe(true);
+  });
+
+  it('should drop stateful flags from the template and add extra flags', () => {
+    expect(compileTemplatePattern('/x/gy').flags).toBe('');
+    expect(compileTemplatePattern('/x/i', 'g').flags).toBe('gi');
+  });
+});
+
+describe('validateStatementTemplate', () => {
+  it('should accept the built-in bank templates', () => {
+    expect(validateStatementTemplate(novoBancoTemplate)).toEqual([]);
+    expect(validateStatementTemplate(cgdTemplate)).toEqual([]);
+  });
+
+  it('should report invalid expressions and a missing date group', () => {
+    const errors = validateStatementTemplate({
+      ...simpleTemplate,
+      skipLines: ['ok', '(unclosed'],
+      transaction: { pattern: '^\\d{2}/' },
+    });
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^skipLines\[1\]: /);
+    expect(errors[1]).toMatch(/^transaction\.pattern: must contain a named group "date"/);
+  });
+
+  it('should require an amount or debit/credit column header', () => {
+    expect(
+      validateStatementTemplate({
+        ...simpleTemplate,
+        columns: { headers: { description: '^Desc', balance: '^Saldo' } },
+      })
+    ).toEqual(['columns.headers: map an amount column or debit/credit columns']);
+  });
+});
+
+describe('runStatementTemplate', () => {
+  it('should parse signed amounts, balances, period and continuation lines', () => {
+    const result = runStatementTemplate(simpleTemplate, [
+      'Período: 01/03/2025 a 31/03/2025',
+      '03/03/2025 COMPRA PINGO DOCE -12,50 987,50',
+      'LISBOA',
+      '05/03/2025 TRANSFERENCIA RECEBIDA 1.000,00 1.987,50',
+    ]);
+
+    expect(result.periodStart).toBe('2025-03-01');
+    expect(result.periodEnd).toBe('2025-03-31');
+    expect(result.transactions).toEqual([
+      {
+        date: '2025-03-03',
+        valueDate: '2025-03-03',
+        description: 'COMPRA PINGO DOCE LISBOA',
+        amount: 12.5,
+        balance: 987.5,
+        isIncome: false,
+        rawText: '03/03/2025 COMPRA PINGO DOCE -12,50 987,50\nLISBOA',
+        suggestedCategoryId: null,
+        suggestedCategoryName: null,
+      },
+      expect.objectContaining({
+        description: 'TRANSFERENCIA RECEBIDA',
+        amount: 1000,
+        balance: 1987.5,
+        isIncome: true,
+      }),
+    ]);
+  });
+
+  it('should only read transactions inside sections and skip noise lines', () => {
+    const result = runStatementTemplate(
+      {
+        ...simpleTemplate,
+        sections: { start: ['^MOVIMENTOS$'], end: ['^TOTAL'] },
+        skipLines: ['^Página \\d+'],
+        continuation: 'ignore',
+      },
+      [
+        '01/03/2025 OUTSIDE -1,00 1,00',
+        'MOVIMENTOS',
+        '02/03/2025 INSIDE -2,00 3,00',
+        'Página 2',
+        'ignored continuation',
+        'TOTAL -2,00',
+        '03/03/2025 AFTER -3,00 0,00',
+      ]
+    );
+
+    expect(result.transactions.map((tx) => tx.description)).toEqual(['INSIDE']);
+  });
+
+  it('should pick the layout by amount count and read debit/credit columns', () => {
+    const result = runStatementTemplate(
+      {
+        ...simpleTemplate,
+        decimalFormat: 'standard',
+        amountLayouts: [
+          { count: 3, debit: 0, credit: 1, balance: 2 },
+          { count: 2, amount: 0, balance: 1 },
+        ],
+      },
+      [
+        '03/03/2025 SALARY 0.00 2,500.00 3,000.00',
+        '04/03/2025 RENT 900.00 0.00 2,100.00',
+        '05/03/2025 NO LAYOUT 1.00',
+      ]
+    );
+
+    expect(
+      result.transactions.map((tx) => [tx.description, tx.amount, tx.isIncome, tx.balance])
+    ).toEqual([
+      ['SALARY', 2500, true, 3000],
+      ['RENT', 900, false, 2100],
+    ]);
+  });
+
+  it('should infer income from the balance change, after an opening balance', () => {
+    const result = runStatementTemplate(
+      {
+        ...simpleTemplate,
+        openingBalancePattern: 'SALDO ANTERIOR',
+        amountLayouts: [{ amount: 0, balance: 1, incomeFrom: 'balance' }],
+        incomePatterns: ['/reembolso/i'],
+      },
+      [
+        'SALDO ANTERIOR 100,00',
+        '02/03/2025 DEPOSITO 50,00 150,00',
+        '03/03/2025 COMPRA 20,00 130,00',
+      ]
+    );
+
+    expect(result.transactions.map((tx) => tx.isIncome)).toEqual([true, false]);
+  });
+
+  it('should fall back to income patterns without a previous balance', () => {
+    const result = runStatementTemplate(
+      {
+        ...simpleTemplate,
+        amountLayouts: [{ amount: 0, incomeFrom: 'balance' }],
+        incomePatterns: ['/reembolso/i'],
+      },
+      ['02/03/2025 Reembolso despesas 50,00', '03/03/2025 COMPRA 20,00']
+    );
+
+    expect(result.transactions.map((tx) => tx.isIncome)).toEqual([true, false]);
+  });
+
+  it('should read a value date group and ignore amounts inside the prefix', () => {
+    const result = runStatementTemplate(
+      {
+        ...simpleTemplate,
+        transaction: {
+          pattern: '^(?<date>\\d{2}/\\d{2}/\\d{4}) (?<valueDate>\\d{2}/\\d{2}/\\d{4}) REF 1,00 ',
+        },
+      },
+      ['03/03/2025 04/03/2025 REF 1,00 COMPRA -5,00 95,00']
+    );
+
+    expect(result.transactions[0]).toMatchObject({
+      date: '2025-03-03',
+      valueDate: '2025-03-04',
+      description: 'COMPRA',
+      amount: 5,
+    });
+  });
+
+  it('should parse Novo Banco statement lines with the built-in template', () => {
+    const result = runStatementTemplate(novoBancoTemplate, [
+      'Extrato Integrado de 01.01.2025 a 31.01.2025',
+      'MOVIMENTOS DE CONTA',
+      'Data Descritivo Débito Crédito Saldo (Euros)',
+      'SALDO ANTERIOR 1.000,00',
+      '02.01.25 02.01.25 COMPRA CONTINENTE 25,30 974,70',
+      '05.01.25 05.01.25 TRF SEPA DE JOAO 100,00 1.074,70',
+      'SALDO CONTABILÍSTICO 1.074,70',
+    ]);
+
+    expect(result.periodStart).toBe('2025-01-01');
+    expect(result.periodEnd).toBe('2025-01-31');
+    expect(
+      result.transactions.map((tx) => [tx.description, tx.amount, tx.isIncome, tx.balance])
+    ).toEqual([
+      ['COMPRA CONTINENTE', 25.3, false, 974.7],
+      ['TRF SEPA DE JOAO', 100, true, 1074.7],
+    ]);
+    expect(result.openingBalance).toBe(1000);
+    expect(result.closingBalance).toBe(1074.7);
+  });
+
+  it('should keep the first opening balance and not append the closing balance line', () => {
+    const result = runStatementTemplate(
+      {
+        ...simpleTemplate,
+        openingBalancePattern: 'SALDO ANTERIOR',
+        closingBalancePattern: 'SALDO FINAL',
+        amountLayouts: [{ amount: 0, balance: 1, incomeFrom: 'sign' }],
+        continuation: 'append',
+      },
+      [
+        'SALDO ANTERIOR 100,00',
+        '02/03/2025 COMPRA -20,00 80,00',
+        'SALDO ANTERIOR 80,00',
+        'SALDO FINAL 80,00',
+      ]
+    );
+
+    expect(result.openingBalance).toBe(100);
+    expect(result.closingBalance).toBe(80);
+    expect(result.transactions[0].description).toBe('COMPRA');
+  });
+
+  it('should read amounts by column, without guessing from the amount count', () => {
+    const item = (text: string, x: number, y: number): PdfTextItem => ({
+      text,
+      x,
+      y,
+      width: text.length * 5,
+    });
+    const rows = buildLayout(
+      [
+        {
+          page: 1,
+          items: [
+            item('MOVIMENTOS DE CONTA', 10, 720),
+            item('Data', 10, 700),
+            item('Descritivo', 80, 700),
+            item('Débito', 300, 700),
+            item('Crédito', 380, 700),
+            item('Saldo', 460, 700),
+            item('SALDO ANTERIOR', 80, 690),
+            item('1.000,00', 460, 690),
+            item('02.01.25', 10, 680),
+            item('COMPRA CONTINENTE', 80, 680),
+            item('25,30', 300, 680),
+            item('974,70', 460, 680),
+            item('LISBOA 12,00', 80, 670),
+            item('05.01.25', 10, 660),
+            item('REEMBOLSO', 80, 660),
+            item('100,00', 380, 660),
+            item('1.074,70', 460, 660),
+          ],
+        },
+      ],
+      {
+        columns: {
+          date: /^Data/,
+          description: /^Descritivo/,
+          debit: /^Débito/,
+          credit: /^Crédito/,
+          balance: /^Saldo/,
+        },
+      }
+    );
+
+    const result = runStatementTemplate(novoBancoTemplate, rows);
+
+    expect(
+      result.transactions.map((tx) => [tx.description, tx.amount, tx.isIncome, tx.balance])
+    ).toEqual([
+      ['COMPRA CONTINENTE LISBOA 12,00', 25.3, false, 974.7],
+      ['REEMBOLSO', 100, true, 1074.7],
+    ]);
+  });
+
+  it('should report skipped lines and dates without amounts with their position', () => {
+    const rows = buildLayout([
+      {
+        page: 2,
+        items: [
+          { text: 'Período: 01/03/2025 a 31/03/2025', x: 10, y: 720, width: 150 },
+          { text: '03/03/2025 COMPRA SEM VALOR', x: 10, y: 700, width: 150 },
+          { text: '04/03/2025 COMPRA -5,00 95,00', x: 10, y: 690, width: 150 },
+          { text: '99/99/2025 DATA INVALIDA -1,00 94,00', x: 10, y: 680, width: 150 },
+        ],
+      },
+    ]);
+
+    const { diagnostics } = runStatementTemplate(
+      { ...simpleTemplate, continuation: 'ignore' },
+      rows
+    );
+
+    expect(diagnostics).toEqual({
+      skippedLines: [
+        { page: 2, line: 1, text: 'Período: 01/03/2025 a 31/03/2025' },
+        { page: 2, line: 4, text: '99/99/2025 DATA INVALIDA -1,00 94,00' },
+      ],
+      dateWithoutAmount: [{ page: 2, line: 2, text: '03/03/2025 COMPRA SEM VALOR' }],
+    });
+  });
+
+  it('should number plain text lines without a page', () => {
+    const { diagnostics } = runStatementTemplate(simpleTemplate, ['header', '03/03/2025 X']);
+
+    expect(diagnostics?.skippedLines).toEqual([{ page: null, line: 1, text: 'header' }]);
+    expect(diagnostics?.dateWithoutAmount).toEqual([{ page: null, line: 2, text: '03/03/2025 X' }]);
+  });
+
+  it('should fall back to amount layouts for rows without amount columns', () => {
+    const rows = buildLayout([
+      {
+        page: 1,
+        items: [{ text: '03/03/2025 COMPRA -12,50 987,50', x: 10, y: 700, width: 200 }],
+      },
+    ]);
+
+    expect(runStatementTemplate(simpleTemplate, rows).transactions[0]).toMatchObject({
+      description: 'COMPRA',
+      amount: 12.5,
+      balance: 987.5,
+    });
+  });
+});
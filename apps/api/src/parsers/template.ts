@@ -0,0 +1,416 @@
+import type {
+  ParsedTransaction,
+  ParseResult,
+  StatementTemplateAmountLayout,
+  StatementTemplateDefinition,
+} from '@compasso/shared';
+import { generateFileHash } from '../utils/fileHash.js';
+import { parseAmount, parseDateWithFormat } from './formats.js';
+import type { LayoutCell, LayoutRow } from './pdfLayout.js';
+import type { ParseOptions } from './types.js';
+import { addDiagnosticLine, createParseDiagnostics } from './diagnostics.js';
+
+/**
+ * Generic engine for declarative PDF statement templates.
+ *
+ * Algorithm: period regex over the whole text → walk lines, tracking whether
+ * we are inside a transaction section (start/end markers) → skip noise lines
+ * and read the opening and closing balances → lines matching the transaction pattern start
+ * a transaction; its amounts are read from the cells under the amount column
+ * headers, or otherwise picked by the first amount layout that fits the
+ * number of amounts on the line → other lines are appended to
+ * the previous description when continuation is "append".
+ */
+
+const DEFAULT_AMOUNT_PATTERNS = {
+  european: '-?\\s?[\\d.]*\\d,\\d{2}',
+  standard: '-?\\s?[\\d,]*\\d\\.\\d{2}',
+};
+
+const AMOUNT_COLUMNS = new Set(['amount', 'debit', 'credit', 'balance']);
+
+interface CompiledTemplate {
+  definition: StatementTemplateDefinition;
+  columns: Record<string, RegExp> | null;
+  period: RegExp | null;
+  sectionStart: RegExp[];
+  sectionEnd: RegExp[];
+  skipLines: RegExp[];
+  stripPatterns: RegExp[];
+  openingBalance: RegExp | null;
+  closingBalance: RegExp | null;
+  transaction: RegExp;
+  amount: RegExp;
+  incomePatterns: RegExp[];
+}
+
+/**
+ * Compile a template pattern: a regex source, or "/source/flags".
+ * Stateful flags (g, y) from the template are ignored. Throws a SyntaxError
+ * for invalid expressions.
+ */
+export function compileTemplatePattern(pattern: string, extraFlags = ''): RegExp {
+  const literal = pattern.match(/^\/(.*)\/([dgimsuy]*)$/s);
+  const source = literal ? literal[1] : pattern;
+  const flags = (literal ? literal[2] : '').replace(/[gy]/g, '') + extraFlags;
+  return new RegExp(source, [...new Set(flags)].join(''));
+}
+
+function compileTemplate(definition: StatementTemplateDefinition): CompiledTemplate {
+  const compileAll = (patterns?: string[]) =>
+    (patterns ?? []).map((p) => compileTemplatePattern(p));
+
+  const headers = Object.entries(definition.columns?.headers ?? {});
+
+  return {
+    definition,
+    columns:
+      headers.length > 0
+        ? Object.fromEntries(headers.map(([name, p]) => [name, compileTemplatePattern(p!)]))
+        : null,
+    period: definition.period ? compileTemplatePattern(definition.period.pattern) : null,
+    sectionStart: compileAll(definition.sections?.start),
+    sectionEnd: compileAll(definition.sections?.end),
+    skipLines: compileAll(definition.skipLines),
+    stripPatterns: compileAll(definition.stripPatterns),
+    openingBalance: definition.openingBalancePattern
+      ? compileTemplatePattern(definition.openingBalancePattern)
+      : null,
+    closingBalance: definition.closingBalancePattern
+      ? compileTemplatePattern(definition.closingBalancePattern)
+      : null,
+    transaction: compileTemplatePattern(definition.transaction.pattern),
+    amount: compileTemplatePattern(
+      definition.transaction.amountPattern ?? DEFAULT_AMOUNT_PATTERNS[definition.decimalFormat],
+      'g'
+    ),
+    incomePatterns: compileAll(definition.incomePatterns),
+  };
+}
+
+/**
+ * Return the problems that would keep a template from running: invalid
+ * regular expressions and a transaction pattern without a "date" group.
+ * An empty array means the template is usable.
+ */
+export function validateStatementTemplate(definition: StatementTemplateDefinition): string[] {
+  const errors: string[] = [];
+  const check = (label: string, pattern: string | undefined) => {
+    if (pattern === undefined) return;
+    try {
+      compileTemplatePattern(pattern);
+    } catch (err) {
+      errors.push(`${label}: ${(err as Error).message}`);
+    }
+  };
+
+  check('period.pattern', definition.period?.pattern);
+  definition.sections?.start.forEach((p, i) => check(`sections.start[${i}]`, p));
+  definition.sections?.end.forEach((p, i) => check(`sections.end[${i}]`, p));
+  definition.skipLines?.forEach((p, i) => check(`skipLines[${i}]`, p));
+  definition.stripPatterns?.forEach((p, i) => check(`stripPatterns[${i}]`, p));
+  check('openingBalancePattern', definition.openingBalancePattern);
+  check('closingBalancePattern', definition.closingBalancePattern);
+  check('transaction.pattern', definition.transaction.pattern);
+  check('transaction.amountPattern', definition.transaction.amountPattern);
+  definition.incomePatterns?.forEach((p, i) => check(`incomePatterns[${i}]`, p));
+  definition.fingerprint?.patterns.forEach((p, i) => check(`fingerprint.patterns[${i}]`, p));
+  for (const [name, p] of Object.entries(definition.columns?.headers ?? {})) {
+    check(`columns.headers.${name}`, p);
+  }
+
+  const headers = definition.columns?.headers;
+  if (headers && !headers.amount && !headers.debit && !headers.credit) {
+    errors.push('columns.headers: map an amount column or debit/credit columns');
+  }
+
+  if (
+    !errors.some((e) => e.startsWith('transaction.pattern')) &&
+    !definition.transaction.pattern.includes('(?<date>')
+  ) {
+    errors.push(
+      'transaction.pattern: must contain a named group "date", e.g. (?<date>\\d{2}\\.\\d{2}\\.\\d{2})'
+    );
+  }
+
+  return errors;
+}
+
+function matchesAny(patterns: RegExp[], text: string): boolean {
+  return patterns.some((pattern) => pattern.test(text));
+}
+
+// Resolve a layout position: negative indexes count from the end
+function pick<T>(items: T[], index: number | undefined): T | undefined {
+  if (index === undefined) return undefined;
+  return items[index < 0 ? items.length + index : index];
+}
+
+function selectLayout(
+  layouts: StatementTemplateAmountLayout[],
+  amountCount: number
+): StatementTemplateAmountLayout | undefined {
+  return layouts.find((layout) => layout.count === undefined || layout.count === amountCount);
+}
+
+// The raw amount texts and description of a transaction line
+interface TransactionFields {
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  balance?: string;
+  incomeFrom?: 'sign' | 'balance';
+}
+
+// Amounts picked by layout position among the amounts after the transaction prefix
+function readLayoutFields(
+  template: CompiledTemplate,
+  line: string,
+  prefixEnd: number
+): TransactionFields | null {
+  const amounts = [...line.matchAll(template.amount)].filter((m) => m.index! >= prefixEnd);
+
+  const layout = selectLayout(template.definition.amountLayouts, amounts.length);
+  if (!layout) return null;
+
+  const amountMatch = pick(amounts, layout.amount);
+  const debitMatch = pick(amounts, layout.debit);
+  const creditMatch = pick(amounts, layout.credit);
+  const balanceMatch = pick(amounts, layout.balance);
+  const columns = [amountMatch, debitMatch, creditMatch].filter((m) => m !== undefined);
+  if (columns.length === 0) return null;
+
+  // Description runs from the end of the prefix to the first amount column
+  const descriptionEnd = Math.min(...columns.map((m) => m.index!));
+
+  return {
+    description: line.slice(prefixEnd, descriptionEnd),
+    amount: amountMatch?.[0],
+    debit: debitMatch?.[0],
+    credit: creditMatch?.[0],
+    balance: balanceMatch?.[0],
+    incomeFrom: layout.incomeFrom,
+  };
+}
+
+// Text of the cells outside the amount columns: dates, description and references
+function descriptionCellsText(cells: LayoutCell[]): string {
+  return cells
+    .filter((cell) => !AMOUNT_COLUMNS.has(cell.column ?? ''))
+    .map((cell) => cell.text)
+    .join(' ');
+}
+
+// Amounts read from the cells under each amount column header
+function readColumnFields(
+  template: CompiledTemplate,
+  cells: LayoutCell[]
+): TransactionFields | null {
+  const amountIn = (column: string) => {
+    const text = cells
+      .filter((cell) => cell.column === column)
+      .map((cell) => cell.text)
+      .join(' ');
+    return text.match(template.amount)?.[0];
+  };
+
+  const amount = amountIn('amount');
+  const debit = amountIn('debit');
+  const credit = amountIn('credit');
+  if (amount === undefined && debit === undefined && credit === undefined) return null;
+
+  const text = template.stripPatterns.reduce(
+    (result, pattern) => result.replace(pattern, ''),
+    descriptionCellsText(cells)
+  );
+  const prefix = text.match(template.transaction);
+  const prefixEnd = prefix ? (prefix.index ?? 0) + prefix[0].length : 0;
+
+  return {
+    description: text.slice(prefixEnd),
+    amount,
+    debit,
+    credit,
+    balance: amountIn('balance'),
+    incomeFrom: template.definition.columns?.incomeFrom,
+  };
+}
+
+/**
+ * Run a statement template over extracted text lines, or over layout rows
+ * whose cells carry the columns found under the template's column headers.
+ */
+export function runStatementTemplate(
+  definition: StatementTemplateDefinition,
+  lines: Array<string | LayoutRow>
+): Omit<ParseResult, 'fileHash'> {
+  const template = compileTemplate(definition);
+  const toAmount = (value: string) => parseAmount(value, definition.decimalFormat) ?? 0;
+
+  const transactions: ParsedTransaction[] = [];
+  let periodStart: string | null = null;
+  let periodEnd: string | null = null;
+
+  const text = lines.map((entry) => (typeof entry === 'string' ? entry : entry.text)).join('\n');
+  const periodMatch = template.period ? text.match(template.period) : null;
+  if (periodMatch) {
+    const periodFormat = definition.period?.dateFormat ?? definition.dateFormat;
+    periodStart = parseDateWithFormat(periodMatch[1] ?? '', periodFormat);
+    periodEnd = parseDateWithFormat(periodMatch[2] ?? '', periodFormat);
+  }
+
+  let inSection = template.sectionStart.length === 0;
+  let previousBalance: number | null = null;
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  const lastAmount = (line: string) => {
+    const amounts = line.match(template.amount);
+    return amounts && amounts.length > 0 ? toAmount(amounts[amounts.length - 1]) : null;
+  };
+
+  const diagnostics = createParseDiagnostics();
+
+  for (const [index, entry] of lines.entries()) {
+    const row = typeof entry === 'string' ? null : entry;
+    const line = row ? row.text : (entry as string);
+    if (!line) continue;
+
+    const report = (list: typeof diagnostics.skippedLines) =>
+      addDiagnosticLine(list, row?.page ?? null, row?.line ?? index + 1, line);
+
+    const normalizedLine = line.replace(/\s+/g, ' ');
+
+    // The closing balance often doubles as a section end marker, so it is read before them
+    const isClosingBalance = template.closingBalance?.test(normalizedLine) ?? false;
+    if (isClosingBalance) closingBalance = lastAmount(line) ?? closingBalance;
+
+    if (template.sectionStart.length > 0) {
+      if (matchesAny(template.sectionStart, normalizedLine)) {
+        inSection = true;
+        continue;
+      }
+      if (matchesAny(template.sectionEnd, normalizedLine)) {
+        inSection = false;
+        continue;
+      }
+    }
+
+    if (!inSection || isClosingBalance || row?.header || matchesAny(template.skipLines, normalizedLine)) continue;
+
+    if (template.openingBalance?.test(normalizedLine)) {
+      const balance = lastAmount(line);
+      if (balance !== null) {
+        previousBalance = balance;
+        // Later pages may repeat it as a carried-over balance
+        if (openingBalance === null) openingBalance = balance;
+      }
+      continue;
+    }
+
+    // Rows below a column header are read by column, other lines by amount layout
+    const columnCells =
+      template.columns && row?.cells.some((cell) => cell.column !== null) ? row.cells : null;
+
+    const cleanedLine = template.stripPatterns.reduce(
+      (result, pattern) => result.replace(pattern, ''),
+      line
+    );
+
+    const match = cleanedLine.match(template.transaction);
+    if (!match?.groups?.date) {
+      if (definition.continuation === 'append' && transactions.length > 0) {
+        const prev = transactions[transactions.length - 1];
+        const extra = columnCells ? descriptionCellsText(columnCells) : normalizedLine;
+        if (extra) prev.description = `${prev.description} ${extra.replace(/\s+/g, ' ')}`;
+        prev.rawText = `${prev.rawText}\n${line}`;
+      } else {
+        report(diagnostics.skippedLines);
+      }
+      continue;
+    }
+
+    const date = parseDateWithFormat(match.groups.date, definition.dateFormat);
+    if (!date) {
+      report(diagnostics.skippedLines);
+      continue;
+    }
+    const valueDate = match.groups.valueDate
+      ? (parseDateWithFormat(match.groups.valueDate, definition.dateFormat) ?? date)
+      : date;
+
+    // Only amounts after the matched prefix, so dates or references in it are never amounts
+    const prefixEnd = (match.index ?? 0) + match[0].length;
+    // Amount layouts remain the fallback when no amount column has a value
+    const fields =
+      (columnCells && readColumnFields(template, columnCells)) ??
+      readLayoutFields(template, cleanedLine, prefixEnd);
+    if (!fields) {
+      report(diagnostics.dateWithoutAmount);
+      continue;
+    }
+
+    const description = fields.description.replace(/\s+/g, ' ').trim();
+    if (!description) {
+      report(diagnostics.skippedLines);
+      continue;
+    }
+
+    const balance = fields.balance !== undefined ? toAmount(fields.balance) : null;
+    let amount: number;
+    let isIncome: boolean;
+
+    if (fields.debit !== undefined || fields.credit !== undefined) {
+      const debit = fields.debit !== undefined ? Math.abs(toAmount(fields.debit)) : 0;
+      const credit = fields.credit !== undefined ? Math.abs(toAmount(fields.credit)) : 0;
+      isIncome = credit > 0 && debit === 0;
+      amount = isIncome ? credit : debit;
+    } else {
+      const signedAmount = toAmount(fields.amount!);
+      amount = Math.abs(signedAmount);
+      if (fields.incomeFrom === 'balance' && balance !== null && previousBalance !== null) {
+        isIncome = balance > previousBalance;
+      } else if (fields.incomeFrom === 'balance') {
+        isIncome = matchesAny(template.incomePatterns, description);
+      } else {
+        isIncome = signedAmount > 0;
+      }
+    }
+
+    transactions.push({
+      date,
+      valueDate,
+      description,
+      amount,
+      balance,
+      isIncome,
+      rawText: cleanedLine,
+      suggestedCategoryId: null,
+      suggestedCategoryName: null,
+    });
+
+    if (balance !== null) previousBalance = balance;
+  }
+
+  return { transactions, periodStart, periodEnd, diagnostics, openingBalance, closingBalance };
+}
+
+/**
+ * Parse a PDF statement with a template. `options.password` opens encrypted PDFs.
+ */
+export async function parseTemplateStatement(
+  buffer: Buffer,
+  definition: StatementTemplateDefinition,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  // Loaded on demand so services can validate templates without pulling in pdfjs-dist
+  const { extractLayout } = await import('./pdfText.js');
+
+  const fileHash = generateFileHash(buffer);
+  const rows = await extractLayout(buffer, {
+    columns: compileTemplate(definition).columns ?? undefined,
+    password: options.password,
+  });
+
+  return { ...runStatementTemplate(definition, rows), fileHash };
+}
@@ -1,26 +1,47 @@
-import type { ParseResult, BankConfig } from '@compasso/shared';
+import type { ParseResult, BankConfig, TransactionType } from '@compasso/shared';
 
 export type { ParseResult };
 
-export interface TransactionPatterns {
-  CARD_PURCHASE?: RegExp;
-  DIRECT_DEBIT?: RegExp;
-  TRANSFER_IN?: RegExp;
-  TRANSFER_OUT?: RegExp;
-  ATM?: RegExp;
-  BILL_PAYMENT?: RegExp;
-  LOAN_PAYMENT?: RegExp;
-  STANDING_ORDER?: RegExp;
-  BANK_FEE?: RegExp;
+// Description patterns per transaction type, tested in TRANSACTION_TYPES order
+export type TransactionPatterns = Partial<Record<TransactionType, RegExp>>;
+
+/**
+ * How merchant names are read from a bank's descriptions. Strip patterns
+ * remove transaction-type prefixes, card numbers and references; locations
+ * are place names dropped from the end of the remaining text.
+ */
+export interface MerchantRules {
+  stripPatterns: RegExp[];
+  locations: string[];
 }
 
 export interface BankCategoryPatterns {
   [categoryName: string]: string[];
 }
 
+/**
+ * Signals that identify a bank's statements during auto-detection. Each text
+ * pattern and a matching IBAN prefix counts as one signal; the detection
+ * confidence is the share of signals found in the statement text.
+ */
+export interface BankFingerprint {
+  patterns: RegExp[];
+  ibanPrefixes?: string[]; // Country code, check digits and bank code, e.g. "PT500007"
+}
+
+/**
+ * Per-upload parse options. The password of an encrypted PDF is only held in
+ * memory for the duration of the parse.
+ */
+export interface ParseOptions {
+  password?: string;
+}
+
 export interface BankParserDefinition {
   config: BankConfig;
+  fingerprint: BankFingerprint;
   transactionPatterns: TransactionPatterns;
+  merchantRules: MerchantRules;
   categoryPatterns: BankCategoryPatterns;
-  parse: (buffer: Buffer) => Promise<ParseResult>;
+  parse: (buffer: Buffer, options?: ParseOptions) => Promise<ParseResult>;
 }
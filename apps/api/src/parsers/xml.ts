@@ -0,0 +1,106 @@
+/**
+ * Minimal XML reader for structured statement formats (ISO 20022 camt).
+ *
+ * Builds a plain element tree: namespace prefixes are dropped from element
+ * names, text is entity-decoded and trimmed, comments, processing instructions
+ * and DOCTYPE declarations are skipped. It does not validate the document.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower] ?? entity;
+  });
+}
+
+/**
+ * Parse an XML document and return its root element, or null if none is found.
+ */
+export function parseXml(text: string): XmlElement | null {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [, cdata, closing, tagName, rawAttributes, selfClosing, content] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (content !== undefined) {
+      current.text += decodeXmlEntities(content);
+    } else if (tagName !== undefined) {
+      const name = localName(tagName);
+      if (closing) {
+        // Tolerate stray closing tags by unwinding to the matching element
+        let index = stack.length - 1;
+        while (index > 0 && stack[index].name !== name) index--;
+        if (index > 0) stack.length = index;
+        continue;
+      }
+
+      const attributes: Record<string, string> = {};
+      for (const attr of (rawAttributes ?? '').matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[localName(attr[1])] = decodeXmlEntities(attr[2] ?? attr[3] ?? '');
+      }
+
+      const element: XmlElement = { name, attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  const trimText = (element: XmlElement) => {
+    element.text = element.text.trim();
+    element.children.forEach(trimText);
+  };
+  trimText(root);
+
+  return root.children[0] ?? null;
+}
+
+/**
+ * Follow a path of child element names, returning the first match at each step.
+ */
+export function xmlChild(
+  element: XmlElement | null | undefined,
+  ...path: string[]
+): XmlElement | null {
+  let current = element ?? null;
+  for (const name of path) {
+    current = current?.children.find((child) => child.name === name) ?? null;
+  }
+  return current;
+}
+
+/**
+ * All direct children with the given name.
+ */
+export function xmlChildren(element: XmlElement | null | undefined, name: string): XmlElement[] {
+  return element?.children.filter((child) => child.name === name) ?? [];
+}
+
+/**
+ * Text of the element at the given path, or null if missing or empty.
+ */
+export function xmlText(element: XmlElement | null | undefined, ...path: string[]): string | null {
+  const target = xmlChild(element, ...path);
+  return target?.text ? target.text : null;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/accountService.js', () => ({
+  listAccounts: vi.fn(),
+  getAccount: vi.fn(),
+  createAccount: vi.fn(),
+  updateAccount: vi.fn(),
+  deleteAccount: vi.fn(),
+  getAccountBalanceHistory: vi.fn(),
+}));
+
+import router from './accounts.js';
+import {
+  listAccounts,
+  getAccount,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  getAccountBalanceHistory,
+} from '../services/accountService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/accounts');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/accounts', () => {
+  it('returns 200 with the account list', async () => {
+    const accounts = [{ id: 3, name: 'Novo Banco Main', currentBalance: 1150 }];
+    vi.mocked(listAccounts).mockReturnValue(accounts as any);
+
+    const res = await request(app).get('/api/accounts?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: accounts });
+    expect(listAccounts).toHaveBeenCalledWith(1);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).get('/api/accounts');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('POST /api/accounts', () => {
+  it('returns 201 with the created account', async () => {
+    vi.mocked(createAccount).mockReturnValue({ id: 3 } as any);
+
+    const res = await request(app).post('/api/accounts').send({
+      workspaceId: 1,
+      name: 'Novo Banco Main',
+      bankId: 'novo_banco',
+      accountNumber: '8923',
+      currency: 'eur',
+    });
+
+    expect(res.status).toBe(201);
+    expect(createAccount).toHaveBeenCalledWith({
+      workspaceId: 1,
+      name: 'Novo Banco Main',
+      bankId: 'novo_banco',
+      accountNumber: '8923',
+      currency: 'EUR',
+    });
+  });
+
+  it('returns 400 for an account number shorter than four characters', async () => {
+    const res = await request(app)
+      .post('/api/accounts')
+      .send({ workspaceId: 1, name: 'Main', accountNumber: '12' });
+
+    expect(res.status).toBe(400);
+    expect(createAccount).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/accounts/:id', () => {
+  it('returns 404 when the account does not exist', async () => {
+    vi.mocked(getAccount).mockImplementation(() => {
+      throw AppError.notFound('Account not found');
+    });
+
+    const res = await request(app).get('/api/accounts/99?workspaceId=1');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('GET /api/accounts/:id/balance-history', () => {
+  it('returns 200 with the balance history', async () => {
+    const history = [{ date: '2025-01-02', balance: 950 }];
+    vi.mocked(getAccountBalanceHistory).mockReturnValue(history);
+
+    const res = await request(app).get('/api/accounts/3/balance-history?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual(history);
+    expect(getAccountBalanceHistory).toHaveBeenCalledWith(3, 1);
+  });
+});
+
+describe('PUT /api/accounts/:id', () => {
+  it('passes the fields to update without the workspace ID', async () => {
+    vi.mocked(updateAccount).mockReturnValue({ id: 3 } as any);
+
+    const res = await request(app)
+      .put('/api/accounts/3')
+      .send({ workspaceId: 1, openingBalance: 250 });
+
+    expect(res.status).toBe(200);
+    expect(updateAccount).toHaveBeenCalledWith(3, 1, { openingBalance: 250 });
+  });
+});
+
+describe('DELETE /api/accounts/:id', () => {
+  it('returns 200 after deleting', async () => {
+    const res = await request(app).delete('/api/accounts/3?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(deleteAccount).toHaveBeenCalledWith(3, 1);
+  });
+});
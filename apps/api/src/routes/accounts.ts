@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import { createAccountSchema, updateAccountSchema } from '../schemas/accounts.js';
+import { requireQueryInt } from '../utils/queryHelpers.js';
+import {
+  listAccounts,
+  getAccount,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  getAccountBalanceHistory,
+} from '../services/accountService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/accounts
+// Query param: ?workspaceId=1 (required)
+router.get(
+  '/',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const accounts = listAccounts(workspaceId);
+    res.json({ success: true, data: accounts });
+  })
+);
+
+// POST /api/accounts
+router.post(
+  '/',
+  validate({ body: createAccountSchema }),
+  asyncHandler((req, res) => {
+    requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+
+    const account = createAccount(req.body);
+    res.status(201).json({ success: true, data: account });
+  })
+);
+
+// GET /api/accounts/:id
+// Query param: ?workspaceId=1 (required)
+router.get(
+  '/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const account = getAccount(id, workspaceId);
+    res.json({ success: true, data: account });
+  })
+);
+
+// GET /api/accounts/:id/balance-history
+// Query param: ?workspaceId=1 (required)
+router.get(
+  '/:id/balance-history',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const history = getAccountBalanceHistory(id, workspaceId);
+    res.json({ success: true, data: history });
+  })
+);
+
+// PUT /api/accounts/:id
+router.put(
+  '/:id',
+  validate({ body: updateAccountSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId, ...data } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const account = updateAccount(id, workspaceId, data);
+    res.json({ success: true, data: account });
+  })
+);
+
+// DELETE /api/accounts/:id
+// Query param: ?workspaceId=1 (required)
+router.delete(
+  '/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    deleteAccount(id, workspaceId);
+    res.json({ success: true });
+  })
+);
+
+export default router;
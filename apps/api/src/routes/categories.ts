@@ -69,20 +69,20 @@ router.get('/patterns/exists', asyncHandler((req, res) => {
 
 // POST /api/categories
 router.post('/', validate({ body: createCategorySchema }), asyncHandler((req, res) => {
-  const { name, color, icon, workspaceId } = req.body;
+  const { name, color, icon, parentId, workspaceId } = req.body;
   requireWorkspaceMembership(workspaceId, req.user!.id);
 
-  const category = createCategory({ name, color, icon, workspaceId });
+  const category = createCategory({ name, color, icon, parentId, workspaceId });
   res.status(201).json({ success: true, data: category });
 }));
 
 // PUT /api/categories/:id
 router.put('/:id', validate({ body: updateCategorySchema, params: idParam }), asyncHandler((req, res) => {
   const { id } = req.params as unknown as { id: number };
-  const { workspaceId, name, color, icon } = req.body;
+  const { workspaceId, name, color, icon, parentId } = req.body;
   requireWorkspaceMembership(workspaceId, req.user!.id);
 
-  updateCategory(id, workspaceId, { name, color, icon });
+  updateCategory(id, workspaceId, { name, color, icon, parentId });
   res.json({ success: true });
 }));
 
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/csvProfileService.js', () => ({
+  listCsvProfiles: vi.fn(),
+  createCsvProfile: vi.fn(),
+  updateCsvProfile: vi.fn(),
+  deleteCsvProfile: vi.fn(),
+}));
+
+import router from './csvProfiles.js';
+import {
+  listCsvProfiles,
+  createCsvProfile,
+  updateCsvProfile,
+  deleteCsvProfile,
+} from '../services/csvProfileService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/csv-profiles');
+
+const validProfile = {
+  workspaceId: 1,
+  name: 'Revolut',
+  delimiter: ',',
+  dateFormat: 'YYYY-MM-DD',
+  decimalFormat: 'standard',
+  columns: { date: 0, description: [1], amount: 2 },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/csv-profiles', () => {
+  it('returns 200 with profile list', async () => {
+    vi.mocked(listCsvProfiles).mockReturnValue([{ id: 1 }] as any);
+
+    const res = await request(app).get('/api/csv-profiles?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: [{ id: 1 }] });
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).get('/api/csv-profiles');
+
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+});
+
+describe('POST /api/csv-profiles', () => {
+  it('returns 201 with created profile', async () => {
+    vi.mocked(createCsvProfile).mockReturnValue({ id: 5, bankId: 'csv:5' } as any);
+
+    const res = await request(app).post('/api/csv-profiles').send(validProfile);
+
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual({ success: true, data: { id: 5, bankId: 'csv:5' } });
+    expect(createCsvProfile).toHaveBeenCalledWith(expect.objectContaining({ name: 'Revolut' }));
+  });
+
+  it('returns 400 when neither amount nor debit/credit columns are mapped', async () => {
+    const res = await request(app)
+      .post('/api/csv-profiles')
+      .send({ ...validProfile, columns: { date: 0, description: [1] } });
+
+    expect(res.status).toBe(400);
+    expect(createCsvProfile).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an unsupported date format', async () => {
+    const res = await request(app)
+      .post('/api/csv-profiles')
+      .send({ ...validProfile, dateFormat: 'D/M/Y' });
+
+    expect(res.status).toBe(400);
+    expect(createCsvProfile).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /api/csv-profiles/:id', () => {
+  it('returns 200 with updated profile', async () => {
+    vi.mocked(updateCsvProfile).mockReturnValue({ id: 5, name: 'Renamed' } as any);
+
+    const res = await request(app)
+      .put('/api/csv-profiles/5')
+      .send({ workspaceId: 1, name: 'Renamed' });
+
+    expect(res.status).toBe(200);
+    expect(updateCsvProfile).toHaveBeenCalledWith(5, 1, { name: 'Renamed' });
+  });
+
+  it('propagates not-found error', async () => {
+    vi.mocked(updateCsvProfile).mockImplementation(() => {
+      throw AppError.notFound('CSV profile not found');
+    });
+
+    const res = await request(app)
+      .put('/api/csv-profiles/999')
+      .send({ workspaceId: 1, name: 'Renamed' });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('DELETE /api/csv-profiles/:id', () => {
+  it('returns 200 on success', async () => {
+    const res = await request(app).delete('/api/csv-profiles/5?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true });
+    expect(deleteCsvProfile).toHaveBeenCalledWith(5, 1);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).delete('/api/csv-profiles/5');
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import { createCsvProfileSchema, updateCsvProfileSchema } from '../schemas/csvProfiles.js';
+import { requireQueryInt } from '../utils/queryHelpers.js';
+import {
+  listCsvProfiles,
+  createCsvProfile,
+  updateCsvProfile,
+  deleteCsvProfile,
+} from '../services/csvProfileService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/csv-profiles
+// Query param: ?workspaceId=1 (required)
+router.get('/', asyncHandler((req, res) => {
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  const profiles = listCsvProfiles(workspaceId);
+  res.json({ success: true, data: profiles });
+}));
+
+// POST /api/csv-profiles
+router.post('/', validate({ body: createCsvProfileSchema }), asyncHandler((req, res) => {
+  requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+
+  const profile = createCsvProfile(req.body);
+  res.status(201).json({ success: true, data: profile });
+}));
+
+// PUT /api/csv-profiles/:id
+router.put('/:id', validate({ body: updateCsvProfileSchema, params: idParam }), asyncHandler((req, res) => {
+  const { id } = req.params as unknown as { id: number };
+  const { workspaceId, ...data } = req.body;
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  const profile = updateCsvProfile(id, workspaceId, data);
+  res.json({ success: true, data: profile });
+}));
+
+// DELETE /api/csv-profiles/:id
+// Query param: ?workspaceId=1 (required)
+router.delete('/:id', validate({ params: idParam }), asyncHandler((req, res) => {
+  const { id } = req.params as unknown as { id: number };
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  deleteCsvProfile(id, workspaceId);
+  res.json({ success: true });
+}));
+
+export default router;
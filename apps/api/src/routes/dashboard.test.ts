@@ -57,9 +57,47 @@ describe('GET /api/dashboard', () => {
       year: 2024,
       month: 6,
       categoryId: 3,
+      includeTransfers: false,
     });
   });
 
+  it('passes the date basis', async () => {
+    vi.mocked(getDashboardData).mockReturnValue({} as any);
+
+    await request(app).get('/api/dashboard?workspaceId=1&year=2024&dateBasis=value');
+
+    expect(getDashboardData).toHaveBeenCalledWith(
+      expect.objectContaining({ workspaceId: 1, year: 2024, dateBasis: 'value' })
+    );
+  });
+
+  it('passes includeTransfers', async () => {
+    vi.mocked(getDashboardData).mockReturnValue({} as any);
+
+    await request(app).get('/api/dashboard?workspaceId=1&includeTransfers=true');
+
+    expect(getDashboardData).toHaveBeenCalledWith(
+      expect.objectContaining({ workspaceId: 1, includeTransfers: true })
+    );
+  });
+
+  it('passes the parent category to drill down into', async () => {
+    vi.mocked(getDashboardData).mockReturnValue({} as any);
+
+    await request(app).get('/api/dashboard?workspaceId=1&parentCategoryId=7');
+
+    expect(getDashboardData).toHaveBeenCalledWith(
+      expect.objectContaining({ workspaceId: 1, parentCategoryId: 7 })
+    );
+  });
+
+  it('returns 400 for an unknown date basis', async () => {
+    const res = await request(app).get('/api/dashboard?workspaceId=1&dateBasis=posting');
+
+    expect(res.status).toBe(400);
+    expect(getDashboardData).not.toHaveBeenCalled();
+  });
+
   it('passes undefined for omitted optional params', async () => {
     vi.mocked(getDashboardData).mockReturnValue({} as any);
 
@@ -70,6 +108,7 @@ describe('GET /api/dashboard', () => {
       year: undefined,
       month: undefined,
       categoryId: undefined,
+      includeTransfers: false,
     });
   });
 
@@ -105,7 +144,7 @@ describe('GET /api/dashboard/years', () => {
 
     await request(app).get('/api/dashboard/years?workspaceId=5');
 
-    expect(getAvailableYears).toHaveBeenCalledWith(5);
+    expect(getAvailableYears).toHaveBeenCalledWith(5, undefined);
   });
 
   it('checks workspace membership', async () => {
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { getDashboardData, getAvailableYears } from '../services/dashboardService.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
-import { requireQueryInt, optionalQueryInt } from '../utils/queryHelpers.js';
+import { requireQueryInt, optionalQueryInt, optionalQueryEnum } from '../utils/queryHelpers.js';
+import { DATE_BASES } from '@compasso/shared';
 import { requireWorkspaceMembership } from '../services/workspaceService.js';
 
 const router = Router();
@@ -11,15 +12,28 @@ const router = Router();
 router.use(authMiddleware);
 
 // GET /api/dashboard
-// Query param: ?workspaceId=1 (required)
+// Query params: ?workspaceId=1 (required), year, month, categoryId, dateBasis=booking|value,
+// includeTransfers=true to count internal transfers as income and expenses,
+// parentCategoryId to break expenses down by that category's subcategories
 router.get('/', asyncHandler((req, res) => {
   const workspaceId = requireQueryInt(req, 'workspaceId');
   requireWorkspaceMembership(workspaceId, req.user!.id);
   const year = optionalQueryInt(req, 'year');
   const month = optionalQueryInt(req, 'month');
   const categoryId = optionalQueryInt(req, 'categoryId');
-
-  const data = getDashboardData({ workspaceId, year, month, categoryId });
+  const parentCategoryId = optionalQueryInt(req, 'parentCategoryId');
+  const dateBasis = optionalQueryEnum(req, 'dateBasis', DATE_BASES);
+  const includeTransfers = req.query.includeTransfers === 'true';
+
+  const data = getDashboardData({
+    workspaceId,
+    year,
+    month,
+    categoryId,
+    parentCategoryId,
+    dateBasis,
+    includeTransfers,
+  });
 
   res.json({
     success: true,
@@ -28,12 +42,12 @@ router.get('/', asyncHandler((req, res) => {
 }));
 
 // GET /api/dashboard/years
-// Query param: ?workspaceId=1 (required)
+// Query params: ?workspaceId=1 (required), dateBasis=booking|value
 router.get('/years', asyncHandler((req, res) => {
   const workspaceId = requireQueryInt(req, 'workspaceId');
   requireWorkspaceMembership(workspaceId, req.user!.id);
 
-  const years = getAvailableYears(workspaceId);
+  const years = getAvailableYears(workspaceId, optionalQueryEnum(req, 'dateBasis', DATE_BASES));
   res.json({
     success: true,
     data: years,
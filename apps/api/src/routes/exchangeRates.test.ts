@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/exchangeRateService.js', () => ({
+  listExchangeRates: vi.fn(),
+  setExchangeRate: vi.fn(),
+  deleteExchangeRate: vi.fn(),
+  importEcbRates: vi.fn(),
+}));
+
+import router from './exchangeRates.js';
+import {
+  listExchangeRates,
+  setExchangeRate,
+  deleteExchangeRate,
+  importEcbRates,
+} from '../services/exchangeRateService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/exchange-rates');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/exchange-rates', () => {
+  it('returns 200 with the rates of a currency', async () => {
+    vi.mocked(listExchangeRates).mockReturnValue([{ id: 4 }] as any);
+
+    const res = await request(app).get('/api/exchange-rates?workspaceId=1&currency=usd');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: [{ id: 4 }] });
+    expect(listExchangeRates).toHaveBeenCalledWith(1, 'USD');
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 without a workspaceId', async () => {
+    const res = await request(app).get('/api/exchange-rates');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('PUT /api/exchange-rates', () => {
+  it('sets the rate', async () => {
+    vi.mocked(setExchangeRate).mockReturnValue({ id: 4, rate: 0.86 } as any);
+
+    const res = await request(app)
+      .put('/api/exchange-rates')
+      .send({ workspaceId: 1, currency: 'gbp', date: '2024-01-05', rate: 0.86 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ id: 4, rate: 0.86 });
+    expect(setExchangeRate).toHaveBeenCalledWith(1, {
+      currency: 'GBP',
+      date: '2024-01-05',
+      rate: 0.86,
+    });
+  });
+
+  it('returns 400 for a rate that is not positive', async () => {
+    const res = await request(app)
+      .put('/api/exchange-rates')
+      .send({ workspaceId: 1, currency: 'GBP', date: '2024-01-05', rate: 0 });
+
+    expect(res.status).toBe(400);
+    expect(setExchangeRate).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/exchange-rates/import', () => {
+  it('imports the uploaded file', async () => {
+    vi.mocked(importEcbRates).mockReturnValue(2);
+
+    const res = await request(app)
+      .post('/api/exchange-rates/import?workspaceId=1')
+      .attach('file', Buffer.from('Date,USD,GBP\n2024-01-05,1.0921,0.86\n'), 'eurofxref.csv');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ imported: 2 });
+    expect(importEcbRates).toHaveBeenCalledWith(1, 'Date,USD,GBP\n2024-01-05,1.0921,0.86\n');
+  });
+
+  it('returns 400 without a file', async () => {
+    const res = await request(app).post('/api/exchange-rates/import?workspaceId=1');
+
+    expect(res.status).toBe(400);
+    expect(importEcbRates).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /api/exchange-rates/:id', () => {
+  it('deletes the rate', async () => {
+    const res = await request(app).delete('/api/exchange-rates/4?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(deleteExchangeRate).toHaveBeenCalledWith(4, 1);
+  });
+
+  it('returns 404 when the rate does not exist', async () => {
+    vi.mocked(deleteExchangeRate).mockImplementation(() => {
+      throw AppError.notFound('Exchange rate not found');
+    });
+
+    const res = await request(app).delete('/api/exchange-rates/99?workspaceId=1');
+
+    expect(res.status).toBe(404);
+  });
+});
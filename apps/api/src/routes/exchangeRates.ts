@@ -0,0 +1,102 @@
+import path from 'path';
+import { Router } from 'express';
+import multer from 'multer';
+import { ErrorCode } from '@compasso/shared';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import { setExchangeRateSchema } from '../schemas/exchangeRates.js';
+import { requireQueryInt, optionalQueryString } from '../utils/queryHelpers.js';
+import {
+  listExchangeRates,
+  setExchangeRate,
+  deleteExchangeRate,
+  importEcbRates,
+} from '../services/exchangeRateService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+import { AppError } from '../errors.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// Configure multer for ECB reference rate files; browsers report CSV inconsistently,
+// so the extension is also accepted
+const storage = multer.memoryStorage();
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype === 'text/csv' || path.extname(file.originalname).toLowerCase() === '.csv') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV files are allowed'));
+    }
+  },
+});
+
+// GET /api/exchange-rates
+// Query params: ?workspaceId=1 (required), currency=USD
+router.get(
+  '/',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const currency = optionalQueryString(req, 'currency')?.toUpperCase();
+    const rates = listExchangeRates(workspaceId, currency);
+    res.json({ success: true, data: rates });
+  })
+);
+
+// PUT /api/exchange-rates
+// Sets the rate of a currency on a date
+router.put(
+  '/',
+  validate({ body: setExchangeRateSchema }),
+  asyncHandler((req, res) => {
+    const { workspaceId, ...data } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const rate = setExchangeRate(workspaceId, data);
+    res.json({ success: true, data: rate });
+  })
+);
+
+// POST /api/exchange-rates/import?workspaceId=<id>
+// Imports an ECB reference rates CSV
+router.post(
+  '/import',
+  upload.single('file'),
+  asyncHandler((req, res) => {
+    if (!req.file) {
+      throw AppError.badRequest('No file uploaded', ErrorCode.INVALID_FILE);
+    }
+
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const imported = importEcbRates(workspaceId, req.file.buffer.toString('utf-8'));
+    res.json({ success: true, data: { imported } });
+  })
+);
+
+// DELETE /api/exchange-rates/:id
+// Query param: ?workspaceId=1 (required)
+router.delete(
+  '/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    deleteExchangeRate(id, workspaceId);
+    res.json({ success: true });
+  })
+);
+
+export default router;
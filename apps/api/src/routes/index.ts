@@ -9,6 +9,15 @@ import recurring from './recurring.js';
 import reports from './reports.js';
 import invitations from './invitations.js';
 import backup from './backup.js';
+import csvProfiles from './csvProfiles.js';
+import statementTemplates from './statementTemplates.js';
+import merchants from './merchants.js';
+import accounts from './accounts.js';
+import transfers from './transfers.js';
+import exchangeRates from './exchangeRates.js';
+import netWorth from './netWorth.js';
+import loans from './loans.js';
+import tags from './tags.js';
 
 export function registerRoutes(app: Express) {
   app.use('/api/auth', auth);
@@ -22,4 +31,13 @@ export function registerRoutes(app: Express) {
   app.use('/api/workspaces', invitations);
   app.use('/api/invitations', invitations);
   app.use('/api/backup', backup);
+  app.use('/api/csv-profiles', csvProfiles);
+  app.use('/api/statement-templates', statementTemplates);
+  app.use('/api/merchants', merchants);
+  app.use('/api/accounts', accounts);
+  app.use('/api/transfers', transfers);
+  app.use('/api/exchange-rates', exchangeRates);
+  app.use('/api/net-worth', netWorth);
+  app.use('/api/loans', loans);
+  app.use('/api/tags', tags);
 }
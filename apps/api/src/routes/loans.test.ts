@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/loanService.js', () => ({
+  listLoans: vi.fn(),
+  getLoanSummary: vi.fn(),
+  getLoanSchedule: vi.fn(),
+  createLoan: vi.fn(),
+  updateLoan: vi.fn(),
+  deleteLoan: vi.fn(),
+  linkLoanPayments: vi.fn(),
+  unlinkLoanPayment: vi.fn(),
+  listEuriborRates: vi.fn(),
+  setEuriborRate: vi.fn(),
+  deleteEuriborRate: vi.fn(),
+}));
+
+import router from './loans.js';
+import {
+  listLoans,
+  getLoanSchedule,
+  createLoan,
+  updateLoan,
+  deleteLoan,
+  linkLoanPayments,
+  unlinkLoanPayment,
+  listEuriborRates,
+  setEuriborRate,
+} from '../services/loanService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/loans');
+
+const loanBody = {
+  workspaceId: 1,
+  name: 'Mortgage',
+  principal: 150000,
+  rateType: 'euribor',
+  euriborTenor: '12M',
+  spread: 1.2,
+  termMonths: 360,
+  startDate: '2024-01-10',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/loans', () => {
+  it('returns 200 with the loans of the workspace', async () => {
+    vi.mocked(listLoans).mockReturnValue([{ id: 7 }] as any);
+
+    const res = await request(app).get('/api/loans?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: [{ id: 7 }] });
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 without a workspaceId', async () => {
+    const res = await request(app).get('/api/loans');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('GET /api/loans/:id/schedule', () => {
+  it('returns the amortization schedule', async () => {
+    vi.mocked(getLoanSchedule).mockReturnValue([{ number: 1 }] as any);
+
+    const res = await request(app).get('/api/loans/7/schedule?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual([{ number: 1 }]);
+    expect(getLoanSchedule).toHaveBeenCalledWith(7, 1);
+  });
+
+  it('returns 404 for a missing loan', async () => {
+    vi.mocked(getLoanSchedule).mockImplementation(() => {
+      throw AppError.notFound('Loan not found');
+    });
+
+    const res = await request(app).get('/api/loans/99/schedule?workspaceId=1');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('POST /api/loans', () => {
+  it('creates the loan', async () => {
+    vi.mocked(createLoan).mockReturnValue({ id: 7 } as any);
+
+    const res = await request(app).post('/api/loans').send(loanBody);
+
+    expect(res.status).toBe(201);
+    expect(createLoan).toHaveBeenCalledWith(loanBody);
+  });
+
+  it('returns 400 for an unknown Euribor tenor', async () => {
+    const res = await request(app)
+      .post('/api/loans')
+      .send({ ...loanBody, euriborTenor: '1M' });
+
+    expect(res.status).toBe(400);
+    expect(createLoan).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /api/loans/:id', () => {
+  it('updates the loan', async () => {
+    vi.mocked(updateLoan).mockReturnValue({ id: 7 } as any);
+
+    const res = await request(app).put('/api/loans/7').send({ workspaceId: 1, spread: 1 });
+
+    expect(res.status).toBe(200);
+    expect(updateLoan).toHaveBeenCalledWith(7, 1, { spread: 1 });
+  });
+});
+
+describe('DELETE /api/loans/:id', () => {
+  it('deletes the loan', async () => {
+    const res = await request(app).delete('/api/loans/7?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(deleteLoan).toHaveBeenCalledWith(7, 1);
+  });
+});
+
+describe('payments', () => {
+  it('links matching payments', async () => {
+    vi.mocked(linkLoanPayments).mockReturnValue(3);
+
+    const res = await request(app).post('/api/loans/7/link').send({ workspaceId: 1 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ linked: 3 });
+    expect(linkLoanPayments).toHaveBeenCalledWith(7, 1);
+  });
+
+  it('unlinks a payment', async () => {
+    const res = await request(app).delete('/api/loans/7/payments/40?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(unlinkLoanPayment).toHaveBeenCalledWith(7, 1, 40);
+  });
+});
+
+describe('Euribor rates', () => {
+  it('lists the values of a tenor', async () => {
+    vi.mocked(listEuriborRates).mockReturnValue([{ id: 2 }] as any);
+
+    const res = await request(app).get('/api/loans/euribor-rates?workspaceId=1&tenor=6M');
+
+    expect(res.status).toBe(200);
+    expect(listEuriborRates).toHaveBeenCalledWith(1, '6M');
+  });
+
+  it('sets a value', async () => {
+    vi.mocked(setEuriborRate).mockReturnValue({ id: 2 } as any);
+
+    const res = await request(app)
+      .put('/api/loans/euribor-rates')
+      .send({ workspaceId: 1, tenor: '12M', date: '2024-01-02', rate: 3.5 });
+
+    expect(res.status).toBe(200);
+    expect(setEuriborRate).toHaveBeenCalledWith(1, { tenor: '12M', date: '2024-01-02', rate: 3.5 });
+  });
+});
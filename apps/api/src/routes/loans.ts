@@ -0,0 +1,190 @@
+import { Router } from 'express';
+import { EURIBOR_TENORS } from '@compasso/shared';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import {
+  createLoanSchema,
+  updateLoanSchema,
+  linkLoanPaymentsSchema,
+  loanPaymentParams,
+  setEuriborRateSchema,
+} from '../schemas/loans.js';
+import { requireQueryInt, optionalQueryEnum } from '../utils/queryHelpers.js';
+import {
+  listLoans,
+  getLoanSummary,
+  getLoanSchedule,
+  createLoan,
+  updateLoan,
+  deleteLoan,
+  linkLoanPayments,
+  unlinkLoanPayment,
+  listEuriborRates,
+  setEuriborRate,
+  deleteEuriborRate,
+} from '../services/loanService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/loans/euribor-rates
+// Query params: ?workspaceId=1 (required), tenor=12M
+router.get(
+  '/euribor-rates',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const tenor = optionalQueryEnum(req, 'tenor', EURIBOR_TENORS);
+    const rates = listEuriborRates(workspaceId, tenor);
+    res.json({ success: true, data: rates });
+  })
+);
+
+// PUT /api/loans/euribor-rates
+// Sets the Euribor value of a tenor on a date
+router.put(
+  '/euribor-rates',
+  validate({ body: setEuriborRateSchema }),
+  asyncHandler((req, res) => {
+    const { workspaceId, ...data } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const rate = setEuriborRate(workspaceId, data);
+    res.json({ success: true, data: rate });
+  })
+);
+
+// DELETE /api/loans/euribor-rates/:id
+// Query param: ?workspaceId=1 (required)
+router.delete(
+  '/euribor-rates/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    deleteEuriborRate(id, workspaceId);
+    res.json({ success: true });
+  })
+);
+
+// GET /api/loans
+// Query param: ?workspaceId=1 (required)
+router.get(
+  '/',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const loans = listLoans(workspaceId);
+    res.json({ success: true, data: loans });
+  })
+);
+
+// GET /api/loans/:id
+// Query param: ?workspaceId=1 (required)
+router.get(
+  '/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const loan = getLoanSummary(id, workspaceId);
+    res.json({ success: true, data: loan });
+  })
+);
+
+// GET /api/loans/:id/schedule
+// Query param: ?workspaceId=1 (required)
+router.get(
+  '/:id/schedule',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const schedule = getLoanSchedule(id, workspaceId);
+    res.json({ success: true, data: schedule });
+  })
+);
+
+// POST /api/loans
+router.post(
+  '/',
+  validate({ body: createLoanSchema }),
+  asyncHandler((req, res) => {
+    requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+
+    const loan = createLoan(req.body);
+    res.status(201).json({ success: true, data: loan });
+  })
+);
+
+// PUT /api/loans/:id
+router.put(
+  '/:id',
+  validate({ body: updateLoanSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId, ...data } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const loan = updateLoan(id, workspaceId, data);
+    res.json({ success: true, data: loan });
+  })
+);
+
+// DELETE /api/loans/:id
+// Query param: ?workspaceId=1 (required)
+router.delete(
+  '/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    deleteLoan(id, workspaceId);
+    res.json({ success: true });
+  })
+);
+
+// POST /api/loans/:id/link
+// Links the loan's unpaid installments to matching payments
+router.post(
+  '/:id/link',
+  validate({ body: linkLoanPaymentsSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+
+    const linked = linkLoanPayments(id, req.body.workspaceId);
+    res.json({ success: true, data: { linked } });
+  })
+);
+
+// DELETE /api/loans/:id/payments/:transactionId
+// Query param: ?workspaceId=1 (required)
+router.delete(
+  '/:id/payments/:transactionId',
+  validate({ params: loanPaymentParams }),
+  asyncHandler((req, res) => {
+    const { id, transactionId } = req.params as unknown as { id: number; transactionId: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    unlinkLoanPayment(id, workspaceId, transactionId);
+    res.json({ success: true });
+  })
+);
+
+export default router;
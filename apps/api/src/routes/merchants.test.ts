@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/merchantService.js', () => ({
+  listMerchants: vi.fn(),
+  getMerchant: vi.fn(),
+  renameMerchant: vi.fn(),
+  mergeMerchants: vi.fn(),
+  assignMissingMerchants: vi.fn(),
+}));
+
+import router from './merchants.js';
+import {
+  listMerchants,
+  getMerchant,
+  renameMerchant,
+  mergeMerchants,
+  assignMissingMerchants,
+} from '../services/merchantService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/merchants');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/merchants', () => {
+  it('returns 200 with the merchant list', async () => {
+    const result = { items: [{ id: 7 }], total: 1, limit: 50, offset: 0 };
+    vi.mocked(listMerchants).mockReturnValue(result as any);
+
+    const res = await request(app).get('/api/merchants?workspaceId=1&search=pingo');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: result });
+    expect(listMerchants).toHaveBeenCalledWith(1, 50, 0, 'pingo');
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).get('/api/merchants');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('GET /api/merchants/:id', () => {
+  it('returns 404 when the merchant is not in the workspace', async () => {
+    vi.mocked(getMerchant).mockImplementation(() => {
+      throw AppError.notFound('Merchant not found');
+    });
+
+    const res = await request(app).get('/api/merchants/7?workspaceId=1');
+
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Merchant not found');
+  });
+});
+
+describe('PUT /api/merchants/:id', () => {
+  it('renames the merchant', async () => {
+    vi.mocked(renameMerchant).mockReturnValue({ id: 7, name: 'Pingo Doce' } as any);
+
+    const res = await request(app)
+      .put('/api/merchants/7')
+      .send({ workspaceId: 1, name: 'Pingo Doce' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ id: 7, name: 'Pingo Doce' });
+    expect(renameMerchant).toHaveBeenCalledWith(7, 1, 'Pingo Doce');
+  });
+
+  it('returns 400 for an empty name', async () => {
+    const res = await request(app).put('/api/merchants/7').send({ workspaceId: 1, name: '' });
+
+    expect(res.status).toBe(400);
+    expect(renameMerchant).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/merchants/:id/merge', () => {
+  it('merges the source merchants into the target', async () => {
+    vi.mocked(mergeMerchants).mockReturnValue({ id: 7 } as any);
+
+    const res = await request(app)
+      .post('/api/merchants/7/merge')
+      .send({ workspaceId: 1, sourceIds: [8, 9] });
+
+    expect(res.status).toBe(200);
+    expect(mergeMerchants).toHaveBeenCalledWith(7, [8, 9], 1);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 without merchants to merge', async () => {
+    const res = await request(app)
+      .post('/api/merchants/7/merge')
+      .send({ workspaceId: 1, sourceIds: [] });
+
+    expect(res.status).toBe(400);
+    expect(mergeMerchants).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/merchants/assign', () => {
+  it('returns the number of linked transactions', async () => {
+    vi.mocked(assignMissingMerchants).mockReturnValue(42);
+
+    const res = await request(app).post('/api/merchants/assign').send({ workspaceId: 1 });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: { assigned: 42 } });
+    expect(assignMissingMerchants).toHaveBeenCalledWith(1);
+  });
+});
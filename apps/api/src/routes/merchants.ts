@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import {
+  renameMerchantSchema,
+  mergeMerchantsSchema,
+  assignMerchantsSchema,
+} from '../schemas/merchants.js';
+import { requireQueryInt, optionalQueryInt, optionalQueryString } from '../utils/queryHelpers.js';
+import {
+  listMerchants,
+  getMerchant,
+  renameMerchant,
+  mergeMerchants,
+  assignMissingMerchants,
+} from '../services/merchantService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/merchants
+// Query params: ?workspaceId=1 (required), search, limit, offset
+router.get(
+  '/',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+    const limit = optionalQueryInt(req, 'limit', 50)!;
+    const offset = optionalQueryInt(req, 'offset', 0)!;
+
+    const result = listMerchants(workspaceId, limit, offset, optionalQueryString(req, 'search'));
+    res.json({ success: true, data: result });
+  })
+);
+
+// POST /api/merchants/assign
+// Links transactions without a merchant to their extracted merchant
+router.post(
+  '/assign',
+  validate({ body: assignMerchantsSchema }),
+  asyncHandler((req, res) => {
+    const { workspaceId } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const assigned = assignMissingMerchants(workspaceId);
+    res.json({ success: true, data: { assigned } });
+  })
+);
+
+// GET /api/merchants/:id
+router.get(
+  '/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const merchant = getMerchant(id, workspaceId);
+    res.json({ success: true, data: merchant });
+  })
+);
+
+// PUT /api/merchants/:id
+router.put(
+  '/:id',
+  validate({ body: renameMerchantSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId, name } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const merchant = renameMerchant(id, workspaceId, name);
+    res.json({ success: true, data: merchant });
+  })
+);
+
+// POST /api/merchants/:id/merge
+// Moves the transactions and aliases of sourceIds into this merchant
+router.post(
+  '/:id/merge',
+  validate({ body: mergeMerchantsSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId, sourceIds } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const merchant = mergeMerchants(id, sourceIds, workspaceId);
+    res.json({ success: true, data: merchant });
+  })
+);
+
+export default router;
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/netWorthService.js', () => ({
+  getNetWorth: vi.fn(),
+  listNetWorthItems: vi.fn(),
+  createNetWorthItem: vi.fn(),
+  updateNetWorthItem: vi.fn(),
+  deleteNetWorthItem: vi.fn(),
+  listNetWorthSnapshots: vi.fn(),
+  recordNetWorthSnapshot: vi.fn(),
+}));
+
+import router from './netWorth.js';
+import {
+  getNetWorth,
+  createNetWorthItem,
+  updateNetWorthItem,
+  deleteNetWorthItem,
+  listNetWorthSnapshots,
+  recordNetWorthSnapshot,
+} from '../services/netWorthService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/net-worth');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/net-worth', () => {
+  it('returns the current net worth', async () => {
+    vi.mocked(getNetWorth).mockReturnValue({ netWorth: 82000 } as any);
+
+    const res = await request(app).get('/api/net-worth?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: { netWorth: 82000 } });
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 without a workspaceId', async () => {
+    const res = await request(app).get('/api/net-worth');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('POST /api/net-worth/items', () => {
+  it('creates an item', async () => {
+    vi.mocked(createNetWorthItem).mockReturnValue({ id: 3 } as any);
+
+    const res = await request(app)
+      .post('/api/net-worth/items')
+      .send({
+        workspaceId: 1,
+        kind: 'liability',
+        name: 'Mortgage',
+        value: 180000,
+        currency: 'eur',
+      });
+
+    expect(res.status).toBe(201);
+    expect(createNetWorthItem).toHaveBeenCalledWith({
+      workspaceId: 1,
+      kind: 'liability',
+      name: 'Mortgage',
+      value: 180000,
+      currency: 'EUR',
+    });
+  });
+
+  it('returns 400 for an unknown kind', async () => {
+    const res = await request(app)
+      .post('/api/net-worth/items')
+      .send({ workspaceId: 1, kind: 'income', name: 'Salary', value: 100 });
+
+    expect(res.status).toBe(400);
+    expect(createNetWorthItem).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /api/net-worth/items/:id', () => {
+  it('updates the item', async () => {
+    vi.mocked(updateNetWorthItem).mockReturnValue({ id: 3, value: 179000 } as any);
+
+    const res = await request(app)
+      .put('/api/net-worth/items/3')
+      .send({ workspaceId: 1, value: 179000 });
+
+    expect(res.status).toBe(200);
+    expect(updateNetWorthItem).toHaveBeenCalledWith(3, 1, { value: 179000 });
+  });
+});
+
+describe('DELETE /api/net-worth/items/:id', () => {
+  it('returns 404 when the item does not exist', async () => {
+    vi.mocked(deleteNetWorthItem).mockImplementation(() => {
+      throw AppError.notFound('Net worth item not found');
+    });
+
+    const res = await request(app).delete('/api/net-worth/items/99?workspaceId=1');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('/api/net-worth/snapshots', () => {
+  it('lists snapshots within the date range', async () => {
+    vi.mocked(listNetWorthSnapshots).mockReturnValue([]);
+
+    const res = await request(app).get(
+      '/api/net-worth/snapshots?workspaceId=1&startDate=2024-01-01&endDate=2024-12-31'
+    );
+
+    expect(res.status).toBe(200);
+    expect(listNetWorthSnapshots).toHaveBeenCalledWith(1, '2024-01-01', '2024-12-31');
+  });
+
+  it('records a snapshot', async () => {
+    vi.mocked(recordNetWorthSnapshot).mockReturnValue({ id: 5 } as any);
+
+    const res = await request(app).post('/api/net-worth/snapshots').send({ workspaceId: 1 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ id: 5 });
+    expect(recordNetWorthSnapshot).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import {
+  createNetWorthItemSchema,
+  updateNetWorthItemSchema,
+  recordNetWorthSnapshotSchema,
+} from '../schemas/netWorth.js';
+import { requireQueryInt, optionalQueryString } from '../utils/queryHelpers.js';
+import {
+  getNetWorth,
+  listNetWorthItems,
+  createNetWorthItem,
+  updateNetWorthItem,
+  deleteNetWorthItem,
+  listNetWorthSnapshots,
+  recordNetWorthSnapshot,
+} from '../services/netWorthService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/net-worth
+// Query param: ?workspaceId=1 (required)
+router.get(
+  '/',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const summary = getNetWorth(workspaceId);
+    res.json({ success: true, data: summary });
+  })
+);
+
+// GET /api/net-worth/items
+// Query param: ?workspaceId=1 (required)
+router.get(
+  '/items',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const items = listNetWorthItems(workspaceId);
+    res.json({ success: true, data: items });
+  })
+);
+
+// POST /api/net-worth/items
+router.post(
+  '/items',
+  validate({ body: createNetWorthItemSchema }),
+  asyncHandler((req, res) => {
+    requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+
+    const item = createNetWorthItem(req.body);
+    res.status(201).json({ success: true, data: item });
+  })
+);
+
+// PUT /api/net-worth/items/:id
+router.put(
+  '/items/:id',
+  validate({ body: updateNetWorthItemSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId, ...data } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const item = updateNetWorthItem(id, workspaceId, data);
+    res.json({ success: true, data: item });
+  })
+);
+
+// DELETE /api/net-worth/items/:id
+// Query param: ?workspaceId=1 (required)
+router.delete(
+  '/items/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    deleteNetWorthItem(id, workspaceId);
+    res.json({ success: true });
+  })
+);
+
+// GET /api/net-worth/snapshots
+// Query params: ?workspaceId=1 (required), &startDate=2024-01-01&endDate=2024-12-31 (optional)
+router.get(
+  '/snapshots',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const snapshots = listNetWorthSnapshots(
+      workspaceId,
+      optionalQueryString(req, 'startDate'),
+      optionalQueryString(req, 'endDate')
+    );
+    res.json({ success: true, data: snapshots });
+  })
+);
+
+// POST /api/net-worth/snapshots
+// Records today's snapshot, replacing one already recorded today
+router.post(
+  '/snapshots',
+  validate({ body: recordNetWorthSnapshotSchema }),
+  asyncHandler((req, res) => {
+    requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+
+    const snapshot = recordNetWorthSnapshot(req.body.workspaceId);
+    res.json({ success: true, data: snapshot });
+  })
+);
+
+export default router;
@@ -18,6 +18,8 @@ vi.mock('../services/reportsService.js', () => ({
   getYearlySummary: vi.fn(),
   getCategoryTrends: vi.fn(),
   getAvailableYearsForReports: vi.fn(),
+  getTopMerchants: vi.fn(),
+  getTagSpending: vi.fn(),
 }));
 
 import router from './reports.js';
@@ -25,6 +27,8 @@ import {
   getYearlySummary,
   getCategoryTrends,
   getAvailableYearsForReports,
+  getTopMerchants,
+  getTagSpending,
 } from '../services/reportsService.js';
 import { requireWorkspaceMembership } from '../services/workspaceService.js';
 
@@ -57,7 +61,7 @@ describe('GET /api/reports/years', () => {
 
     await request(app).get('/api/reports/years?workspaceId=3');
 
-    expect(getAvailableYearsForReports).toHaveBeenCalledWith(3);
+    expect(getAvailableYearsForReports).toHaveBeenCalledWith(3, undefined);
   });
 
   it('checks workspace membership', async () => {
@@ -99,7 +103,31 @@ describe('GET /api/reports/yearly', () => {
 
     await request(app).get('/api/reports/yearly?workspaceId=2&year=2023');
 
-    expect(getYearlySummary).toHaveBeenCalledWith(2, 2023);
+    expect(getYearlySummary).toHaveBeenCalledWith(2, 2023, undefined, false, undefined);
+  });
+
+  it('passes the date basis', async () => {
+    vi.mocked(getYearlySummary).mockReturnValue({} as any);
+
+    await request(app).get('/api/reports/yearly?workspaceId=2&year=2023&dateBasis=value');
+
+    expect(getYearlySummary).toHaveBeenCalledWith(2, 2023, 'value', false, undefined);
+  });
+
+  it('passes includeTransfers', async () => {
+    vi.mocked(getYearlySummary).mockReturnValue({} as any);
+
+    await request(app).get('/api/reports/yearly?workspaceId=2&year=2023&includeTransfers=true');
+
+    expect(getYearlySummary).toHaveBeenCalledWith(2, 2023, undefined, true, undefined);
+  });
+
+  it('passes the parent category to drill down into', async () => {
+    vi.mocked(getYearlySummary).mockReturnValue({} as any);
+
+    await request(app).get('/api/reports/yearly?workspaceId=2&year=2023&parentCategoryId=7');
+
+    expect(getYearlySummary).toHaveBeenCalledWith(2, 2023, undefined, false, 7);
   });
 
   it('checks workspace membership', async () => {
@@ -127,7 +155,7 @@ describe('GET /api/reports/category-trends', () => {
 
     await request(app).get('/api/reports/category-trends?workspaceId=1');
 
-    expect(getCategoryTrends).toHaveBeenCalledWith(1, 12);
+    expect(getCategoryTrends).toHaveBeenCalledWith(1, 12, undefined, undefined);
   });
 
   it('uses custom months value', async () => {
@@ -135,7 +163,15 @@ describe('GET /api/reports/category-trends', () => {
 
     await request(app).get('/api/reports/category-trends?workspaceId=1&months=6');
 
-    expect(getCategoryTrends).toHaveBeenCalledWith(1, 6);
+    expect(getCategoryTrends).toHaveBeenCalledWith(1, 6, undefined, undefined);
+  });
+
+  it('passes the parent category to drill down into', async () => {
+    vi.mocked(getCategoryTrends).mockReturnValue([] as any);
+
+    await request(app).get('/api/reports/category-trends?workspaceId=1&parentCategoryId=7');
+
+    expect(getCategoryTrends).toHaveBeenCalledWith(1, 12, undefined, 7);
   });
 
   it('returns 400 when workspaceId is missing', async () => {
@@ -153,3 +189,52 @@ describe('GET /api/reports/category-trends', () => {
     expect(requireWorkspaceMembership).toHaveBeenCalledWith(3, TEST_USER.id);
   });
 });
+
+describe('GET /api/reports/top-merchants', () => {
+  it('returns 200 with the top merchants', async () => {
+    const merchants = [{ merchantId: 7, merchantName: 'Pingo Doce', total: 420 }];
+    vi.mocked(getTopMerchants).mockReturnValue(merchants as any);
+
+    const res = await request(app).get('/api/reports/top-merchants?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: merchants });
+    expect(getTopMerchants).toHaveBeenCalledWith(1, { year: undefined, month: undefined, limit: 10 });
+  });
+
+  it('passes the period and limit', async () => {
+    vi.mocked(getTopMerchants).mockReturnValue([]);
+
+    await request(app).get('/api/reports/top-merchants?workspaceId=1&year=2025&month=3&limit=5');
+
+    expect(getTopMerchants).toHaveBeenCalledWith(1, { year: 2025, month: 3, limit: 5 });
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).get('/api/reports/top-merchants');
+
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+});
+
+describe('GET /api/reports/tags', () => {
+  it('returns 200 with spending per tag', async () => {
+    const tags = [{ tagId: 3, tagName: 'vacation-2025', total: 850, categories: [] }];
+    vi.mocked(getTagSpending).mockReturnValue(tags as any);
+
+    const res = await request(app).get('/api/reports/tags?workspaceId=1&year=2025');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: tags });
+    expect(getTagSpending).toHaveBeenCalledWith(1, { year: 2025, month: undefined });
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).get('/api/reports/tags');
+
+    expect(res.status).toBe(400);
+    expect(getTagSpending).not.toHaveBeenCalled();
+  });
+});
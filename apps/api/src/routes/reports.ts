@@ -3,10 +3,13 @@ import {
   getYearlySummary,
   getCategoryTrends,
   getAvailableYearsForReports,
+  getTopMerchants,
+  getTagSpending,
 } from '../services/reportsService.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
-import { requireQueryInt, optionalQueryInt } from '../utils/queryHelpers.js';
+import { requireQueryInt, optionalQueryInt, optionalQueryEnum } from '../utils/queryHelpers.js';
+import { DATE_BASES } from '@compasso/shared';
 import { requireWorkspaceMembership } from '../services/workspaceService.js';
 
 const router = Router();
@@ -15,11 +18,14 @@ const router = Router();
 router.use(authMiddleware);
 
 // GET /api/reports/years
-// Query param: ?workspaceId=1 (required)
+// Query params: ?workspaceId=1 (required), dateBasis=booking|value
 router.get('/years', asyncHandler((req, res) => {
   const workspaceId = requireQueryInt(req, 'workspaceId');
   requireWorkspaceMembership(workspaceId, req.user!.id);
-  const years = getAvailableYearsForReports(workspaceId);
+  const years = getAvailableYearsForReports(
+    workspaceId,
+    optionalQueryEnum(req, 'dateBasis', DATE_BASES)
+  );
 
   res.json({
     success: true,
@@ -28,13 +34,21 @@ router.get('/years', asyncHandler((req, res) => {
 }));
 
 // GET /api/reports/yearly
-// Query params: ?workspaceId=1&year=2024 (both required)
+// Query params: ?workspaceId=1&year=2024 (both required), dateBasis=booking|value,
+// includeTransfers=true to count internal transfers as income and expenses,
+// parentCategoryId to break expenses down by that category's subcategories
 router.get('/yearly', asyncHandler((req, res) => {
   const workspaceId = requireQueryInt(req, 'workspaceId');
   requireWorkspaceMembership(workspaceId, req.user!.id);
   const year = requireQueryInt(req, 'year');
 
-  const summary = getYearlySummary(workspaceId, year);
+  const summary = getYearlySummary(
+    workspaceId,
+    year,
+    optionalQueryEnum(req, 'dateBasis', DATE_BASES),
+    req.query.includeTransfers === 'true',
+    optionalQueryInt(req, 'parentCategoryId')
+  );
 
   res.json({
     success: true,
@@ -43,13 +57,19 @@ router.get('/yearly', asyncHandler((req, res) => {
 }));
 
 // GET /api/reports/category-trends
-// Query params: ?workspaceId=1&months=12 (workspaceId required, months optional)
+// Query params: ?workspaceId=1&months=12 (workspaceId required, months optional), dateBasis=booking|value,
+// parentCategoryId to show that category's subcategories
 router.get('/category-trends', asyncHandler((req, res) => {
   const workspaceId = requireQueryInt(req, 'workspaceId');
   requireWorkspaceMembership(workspaceId, req.user!.id);
   const months = optionalQueryInt(req, 'months', 12)!;
 
-  const trends = getCategoryTrends(workspaceId, months);
+  const trends = getCategoryTrends(
+    workspaceId,
+    months,
+    optionalQueryEnum(req, 'dateBasis', DATE_BASES),
+    optionalQueryInt(req, 'parentCategoryId')
+  );
 
   res.json({
     success: true,
@@ -57,4 +77,41 @@ router.get('/category-trends', asyncHandler((req, res) => {
   });
 }));
 
+// GET /api/reports/top-merchants
+// Query params: ?workspaceId=1 (required), year, month, limit=10, dateBasis=booking|value
+router.get('/top-merchants', asyncHandler((req, res) => {
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  const merchants = getTopMerchants(workspaceId, {
+    year: optionalQueryInt(req, 'year'),
+    month: optionalQueryInt(req, 'month'),
+    limit: optionalQueryInt(req, 'limit', 10),
+    dateBasis: optionalQueryEnum(req, 'dateBasis', DATE_BASES),
+  });
+
+  res.json({
+    success: true,
+    data: merchants,
+  });
+}));
+
+// GET /api/reports/tags
+// Query params: ?workspaceId=1 (required), year, month, dateBasis=booking|value
+router.get('/tags', asyncHandler((req, res) => {
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  const tags = getTagSpending(workspaceId, {
+    year: optionalQueryInt(req, 'year'),
+    month: optionalQueryInt(req, 'month'),
+    dateBasis: optionalQueryEnum(req, 'dateBasis', DATE_BASES),
+  });
+
+  res.json({
+    success: true,
+    data: tags,
+  });
+}));
+
 export default router;
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/statementTemplateService.js', () => ({
+  listStatementTemplates: vi.fn(),
+  createStatementTemplate: vi.fn(),
+  updateStatementTemplate: vi.fn(),
+  deleteStatementTemplate: vi.fn(),
+}));
+
+import router from './statementTemplates.js';
+import {
+  listStatementTemplates,
+  createStatementTemplate,
+  updateStatementTemplate,
+  deleteStatementTemplate,
+} from '../services/statementTemplateService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/statement-templates');
+
+const validTemplate = {
+  workspaceId: 1,
+  name: 'Millennium',
+  definition: {
+    dateFormat: 'DD/MM/YYYY',
+    decimalFormat: 'european',
+    transaction: { pattern: '^(?<date>\\d{2}/\\d{2}/\\d{4})\\s+' },
+    amountLayouts: [{ amount: 0, balance: 1 }],
+  },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/statement-templates', () => {
+  it('returns 200 with template list', async () => {
+    vi.mocked(listStatementTemplates).mockReturnValue([{ id: 1 }] as any);
+
+    const res = await request(app).get('/api/statement-templates?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: [{ id: 1 }] });
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).get('/api/statement-templates');
+
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+});
+
+describe('POST /api/statement-templates', () => {
+  it('returns 201 with created template', async () => {
+    vi.mocked(createStatementTemplate).mockReturnValue({ id: 5, bankId: 'template:5' } as any);
+
+    const res = await request(app).post('/api/statement-templates').send(validTemplate);
+
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual({ success: true, data: { id: 5, bankId: 'template:5' } });
+    expect(createStatementTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Millennium' })
+    );
+  });
+
+  it('returns 400 when no amount column is mapped', async () => {
+    const res = await request(app)
+      .post('/api/statement-templates')
+      .send({
+        ...validTemplate,
+        definition: { ...validTemplate.definition, amountLayouts: [{ balance: 1 }] },
+      });
+
+    expect(res.status).toBe(400);
+    expect(createStatementTemplate).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an invalid regular expression', async () => {
+    const res = await request(app)
+      .post('/api/statement-templates')
+      .send({
+        ...validTemplate,
+        definition: { ...validTemplate.definition, skipLines: ['(unclosed'] },
+      });
+
+    expect(res.status).toBe(400);
+    expect(createStatementTemplate).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when the transaction pattern has no date group', async () => {
+    const res = await request(app)
+      .post('/api/statement-templates')
+      .send({
+        ...validTemplate,
+        definition: { ...validTemplate.definition, transaction: { pattern: '^\\d{2}/' } },
+      });
+
+    expect(res.status).toBe(400);
+    expect(createStatementTemplate).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /api/statement-templates/:id', () => {
+  it('returns 200 with updated template', async () => {
+    vi.mocked(updateStatementTemplate).mockReturnValue({ id: 5, name: 'Renamed' } as any);
+
+    const res = await request(app)
+      .put('/api/statement-templates/5')
+      .send({ workspaceId: 1, name: 'Renamed' });
+
+    expect(res.status).toBe(200);
+    expect(updateStatementTemplate).toHaveBeenCalledWith(5, 1, { name: 'Renamed' });
+  });
+
+  it('propagates not-found error', async () => {
+    vi.mocked(updateStatementTemplate).mockImplementation(() => {
+      throw AppError.notFound('Statement template not found');
+    });
+
+    const res = await request(app)
+      .put('/api/statement-templates/999')
+      .send({ workspaceId: 1, name: 'Renamed' });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('DELETE /api/statement-templates/:id', () => {
+  it('returns 200 on success', async () => {
+    const res = await request(app).delete('/api/statement-templates/5?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true });
+    expect(deleteStatementTemplate).toHaveBeenCalledWith(5, 1);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).delete('/api/statement-templates/5');
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import {
+  createStatementTemplateSchema,
+  updateStatementTemplateSchema,
+} from '../schemas/statementTemplates.js';
+import { requireQueryInt } from '../utils/queryHelpers.js';
+import {
+  listStatementTemplates,
+  createStatementTemplate,
+  updateStatementTemplate,
+  deleteStatementTemplate,
+} from '../services/statementTemplateService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/statement-templates
+// Query param: ?workspaceId=1 (required)
+router.get('/', asyncHandler((req, res) => {
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  const templates = listStatementTemplates(workspaceId);
+  res.json({ success: true, data: templates });
+}));
+
+// POST /api/statement-templates
+router.post('/', validate({ body: createStatementTemplateSchema }), asyncHandler((req, res) => {
+  requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+
+  const template = createStatementTemplate(req.body);
+  res.status(201).json({ success: true, data: template });
+}));
+
+// PUT /api/statement-templates/:id
+router.put('/:id', validate({ body: updateStatementTemplateSchema, params: idParam }), asyncHandler((req, res) => {
+  const { id } = req.params as unknown as { id: number };
+  const { workspaceId, ...data } = req.body;
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  const template = updateStatementTemplate(id, workspaceId, data);
+  res.json({ success: true, data: template });
+}));
+
+// DELETE /api/statement-templates/:id
+// Query param: ?workspaceId=1 (required)
+router.delete('/:id', validate({ params: idParam }), asyncHandler((req, res) => {
+  const { id } = req.params as unknown as { id: number };
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  deleteStatementTemplate(id, workspaceId);
+  res.json({ success: true });
+}));
+
+export default router;
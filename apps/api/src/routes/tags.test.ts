@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/tagService.js', () => ({
+  listTags: vi.fn(),
+  createTag: vi.fn(),
+  updateTag: vi.fn(),
+  deleteTag: vi.fn(),
+  addTagToTransactions: vi.fn(),
+  removeTagFromTransactions: vi.fn(),
+}));
+
+import router from './tags.js';
+import {
+  listTags,
+  createTag,
+  updateTag,
+  deleteTag,
+  addTagToTransactions,
+  removeTagFromTransactions,
+} from '../services/tagService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/tags');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/tags', () => {
+  it('returns 200 with the tag list', async () => {
+    vi.mocked(listTags).mockReturnValue([{ id: 3, name: 'kids' }] as any);
+
+    const res = await request(app).get('/api/tags?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: [{ id: 3, name: 'kids' }] });
+    expect(listTags).toHaveBeenCalledWith(1);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).get('/api/tags');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('POST /api/tags', () => {
+  it('creates a tag with a trimmed name', async () => {
+    vi.mocked(createTag).mockReturnValue({ id: 3, name: 'vacation-2025' } as any);
+
+    const res = await request(app)
+      .post('/api/tags')
+      .send({ workspaceId: 1, name: ' vacation-2025 ', color: '#3b82f6' });
+
+    expect(res.status).toBe(201);
+    expect(createTag).toHaveBeenCalledWith(1, 'vacation-2025', '#3b82f6');
+  });
+
+  it('returns 400 for an empty name', async () => {
+    const res = await request(app).post('/api/tags').send({ workspaceId: 1, name: '  ' });
+
+    expect(res.status).toBe(400);
+    expect(createTag).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for a duplicate name', async () => {
+    vi.mocked(createTag).mockImplementation(() => {
+      throw AppError.badRequest('Tag name already exists in this workspace');
+    });
+
+    const res = await request(app).post('/api/tags').send({ workspaceId: 1, name: 'kids' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Tag name already exists in this workspace');
+  });
+});
+
+describe('PUT /api/tags/:id', () => {
+  it('updates the tag', async () => {
+    vi.mocked(updateTag).mockReturnValue({ id: 3, name: 'kids' } as any);
+
+    const res = await request(app).put('/api/tags/3').send({ workspaceId: 1, color: null });
+
+    expect(res.status).toBe(200);
+    expect(updateTag).toHaveBeenCalledWith(3, 1, { name: undefined, color: null });
+  });
+});
+
+describe('DELETE /api/tags/:id', () => {
+  it('deletes the tag', async () => {
+    const res = await request(app).delete('/api/tags/3?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(deleteTag).toHaveBeenCalledWith(3, 1);
+  });
+
+  it('returns 404 when the tag is not in the workspace', async () => {
+    vi.mocked(deleteTag).mockImplementation(() => {
+      throw AppError.notFound('Tag not found');
+    });
+
+    const res = await request(app).delete('/api/tags/3?workspaceId=2');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('POST /api/tags/:id/add', () => {
+  it('returns the number of tagged transactions', async () => {
+    vi.mocked(addTagToTransactions).mockReturnValue(2);
+
+    const res = await request(app)
+      .post('/api/tags/3/add')
+      .send({ workspaceId: 1, transactionIds: [10, 11, 12] });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: { added: 2 } });
+    expect(addTagToTransactions).toHaveBeenCalledWith(3, [10, 11, 12], 1);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 without transactions', async () => {
+    const res = await request(app)
+      .post('/api/tags/3/add')
+      .send({ workspaceId: 1, transactionIds: [] });
+
+    expect(res.status).toBe(400);
+    expect(addTagToTransactions).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/tags/:id/remove', () => {
+  it('returns the number of untagged transactions', async () => {
+    vi.mocked(removeTagFromTransactions).mockReturnValue(1);
+
+    const res = await request(app)
+      .post('/api/tags/3/remove')
+      .send({ workspaceId: 1, transactionIds: [10] });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: { removed: 1 } });
+    expect(removeTagFromTransactions).toHaveBeenCalledWith(3, [10], 1);
+  });
+});
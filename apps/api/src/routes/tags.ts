@@ -0,0 +1,107 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import { createTagSchema, updateTagSchema, tagTransactionsSchema } from '../schemas/tags.js';
+import { requireQueryInt } from '../utils/queryHelpers.js';
+import {
+  listTags,
+  createTag,
+  updateTag,
+  deleteTag,
+  addTagToTransactions,
+  removeTagFromTransactions,
+} from '../services/tagService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/tags
+// Query params: ?workspaceId=1 (required)
+router.get(
+  '/',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const tags = listTags(workspaceId);
+    res.json({ success: true, data: tags });
+  })
+);
+
+// POST /api/tags
+router.post(
+  '/',
+  validate({ body: createTagSchema }),
+  asyncHandler((req, res) => {
+    const { workspaceId, name, color } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const tag = createTag(workspaceId, name, color);
+    res.status(201).json({ success: true, data: tag });
+  })
+);
+
+// PUT /api/tags/:id
+router.put(
+  '/:id',
+  validate({ body: updateTagSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId, name, color } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const tag = updateTag(id, workspaceId, { name, color });
+    res.json({ success: true, data: tag });
+  })
+);
+
+// DELETE /api/tags/:id
+// Query param: ?workspaceId=1 (required)
+router.delete(
+  '/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    deleteTag(id, workspaceId);
+    res.json({ success: true });
+  })
+);
+
+// POST /api/tags/:id/add
+// Adds the tag to transactionIds
+router.post(
+  '/:id/add',
+  validate({ body: tagTransactionsSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId, transactionIds } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const added = addTagToTransactions(id, transactionIds, workspaceId);
+    res.json({ success: true, data: { added } });
+  })
+);
+
+// POST /api/tags/:id/remove
+// Removes the tag from transactionIds
+router.post(
+  '/:id/remove',
+  validate({ body: tagTransactionsSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId, transactionIds } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const removed = removeTagFromTransactions(id, transactionIds, workspaceId);
+    res.json({ success: true, data: { removed } });
+  })
+);
+
+export default router;
@@ -15,10 +15,17 @@ vi.mock('../services/transactionService.js', () => ({
   listTransactions: vi.fn(),
   exportTransactions: vi.fn(),
   confirmTransactions: vi.fn(),
+  createManualTransaction: vi.fn(),
+  updateManualTransaction: vi.fn(),
   updateTransactionCategory: vi.fn(),
   deleteTransaction: vi.fn(),
 }));
 
+vi.mock('../services/splitService.js', () => ({
+  splitTransaction: vi.fn(),
+  removeTransactionSplit: vi.fn(),
+}));
+
 vi.mock('../services/workspaceService.js', () => ({
   requireWorkspaceMembership: vi.fn(),
 }));
@@ -32,9 +39,12 @@ import {
   listTransactions,
   exportTransactions,
   confirmTransactions,
+  createManualTransaction,
+  updateManualTransaction,
   updateTransactionCategory,
   deleteTransaction,
 } from '../services/transactionService.js';
+import { splitTransaction, removeTransactionSplit } from '../services/splitService.js';
 import { requireWorkspaceMembership } from '../services/workspaceService.js';
 import { getLedgerWorkspaceId } from '../services/uploadService.js';
 
@@ -109,6 +119,53 @@ describe('GET /api/transactions', () => {
     });
   });
 
+  it('passes the transaction type filter', async () => {
+    vi.mocked(listTransactions).mockReturnValue({ items: [], total: 0 } as any);
+
+    await request(app).get('/api/transactions?workspaceId=1&transactionType=ATM');
+
+    expect(listTransactions).toHaveBeenCalledWith(
+      expect.objectContaining({ transactionType: 'ATM' }),
+    );
+  });
+
+  it('passes the merchant filter', async () => {
+    vi.mocked(listTransactions).mockReturnValue({ items: [], total: 0 } as any);
+
+    await request(app).get('/api/transactions?workspaceId=1&merchantId=7');
+
+    expect(listTransactions).toHaveBeenCalledWith(
+      expect.objectContaining({ merchantId: 7 }),
+    );
+  });
+
+  it('passes the tag filter', async () => {
+    vi.mocked(listTransactions).mockReturnValue({ items: [], total: 0 } as any);
+
+    await request(app).get('/api/transactions?workspaceId=1&tag=vacation-2025');
+
+    expect(listTransactions).toHaveBeenCalledWith(
+      expect.objectContaining({ tag: 'vacation-2025' }),
+    );
+  });
+
+  it('passes the date basis', async () => {
+    vi.mocked(listTransactions).mockReturnValue({ items: [], total: 0 } as any);
+
+    await request(app).get('/api/transactions?workspaceId=1&year=2024&month=12&dateBasis=value');
+
+    expect(listTransactions).toHaveBeenCalledWith(
+      expect.objectContaining({ year: 2024, month: 12, dateBasis: 'value' }),
+    );
+  });
+
+  it('returns 400 for an unknown transaction type', async () => {
+    const res = await request(app).get('/api/transactions?workspaceId=1&transactionType=CASH');
+
+    expect(res.status).toBe(400);
+    expect(listTransactions).not.toHaveBeenCalled();
+  });
+
   it('passes undefined for omitted optional params', async () => {
     vi.mocked(listTransactions).mockReturnValue({ items: [], total: 0 } as any);
 
@@ -130,8 +187,8 @@ describe('GET /api/transactions', () => {
 describe('GET /api/transactions/export', () => {
   it('returns CSV with correct headers and content-type', async () => {
     vi.mocked(exportTransactions).mockReturnValue([
-      { date: '2024-01-15', description: 'Coffee Shop', isIncome: false, amount: 3.50, categoryName: 'Food', balance: 100.00 },
-      { date: '2024-01-16', description: 'Salary', isIncome: true, amount: 2000, categoryName: 'Income', balance: 2100.00 },
+      { date: '2024-01-15', valueDate: '2024-01-13', description: 'Coffee Shop', isIncome: false, amount: 3.50, currency: 'EUR', baseAmount: 3.50, categoryName: 'Food', balance: 100.00, tags: ['vacation-2025'] },
+      { date: '2024-01-16', valueDate: null, description: 'Salary', isIncome: true, amount: 2000, currency: 'USD', baseAmount: 1840.12, categoryName: 'Income', balance: 2100.00, tags: [] },
     ]);
 
     const res = await request(app).get('/api/transactions/export?workspaceId=1');
@@ -141,27 +198,27 @@ describe('GET /api/transactions/export', () => {
     expect(res.headers['content-disposition']).toMatch(/attachment; filename="compasso-transactions-.*\.csv"/);
 
     const lines = res.text.replace('\uFEFF', '').split('\r\n');
-    expect(lines[0]).toBe('Date,Description,Type,Amount,Category,Balance');
-    expect(lines[1]).toBe('2024-01-15,Coffee Shop,Expense,-3.50,Food,100.00');
-    expect(lines[2]).toBe('2024-01-16,Salary,Income,2000.00,Income,2100.00');
+    expect(lines[0]).toBe('Date,Value Date,Description,Type,Amount,Currency,Base Amount,Category,Balance,Tags');
+    expect(lines[1]).toBe('2024-01-15,2024-01-13,Coffee Shop,Expense,-3.50,EUR,-3.50,Food,100.00,vacation-2025');
+    expect(lines[2]).toBe('2024-01-16,,Salary,Income,2000.00,USD,1840.12,Income,2100.00,');
   });
 
   it('escapes CSV fields with commas', async () => {
     vi.mocked(exportTransactions).mockReturnValue([
-      { date: '2024-01-15', description: 'Coffee, Tea & More', isIncome: false, amount: 5, categoryName: 'Food', balance: null },
+      { date: '2024-01-15', valueDate: '2024-01-15', description: 'Coffee, Tea & More', isIncome: false, amount: 5, currency: 'EUR', baseAmount: 5, categoryName: 'Food', balance: null, tags: ['kids', 'work, reimbursable'] },
     ]);
 
     const res = await request(app).get('/api/transactions/export?workspaceId=1');
 
     const lines = res.text.replace('\uFEFF', '').split('\r\n');
-    expect(lines[1]).toBe('2024-01-15,"Coffee, Tea & More",Expense,-5.00,Food,');
+    expect(lines[1]).toBe('2024-01-15,2024-01-15,"Coffee, Tea & More",Expense,-5.00,EUR,-5.00,Food,,"kids; work, reimbursable"');
   });
 
   it('passes filters to exportTransactions', async () => {
     vi.mocked(exportTransactions).mockReturnValue([]);
 
     await request(app).get(
-      '/api/transactions/export?workspaceId=1&year=2024&month=6&categoryId=3&isIncome=true&search=coffee',
+      '/api/transactions/export?workspaceId=1&year=2024&month=6&categoryId=3&isIncome=true&tag=kids&search=coffee',
     );
 
     expect(exportTransactions).toHaveBeenCalledWith({
@@ -170,6 +227,7 @@ describe('GET /api/transactions/export', () => {
       month: 6,
       categoryId: 3,
       isIncome: true,
+      tag: 'kids',
       search: 'coffee',
     });
   });
@@ -222,7 +280,21 @@ describe('POST /api/transactions/confirm', () => {
       .post('/api/transactions/confirm')
       .send({ ledgerId: 10, transactions });
 
-    expect(confirmTransactions).toHaveBeenCalledWith(10, transactions);
+    expect(confirmTransactions).toHaveBeenCalledWith(10, transactions, undefined);
+  });
+
+  it('accepts rows without a balance', async () => {
+    vi.mocked(confirmTransactions).mockReturnValue(1 as any);
+    const transactions = [
+      { date: '2024-01-01', description: 'Coffee', amount: 5, balance: null, isIncome: false },
+    ];
+
+    const res = await request(app)
+      .post('/api/transactions/confirm')
+      .send({ ledgerId: 10, transactions });
+
+    expect(res.status).toBe(200);
+    expect(confirmTransactions).toHaveBeenCalledWith(10, transactions, undefined);
   });
 
   it('checks workspace membership via ledger', async () => {
@@ -238,6 +310,65 @@ describe('POST /api/transactions/confirm', () => {
   });
 });
 
+describe('POST /api/transactions/manual', () => {
+  const body = {
+    workspaceId: 1,
+    accountId: 4,
+    date: '2024-03-10',
+    description: 'Farmers market',
+    amount: 25,
+    isIncome: false,
+  };
+
+  it('returns 201 with the created transaction', async () => {
+    vi.mocked(createManualTransaction).mockReturnValue({ id: 9 } as any);
+
+    const res = await request(app).post('/api/transactions/manual').send(body);
+
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual({ success: true, data: { id: 9 } });
+    expect(createManualTransaction).toHaveBeenCalledWith(body);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 for a negative amount', async () => {
+    const res = await request(app)
+      .post('/api/transactions/manual')
+      .send({ ...body, amount: -25 });
+
+    expect(res.status).toBe(400);
+    expect(createManualTransaction).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for a date that is not YYYY-MM-DD', async () => {
+    const res = await request(app)
+      .post('/api/transactions/manual')
+      .send({ ...body, date: '10/03/2024' });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('PUT /api/transactions/manual/:id', () => {
+  it('passes the id and details to the service', async () => {
+    vi.mocked(updateManualTransaction).mockReturnValue({ id: 9 } as any);
+
+    const res = await request(app)
+      .put('/api/transactions/manual/9')
+      .send({ workspaceId: 2, date: '2024-03-10', description: 'Lunch', amount: 12.5, isIncome: false });
+
+    expect(res.status).toBe(200);
+    expect(updateManualTransaction).toHaveBeenCalledWith(9, {
+      workspaceId: 2,
+      date: '2024-03-10',
+      description: 'Lunch',
+      amount: 12.5,
+      isIncome: false,
+    });
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(2, TEST_USER.id);
+  });
+});
+
 describe('PUT /api/transactions/:id', () => {
   it('returns 200 on success', async () => {
     vi.mocked(updateTransactionCategory).mockReturnValue(undefined as any);
@@ -271,6 +402,72 @@ describe('PUT /api/transactions/:id', () => {
   });
 });
 
+describe('PUT /api/transactions/:id/splits', () => {
+  const splits = [
+    { categoryId: 5, amount: 30, note: 'Groceries' },
+    { categoryId: null, amount: 12.5 },
+  ];
+
+  it('passes the parts to the service and returns them', async () => {
+    const result = [{ id: 1, categoryId: 5, amount: 30, note: 'Groceries' }];
+    vi.mocked(splitTransaction).mockReturnValue(result as any);
+
+    const res = await request(app)
+      .put('/api/transactions/42/splits')
+      .send({ workspaceId: 3, splits });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: result });
+    expect(splitTransaction).toHaveBeenCalledWith(42, 3, splits);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(3, TEST_USER.id);
+  });
+
+  it('returns 400 for a single part', async () => {
+    const res = await request(app)
+      .put('/api/transactions/42/splits')
+      .send({ workspaceId: 3, splits: [splits[0]] });
+
+    expect(res.status).toBe(400);
+    expect(splitTransaction).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for a part without a positive amount', async () => {
+    const res = await request(app)
+      .put('/api/transactions/42/splits')
+      .send({ workspaceId: 3, splits: [splits[0], { categoryId: 6, amount: 0 }] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('propagates a validation error', async () => {
+    vi.mocked(splitTransaction).mockImplementation(() => {
+      throw AppError.badRequest('Split amounts must add up to the transaction amount');
+    });
+
+    const res = await request(app)
+      .put('/api/transactions/42/splits')
+      .send({ workspaceId: 3, splits });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('DELETE /api/transactions/:id/splits', () => {
+  it('removes the split', async () => {
+    const res = await request(app).delete('/api/transactions/42/splits?workspaceId=3');
+
+    expect(res.status).toBe(200);
+    expect(removeTransactionSplit).toHaveBeenCalledWith(42, 3);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(3, TEST_USER.id);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).delete('/api/transactions/42/splits');
+
+    expect(res.status).toBe(400);
+  });
+});
+
 describe('DELETE /api/transactions/:id', () => {
   it('returns 200 on success', async () => {
     vi.mocked(deleteTransaction).mockReturnValue(undefined as any);
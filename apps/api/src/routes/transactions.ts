@@ -1,17 +1,31 @@
-import { Router } from 'express';
+import { Router, type Request } from 'express';
 import { authMiddleware } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import { validate } from '../middleware/validate.js';
 import { idParam } from '../schemas/common.js';
-import { confirmTransactionsSchema, updateTransactionSchema } from '../schemas/transactions.js';
-import { requireQueryInt, optionalQueryInt, optionalQueryString } from '../utils/queryHelpers.js';
+import {
+  confirmTransactionsSchema,
+  manualTransactionSchema,
+  updateTransactionSchema,
+  splitTransactionSchema,
+} from '../schemas/transactions.js';
+import { DATE_BASES, TRANSACTION_TYPES } from '@compasso/shared';
+import {
+  requireQueryInt,
+  optionalQueryInt,
+  optionalQueryString,
+  optionalQueryEnum,
+} from '../utils/queryHelpers.js';
 import {
   listTransactions,
   exportTransactions,
   confirmTransactions,
+  createManualTransaction,
+  updateManualTransaction,
   updateTransactionCategory,
   deleteTransaction,
 } from '../services/transactionService.js';
+import { splitTransaction, removeTransactionSplit } from '../services/splitService.js';
 import { requireWorkspaceMembership } from '../services/workspaceService.js';
 import { getLedgerWorkspaceId } from '../services/uploadService.js';
 
@@ -20,6 +34,8 @@ const router = Router();
 router.use(authMiddleware);
 
 // GET /api/transactions
+// Query params: ?workspaceId=1 (required), year, month, categoryId (or none), isIncome,
+// transactionType (or none), merchantId, tag (tag name), dateBasis, search, limit, offset
 router.get('/', asyncHandler((req, res) => {
   const workspaceId = requireQueryInt(req, 'workspaceId');
   requireWorkspaceMembership(workspaceId, req.user!.id);
@@ -32,6 +48,10 @@ router.get('/', asyncHandler((req, res) => {
     isIncome: req.query.isIncome !== undefined
       ? req.query.isIncome === 'true'
       : undefined,
+    transactionType: optionalTransactionType(req),
+    merchantId: optionalQueryInt(req, 'merchantId'),
+    tag: optionalQueryString(req, 'tag'),
+    dateBasis: optionalQueryEnum(req, 'dateBasis', DATE_BASES),
     search: optionalQueryString(req, 'search'),
     limit: optionalQueryInt(req, 'limit'),
     offset: optionalQueryInt(req, 'offset'),
@@ -42,14 +62,30 @@ router.get('/', asyncHandler((req, res) => {
 
 // POST /api/transactions/confirm
 router.post('/confirm', validate({ body: confirmTransactionsSchema }), asyncHandler((req, res) => {
-  const { ledgerId, transactions } = req.body;
+  const { ledgerId, transactions, accountId } = req.body;
   const workspaceId = getLedgerWorkspaceId(ledgerId);
   requireWorkspaceMembership(workspaceId, req.user!.id);
-  const count = confirmTransactions(ledgerId, transactions);
+  const count = confirmTransactions(ledgerId, transactions, accountId);
   res.json({ success: true, data: { count } });
 }));
 
+// POST /api/transactions/manual
+router.post('/manual', validate({ body: manualTransactionSchema }), asyncHandler((req, res) => {
+  requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+  const transaction = createManualTransaction(req.body);
+  res.status(201).json({ success: true, data: transaction });
+}));
+
+// PUT /api/transactions/manual/:id
+router.put('/manual/:id', validate({ body: manualTransactionSchema, params: idParam }), asyncHandler((req, res) => {
+  const { id } = req.params as unknown as { id: number };
+  requireWorkspaceMembership(req.body.workspaceId, req.user!.id);
+  const transaction = updateManualTransaction(id, req.body);
+  res.json({ success: true, data: transaction });
+}));
+
 // GET /api/transactions/export
+// Query params: the filters of GET /api/transactions, without limit and offset
 router.get('/export', asyncHandler((req, res) => {
   const workspaceId = requireQueryInt(req, 'workspaceId');
   requireWorkspaceMembership(workspaceId, req.user!.id);
@@ -60,20 +96,28 @@ router.get('/export', asyncHandler((req, res) => {
     month: optionalQueryInt(req, 'month'),
     categoryId: req.query.categoryId === 'none' ? 'none' : optionalQueryInt(req, 'categoryId'),
     isIncome: req.query.isIncome !== undefined ? req.query.isIncome === 'true' : undefined,
+    transactionType: optionalTransactionType(req),
+    merchantId: optionalQueryInt(req, 'merchantId'),
+    tag: optionalQueryString(req, 'tag'),
+    dateBasis: optionalQueryEnum(req, 'dateBasis', DATE_BASES),
     search: optionalQueryString(req, 'search'),
   });
 
   const BOM = '\uFEFF';
-  const header = 'Date,Description,Type,Amount,Category,Balance';
+  const header = 'Date,Value Date,Description,Type,Amount,Currency,Base Amount,Category,Balance,Tags';
   const rows = transactions.map((tx) => {
-    const signedAmount = tx.isIncome ? tx.amount : -tx.amount;
+    const sign = tx.isIncome ? 1 : -1;
     return [
       tx.date,
+      tx.valueDate ?? '',
       escapeCsvField(tx.description),
       tx.isIncome ? 'Income' : 'Expense',
-      signedAmount.toFixed(2),
+      (sign * tx.amount).toFixed(2),
+      tx.currency,
+      (sign * tx.baseAmount).toFixed(2),
       escapeCsvField(tx.categoryName),
       tx.balance !== null ? tx.balance.toFixed(2) : '',
+      escapeCsvField(tx.tags.join('; ')),
     ].join(',');
   });
 
@@ -94,6 +138,25 @@ router.put('/:id', validate({ body: updateTransactionSchema, params: idParam }),
   res.json({ success: true });
 }));
 
+// PUT /api/transactions/:id/splits
+router.put('/:id/splits', validate({ body: splitTransactionSchema, params: idParam }), asyncHandler((req, res) => {
+  const { id } = req.params as unknown as { id: number };
+  const { splits, workspaceId } = req.body;
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+  const result = splitTransaction(id, workspaceId, splits);
+  res.json({ success: true, data: result });
+}));
+
+// DELETE /api/transactions/:id/splits
+// Query param: ?workspaceId=1 (required)
+router.delete('/:id/splits', validate({ params: idParam }), asyncHandler((req, res) => {
+  const { id } = req.params as unknown as { id: number };
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+  removeTransactionSplit(id, workspaceId);
+  res.json({ success: true });
+}));
+
 // DELETE /api/transactions/:id
 // Query param: ?workspaceId=1 (required)
 router.delete('/:id', validate({ params: idParam }), asyncHandler((req, res) => {
@@ -104,6 +167,13 @@ router.delete('/:id', validate({ params: idParam }), asyncHandler((req, res) =>
   res.json({ success: true });
 }));
 
+// "none" selects transactions no pattern classified
+function optionalTransactionType(req: Request) {
+  return req.query.transactionType === 'none'
+    ? 'none'
+    : optionalQueryEnum(req, 'transactionType', TRANSACTION_TYPES);
+}
+
 function escapeCsvField(value: string): string {
   if (value.includes(',') || value.includes('"') || value.includes('\n') || value.includes('\r')) {
     return `"${value.replace(/"/g, '""')}"`;
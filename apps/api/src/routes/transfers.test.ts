@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { createTestApp, TEST_USER } from './test-helpers.js';
+import { AppError } from '../errors.js';
+
+vi.mock('../middleware/auth.js', () => ({
+  authMiddleware: vi.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.user = TEST_USER;
+    req.sessionId = 'test-session-id';
+    next();
+  }),
+}));
+
+vi.mock('../services/workspaceService.js', () => ({
+  requireWorkspaceMembership: vi.fn(),
+}));
+
+vi.mock('../services/transferService.js', () => ({
+  detectTransfers: vi.fn(),
+  listTransfers: vi.fn(),
+  confirmTransfer: vi.fn(),
+  unlinkTransfer: vi.fn(),
+}));
+
+import router from './transfers.js';
+import {
+  detectTransfers,
+  listTransfers,
+  confirmTransfer,
+  unlinkTransfer,
+} from '../services/transferService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const app = createTestApp(router, '/api/transfers');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/transfers', () => {
+  it('returns 200 with the transfers', async () => {
+    vi.mocked(listTransfers).mockReturnValue([{ id: 3 }] as any);
+
+    const res = await request(app).get('/api/transfers?workspaceId=1&status=confirmed');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: [{ id: 3 }] });
+    expect(listTransfers).toHaveBeenCalledWith(1, 'confirmed');
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+  });
+
+  it('returns 400 for an unknown status', async () => {
+    const res = await request(app).get('/api/transfers?workspaceId=1&status=pending');
+
+    expect(res.status).toBe(400);
+    expect(listTransfers).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/transfers/detect', () => {
+  it('returns the number of detected transfers', async () => {
+    vi.mocked(detectTransfers).mockReturnValue(2);
+
+    const res = await request(app).post('/api/transfers/detect').send({ workspaceId: 1 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ detected: 2 });
+    expect(detectTransfers).toHaveBeenCalledWith(1);
+  });
+
+  it('returns 400 without a workspaceId', async () => {
+    const res = await request(app).post('/api/transfers/detect').send({});
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('POST /api/transfers/:id/confirm', () => {
+  it('returns the confirmed transfer', async () => {
+    vi.mocked(confirmTransfer).mockReturnValue({ id: 3, status: 'confirmed' } as any);
+
+    const res = await request(app).post('/api/transfers/3/confirm').send({ workspaceId: 1 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('confirmed');
+    expect(confirmTransfer).toHaveBeenCalledWith(3, 1);
+  });
+
+  it('returns 404 when the transfer does not exist', async () => {
+    vi.mocked(confirmTransfer).mockImplementation(() => {
+      throw AppError.notFound('Transfer not found');
+    });
+
+    const res = await request(app).post('/api/transfers/99/confirm').send({ workspaceId: 1 });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('DELETE /api/transfers/:id', () => {
+  it('unlinks the transfer', async () => {
+    const res = await request(app).delete('/api/transfers/3?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(unlinkTransfer).toHaveBeenCalledWith(3, 1);
+  });
+
+  it('returns 400 without a workspaceId', async () => {
+    const res = await request(app).delete('/api/transfers/3');
+
+    expect(res.status).toBe(400);
+    expect(unlinkTransfer).not.toHaveBeenCalled();
+  });
+});
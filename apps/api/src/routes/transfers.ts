@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { TRANSFER_STATUSES } from '@compasso/shared';
+import { authMiddleware } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { validate } from '../middleware/validate.js';
+import { idParam } from '../schemas/common.js';
+import { transferWorkspaceSchema } from '../schemas/transfers.js';
+import { requireQueryInt, optionalQueryEnum } from '../utils/queryHelpers.js';
+import {
+  detectTransfers,
+  listTransfers,
+  confirmTransfer,
+  unlinkTransfer,
+} from '../services/transferService.js';
+import { requireWorkspaceMembership } from '../services/workspaceService.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/transfers
+// Query params: ?workspaceId=1 (required), status=suggested|confirmed|unlinked
+router.get(
+  '/',
+  asyncHandler((req, res) => {
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const transfers = listTransfers(
+      workspaceId,
+      optionalQueryEnum(req, 'status', TRANSFER_STATUSES)
+    );
+    res.json({ success: true, data: transfers });
+  })
+);
+
+// POST /api/transfers/detect
+// Pairs transactions that are not in a transfer yet
+router.post(
+  '/detect',
+  validate({ body: transferWorkspaceSchema }),
+  asyncHandler((req, res) => {
+    const { workspaceId } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const detected = detectTransfers(workspaceId);
+    res.json({ success: true, data: { detected } });
+  })
+);
+
+// POST /api/transfers/:id/confirm
+router.post(
+  '/:id/confirm',
+  validate({ body: transferWorkspaceSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const { workspaceId } = req.body;
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    const transfer = confirmTransfer(id, workspaceId);
+    res.json({ success: true, data: transfer });
+  })
+);
+
+// DELETE /api/transfers/:id
+// Unlinks the transfer; query param: ?workspaceId=1 (required)
+router.delete(
+  '/:id',
+  validate({ params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    const workspaceId = requireQueryInt(req, 'workspaceId');
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+
+    unlinkTransfer(id, workspaceId);
+    res.json({ success: true });
+  })
+);
+
+export default router;
@@ -28,10 +28,36 @@ vi.mock('../services/uploadService.js', () => ({
   processUpload: vi.fn(),
   listLedgers: vi.fn(),
   deleteLedger: vi.fn(),
+  setLedgerAccount: vi.fn(),
+  listDraftLedgers: vi.fn(),
+  getDraftLedger: vi.fn(),
+}));
+
+vi.mock('../services/uploadJobService.js', () => ({
+  createUploadJob: vi.fn(),
+  getUploadJob: vi.fn(),
+}));
+
+vi.mock('../services/csvProfileService.js', () => ({
+  listCsvProfiles: vi.fn(),
+}));
+
+vi.mock('../services/statementTemplateService.js', () => ({
+  listStatementTemplates: vi.fn(() => []),
 }));
 
 import router from './upload.js';
-import { processUpload, listLedgers, deleteLedger } from '../services/uploadService.js';
+import {
+  processUpload,
+  listLedgers,
+  deleteLedger,
+  setLedgerAccount,
+  listDraftLedgers,
+  getDraftLedger,
+} from '../services/uploadService.js';
+import { createUploadJob, getUploadJob } from '../services/uploadJobService.js';
+import { listCsvProfiles } from '../services/csvProfileService.js';
+import { listStatementTemplates } from '../services/statementTemplateService.js';
 import { requireWorkspaceMembership } from '../services/workspaceService.js';
 
 const app = createTestApp(router, '/api/upload');
@@ -57,8 +83,7 @@ describe('POST /api/upload', () => {
   });
 
   it('returns 400 when no file is uploaded', async () => {
-    const res = await request(app)
-      .post('/api/upload?workspaceId=1');
+    const res = await request(app).post('/api/upload?workspaceId=1');
 
     expect(res.status).toBe(400);
     expect(res.body.success).toBe(false);
@@ -76,7 +101,7 @@ describe('POST /api/upload', () => {
     expect(res.body.success).toBe(false);
   });
 
-  it('defaults bank to novo_banco', async () => {
+  it('leaves the bank to detection when none is given', async () => {
     vi.mocked(processUpload).mockResolvedValue({} as any);
 
     await request(app)
@@ -86,17 +111,14 @@ describe('POST /api/upload', () => {
         contentType: 'application/pdf',
       });
 
-    expect(processUpload).toHaveBeenCalledWith(
-      expect.any(Buffer),
-      'statement.pdf',
-      'novo_banco',
-      1,
-    );
+    expect(processUpload).toHaveBeenCalledWith(expect.any(Buffer), 'statement.pdf', undefined, 1, {
+      dryRun: false,
+    });
   });
 
   it('returns 400 when file content is not a valid PDF', async () => {
     const res = await request(app)
-      .post('/api/upload?workspaceId=1')
+      .post('/api/upload?workspaceId=1&bank=novo_banco')
       .attach('file', Buffer.from('not-a-pdf-file'), {
         filename: 'statement.pdf',
         contentType: 'application/pdf',
@@ -106,6 +128,19 @@ describe('POST /api/upload', () => {
     expect(res.body.success).toBe(false);
   });
 
+  it('returns 400 without a bank when the file is no known statement format', async () => {
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1')
+      .attach('file', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]), {
+        filename: 'statement.pdf',
+        contentType: 'application/pdf',
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('INVALID_FILE');
+    expect(processUpload).not.toHaveBeenCalled();
+  });
+
   it('uses provided bank param', async () => {
     vi.mocked(processUpload).mockResolvedValue({} as any);
 
@@ -121,9 +156,198 @@ describe('POST /api/upload', () => {
       'statement.pdf',
       'caixa_geral',
       1,
+      { dryRun: false }
+    );
+  });
+
+  it('accepts a CSV file for a CSV profile bank', async () => {
+    vi.mocked(processUpload).mockResolvedValue({} as any);
+
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=csv:3')
+      .attach('file', Buffer.from('Date;Description;Amount\n01/01/2025;Coffee;-1,50\n'), {
+        filename: 'export.csv',
+        contentType: 'text/csv',
+      });
+
+    expect(res.status).toBe(200);
+    expect(processUpload).toHaveBeenCalledWith(expect.any(Buffer), 'export.csv', 'csv:3', 1, {
+      dryRun: false,
+    });
+  });
+
+  it('passes the dry-run flag through', async () => {
+    vi.mocked(processUpload).mockResolvedValue({ ledgerId: null, dryRun: true } as any);
+
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=novo_banco&dryRun=true')
+      .attach('file', Buffer.from('%PDF-fake-content'), {
+        filename: 'statement.pdf',
+        contentType: 'application/pdf',
+      });
+
+    expect(res.status).toBe(200);
+    expect(processUpload).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      'statement.pdf',
+      'novo_banco',
+      1,
+      { dryRun: true }
+    );
+  });
+
+  it('passes the password of an encrypted PDF from the form body', async () => {
+    vi.mocked(processUpload).mockResolvedValue({} as any);
+
+    await request(app)
+      .post('/api/upload?workspaceId=1&bank=novo_banco')
+      .field('password', 's3cret')
+      .attach('file', Buffer.from('%PDF-fake-content'), {
+        filename: 'statement.pdf',
+        contentType: 'application/pdf',
+      });
+
+    expect(processUpload).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      'statement.pdf',
+      'novo_banco',
+      1,
+      { dryRun: false, password: 's3cret' }
     );
   });
 
+  it('returns the password-required error code', async () => {
+    vi.mocked(processUpload).mockRejectedValue(
+      AppError.badRequest('This PDF is password-protected.', 'PDF_PASSWORD_REQUIRED')
+    );
+
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=novo_banco')
+      .attach('file', Buffer.from('%PDF-fake-content'), {
+        filename: 'statement.pdf',
+        contentType: 'application/pdf',
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({
+      success: false,
+      error: 'This PDF is password-protected.',
+      code: 'PDF_PASSWORD_REQUIRED',
+    });
+  });
+
+  it('returns 400 when a PDF is uploaded for a CSV profile bank', async () => {
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=csv:3')
+      .attach('file', Buffer.from('%PDF-fake-content'), {
+        filename: 'statement.pdf',
+        contentType: 'application/pdf',
+      });
+
+    expect(res.status).toBe(400);
+    expect(processUpload).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when a CSV is uploaded for a PDF bank', async () => {
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=novo_banco')
+      .attach('file', Buffer.from('Date,Description,Amount\n'), {
+        filename: 'export.csv',
+        contentType: 'text/csv',
+      });
+
+    expect(res.status).toBe(400);
+    expect(processUpload).not.toHaveBeenCalled();
+  });
+
+  it('accepts an OFX file sent as octet-stream', async () => {
+    vi.mocked(processUpload).mockResolvedValue({} as any);
+
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=ofx')
+      .attach('file', Buffer.from('OFXHEADER:100\nDATA:OFXSGML\n<OFX></OFX>'), {
+        filename: 'statement.qfx',
+        contentType: 'application/octet-stream',
+      });
+
+    expect(res.status).toBe(200);
+    expect(processUpload).toHaveBeenCalledWith(expect.any(Buffer), 'statement.qfx', 'ofx', 1, {
+      dryRun: false,
+    });
+  });
+
+  it('returns 400 when an OFX upload has no OFX content', async () => {
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=ofx')
+      .attach('file', Buffer.from('Date,Description,Amount\n'), {
+        filename: 'statement.ofx',
+        contentType: 'application/x-ofx',
+      });
+
+    expect(res.status).toBe(400);
+    expect(processUpload).not.toHaveBeenCalled();
+  });
+
+  it('accepts a camt.053 XML file', async () => {
+    vi.mocked(processUpload).mockResolvedValue({ ledgerId: 1 } as any);
+
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=camt')
+      .attach(
+        'file',
+        Buffer.from('<?xml version="1.0"?><Document><BkToCstmrStmt></BkToCstmrStmt></Document>'),
+        {
+          filename: 'statement.xml',
+          contentType: 'application/xml',
+        }
+      );
+
+    expect(res.status).toBe(200);
+    expect(processUpload).toHaveBeenCalledWith(expect.any(Buffer), 'statement.xml', 'camt', 1, {
+      dryRun: false,
+    });
+  });
+
+  it('returns 400 when a camt upload is not a camt document', async () => {
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=camt')
+      .attach('file', Buffer.from('<?xml version="1.0"?><note></note>'), {
+        filename: 'statement.xml',
+        contentType: 'text/xml',
+      });
+
+    expect(res.status).toBe(400);
+    expect(processUpload).not.toHaveBeenCalled();
+  });
+
+  it('accepts an MT940 file by extension', async () => {
+    vi.mocked(processUpload).mockResolvedValue({ ledgerId: 1 } as any);
+
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=mt940')
+      .attach('file', Buffer.from(':20:STMT1\r\n:25:123\r\n:60F:C250101EUR0,00\r\n'), {
+        filename: 'statement.sta',
+        contentType: 'application/octet-stream',
+      });
+
+    expect(res.status).toBe(200);
+    expect(processUpload).toHaveBeenCalledWith(expect.any(Buffer), 'statement.sta', 'mt940', 1, {
+      dryRun: false,
+    });
+  });
+
+  it('returns 400 when an MT940 upload has no statement fields', async () => {
+    const res = await request(app)
+      .post('/api/upload?workspaceId=1&bank=mt940')
+      .attach('file', Buffer.from('just some text'), {
+        filename: 'statement.txt',
+        contentType: 'text/plain',
+      });
+
+    expect(res.status).toBe(400);
+    expect(processUpload).not.toHaveBeenCalled();
+  });
+
   it('checks workspace membership', async () => {
     vi.mocked(processUpload).mockResolvedValue({} as any);
 
@@ -138,6 +362,68 @@ describe('POST /api/upload', () => {
   });
 });
 
+describe('POST /api/upload/batch', () => {
+  it('returns 202 with the queued job', async () => {
+    const job = { id: 'job-1', status: 'queued', total: 2 };
+    vi.mocked(createUploadJob).mockReturnValue(job as any);
+
+    const res = await request(app)
+      .post('/api/upload/batch?workspaceId=1&bank=novo_banco')
+      .attach('files', Buffer.from('%PDF-jan'), 'jan.pdf')
+      .attach('files', Buffer.from('%PDF-feb'), 'feb.pdf');
+
+    expect(res.status).toBe(202);
+    expect(res.body).toEqual({ success: true, data: job });
+    expect(createUploadJob).toHaveBeenCalledWith(
+      [
+        { filename: 'jan.pdf', buffer: expect.anything() },
+        { filename: 'feb.pdf', buffer: expect.anything() },
+      ],
+      'novo_banco',
+      1,
+      TEST_USER.id
+    );
+  });
+
+  it('returns 400 when no files are uploaded', async () => {
+    const res = await request(app).post('/api/upload/batch?workspaceId=1');
+
+    expect(res.status).toBe(400);
+    expect(createUploadJob).not.toHaveBeenCalled();
+  });
+
+  it('checks workspace membership', async () => {
+    await request(app)
+      .post('/api/upload/batch?workspaceId=2')
+      .attach('files', Buffer.from('%PDF-jan'), 'jan.pdf');
+
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(2, TEST_USER.id);
+  });
+});
+
+describe('GET /api/upload/batch/:jobId', () => {
+  it('returns 200 with the job status', async () => {
+    const job = { id: 'job-1', status: 'processing', processed: 1 };
+    vi.mocked(getUploadJob).mockReturnValue(job as any);
+
+    const res = await request(app).get('/api/upload/batch/job-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: job });
+    expect(getUploadJob).toHaveBeenCalledWith('job-1', TEST_USER.id);
+  });
+
+  it('returns 404 for an unknown job', async () => {
+    vi.mocked(getUploadJob).mockImplementation(() => {
+      throw AppError.notFound('Upload job not found');
+    });
+
+    const res = await request(app).get('/api/upload/batch/missing');
+
+    expect(res.status).toBe(404);
+  });
+});
+
 describe('GET /api/upload/ledgers', () => {
   it('returns 200 with ledger list', async () => {
     const result = { items: [{ id: 1 }], total: 1 };
@@ -194,7 +480,103 @@ describe('GET /api/upload/banks', () => {
       expect(bank).toHaveProperty('name');
       expect(bank).toHaveProperty('country');
       expect(bank).toHaveProperty('currency');
+      expect(bank).toHaveProperty('format');
     }
+    expect(listCsvProfiles).not.toHaveBeenCalled();
+    expect(listStatementTemplates).not.toHaveBeenCalled();
+  });
+
+  it('includes workspace CSV profiles and statement templates when workspaceId is given', async () => {
+    vi.mocked(listCsvProfiles).mockReturnValue([
+      { id: 3, bankId: 'csv:3', name: 'Revolut', currency: 'EUR' },
+    ] as any);
+    vi.mocked(listStatementTemplates).mockReturnValue([
+      { id: 2, bankId: 'template:2', name: 'Millennium', currency: 'EUR' },
+    ] as any);
+
+    const res = await request(app).get('/api/upload/banks?workspaceId=1');
+
+    expect(res.status).toBe(200);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(1, TEST_USER.id);
+    expect(res.body.data).toContainEqual({
+      id: 'csv:3',
+      name: 'Revolut',
+      country: '',
+      currency: 'EUR',
+      format: 'csv',
+    });
+    expect(res.body.data).toContainEqual({
+      id: 'template:2',
+      name: 'Millennium',
+      country: '',
+      currency: 'EUR',
+      format: 'pdf',
+    });
+  });
+});
+
+describe('GET /api/upload/drafts', () => {
+  it('returns 200 with the workspace drafts', async () => {
+    const drafts = [{ id: 3, filename: 'jan.pdf', transactionCount: 12 }];
+    vi.mocked(listDraftLedgers).mockReturnValue(drafts as any);
+
+    const res = await request(app).get('/api/upload/drafts?workspaceId=2');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: drafts });
+    expect(listDraftLedgers).toHaveBeenCalledWith(2);
+    expect(requireWorkspaceMembership).toHaveBeenCalledWith(2, TEST_USER.id);
+  });
+
+  it('returns 400 when workspaceId is missing', async () => {
+    const res = await request(app).get('/api/upload/drafts');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('GET /api/upload/drafts/:id', () => {
+  it('returns the stored preview', async () => {
+    const preview = { ledgerId: 3, transactions: [] };
+    vi.mocked(getDraftLedger).mockReturnValue(preview as any);
+
+    const res = await request(app).get('/api/upload/drafts/3');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, data: preview });
+    expect(getDraftLedger).toHaveBeenCalledWith(3, TEST_USER.id);
+  });
+
+  it('propagates not-found error', async () => {
+    vi.mocked(getDraftLedger).mockImplementation(() => {
+      throw AppError.notFound('Draft not found');
+    });
+
+    const res = await request(app).get('/api/upload/drafts/999');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('PUT /api/upload/ledgers/:id/account', () => {
+  it('passes id, userId and the account to service', async () => {
+    const res = await request(app).put('/api/upload/ledgers/42/account').send({ accountId: 3 });
+
+    expect(res.status).toBe(200);
+    expect(setLedgerAccount).toHaveBeenCalledWith(42, TEST_USER.id, 3);
+  });
+
+  it('detaches the ledger with a null account', async () => {
+    await request(app).put('/api/upload/ledgers/42/account').send({ accountId: null });
+
+    expect(setLedgerAccount).toHaveBeenCalledWith(42, TEST_USER.id, null);
+  });
+
+  it('returns 400 without an accountId', async () => {
+    const res = await request(app).put('/api/upload/ledgers/42/account').send({});
+
+    expect(res.status).toBe(400);
+    expect(setLedgerAccount).not.toHaveBeenCalled();
   });
 });
 
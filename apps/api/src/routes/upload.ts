@@ -6,12 +6,24 @@ import { authMiddleware } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import { validate } from '../middleware/validate.js';
 import { idParam } from '../schemas/common.js';
+import { setLedgerAccountSchema } from '../schemas/accounts.js';
 import { requireQueryInt, optionalQueryInt } from '../utils/queryHelpers.js';
-import { processUpload, listLedgers, deleteLedger } from '../services/uploadService.js';
+import { assertStatementUpload } from '../utils/fileValidation.js';
+import {
+  processUpload,
+  listLedgers,
+  deleteLedger,
+  setLedgerAccount,
+  listDraftLedgers,
+  getDraftLedger,
+} from '../services/uploadService.js';
+import { createUploadJob, getUploadJob } from '../services/uploadJobService.js';
+import { listCsvProfiles } from '../services/csvProfileService.js';
+import { listStatementTemplates } from '../services/statementTemplateService.js';
 import { requireWorkspaceMembership } from '../services/workspaceService.js';
 import { AppError } from '../errors.js';
 import { ErrorCode } from '@compasso/shared';
-import { SUPPORTED_BANKS, BANK_CONFIGS } from '../parsers/registry.js';
+import { BANK_CONFIGS, getStatementFormat } from '../parsers/registry.js';
 
 const router = Router();
 
@@ -23,6 +35,24 @@ if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
+// Browsers report CSV, OFX, XML and MT940 files inconsistently (Excel on Windows sends vnd.ms-excel,
+// OFX often arrives as octet-stream), so the extension is also accepted; content is
+// validated per format afterwards.
+const ALLOWED_MIMETYPES = [
+  'application/pdf',
+  'text/csv',
+  'application/vnd.ms-excel',
+  'text/plain',
+  'application/x-ofx',
+  'application/vnd.intu.qfx',
+  'application/xml',
+  'text/xml',
+];
+const ALLOWED_EXTENSIONS = ['.pdf', '.csv', '.ofx', '.qfx', '.xml', '.sta', '.mt940', '.940'];
+
+// A year of monthly statements, with room for a second account
+const MAX_BATCH_FILES = 24;
+
 const storage = multer.memoryStorage();
 const upload = multer({
   storage,
@@ -30,10 +60,11 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (_req, file, cb) => {
-    if (file.mimetype === 'application/pdf') {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (ALLOWED_MIMETYPES.includes(file.mimetype) || ALLOWED_EXTENSIONS.includes(extension)) {
       cb(null, true);
     } else {
-      cb(new Error('Only PDF files are allowed'));
+      cb(new Error('Only PDF, CSV, OFX/QFX, camt XML and MT940 files are allowed'));
     }
   },
 });
@@ -44,26 +75,59 @@ router.post('/', upload.single('file'), asyncHandler(async (req, res) => {
     throw AppError.badRequest('No file uploaded', ErrorCode.INVALID_FILE);
   }
 
-  // Validate PDF magic bytes (%PDF) regardless of client-sent mimetype
-  const pdfMagic = req.file.buffer.subarray(0, 4).toString('ascii');
-  if (pdfMagic !== '%PDF') {
-    throw AppError.badRequest('File is not a valid PDF', ErrorCode.INVALID_FILE);
-  }
-
   const workspaceId = requireQueryInt(req, 'workspaceId');
   requireWorkspaceMembership(workspaceId, req.user!.id);
-  const bankId = (req.query.bank as string) || SUPPORTED_BANKS.NOVO_BANCO;
+  // Without a bank the statement's format and fingerprint pick the parser
+  const bankId = (req.query.bank as string) || undefined;
+
+  assertStatementUpload(req.file.buffer, bankId ? getStatementFormat(bankId) : null);
+
+  // Dry runs return the parsed preview and diagnostics without creating a ledger
+  const dryRun = req.query.dryRun === 'true';
+  // Encrypted PDFs are retried with their password as a form field, never in the URL
+  const password =
+    typeof req.body?.password === 'string' && req.body.password !== ''
+      ? (req.body.password as string)
+      : undefined;
 
   const response = await processUpload(
     req.file.buffer,
     req.file.originalname,
     bankId,
-    workspaceId
+    workspaceId,
+    { dryRun, password }
   );
 
   res.json({ success: true, data: response });
 }));
 
+// POST /api/upload/batch
+// Queues several statements for background parsing; each parsed file becomes a draft ledger
+router.post('/batch', upload.array('files', MAX_BATCH_FILES), asyncHandler((req, res) => {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  if (files.length === 0) {
+    throw AppError.badRequest('No files uploaded', ErrorCode.INVALID_FILE);
+  }
+
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+  const bankId = (req.query.bank as string) || undefined;
+
+  const job = createUploadJob(
+    files.map((file) => ({ filename: file.originalname, buffer: file.buffer })),
+    bankId,
+    workspaceId,
+    req.user!.id
+  );
+
+  res.status(202).json({ success: true, data: job });
+}));
+
+// GET /api/upload/batch/:jobId
+router.get('/batch/:jobId', asyncHandler((req, res) => {
+  res.json({ success: true, data: getUploadJob(req.params.jobId as string, req.user!.id) });
+}));
+
 // GET /api/upload/ledgers
 router.get('/ledgers', asyncHandler((req, res) => {
   const workspaceId = requireQueryInt(req, 'workspaceId');
@@ -75,17 +139,69 @@ router.get('/ledgers', asyncHandler((req, res) => {
   res.json({ success: true, data: result });
 }));
 
+// GET /api/upload/drafts
+router.get('/drafts', asyncHandler((req, res) => {
+  const workspaceId = requireQueryInt(req, 'workspaceId');
+  requireWorkspaceMembership(workspaceId, req.user!.id);
+
+  res.json({ success: true, data: listDraftLedgers(workspaceId) });
+}));
+
+// GET /api/upload/drafts/:id
+// Resumes an unconfirmed upload; drafts are discarded with DELETE /api/upload/ledgers/:id
+router.get('/drafts/:id', validate({ params: idParam }), asyncHandler((req, res) => {
+  const { id } = req.params as unknown as { id: number };
+  res.json({ success: true, data: getDraftLedger(id, req.user!.id) });
+}));
+
 // GET /api/upload/banks
-router.get('/banks', (_req, res) => {
+// Query param: ?workspaceId=1 (optional, includes the workspace's CSV profiles and statement templates)
+router.get('/banks', asyncHandler((req, res) => {
   const banks = Object.values(BANK_CONFIGS).map((config) => ({
     id: config.id,
     name: config.name,
     country: config.country,
     currency: config.currency,
+    format: config.format,
   }));
 
+  const workspaceId = optionalQueryInt(req, 'workspaceId');
+  if (workspaceId !== undefined) {
+    requireWorkspaceMembership(workspaceId, req.user!.id);
+    for (const profile of listCsvProfiles(workspaceId)) {
+      banks.push({
+        id: profile.bankId,
+        name: profile.name,
+        country: '',
+        currency: profile.currency,
+        format: 'csv',
+      });
+    }
+    for (const template of listStatementTemplates(workspaceId)) {
+      banks.push({
+        id: template.bankId,
+        name: template.name,
+        country: '',
+        currency: template.currency,
+        format: 'pdf',
+      });
+    }
+  }
+
   res.json({ success: true, data: banks });
-});
+}));
+
+// PUT /api/upload/ledgers/:id/account
+// Attaches the ledger to an account, or detaches it with accountId null
+router.put(
+  '/ledgers/:id/account',
+  validate({ body: setLedgerAccountSchema, params: idParam }),
+  asyncHandler((req, res) => {
+    const { id } = req.params as unknown as { id: number };
+    setLedgerAccount(id, req.user!.id, req.body.accountId);
+    res.json({ success: true });
+  })
+);
 
 // DELETE /api/upload/ledgers/:id
 router.delete('/ledgers/:id', validate({ params: idParam }), asyncHandler((req, res) => {
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { ACCOUNT_TYPES } from '@compasso/shared';
+import { workspaceIdField, nameField } from './common.js';
+
+const accountFields = {
+  name: nameField,
+  type: z.enum(ACCOUNT_TYPES).optional(),
+  bankId: z.string().min(1).max(100).nullish(),
+  // Full IBAN or at least its last four digits
+  accountNumber: z.string().trim().min(4).max(34).nullish(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  openingBalance: z.number().optional(),
+};
+
+export const createAccountSchema = z.object({
+  workspaceId: workspaceIdField,
+  ...accountFields,
+});
+
+export const updateAccountSchema = z.object({
+  workspaceId: workspaceIdField,
+  ...accountFields,
+  name: accountFields.name.optional(),
+});
+
+export const setLedgerAccountSchema = z.object({
+  accountId: z.number().int().positive().nullable(),
+});
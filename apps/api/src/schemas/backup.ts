@@ -1,4 +1,37 @@
 import { z } from 'zod';
+import {
+  ACCOUNT_TYPES,
+  CSV_DATE_FORMATS,
+  CSV_DELIMITERS,
+  EURIBOR_TENORS,
+  LOAN_PAYMENT_STATUSES,
+  LOAN_RATE_TYPES,
+  NET_WORTH_ITEM_KINDS,
+  TRANSACTION_TYPES,
+  TRANSFER_STATUSES,
+} from '@compasso/shared';
+import { currencyField, nameField } from './common.js';
+import { csvColumnMappingSchema } from './csvProfiles.js';
+import { statementTemplateDefinitionSchema } from './statementTemplates.js';
+
+const backupCsvProfileSchema = z.object({
+  bankId: z.string(),
+  name: nameField,
+  delimiter: z.enum(CSV_DELIMITERS),
+  dateFormat: z.enum(CSV_DATE_FORMATS),
+  decimalFormat: z.enum(['european', 'standard']),
+  hasHeader: z.boolean(),
+  skipRows: z.number().int().min(0).max(100),
+  currency: z.string(),
+  columns: csvColumnMappingSchema,
+});
+
+const backupStatementTemplateSchema = z.object({
+  bankId: z.string(),
+  name: nameField,
+  currency: z.string(),
+  definition: statementTemplateDefinitionSchema,
+});
 
 const backupPatternSchema = z.object({
   bankId: z.string(),
@@ -11,11 +44,19 @@ const backupCategorySchema = z.object({
   color: z.string().nullable(),
   icon: z.string().nullable(),
   isDefault: z.boolean(),
+  parentName: z.string().nullish(),
   patterns: z.array(backupPatternSchema),
 });
 
+const backupSplitSchema = z.object({
+  categoryName: z.string().nullable(),
+  amount: z.number(),
+  note: z.string().nullish(),
+});
+
 const backupTransactionSchema = z.object({
   date: z.string(),
+  valueDate: z.string().nullish(),
   description: z.string(),
   amount: z.number(),
   balance: z.number().nullable(),
@@ -23,6 +64,30 @@ const backupTransactionSchema = z.object({
   isIncome: z.boolean(),
   isManual: z.boolean(),
   rawText: z.string().nullable(),
+  externalId: z.string().nullish(),
+  transactionType: z.enum(TRANSACTION_TYPES).nullish(),
+  merchantName: z.string().nullish(),
+  tags: z.array(z.string().trim().min(1).max(50)).optional(),
+  splits: z.array(backupSplitSchema).optional(),
+});
+
+const backupMerchantSchema = z.object({
+  name: z.string(),
+  aliases: z.array(z.string()),
+});
+
+const backupTagSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  color: z.string().nullable(),
+});
+
+const backupAccountSchema = z.object({
+  name: z.string(),
+  type: z.enum(ACCOUNT_TYPES).optional(),
+  bankId: z.string().nullable(),
+  accountNumber: z.string().nullable(),
+  currency: z.string(),
+  openingBalance: z.number(),
 });
 
 const backupLedgerSchema = z.object({
@@ -32,9 +97,69 @@ const backupLedgerSchema = z.object({
   periodEnd: z.string().nullable(),
   bankId: z.string(),
   fileHash: z.string().nullable(),
+  accountName: z.string().nullish(),
+  currency: z.string().nullish(),
   transactions: z.array(backupTransactionSchema),
 });
 
+const backupTransactionRefSchema = z.object({
+  ledger: z.number().int().min(0),
+  transaction: z.number().int().min(0),
+});
+
+const backupTransferSchema = z.object({
+  outgoing: backupTransactionRefSchema,
+  incoming: backupTransactionRefSchema,
+  status: z.enum(TRANSFER_STATUSES),
+});
+
+const backupExchangeRateSchema = z.object({
+  currency: z.string(),
+  date: z.string(),
+  rate: z.number().positive(),
+});
+
+const backupNetWorthItemSchema = z.object({
+  kind: z.enum(NET_WORTH_ITEM_KINDS),
+  name: z.string(),
+  value: z.number(),
+  currency: z.string(),
+});
+
+const backupNetWorthSnapshotSchema = z.object({
+  date: z.string(),
+  totalAssets: z.number(),
+  totalLiabilities: z.number(),
+  netWorth: z.number(),
+});
+
+const backupLoanSchema = z.object({
+  name: z.string(),
+  principal: z.number().positive(),
+  currency: z.string(),
+  rateType: z.enum(LOAN_RATE_TYPES),
+  fixedRate: z.number().nullable(),
+  euriborTenor: z.enum(EURIBOR_TENORS).nullable(),
+  spread: z.number().nullable(),
+  termMonths: z.number().int().positive(),
+  startDate: z.string(),
+  accountName: z.string().nullable(),
+  descriptionPattern: z.string().nullable(),
+});
+
+const backupLoanPaymentSchema = z.object({
+  loanName: z.string(),
+  transaction: backupTransactionRefSchema,
+  installmentNumber: z.number().int().positive(),
+  status: z.enum(LOAN_PAYMENT_STATUSES),
+});
+
+const backupEuriborRateSchema = z.object({
+  tenor: z.enum(EURIBOR_TENORS),
+  date: z.string(),
+  rate: z.number(),
+});
+
 const backupRecurringPatternSchema = z.object({
   descriptionPattern: z.string(),
   frequency: z.string(),
@@ -51,8 +176,21 @@ export const workspaceBackupSchema = z.object({
     description: z.string().nullable(),
     color: z.string(),
     icon: z.string(),
+    baseCurrency: currencyField,
   }),
+  csvProfiles: z.array(backupCsvProfileSchema).optional(),
+  statementTemplates: z.array(backupStatementTemplateSchema).optional(),
   categories: z.array(backupCategorySchema),
+  merchants: z.array(backupMerchantSchema).optional(),
+  tags: z.array(backupTagSchema).optional(),
+  accounts: z.array(backupAccountSchema).optional(),
+  exchangeRates: z.array(backupExchangeRateSchema).optional(),
+  netWorthItems: z.array(backupNetWorthItemSchema).optional(),
+  netWorthSnapshots: z.array(backupNetWorthSnapshotSchema).optional(),
+  loans: z.array(backupLoanSchema).optional(),
+  euriborRates: z.array(backupEuriborRateSchema).optional(),
   ledgers: z.array(backupLedgerSchema),
+  transfers: z.array(backupTransferSchema).optional(),
+  loanPayments: z.array(backupLoanPaymentSchema).optional(),
   recurringPatterns: z.array(backupRecurringPatternSchema),
 });
@@ -6,6 +6,7 @@ export const createCategorySchema = z.object({
   name: z.string().min(1).max(100),
   color: colorField,
   icon: iconField,
+  parentId: z.number().int().positive().nullable().optional(),
 });
 
 export const updateCategorySchema = z.object({
@@ -13,6 +14,7 @@ export const updateCategorySchema = z.object({
   name: z.string().min(1).max(100).optional(),
   color: colorField,
   icon: iconField,
+  parentId: z.number().int().positive().nullable().optional(),
 });
 
 export const addPatternSchema = z.object({
@@ -22,4 +22,6 @@ export const colorField = z
 
 export const iconField = z.string().optional();
 
+export const currencyField = z.string().length(3).toUpperCase().optional();
+
 export const nameField = z.string().min(1).max(100);
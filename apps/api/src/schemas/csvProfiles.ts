@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { CSV_DATE_FORMATS, CSV_DELIMITERS } from '@compasso/shared';
+import { workspaceIdField, nameField } from './common.js';
+
+const columnIndex = z.number().int().min(0);
+
+export const csvColumnMappingSchema = z
+  .object({
+    date: columnIndex,
+    description: z.array(columnIndex).min(1),
+    amount: columnIndex.nullish(),
+    debit: columnIndex.nullish(),
+    credit: columnIndex.nullish(),
+    balance: columnIndex.nullish(),
+    valueDate: columnIndex.nullish(),
+  })
+  .refine((m) => m.amount != null || (m.debit != null && m.credit != null), {
+    message: 'Map either an amount column or both debit and credit columns',
+  });
+
+const profileFields = {
+  name: nameField,
+  delimiter: z.enum(CSV_DELIMITERS),
+  dateFormat: z.enum(CSV_DATE_FORMATS),
+  decimalFormat: z.enum(['european', 'standard']),
+  hasHeader: z.boolean().optional(),
+  skipRows: z.number().int().min(0).max(100).optional(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  columns: csvColumnMappingSchema,
+};
+
+export const createCsvProfileSchema = z.object({
+  workspaceId: workspaceIdField,
+  ...profileFields,
+});
+
+export const updateCsvProfileSchema = z.object({
+  workspaceId: workspaceIdField,
+  name: profileFields.name.optional(),
+  delimiter: profileFields.delimiter.optional(),
+  dateFormat: profileFields.dateFormat.optional(),
+  decimalFormat: profileFields.decimalFormat.optional(),
+  hasHeader: profileFields.hasHeader,
+  skipRows: profileFields.skipRows,
+  currency: profileFields.currency,
+  columns: csvColumnMappingSchema.optional(),
+});
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { workspaceIdField } from './common.js';
+
+export const setExchangeRateSchema = z.object({
+  workspaceId: workspaceIdField,
+  currency: z.string().length(3).toUpperCase(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  rate: z.number().positive(),
+});
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { EURIBOR_TENORS, LOAN_RATE_TYPES } from '@compasso/shared';
+import { workspaceIdField, nameField, currencyField } from './common.js';
+
+const dateField = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const loanFields = {
+  name: nameField,
+  principal: z.number().positive(),
+  currency: currencyField,
+  rateType: z.enum(LOAN_RATE_TYPES),
+  fixedRate: z.number().min(0).max(100).nullable().optional(),
+  euriborTenor: z.enum(EURIBOR_TENORS).nullable().optional(),
+  spread: z.number().min(-100).max(100).nullable().optional(),
+  termMonths: z.number().int().positive().max(600),
+  startDate: dateField,
+  accountId: z.number().int().positive().nullable().optional(),
+  descriptionPattern: z.string().max(100).nullable().optional(),
+};
+
+export const createLoanSchema = z.object({
+  workspaceId: workspaceIdField,
+  ...loanFields,
+});
+
+export const updateLoanSchema = z.object({
+  workspaceId: workspaceIdField,
+  ...loanFields,
+  name: loanFields.name.optional(),
+  principal: loanFields.principal.optional(),
+  rateType: loanFields.rateType.optional(),
+  termMonths: loanFields.termMonths.optional(),
+  startDate: loanFields.startDate.optional(),
+});
+
+export const linkLoanPaymentsSchema = z.object({
+  workspaceId: workspaceIdField,
+});
+
+export const loanPaymentParams = z.object({
+  id: z.coerce.number().int().positive(),
+  transactionId: z.coerce.number().int().positive(),
+});
+
+export const setEuriborRateSchema = z.object({
+  workspaceId: workspaceIdField,
+  tenor: z.enum(EURIBOR_TENORS),
+  date: dateField,
+  rate: z.number().min(-100).max(100),
+});
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { workspaceIdField, nameField } from './common.js';
+
+export const renameMerchantSchema = z.object({
+  workspaceId: workspaceIdField,
+  name: nameField,
+});
+
+export const mergeMerchantsSchema = z.object({
+  workspaceId: workspaceIdField,
+  sourceIds: z.array(z.number().int().positive()).min(1),
+});
+
+export const assignMerchantsSchema = z.object({
+  workspaceId: workspaceIdField,
+});
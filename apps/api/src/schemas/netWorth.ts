@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { NET_WORTH_ITEM_KINDS } from '@compasso/shared';
+import { workspaceIdField, nameField, currencyField } from './common.js';
+
+const netWorthItemFields = {
+  kind: z.enum(NET_WORTH_ITEM_KINDS),
+  name: nameField,
+  value: z.number().nonnegative(),
+  currency: currencyField,
+};
+
+export const createNetWorthItemSchema = z.object({
+  workspaceId: workspaceIdField,
+  ...netWorthItemFields,
+});
+
+export const updateNetWorthItemSchema = z.object({
+  workspaceId: workspaceIdField,
+  ...netWorthItemFields,
+  kind: netWorthItemFields.kind.optional(),
+  name: netWorthItemFields.name.optional(),
+  value: netWorthItemFields.value.optional(),
+});
+
+export const recordNetWorthSnapshotSchema = z.object({
+  workspaceId: workspaceIdField,
+});
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { validateStatementTemplate } from '../parsers/template.js';
+import { workspaceIdField, nameField } from './common.js';
+
+const pattern = z.string().min(1).max(500);
+const patternList = z.array(pattern).max(100);
+const amountPosition = z.number().int().min(-20).max(20);
+const dateFormat = z
+  .string()
+  .max(20)
+  .regex(/^(?=.*YY)(?=.*MM)(?=.*DD)[YMD./\- ]+$/, 'Date format must combine YYYY/YY, MM and DD');
+
+const amountLayoutSchema = z
+  .object({
+    count: z.number().int().min(1).max(20).optional(),
+    amount: amountPosition.optional(),
+    debit: amountPosition.optional(),
+    credit: amountPosition.optional(),
+    balance: amountPosition.optional(),
+    incomeFrom: z.enum(['sign', 'balance']).optional(),
+  })
+  .refine((l) => l.amount !== undefined || l.debit !== undefined || l.credit !== undefined, {
+    message: 'Map either an amount position or debit/credit positions',
+  });
+
+export const statementTemplateDefinitionSchema = z
+  .object({
+    dateFormat,
+    decimalFormat: z.enum(['european', 'standard']),
+    period: z.object({ pattern, dateFormat: dateFormat.optional() }).optional(),
+    sections: z.object({ start: patternList.min(1), end: patternList }).optional(),
+    skipLines: patternList.optional(),
+    stripPatterns: patternList.optional(),
+    openingBalancePattern: pattern.optional(),
+    closingBalancePattern: pattern.optional(),
+    transaction: z.object({ pattern, amountPattern: pattern.optional() }),
+    amountLayouts: z.array(amountLayoutSchema).min(1).max(10),
+    continuation: z.enum(['append', 'ignore']).optional(),
+    incomePatterns: patternList.optional(),
+    columns: z
+      .object({
+        headers: z.object({
+          date: pattern.optional(),
+          valueDate: pattern.optional(),
+          description: pattern.optional(),
+          amount: pattern.optional(),
+          debit: pattern.optional(),
+          credit: pattern.optional(),
+          balance: pattern.optional(),
+        }),
+        incomeFrom: z.enum(['sign', 'balance']).optional(),
+      })
+      .optional(),
+    fingerprint: z
+      .object({
+        patterns: patternList,
+        ibanPrefixes: z
+          .array(z.string().regex(/^[A-Za-z]{2}\d{2}[A-Za-z0-9 ]{0,12}$/, 'Invalid IBAN prefix'))
+          .max(20)
+          .optional(),
+      })
+      .optional(),
+  })
+  .superRefine((definition, ctx) => {
+    for (const message of validateStatementTemplate(definition)) {
+      ctx.addIssue({ code: 'custom', message });
+    }
+  });
+
+const templateFields = {
+  name: nameField,
+  currency: z.string().length(3).toUpperCase().optional(),
+  definition: statementTemplateDefinitionSchema,
+};
+
+export const createStatementTemplateSchema = z.object({
+  workspaceId: workspaceIdField,
+  ...templateFields,
+});
+
+export const updateStatementTemplateSchema = z.object({
+  workspaceId: workspaceIdField,
+  name: templateFields.name.optional(),
+  currency: templateFields.currency,
+  definition: statementTemplateDefinitionSchema.optional(),
+});
+
+// Instance-wide template file: a built-in-like bank definition read from disk at startup
+export const statementTemplateFileSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9_]{2,50}$/, 'Bank ID must be 2-50 lowercase letters, digits or underscores'),
+  name: nameField,
+  country: z.string().length(2).toUpperCase().optional(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  categoryPatterns: z.record(z.string(), z.array(z.string().min(1).max(200))).optional(),
+  definition: statementTemplateDefinitionSchema,
+});
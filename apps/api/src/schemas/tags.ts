@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { workspaceIdField, colorField } from './common.js';
+
+const tagNameField = z.string().trim().min(1).max(50);
+
+export const createTagSchema = z.object({
+  workspaceId: workspaceIdField,
+  name: tagNameField,
+  color: colorField,
+});
+
+export const updateTagSchema = z.object({
+  workspaceId: workspaceIdField,
+  name: tagNameField.optional(),
+  color: colorField.nullable(),
+});
+
+export const tagTransactionsSchema = z.object({
+  workspaceId: workspaceIdField,
+  transactionIds: z.array(z.number().int().positive()).min(1).max(1000),
+});
@@ -1,22 +1,52 @@
 import { z } from 'zod';
+import { TRANSACTION_TYPES } from '@compasso/shared';
 import { workspaceIdField } from './common.js';
 
 const transactionItem = z.object({
   date: z.string().min(1),
+  valueDate: z.string().min(1).nullish(),
   description: z.string().min(1),
   amount: z.number(),
-  balance: z.number().optional(),
+  balance: z.number().nullish(),
   isIncome: z.boolean(),
   categoryId: z.number().int().positive().nullish(),
   rawText: z.string().optional(),
+  externalId: z.string().max(255).nullish(),
+  transactionType: z.enum(TRANSACTION_TYPES).nullish(),
 });
 
 export const confirmTransactionsSchema = z.object({
   ledgerId: z.number().int().positive(),
+  accountId: z.number().int().positive().nullish(),
   transactions: z.array(transactionItem).min(1),
 });
 
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+export const manualTransactionSchema = z.object({
+  workspaceId: workspaceIdField,
+  accountId: z.number().int().positive().nullish(),
+  date: isoDate,
+  valueDate: isoDate.nullish(),
+  description: z.string().trim().min(1).max(500),
+  amount: z.number().positive(),
+  isIncome: z.boolean(),
+  categoryId: z.number().int().positive().nullish(),
+  transactionType: z.enum(TRANSACTION_TYPES).nullish(),
+});
+
 export const updateTransactionSchema = z.object({
   categoryId: z.number().int().positive().nullable(),
   workspaceId: workspaceIdField,
 });
+
+const splitPart = z.object({
+  categoryId: z.number().int().positive().nullable(),
+  amount: z.number().positive(),
+  note: z.string().trim().max(200).nullish(),
+});
+
+export const splitTransactionSchema = z.object({
+  workspaceId: workspaceIdField,
+  splits: z.array(splitPart).min(2).max(50),
+});
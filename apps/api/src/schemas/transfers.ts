@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { workspaceIdField } from './common.js';
+
+export const transferWorkspaceSchema = z.object({
+  workspaceId: workspaceIdField,
+});
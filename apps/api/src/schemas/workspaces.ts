@@ -1,11 +1,12 @@
 import { z } from 'zod';
-import { colorField, iconField } from './common.js';
+import { colorField, currencyField, iconField } from './common.js';
 
 export const createWorkspaceSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
   color: colorField,
   icon: iconField,
+  baseCurrency: currencyField,
 });
 
 export const updateWorkspaceSchema = z.object({
@@ -13,4 +14,5 @@ export const updateWorkspaceSchema = z.object({
   description: z.string().max(500).optional(),
   color: colorField,
   icon: iconField,
+  baseCurrency: currencyField,
 });
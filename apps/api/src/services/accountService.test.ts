@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import {
+  listAccounts,
+  getAccount,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  getAccountBalanceHistory,
+  findMatchingAccount,
+  normalizeAccountNumber,
+} from './accountService.js';
+
+const mockDb = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
+
+const accountRow = {
+  id: 3,
+  workspace_id: 1,
+  name: 'Novo Banco Main',
+  type: 'bank',
+  bank_id: 'novo_banco',
+  account_number: 'PT50000700000012345678923',
+  currency: 'EUR',
+  opening_balance: 1000,
+  created_at: '2025-01-01',
+};
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// listAccounts
+// ---------------------------------------------------------------------------
+describe('listAccounts', () => {
+  it('returns accounts with their counts and current balance', () => {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM transactions t')) {
+        return {
+          all: vi.fn().mockReturnValue([
+            { date: '2025-01-02', amount: 50, is_income: 0, balance: 950 },
+            { date: '2025-01-05', amount: 200, is_income: 1, balance: 1150 },
+          ]),
+        };
+      }
+      return {
+        all: vi.fn().mockReturnValue([
+          {
+            ...accountRow,
+            ledger_count: 1,
+            transaction_count: 2,
+            last_transaction_date: '2025-01-05',
+          },
+        ]),
+      };
+    });
+
+    const [account] = listAccounts(1);
+
+    expect(account).toEqual({
+      id: 3,
+      workspaceId: 1,
+      name: 'Novo Banco Main',
+      type: 'bank',
+      bankId: 'novo_banco',
+      accountNumber: 'PT50000700000012345678923',
+      currency: 'EUR',
+      openingBalance: 1000,
+      createdAt: '2025-01-01',
+      currentBalance: 1150,
+      lastTransactionDate: '2025-01-05',
+      ledgerCount: 1,
+      transactionCount: 2,
+    });
+  });
+
+  it('uses the opening balance for accounts without transactions', () => {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue([]) };
+      return {
+        all: vi
+          .fn()
+          .mockReturnValue([
+            { ...accountRow, ledger_count: 0, transaction_count: 0, last_transaction_date: null },
+          ]),
+      };
+    });
+
+    expect(listAccounts(1)[0].currentBalance).toBe(1000);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getAccountBalanceHistory
+// ---------------------------------------------------------------------------
+describe('getAccountBalanceHistory', () => {
+  function mockRows(rows: unknown[]) {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue(rows) };
+      return { get: vi.fn().mockReturnValue(accountRow) };
+    });
+  }
+
+  it('carries the opening balance through days without printed balances', () => {
+    mockRows([
+      { date: '2025-01-02', amount: 25.5, is_income: 0, balance: null },
+      { date: '2025-01-02', amount: 10, is_income: 0, balance: null },
+      { date: '2025-01-03', amount: 100, is_income: 1, balance: null },
+    ]);
+
+    expect(getAccountBalanceHistory(3, 1)).toEqual([
+      { date: '2025-01-02', balance: 964.5 },
+      { date: '2025-01-03', balance: 1064.5 },
+    ]);
+  });
+
+  it('uses the printed end-of-day balance whatever the order of the day', () => {
+    // Listed newest first within the day: the day closes at 930, not 970
+    mockRows([
+      { date: '2025-01-02', amount: 40, is_income: 0, balance: 930 },
+      { date: '2025-01-02', amount: 30, is_income: 0, balance: 970 },
+    ]);
+
+    expect(getAccountBalanceHistory(3, 1)).toEqual([{ date: '2025-01-02', balance: 930 }]);
+  });
+
+  it('continues from a printed balance that differs from the computed one', () => {
+    mockRows([
+      { date: '2025-01-02', amount: 40, is_income: 0, balance: 500 },
+      { date: '2025-01-03', amount: 20, is_income: 0, balance: null },
+    ]);
+
+    expect(getAccountBalanceHistory(3, 1)).toEqual([
+      { date: '2025-01-02', balance: 500 },
+      { date: '2025-01-03', balance: 480 },
+    ]);
+  });
+
+  it('throws not found for an account of another workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => getAccountBalanceHistory(3, 2)).toThrow('Account not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createAccount / updateAccount / deleteAccount
+// ---------------------------------------------------------------------------
+describe('createAccount', () => {
+  it('stores the account number without spaces', () => {
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 3 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('AND name = ?')) return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INSERT INTO accounts')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue(accountRow) };
+    });
+
+    const account = createAccount({
+      workspaceId: 1,
+      name: 'Novo Banco Main',
+      bankId: 'novo_banco',
+      accountNumber: 'pt50 0007 0000 0012 3456 7892 3',
+      openingBalance: 1000,
+    });
+
+    expect(mockRun).toHaveBeenCalledWith(
+      1,
+      'Novo Banco Main',
+      'bank',
+      'novo_banco',
+      'PT50000700000012345678923',
+      'EUR',
+      1000
+    );
+    expect(account.id).toBe(3);
+  });
+
+  it('creates a cash wallet without a bank or account number', () => {
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 6 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('AND name = ?')) return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INSERT INTO accounts')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue({ ...accountRow, id: 6, type: 'cash' }) };
+    });
+
+    createAccount({
+      workspaceId: 1,
+      name: 'Wallet',
+      type: 'cash',
+      bankId: 'novo_banco',
+      accountNumber: '1234',
+    });
+
+    expect(mockRun).toHaveBeenCalledWith(1, 'Wallet', 'cash', null, null, 'EUR', 0);
+  });
+
+  it('rejects a duplicate name', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue({ id: 4 }) });
+
+    expect(() => createAccount({ workspaceId: 1, name: 'Novo Banco Main' })).toThrow(
+      'An account with this name already exists in this workspace'
+    );
+  });
+});
+
+describe('updateAccount', () => {
+  it('updates only the given fields', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    let updateSql = '';
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE accounts')) {
+        updateSql = sql;
+        return { run: mockRun };
+      }
+      return { get: vi.fn().mockReturnValue(accountRow) };
+    });
+
+    updateAccount(3, 1, { openingBalance: 250, accountNumber: '5678' });
+
+    expect(updateSql).toContain('account_number = ?, opening_balance = ?');
+    expect(mockRun).toHaveBeenCalledWith('5678', 250, 3, 1);
+  });
+
+  it('clears the bank and account number when turning an account into a cash wallet', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    let updateSql = '';
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE accounts')) {
+        updateSql = sql;
+        return { run: mockRun };
+      }
+      return { get: vi.fn().mockReturnValue(accountRow) };
+    });
+
+    updateAccount(3, 1, { type: 'cash', accountNumber: '5678' });
+
+    expect(updateSql).toContain('type = ?, bank_id = ?, account_number = ?');
+    expect(mockRun).toHaveBeenCalledWith('cash', null, null, 3, 1);
+  });
+
+  it('rejects an update without fields', () => {
+    expect(() => updateAccount(3, 1, {})).toThrow(AppError);
+  });
+});
+
+describe('deleteAccount', () => {
+  it('throws not found when nothing was deleted', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => deleteAccount(3, 2)).toThrow('Account not found');
+  });
+});
+
+describe('getAccount', () => {
+  it('maps the account row', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(accountRow) });
+
+    expect(getAccount(3, 1).accountNumber).toBe('PT50000700000012345678923');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findMatchingAccount
+// ---------------------------------------------------------------------------
+describe('findMatchingAccount', () => {
+  beforeEach(() => {
+    mockDb.prepare.mockReturnValue({
+      all: vi.fn().mockReturnValue([
+        { id: 3, bank_id: 'novo_banco', account_number: 'PT50000700000012345678923' },
+        { id: 4, bank_id: 'novo_banco', account_number: '9876' },
+        { id: 5, bank_id: 'cgd', account_number: null },
+      ]),
+    });
+  });
+
+  it('only considers bank accounts', () => {
+    findMatchingAccount(1, 'novo_banco', null);
+
+    expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining("type = 'bank'"));
+  });
+
+  it('matches the full IBAN ignoring spaces', () => {
+    expect(findMatchingAccount(1, 'novo_banco', 'PT50 0007 0000 0012 3456 7892 3')).toBe(3);
+  });
+
+  it('matches an account stored with the last digits', () => {
+    expect(findMatchingAccount(1, 'novo_banco', 'PT50000700000011112229876')).toBe(4);
+  });
+
+  it('returns null for an unknown account number', () => {
+    expect(findMatchingAccount(1, 'cgd', 'PT50003500000012345678901')).toBeNull();
+  });
+
+  it('falls back to the only account of the bank without an account number', () => {
+    expect(findMatchingAccount(1, 'cgd', null)).toBe(5);
+    expect(findMatchingAccount(1, 'novo_banco', null)).toBeNull();
+  });
+});
+
+describe('normalizeAccountNumber', () => {
+  it('removes spaces and separators', () => {
+    expect(normalizeAccountNumber('12345678/ 1234-5')).toBe('1234567812345');
+  });
+});
@@ -0,0 +1,316 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import {
+  ErrorCode,
+  MANUAL_BANK_ID,
+  type Account,
+  type AccountBalancePoint,
+  type AccountSummary,
+  type AccountType,
+  type CreateAccountRequest,
+  type UpdateAccountRequest,
+} from '@compasso/shared';
+
+interface AccountRow {
+  id: number;
+  workspace_id: number;
+  name: string;
+  type: AccountType;
+  bank_id: string | null;
+  account_number: string | null;
+  currency: string;
+  opening_balance: number;
+  created_at: string;
+}
+
+interface AccountSummaryRow extends AccountRow {
+  ledger_count: number;
+  transaction_count: number;
+  last_transaction_date: string | null;
+}
+
+interface BalanceRow {
+  date: string;
+  amount: number;
+  is_income: number;
+  balance: number | null;
+}
+
+const ACCOUNT_COLUMNS =
+  'a.id, a.workspace_id, a.name, a.type, a.bank_id, a.account_number, a.currency, a.opening_balance, a.created_at';
+
+function mapAccountRow(row: AccountRow): Account {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    type: row.type,
+    bankId: row.bank_id,
+    accountNumber: row.account_number,
+    currency: row.currency,
+    openingBalance: row.opening_balance,
+    createdAt: row.created_at,
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Normalize an IBAN or account number for storage and matching: upper case,
+ * without spaces or separators.
+ */
+export function normalizeAccountNumber(value: string): string {
+  return value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+}
+
+function assertNameAvailable(workspaceId: number, name: string, excludeId?: number): void {
+  const db = getDatabase();
+  const existing = db
+    .prepare('SELECT id FROM accounts WHERE workspace_id = ? AND name = ? AND id != ?')
+    .get(workspaceId, name, excludeId ?? 0);
+
+  if (existing) {
+    throw AppError.badRequest(
+      'An account with this name already exists in this workspace',
+      ErrorCode.DUPLICATE_RESOURCE
+    );
+  }
+}
+
+function getBalanceRows(accountId: number): BalanceRow[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+      SELECT t.date, t.amount, t.is_income, t.balance
+      FROM transactions t
+      JOIN ledgers l ON t.ledger_id = l.id
+      WHERE l.account_id = ? AND l.status = 'confirmed'
+      ORDER BY t.date ASC, t.id ASC
+    `
+    )
+    .all(accountId) as BalanceRow[];
+}
+
+/**
+ * End-of-day balances from the opening balance and the account's transactions.
+ * A day's balance is the opening balance moved by the day's signed amounts,
+ * unless the statement printed balances that day: rows within a day can be
+ * listed in either order, so the printed balance closest to the computed one is
+ * the day's closing balance, and the next day continues from it.
+ */
+function buildBalanceHistory(openingBalance: number, rows: BalanceRow[]): AccountBalancePoint[] {
+  const history: AccountBalancePoint[] = [];
+  let balance = openingBalance;
+  let index = 0;
+
+  while (index < rows.length) {
+    const date = rows[index].date;
+    let computed = balance;
+    const printed: number[] = [];
+
+    for (; index < rows.length && rows[index].date === date; index++) {
+      const row = rows[index];
+      computed += row.is_income ? row.amount : -row.amount;
+      if (row.balance !== null) printed.push(row.balance);
+    }
+
+    computed = roundCents(computed);
+    balance =
+      printed.length > 0
+        ? printed.reduce((best, value) =>
+            Math.abs(value - computed) < Math.abs(best - computed) ? value : best
+          )
+        : computed;
+    history.push({ date, balance });
+  }
+
+  return history;
+}
+
+/**
+ * List a workspace's accounts with their current balance and ledger and
+ * transaction counts, by name.
+ */
+export function listAccounts(workspaceId: number): AccountSummary[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `
+      SELECT ${ACCOUNT_COLUMNS},
+        COUNT(DISTINCT CASE WHEN l.bank_id != '${MANUAL_BANK_ID}' THEN l.id END) as ledger_count,
+        COUNT(t.id) as transaction_count,
+        MAX(t.date) as last_transaction_date
+      FROM accounts a
+      LEFT JOIN ledgers l ON l.account_id = a.id AND l.status = 'confirmed'
+      LEFT JOIN transactions t ON t.ledger_id = l.id
+      WHERE a.workspace_id = ?
+      GROUP BY a.id
+      ORDER BY a.name ASC
+    `
+    )
+    .all(workspaceId) as AccountSummaryRow[];
+
+  return rows.map((row) => {
+    const history = buildBalanceHistory(row.opening_balance, getBalanceRows(row.id));
+    return {
+      ...mapAccountRow(row),
+      currentBalance: history.at(-1)?.balance ?? row.opening_balance,
+      lastTransactionDate: row.last_transaction_date,
+      ledgerCount: row.ledger_count,
+      transactionCount: row.transaction_count,
+    };
+  });
+}
+
+/**
+ * Get a single account, scoped to its workspace.
+ */
+export function getAccount(accountId: number, workspaceId: number): Account {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT ${ACCOUNT_COLUMNS} FROM accounts a WHERE a.id = ? AND a.workspace_id = ?`)
+    .get(accountId, workspaceId) as AccountRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('Account not found');
+  }
+
+  return mapAccountRow(row);
+}
+
+/**
+ * Create an account in a workspace. Cash wallets have no bank or account number.
+ */
+export function createAccount(data: CreateAccountRequest): Account {
+  assertNameAvailable(data.workspaceId, data.name);
+
+  const type = data.type ?? 'bank';
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `INSERT INTO accounts (workspace_id, name, type, bank_id, account_number, currency, opening_balance)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      data.workspaceId,
+      data.name,
+      type,
+      type === 'bank' ? (data.bankId ?? null) : null,
+      type === 'bank' && data.accountNumber ? normalizeAccountNumber(data.accountNumber) : null,
+      data.currency || 'EUR',
+      data.openingBalance ?? 0
+    );
+
+  return getAccount(Number(result.lastInsertRowid), data.workspaceId);
+}
+
+/**
+ * Update an account.
+ */
+export function updateAccount(
+  accountId: number,
+  workspaceId: number,
+  data: UpdateAccountRequest
+): Account {
+  const fields: Array<[string, unknown]> = [];
+
+  if (data.name !== undefined) fields.push(['name', data.name]);
+  if (data.type !== undefined) fields.push(['type', data.type]);
+  if (data.type === 'cash') {
+    fields.push(['bank_id', null], ['account_number', null]);
+  } else {
+    if (data.bankId !== undefined) fields.push(['bank_id', data.bankId]);
+    if (data.accountNumber !== undefined) {
+      fields.push([
+        'account_number',
+        data.accountNumber ? normalizeAccountNumber(data.accountNumber) : null,
+      ]);
+    }
+  }
+  if (data.currency !== undefined) fields.push(['currency', data.currency]);
+  if (data.openingBalance !== undefined) fields.push(['opening_balance', data.openingBalance]);
+
+  if (fields.length === 0) {
+    throw AppError.badRequest('No fields to update');
+  }
+
+  if (data.name !== undefined) {
+    assertNameAvailable(workspaceId, data.name, accountId);
+  }
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `UPDATE accounts SET ${fields.map(([column]) => `${column} = ?`).join(', ')}
+       WHERE id = ? AND workspace_id = ?`
+    )
+    .run(...fields.map(([, value]) => value), accountId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Account not found');
+  }
+
+  return getAccount(accountId, workspaceId);
+}
+
+/**
+ * Delete an account. Its ledgers and transactions are kept, detached from any account.
+ */
+export function deleteAccount(accountId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const result = db
+    .prepare('DELETE FROM accounts WHERE id = ? AND workspace_id = ?')
+    .run(accountId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Account not found');
+  }
+}
+
+/**
+ * Get an account's end-of-day balances, oldest first.
+ */
+export function getAccountBalanceHistory(
+  accountId: number,
+  workspaceId: number
+): AccountBalancePoint[] {
+  const account = getAccount(accountId, workspaceId);
+  return buildBalanceHistory(account.openingBalance, getBalanceRows(accountId));
+}
+
+/**
+ * Find the account a statement belongs to. With an account number from the
+ * statement, the bank account whose number equals it or is its last digits;
+ * without one, the workspace's only account at the statement's bank. Returns
+ * null when no account matches.
+ */
+export function findMatchingAccount(
+  workspaceId: number,
+  bankId: string,
+  accountNumber: string | null
+): number | null {
+  const db = getDatabase();
+  const accounts = db
+    .prepare(
+      "SELECT id, bank_id, account_number FROM accounts WHERE workspace_id = ? AND type = 'bank'"
+    )
+    .all(workspaceId) as Array<{
+    id: number;
+    bank_id: string | null;
+    account_number: string | null;
+  }>;
+
+  if (accountNumber) {
+    const number = normalizeAccountNumber(accountNumber);
+    const match =
+      accounts.find((a) => a.account_number === number) ??
+      accounts.find((a) => a.account_number && number.endsWith(a.account_number));
+    return match?.id ?? null;
+  }
+
+  const sameBank = accounts.filter((a) => a.bank_id === bankId);
+  return sameBank.length === 1 ? sameBank[0].id : null;
+}
@@ -1,8 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+vi.mock('./loanService.js', () => ({ linkAllLoanPayments: vi.fn(() => 0) }));
+vi.mock('./transferService.js', () => ({ detectTransfers: vi.fn(() => 0) }));
 
 import { getDatabase } from '../db/database.js';
+import { linkAllLoanPayments } from './loanService.js';
+import { detectTransfers } from './transferService.js';
 import { exportWorkspaceData, importWorkspaceData, type WorkspaceBackup } from './backupService.js';
 
 const mockDb: any = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
@@ -57,7 +61,8 @@ describe('exportWorkspaceData', () => {
 
   it('exports categories with patterns', () => {
     const categories = [
-      { id: 10, name: 'Food', color: '#ff0000', icon: 'utensils', is_default: 1 },
+      { id: 10, name: 'Food', color: '#ff0000', icon: 'utensils', is_default: 1, parent_name: null },
+      { id: 11, name: 'Coffee', color: '#ff0000', icon: null, is_default: 0, parent_name: 'Food' },
     ];
     const patterns = [
       { bank_id: 'novo_banco', pattern: 'GROCERIES', priority: 0, category_id: 10 },
@@ -66,7 +71,7 @@ describe('exportWorkspaceData', () => {
 
     mockDb.prepare.mockImplementation((sql: string) => {
       if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
-      if (sql.includes('FROM categories WHERE workspace_id')) return { all: vi.fn().mockReturnValue(categories) };
+      if (sql.includes('FROM categories c')) return { all: vi.fn().mockReturnValue(categories) };
       if (sql.includes('FROM category_patterns')) return { all: vi.fn().mockReturnValue(patterns) };
       if (sql.includes('FROM ledgers WHERE workspace_id')) return { all: vi.fn().mockReturnValue([]) };
       if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue([]) };
@@ -76,14 +81,16 @@ describe('exportWorkspaceData', () => {
 
     const result = exportWorkspaceData(1);
 
-    expect(result.categories).toHaveLength(1);
+    expect(result.categories).toHaveLength(2);
     expect(result.categories[0]).toEqual({
       name: 'Food',
       color: '#ff0000',
       icon: 'utensils',
       isDefault: true,
+      parentName: null,
       patterns: [{ bankId: 'novo_banco', pattern: 'GROCERIES', priority: 0 }],
     });
+    expect(result.categories[1]).toMatchObject({ name: 'Coffee', parentName: 'Food', patterns: [] });
   });
 
   it('exports ledgers with transactions', () => {
@@ -126,6 +133,136 @@ describe('exportWorkspaceData', () => {
     expect(result.ledgers[0].transactions[1].isManual).toBe(true);
   });
 
+  it('exports tags and the tag names of each transaction', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star' };
+    const ledgers = [
+      { id: 5, filename: 'jan.pdf', upload_date: '2024-01-15', period_start: null, period_end: null, bank_id: 'novo_banco', file_hash: 'abc123' },
+    ];
+    const transactions = [
+      { id: 40, ledger_id: 5, date: '2024-01-10', description: 'Hotel', amount: -200, balance: null, category_name: null, is_income: 0, is_manual: 0, raw_text: null },
+      { id: 41, ledger_id: 5, date: '2024-01-11', description: 'Shop', amount: -20, balance: null, category_name: null, is_income: 0, is_manual: 0, raw_text: null },
+    ];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM tags WHERE workspace_id'))
+        return { all: vi.fn().mockReturnValue([{ name: 'kids', color: null }, { name: 'vacation-2025', color: '#3b82f6' }]) };
+      if (sql.includes('FROM transaction_tags'))
+        return { all: vi.fn().mockReturnValue([{ transaction_id: 40, name: 'kids' }, { transaction_id: 40, name: 'vacation-2025' }]) };
+      if (sql.includes('FROM ledgers WHERE workspace_id')) return { all: vi.fn().mockReturnValue(ledgers) };
+      if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue(transactions) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    expect(result.tags).toEqual([
+      { name: 'kids', color: null },
+      { name: 'vacation-2025', color: '#3b82f6' },
+    ]);
+    expect(result.ledgers[0].transactions[0].tags).toEqual(['kids', 'vacation-2025']);
+    expect(result.ledgers[0].transactions[1].tags).toBeUndefined();
+  });
+
+  it('exports the parts of split transactions with their category names', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star' };
+    const ledgers = [
+      { id: 5, filename: 'jan.pdf', upload_date: '2024-01-15', period_start: null, period_end: null, bank_id: 'novo_banco', file_hash: 'abc123' },
+    ];
+    const transactions = [
+      { id: 40, ledger_id: 5, date: '2024-01-10', description: 'Supermarket', amount: 42.5, balance: null, category_name: 'Groceries', is_income: 0, is_manual: 0, raw_text: null },
+      { id: 41, ledger_id: 5, date: '2024-01-11', description: 'Shop', amount: 20, balance: null, category_name: null, is_income: 0, is_manual: 0, raw_text: null },
+    ];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM transaction_splits'))
+        return {
+          all: vi.fn().mockReturnValue([
+            { transaction_id: 40, category_name: 'Groceries', amount: 30, note: null },
+            { transaction_id: 40, category_name: 'Pharmacy', amount: 12.5, note: 'Vitamins' },
+          ]),
+        };
+      if (sql.includes('FROM ledgers WHERE workspace_id')) return { all: vi.fn().mockReturnValue(ledgers) };
+      if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue(transactions) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    expect(result.ledgers[0].transactions[0].splits).toEqual([
+      { categoryName: 'Groceries', amount: 30, note: null },
+      { categoryName: 'Pharmacy', amount: 12.5, note: 'Vitamins' },
+    ]);
+    expect(result.ledgers[0].transactions[1].splits).toBeUndefined();
+  });
+
+  it('exports transfers by the positions of their transactions', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star', base_currency: 'EUR' };
+    const ledgers = [
+      { id: 1, filename: 'a.pdf', upload_date: '2024-01-01', period_start: null, period_end: null, bank_id: 'novo_banco', file_hash: 'h1', account_id: null, currency: null },
+      { id: 2, filename: 'b.pdf', upload_date: '2024-01-01', period_start: null, period_end: null, bank_id: 'cgd', file_hash: 'h2', account_id: null, currency: null },
+    ];
+    const tx = { date: '2024-01-05', value_date: null, description: 'T', balance: null, category_name: null, is_manual: 0, raw_text: null, external_id: null, transaction_type: null, merchant_name: null };
+    const transactions = [
+      { ...tx, id: 10, ledger_id: 1, amount: 20, is_income: 0 },
+      { ...tx, id: 11, ledger_id: 1, amount: 500, is_income: 0 },
+      { ...tx, id: 20, ledger_id: 2, amount: 500, is_income: 1 },
+    ];
+    const transfers = [
+      { outgoing_transaction_id: 11, incoming_transaction_id: 20, status: 'unlinked' },
+      { outgoing_transaction_id: 99, incoming_transaction_id: 20, status: 'confirmed' },
+    ];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM ledgers WHERE workspace_id')) return { all: vi.fn().mockReturnValue(ledgers) };
+      if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue(transactions) };
+      if (sql.includes('FROM transfers')) return { all: vi.fn().mockReturnValue(transfers) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    // Transfers with a transaction outside the backup are left out
+    expect(result.transfers).toEqual([
+      { outgoing: { ledger: 0, transaction: 1 }, incoming: { ledger: 1, transaction: 0 }, status: 'unlinked' },
+    ]);
+  });
+
+  it('exports loan payments by loan name and the position of their transaction', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star', base_currency: 'EUR' };
+    const ledgers = [
+      { id: 1, filename: 'a.pdf', upload_date: '2024-01-01', period_start: null, period_end: null, bank_id: 'novo_banco', file_hash: 'h1', account_id: null, currency: null },
+    ];
+    const tx = { date: '2024-02-10', value_date: null, description: 'Prestacao', amount: 650, balance: null, category_name: null, is_income: 0, is_manual: 0, raw_text: null, external_id: null, transaction_type: 'LOAN_PAYMENT', merchant_name: null };
+    const transactions = [
+      { ...tx, id: 10, ledger_id: 1 },
+      { ...tx, id: 11, ledger_id: 1, date: '2024-03-10' },
+    ];
+    const loanPayments = [
+      { loan_name: 'Mortgage', transaction_id: 10, installment_number: 1, status: 'linked' },
+      { loan_name: 'Mortgage', transaction_id: 11, installment_number: 2, status: 'unlinked' },
+      { loan_name: 'Mortgage', transaction_id: 99, installment_number: 3, status: 'linked' },
+    ];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM ledgers WHERE workspace_id')) return { all: vi.fn().mockReturnValue(ledgers) };
+      if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue(transactions) };
+      if (sql.includes('FROM loan_payments')) return { all: vi.fn().mockReturnValue(loanPayments) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    // Payments of a transaction outside the backup are left out
+    expect(result.loanPayments).toEqual([
+      { loanName: 'Mortgage', transaction: { ledger: 0, transaction: 0 }, installmentNumber: 1, status: 'linked' },
+      { loanName: 'Mortgage', transaction: { ledger: 0, transaction: 1 }, installmentNumber: 2, status: 'unlinked' },
+    ]);
+  });
+
   it('exports recurring patterns', () => {
     const workspace = { name: 'W', description: null, color: '#000', icon: 'star' };
     const recurring = [
@@ -212,6 +349,130 @@ describe('exportWorkspaceData', () => {
 
     expect(result.ledgers[0].transactions[0].categoryName).toBeNull();
   });
+
+  it('exports accounts and references them from ledgers by name', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star' };
+    const accounts = [
+      { id: 3, name: 'Main', bank_id: 'novo_banco', account_number: '8923', currency: 'EUR', opening_balance: 120.5 },
+    ];
+    const ledgers = [
+      { id: 1, filename: 'a.pdf', upload_date: '2024-01-01', period_start: null, period_end: null, bank_id: 'novo_banco', file_hash: 'h1', account_id: 3 },
+      { id: 2, filename: 'b.pdf', upload_date: '2024-02-01', period_start: null, period_end: null, bank_id: 'novo_banco', file_hash: 'h2', account_id: null },
+    ];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM accounts WHERE workspace_id')) return { all: vi.fn().mockReturnValue(accounts) };
+      if (sql.includes('FROM ledgers WHERE workspace_id')) return { all: vi.fn().mockReturnValue(ledgers) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    expect(result.accounts).toEqual([
+      { name: 'Main', bankId: 'novo_banco', accountNumber: '8923', currency: 'EUR', openingBalance: 120.5 },
+    ]);
+    expect(result.ledgers.map((l) => l.accountName)).toEqual(['Main', null]);
+  });
+
+  it('exports CSV profiles with their bank IDs', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star', base_currency: 'EUR' };
+    const profiles = [
+      { id: 2, name: 'Revolut', delimiter: ',', date_format: 'YYYY-MM-DD', decimal_format: 'standard', has_header: 1, skip_rows: 0, currency: 'GBP', column_mapping: '{"date":0,"description":[1],"amount":2}' },
+    ];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM csv_profiles')) return { all: vi.fn().mockReturnValue(profiles) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    expect(result.csvProfiles).toEqual([
+      { bankId: 'csv:2', name: 'Revolut', delimiter: ',', dateFormat: 'YYYY-MM-DD', decimalFormat: 'standard', hasHeader: true, skipRows: 0, currency: 'GBP', columns: { date: 0, description: [1], amount: 2 } },
+    ]);
+  });
+
+  it('exports statement templates with their bank IDs', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star', base_currency: 'EUR' };
+    const definition = { dateFormat: 'DD/MM/YYYY', decimalFormat: 'european', transaction: { pattern: '^x' }, amountLayouts: [{ amount: 0 }] };
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM statement_templates'))
+        return { all: vi.fn().mockReturnValue([{ id: 4, name: 'Local Bank', currency: 'EUR', definition: JSON.stringify(definition) }]) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    expect(result.statementTemplates).toEqual([{ bankId: 'template:4', name: 'Local Bank', currency: 'EUR', definition }]);
+  });
+
+  it('exports the base currency, exchange rates and ledger currencies', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star', base_currency: 'EUR' };
+    const rates = [{ currency: 'GBP', date: '2024-01-05', rate: 0.86 }];
+    const ledgers = [
+      { id: 1, filename: 'a.csv', upload_date: '2024-01-01', period_start: null, period_end: null, bank_id: 'csv:2', file_hash: 'h1', account_id: null, currency: 'GBP' },
+    ];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM exchange_rates')) return { all: vi.fn().mockReturnValue(rates) };
+      if (sql.includes('FROM ledgers WHERE workspace_id')) return { all: vi.fn().mockReturnValue(ledgers) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    expect(result.workspace.baseCurrency).toBe('EUR');
+    expect(result.exchangeRates).toEqual(rates);
+    expect(result.ledgers[0].currency).toBe('GBP');
+  });
+
+  it('exports net worth items and snapshots', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star', base_currency: 'EUR' };
+    const items = [{ kind: 'asset', name: 'House', value: 250000, currency: 'EUR' }];
+    const snapshots = [{ date: '2024-01-31', total_assets: 260000, total_liabilities: 180000, net_worth: 80000 }];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM net_worth_items')) return { all: vi.fn().mockReturnValue(items) };
+      if (sql.includes('FROM net_worth_snapshots')) return { all: vi.fn().mockReturnValue(snapshots) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    expect(result.netWorthItems).toEqual(items);
+    expect(result.netWorthSnapshots).toEqual([
+      { date: '2024-01-31', totalAssets: 260000, totalLiabilities: 180000, netWorth: 80000 },
+    ]);
+  });
+
+  it('exports loans with their account by name and Euribor values', () => {
+    const workspace = { name: 'W', description: null, color: '#000', icon: 'star', base_currency: 'EUR' };
+    const loans = [
+      { name: 'Mortgage', principal: 150000, currency: 'EUR', rate_type: 'euribor', fixed_rate: null, euribor_tenor: '12M', spread: 1.2, term_months: 360, start_date: '2024-01-10', account_id: 4, description_pattern: null },
+    ];
+    const rates = [{ tenor: '12M', date: '2024-01-02', rate: 3.5 }];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) return { get: vi.fn().mockReturnValue(workspace) };
+      if (sql.includes('FROM accounts')) return { all: vi.fn().mockReturnValue([{ id: 4, name: 'Checking' }]) };
+      if (sql.includes('FROM loans')) return { all: vi.fn().mockReturnValue(loans) };
+      if (sql.includes('FROM euribor_rates')) return { all: vi.fn().mockReturnValue(rates) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn() };
+    });
+
+    const result = exportWorkspaceData(1);
+
+    expect(result.loans).toEqual([
+      { name: 'Mortgage', principal: 150000, currency: 'EUR', rateType: 'euribor', fixedRate: null, euriborTenor: '12M', spread: 1.2, termMonths: 360, startDate: '2024-01-10', accountName: 'Checking', descriptionPattern: null },
+    ]);
+    expect(result.euriborRates).toEqual(rates);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -229,7 +490,7 @@ describe('importWorkspaceData', () => {
       patternInsert: {},                // INSERT INTO category_patterns
       ledgerDupCheck: undefined,        // SELECT id FROM ledgers WHERE file_hash
       ledgerInsert: { lastInsertRowid: 200 },   // INSERT INTO ledgers
-      transactionInsert: {},            // INSERT INTO transactions
+      transactionInsert: { lastInsertRowid: 300 }, // INSERT INTO transactions
       recurringDupCheck: undefined,     // SELECT id FROM recurring_patterns
       recurringInsert: {},              // INSERT INTO recurring_patterns
       ...overrides,
@@ -306,6 +567,34 @@ describe('importWorkspaceData', () => {
     expect(stats.categoriesSkipped).toBe(1);
   });
 
+  it('nests imported categories under their parents by name', () => {
+    const router = prepareMockRouter({ existingCategories: [{ id: 5, name: 'Food' }] });
+    const mockNest = vi.fn();
+    let nextId = 50;
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('INTO categories')) return { run: vi.fn(() => ({ lastInsertRowid: nextId++ })) };
+      if (sql.includes('UPDATE categories SET parent_id')) return { run: mockNest };
+      return router(sql);
+    });
+
+    const backup = makeBackup({
+      categories: [
+        { name: 'Espresso', color: null, icon: null, isDefault: false, parentName: 'Coffee', patterns: [] },
+        { name: 'Coffee', color: null, icon: null, isDefault: false, parentName: 'Food', patterns: [] },
+        { name: 'Food', color: null, icon: null, isDefault: false, parentName: 'Groceries', patterns: [] },
+      ],
+    });
+
+    importWorkspaceData(1, backup);
+
+    // Espresso (50) goes under Coffee (51), Coffee under the existing Food (5);
+    // Food already existed and stays where it is
+    expect(mockNest.mock.calls).toEqual([
+      [51, 50],
+      [5, 51],
+    ]);
+  });
+
   it('imports patterns for new categories', () => {
     let insertedCategoryId: number | undefined;
     const mockPatternRun = vi.fn();
@@ -391,7 +680,7 @@ describe('importWorkspaceData', () => {
   // --- Ledger import tests ---
 
   it('imports new ledgers with transactions', () => {
-    const txRun = vi.fn();
+    const txRun = vi.fn().mockReturnValue({ lastInsertRowid: 301 });
 
     mockDb.prepare.mockImplementation((sql: string) => {
       if (sql.includes('FROM categories WHERE workspace_id'))
@@ -488,7 +777,7 @@ describe('importWorkspaceData', () => {
         return { run: vi.fn().mockReturnValue({ lastInsertRowid: 600 }) };
       if (sql.includes('INTO transactions'))
         return {
-          run: (...args: any[]) => { capturedTxArgs.push(args); },
+          run: (...args: any[]) => { capturedTxArgs.push(args); return { lastInsertRowid: 300 }; },
         };
       return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
     });
@@ -525,7 +814,7 @@ describe('importWorkspaceData', () => {
         return { run: vi.fn().mockReturnValue({ lastInsertRowid: 700 }) };
       if (sql.includes('INTO transactions'))
         return {
-          run: (...args: any[]) => { capturedTxArgs.push(args); },
+          run: (...args: any[]) => { capturedTxArgs.push(args); return { lastInsertRowid: 300 }; },
         };
       return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
     });
@@ -620,7 +909,7 @@ describe('importWorkspaceData', () => {
       if (sql.includes('INTO ledgers'))
         return { run: vi.fn().mockReturnValue({ lastInsertRowid: 200 }) };
       if (sql.includes('INTO transactions'))
-        return { run: vi.fn() };
+        return { run: vi.fn().mockReturnValue({ lastInsertRowid: 300 }) };
       if (sql.includes('SELECT id FROM recurring_patterns'))
         return { get: recurringDupGet };
       if (sql.includes('INTO recurring_patterns'))
@@ -678,6 +967,592 @@ describe('importWorkspaceData', () => {
     expect(stats.recurringPatternsSkipped).toBe(0);
   });
 
+  it('imports merchants with their aliases and links transactions by merchant name', () => {
+    const capturedTxArgs: any[][] = [];
+    const aliasInsert = vi.fn();
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM merchants WHERE workspace_id'))
+        return { all: vi.fn().mockReturnValue([{ id: 3, name: 'Continente' }]) };
+      if (sql.includes('INTO merchants'))
+        return { run: vi.fn().mockReturnValue({ lastInsertRowid: 12 }) };
+      if (sql.includes('INTO merchant_aliases'))
+        return { run: aliasInsert };
+      if (sql.includes('SELECT id FROM ledgers WHERE file_hash'))
+        return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INTO ledgers'))
+        return { run: vi.fn().mockReturnValue({ lastInsertRowid: 600 }) };
+      if (sql.includes('INTO transactions'))
+        return {
+          run: (...args: any[]) => { capturedTxArgs.push(args); return { lastInsertRowid: 300 }; },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const backup = makeBackup({
+      merchants: [
+        { name: 'Continente', aliases: ['CONTINENTE'] },
+        { name: 'Pingo Doce', aliases: ['PINGO DOCE', 'PINGO DOCE EXPRESS'] },
+      ],
+      ledgers: [{
+        filename: 'f.pdf',
+        uploadDate: '2024-01-01',
+        periodStart: null,
+        periodEnd: null,
+        bankId: 'novo_banco',
+        fileHash: 'h1',
+        transactions: [
+          { date: '2024-01-01', description: 'PINGO DOCE EXPRESS', amount: -20, balance: null, categoryName: null, isIncome: false, isManual: false, rawText: null, merchantName: 'Pingo Doce' },
+          { date: '2024-01-02', description: 'LEVANTAMENTO', amount: -40, balance: null, categoryName: null, isIncome: false, isManual: false, rawText: null, merchantName: null },
+        ],
+      }],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(stats.merchantsImported).toBe(1);
+    expect(stats.merchantsSkipped).toBe(1);
+    expect(aliasInsert).toHaveBeenCalledWith(12, 1, 'PINGO DOCE EXPRESS');
+    expect(aliasInsert).toHaveBeenCalledTimes(3);
+    // merchant_id is the 12th positional arg
+    expect(capturedTxArgs[0][11]).toBe(12);
+    expect(capturedTxArgs[1][11]).toBeNull();
+  });
+
+  it('imports tags by name and tags the imported transactions', () => {
+    const tagInsert = vi.fn()
+      .mockReturnValueOnce({ lastInsertRowid: 21 })
+      .mockReturnValueOnce({ lastInsertRowid: 22 });
+    const txTagInsert = vi.fn();
+    let txId = 700;
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM tags WHERE workspace_id'))
+        return { all: vi.fn().mockReturnValue([{ id: 4, name: 'Kids' }]) };
+      if (sql.includes('INTO tags'))
+        return { run: tagInsert };
+      if (sql.includes('INTO transaction_tags'))
+        return { run: txTagInsert };
+      if (sql.includes('SELECT id FROM ledgers WHERE file_hash'))
+        return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INTO ledgers'))
+        return { run: vi.fn().mockReturnValue({ lastInsertRowid: 600 }) };
+      if (sql.includes('INTO transactions'))
+        return { run: vi.fn(() => ({ lastInsertRowid: ++txId })) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const backup = makeBackup({
+      tags: [
+        { name: 'kids', color: null },
+        { name: 'vacation-2025', color: '#3b82f6' },
+      ],
+      ledgers: [{
+        filename: 'f.pdf',
+        uploadDate: '2024-01-01',
+        periodStart: null,
+        periodEnd: null,
+        bankId: 'novo_banco',
+        fileHash: 'h1',
+        transactions: [
+          { date: '2024-01-01', description: 'HOTEL', amount: -200, balance: null, categoryName: null, isIncome: false, isManual: false, rawText: null, tags: ['kids', 'vacation-2025'] },
+          { date: '2024-01-02', description: 'TAXI', amount: -15, balance: null, categoryName: null, isIncome: false, isManual: false, rawText: null, tags: ['work'] },
+          { date: '2024-01-03', description: 'LEVANTAMENTO', amount: -40, balance: null, categoryName: null, isIncome: false, isManual: false, rawText: null },
+        ],
+      }],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    // "kids" matches the existing "Kids"; "work" is only on a transaction
+    expect(stats.tagsSkipped).toBe(1);
+    expect(stats.tagsImported).toBe(2);
+    expect(tagInsert).toHaveBeenCalledWith(1, 'vacation-2025', '#3b82f6');
+    expect(tagInsert).toHaveBeenCalledWith(1, 'work');
+    expect(txTagInsert.mock.calls).toEqual([[701, 4], [701, 21], [702, 22]]);
+  });
+
+  it('restores the parts of split transactions, resolving their categories by name', () => {
+    const splitInsert = vi.fn();
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id, name FROM categories WHERE workspace_id'))
+        return { all: vi.fn().mockReturnValue([{ id: 3, name: 'Groceries' }, { id: 4, name: 'Pharmacy' }]) };
+      if (sql.includes('INTO transaction_splits'))
+        return { run: splitInsert };
+      if (sql.includes('SELECT id FROM ledgers WHERE file_hash'))
+        return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INTO ledgers'))
+        return { run: vi.fn().mockReturnValue({ lastInsertRowid: 600 }) };
+      if (sql.includes('INTO transactions'))
+        return { run: vi.fn().mockReturnValue({ lastInsertRowid: 701 }) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const backup = makeBackup({
+      ledgers: [{
+        filename: 'f.pdf',
+        uploadDate: '2024-01-01',
+        periodStart: null,
+        periodEnd: null,
+        bankId: 'novo_banco',
+        fileHash: 'h1',
+        transactions: [
+          {
+            date: '2024-01-01', description: 'SUPERMARKET', amount: 50, balance: null, categoryName: 'Groceries', isIncome: false, isManual: false, rawText: null,
+            splits: [
+              { categoryName: 'Groceries', amount: 30, note: null },
+              { categoryName: 'Pharmacy', amount: 12.5, note: 'Vitamins' },
+              { categoryName: null, amount: 7.5 },
+            ],
+          },
+        ],
+      }],
+    });
+
+    importWorkspaceData(1, backup);
+
+    expect(splitInsert.mock.calls).toEqual([
+      [701, 3, 30, null],
+      [701, 4, 12.5, 'Vitamins'],
+      [701, null, 7.5, null],
+    ]);
+  });
+
+  it('restores value dates and leaves them null for older backups', () => {
+    const capturedTxArgs: any[][] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id FROM ledgers WHERE file_hash'))
+        return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INTO ledgers'))
+        return { run: vi.fn().mockReturnValue({ lastInsertRowid: 600 }) };
+      if (sql.includes('INTO transactions'))
+        return {
+          run: (...args: any[]) => { capturedTxArgs.push(args); return { lastInsertRowid: 300 }; },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const backup = makeBackup({
+      ledgers: [{
+        filename: 'f.pdf',
+        uploadDate: '2024-01-01',
+        periodStart: null,
+        periodEnd: null,
+        bankId: 'novo_banco',
+        fileHash: 'h1',
+        transactions: [
+          { date: '2024-02-01', valueDate: '2024-01-30', description: 'A', amount: -20, balance: null, categoryName: null, isIncome: false, isManual: false, rawText: null },
+          { date: '2024-02-02', description: 'B', amount: -40, balance: null, categoryName: null, isIncome: false, isManual: false, rawText: null },
+        ],
+      }],
+    });
+
+    importWorkspaceData(1, backup);
+
+    // value_date is the last positional arg
+    expect(capturedTxArgs[0].at(-1)).toBe('2024-01-30');
+    expect(capturedTxArgs[1].at(-1)).toBeNull();
+  });
+
+  it('imports accounts by name and attaches ledgers to them', () => {
+    const accountInserts: any[][] = [];
+    const ledgerInserts: any[][] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id, name FROM accounts'))
+        return { all: vi.fn().mockReturnValue([{ id: 8, name: 'Existing' }]) };
+      if (sql.includes('INSERT INTO accounts'))
+        return {
+          run: (...args: any[]) => {
+            accountInserts.push(args);
+            return { lastInsertRowid: 9 };
+          },
+        };
+      if (sql.includes('SELECT id FROM ledgers WHERE file_hash'))
+        return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INTO ledgers'))
+        return {
+          run: (...args: any[]) => {
+            ledgerInserts.push(args);
+            return { lastInsertRowid: 700 };
+          },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const ledger = {
+      filename: 'f.pdf',
+      uploadDate: '2024-01-01',
+      periodStart: null,
+      periodEnd: null,
+      bankId: 'novo_banco',
+      transactions: [],
+    };
+    const backup = makeBackup({
+      accounts: [
+        { name: 'Existing', bankId: null, accountNumber: null, currency: 'EUR', openingBalance: 0 },
+        { name: 'Main', bankId: 'novo_banco', accountNumber: '8923', currency: 'EUR', openingBalance: 120.5 },
+        { name: 'Wallet', type: 'cash' as const, bankId: null, accountNumber: null, currency: 'EUR', openingBalance: 40 },
+      ],
+      ledgers: [
+        { ...ledger, fileHash: 'h1', accountName: 'Main' },
+        { ...ledger, fileHash: 'h2', accountName: 'Existing' },
+        { ...ledger, fileHash: 'h3' },
+      ],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(stats.accountsImported).toBe(2);
+    expect(stats.accountsSkipped).toBe(1);
+    // Accounts from backups made before cash wallets existed are bank accounts
+    expect(accountInserts).toEqual([
+      [1, 'Main', 'bank', 'novo_banco', '8923', 'EUR', 120.5],
+      [1, 'Wallet', 'cash', null, null, 'EUR', 40],
+    ]);
+    // account_id is the positional arg before the currency
+    expect(ledgerInserts.map((args) => args.at(-2))).toEqual([9, 8, null]);
+  });
+
+  it('imports CSV profiles by name and remaps their bank IDs', () => {
+    const profileInserts: any[][] = [];
+    const patternInserts: any[][] = [];
+    const accountInserts: any[][] = [];
+    const ledgerInserts: any[][] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id, name FROM csv_profiles'))
+        return { all: vi.fn().mockReturnValue([{ id: 5, name: 'Existing' }]) };
+      if (sql.includes('INSERT INTO csv_profiles'))
+        return {
+          run: (...args: any[]) => {
+            profileInserts.push(args);
+            return { lastInsertRowid: 6 };
+          },
+        };
+      if (sql.includes('category_patterns') && sql.includes('pattern = ?'))
+        return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INTO category_patterns')) return { run: (...args: any[]) => patternInserts.push(args) };
+      if (sql.includes('INTO categories')) return { run: vi.fn().mockReturnValue({ lastInsertRowid: 30 }) };
+      if (sql.includes('INSERT INTO accounts'))
+        return {
+          run: (...args: any[]) => {
+            accountInserts.push(args);
+            return { lastInsertRowid: 9 };
+          },
+        };
+      if (sql.includes('INTO ledgers'))
+        return {
+          run: (...args: any[]) => {
+            ledgerInserts.push(args);
+            return { lastInsertRowid: 700 };
+          },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const profile = { delimiter: ';' as const, dateFormat: 'DD/MM/YYYY' as const, decimalFormat: 'european' as const, hasHeader: true, skipRows: 0, currency: 'EUR', columns: { date: 0, description: [1], amount: 2 } };
+    const ledger = { filename: 'f.csv', uploadDate: '2024-01-01', periodStart: null, periodEnd: null, fileHash: null, transactions: [] };
+    const backup = makeBackup({
+      csvProfiles: [
+        { ...profile, bankId: 'csv:1', name: 'Existing' },
+        { ...profile, bankId: 'csv:2', name: 'New' },
+      ],
+      categories: [
+        { name: 'Food', color: null, icon: null, isDefault: false, patterns: [{ bankId: 'csv:2', pattern: 'MERCADO', priority: 0 }] },
+      ],
+      accounts: [{ name: 'Main', bankId: 'csv:1', accountNumber: null, currency: 'EUR', openingBalance: 0 }],
+      ledgers: [
+        { ...ledger, bankId: 'csv:1' },
+        { ...ledger, bankId: 'csv:2' },
+        { ...ledger, bankId: 'novo_banco' },
+      ],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(stats.csvProfilesImported).toBe(1);
+    expect(stats.csvProfilesSkipped).toBe(1);
+    expect(profileInserts).toEqual([
+      [1, 'New', ';', 'DD/MM/YYYY', 'european', 1, 0, 'EUR', '{"date":0,"description":[1],"amount":2}'],
+    ]);
+    expect(patternInserts[0][1]).toBe('csv:6');
+    expect(accountInserts[0][3]).toBe('csv:5');
+    // bank_id is the 5th positional arg
+    expect(ledgerInserts.map((args) => args[4])).toEqual(['csv:5', 'csv:6', 'novo_banco']);
+  });
+
+  it('imports statement templates by name and remaps their bank IDs', () => {
+    const templateInserts: any[][] = [];
+    const ledgerInserts: any[][] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id, name FROM statement_templates'))
+        return { all: vi.fn().mockReturnValue([{ id: 3, name: 'Existing' }]) };
+      if (sql.includes('INSERT INTO statement_templates'))
+        return {
+          run: (...args: any[]) => {
+            templateInserts.push(args);
+            return { lastInsertRowid: 7 };
+          },
+        };
+      if (sql.includes('INTO ledgers'))
+        return {
+          run: (...args: any[]) => {
+            ledgerInserts.push(args);
+            return { lastInsertRowid: 700 };
+          },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const definition = { dateFormat: 'DD/MM/YYYY', decimalFormat: 'european' as const, transaction: { pattern: '^x' }, amountLayouts: [{ amount: 0 }] };
+    const ledger = { filename: 'f.pdf', uploadDate: '2024-01-01', periodStart: null, periodEnd: null, fileHash: null, transactions: [] };
+    const backup = makeBackup({
+      statementTemplates: [
+        { bankId: 'template:1', name: 'Existing', currency: 'EUR', definition },
+        { bankId: 'template:2', name: 'New', currency: 'EUR', definition },
+      ],
+      ledgers: [
+        { ...ledger, bankId: 'template:1' },
+        { ...ledger, bankId: 'template:2' },
+      ],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(stats.statementTemplatesImported).toBe(1);
+    expect(stats.statementTemplatesSkipped).toBe(1);
+    expect(templateInserts).toEqual([[1, 'New', 'EUR', JSON.stringify(definition)]]);
+    // bank_id is the 5th positional arg
+    expect(ledgerInserts.map((args) => args[4])).toEqual(['template:3', 'template:7']);
+  });
+
+  it('imports exchange rates, keeping rates already set', () => {
+    const rateInserts: any[][] = [];
+    const ledgerInserts: any[][] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('INTO exchange_rates'))
+        return {
+          run: (...args: any[]) => {
+            rateInserts.push(args);
+            return { changes: rateInserts.length === 1 ? 1 : 0 };
+          },
+        };
+      if (sql.includes('INTO ledgers'))
+        return {
+          run: (...args: any[]) => {
+            ledgerInserts.push(args);
+            return { lastInsertRowid: 700 };
+          },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const backup = makeBackup({
+      exchangeRates: [
+        { currency: 'GBP', date: '2024-01-05', rate: 0.86 },
+        { currency: 'USD', date: '2024-01-05', rate: 1.0921 },
+      ],
+      ledgers: [
+        { filename: 'a.csv', uploadDate: '2024-01-01', periodStart: null, periodEnd: null, bankId: 'csv:2', fileHash: null, currency: 'GBP', transactions: [] },
+        { filename: 'b.pdf', uploadDate: '2024-01-01', periodStart: null, periodEnd: null, bankId: 'novo_banco', fileHash: null, transactions: [] },
+      ],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(rateInserts).toEqual([
+      [1, 'GBP', '2024-01-05', 0.86],
+      [1, 'USD', '2024-01-05', 1.0921],
+    ]);
+    expect(stats.exchangeRatesImported).toBe(1);
+    expect(stats.exchangeRatesSkipped).toBe(1);
+    // currency is the last positional arg, null for older backups
+    expect(ledgerInserts.map((args) => args.at(-1))).toEqual(['GBP', null]);
+  });
+
+  it('restores the base currency of the backup and keeps it for older backups', () => {
+    const currencyUpdates: any[][] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE workspaces SET base_currency'))
+        return { run: (...args: any[]) => currencyUpdates.push(args) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    importWorkspaceData(1, makeBackup({
+      workspace: { name: 'W', description: null, color: '#000', icon: 'star', baseCurrency: 'GBP' },
+    }));
+    importWorkspaceData(1, makeBackup());
+
+    expect(currencyUpdates).toEqual([['GBP', 1]]);
+  });
+
+  it('imports net worth items by kind and name and keeps existing snapshots', () => {
+    const itemInserts: any[][] = [];
+    const snapshotInserts: any[][] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT kind, name FROM net_worth_items'))
+        return { all: vi.fn().mockReturnValue([{ kind: 'asset', name: 'Car' }]) };
+      if (sql.includes('INTO net_worth_items'))
+        return { run: (...args: any[]) => itemInserts.push(args) };
+      if (sql.includes('INTO net_worth_snapshots'))
+        return {
+          run: (...args: any[]) => {
+            snapshotInserts.push(args);
+            return { changes: snapshotInserts.length === 1 ? 1 : 0 };
+          },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const backup = makeBackup({
+      netWorthItems: [
+        { kind: 'asset', name: 'Car', value: 12000, currency: 'EUR' },
+        { kind: 'liability', name: 'Car', value: 8000, currency: 'EUR' },
+      ],
+      netWorthSnapshots: [
+        { date: '2024-01-31', totalAssets: 20000, totalLiabilities: 8000, netWorth: 12000 },
+        { date: '2024-02-29', totalAssets: 21000, totalLiabilities: 7800, netWorth: 13200 },
+      ],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(itemInserts).toEqual([[1, 'liability', 'Car', 8000, 'EUR']]);
+    expect(stats.netWorthItemsImported).toBe(1);
+    expect(stats.netWorthItemsSkipped).toBe(1);
+    expect(snapshotInserts[0]).toEqual([1, '2024-01-31', 20000, 8000, 12000]);
+    expect(stats.netWorthSnapshotsImported).toBe(1);
+    expect(stats.netWorthSnapshotsSkipped).toBe(1);
+  });
+
+  it('imports loans by name and links their payments afterwards', () => {
+    const loanInserts: any[][] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id, name FROM accounts'))
+        return { all: vi.fn().mockReturnValue([{ id: 4, name: 'Checking' }]) };
+      if (sql.includes('SELECT name FROM loans'))
+        return { all: vi.fn().mockReturnValue([{ name: 'Car loan' }]) };
+      if (sql.includes('INTO loans')) return { run: (...args: any[]) => loanInserts.push(args) };
+      if (sql.includes('INTO euribor_rates')) return { run: vi.fn().mockReturnValue({ changes: 1 }) };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const loan = { principal: 150000, currency: 'EUR', rateType: 'euribor' as const, fixedRate: null, euriborTenor: '12M' as const, spread: 1.2, termMonths: 360, startDate: '2024-01-10', descriptionPattern: null };
+    const backup = makeBackup({
+      loans: [
+        { ...loan, name: 'Car loan', accountName: null },
+        { ...loan, name: 'Mortgage', accountName: 'Checking' },
+      ],
+      euriborRates: [{ tenor: '12M', date: '2024-01-02', rate: 3.5 }],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(loanInserts).toEqual([[1, 'Mortgage', 150000, 'EUR', 'euribor', null, '12M', 1.2, 360, '2024-01-10', 4, null]]);
+    expect(stats.loansImported).toBe(1);
+    expect(stats.loansSkipped).toBe(1);
+    expect(stats.euriborRatesImported).toBe(1);
+    expect(linkAllLoanPayments).toHaveBeenCalledWith(1);
+  });
+
+  it('restores transfers between imported transactions and detects the rest', () => {
+    const transferInserts: any[][] = [];
+    let txId = 300;
+    const ledgerDupGet = vi.fn().mockReturnValueOnce(undefined).mockReturnValueOnce(undefined).mockReturnValueOnce({ id: 4 });
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id FROM ledgers WHERE file_hash')) return { get: ledgerDupGet };
+      if (sql.includes('INTO ledgers')) return { run: vi.fn().mockReturnValue({ lastInsertRowid: 200 }) };
+      if (sql.includes('INTO transactions')) return { run: vi.fn(() => ({ lastInsertRowid: ++txId })) };
+      if (sql.includes('INTO transfers'))
+        return {
+          run: (...args: any[]) => {
+            transferInserts.push(args);
+            return { changes: 1 };
+          },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+
+    const tx = { date: '2024-01-05', description: 'T', amount: 500, balance: null, categoryName: null, isManual: false, rawText: null };
+    const ledger = { uploadDate: '2024-01-01', periodStart: null, periodEnd: null, bankId: 'novo_banco', transactions: [] };
+    const backup = makeBackup({
+      ledgers: [
+        { ...ledger, filename: 'a.pdf', fileHash: 'h1', transactions: [{ ...tx, isIncome: false }, { ...tx, isIncome: false }] },
+        { ...ledger, filename: 'b.pdf', fileHash: 'h2', transactions: [{ ...tx, isIncome: true }] },
+        { ...ledger, filename: 'c.pdf', fileHash: 'dup', transactions: [{ ...tx, isIncome: true }] },
+      ],
+      transfers: [
+        { outgoing: { ledger: 0, transaction: 1 }, incoming: { ledger: 1, transaction: 0 }, status: 'confirmed' },
+        // The incoming side's ledger was already in the workspace
+        { outgoing: { ledger: 0, transaction: 0 }, incoming: { ledger: 2, transaction: 0 }, status: 'unlinked' },
+      ],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(transferInserts).toEqual([[1, 302, 303, 'confirmed']]);
+    expect(stats.transfersImported).toBe(1);
+    expect(stats.transfersSkipped).toBe(1);
+    expect(detectTransfers).toHaveBeenCalledWith(1);
+  });
+
+  it('restores loan payments of imported transactions before linking the rest', () => {
+    const paymentInserts: any[][] = [];
+    let txId = 300;
+    const calls: string[] = [];
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id, name FROM loans'))
+        return { all: vi.fn().mockReturnValue([{ id: 8, name: 'Mortgage' }]) };
+      if (sql.includes('INTO ledgers')) return { run: vi.fn().mockReturnValue({ lastInsertRowid: 200 }) };
+      if (sql.includes('INTO transactions')) return { run: vi.fn(() => ({ lastInsertRowid: ++txId })) };
+      if (sql.includes('INTO loan_payments'))
+        return {
+          run: (...args: any[]) => {
+            calls.push('restore');
+            paymentInserts.push(args);
+            return { changes: 1 };
+          },
+        };
+      return { all: vi.fn().mockReturnValue([]), get: vi.fn(), run: vi.fn() };
+    });
+    vi.mocked(linkAllLoanPayments).mockImplementation(() => {
+      calls.push('link');
+      return 0;
+    });
+
+    const tx = { date: '2024-02-10', description: 'Prestacao', amount: 650, balance: null, categoryName: null, isIncome: false, isManual: false, rawText: null };
+    const backup = makeBackup({
+      ledgers: [
+        { filename: 'a.pdf', uploadDate: '2024-01-01', periodStart: null, periodEnd: null, bankId: 'novo_banco', fileHash: null, transactions: [tx, tx] },
+      ],
+      loanPayments: [
+        { loanName: 'Mortgage', transaction: { ledger: 0, transaction: 0 }, installmentNumber: 1, status: 'linked' },
+        { loanName: 'Mortgage', transaction: { ledger: 0, transaction: 1 }, installmentNumber: 2, status: 'unlinked' },
+        { loanName: 'Car loan', transaction: { ledger: 0, transaction: 1 }, installmentNumber: 1, status: 'linked' },
+      ],
+    });
+
+    const stats = importWorkspaceData(1, backup);
+
+    expect(paymentInserts).toEqual([
+      [8, 301, 1, 'linked'],
+      [8, 302, 2, 'unlinked'],
+    ]);
+    expect(stats.loanPaymentsImported).toBe(2);
+    expect(stats.loanPaymentsSkipped).toBe(1);
+    expect(calls).toEqual(['restore', 'restore', 'link']);
+  });
+
   it('runs inside a database transaction', () => {
     mockDb.prepare.mockImplementation(prepareMockRouter());
 
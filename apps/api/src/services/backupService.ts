@@ -1,10 +1,28 @@
 import { getDatabase } from '../db/database.js';
+import { linkAllLoanPayments } from './loanService.js';
+import { detectTransfers } from './transferService.js';
+import { toCsvProfileBankId } from './csvProfileService.js';
+import { toStatementTemplateBankId } from './statementTemplateService.js';
+import type {
+  AccountType,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvDelimiter,
+  EuriborTenor,
+  LoanPaymentStatus,
+  LoanRateType,
+  NetWorthItemKind,
+  StatementTemplateDefinition,
+  TransactionType,
+  TransferStatus,
+} from '@compasso/shared';
 
 interface BackupCategory {
   name: string;
   color: string | null;
   icon: string | null;
   isDefault: boolean;
+  parentName?: string | null; // Absent in backups made before categories could be nested
   patterns: Array<{
     bankId: string;
     pattern: string;
@@ -14,6 +32,7 @@ interface BackupCategory {
 
 interface BackupTransaction {
   date: string;
+  valueDate?: string | null; // Absent in backups made before value dates were stored
   description: string;
   amount: number;
   balance: number | null;
@@ -21,6 +40,55 @@ interface BackupTransaction {
   isIncome: boolean;
   isManual: boolean;
   rawText: string | null;
+  externalId?: string | null;
+  transactionType?: TransactionType | null;
+  merchantName?: string | null;
+  tags?: string[]; // Tag names; absent when the transaction has none
+  splits?: BackupSplit[]; // Absent when the transaction isn't split
+}
+
+interface BackupSplit {
+  categoryName: string | null;
+  amount: number;
+  note?: string | null;
+}
+
+interface BackupCsvProfile {
+  bankId: string; // "csv:<id>" in the exported workspace, remapped on import
+  name: string;
+  delimiter: CsvDelimiter;
+  dateFormat: CsvDateFormat;
+  decimalFormat: 'european' | 'standard';
+  hasHeader: boolean;
+  skipRows: number;
+  currency: string;
+  columns: CsvColumnMapping;
+}
+
+interface BackupStatementTemplate {
+  bankId: string; // "template:<id>" in the exported workspace, remapped on import
+  name: string;
+  currency: string;
+  definition: StatementTemplateDefinition;
+}
+
+interface BackupMerchant {
+  name: string;
+  aliases: string[];
+}
+
+interface BackupTag {
+  name: string;
+  color: string | null;
+}
+
+interface BackupAccount {
+  name: string;
+  type?: AccountType; // Absent in backups made before cash wallets existed
+  bankId: string | null;
+  accountNumber: string | null;
+  currency: string;
+  openingBalance: number;
 }
 
 interface BackupLedger {
@@ -30,9 +98,70 @@ interface BackupLedger {
   periodEnd: string | null;
   bankId: string;
   fileHash: string | null;
+  accountName?: string | null; // Absent in backups made before accounts existed
+  currency?: string | null; // Absent in backups made before ledgers had a currency
   transactions: BackupTransaction[];
 }
 
+// A transaction by its position in the backup: ledgers[ledger].transactions[transaction]
+interface BackupTransactionRef {
+  ledger: number;
+  transaction: number;
+}
+
+interface BackupTransfer {
+  outgoing: BackupTransactionRef;
+  incoming: BackupTransactionRef;
+  status: TransferStatus;
+}
+
+interface BackupExchangeRate {
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+interface BackupNetWorthItem {
+  kind: NetWorthItemKind;
+  name: string;
+  value: number;
+  currency: string;
+}
+
+interface BackupNetWorthSnapshot {
+  date: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+}
+
+interface BackupLoan {
+  name: string;
+  principal: number;
+  currency: string;
+  rateType: LoanRateType;
+  fixedRate: number | null;
+  euriborTenor: EuriborTenor | null;
+  spread: number | null;
+  termMonths: number;
+  startDate: string;
+  accountName: string | null;
+  descriptionPattern: string | null;
+}
+
+interface BackupLoanPayment {
+  loanName: string;
+  transaction: BackupTransactionRef;
+  installmentNumber: number;
+  status: LoanPaymentStatus;
+}
+
+interface BackupEuriborRate {
+  tenor: EuriborTenor;
+  date: string;
+  rate: number;
+}
+
 interface BackupRecurringPattern {
   descriptionPattern: string;
   frequency: string;
@@ -49,42 +178,114 @@ export interface WorkspaceBackup {
     description: string | null;
     color: string;
     icon: string;
+    baseCurrency?: string; // Absent in backups made before base currencies existed
   };
+  csvProfiles?: BackupCsvProfile[]; // Absent in backups made before CSV profiles were backed up
+  statementTemplates?: BackupStatementTemplate[]; // Absent in backups made before templates were backed up
   categories: BackupCategory[];
+  merchants?: BackupMerchant[]; // Absent in backups made before merchants existed
+  tags?: BackupTag[]; // Absent in backups made before tags existed
+  accounts?: BackupAccount[]; // Absent in backups made before accounts existed
+  exchangeRates?: BackupExchangeRate[]; // Absent in backups made before exchange rates existed
+  netWorthItems?: BackupNetWorthItem[]; // Absent in backups made before net worth tracking existed
+  netWorthSnapshots?: BackupNetWorthSnapshot[];
+  loans?: BackupLoan[]; // Absent in backups made before loans existed
+  euriborRates?: BackupEuriborRate[];
   ledgers: BackupLedger[];
+  transfers?: BackupTransfer[]; // Absent in backups made before transfers were backed up
+  loanPayments?: BackupLoanPayment[]; // Absent in backups made before loan payments were backed up
   recurringPatterns: BackupRecurringPattern[];
 }
 
 export interface ImportStats {
+  csvProfilesImported: number;
+  csvProfilesSkipped: number;
+  statementTemplatesImported: number;
+  statementTemplatesSkipped: number;
   categoriesImported: number;
   categoriesSkipped: number;
   patternsImported: number;
   patternsSkipped: number;
+  merchantsImported: number;
+  merchantsSkipped: number;
+  tagsImported: number;
+  tagsSkipped: number;
+  accountsImported: number;
+  accountsSkipped: number;
+  exchangeRatesImported: number;
+  exchangeRatesSkipped: number;
+  netWorthItemsImported: number;
+  netWorthItemsSkipped: number;
+  netWorthSnapshotsImported: number;
+  netWorthSnapshotsSkipped: number;
+  loansImported: number;
+  loansSkipped: number;
+  euriborRatesImported: number;
+  euriborRatesSkipped: number;
   ledgersImported: number;
   ledgersSkipped: number;
   transactionsImported: number;
+  transfersImported: number;
+  transfersSkipped: number;
+  loanPaymentsImported: number;
+  loanPaymentsSkipped: number;
   recurringPatternsImported: number;
   recurringPatternsSkipped: number;
 }
 
 /**
  * Exports all workspace data as a self-contained JSON backup.
- * Includes categories with patterns, ledgers with transactions,
- * and recurring patterns. Transactions reference categories by name (not ID)
- * so the backup is portable across workspaces.
+ * Includes CSV import profiles, statement templates, categories with patterns, merchants with aliases, tags, accounts, exchange
+ * rates, net worth items and snapshots, loans and Euribor values, ledgers with transactions, transfers, loan payments, and
+ * recurring patterns.
+ * Transactions reference categories, merchants and tags, and ledgers and loans their account, by name (not ID) so the backup is
+ * portable across workspaces. Split transactions carry their parts, each with its category name, and
+ * transfers and loan payments reference their transactions by position in the backup's ledgers.
  */
 export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
   const db = getDatabase();
 
   // Workspace metadata
   const workspace = db
-    .prepare('SELECT name, description, color, icon FROM workspaces WHERE id = ?')
-    .get(workspaceId) as { name: string; description: string | null; color: string; icon: string };
+    .prepare('SELECT name, description, color, icon, base_currency FROM workspaces WHERE id = ?')
+    .get(workspaceId) as { name: string; description: string | null; color: string; icon: string; base_currency: string };
+
+  // CSV import profiles, with the bank IDs ledgers, accounts and patterns know them by
+  const csvProfiles = db
+    .prepare('SELECT id, name, delimiter, date_format, decimal_format, has_header, skip_rows, currency, column_mapping FROM csv_profiles WHERE workspace_id = ? ORDER BY name')
+    .all(workspaceId) as Array<{
+    id: number;
+    name: string;
+    delimiter: CsvDelimiter;
+    date_format: CsvDateFormat;
+    decimal_format: 'european' | 'standard';
+    has_header: number;
+    skip_rows: number;
+    currency: string;
+    column_mapping: string;
+  }>;
+
+  // Statement templates, with their bank IDs like CSV profiles
+  const statementTemplates = db
+    .prepare('SELECT id, name, currency, definition FROM statement_templates WHERE workspace_id = ? ORDER BY name')
+    .all(workspaceId) as Array<{ id: number; name: string; currency: string; definition: string }>;
 
   // Categories with patterns
   const categories = db
-    .prepare('SELECT id, name, color, icon, is_default FROM categories WHERE workspace_id = ?')
-    .all(workspaceId) as Array<{ id: number; name: string; color: string | null; icon: string | null; is_default: number }>;
+    .prepare(`
+      SELECT c.id, c.name, c.color, c.icon, c.is_default, p.name as parent_name
+      FROM categories c
+      LEFT JOIN categories p ON c.parent_id = p.id
+      WHERE c.workspace_id = ?
+    `)
+    .all(workspaceId) as Array<{
+    id: number;
+    name: string;
+    color: string | null;
+    icon: string | null;
+    is_default: number;
+    parent_name: string | null;
+  }>;
 
   // Fetch all patterns in a single query instead of per-category
   const allPatterns = db
@@ -111,6 +312,7 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
       color: cat.color,
       icon: cat.icon,
       isDefault: cat.is_default === 1,
+      parentName: cat.parent_name,
       patterns: patterns.map((p) => ({
         bankId: p.bank_id,
         pattern: p.pattern,
@@ -119,9 +321,126 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
     };
   });
 
+  // Merchants with their aliases
+  const merchants = db
+    .prepare('SELECT id, name FROM merchants WHERE workspace_id = ? ORDER BY id')
+    .all(workspaceId) as Array<{ id: number; name: string }>;
+
+  const allAliases = db
+    .prepare('SELECT merchant_id, alias FROM merchant_aliases WHERE workspace_id = ? ORDER BY alias')
+    .all(workspaceId) as Array<{ merchant_id: number; alias: string }>;
+
+  const aliasesByMerchant = new Map<number, string[]>();
+  for (const a of allAliases) {
+    const list = aliasesByMerchant.get(a.merchant_id) || [];
+    list.push(a.alias);
+    aliasesByMerchant.set(a.merchant_id, list);
+  }
+
+  // Tags, and the tag names of each transaction
+  const tags = db
+    .prepare('SELECT name, color FROM tags WHERE workspace_id = ? ORDER BY name')
+    .all(workspaceId) as BackupTag[];
+
+  const allTransactionTags = db
+    .prepare(`
+      SELECT tt.transaction_id, g.name
+      FROM transaction_tags tt
+      JOIN tags g ON tt.tag_id = g.id
+      WHERE g.workspace_id = ?
+      ORDER BY g.name
+    `)
+    .all(workspaceId) as Array<{ transaction_id: number; name: string }>;
+
+  const tagsByTransaction = new Map<number, string[]>();
+  for (const t of allTransactionTags) {
+    const list = tagsByTransaction.get(t.transaction_id) || [];
+    list.push(t.name);
+    tagsByTransaction.set(t.transaction_id, list);
+  }
+
+  // Parts of split transactions
+  const allSplits = db
+    .prepare(`
+      SELECT s.transaction_id, c.name as category_name, s.amount, s.note
+      FROM transaction_splits s
+      JOIN transactions t ON s.transaction_id = t.id
+      JOIN ledgers l ON t.ledger_id = l.id
+      LEFT JOIN categories c ON s.category_id = c.id
+      WHERE l.workspace_id = ?
+      ORDER BY s.id
+    `)
+    .all(workspaceId) as Array<{
+    transaction_id: number;
+    category_name: string | null;
+    amount: number;
+    note: string | null;
+  }>;
+
+  const splitsByTransaction = new Map<number, BackupSplit[]>();
+  for (const s of allSplits) {
+    const list = splitsByTransaction.get(s.transaction_id) || [];
+    list.push({ categoryName: s.category_name, amount: s.amount, note: s.note });
+    splitsByTransaction.set(s.transaction_id, list);
+  }
+
+  // Accounts
+  const accounts = db
+    .prepare('SELECT id, name, type, bank_id, account_number, currency, opening_balance FROM accounts WHERE workspace_id = ? ORDER BY id')
+    .all(workspaceId) as Array<{
+    id: number;
+    name: string;
+    type: AccountType;
+    bank_id: string | null;
+    account_number: string | null;
+    currency: string;
+    opening_balance: number;
+  }>;
+  const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+
+  // Exchange rates
+  const exchangeRates = db
+    .prepare('SELECT currency, date, rate FROM exchange_rates WHERE workspace_id = ? ORDER BY currency, date')
+    .all(workspaceId) as BackupExchangeRate[];
+
+  // Net worth items and snapshots
+  const netWorthItems = db
+    .prepare('SELECT kind, name, value, currency FROM net_worth_items WHERE workspace_id = ? ORDER BY kind, name')
+    .all(workspaceId) as BackupNetWorthItem[];
+
+  const netWorthSnapshots = db
+    .prepare('SELECT date, total_assets, total_liabilities, net_worth FROM net_worth_snapshots WHERE workspace_id = ? ORDER BY date')
+    .all(workspaceId) as Array<{
+    date: string;
+    total_assets: number;
+    total_liabilities: number;
+    net_worth: number;
+  }>;
+
+  // Loans and Euribor values
+  const loans = db
+    .prepare('SELECT name, principal, currency, rate_type, fixed_rate, euribor_tenor, spread, term_months, start_date, account_id, description_pattern FROM loans WHERE workspace_id = ? ORDER BY name')
+    .all(workspaceId) as Array<{
+    name: string;
+    principal: number;
+    currency: string;
+    rate_type: LoanRateType;
+    fixed_rate: number | null;
+    euribor_tenor: EuriborTenor | null;
+    spread: number | null;
+    term_months: number;
+    start_date: string;
+    account_id: number | null;
+    description_pattern: string | null;
+  }>;
+
+  const euriborRates = db
+    .prepare('SELECT tenor, date, rate FROM euribor_rates WHERE workspace_id = ? ORDER BY tenor, date')
+    .all(workspaceId) as BackupEuriborRate[];
+
   // Ledgers with transactions (join category name)
   const ledgers = db
-    .prepare('SELECT id, filename, upload_date, period_start, period_end, bank_id, file_hash FROM ledgers WHERE workspace_id = ?')
+    .prepare("SELECT id, filename, upload_date, period_start, period_end, bank_id, file_hash, account_id, currency FROM ledgers WHERE workspace_id = ? AND status = 'confirmed'")
     .all(workspaceId) as Array<{
     id: number;
     filename: string;
@@ -130,22 +449,28 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
     period_end: string | null;
     bank_id: string;
     file_hash: string | null;
+    account_id: number | null;
+    currency: string | null;
   }>;
 
   // Fetch all transactions in a single query instead of per-ledger
   const allTransactions = db
     .prepare(`
-      SELECT t.ledger_id, t.date, t.description, t.amount, t.balance,
-             c.name as category_name, t.is_income, t.is_manual, t.raw_text
+      SELECT t.id, t.ledger_id, t.date, t.value_date, t.description, t.amount, t.balance,
+             c.name as category_name, t.is_income, t.is_manual, t.raw_text, t.external_id,
+             t.transaction_type, m.name as merchant_name
       FROM transactions t
       JOIN ledgers l ON t.ledger_id = l.id
       LEFT JOIN categories c ON t.category_id = c.id
+      LEFT JOIN merchants m ON t.merchant_id = m.id
       WHERE l.workspace_id = ?
       ORDER BY t.date, t.id
     `)
     .all(workspaceId) as Array<{
+    id: number;
     ledger_id: number;
     date: string;
+    value_date: string | null;
     description: string;
     amount: number;
     balance: number | null;
@@ -153,6 +478,9 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
     is_income: number;
     is_manual: number;
     raw_text: string | null;
+    external_id: string | null;
+    transaction_type: TransactionType | null;
+    merchant_name: string | null;
   }>;
 
   const txByLedger = new Map<number, typeof allTransactions>();
@@ -162,8 +490,14 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
     txByLedger.set(t.ledger_id, list);
   }
 
-  const backupLedgers: BackupLedger[] = ledgers.map((ledger) => {
+  // Position of each exported transaction, for the transfers and loan payments that reference it
+  const transactionRefs = new Map<number, BackupTransactionRef>();
+
+  const backupLedgers: BackupLedger[] = ledgers.map((ledger, ledgerIndex) => {
     const transactions = txByLedger.get(ledger.id) || [];
+    transactions.forEach((t, transactionIndex) => {
+      transactionRefs.set(t.id, { ledger: ledgerIndex, transaction: transactionIndex });
+    });
 
     return {
       filename: ledger.filename,
@@ -172,8 +506,11 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
       periodEnd: ledger.period_end,
       bankId: ledger.bank_id,
       fileHash: ledger.file_hash,
+      accountName: ledger.account_id !== null ? (accountNames.get(ledger.account_id) ?? null) : null,
+      currency: ledger.currency,
       transactions: transactions.map((t) => ({
         date: t.date,
+        valueDate: t.value_date,
         description: t.description,
         amount: t.amount,
         balance: t.balance,
@@ -181,10 +518,62 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
         isIncome: t.is_income === 1,
         isManual: t.is_manual === 1,
         rawText: t.raw_text,
+        externalId: t.external_id,
+        transactionType: t.transaction_type,
+        merchantName: t.merchant_name,
+        tags: tagsByTransaction.get(t.id),
+        splits: splitsByTransaction.get(t.id),
       })),
     };
   });
 
+  // Transfers, including unlinked ones so detection doesn't pair them again after a restore
+  const transfers = db
+    .prepare('SELECT outgoing_transaction_id, incoming_transaction_id, status FROM transfers WHERE workspace_id = ? ORDER BY id')
+    .all(workspaceId) as Array<{
+    outgoing_transaction_id: number;
+    incoming_transaction_id: number;
+    status: TransferStatus;
+  }>;
+
+  const backupTransfers: BackupTransfer[] = [];
+  for (const tr of transfers) {
+    const outgoing = transactionRefs.get(tr.outgoing_transaction_id);
+    const incoming = transactionRefs.get(tr.incoming_transaction_id);
+    if (outgoing && incoming) {
+      backupTransfers.push({ outgoing, incoming, status: tr.status });
+    }
+  }
+
+  // Loan payments, including unlinked ones so linking doesn't pick them again after a restore
+  const loanPayments = db
+    .prepare(`
+      SELECT lo.name as loan_name, lp.transaction_id, lp.installment_number, lp.status
+      FROM loan_payments lp
+      JOIN loans lo ON lp.loan_id = lo.id
+      WHERE lo.workspace_id = ?
+      ORDER BY lp.id
+    `)
+    .all(workspaceId) as Array<{
+    loan_name: string;
+    transaction_id: number;
+    installment_number: number;
+    status: LoanPaymentStatus;
+  }>;
+
+  const backupLoanPayments: BackupLoanPayment[] = [];
+  for (const lp of loanPayments) {
+    const transaction = transactionRefs.get(lp.transaction_id);
+    if (transaction) {
+      backupLoanPayments.push({
+        loanName: lp.loan_name,
+        transaction,
+        installmentNumber: lp.installment_number,
+        status: lp.status,
+      });
+    }
+  }
+
   // Recurring patterns
   const recurringPatterns = db
     .prepare('SELECT description_pattern, frequency, avg_amount, occurrence_count, is_active FROM recurring_patterns WHERE workspace_id = ?')
@@ -204,9 +593,64 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
       description: workspace.description,
       color: workspace.color,
       icon: workspace.icon,
+      baseCurrency: workspace.base_currency,
     },
+    csvProfiles: csvProfiles.map((p) => ({
+      bankId: toCsvProfileBankId(p.id),
+      name: p.name,
+      delimiter: p.delimiter,
+      dateFormat: p.date_format,
+      decimalFormat: p.decimal_format,
+      hasHeader: p.has_header === 1,
+      skipRows: p.skip_rows,
+      currency: p.currency,
+      columns: JSON.parse(p.column_mapping) as CsvColumnMapping,
+    })),
+    statementTemplates: statementTemplates.map((t) => ({
+      bankId: toStatementTemplateBankId(t.id),
+      name: t.name,
+      currency: t.currency,
+      definition: JSON.parse(t.definition) as StatementTemplateDefinition,
+    })),
     categories: backupCategories,
+    merchants: merchants.map((m) => ({
+      name: m.name,
+      aliases: aliasesByMerchant.get(m.id) || [],
+    })),
+    tags,
+    accounts: accounts.map((a) => ({
+      name: a.name,
+      type: a.type,
+      bankId: a.bank_id,
+      accountNumber: a.account_number,
+      currency: a.currency,
+      openingBalance: a.opening_balance,
+    })),
+    exchangeRates,
+    netWorthItems,
+    netWorthSnapshots: netWorthSnapshots.map((s) => ({
+      date: s.date,
+      totalAssets: s.total_assets,
+      totalLiabilities: s.total_liabilities,
+      netWorth: s.net_worth,
+    })),
+    loans: loans.map((l) => ({
+      name: l.name,
+      principal: l.principal,
+      currency: l.currency,
+      rateType: l.rate_type,
+      fixedRate: l.fixed_rate,
+      euriborTenor: l.euribor_tenor,
+      spread: l.spread,
+      termMonths: l.term_months,
+      startDate: l.start_date,
+      accountName: l.account_id ? (accountNames.get(l.account_id) ?? null) : null,
+      descriptionPattern: l.description_pattern,
+    })),
+    euriborRates,
     ledgers: backupLedgers,
+    transfers: backupTransfers,
+    loanPayments: backupLoanPayments,
     recurringPatterns: recurringPatterns.map((rp) => ({
       descriptionPattern: rp.description_pattern,
       frequency: rp.frequency,
@@ -219,26 +663,122 @@ export function exportWorkspaceData(workspaceId: number): WorkspaceBackup {
 
 /**
  * Imports workspace data from a JSON backup within a single transaction.
- * Categories are matched by name to avoid duplicates; ledgers are
- * deduplicated by file_hash. Transaction category references are resolved
- * from name to ID using the (potentially newly created) category map.
+ * CSV profiles and statement templates are matched by name, and the bank IDs that
+ * referred to them in the backup are remapped to this workspace's in patterns, accounts and ledgers.
+ * Categories are matched by name to avoid duplicates, and new ones are nested
+ * under their parent by name; ledgers are
+ * deduplicated by file_hash. Merchants are matched by name and keep their
+ * aliases; tags are matched by name, ignoring case; accounts are matched by name; exchange rates by currency and date;
+ * net worth items by kind and name; net worth snapshots by date; loans by name;
+ * Euribor values by tenor and date. Transfers between imported transactions and
+ * payments of imported transactions keep their status, then transfers are
+ * detected and the remaining loan installments linked to the imported payments. The workspace takes the base currency of the backup, when it has one. Transaction category, merchant and tag references are resolved from
+ * name to ID using the (potentially newly created) category, merchant and tag maps, and so are the categories of split parts.
  */
 export function importWorkspaceData(workspaceId: number, backup: WorkspaceBackup): ImportStats {
   const db = getDatabase();
 
   const stats: ImportStats = {
+    csvProfilesImported: 0,
+    csvProfilesSkipped: 0,
+    statementTemplatesImported: 0,
+    statementTemplatesSkipped: 0,
     categoriesImported: 0,
     categoriesSkipped: 0,
     patternsImported: 0,
     patternsSkipped: 0,
+    merchantsImported: 0,
+    merchantsSkipped: 0,
+    tagsImported: 0,
+    tagsSkipped: 0,
+    accountsImported: 0,
+    accountsSkipped: 0,
+    exchangeRatesImported: 0,
+    exchangeRatesSkipped: 0,
+    netWorthItemsImported: 0,
+    netWorthItemsSkipped: 0,
+    netWorthSnapshotsImported: 0,
+    netWorthSnapshotsSkipped: 0,
+    loansImported: 0,
+    loansSkipped: 0,
+    euriborRatesImported: 0,
+    euriborRatesSkipped: 0,
     ledgersImported: 0,
     ledgersSkipped: 0,
     transactionsImported: 0,
+    transfersImported: 0,
+    transfersSkipped: 0,
+    loanPaymentsImported: 0,
+    loanPaymentsSkipped: 0,
     recurringPatternsImported: 0,
     recurringPatternsSkipped: 0,
   };
 
   const importTransaction = db.transaction(() => {
+    // Base amounts are converted to the base currency the backup was made with
+    if (backup.workspace.baseCurrency) {
+      db.prepare('UPDATE workspaces SET base_currency = ? WHERE id = ?').run(backup.workspace.baseCurrency, workspaceId);
+    }
+
+    // Import CSV profiles (matched by name) and map their backup bank IDs to this workspace's
+    const bankIdMap = new Map<string, string>();
+    const remapBankId = (bankId: string): string => bankIdMap.get(bankId) ?? bankId;
+
+    const existingProfiles = db
+      .prepare('SELECT id, name FROM csv_profiles WHERE workspace_id = ?')
+      .all(workspaceId) as Array<{ id: number; name: string }>;
+
+    const profileMap = new Map<string, number>();
+    for (const p of existingProfiles) {
+      profileMap.set(p.name, p.id);
+    }
+
+    for (const profile of backup.csvProfiles ?? []) {
+      if (profileMap.has(profile.name)) {
+        stats.csvProfilesSkipped++;
+      } else {
+        const result = db
+          .prepare('INSERT INTO csv_profiles (workspace_id, name, delimiter, date_format, decimal_format, has_header, skip_rows, currency, column_mapping) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)')
+          .run(
+            workspaceId,
+            profile.name,
+            profile.delimiter,
+            profile.dateFormat,
+            profile.decimalFormat,
+            profile.hasHeader ? 1 : 0,
+            profile.skipRows,
+            profile.currency,
+            JSON.stringify(profile.columns)
+          );
+        profileMap.set(profile.name, Number(result.lastInsertRowid));
+        stats.csvProfilesImported++;
+      }
+      bankIdMap.set(profile.bankId, toCsvProfileBankId(profileMap.get(profile.name)!));
+    }
+
+    // Import statement templates (matched by name) the same way
+    const existingTemplates = db
+      .prepare('SELECT id, name FROM statement_templates WHERE workspace_id = ?')
+      .all(workspaceId) as Array<{ id: number; name: string }>;
+
+    const templateMap = new Map<string, number>();
+    for (const t of existingTemplates) {
+      templateMap.set(t.name, t.id);
+    }
+
+    for (const template of backup.statementTemplates ?? []) {
+      if (templateMap.has(template.name)) {
+        stats.statementTemplatesSkipped++;
+      } else {
+        const result = db
+          .prepare('INSERT INTO statement_templates (workspace_id, name, currency, definition) VALUES (?, ?, ?, ?)')
+          .run(workspaceId, template.name, template.currency, JSON.stringify(template.definition));
+        templateMap.set(template.name, Number(result.lastInsertRowid));
+        stats.statementTemplatesImported++;
+      }
+      bankIdMap.set(template.bankId, toStatementTemplateBankId(templateMap.get(template.name)!));
+    }
+
     // Build category name-to-ID map (existing categories in workspace)
     const existingCategories = db
       .prepare('SELECT id, name FROM categories WHERE workspace_id = ?')
@@ -250,6 +790,7 @@ export function importWorkspaceData(workspaceId: number, backup: WorkspaceBackup
     }
 
     // Import categories
+    const importedCategories: Array<{ id: number; parentName: string }> = [];
     for (const cat of backup.categories) {
       if (categoryMap.has(cat.name)) {
         stats.categoriesSkipped++;
@@ -260,31 +801,222 @@ export function importWorkspaceData(workspaceId: number, backup: WorkspaceBackup
         const newId = Number(result.lastInsertRowid);
         categoryMap.set(cat.name, newId);
         stats.categoriesImported++;
+        if (cat.parentName) {
+          importedCategories.push({ id: newId, parentName: cat.parentName });
+        }
       }
 
       // Import patterns for this category
       const categoryId = categoryMap.get(cat.name)!;
       for (const pattern of cat.patterns) {
+        const bankId = remapBankId(pattern.bankId);
         const existing = db
           .prepare(`
             SELECT id FROM category_patterns
             WHERE category_id IN (SELECT id FROM categories WHERE workspace_id = ?)
               AND pattern = ? AND bank_id = ?
           `)
-          .get(workspaceId, pattern.pattern, pattern.bankId);
+          .get(workspaceId, pattern.pattern, bankId);
 
         if (existing) {
           stats.patternsSkipped++;
         } else {
           db.prepare('INSERT INTO category_patterns (category_id, bank_id, pattern, priority) VALUES (?, ?, ?, ?)')
-            .run(categoryId, pattern.bankId, pattern.pattern, pattern.priority);
+            .run(categoryId, bankId, pattern.pattern, pattern.priority);
           stats.patternsImported++;
         }
       }
     }
 
-    // Import ledgers
-    for (const ledger of backup.ledgers) {
+    // Nest imported categories once all their parents exist; existing
+    // categories keep their place in the tree
+    for (const cat of importedCategories) {
+      const parentId = categoryMap.get(cat.parentName);
+      if (parentId !== undefined) {
+        db.prepare('UPDATE categories SET parent_id = ? WHERE id = ?').run(parentId, cat.id);
+      }
+    }
+
+    // Import merchants (matched by name) and their aliases
+    const existingMerchants = db
+      .prepare('SELECT id, name FROM merchants WHERE workspace_id = ?')
+      .all(workspaceId) as Array<{ id: number; name: string }>;
+
+    const merchantMap = new Map<string, number>();
+    for (const m of existingMerchants) {
+      merchantMap.set(m.name, m.id);
+    }
+
+    for (const merchant of backup.merchants ?? []) {
+      if (merchantMap.has(merchant.name)) {
+        stats.merchantsSkipped++;
+      } else {
+        const result = db
+          .prepare('INSERT INTO merchants (workspace_id, name) VALUES (?, ?)')
+          .run(workspaceId, merchant.name);
+        merchantMap.set(merchant.name, Number(result.lastInsertRowid));
+        stats.merchantsImported++;
+      }
+
+      // Aliases another merchant already has keep pointing to it
+      const merchantId = merchantMap.get(merchant.name)!;
+      for (const alias of merchant.aliases) {
+        db.prepare(
+          'INSERT OR IGNORE INTO merchant_aliases (merchant_id, workspace_id, alias) VALUES (?, ?, ?)'
+        ).run(merchantId, workspaceId, alias);
+      }
+    }
+
+    // Import tags (matched by name, ignoring case like the tags table)
+    const existingTags = db
+      .prepare('SELECT id, name FROM tags WHERE workspace_id = ?')
+      .all(workspaceId) as Array<{ id: number; name: string }>;
+
+    const tagMap = new Map<string, number>();
+    for (const tag of existingTags) {
+      tagMap.set(tag.name.toLowerCase(), tag.id);
+    }
+
+    for (const tag of backup.tags ?? []) {
+      if (tagMap.has(tag.name.toLowerCase())) {
+        stats.tagsSkipped++;
+        continue;
+      }
+      const result = db
+        .prepare('INSERT INTO tags (workspace_id, name, color) VALUES (?, ?, ?)')
+        .run(workspaceId, tag.name, tag.color);
+      tagMap.set(tag.name.toLowerCase(), Number(result.lastInsertRowid));
+      stats.tagsImported++;
+    }
+
+    // Import accounts (matched by name)
+    const existingAccounts = db
+      .prepare('SELECT id, name FROM accounts WHERE workspace_id = ?')
+      .all(workspaceId) as Array<{ id: number; name: string }>;
+
+    const accountMap = new Map<string, number>();
+    for (const a of existingAccounts) {
+      accountMap.set(a.name, a.id);
+    }
+
+    for (const account of backup.accounts ?? []) {
+      if (accountMap.has(account.name)) {
+        stats.accountsSkipped++;
+        continue;
+      }
+
+      const result = db
+        .prepare('INSERT INTO accounts (workspace_id, name, type, bank_id, account_number, currency, opening_balance) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run(
+          workspaceId,
+          account.name,
+          account.type ?? 'bank',
+          account.bankId !== null ? remapBankId(account.bankId) : null,
+          account.accountNumber,
+          account.currency,
+          account.openingBalance
+        );
+      accountMap.set(account.name, Number(result.lastInsertRowid));
+      stats.accountsImported++;
+    }
+
+    // Import exchange rates (rates already set for a currency and date are kept)
+    const insertRate = db.prepare(
+      'INSERT OR IGNORE INTO exchange_rates (workspace_id, currency, date, rate) VALUES (?, ?, ?, ?)'
+    );
+    for (const rate of backup.exchangeRates ?? []) {
+      if (insertRate.run(workspaceId, rate.currency, rate.date, rate.rate).changes > 0) {
+        stats.exchangeRatesImported++;
+      } else {
+        stats.exchangeRatesSkipped++;
+      }
+    }
+
+    // Import net worth items (matched by kind and name) and snapshots (a day's snapshot is kept)
+    const existingItems = db
+      .prepare('SELECT kind, name FROM net_worth_items WHERE workspace_id = ?')
+      .all(workspaceId) as Array<{ kind: string; name: string }>;
+
+    const itemKeys = new Set(existingItems.map((i) => `${i.kind}:${i.name}`));
+
+    for (const item of backup.netWorthItems ?? []) {
+      if (itemKeys.has(`${item.kind}:${item.name}`)) {
+        stats.netWorthItemsSkipped++;
+        continue;
+      }
+      db.prepare('INSERT INTO net_worth_items (workspace_id, kind, name, value, currency) VALUES (?, ?, ?, ?, ?)')
+        .run(workspaceId, item.kind, item.name, item.value, item.currency);
+      itemKeys.add(`${item.kind}:${item.name}`);
+      stats.netWorthItemsImported++;
+    }
+
+    const insertSnapshot = db.prepare(
+      'INSERT OR IGNORE INTO net_worth_snapshots (workspace_id, date, total_assets, total_liabilities, net_worth) VALUES (?, ?, ?, ?, ?)'
+    );
+    for (const snapshot of backup.netWorthSnapshots ?? []) {
+      const result = insertSnapshot.run(
+        workspaceId,
+        snapshot.date,
+        snapshot.totalAssets,
+        snapshot.totalLiabilities,
+        snapshot.netWorth
+      );
+      if (result.changes > 0) {
+        stats.netWorthSnapshotsImported++;
+      } else {
+        stats.netWorthSnapshotsSkipped++;
+      }
+    }
+
+    // Import loans (matched by name) and Euribor values (a value already set for a tenor and date is kept)
+    const existingLoans = db
+      .prepare('SELECT name FROM loans WHERE workspace_id = ?')
+      .all(workspaceId) as Array<{ name: string }>;
+
+    const loanNames = new Set(existingLoans.map((l) => l.name));
+
+    for (const loan of backup.loans ?? []) {
+      if (loanNames.has(loan.name)) {
+        stats.loansSkipped++;
+        continue;
+      }
+      const accountId = loan.accountName ? (accountMap.get(loan.accountName) ?? null) : null;
+      db.prepare('INSERT INTO loans (workspace_id, name, principal, currency, rate_type, fixed_rate, euribor_tenor, spread, term_months, start_date, account_id, description_pattern) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+        .run(
+          workspaceId,
+          loan.name,
+          loan.principal,
+          loan.currency,
+          loan.rateType,
+          loan.fixedRate,
+          loan.euriborTenor,
+          loan.spread,
+          loan.termMonths,
+          loan.startDate,
+          accountId,
+          loan.descriptionPattern
+        );
+      loanNames.add(loan.name);
+      stats.loansImported++;
+    }
+
+    const insertEuribor = db.prepare(
+      'INSERT OR IGNORE INTO euribor_rates (workspace_id, tenor, date, rate) VALUES (?, ?, ?, ?)'
+    );
+    for (const rate of backup.euriborRates ?? []) {
+      if (insertEuribor.run(workspaceId, rate.tenor, rate.date, rate.rate).changes > 0) {
+        stats.euriborRatesImported++;
+      } else {
+        stats.euriborRatesSkipped++;
+      }
+    }
+
+    // Import ledgers, keeping the ID of each imported transaction by its position for transfers and loan payments
+    const importedTransactionIds: number[][] = [];
+    for (const [ledgerIndex, ledger] of backup.ledgers.entries()) {
+      const transactionIds: number[] = [];
+      importedTransactionIds[ledgerIndex] = transactionIds;
+
       // Skip if file_hash exists in this workspace
       if (ledger.fileHash) {
         const existing = db
@@ -297,29 +1029,39 @@ export function importWorkspaceData(workspaceId: number, backup: WorkspaceBackup
         }
       }
 
+      const accountId = ledger.accountName ? (accountMap.get(ledger.accountName) ?? null) : null;
       const ledgerResult = db
-        .prepare('INSERT INTO ledgers (filename, upload_date, period_start, period_end, bank_id, file_hash, workspace_id) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .prepare('INSERT INTO ledgers (filename, upload_date, period_start, period_end, bank_id, file_hash, workspace_id, account_id, currency) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)')
         .run(
           ledger.filename,
           ledger.uploadDate,
           ledger.periodStart,
           ledger.periodEnd,
-          ledger.bankId,
+          remapBankId(ledger.bankId),
           ledger.fileHash,
-          workspaceId
+          workspaceId,
+          accountId,
+          ledger.currency ?? null
         );
       const ledgerId = Number(ledgerResult.lastInsertRowid);
       stats.ledgersImported++;
 
       // Import transactions for this ledger
       const insertTx = db.prepare(`
-        INSERT INTO transactions (ledger_id, date, description, amount, balance, category_id, is_income, is_manual, raw_text)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO transactions (ledger_id, date, description, amount, balance, category_id, is_income, is_manual, raw_text, external_id, transaction_type, merchant_id, value_date)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
+      const insertTxTag = db.prepare(
+        'INSERT OR IGNORE INTO transaction_tags (transaction_id, tag_id) VALUES (?, ?)'
+      );
+      const insertSplit = db.prepare(
+        'INSERT INTO transaction_splits (transaction_id, category_id, amount, note) VALUES (?, ?, ?, ?)'
+      );
 
       for (const tx of ledger.transactions) {
         const categoryId = tx.categoryName ? (categoryMap.get(tx.categoryName) ?? null) : null;
-        insertTx.run(
+        const merchantId = tx.merchantName ? (merchantMap.get(tx.merchantName) ?? null) : null;
+        const txResult = insertTx.run(
           ledgerId,
           tx.date,
           tx.description,
@@ -328,9 +1070,81 @@ export function importWorkspaceData(workspaceId: number, backup: WorkspaceBackup
           categoryId,
           tx.isIncome ? 1 : 0,
           tx.isManual ? 1 : 0,
-          tx.rawText
+          tx.rawText,
+          tx.externalId ?? null,
+          tx.transactionType ?? null,
+          merchantId,
+          tx.valueDate ?? null
         );
+        transactionIds.push(Number(txResult.lastInsertRowid));
         stats.transactionsImported++;
+
+        // Tags missing from the backup's tag list are created on first use
+        for (const name of tx.tags ?? []) {
+          let tagId = tagMap.get(name.toLowerCase());
+          if (tagId === undefined) {
+            const result = db
+              .prepare('INSERT INTO tags (workspace_id, name) VALUES (?, ?)')
+              .run(workspaceId, name);
+            tagId = Number(result.lastInsertRowid);
+            tagMap.set(name.toLowerCase(), tagId);
+            stats.tagsImported++;
+          }
+          insertTxTag.run(Number(txResult.lastInsertRowid), tagId);
+        }
+
+        for (const split of tx.splits ?? []) {
+          const splitCategoryId = split.categoryName
+            ? (categoryMap.get(split.categoryName) ?? null)
+            : null;
+          insertSplit.run(
+            Number(txResult.lastInsertRowid),
+            splitCategoryId,
+            split.amount,
+            split.note ?? null
+          );
+        }
+      }
+    }
+
+    // Import transfers whose transactions were both imported; a transaction keeps at most one
+    // suggested or confirmed transfer
+    const insertTransfer = db.prepare(
+      'INSERT OR IGNORE INTO transfers (workspace_id, outgoing_transaction_id, incoming_transaction_id, status) VALUES (?, ?, ?, ?)'
+    );
+    for (const transfer of backup.transfers ?? []) {
+      const outgoingId = importedTransactionIds[transfer.outgoing.ledger]?.[transfer.outgoing.transaction];
+      const incomingId = importedTransactionIds[transfer.incoming.ledger]?.[transfer.incoming.transaction];
+      if (
+        outgoingId !== undefined &&
+        incomingId !== undefined &&
+        insertTransfer.run(workspaceId, outgoingId, incomingId, transfer.status).changes > 0
+      ) {
+        stats.transfersImported++;
+      } else {
+        stats.transfersSkipped++;
+      }
+    }
+
+    // Import loan payments of imported transactions, by loan name
+    const loanIds = new Map(
+      (db.prepare('SELECT id, name FROM loans WHERE workspace_id = ?').all(workspaceId) as Array<{ id: number; name: string }>)
+        .map((l) => [l.name, l.id])
+    );
+    const insertLoanPayment = db.prepare(
+      'INSERT OR IGNORE INTO loan_payments (loan_id, transaction_id, installment_number, status) VALUES (?, ?, ?, ?)'
+    );
+    for (const payment of backup.loanPayments ?? []) {
+      const loanId = loanIds.get(payment.loanName);
+      const transactionId = importedTransactionIds[payment.transaction.ledger]?.[payment.transaction.transaction];
+      if (
+        loanId !== undefined &&
+        transactionId !== undefined &&
+        insertLoanPayment.run(loanId, transactionId, payment.installmentNumber, payment.status).changes > 0
+      ) {
+        stats.loanPaymentsImported++;
+      } else {
+        stats.loanPaymentsSkipped++;
       }
     }
 
@@ -353,6 +1167,8 @@ export function importWorkspaceData(workspaceId: number, backup: WorkspaceBackup
   });
 
   importTransaction();
+  detectTransfers(workspaceId);
+  linkAllLoanPayments(workspaceId);
 
   return stats;
 }
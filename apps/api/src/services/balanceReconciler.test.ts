@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import type { ParsedTransaction, ParseResult } from '@compasso/shared';
+import { reconcileBalances } from './balanceReconciler.js';
+
+function tx(amount: number, balance: number | null): ParsedTransaction {
+  return {
+    date: '2025-01-02',
+    valueDate: '2025-01-02',
+    description: 'TX',
+    amount: Math.abs(amount),
+    balance,
+    isIncome: amount > 0,
+    rawText: '',
+    suggestedCategoryId: null,
+    suggestedCategoryName: null,
+  };
+}
+
+function result(
+  transactions: ParsedTransaction[],
+  openingBalance: number | null = null,
+  closingBalance: number | null = null
+): ParseResult {
+  return {
+    transactions,
+    periodStart: null,
+    periodEnd: null,
+    fileHash: 'hash',
+    openingBalance,
+    closingBalance,
+  };
+}
+
+describe('reconcileBalances', () => {
+  it('should reconcile a statement whose balances follow the amounts', () => {
+    const { transactions, reconciliation } = reconcileBalances(
+      result([tx(-25.3, 974.7), tx(100, 1074.7)], 1000, 1074.7)
+    );
+
+    expect(transactions.every((t) => t.expectedBalance === undefined)).toBe(true);
+    expect(reconciliation).toEqual({
+      status: 'reconciled',
+      openingBalance: 1000,
+      closingBalance: 1074.7,
+      computedClosingBalance: 1074.7,
+      checkedRows: 2,
+      mismatchedRows: 0,
+    });
+  });
+
+  it('should flag a row with a wrong sign and continue from its printed balance', () => {
+    const { transactions, reconciliation } = reconcileBalances(
+      result([tx(25.3, 974.7), tx(100, 1074.7), tx(-4.7, 1070)], 1000)
+    );
+
+    expect(transactions.map((t) => t.expectedBalance)).toEqual([1025.3, undefined, undefined]);
+    expect(reconciliation.status).toBe('mismatch');
+    expect(reconciliation.mismatchedRows).toBe(1);
+  });
+
+  it('should start from the first balance without an opening balance', () => {
+    const { reconciliation } = reconcileBalances(result([tx(-10, 90), tx(-5, 85)]));
+
+    expect(reconciliation.checkedRows).toBe(1);
+    expect(reconciliation.status).toBe('reconciled');
+  });
+
+  it('should carry the balance across rows without one', () => {
+    const { transactions, reconciliation } = reconcileBalances(
+      result([tx(-10, null), tx(-5, 85), tx(-5, null)], 100, 80)
+    );
+
+    expect(transactions.every((t) => t.expectedBalance === undefined)).toBe(true);
+    expect(reconciliation.computedClosingBalance).toBe(80);
+    expect(reconciliation.status).toBe('reconciled');
+  });
+
+  it('should report a closing balance that differs from the last row', () => {
+    const { reconciliation } = reconcileBalances(result([tx(-10, 90)], 100, 95));
+
+    expect(reconciliation.status).toBe('mismatch');
+    expect(reconciliation.mismatchedRows).toBe(0);
+    expect(reconciliation.computedClosingBalance).toBe(90);
+  });
+
+  it('should check statements listed newest first bottom-up', () => {
+    const { transactions, reconciliation } = reconcileBalances(
+      result([tx(-5, 85), tx(-10, 90), tx(20, 100)])
+    );
+
+    expect(transactions.every((t) => t.expectedBalance === undefined)).toBe(true);
+    expect(reconciliation.status).toBe('reconciled');
+    expect(reconciliation.computedClosingBalance).toBe(85);
+  });
+
+  it('should leave statements without balances unchecked', () => {
+    const { reconciliation } = reconcileBalances(result([tx(-10, null), tx(5, null)]));
+
+    expect(reconciliation.status).toBe('unchecked');
+    expect(reconciliation.checkedRows).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+import type { BalanceReconciliation, ParsedTransaction, ParseResult } from '@compasso/shared';
+
+/**
+ * Running-balance continuity check for parsed statements.
+ *
+ * Algorithm: walk the rows in chronological order, starting from the opening
+ * balance (or the first printed balance) → each row moves the running balance
+ * by its signed amount → a row whose printed balance differs from that is
+ * flagged with the balance it should have had (usually a misread amount or a
+ * wrong income/expense sign) and the walk continues from the printed balance
+ * → rows without a balance carry the running balance forward → the balance
+ * after the last row is compared with the statement's closing balance.
+ *
+ * Statements listed newest first are walked bottom-up: both orders are
+ * tried and the one with fewer mismatches wins.
+ */
+
+interface BalanceWalk {
+  expected: Map<number, number>; // Row index → balance it should have had
+  checkedRows: number;
+  finalBalance: number | null;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) >= 0.005;
+}
+
+function walkBalances(
+  transactions: ParsedTransaction[],
+  order: number[],
+  openingBalance: number | null
+): BalanceWalk {
+  const expected = new Map<number, number>();
+  let checkedRows = 0;
+  let running = openingBalance;
+
+  for (const index of order) {
+    const tx = transactions[index];
+    const signedAmount = tx.isIncome ? tx.amount : -tx.amount;
+
+    if (running === null) {
+      running = tx.balance;
+      continue;
+    }
+
+    const next = roundCents(running + signedAmount);
+    if (tx.balance === null) {
+      running = next;
+      continue;
+    }
+
+    checkedRows++;
+    if (differs(next, tx.balance)) expected.set(index, next);
+    running = tx.balance;
+  }
+
+  return { expected, checkedRows, finalBalance: running };
+}
+
+/**
+ * Check a parse result's running balances. Returns the transactions, with
+ * `expectedBalance` set on the rows that break the chain, and a summary.
+ */
+export function reconcileBalances(parseResult: ParseResult): {
+  transactions: ParsedTransaction[];
+  reconciliation: BalanceReconciliation;
+} {
+  const { transactions } = parseResult;
+  const openingBalance = parseResult.openingBalance ?? null;
+  const closingBalance = parseResult.closingBalance ?? null;
+
+  const forward = transactions.map((_, index) => index);
+  let walk = walkBalances(transactions, forward, openingBalance);
+  if (walk.expected.size > 0) {
+    const backward = walkBalances(transactions, [...forward].reverse(), openingBalance);
+    if (backward.expected.size < walk.expected.size) walk = backward;
+  }
+
+  const closingMismatch =
+    closingBalance !== null &&
+    walk.finalBalance !== null &&
+    differs(closingBalance, walk.finalBalance);
+  const closingChecked = closingBalance !== null && walk.finalBalance !== null;
+
+  let status: BalanceReconciliation['status'] = 'reconciled';
+  if (walk.expected.size > 0 || closingMismatch) {
+    status = 'mismatch';
+  } else if (walk.checkedRows === 0 && !closingChecked) {
+    status = 'unchecked';
+  }
+
+  return {
+    transactions: transactions.map((tx, index) =>
+      walk.expected.has(index) ? { ...tx, expectedBalance: walk.expected.get(index) } : tx
+    ),
+    reconciliation: {
+      status,
+      openingBalance,
+      closingBalance,
+      computedClosingBalance: walk.finalBalance,
+      checkedRows: walk.checkedRows,
+      mismatchedRows: walk.expected.size,
+    },
+  };
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../parsers/registry.js', () => ({
+  BANK_CONFIGS: {
+    novo_banco: { id: 'novo_banco', name: 'Novo Banco', format: 'pdf' },
+    caixa_geral: { id: 'caixa_geral', name: 'Caixa Geral de Depósitos', format: 'pdf' },
+    ofx: { id: 'ofx', name: 'OFX/QFX', format: 'ofx' },
+  },
+  BANK_FINGERPRINTS: {
+    novo_banco: { patterns: [/Extrato Integrado/i, /Novo Banco, S\.A\./i] },
+    caixa_geral: {
+      patterns: [/Caixa Geral de Dep[oó]sitos/i, /^-\s+-\s+\d{4}-\d{2}-\d{2}\s/m],
+      ibanPrefixes: ['PT500035'],
+    },
+    ofx: { patterns: [/OFXHEADER|<OFX>/i] },
+  },
+}));
+vi.mock('../parsers/pdfText.js', () => ({ extractTextLines: vi.fn() }));
+vi.mock('./statementTemplateService.js', () => ({ listStatementTemplates: vi.fn(() => []) }));
+
+import { extractTextLines } from '../parsers/pdfText.js';
+import { listStatementTemplates } from './statementTemplateService.js';
+import { AppError } from '../errors.js';
+import { resolveStatementBank } from './bankDetector.js';
+
+const pdf = Buffer.from('%PDF-1.4 fake');
+
+function pdfText(...lines: string[]) {
+  vi.mocked(extractTextLines).mockResolvedValue(lines);
+}
+
+beforeEach(() => {
+  vi.mocked(listStatementTemplates).mockReturnValue([]);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('resolveStatementBank', () => {
+  it('detects the bank when none is requested', async () => {
+    pdfText('Novo Banco, S.A.', 'Extrato Integrado de 01.01.2025 a 31.01.2025');
+
+    await expect(resolveStatementBank(pdf, undefined, 1)).resolves.toEqual({
+      bankId: 'novo_banco',
+      detection: { bankId: 'novo_banco', confidence: 1 },
+      iban: null,
+    });
+    expect(extractTextLines).toHaveBeenCalledWith(pdf, { maxPages: 2, password: undefined });
+  });
+
+  it('only scores banks of the sniffed format', async () => {
+    const ofx = Buffer.from('OFXHEADER:100\nDATA:OFXSGML\n<OFX>');
+
+    await expect(resolveStatementBank(ofx, undefined, 1)).resolves.toEqual({
+      bankId: 'ofx',
+      detection: { bankId: 'ofx', confidence: 1 },
+      iban: null,
+    });
+    expect(extractTextLines).not.toHaveBeenCalled();
+  });
+
+  it('detects workspace templates that declare a fingerprint', async () => {
+    vi.mocked(listStatementTemplates).mockReturnValue([
+      {
+        bankId: 'template:4',
+        name: 'Millennium',
+        definition: { fingerprint: { patterns: ['Millennium bcp'] } },
+      },
+      { bankId: 'template:5', name: 'No fingerprint', definition: {} },
+    ] as any);
+    pdfText('Banco Comercial Português', 'Millennium bcp');
+
+    const result = await resolveStatementBank(pdf, undefined, 1);
+
+    expect(listStatementTemplates).toHaveBeenCalledWith(1);
+    expect(result.bankId).toBe('template:4');
+  });
+
+  it('throws when no bank can be detected', async () => {
+    pdfText('Some other bank');
+
+    await expect(resolveStatementBank(pdf, undefined, 1)).rejects.toThrow(
+      'Could not detect the bank of this statement'
+    );
+  });
+
+  it('does not pick a bank when two match equally well', async () => {
+    pdfText(
+      'Novo Banco, S.A. - Extrato Integrado',
+      'Caixa Geral de Depósitos - PT50 0035 0000 0012 3456 7890 1',
+      '- - 2025-01-02 COMPRA'
+    );
+
+    await expect(resolveStatementBank(pdf, undefined, 1)).rejects.toThrow(AppError);
+  });
+
+  it('treats unreadable PDFs as undetected', async () => {
+    vi.mocked(extractTextLines).mockRejectedValue(new Error('Invalid PDF structure'));
+
+    await expect(resolveStatementBank(pdf, 'novo_banco', 1)).resolves.toEqual({
+      bankId: 'novo_banco',
+      detection: null,
+      iban: null,
+    });
+  });
+
+  it('asks for the password of an encrypted PDF instead of guessing', async () => {
+    vi.mocked(extractTextLines).mockRejectedValue(
+      AppError.badRequest('This PDF is password-protected.', 'PDF_PASSWORD_REQUIRED')
+    );
+
+    await expect(resolveStatementBank(pdf, undefined, 1)).rejects.toMatchObject({
+      code: 'PDF_PASSWORD_REQUIRED',
+    });
+  });
+
+  it('reads encrypted PDFs with the given password', async () => {
+    pdfText('Novo Banco, S.A.', 'Extrato Integrado');
+
+    await resolveStatementBank(pdf, undefined, 1, { password: 's3cret' });
+
+    expect(extractTextLines).toHaveBeenCalledWith(pdf, { maxPages: 2, password: 's3cret' });
+  });
+
+  it('keeps the requested bank and reports the detection', async () => {
+    pdfText('Extrato Integrado');
+
+    await expect(resolveStatementBank(pdf, 'novo_banco', 1)).resolves.toEqual({
+      bankId: 'novo_banco',
+      detection: { bankId: 'novo_banco', confidence: 0.5 },
+      iban: null,
+    });
+  });
+
+  it('rejects a requested bank that another bank clearly contradicts', async () => {
+    pdfText('Caixa Geral de Depósitos', 'IBAN PT50 0035 0000 0012 3456 7890 1');
+
+    await expect(resolveStatementBank(pdf, 'novo_banco', 1)).rejects.toThrow(
+      'This looks like a Caixa Geral de Depósitos statement (67% match), not Novo Banco.'
+    );
+  });
+
+  it('keeps the requested bank on a weak contradicting match', async () => {
+    pdfText('IBAN PT50 0035 0000 0012 3456 7890 1');
+
+    const result = await resolveStatementBank(pdf, 'novo_banco', 1);
+
+    expect(result).toEqual({
+      bankId: 'novo_banco',
+      detection: { bankId: 'caixa_geral', confidence: 0.33 },
+      iban: 'PT50003500000012345678901',
+    });
+  });
+
+  it('returns the account IBAN with the bank prefix before other IBANs', async () => {
+    pdfText(
+      'Caixa Geral de Depósitos',
+      'Transferência para PT50 0007 0000 0098 7654 3210 9',
+      'IBAN PT50 0035 0000 0012 3456 7890 1'
+    );
+
+    const result = await resolveStatementBank(pdf, 'caixa_geral', 1);
+
+    expect(result.iban).toBe('PT50003500000012345678901');
+  });
+
+  it('never contradicts banks without a fingerprint', async () => {
+    pdfText('Caixa Geral de Depósitos');
+
+    const result = await resolveStatementBank(pdf, 'template:5', 1);
+
+    expect(result.bankId).toBe('template:5');
+  });
+});
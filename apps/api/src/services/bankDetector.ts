@@ -0,0 +1,166 @@
+import { ErrorCode, type BankDetection, type StatementFormat } from '@compasso/shared';
+import { AppError } from '../errors.js';
+import { BANK_CONFIGS, BANK_FINGERPRINTS } from '../parsers/registry.js';
+import { findIbans, getTemplateFingerprint, scoreFingerprint } from '../parsers/fingerprint.js';
+import { decodeText } from '../parsers/formats.js';
+import type { BankFingerprint, ParseOptions } from '../parsers/types.js';
+import { detectStatementFormat } from '../utils/fileValidation.js';
+import { listStatementTemplates } from './statementTemplateService.js';
+
+// Bank names, legal notices and the account IBAN are printed on the first pages
+const DETECTION_PAGES = 2;
+const TEXT_DETECTION_LENGTH = 16384;
+
+// Weaker matches are reported but never overrule the user's bank selection
+const CONTRADICTION_CONFIDENCE = 0.5;
+
+interface DetectionCandidate {
+  bankId: string;
+  name: string;
+  fingerprint: BankFingerprint;
+}
+
+interface ScoredCandidate extends BankDetection {
+  name: string;
+  ibanPrefixes: string[];
+}
+
+function hasSignals(fingerprint: BankFingerprint): boolean {
+  return fingerprint.patterns.length > 0 || (fingerprint.ibanPrefixes?.length ?? 0) > 0;
+}
+
+/**
+ * Banks whose statements come in the given format and that declare a
+ * fingerprint: built-in banks and, for PDFs, the workspace's statement templates.
+ */
+function getCandidates(format: StatementFormat, workspaceId: number): DetectionCandidate[] {
+  const candidates: DetectionCandidate[] = Object.values(BANK_CONFIGS)
+    .filter((config) => config.format === format)
+    .map((config) => ({
+      bankId: config.id,
+      name: config.name,
+      fingerprint: BANK_FINGERPRINTS[config.id] ?? { patterns: [] },
+    }));
+
+  if (format === 'pdf') {
+    for (const template of listStatementTemplates(workspaceId)) {
+      candidates.push({
+        bankId: template.bankId,
+        name: template.name,
+        fingerprint: getTemplateFingerprint(template.definition),
+      });
+    }
+  }
+
+  return candidates.filter((candidate) => hasSignals(candidate.fingerprint));
+}
+
+async function readStatementText(
+  buffer: Buffer,
+  format: StatementFormat,
+  password: string | undefined
+): Promise<string> {
+  if (format !== 'pdf') {
+    return decodeText(buffer.subarray(0, TEXT_DETECTION_LENGTH));
+  }
+
+  // Loaded on demand so pdfjs-dist stays out of startup
+  const { extractTextLines } = await import('../parsers/pdfText.js');
+  try {
+    return (await extractTextLines(buffer, { maxPages: DETECTION_PAGES, password })).join('\n');
+  } catch (err) {
+    // An encrypted PDF can't be detected either, so ask for its password right away
+    if (err instanceof AppError) throw err;
+    // Other unreadable PDFs are reported by the parser itself
+    return '';
+  }
+}
+
+async function scoreCandidates(
+  buffer: Buffer,
+  workspaceId: number,
+  password: string | undefined
+): Promise<{ scores: ScoredCandidate[]; text: string }> {
+  const format = detectStatementFormat(buffer);
+  if (!format) return { scores: [], text: '' };
+
+  const candidates = getCandidates(format, workspaceId);
+  if (candidates.length === 0) return { scores: [], text: '' };
+
+  const text = await readStatementText(buffer, format, password);
+  const scores = candidates
+    .map((candidate) => ({
+      bankId: candidate.bankId,
+      name: candidate.name,
+      ibanPrefixes: candidate.fingerprint.ibanPrefixes ?? [],
+      confidence: scoreFingerprint(candidate.fingerprint, text),
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return { scores, text };
+}
+
+// The account IBAN is printed before any counterparty's, so prefer the first
+// IBAN with one of the bank's prefixes and fall back to the first IBAN
+function findAccountIban(text: string, ibanPrefixes: string[]): string | null {
+  const ibans = findIbans(text);
+  return (
+    ibans.find((iban) => ibanPrefixes.some((prefix) => iban.startsWith(prefix))) ??
+    ibans[0] ??
+    null
+  );
+}
+
+// The best match, unless nothing matched or two banks match equally well
+function pickDetection(scores: ScoredCandidate[]): ScoredCandidate | null {
+  const [best, runnerUp] = scores;
+  if (!best || best.confidence === 0) return null;
+  if (runnerUp && runnerUp.confidence === best.confidence) return null;
+  return best;
+}
+
+/**
+ * Resolve the bank a statement is parsed with. Without an explicit bank, the
+ * statement's fingerprint decides. An explicit bank is rejected when the file
+ * matches another bank's fingerprint but none of its own signals. Encrypted
+ * PDFs are read with `options.password`. The IBAN printed on the statement is
+ * returned too, for matching the upload to an account.
+ */
+export async function resolveStatementBank(
+  buffer: Buffer,
+  requestedBankId: string | undefined,
+  workspaceId: number,
+  options: ParseOptions = {}
+): Promise<{ bankId: string; detection: BankDetection | null; iban: string | null }> {
+  const { scores, text } = await scoreCandidates(buffer, workspaceId, options.password);
+  const best = pickDetection(scores);
+  const detection = best ? { bankId: best.bankId, confidence: best.confidence } : null;
+  const ibanFor = (bankId: string) =>
+    findAccountIban(text, scores.find((score) => score.bankId === bankId)?.ibanPrefixes ?? []);
+
+  if (!requestedBankId) {
+    if (!detection) {
+      throw AppError.badRequest(
+        'Could not detect the bank of this statement. Select the bank and upload again.',
+        ErrorCode.PARSE_ERROR
+      );
+    }
+    return { bankId: detection.bankId, detection, iban: ibanFor(detection.bankId) };
+  }
+
+  const requested = scores.find((score) => score.bankId === requestedBankId);
+  if (
+    best &&
+    requested &&
+    requested.confidence === 0 &&
+    best.bankId !== requestedBankId &&
+    best.confidence >= CONTRADICTION_CONFIDENCE
+  ) {
+    throw AppError.badRequest(
+      `This looks like a ${best.name} statement (${Math.round(best.confidence * 100)}% match), not ${requested.name}. Select the matching bank and upload again.`,
+      ErrorCode.PARSE_ERROR
+    );
+  }
+
+  return { bankId: requestedBankId, detection, iban: ibanFor(requestedBankId) };
+}
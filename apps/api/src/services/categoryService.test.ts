@@ -20,7 +20,7 @@ import {
   deletePattern,
 } from './categoryService.js';
 
-const mockDb = { prepare: vi.fn() };
+const mockDb = { prepare: vi.fn(), transaction: vi.fn((fn: () => void) => fn) };
 
 beforeEach(() => {
   vi.mocked(getDatabase).mockReturnValue(mockDb as any);
@@ -36,8 +36,8 @@ afterEach(() => {
 describe('listCategories', () => {
   it('returns paginated categories with mapped fields', () => {
     const dbRows = [
-      { id: 1, name: 'Food', color: '#ff0000', icon: 'utensils', is_default: 0, workspace_id: 1, created_at: '2024-01-01' },
-      { id: 2, name: 'Transport', color: '#00ff00', icon: 'car', is_default: 0, workspace_id: 1, created_at: '2024-01-02' },
+      { id: 1, name: 'Food', color: '#ff0000', icon: 'utensils', is_default: 0, workspace_id: 1, parent_id: null, created_at: '2024-01-01' },
+      { id: 2, name: 'Transport', color: '#00ff00', icon: 'car', is_default: 0, workspace_id: 1, parent_id: null, created_at: '2024-01-02' },
     ];
 
     const mockGet = vi.fn().mockReturnValue({ count: 5 });
@@ -70,6 +70,29 @@ describe('listCategories', () => {
     expect(mockGet).toHaveBeenCalledWith(1);
     expect(mockAll).toHaveBeenCalledWith(1, 10, 0);
   });
+
+  it('lists subcategories after their parent', () => {
+    const dbRows = [
+      { id: 1, name: 'Dining', color: '#ff0000', icon: null, is_default: 0, workspace_id: 1, parent_id: null, created_at: '2024-01-01' },
+      { id: 3, name: 'Coffee', color: '#ff0000', icon: null, is_default: 0, workspace_id: 1, parent_id: 1, created_at: '2024-01-02' },
+    ];
+    let listSql = '';
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('COUNT')) return { get: vi.fn().mockReturnValue({ count: 2 }) };
+      listSql = sql;
+      return { all: vi.fn().mockReturnValue(dbRows) };
+    });
+
+    const result = listCategories(1, 50, 0);
+
+    expect(listSql).toContain('WITH RECURSIVE tree');
+    expect(listSql).toContain('ORDER BY tree.path');
+    expect(result.items.map((c) => [c.id, c.parentId])).toEqual([
+      [1, null],
+      [3, 1],
+    ]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -77,7 +100,7 @@ describe('listCategories', () => {
 // ---------------------------------------------------------------------------
 describe('getCategoryWithPatterns', () => {
   it('returns category with mapped patterns', () => {
-    const categoryRow = { id: 1, name: 'Food', color: '#ff0000', icon: 'utensils', is_default: 0, workspace_id: 1, created_at: '2024-01-01' };
+    const categoryRow = { id: 1, name: 'Food', color: '#ff0000', icon: 'utensils', is_default: 0, workspace_id: 1, parent_id: 4, created_at: '2024-01-01' };
     const patternRows = [
       { id: 10, category_id: 1, bank_id: 'novo_banco', pattern: 'GROCERIES', priority: 0, created_at: '2024-01-01' },
     ];
@@ -86,7 +109,7 @@ describe('getCategoryWithPatterns', () => {
     const mockAll = vi.fn().mockReturnValue(patternRows);
 
     mockDb.prepare.mockImplementation((sql: string) => {
-      if (sql.includes('SELECT id, name, color, icon, is_default, workspace_id, created_at FROM categories WHERE id = ? AND workspace_id = ?')) {
+      if (sql.includes('SELECT id, name, color, icon, is_default, workspace_id, parent_id, created_at FROM categories WHERE id = ? AND workspace_id = ?')) {
         return { get: mockGet };
       }
       return { all: mockAll };
@@ -98,6 +121,7 @@ describe('getCategoryWithPatterns', () => {
       id: 1,
       name: 'Food',
       isDefault: false,
+      parentId: 4,
       patterns: [
         {
           id: 10,
@@ -121,7 +145,7 @@ describe('getCategoryWithPatterns', () => {
     const mockAll = vi.fn().mockReturnValue(patternRows);
 
     mockDb.prepare.mockImplementation((sql: string) => {
-      if (sql.includes('SELECT id, name, color, icon, is_default, workspace_id, created_at FROM categories WHERE id = ? AND workspace_id = ?')) {
+      if (sql.includes('SELECT id, name, color, icon, is_default, workspace_id, parent_id, created_at FROM categories WHERE id = ? AND workspace_id = ?')) {
         return { get: mockGet };
       }
       return { all: mockAll };
@@ -206,6 +230,42 @@ describe('createCategory', () => {
       'Category name already exists in this workspace',
     );
   });
+
+  it('creates a subcategory under a parent', () => {
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 3 });
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('INSERT')) return { run: mockRun };
+      if (sql.includes('ancestors')) return { all: vi.fn().mockReturnValue([{ id: 1 }]) };
+      if (sql.includes('WHERE id = ? AND workspace_id = ?')) return { get: vi.fn().mockReturnValue({ id: 1 }) };
+      return { get: vi.fn().mockReturnValue(undefined) };
+    });
+
+    const result = createCategory({ name: 'Coffee', parentId: 1, workspaceId: 1 });
+
+    expect(result.parentId).toBe(1);
+    expect(mockRun).toHaveBeenCalledWith('Coffee', null, null, 1, 1);
+  });
+
+  it('throws when the parent is in another workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => createCategory({ name: 'Coffee', parentId: 9, workspaceId: 1 })).toThrow(
+      'Parent category not found',
+    );
+  });
+
+  it('throws when the parent is already at the deepest level', () => {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('ancestors')) return { all: vi.fn().mockReturnValue([{ id: 3 }, { id: 2 }, { id: 1 }]) };
+      if (sql.includes('WHERE id = ? AND workspace_id = ?')) return { get: vi.fn().mockReturnValue({ id: 3 }) };
+      return { get: vi.fn().mockReturnValue(undefined) };
+    });
+
+    expect(() => createCategory({ name: 'Espresso', parentId: 3, workspaceId: 1 })).toThrow(
+      'Categories can be nested at most 3 levels deep',
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -257,6 +317,54 @@ describe('updateCategory', () => {
 
     expect(() => updateCategory(1, 1, { color: '#ff0000' })).not.toThrow();
   });
+
+  it('moves a category under a new parent', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE')) return { run: mockRun };
+      if (sql.includes('ancestors')) return { all: vi.fn().mockReturnValue([{ id: 1 }]) };
+      if (sql.includes('subtree')) return { get: vi.fn().mockReturnValue({ height: 2 }) };
+      return { get: vi.fn().mockReturnValue({ id: 1 }) };
+    });
+
+    updateCategory(2, 1, { parentId: 1 });
+
+    expect(mockRun).toHaveBeenCalledWith(1, 2, 1);
+  });
+
+  it('moves a category to the top level without checking a parent', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+
+    mockDb.prepare.mockReturnValue({ run: mockRun });
+
+    updateCategory(2, 1, { parentId: null });
+
+    expect(mockRun).toHaveBeenCalledWith(null, 2, 1);
+  });
+
+  it('throws when moving a category under one of its subcategories', () => {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('ancestors')) return { all: vi.fn().mockReturnValue([{ id: 5 }, { id: 2 }]) };
+      return { get: vi.fn().mockReturnValue({ id: 5 }) };
+    });
+
+    expect(() => updateCategory(2, 1, { parentId: 5 })).toThrow(
+      'A category cannot be moved under itself or one of its subcategories',
+    );
+  });
+
+  it('throws when the move would nest its subcategories too deep', () => {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('ancestors')) return { all: vi.fn().mockReturnValue([{ id: 4 }, { id: 1 }]) };
+      if (sql.includes('subtree')) return { get: vi.fn().mockReturnValue({ height: 2 }) };
+      return { get: vi.fn().mockReturnValue({ id: 4 }) };
+    });
+
+    expect(() => updateCategory(2, 1, { parentId: 4 })).toThrow(
+      'Categories can be nested at most 3 levels deep',
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -294,6 +402,23 @@ describe('deleteCategory', () => {
 
     expect(() => deleteCategory(999, 1)).toThrow('Category not found');
   });
+
+  it('moves subcategories up to the deleted category parent', () => {
+    const mockUpdate = vi.fn().mockReturnValue({ changes: 2 });
+    const mockDelete = vi.fn().mockReturnValue({ changes: 1 });
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT')) return { get: vi.fn().mockReturnValue({ id: 3, parent_id: 1 }) };
+      if (sql.includes('UPDATE categories SET parent_id')) return { run: mockUpdate };
+      return { run: mockDelete };
+    });
+
+    deleteCategory(3, 1);
+
+    expect(mockUpdate).toHaveBeenCalledWith(1, 3);
+    expect(mockDelete).toHaveBeenCalledWith(3, 1);
+    expect(mockDb.transaction).toHaveBeenCalled();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -343,6 +468,27 @@ describe('createQuickPattern', () => {
   it('throws on invalid bank id', () => {
     expect(() => createQuickPattern(1, 1, 'invalid_bank', 'GROCERIES')).toThrow(AppError);
   });
+
+  it('accepts a CSV profile bank id from the same workspace', () => {
+    const category = { id: 1, name: 'Food', color: '#ff0000', icon: 'utensils', is_default: 0, workspace_id: 1, created_at: '2024-01-01' };
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM csv_profiles')) return { get: vi.fn().mockReturnValue({ id: 3 }) };
+      if (sql.includes('categories WHERE id = ?') && sql.includes('workspace_id = ?')) {
+        return { get: vi.fn().mockReturnValue(category) };
+      }
+      if (sql.includes('INSERT')) return { run: vi.fn().mockReturnValue({ lastInsertRowid: 43 }) };
+      return { get: vi.fn().mockReturnValue(undefined) };
+    });
+
+    expect(createQuickPattern(1, 1, 'csv:3', 'GROCERIES')).toBe(43);
+  });
+
+  it('throws on a CSV profile bank id from another workspace', () => {
+    mockDb.prepare.mockImplementation(() => ({ get: vi.fn().mockReturnValue(undefined) }));
+
+    expect(() => createQuickPattern(1, 1, 'csv:3', 'GROCERIES')).toThrow('Invalid bank ID');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -3,11 +3,14 @@ import { recategorizeByPattern } from './recategorizer.js';
 import { clearPatternCache } from './categoryMatcher.js';
 import { AppError } from '../errors.js';
 import {
+  CATEGORY_MAX_DEPTH,
   ErrorCode,
   type Category,
   type CategoryWithPatterns,
 } from '@compasso/shared';
 import { SUPPORTED_BANKS } from '../parsers/registry.js';
+import { csvProfileExists } from './csvProfileService.js';
+import { statementTemplateExists } from './statementTemplateService.js';
 
 interface CategoryRow {
   id: number;
@@ -16,6 +19,7 @@ interface CategoryRow {
   icon: string | null;
   is_default: number;
   workspace_id: number;
+  parent_id: number | null;
   created_at: string;
 }
 
@@ -38,7 +42,7 @@ interface CategoryListResult {
 function verifyCategoryOwnership(categoryId: number, workspaceId: number): CategoryRow {
   const db = getDatabase();
   const category = db
-    .prepare('SELECT id, name, color, icon, is_default, workspace_id, created_at FROM categories WHERE id = ? AND workspace_id = ?')
+    .prepare('SELECT id, name, color, icon, is_default, workspace_id, parent_id, created_at FROM categories WHERE id = ? AND workspace_id = ?')
     .get(categoryId, workspaceId) as CategoryRow | undefined;
 
   if (!category) {
@@ -48,6 +52,74 @@ function verifyCategoryOwnership(categoryId: number, workspaceId: number): Categ
   return category;
 }
 
+/**
+ * Ids of a category and its ancestors, from the category up to the top level.
+ */
+function getAncestorIds(categoryId: number): number[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `
+      WITH RECURSIVE ancestors(id, parent_id) AS (
+        SELECT id, parent_id FROM categories WHERE id = ?
+        UNION ALL
+        SELECT c.id, c.parent_id FROM categories c JOIN ancestors a ON c.id = a.parent_id
+      )
+      SELECT id FROM ancestors
+    `
+    )
+    .all(categoryId) as Array<{ id: number }>;
+
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Levels in a category's subtree, counting the category itself.
+ */
+function getSubtreeHeight(categoryId: number): number {
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      `
+      WITH RECURSIVE subtree(id, level) AS (
+        SELECT id, 1 FROM categories WHERE id = ?
+        UNION ALL
+        SELECT c.id, s.level + 1 FROM categories c JOIN subtree s ON c.parent_id = s.id
+      )
+      SELECT MAX(level) as height FROM subtree
+    `
+    )
+    .get(categoryId) as { height: number | null } | undefined;
+
+  return row?.height ?? 1;
+}
+
+/**
+ * Check that a category (null for a new one) can be placed under a parent:
+ * the parent belongs to the workspace, isn't the category or one of its
+ * subcategories, and the tree stays within CATEGORY_MAX_DEPTH levels.
+ */
+function assertValidParent(categoryId: number | null, parentId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const parent = db
+    .prepare('SELECT id FROM categories WHERE id = ? AND workspace_id = ?')
+    .get(parentId, workspaceId);
+
+  if (!parent) {
+    throw AppError.badRequest('Parent category not found');
+  }
+
+  const ancestorIds = getAncestorIds(parentId);
+  if (categoryId !== null && ancestorIds.includes(categoryId)) {
+    throw AppError.badRequest('A category cannot be moved under itself or one of its subcategories');
+  }
+
+  const height = categoryId !== null ? getSubtreeHeight(categoryId) : 1;
+  if (ancestorIds.length + height > CATEGORY_MAX_DEPTH) {
+    throw AppError.badRequest(`Categories can be nested at most ${CATEGORY_MAX_DEPTH} levels deep`);
+  }
+}
+
 function assertPatternNotDuplicate(
   workspaceId: number,
   bankId: string,
@@ -75,7 +147,9 @@ function assertPatternNotDuplicate(
 }
 
 /**
- * List categories for a workspace with pagination.
+ * List categories for a workspace with pagination, in tree order: each
+ * category is followed by its subcategories, siblings sorted by name with
+ * default categories first.
  */
 export function listCategories(workspaceId: number, limit: number, offset: number): CategoryListResult {
   const db = getDatabase();
@@ -84,13 +158,23 @@ export function listCategories(workspaceId: number, limit: number, offset: numbe
     .prepare('SELECT COUNT(*) as count FROM categories WHERE workspace_id = ?')
     .get(workspaceId) as { count: number };
 
+  // char(1) separates path segments so it sorts before any character of a name
   const categories = db
     .prepare(
       `
-      SELECT id, name, color, icon, is_default, workspace_id, created_at
-      FROM categories
-      WHERE workspace_id = ?
-      ORDER BY is_default DESC, name ASC
+      WITH RECURSIVE tree(id, path) AS (
+        SELECT id, (1 - COALESCE(is_default, 0)) || name
+        FROM categories
+        WHERE workspace_id = ? AND parent_id IS NULL
+        UNION ALL
+        SELECT c.id, tree.path || char(1) || (1 - COALESCE(c.is_default, 0)) || c.name
+        FROM categories c
+        JOIN tree ON c.parent_id = tree.id
+      )
+      SELECT c.id, c.name, c.color, c.icon, c.is_default, c.workspace_id, c.parent_id, c.created_at
+      FROM categories c
+      JOIN tree ON tree.id = c.id
+      ORDER BY tree.path
       LIMIT ? OFFSET ?
     `
     )
@@ -104,6 +188,7 @@ export function listCategories(workspaceId: number, limit: number, offset: numbe
     isDefault: c.is_default === 1,
     createdAt: c.created_at,
     workspaceId: c.workspace_id,
+    parentId: c.parent_id,
   }));
 
   return { items, total: countResult.count, limit, offset };
@@ -143,6 +228,7 @@ export function getCategoryWithPatterns(
     icon: category.icon,
     isDefault: category.is_default === 1,
     createdAt: category.created_at,
+    parentId: category.parent_id,
     patterns: patterns.map((p) => ({
       id: p.id,
       categoryId: p.category_id,
@@ -182,12 +268,13 @@ export function checkPatternExists(
 }
 
 /**
- * Create a new category in a workspace.
+ * Create a new category in a workspace, optionally as a subcategory.
  */
 export function createCategory(data: {
   name: string;
   color?: string;
   icon?: string;
+  parentId?: number | null;
   workspaceId: number;
 }): Category {
   if (!data.name) {
@@ -211,11 +298,15 @@ export function createCategory(data: {
     );
   }
 
+  if (data.parentId) {
+    assertValidParent(null, data.parentId, data.workspaceId);
+  }
+
   const result = db
     .prepare(
-      'INSERT INTO categories (name, color, icon, is_default, workspace_id) VALUES (?, ?, ?, 0, ?)'
+      'INSERT INTO categories (name, color, icon, is_default, workspace_id, parent_id) VALUES (?, ?, ?, 0, ?, ?)'
     )
-    .run(data.name, data.color || null, data.icon || null, data.workspaceId);
+    .run(data.name, data.color || null, data.icon || null, data.workspaceId, data.parentId || null);
 
   const categoryId = Number(result.lastInsertRowid);
 
@@ -227,16 +318,18 @@ export function createCategory(data: {
     isDefault: false,
     createdAt: new Date().toISOString(),
     workspaceId: data.workspaceId,
+    parentId: data.parentId || null,
   };
 }
 
 /**
- * Update a category's name, color, or icon.
+ * Update a category's name, color, icon, or parent (null to move it to the
+ * top level).
  */
 export function updateCategory(
   categoryId: number,
   workspaceId: number,
-  data: { name?: string; color?: string; icon?: string }
+  data: { name?: string; color?: string; icon?: string; parentId?: number | null }
 ): void {
   const updates: string[] = [];
   const params: unknown[] = [];
@@ -256,6 +349,11 @@ export function updateCategory(
     params.push(data.icon);
   }
 
+  if (data.parentId !== undefined) {
+    updates.push('parent_id = ?');
+    params.push(data.parentId);
+  }
+
   if (updates.length === 0) {
     throw AppError.badRequest('No fields to update');
   }
@@ -276,6 +374,10 @@ export function updateCategory(
     }
   }
 
+  if (data.parentId) {
+    assertValidParent(categoryId, data.parentId, workspaceId);
+  }
+
   params.push(categoryId);
   params.push(workspaceId);
 
@@ -289,20 +391,26 @@ export function updateCategory(
 }
 
 /**
- * Delete a category.
+ * Delete a category. Its subcategories move up to the deleted category's parent.
  */
 export function deleteCategory(categoryId: number, workspaceId: number): void {
   const db = getDatabase();
 
   const category = db
-    .prepare('SELECT id FROM categories WHERE id = ? AND workspace_id = ?')
-    .get(categoryId, workspaceId) as { id: number } | undefined;
+    .prepare('SELECT id, parent_id FROM categories WHERE id = ? AND workspace_id = ?')
+    .get(categoryId, workspaceId) as { id: number; parent_id: number | null } | undefined;
 
   if (!category) {
     throw AppError.notFound('Category not found');
   }
 
-  db.prepare('DELETE FROM categories WHERE id = ? AND workspace_id = ?').run(categoryId, workspaceId);
+  db.transaction(() => {
+    db.prepare('UPDATE categories SET parent_id = ? WHERE parent_id = ?').run(
+      category.parent_id,
+      categoryId
+    );
+    db.prepare('DELETE FROM categories WHERE id = ? AND workspace_id = ?').run(categoryId, workspaceId);
+  })();
 }
 
 /**
@@ -327,7 +435,11 @@ export function createQuickPattern(
   }
 
   const validBankIds = Object.values(SUPPORTED_BANKS);
-  if (!validBankIds.includes(bankId)) {
+  if (
+    !validBankIds.includes(bankId) &&
+    !csvProfileExists(bankId, workspaceId) &&
+    !statementTemplateExists(bankId, workspaceId)
+  ) {
     throw AppError.badRequest('Invalid bank ID');
   }
 
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import {
+  toCsvProfileBankId,
+  parseCsvProfileBankId,
+  listCsvProfiles,
+  getCsvProfile,
+  createCsvProfile,
+  updateCsvProfile,
+  deleteCsvProfile,
+  csvProfileExists,
+} from './csvProfileService.js';
+
+const mockDb: any = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
+
+const profileRow = {
+  id: 3,
+  workspace_id: 1,
+  name: 'Revolut',
+  delimiter: ',',
+  date_format: 'YYYY-MM-DD',
+  decimal_format: 'standard',
+  has_header: 1,
+  skip_rows: 0,
+  currency: 'EUR',
+  column_mapping: '{"date":0,"description":[4],"amount":5}',
+  created_at: '2025-01-01',
+};
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Bank ID helpers
+// ---------------------------------------------------------------------------
+describe('CSV profile bank IDs', () => {
+  it('round-trips profile IDs', () => {
+    expect(toCsvProfileBankId(12)).toBe('csv:12');
+    expect(parseCsvProfileBankId('csv:12')).toBe(12);
+  });
+
+  it('returns null for built-in banks and malformed IDs', () => {
+    expect(parseCsvProfileBankId('novo_banco')).toBeNull();
+    expect(parseCsvProfileBankId('csv:abc')).toBeNull();
+    expect(parseCsvProfileBankId('csv:0')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// listCsvProfiles / getCsvProfile
+// ---------------------------------------------------------------------------
+describe('listCsvProfiles', () => {
+  it('maps rows to profiles with a bank ID and parsed column mapping', () => {
+    mockDb.prepare.mockReturnValue({ all: vi.fn().mockReturnValue([profileRow]) });
+
+    const result = listCsvProfiles(1);
+
+    expect(result).toEqual([
+      {
+        id: 3,
+        workspaceId: 1,
+        bankId: 'csv:3',
+        name: 'Revolut',
+        delimiter: ',',
+        dateFormat: 'YYYY-MM-DD',
+        decimalFormat: 'standard',
+        hasHeader: true,
+        skipRows: 0,
+        currency: 'EUR',
+        columns: { date: 0, description: [4], amount: 5 },
+        createdAt: '2025-01-01',
+      },
+    ]);
+  });
+});
+
+describe('getCsvProfile', () => {
+  it('throws not found for a profile outside the workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => getCsvProfile(3, 2)).toThrow('CSV profile not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createCsvProfile
+// ---------------------------------------------------------------------------
+describe('createCsvProfile', () => {
+  const request = {
+    workspaceId: 1,
+    name: 'Revolut',
+    delimiter: ',' as const,
+    dateFormat: 'YYYY-MM-DD' as const,
+    decimalFormat: 'standard' as const,
+    columns: { date: 0, description: [4], amount: 5 },
+  };
+
+  it('inserts the profile with defaults and returns it', () => {
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 3 });
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('AND name = ?')) return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INSERT')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue(profileRow) };
+    });
+
+    const result = createCsvProfile(request);
+
+    expect(mockRun).toHaveBeenCalledWith(
+      1,
+      'Revolut',
+      ',',
+      'YYYY-MM-DD',
+      'standard',
+      1,
+      0,
+      'EUR',
+      JSON.stringify(request.columns)
+    );
+    expect(result.bankId).toBe('csv:3');
+  });
+
+  it('throws on duplicate name', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue({ id: 9 }) });
+
+    expect(() => createCsvProfile(request)).toThrow(AppError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// updateCsvProfile
+// ---------------------------------------------------------------------------
+describe('updateCsvProfile', () => {
+  it('updates only the provided fields', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    let updateSql = '';
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE')) {
+        updateSql = sql;
+        return { run: mockRun };
+      }
+      return { get: vi.fn().mockReturnValue(profileRow) };
+    });
+
+    updateCsvProfile(3, 1, { hasHeader: false, skipRows: 2 });
+
+    expect(updateSql).toContain('has_header = ?, skip_rows = ?');
+    expect(mockRun).toHaveBeenCalledWith(0, 2, 3, 1);
+  });
+
+  it('throws when no fields are provided', () => {
+    expect(() => updateCsvProfile(3, 1, {})).toThrow('No fields to update');
+  });
+
+  it('throws not found when no row is updated', () => {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE')) return { run: vi.fn().mockReturnValue({ changes: 0 }) };
+      return { get: vi.fn().mockReturnValue(undefined) };
+    });
+
+    expect(() => updateCsvProfile(3, 1, { currency: 'USD' })).toThrow('CSV profile not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// deleteCsvProfile
+// ---------------------------------------------------------------------------
+describe('deleteCsvProfile', () => {
+  it('deletes the profile and its category patterns', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    mockDb.prepare.mockReturnValue({ run: mockRun });
+
+    deleteCsvProfile(3, 1);
+
+    expect(mockRun).toHaveBeenCalledWith(3, 1);
+    expect(mockRun).toHaveBeenCalledWith('csv:3', 1);
+  });
+
+  it('throws not found for a missing profile', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => deleteCsvProfile(3, 1)).toThrow('CSV profile not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// csvProfileExists
+// ---------------------------------------------------------------------------
+describe('csvProfileExists', () => {
+  it('returns false for built-in banks without querying', () => {
+    expect(csvProfileExists('novo_banco', 1)).toBe(false);
+    expect(mockDb.prepare).not.toHaveBeenCalled();
+  });
+
+  it('checks the profile belongs to the workspace', () => {
+    const mockGet = vi.fn().mockReturnValue({ id: 3 });
+    mockDb.prepare.mockReturnValue({ get: mockGet });
+
+    expect(csvProfileExists('csv:3', 1)).toBe(true);
+    expect(mockGet).toHaveBeenCalledWith(3, 1);
+  });
+});
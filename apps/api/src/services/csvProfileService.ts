@@ -0,0 +1,212 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import {
+  CSV_PROFILE_BANK_PREFIX,
+  ErrorCode,
+  type CsvProfile,
+  type CsvColumnMapping,
+  type CreateCsvProfileRequest,
+  type UpdateCsvProfileRequest,
+} from '@compasso/shared';
+
+interface CsvProfileRow {
+  id: number;
+  workspace_id: number;
+  name: string;
+  delimiter: string;
+  date_format: string;
+  decimal_format: string;
+  has_header: number;
+  skip_rows: number;
+  currency: string;
+  column_mapping: string;
+  created_at: string;
+}
+
+const PROFILE_COLUMNS =
+  'id, workspace_id, name, delimiter, date_format, decimal_format, has_header, skip_rows, currency, column_mapping, created_at';
+
+/**
+ * Build the bank ID under which a CSV profile appears in the bank list,
+ * category patterns and ledgers (e.g. "csv:12").
+ */
+export function toCsvProfileBankId(profileId: number): string {
+  return `${CSV_PROFILE_BANK_PREFIX}${profileId}`;
+}
+
+/**
+ * Extract the profile ID from a CSV profile bank ID, or null for built-in banks.
+ */
+export function parseCsvProfileBankId(bankId: string): number | null {
+  if (!bankId.startsWith(CSV_PROFILE_BANK_PREFIX)) return null;
+  const id = Number(bankId.slice(CSV_PROFILE_BANK_PREFIX.length));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function mapProfileRow(row: CsvProfileRow): CsvProfile {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    bankId: toCsvProfileBankId(row.id),
+    name: row.name,
+    delimiter: row.delimiter as CsvProfile['delimiter'],
+    dateFormat: row.date_format as CsvProfile['dateFormat'],
+    decimalFormat: row.decimal_format as CsvProfile['decimalFormat'],
+    hasHeader: row.has_header === 1,
+    skipRows: row.skip_rows,
+    currency: row.currency,
+    columns: JSON.parse(row.column_mapping) as CsvColumnMapping,
+    createdAt: row.created_at,
+  };
+}
+
+function assertNameAvailable(workspaceId: number, name: string, excludeId?: number): void {
+  const db = getDatabase();
+  const existing = db
+    .prepare('SELECT id FROM csv_profiles WHERE workspace_id = ? AND name = ? AND id != ?')
+    .get(workspaceId, name, excludeId ?? 0);
+
+  if (existing) {
+    throw AppError.badRequest(
+      'A CSV profile with this name already exists in this workspace',
+      ErrorCode.DUPLICATE_RESOURCE
+    );
+  }
+}
+
+/**
+ * List all CSV import profiles of a workspace.
+ */
+export function listCsvProfiles(workspaceId: number): CsvProfile[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(`SELECT ${PROFILE_COLUMNS} FROM csv_profiles WHERE workspace_id = ? ORDER BY name ASC`)
+    .all(workspaceId) as CsvProfileRow[];
+
+  return rows.map(mapProfileRow);
+}
+
+/**
+ * Get a single CSV profile, scoped to its workspace.
+ */
+export function getCsvProfile(profileId: number, workspaceId: number): CsvProfile {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT ${PROFILE_COLUMNS} FROM csv_profiles WHERE id = ? AND workspace_id = ?`)
+    .get(profileId, workspaceId) as CsvProfileRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('CSV profile not found');
+  }
+
+  return mapProfileRow(row);
+}
+
+/**
+ * Create a CSV import profile in a workspace.
+ */
+export function createCsvProfile(data: CreateCsvProfileRequest): CsvProfile {
+  assertNameAvailable(data.workspaceId, data.name);
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `INSERT INTO csv_profiles
+        (workspace_id, name, delimiter, date_format, decimal_format, has_header, skip_rows, currency, column_mapping)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      data.workspaceId,
+      data.name,
+      data.delimiter,
+      data.dateFormat,
+      data.decimalFormat,
+      data.hasHeader === false ? 0 : 1,
+      data.skipRows ?? 0,
+      data.currency || 'EUR',
+      JSON.stringify(data.columns)
+    );
+
+  return getCsvProfile(Number(result.lastInsertRowid), data.workspaceId);
+}
+
+/**
+ * Update a CSV import profile.
+ */
+export function updateCsvProfile(
+  profileId: number,
+  workspaceId: number,
+  data: UpdateCsvProfileRequest
+): CsvProfile {
+  const fields: Array<[string, unknown]> = [];
+
+  if (data.name !== undefined) fields.push(['name', data.name]);
+  if (data.delimiter !== undefined) fields.push(['delimiter', data.delimiter]);
+  if (data.dateFormat !== undefined) fields.push(['date_format', data.dateFormat]);
+  if (data.decimalFormat !== undefined) fields.push(['decimal_format', data.decimalFormat]);
+  if (data.hasHeader !== undefined) fields.push(['has_header', data.hasHeader ? 1 : 0]);
+  if (data.skipRows !== undefined) fields.push(['skip_rows', data.skipRows]);
+  if (data.currency !== undefined) fields.push(['currency', data.currency]);
+  if (data.columns !== undefined) fields.push(['column_mapping', JSON.stringify(data.columns)]);
+
+  if (fields.length === 0) {
+    throw AppError.badRequest('No fields to update');
+  }
+
+  if (data.name !== undefined) {
+    assertNameAvailable(workspaceId, data.name, profileId);
+  }
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `UPDATE csv_profiles SET ${fields.map(([column]) => `${column} = ?`).join(', ')}
+       WHERE id = ? AND workspace_id = ?`
+    )
+    .run(...fields.map(([, value]) => value), profileId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('CSV profile not found');
+  }
+
+  return getCsvProfile(profileId, workspaceId);
+}
+
+/**
+ * Delete a CSV profile and the category patterns registered under its bank ID.
+ * Ledgers imported with the profile are kept.
+ */
+export function deleteCsvProfile(profileId: number, workspaceId: number): void {
+  const db = getDatabase();
+
+  const deleteProfile = db.transaction(() => {
+    const result = db
+      .prepare('DELETE FROM csv_profiles WHERE id = ? AND workspace_id = ?')
+      .run(profileId, workspaceId);
+
+    if (result.changes === 0) {
+      throw AppError.notFound('CSV profile not found');
+    }
+
+    db.prepare(`
+      DELETE FROM category_patterns
+      WHERE bank_id = ? AND category_id IN (SELECT id FROM categories WHERE workspace_id = ?)
+    `).run(toCsvProfileBankId(profileId), workspaceId);
+  });
+
+  deleteProfile();
+}
+
+/**
+ * Check whether a bank ID refers to a CSV profile of the given workspace.
+ */
+export function csvProfileExists(bankId: string, workspaceId: number): boolean {
+  const profileId = parseCsvProfileBankId(bankId);
+  if (profileId === null) return false;
+
+  const db = getDatabase();
+  const row = db
+    .prepare('SELECT id FROM csv_profiles WHERE id = ? AND workspace_id = ?')
+    .get(profileId, workspaceId);
+  return !!row;
+}
@@ -89,14 +89,23 @@ describe('dashboardService', () => {
         },
       ];
 
+      // Mock transaction type breakdown
+      const mockTypes = [
+        { transaction_type: 'CARD_PURCHASE', income: 0, expenses: 250, count: 8 },
+        { transaction_type: 'ATM', income: 0, expenses: 100, count: 2 },
+      ];
+
       mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('GROUP BY t.transaction_type')) {
+          return { all: vi.fn().mockReturnValue(mockTypes) };
+        }
         if (sql.includes('SUM(CASE WHEN is_income')) {
           if (sql.includes('GROUP BY month')) {
             return { all: vi.fn().mockReturnValue(mockTrends) };
           }
           return { get: vi.fn().mockReturnValue(mockSummary) };
         }
-        if (sql.includes('GROUP BY t.category_id')) {
+        if (sql.includes('GROUP BY COALESCE(r.rollup_id')) {
           return { all: vi.fn().mockReturnValue(mockBreakdown) };
         }
         if (sql.includes('LEFT JOIN categories c ON t.category_id')) {
@@ -112,6 +121,10 @@ describe('dashboardService', () => {
       expect(result).toHaveProperty('monthlyTrends');
       expect(result).toHaveProperty('recentTransactions');
       expect(result).toHaveProperty('recurringSummary');
+      expect(result.typeBreakdown).toEqual([
+        { transactionType: 'CARD_PURCHASE', income: 0, expenses: 250, count: 8 },
+        { transactionType: 'ATM', income: 0, expenses: 100, count: 2 },
+      ]);
       expect(result.recurringSummary).toEqual({
         totalActive: 2,
         estimatedMonthlyCost: 50.0,
@@ -167,7 +180,7 @@ describe('dashboardService', () => {
       ];
 
       mockDb.prepare.mockImplementation((sql: string) => {
-        if (sql.includes('GROUP BY t.category_id')) {
+        if (sql.includes('GROUP BY COALESCE(r.rollup_id')) {
           return { all: vi.fn().mockReturnValue(mockBreakdown) };
         }
         return {
@@ -195,7 +208,7 @@ describe('dashboardService', () => {
       const mockBreakdown: any[] = [];
 
       mockDb.prepare.mockImplementation((sql: string) => {
-        if (sql.includes('GROUP BY t.category_id')) {
+        if (sql.includes('GROUP BY COALESCE(r.rollup_id')) {
           return { all: vi.fn().mockReturnValue(mockBreakdown) };
         }
         return {
@@ -209,6 +222,70 @@ describe('dashboardService', () => {
       expect(result.categoryBreakdown).toEqual([]);
     });
 
+    it('should roll subcategories up into top-level categories', () => {
+      let breakdownSql = '';
+      let breakdownParams: unknown[] = [];
+      const mockBreakdown = [
+        { category_id: 1, category_name: 'Dining', category_color: '#f00', has_children: 1, total: 300, count: 6 },
+        { category_id: null, category_name: 'Uncategorized', category_color: null, has_children: null, total: 100, count: 1 },
+      ];
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('GROUP BY COALESCE(r.rollup_id')) {
+          breakdownSql = sql;
+          return {
+            all: vi.fn((...params: unknown[]) => {
+              breakdownParams = params;
+              return mockBreakdown;
+            }),
+          };
+        }
+        return { get: vi.fn().mockReturnValue({}), all: vi.fn().mockReturnValue([]) };
+      });
+
+      const result = getDashboardData({ workspaceId: DEFAULT_WORKSPACE_ID });
+
+      expect(breakdownSql).toContain('WITH RECURSIVE category_rollup');
+      expect(breakdownSql).not.toContain('r.rollup_id IS NOT NULL');
+      expect(breakdownParams[0]).toBe(0);
+      expect(result.categoryBreakdown).toEqual([
+        { categoryId: 1, categoryName: 'Dining', categoryColor: '#f00', total: 300, count: 6, percentage: 75, hasChildren: true },
+        { categoryId: null, categoryName: 'Uncategorized', categoryColor: null, total: 100, count: 1, percentage: 25, hasChildren: false },
+      ]);
+    });
+
+    it('should break a parent category down by its subcategories', () => {
+      let breakdownSql = '';
+      let breakdownParams: unknown[] = [];
+      const mockBreakdown = [
+        { category_id: 11, category_name: 'Restaurants', category_color: '#f00', has_children: 0, total: 200, count: 4 },
+        { category_id: 1, category_name: 'Dining', category_color: '#f00', has_children: 1, total: 50, count: 1 },
+      ];
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('GROUP BY COALESCE(r.rollup_id')) {
+          breakdownSql = sql;
+          return {
+            all: vi.fn((...params: unknown[]) => {
+              breakdownParams = params;
+              return mockBreakdown;
+            }),
+          };
+        }
+        return { get: vi.fn().mockReturnValue({}), all: vi.fn().mockReturnValue([]) };
+      });
+
+      const result = getDashboardData({ workspaceId: DEFAULT_WORKSPACE_ID, parentCategoryId: 1 });
+
+      expect(breakdownSql).toContain('r.rollup_id IS NOT NULL OR t.category_id = ?');
+      expect(breakdownParams[0]).toBe(1);
+      expect(breakdownParams[breakdownParams.length - 1]).toBe(1);
+      expect(result.categoryBreakdown.map((c) => [c.categoryId, c.hasChildren])).toEqual([
+        [11, false],
+        [1, false],
+      ]);
+    });
+
     it('should calculate monthly balance correctly', () => {
       const mockSummary = {
         total_income: 0,
@@ -336,6 +413,69 @@ describe('dashboardService', () => {
       expect(capturedParams).toContain('2024-02-01');
     });
 
+    it('should filter by value date falling back to booking date', () => {
+      const sqls: string[] = [];
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        sqls.push(sql);
+        return {
+          get: vi.fn().mockReturnValue({ total_income: 0, total_expenses: 0, transaction_count: 0 }),
+          all: vi.fn().mockReturnValue([]),
+        };
+      });
+
+      getDashboardData({ workspaceId: DEFAULT_WORKSPACE_ID, year: 2024, month: 1, dateBasis: 'value' });
+
+      const summarySql = sqls.find((sql) => sql.includes('total_income'))!;
+      expect(summarySql).toContain('COALESCE(t.value_date, t.date) >= ?');
+      expect(summarySql).not.toContain('t.date >= ?');
+      const trendsSql = sqls.find((sql) => sql.includes('as month'))!;
+      expect(trendsSql).toContain('substr(COALESCE(t.value_date, t.date), 1, 7)');
+    });
+
+    it('should leave internal transfers out of totals unless included', () => {
+      const sqls: string[] = [];
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        sqls.push(sql);
+        return {
+          get: vi.fn().mockReturnValue({ total_income: 0, total_expenses: 0, transaction_count: 0 }),
+          all: vi.fn().mockReturnValue([]),
+        };
+      });
+
+      getDashboardData({ workspaceId: DEFAULT_WORKSPACE_ID, year: 2024 });
+
+      expect(sqls.find((sql) => sql.includes('total_income'))).toContain('FROM transfers');
+      expect(sqls.find((sql) => sql.includes('as month'))).toContain('FROM transfers');
+      expect(sqls.find((sql) => sql.includes('LIMIT ?'))).not.toContain('FROM transfers');
+
+      sqls.length = 0;
+      getDashboardData({ workspaceId: DEFAULT_WORKSPACE_ID, year: 2024, includeTransfers: true });
+
+      expect(sqls.some((sql) => sql.includes('FROM transfers'))).toBe(false);
+    });
+
+    it('should count the parts of split transactions in the aggregations', () => {
+      const sqls: string[] = [];
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        sqls.push(sql);
+        return {
+          get: vi.fn().mockReturnValue({ total_income: 0, total_expenses: 0, transaction_count: 0 }),
+          all: vi.fn().mockReturnValue([]),
+        };
+      });
+
+      getDashboardData({ workspaceId: DEFAULT_WORKSPACE_ID, year: 2024 });
+
+      for (const key of ['total_income', 'GROUP BY COALESCE(r.rollup_id', 'GROUP BY t.transaction_type', 'as month']) {
+        expect(sqls.find((sql) => sql.includes(key))).toContain('FROM transaction_splits s');
+      }
+      expect(sqls.find((sql) => sql.includes('total_income'))).toContain('COUNT(DISTINCT t.id)');
+      expect(sqls.find((sql) => sql.includes('LIMIT ?'))).not.toContain('transaction_splits');
+    });
+
     it('should filter by category', () => {
       const mockSummary = {
         total_income: 5000,
@@ -363,7 +503,7 @@ describe('dashboardService', () => {
 
       getDashboardData({ workspaceId: DEFAULT_WORKSPACE_ID, categoryId: 5 });
 
-      expect(capturedSql).toContain('t.category_id = ?');
+      expect(capturedSql).toContain('t.category_id IN (');
       expect(capturedParams).toContain(5);
     });
 
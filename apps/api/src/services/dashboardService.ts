@@ -4,22 +4,40 @@ import type {
   DashboardSummary,
   CategoryBreakdown,
   MonthlyTrend,
+  TransactionTypeBreakdown,
+  TransactionType,
   TransactionWithCategory,
+  DateBasis,
 } from '@compasso/shared';
 import { getRecurringSummary } from './recurringDetector.js';
-import { yearRange, monthRange } from '../utils/dateHelpers.js';
+import { yearRange, monthRange, dateColumn } from '../utils/dateHelpers.js';
+import { NOT_TRANSFER_CONDITION } from '../utils/transferHelpers.js';
+import { BASE_AMOUNT, TRANSACTION_CURRENCY } from '../utils/currencyHelpers.js';
+import { TRANSACTION_PARTS } from '../utils/splitHelpers.js';
+import {
+  CATEGORY_ROLLUP_CTE,
+  CATEGORY_ROLLUP_JOIN,
+  ROLLUP_CATEGORY_ID,
+  IN_ROLLUP_PARENT_CONDITION,
+  IN_CATEGORY_SUBTREE_CONDITION,
+  HAS_CHILDREN,
+} from '../utils/categoryHelpers.js';
 
 interface Filters {
   workspaceId: number;
   year?: number;
   month?: number;
-  categoryId?: number;
+  categoryId?: number; // Includes the category's subcategories
+  parentCategoryId?: number; // Breaks expenses down by this category's subcategories instead of the top level
+  dateBasis?: DateBasis;
+  includeTransfers?: boolean; // Internal transfers are left out of the totals unless set
 }
 
 export function getDashboardData(filters: Filters): DashboardData {
   const summary = getSummary(filters);
   const categoryBreakdown = getCategoryBreakdown(filters);
   const monthlyTrends = getMonthlyTrends(filters);
+  const typeBreakdown = getTypeBreakdown(filters);
   const recentTransactions = getRecentTransactions(filters);
   const recurringSummary = getRecurringSummary(filters.workspaceId);
 
@@ -27,6 +45,7 @@ export function getDashboardData(filters: Filters): DashboardData {
     summary,
     categoryBreakdown,
     monthlyTrends,
+    typeBreakdown,
     recentTransactions,
     recurringSummary,
   };
@@ -36,22 +55,27 @@ function buildDateFilter(filters: Filters): { where: string; params: unknown[] }
   // Always filter by workspace via ledger join
   const conditions: string[] = ['l.workspace_id = ?'];
   const params: unknown[] = [filters.workspaceId];
+  const date = dateColumn(filters.dateBasis);
 
   if (filters.year && filters.month) {
     const range = monthRange(filters.year, filters.month);
-    conditions.push('t.date >= ? AND t.date < ?');
+    conditions.push(`${date} >= ? AND ${date} < ?`);
     params.push(range.start, range.end);
   } else if (filters.year) {
     const range = yearRange(filters.year);
-    conditions.push('t.date >= ? AND t.date < ?');
+    conditions.push(`${date} >= ? AND ${date} < ?`);
     params.push(range.start, range.end);
   }
 
   if (filters.categoryId) {
-    conditions.push('t.category_id = ?');
+    conditions.push(IN_CATEGORY_SUBTREE_CONDITION);
     params.push(filters.categoryId);
   }
 
+  if (!filters.includeTransfers) {
+    conditions.push(NOT_TRANSFER_CONDITION);
+  }
+
   const where = `WHERE ${conditions.join(' AND ')}`;
   return { where, params };
 }
@@ -64,12 +88,12 @@ function getSummary(filters: Filters): DashboardSummary {
     .prepare(
       `
     SELECT
-      COALESCE(SUM(CASE WHEN is_income = 1 THEN amount ELSE 0 END), 0) as total_income,
-      COALESCE(SUM(CASE WHEN is_income = 0 THEN amount ELSE 0 END), 0) as total_expenses,
-      COUNT(*) as transaction_count,
-      MIN(t.date) as period_start,
-      MAX(t.date) as period_end
-    FROM transactions t
+      COALESCE(SUM(CASE WHEN is_income = 1 THEN ${BASE_AMOUNT} ELSE 0 END), 0) as total_income,
+      COALESCE(SUM(CASE WHEN is_income = 0 THEN ${BASE_AMOUNT} ELSE 0 END), 0) as total_expenses,
+      COUNT(DISTINCT t.id) as transaction_count,
+      MIN(${dateColumn(filters.dateBasis)}) as period_start,
+      MAX(${dateColumn(filters.dateBasis)}) as period_end
+    FROM ${TRANSACTION_PARTS} t
     JOIN ledgers l ON t.ledger_id = l.id
     ${where}
   `
@@ -96,30 +120,40 @@ function getCategoryBreakdown(filters: Filters): CategoryBreakdown[] {
   const db = getDatabase();
   const { where, params } = buildDateFilter({ ...filters, categoryId: undefined });
 
-  // Only get breakdown for expenses
-  const expenseWhere = `${where} AND t.is_income = 0`;
+  const parentId = filters.parentCategoryId;
+
+  // Only get breakdown for expenses, rolling subcategories up into the
+  // categories at the level shown
+  let expenseWhere = `${where} AND t.is_income = 0`;
+  if (parentId) {
+    expenseWhere += ` AND ${IN_ROLLUP_PARENT_CONDITION}`;
+    params.push(parentId);
+  }
 
   const results = db
     .prepare(
       `
+    ${CATEGORY_ROLLUP_CTE}
     SELECT
-      t.category_id,
+      ${ROLLUP_CATEGORY_ID} as category_id,
       COALESCE(c.name, 'Uncategorized') as category_name,
       c.color as category_color,
-      SUM(t.amount) as total,
-      COUNT(*) as count
-    FROM transactions t
+      ${HAS_CHILDREN} as has_children,
+      SUM(${BASE_AMOUNT}) as total,
+      COUNT(DISTINCT t.id) as count
+    FROM ${TRANSACTION_PARTS} t
     JOIN ledgers l ON t.ledger_id = l.id
-    LEFT JOIN categories c ON t.category_id = c.id
+    ${CATEGORY_ROLLUP_JOIN}
     ${expenseWhere}
-    GROUP BY t.category_id
+    GROUP BY ${ROLLUP_CATEGORY_ID}
     ORDER BY total DESC
   `
     )
-    .all(...params) as Array<{
+    .all(parentId ?? 0, ...params) as Array<{
     category_id: number | null;
     category_name: string;
     category_color: string | null;
+    has_children: number | null;
     total: number;
     count: number;
   }>;
@@ -134,6 +168,42 @@ function getCategoryBreakdown(filters: Filters): CategoryBreakdown[] {
     total: r.total,
     count: r.count,
     percentage: totalExpenses > 0 ? (r.total / totalExpenses) * 100 : 0,
+    // The drilled-down parent's own transactions can't be drilled into again
+    hasChildren: r.has_children === 1 && r.category_id !== parentId,
+  }));
+}
+
+function getTypeBreakdown(filters: Filters): TransactionTypeBreakdown[] {
+  const db = getDatabase();
+  const { where, params } = buildDateFilter(filters);
+
+  const results = db
+    .prepare(
+      `
+    SELECT
+      t.transaction_type,
+      COALESCE(SUM(CASE WHEN is_income = 1 THEN ${BASE_AMOUNT} ELSE 0 END), 0) as income,
+      COALESCE(SUM(CASE WHEN is_income = 0 THEN ${BASE_AMOUNT} ELSE 0 END), 0) as expenses,
+      COUNT(DISTINCT t.id) as count
+    FROM ${TRANSACTION_PARTS} t
+    JOIN ledgers l ON t.ledger_id = l.id
+    ${where}
+    GROUP BY t.transaction_type
+    ORDER BY (income + expenses) DESC
+  `
+    )
+    .all(...params) as Array<{
+    transaction_type: TransactionType | null;
+    income: number;
+    expenses: number;
+    count: number;
+  }>;
+
+  return results.map((r) => ({
+    transactionType: r.transaction_type,
+    income: r.income,
+    expenses: r.expenses,
+    count: r.count,
   }));
 }
 
@@ -143,23 +213,28 @@ function getMonthlyTrends(filters: Filters): MonthlyTrend[] {
   // For trends, we only filter by year and workspace (show all months in that year)
   const conditions: string[] = ['l.workspace_id = ?'];
   const params: unknown[] = [filters.workspaceId];
+  const date = dateColumn(filters.dateBasis);
 
   if (filters.year) {
     const range = yearRange(filters.year);
-    conditions.push('t.date >= ? AND t.date < ?');
+    conditions.push(`${date} >= ? AND ${date} < ?`);
     params.push(range.start, range.end);
   }
 
+  if (!filters.includeTransfers) {
+    conditions.push(NOT_TRANSFER_CONDITION);
+  }
+
   const where = `WHERE ${conditions.join(' AND ')}`;
 
   const results = db
     .prepare(
       `
     SELECT
-      substr(t.date, 1, 7) as month,
-      COALESCE(SUM(CASE WHEN is_income = 1 THEN amount ELSE 0 END), 0) as income,
-      COALESCE(SUM(CASE WHEN is_income = 0 THEN amount ELSE 0 END), 0) as expenses
-    FROM transactions t
+      substr(${date}, 1, 7) as month,
+      COALESCE(SUM(CASE WHEN is_income = 1 THEN ${BASE_AMOUNT} ELSE 0 END), 0) as income,
+      COALESCE(SUM(CASE WHEN is_income = 0 THEN ${BASE_AMOUNT} ELSE 0 END), 0) as expenses
+    FROM ${TRANSACTION_PARTS} t
     JOIN ledgers l ON t.ledger_id = l.id
     ${where}
     GROUP BY month
@@ -182,7 +257,16 @@ function getMonthlyTrends(filters: Filters): MonthlyTrend[] {
 
 function getRecentTransactions(filters: Filters, limit = 10): TransactionWithCategory[] {
   const db = getDatabase();
-  const { where, params } = buildDateFilter(filters);
+  // Transfers are listed like any other transaction; only totals leave them out
+  const filter = buildDateFilter({ ...filters, categoryId: undefined, includeTransfers: true });
+  let where = filter.where;
+  const params = filter.params;
+
+  // A split transaction is listed under the categories of its parts
+  if (filters.categoryId) {
+    where += ` AND t.id IN (SELECT t.id FROM ${TRANSACTION_PARTS} t WHERE ${IN_CATEGORY_SUBTREE_CONDITION})`;
+    params.push(filters.categoryId);
+  }
 
   const results = db
     .prepare(
@@ -191,12 +275,17 @@ function getRecentTransactions(filters: Filters, limit = 10): TransactionWithCat
       t.id,
       t.ledger_id,
       t.date,
+      t.value_date,
       t.description,
       t.amount,
+      ${TRANSACTION_CURRENCY} as currency,
+      ${BASE_AMOUNT} as base_amount,
       t.balance,
       t.category_id,
       t.is_income,
       t.raw_text,
+      t.transaction_type,
+      t.merchant_id,
       t.created_at,
       c.id as cat_id,
       c.name as cat_name,
@@ -208,7 +297,7 @@ function getRecentTransactions(filters: Filters, limit = 10): TransactionWithCat
     JOIN ledgers l ON t.ledger_id = l.id
     LEFT JOIN categories c ON t.category_id = c.id
     ${where}
-    ORDER BY t.date DESC, t.id DESC
+    ORDER BY ${dateColumn(filters.dateBasis)} DESC, t.id DESC
     LIMIT ?
   `
     )
@@ -216,12 +305,17 @@ function getRecentTransactions(filters: Filters, limit = 10): TransactionWithCat
     id: number;
     ledger_id: number;
     date: string;
+    value_date: string | null;
     description: string;
     amount: number;
+    currency: string;
+    base_amount: number;
     balance: number | null;
     category_id: number | null;
     is_income: number;
     raw_text: string | null;
+    transaction_type: TransactionType | null;
+    merchant_id: number | null;
     created_at: string;
     cat_id: number | null;
     cat_name: string | null;
@@ -235,13 +329,18 @@ function getRecentTransactions(filters: Filters, limit = 10): TransactionWithCat
     id: r.id,
     ledgerId: r.ledger_id,
     date: r.date,
+    valueDate: r.value_date,
     description: r.description,
     amount: r.amount,
     balance: r.balance,
     categoryId: r.category_id,
     isIncome: r.is_income === 1,
     rawText: r.raw_text,
+    transactionType: r.transaction_type,
+    merchantId: r.merchant_id,
     createdAt: r.created_at,
+    currency: r.currency,
+    baseAmount: r.base_amount,
     category: r.cat_id
       ? {
           id: r.cat_id,
@@ -255,12 +354,13 @@ function getRecentTransactions(filters: Filters, limit = 10): TransactionWithCat
   }));
 }
 
-export function getAvailableYears(workspaceId: number): number[] {
+export function getAvailableYears(workspaceId: number, dateBasis: DateBasis = 'booking'): number[] {
   const db = getDatabase();
+  const date = dateColumn(dateBasis);
   const results = db
     .prepare(
       `
-    SELECT DISTINCT substr(t.date, 1, 4) as year
+    SELECT DISTINCT substr(${date}, 1, 4) as year
     FROM transactions t
     JOIN ledgers l ON t.ledger_id = l.id
     WHERE l.workspace_id = ?
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ParsedTransaction } from '@compasso/shared';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import {
+  normalizeDescription,
+  transactionFingerprint,
+  markProbableDuplicates,
+} from './duplicateDetector.js';
+
+function tx(
+  date: string,
+  description: string,
+  amount: number,
+  balance: number | null
+): ParsedTransaction {
+  return {
+    date,
+    valueDate: date,
+    description,
+    amount: Math.abs(amount),
+    balance,
+    isIncome: amount > 0,
+    rawText: '',
+    suggestedCategoryId: null,
+    suggestedCategoryName: null,
+  };
+}
+
+describe('normalizeDescription', () => {
+  it('should ignore accents, case, spacing and punctuation', () => {
+    expect(normalizeDescription('Compra  Café-Ribeira, Lda.')).toBe(
+      normalizeDescription('COMPRA CAFE RIBEIRA LDA')
+    );
+  });
+});
+
+describe('transactionFingerprint', () => {
+  it('should tell income and expenses of the same amount apart', () => {
+    expect(transactionFingerprint(tx('2025-01-02', 'TRF', 10, null))).not.toBe(
+      transactionFingerprint(tx('2025-01-02', 'TRF', -10, null))
+    );
+  });
+
+  it('should include the balance', () => {
+    expect(transactionFingerprint(tx('2025-01-02', 'COMPRA', -10, 90))).toBe(
+      '2025-01-02|-10.00|compra|90.00'
+    );
+  });
+});
+
+describe('markProbableDuplicates', () => {
+  const mockAll = vi.fn();
+  const mockDb = { prepare: vi.fn(() => ({ all: mockAll })) };
+
+  beforeEach(() => {
+    vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should query the statement date range for the bank, excluding the replaced file', () => {
+    mockAll.mockReturnValue([]);
+
+    markProbableDuplicates(
+      [tx('2025-01-20', 'A', -1, null), tx('2025-01-05', 'B', -1, null)],
+      'novo_banco',
+      3,
+      'hash'
+    );
+
+    expect(mockAll).toHaveBeenCalledWith(3, 'novo_banco', 'hash', '2025-01-05', '2025-01-20');
+  });
+
+  it('should mark each imported transaction as the duplicate of one parsed row', () => {
+    mockAll.mockReturnValue([
+      { id: 11, date: '2025-01-02', amount: 3.5, is_income: 0, description: 'CAFE', balance: null },
+      { id: 12, date: '2025-01-03', amount: 50, is_income: 1, description: 'TRF', balance: 150 },
+    ]);
+
+    const result = markProbableDuplicates(
+      [
+        tx('2025-01-02', 'Café', -3.5, null),
+        tx('2025-01-02', 'Café', -3.5, null),
+        tx('2025-01-03', 'TRF', 50, 160),
+      ],
+      'novo_banco',
+      3,
+      'hash'
+    );
+
+    expect(result.transactions.map((t) => t.duplicateOf)).toEqual([11, undefined, undefined]);
+    expect(result.probableDuplicates).toBe(1);
+  });
+
+  it('should not query for an empty statement', () => {
+    expect(markProbableDuplicates([], 'novo_banco', 3, 'hash')).toEqual({
+      transactions: [],
+      probableDuplicates: 0,
+    });
+    expect(mockDb.prepare).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { getDatabase } from '../db/database.js';
+import type { ParsedTransaction } from '@compasso/shared';
+
+/**
+ * Transaction-level duplicate detection across overlapping statements
+ * (e.g. a monthly statement followed by a quarterly one covering the same weeks).
+ *
+ * Algorithm: fingerprint each transaction by date, signed amount, normalized
+ * description and balance → load the fingerprints of the workspace's
+ * transactions for the same bank over the statement's date range → each
+ * parsed transaction whose fingerprint is still unclaimed is marked as a
+ * probable duplicate of that transaction, so two identical rows only match
+ * two imported ones.
+ */
+
+interface FingerprintFields {
+  date: string;
+  amount: number;
+  isIncome: boolean;
+  description: string;
+  balance: number | null;
+}
+
+/**
+ * Normalize a description for comparison: accents, case, spacing and
+ * punctuation are ignored, as statements wrap and format them differently.
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+export function transactionFingerprint(tx: FingerprintFields): string {
+  const signedAmount = tx.isIncome ? tx.amount : -tx.amount;
+  const balance = tx.balance !== null ? tx.balance.toFixed(2) : '';
+  return [tx.date, signedAmount.toFixed(2), normalizeDescription(tx.description), balance].join(
+    '|'
+  );
+}
+
+/**
+ * Mark parsed transactions that were already imported for this bank in the
+ * workspace with `duplicateOf`. Ledgers with the same file hash are ignored,
+ * since the upload replaces them.
+ */
+export function markProbableDuplicates(
+  transactions: ParsedTransaction[],
+  bankId: string,
+  workspaceId: number,
+  fileHash: string
+): { transactions: ParsedTransaction[]; probableDuplicates: number } {
+  if (transactions.length === 0) {
+    return { transactions, probableDuplicates: 0 };
+  }
+
+  const dates = transactions.map((tx) => tx.date).sort();
+  const db = getDatabase();
+  const existing = db
+    .prepare(
+      `
+      SELECT t.id, t.date, t.amount, t.is_income, t.description, t.balance
+      FROM transactions t
+      JOIN ledgers l ON t.ledger_id = l.id
+      WHERE l.workspace_id = ? AND l.bank_id = ? AND l.file_hash IS NOT ?
+        AND t.date BETWEEN ? AND ?
+      ORDER BY t.id
+    `
+    )
+    .all(workspaceId, bankId, fileHash, dates[0], dates[dates.length - 1]) as Array<{
+    id: number;
+    date: string;
+    amount: number;
+    is_income: number;
+    description: string;
+    balance: number | null;
+  }>;
+
+  const unclaimed = new Map<string, number[]>();
+  for (const row of existing) {
+    const fingerprint = transactionFingerprint({ ...row, isIncome: row.is_income === 1 });
+    const ids = unclaimed.get(fingerprint);
+    if (ids) ids.push(row.id);
+    else unclaimed.set(fingerprint, [row.id]);
+  }
+
+  let probableDuplicates = 0;
+  const marked = transactions.map((tx) => {
+    const duplicateOf = unclaimed.get(transactionFingerprint(tx))?.shift();
+    if (duplicateOf === undefined) return tx;
+    probableDuplicates++;
+    return { ...tx, duplicateOf };
+  });
+
+  return { transactions: marked, probableDuplicates };
+}
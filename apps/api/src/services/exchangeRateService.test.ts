@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import {
+  listExchangeRates,
+  setExchangeRate,
+  deleteExchangeRate,
+  importEcbRates,
+  convertToBaseCurrency,
+} from './exchangeRateService.js';
+
+const mockDb = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
+
+const rateRow = {
+  id: 4,
+  workspace_id: 1,
+  currency: 'USD',
+  date: '2024-01-05',
+  rate: 1.0921,
+  created_at: '2024-01-06',
+};
+
+function mockUpsert() {
+  const mockRun = vi.fn();
+  mockDb.prepare.mockImplementation((sql: string) => {
+    if (sql.includes('INSERT INTO exchange_rates')) return { run: mockRun };
+    return { get: vi.fn().mockReturnValue(rateRow) };
+  });
+  return mockRun;
+}
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// listExchangeRates
+// ---------------------------------------------------------------------------
+describe('listExchangeRates', () => {
+  it('maps the workspace rates', () => {
+    const mockAll = vi.fn().mockReturnValue([rateRow]);
+    mockDb.prepare.mockReturnValue({ all: mockAll });
+
+    expect(listExchangeRates(1)).toEqual([
+      {
+        id: 4,
+        workspaceId: 1,
+        currency: 'USD',
+        date: '2024-01-05',
+        rate: 1.0921,
+        createdAt: '2024-01-06',
+      },
+    ]);
+    expect(mockAll).toHaveBeenCalledWith(1);
+  });
+
+  it('filters by currency', () => {
+    const mockAll = vi.fn().mockReturnValue([]);
+    mockDb.prepare.mockReturnValue({ all: mockAll });
+
+    listExchangeRates(1, 'GBP');
+
+    expect(mockDb.prepare.mock.calls[0][0]).toContain('AND currency = ?');
+    expect(mockAll).toHaveBeenCalledWith(1, 'GBP');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// setExchangeRate / deleteExchangeRate
+// ---------------------------------------------------------------------------
+describe('setExchangeRate', () => {
+  it('upserts the rate and returns it', () => {
+    const mockRun = mockUpsert();
+
+    const rate = setExchangeRate(1, { currency: 'USD', date: '2024-01-05', rate: 1.0921 });
+
+    expect(mockRun).toHaveBeenCalledWith(1, 'USD', '2024-01-05', 1.0921);
+    expect(mockDb.prepare.mock.calls[0][0]).toContain('ON CONFLICT');
+    expect(rate.id).toBe(4);
+  });
+
+  it('rejects a rate for the reference currency', () => {
+    expect(() => setExchangeRate(1, { currency: 'EUR', date: '2024-01-05', rate: 1 })).toThrow(
+      'EUR is the reference currency and needs no rate'
+    );
+    expect(mockDb.prepare).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleteExchangeRate', () => {
+  it('deletes the rate of the workspace', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    mockDb.prepare.mockReturnValue({ run: mockRun });
+
+    deleteExchangeRate(4, 1);
+
+    expect(mockRun).toHaveBeenCalledWith(4, 1);
+  });
+
+  it('throws not found when nothing was deleted', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => deleteExchangeRate(4, 1)).toThrow(AppError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// convertToBaseCurrency
+// ---------------------------------------------------------------------------
+describe('convertToBaseCurrency', () => {
+  function mockRates(baseCurrency: string, rates: Record<string, number>) {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('FROM workspaces')) {
+        return { get: vi.fn().mockReturnValue({ base_currency: baseCurrency }) };
+      }
+      return {
+        get: vi.fn((_ws: number, currency: string) =>
+          currency in rates ? { rate: rates[currency] } : undefined
+        ),
+      };
+    });
+  }
+
+  it('converts through the euro and rounds to cents', () => {
+    mockRates('USD', { USD: 1.0921, GBP: 0.86 });
+
+    expect(convertToBaseCurrency(1, 100, 'GBP', '2024-01-05')).toBe(126.99);
+  });
+
+  it('keeps amounts already in the base currency', () => {
+    mockRates('EUR', {});
+
+    expect(convertToBaseCurrency(1, 100, 'EUR', '2024-01-05')).toBe(100);
+    expect(mockDb.prepare).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the amount without a rate', () => {
+    mockRates('EUR', {});
+
+    expect(convertToBaseCurrency(1, 100, 'CHF', '2024-01-05')).toBe(100);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// importEcbRates
+// ---------------------------------------------------------------------------
+describe('importEcbRates', () => {
+  it('imports the historical file, skipping missing quotes', () => {
+    const mockRun = mockUpsert();
+    const csv = [
+      'Date,USD,JPY,CYP,GBP,',
+      '2024-01-05,1.0921,158.6,N/A,0.86,',
+      '2024-01-04,1.0953,157.9,N/A,0.8634,',
+    ].join('\n');
+
+    expect(importEcbRates(1, csv)).toBe(6);
+    expect(mockRun).toHaveBeenCalledWith(1, 'USD', '2024-01-05', 1.0921);
+    expect(mockRun).toHaveBeenCalledWith(1, 'GBP', '2024-01-04', 0.8634);
+    expect(mockRun).not.toHaveBeenCalledWith(1, 'CYP', expect.anything(), expect.anything());
+  });
+
+  it('imports the daily file with its spelled-out date', () => {
+    const mockRun = mockUpsert();
+    const csv = 'Date, USD, JPY, GBP, \n05 January 2024, 1.0921, 158.60, 0.8600, \n';
+
+    expect(importEcbRates(1, csv)).toBe(3);
+    expect(mockRun).toHaveBeenCalledWith(1, 'GBP', '2024-01-05', 0.86);
+  });
+
+  it('imports Data Portal exports against the euro only', () => {
+    const mockRun = mockUpsert();
+    const csv = [
+      'KEY,FREQ,CURRENCY,CURRENCY_DENOM,EXR_TYPE,EXR_SUFFIX,TIME_PERIOD,OBS_VALUE,TITLE_COMPL',
+      'EXR.D.USD.EUR.SP00.A,D,USD,EUR,SP00,A,2024-01-05,1.0921,"ECB reference exchange rate, US dollar/Euro"',
+      'EXR.D.USD.GBP.SP00.A,D,USD,GBP,SP00,A,2024-01-05,1.27,"Other, USD/GBP"',
+    ].join('\n');
+
+    expect(importEcbRates(1, csv)).toBe(1);
+    expect(mockRun).toHaveBeenCalledWith(1, 'USD', '2024-01-05', 1.0921);
+  });
+
+  it('rejects a file that is not an ECB rates file', () => {
+    expect(() => importEcbRates(1, 'Data,Descricao,Valor\n05/01/2024,Cafe,1.20')).toThrow(
+      'The file is not an ECB reference rates CSV'
+    );
+  });
+
+  it('rejects a file without rates', () => {
+    expect(() => importEcbRates(1, 'Date,USD\n2024-01-05,N/A')).toThrow(
+      'No exchange rates found in the file'
+    );
+  });
+});
@@ -0,0 +1,269 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { parseCsvRows } from '../parsers/csv.js';
+import { parseDateWithFormat } from '../parsers/formats.js';
+import {
+  DEFAULT_BASE_CURRENCY,
+  EXCHANGE_RATE_REFERENCE_CURRENCY,
+  type ExchangeRate,
+} from '@compasso/shared';
+
+interface ExchangeRateRow {
+  id: number;
+  workspace_id: number;
+  currency: string;
+  date: string;
+  rate: number;
+  created_at: string;
+}
+
+interface RateInput {
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+function mapExchangeRateRow(row: ExchangeRateRow): ExchangeRate {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    currency: row.currency,
+    date: row.date,
+    rate: row.rate,
+    createdAt: row.created_at,
+  };
+}
+
+function assertNotReferenceCurrency(currency: string): void {
+  if (currency === EXCHANGE_RATE_REFERENCE_CURRENCY) {
+    throw AppError.badRequest(
+      `${EXCHANGE_RATE_REFERENCE_CURRENCY} is the reference currency and needs no rate`
+    );
+  }
+}
+
+function upsertRates(workspaceId: number, rates: RateInput[]): void {
+  const db = getDatabase();
+  const upsert = db.prepare(`
+    INSERT INTO exchange_rates (workspace_id, currency, date, rate) VALUES (?, ?, ?, ?)
+    ON CONFLICT(workspace_id, currency, date) DO UPDATE SET rate = excluded.rate
+  `);
+  const upsertAll = db.transaction(() => {
+    for (const rate of rates) {
+      upsert.run(workspaceId, rate.currency, rate.date, rate.rate);
+    }
+  });
+  upsertAll();
+}
+
+/**
+ * List a workspace's exchange rates, newest first, optionally for one currency.
+ */
+export function listExchangeRates(workspaceId: number, currency?: string): ExchangeRate[] {
+  const db = getDatabase();
+  const condition = currency ? 'AND currency = ?' : '';
+  const rows = db
+    .prepare(
+      `SELECT id, workspace_id, currency, date, rate, created_at FROM exchange_rates
+      WHERE workspace_id = ? ${condition}
+      ORDER BY date DESC, currency ASC`
+    )
+    .all(...(currency ? [workspaceId, currency] : [workspaceId])) as ExchangeRateRow[];
+
+  return rows.map(mapExchangeRateRow);
+}
+
+/**
+ * Set the rate of a currency on a date, replacing any rate already set for it.
+ */
+export function setExchangeRate(workspaceId: number, data: RateInput): ExchangeRate {
+  assertNotReferenceCurrency(data.currency);
+  upsertRates(workspaceId, [data]);
+
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      'SELECT id, workspace_id, currency, date, rate, created_at FROM exchange_rates WHERE workspace_id = ? AND currency = ? AND date = ?'
+    )
+    .get(workspaceId, data.currency, data.date) as ExchangeRateRow;
+
+  return mapExchangeRateRow(row);
+}
+
+/**
+ * Delete an exchange rate of the workspace.
+ */
+export function deleteExchangeRate(rateId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const result = db
+    .prepare('DELETE FROM exchange_rates WHERE id = ? AND workspace_id = ?')
+    .run(rateId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Exchange rate not found');
+  }
+}
+
+/**
+ * Units of a currency per 1 EUR on a date: the workspace's latest rate on or
+ * before it, else its earliest rate after it. Null without a rate.
+ */
+function findRate(workspaceId: number, currency: string, date: string): number | null {
+  if (currency === EXCHANGE_RATE_REFERENCE_CURRENCY) return 1;
+
+  const db = getDatabase();
+  const before = db
+    .prepare(
+      `SELECT rate FROM exchange_rates WHERE workspace_id = ? AND currency = ? AND date <= ?
+      ORDER BY date DESC LIMIT 1`
+    )
+    .get(workspaceId, currency, date) as { rate: number } | undefined;
+  if (before) return before.rate;
+
+  const after = db
+    .prepare(
+      `SELECT rate FROM exchange_rates WHERE workspace_id = ? AND currency = ? AND date > ?
+      ORDER BY date ASC LIMIT 1`
+    )
+    .get(workspaceId, currency, date) as { rate: number } | undefined;
+  return after?.rate ?? null;
+}
+
+/**
+ * Convert an amount to the workspace base currency with the rates of a date,
+ * as `BASE_AMOUNT` does for transactions. Without a rate for either currency,
+ * the amount is kept.
+ */
+export function convertToBaseCurrency(
+  workspaceId: number,
+  amount: number,
+  currency: string,
+  date: string
+): number {
+  const db = getDatabase();
+  const workspace = db
+    .prepare('SELECT base_currency FROM workspaces WHERE id = ?')
+    .get(workspaceId) as { base_currency: string } | undefined;
+  const baseCurrency = workspace?.base_currency ?? DEFAULT_BASE_CURRENCY;
+  if (currency === baseCurrency) return amount;
+
+  const baseRate = findRate(workspaceId, baseCurrency, date);
+  const rate = findRate(workspaceId, currency, date);
+  if (baseRate === null || rate === null) return amount;
+  return Math.round(((amount * baseRate) / rate) * 100) / 100;
+}
+
+/**
+ * Parse an ECB date: ISO ("2024-01-05") as in the historical file, or the
+ * "05 January 2024" form of the daily file.
+ */
+function parseEcbDate(value: string): string | null {
+  const iso = parseDateWithFormat(value, 'YYYY-MM-DD');
+  if (iso) return iso;
+
+  const match = value.trim().match(/^(\d{1,2}) ([A-Za-z]+) (\d{4})$/);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+  if (month === 0) return null;
+  return parseDateWithFormat(`${match[3]}-${month}-${match[1]}`, 'YYYY-MM-DD');
+}
+
+function parseRate(value: string): number | null {
+  const rate = Number(value.trim());
+  return value.trim() !== '' && Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+/**
+ * Read rates from a wide ECB file: a "Date" column followed by one column per
+ * currency. Missing quotes ("N/A" or empty) are skipped.
+ */
+function parseWideRates(header: string[], rows: string[][]): RateInput[] {
+  const rates: RateInput[] = [];
+  for (const row of rows) {
+    const date = parseEcbDate(row[0] ?? '');
+    if (!date) continue;
+
+    header.forEach((currency, index) => {
+      if (index === 0 || !CURRENCY_PATTERN.test(currency)) return;
+      if (currency === EXCHANGE_RATE_REFERENCE_CURRENCY) return;
+      const rate = parseRate(row[index] ?? '');
+      if (rate !== null) rates.push({ currency, date, rate });
+    });
+  }
+  return rates;
+}
+
+/**
+ * Read rates from a long ECB Data Portal file: one observation per row, with
+ * CURRENCY, TIME_PERIOD and OBS_VALUE columns. Only rates against the euro are
+ * kept.
+ */
+function parseLongRates(header: string[], rows: string[][]): RateInput[] {
+  const currencyIndex = header.indexOf('CURRENCY');
+  const denominatorIndex = header.indexOf('CURRENCY_DENOM');
+  const dateIndex = header.indexOf('TIME_PERIOD');
+  const valueIndex = header.indexOf('OBS_VALUE');
+
+  const rates: RateInput[] = [];
+  for (const row of rows) {
+    const currency = (row[currencyIndex] ?? '').trim().toUpperCase();
+    if (!CURRENCY_PATTERN.test(currency) || currency === EXCHANGE_RATE_REFERENCE_CURRENCY) continue;
+    if (
+      denominatorIndex !== -1 &&
+      (row[denominatorIndex] ?? '').trim() !== EXCHANGE_RATE_REFERENCE_CURRENCY
+    ) {
+      continue;
+    }
+
+    const date = parseEcbDate(row[dateIndex] ?? '');
+    const rate = parseRate(row[valueIndex] ?? '');
+    if (date && rate !== null) rates.push({ currency, date, rate });
+  }
+  return rates;
+}
+
+/**
+ * Import ECB euro reference rates from CSV. Accepts the daily and historical
+ * files published by the ECB (a Date column and one column per currency) and
+ * Data Portal exports (one observation per row). Rates already set for a
+ * currency and date are replaced. Returns the number of rates imported.
+ */
+export function importEcbRates(workspaceId: number, csv: string): number {
+  const [headerRow, ...rows] = parseCsvRows(csv.replace(/^\uFEFF/, ''), ',').filter((row) =>
+    row.some((cell) => cell.trim() !== '')
+  );
+  const header = (headerRow ?? []).map((cell) => cell.trim().toUpperCase());
+
+  let rates: RateInput[];
+  if (header[0] === 'DATE') {
+    rates = parseWideRates(header, rows);
+  } else if (['CURRENCY', 'TIME_PERIOD', 'OBS_VALUE'].every((column) => header.includes(column))) {
+    rates = parseLongRates(header, rows);
+  } else {
+    throw AppError.badRequest('The file is not an ECB reference rates CSV');
+  }
+
+  if (rates.length === 0) {
+    throw AppError.badRequest('No exchange rates found in the file');
+  }
+
+  upsertRates(workspaceId, rates);
+  return rates.length;
+}
@@ -0,0 +1,405 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+vi.mock('./accountService.js', () => ({ getAccount: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { getAccount } from './accountService.js';
+import {
+  getLoanSchedule,
+  getLoanSummary,
+  createLoan,
+  updateLoan,
+  deleteLoan,
+  linkLoanPayments,
+  unlinkLoanPayment,
+  setEuriborRate,
+} from './loanService.js';
+
+const mockDb = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
+
+const fixedLoanRow = {
+  id: 7,
+  workspace_id: 1,
+  name: 'Car loan',
+  principal: 12000,
+  currency: 'EUR',
+  rate_type: 'fixed',
+  fixed_rate: 3.6,
+  euribor_tenor: null,
+  spread: null,
+  term_months: 12,
+  start_date: '2024-01-10',
+  account_id: null,
+  description_pattern: null,
+  created_at: '2024-01-01',
+};
+
+const euriborLoanRow = {
+  ...fixedLoanRow,
+  id: 8,
+  name: 'Mortgage',
+  principal: 6000,
+  rate_type: 'euribor',
+  fixed_rate: null,
+  euribor_tenor: '3M',
+  spread: 1,
+  term_months: 6,
+  start_date: '2024-02-01',
+};
+
+interface MockOptions {
+  loan?: unknown;
+  payments?: unknown[];
+  candidates?: unknown[];
+  euribor?: Record<string, number>;
+  mockRun?: ReturnType<typeof vi.fn>;
+}
+
+/**
+ * Routes the queries of the loan service: the loan, its linked payments, the
+ * payment candidates and Euribor values by review date.
+ */
+function mockLoanQueries({
+  loan = fixedLoanRow,
+  payments = [],
+  candidates = [],
+  euribor = {},
+  mockRun = vi.fn(() => ({ changes: 1, lastInsertRowid: 7 })),
+}: MockOptions = {}) {
+  mockDb.prepare.mockImplementation((sql: string) => {
+    if (sql.includes('FROM loans WHERE id')) return { get: vi.fn().mockReturnValue(loan) };
+    if (sql.includes('FROM loan_payments lp')) return { all: vi.fn().mockReturnValue(payments) };
+    if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue(candidates) };
+    if (sql.includes('SELECT rate FROM euribor_rates') && sql.includes('date <= ?')) {
+      return {
+        get: vi.fn((_ws: number, _tenor: string, date: string) => {
+          const dates = Object.keys(euribor).filter((d) => d <= date);
+          return dates.length > 0 ? { rate: euribor[dates.sort().at(-1)!] } : undefined;
+        }),
+      };
+    }
+    if (sql.includes('SELECT rate FROM euribor_rates')) return { get: vi.fn() };
+    return { run: mockRun, get: vi.fn(), all: vi.fn().mockReturnValue([]) };
+  });
+  return mockRun;
+}
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Amortization schedule
+// ---------------------------------------------------------------------------
+describe('getLoanSchedule', () => {
+  it('repays a fixed-rate loan in equal installments', () => {
+    mockLoanQueries();
+
+    const schedule = getLoanSchedule(7, 1);
+
+    expect(schedule).toHaveLength(12);
+    expect(schedule[0]).toEqual({
+      number: 1,
+      date: '2024-01-10',
+      rate: 3.6,
+      payment: 1019.61,
+      interest: 36,
+      principal: 983.61,
+      balance: 11016.39,
+      transactionId: null,
+      paidAmount: null,
+      paidDate: null,
+    });
+    expect(schedule[1]).toMatchObject({ date: '2024-02-10', interest: 33.05, balance: 10029.83 });
+    expect(schedule[11]).toMatchObject({
+      date: '2024-12-10',
+      payment: 1019.57,
+      principal: 1016.52,
+      balance: 0,
+    });
+  });
+
+  it('splits a loan without interest evenly', () => {
+    mockLoanQueries({
+      loan: { ...fixedLoanRow, principal: 1000, fixed_rate: 0, term_months: 3 },
+    });
+
+    const schedule = getLoanSchedule(7, 1);
+
+    expect(schedule.map((installment) => installment.payment)).toEqual([333.33, 333.33, 333.34]);
+    expect(schedule.every((installment) => installment.interest === 0)).toBe(true);
+  });
+
+  it('revises a Euribor loan every tenor period', () => {
+    mockLoanQueries({
+      loan: euriborLoanRow,
+      euribor: { '2024-01-01': 3, '2024-03-28': 1.8 },
+    });
+
+    const schedule = getLoanSchedule(8, 1);
+
+    expect(schedule.map((installment) => installment.rate)).toEqual([4, 4, 4, 2.8, 2.8, 2.8]);
+    expect(schedule[0]).toMatchObject({ payment: 1011.7, interest: 20, balance: 5008.3 });
+    expect(schedule[3]).toMatchObject({ payment: 1009.68, interest: 7.03, balance: 2012.32 });
+    expect(schedule[5]).toMatchObject({ payment: 1009.69, balance: 0 });
+  });
+
+  it('adds the linked payment of each installment', () => {
+    mockLoanQueries({
+      payments: [
+        { installment_number: 2, transaction_id: 40, amount: 1019.61, date: '2024-02-12' },
+      ],
+    });
+
+    const schedule = getLoanSchedule(7, 1);
+
+    expect(schedule[0].transactionId).toBeNull();
+    expect(schedule[1]).toMatchObject({
+      transactionId: 40,
+      paidAmount: 1019.61,
+      paidDate: '2024-02-12',
+    });
+  });
+
+  it('throws not found for a loan of another workspace', () => {
+    mockLoanQueries({ loan: null });
+
+    expect(() => getLoanSchedule(7, 2)).toThrow('Loan not found');
+  });
+});
+
+describe('getLoanSummary', () => {
+  it('reports the balance and interest of the installments due', () => {
+    mockLoanQueries({
+      payments: [
+        { installment_number: 1, transaction_id: 40, amount: 1019.61, date: '2024-01-10' },
+      ],
+    });
+
+    const summary = getLoanSummary(7, 1, '2024-02-15');
+
+    expect(summary).toMatchObject({
+      currentRate: 3.6,
+      monthlyPayment: 1019.61,
+      remainingBalance: 10029.83,
+      interestPaid: 69.05,
+      dueInstallments: 2,
+      linkedInstallments: 1,
+      nextPaymentDate: '2024-03-10',
+      payoffDate: '2024-12-10',
+    });
+  });
+
+  it('reports the principal before the first installment and nothing after payoff', () => {
+    mockLoanQueries();
+
+    expect(getLoanSummary(7, 1, '2023-12-01')).toMatchObject({
+      remainingBalance: 12000,
+      dueInstallments: 0,
+    });
+    expect(getLoanSummary(7, 1, '2025-01-01')).toMatchObject({
+      remainingBalance: 0,
+      nextPaymentDate: null,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Loans
+// ---------------------------------------------------------------------------
+describe('createLoan', () => {
+  it('inserts the loan with the workspace base currency by default', () => {
+    const mockRun = mockLoanQueries();
+
+    createLoan({
+      workspaceId: 1,
+      name: 'Car loan',
+      principal: 12000,
+      rateType: 'fixed',
+      fixedRate: 3.6,
+      spread: 2,
+      termMonths: 12,
+      startDate: '2024-01-10',
+    });
+
+    expect(mockRun).toHaveBeenCalledWith(
+      1,
+      'Car loan',
+      12000,
+      null,
+      1,
+      'fixed',
+      3.6,
+      null,
+      null,
+      12,
+      '2024-01-10',
+      null,
+      null
+    );
+  });
+
+  it('rejects a Euribor loan without a spread', () => {
+    expect(() =>
+      createLoan({
+        workspaceId: 1,
+        name: 'Mortgage',
+        principal: 6000,
+        rateType: 'euribor',
+        euriborTenor: '6M',
+        termMonths: 6,
+        startDate: '2024-02-01',
+      })
+    ).toThrow('A Euribor loan needs a tenor and a spread');
+    expect(mockDb.prepare).not.toHaveBeenCalled();
+  });
+
+  it('checks the account belongs to the workspace', () => {
+    vi.mocked(getAccount).mockImplementation(() => {
+      throw AppError.notFound('Account not found');
+    });
+
+    expect(() =>
+      createLoan({
+        workspaceId: 1,
+        name: 'Car loan',
+        principal: 12000,
+        rateType: 'fixed',
+        fixedRate: 3.6,
+        termMonths: 12,
+        startDate: '2024-01-10',
+        accountId: 99,
+      })
+    ).toThrow('Account not found');
+  });
+});
+
+describe('updateLoan', () => {
+  it('throws bad request without fields', () => {
+    mockLoanQueries();
+
+    expect(() => updateLoan(7, 1, {})).toThrow('No fields to update');
+  });
+
+  it('rejects switching to a fixed rate without one', () => {
+    mockLoanQueries({ loan: euriborLoanRow });
+
+    expect(() => updateLoan(8, 1, { rateType: 'fixed' })).toThrow('A fixed-rate loan needs a rate');
+  });
+});
+
+describe('deleteLoan', () => {
+  it('throws not found when nothing was deleted', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => deleteLoan(99, 1)).toThrow('Loan not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Payments
+// ---------------------------------------------------------------------------
+describe('linkLoanPayments', () => {
+  const payment = (id: number, date: string, amount: number, extra: object = {}) => ({
+    id,
+    date,
+    amount,
+    description: 'Pagamento Prestação',
+    transaction_type: 'LOAN_PAYMENT',
+    account_id: 3,
+    ...extra,
+  });
+
+  it('links each installment to the closest matching payment', () => {
+    const mockRun = mockLoanQueries({
+      candidates: [
+        payment(40, '2024-01-08', 1019.61),
+        payment(41, '2024-01-10', 1019.61),
+        payment(42, '2024-02-12', 1040),
+        payment(43, '2024-03-25', 1019.61),
+        payment(44, '2024-04-10', 1200),
+      ],
+    });
+
+    expect(linkLoanPayments(7, 1)).toBe(2);
+    expect(mockRun.mock.calls).toEqual([
+      [7, 41, 1],
+      [7, 42, 2],
+    ]);
+  });
+
+  it('matches the description pattern and account of the loan', () => {
+    const mockRun = mockLoanQueries({
+      loan: { ...fixedLoanRow, account_id: 3, description_pattern: 'car' },
+      candidates: [
+        payment(40, '2024-01-10', 1019.61),
+        payment(41, '2024-01-10', 1019.61, { description: 'CAR FINANCE', transaction_type: null }),
+        payment(42, '2024-02-10', 1019.61, { description: 'Car finance', account_id: 4 }),
+      ],
+    });
+
+    expect(linkLoanPayments(7, 1)).toBe(1);
+    expect(mockRun).toHaveBeenCalledWith(7, 41, 1);
+  });
+
+  it('skips installments that already have a payment', () => {
+    const mockRun = mockLoanQueries({
+      payments: [
+        { installment_number: 1, transaction_id: 40, amount: 1019.61, date: '2024-01-10' },
+      ],
+      candidates: [payment(41, '2024-01-11', 1019.61)],
+    });
+
+    expect(linkLoanPayments(7, 1)).toBe(0);
+    expect(mockRun).not.toHaveBeenCalled();
+  });
+});
+
+describe('unlinkLoanPayment', () => {
+  it('marks the payment as unlinked', () => {
+    const mockRun = mockLoanQueries();
+
+    unlinkLoanPayment(7, 1, 40);
+
+    expect(mockRun).toHaveBeenCalledWith(7, 40);
+  });
+
+  it('throws not found for a payment that is not linked', () => {
+    mockLoanQueries({ mockRun: vi.fn(() => ({ changes: 0 })) });
+
+    expect(() => unlinkLoanPayment(7, 1, 40)).toThrow('Loan payment not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Euribor rates
+// ---------------------------------------------------------------------------
+describe('setEuriborRate', () => {
+  it('upserts the value of the tenor and date', () => {
+    const mockRun = vi.fn();
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('INSERT INTO euribor_rates')) return { run: mockRun };
+      return {
+        get: vi.fn().mockReturnValue({
+          id: 2,
+          workspace_id: 1,
+          tenor: '12M',
+          date: '2024-01-02',
+          rate: 3.5,
+          created_at: '2024-01-02',
+        }),
+      };
+    });
+
+    const rate = setEuriborRate(1, { tenor: '12M', date: '2024-01-02', rate: 3.5 });
+
+    expect(mockRun).toHaveBeenCalledWith(1, '12M', '2024-01-02', 3.5);
+    expect(rate).toMatchObject({ id: 2, tenor: '12M', rate: 3.5 });
+  });
+});
@@ -0,0 +1,591 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { addMonths, todayIso } from '../utils/dateHelpers.js';
+import { NOT_TRANSFER_CONDITION } from '../utils/transferHelpers.js';
+import { getAccount } from './accountService.js';
+import {
+  LOAN_PAYMENT_AMOUNT_TOLERANCE,
+  LOAN_PAYMENT_MATCH_DAYS,
+  type CreateLoanRequest,
+  type EuriborRate,
+  type EuriborTenor,
+  type Loan,
+  type LoanInstallment,
+  type LoanRateType,
+  type LoanSummary,
+  type UpdateLoanRequest,
+} from '@compasso/shared';
+
+interface LoanRow {
+  id: number;
+  workspace_id: number;
+  name: string;
+  principal: number;
+  currency: string;
+  rate_type: LoanRateType;
+  fixed_rate: number | null;
+  euribor_tenor: EuriborTenor | null;
+  spread: number | null;
+  term_months: number;
+  start_date: string;
+  account_id: number | null;
+  description_pattern: string | null;
+  created_at: string;
+}
+
+interface EuriborRateRow {
+  id: number;
+  workspace_id: number;
+  tenor: EuriborTenor;
+  date: string;
+  rate: number;
+  created_at: string;
+}
+
+interface PaymentRow {
+  installment_number: number;
+  transaction_id: number;
+  amount: number;
+  date: string;
+}
+
+type ScheduledInstallment = Omit<LoanInstallment, 'transactionId' | 'paidAmount' | 'paidDate'>;
+
+interface CandidateRow {
+  id: number;
+  date: string;
+  amount: number;
+  description: string;
+  transaction_type: string | null;
+  account_id: number | null;
+}
+
+const LOAN_COLUMNS =
+  'id, workspace_id, name, principal, currency, rate_type, fixed_rate, euribor_tenor, spread, term_months, start_date, account_id, description_pattern, created_at';
+
+const EURIBOR_COLUMNS = 'id, workspace_id, tenor, date, rate, created_at';
+
+const TENOR_MONTHS: Record<EuriborTenor, number> = { '3M': 3, '6M': 6, '12M': 12 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function mapLoanRow(row: LoanRow): Loan {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    principal: row.principal,
+    currency: row.currency,
+    rateType: row.rate_type,
+    fixedRate: row.fixed_rate,
+    euriborTenor: row.euribor_tenor,
+    spread: row.spread,
+    termMonths: row.term_months,
+    startDate: row.start_date,
+    accountId: row.account_id,
+    descriptionPattern: row.description_pattern,
+    createdAt: row.created_at,
+  };
+}
+
+function mapEuriborRateRow(row: EuriborRateRow): EuriborRate {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    tenor: row.tenor,
+    date: row.date,
+    rate: row.rate,
+    createdAt: row.created_at,
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+/**
+ * Fixed-rate loans need a rate; Euribor loans need a tenor and a spread.
+ */
+function assertRateTerms(loan: Pick<Loan, 'rateType' | 'fixedRate' | 'euriborTenor' | 'spread'>) {
+  if (loan.rateType === 'fixed' && loan.fixedRate === null) {
+    throw AppError.badRequest('A fixed-rate loan needs a rate');
+  }
+  if (loan.rateType === 'euribor' && (loan.euriborTenor === null || loan.spread === null)) {
+    throw AppError.badRequest('A Euribor loan needs a tenor and a spread');
+  }
+}
+
+/**
+ * Euribor rate of a tenor on a date: the workspace's latest value on or before
+ * it, else its earliest value after it. 0 without any value.
+ */
+function findEuriborRate(workspaceId: number, tenor: EuriborTenor, date: string): number {
+  const db = getDatabase();
+  const before = db
+    .prepare(
+      `SELECT rate FROM euribor_rates WHERE workspace_id = ? AND tenor = ? AND date <= ?
+      ORDER BY date DESC LIMIT 1`
+    )
+    .get(workspaceId, tenor, date) as { rate: number } | undefined;
+  if (before) return before.rate;
+
+  const after = db
+    .prepare(
+      `SELECT rate FROM euribor_rates WHERE workspace_id = ? AND tenor = ? AND date > ?
+      ORDER BY date ASC LIMIT 1`
+    )
+    .get(workspaceId, tenor, date) as { rate: number } | undefined;
+  return after?.rate ?? 0;
+}
+
+/**
+ * Months between rate reviews: a Euribor loan is revised every tenor period,
+ * a fixed-rate loan never.
+ */
+function reviewMonths(loan: Loan): number {
+  return loan.rateType === 'euribor' && loan.euriborTenor
+    ? TENOR_MONTHS[loan.euriborTenor]
+    : loan.termMonths;
+}
+
+/**
+ * Annual rate set at the review before an installment. Euribor is read a month
+ * before the installment, at the start of the period it pays.
+ */
+function reviewRate(loan: Loan, installmentIndex: number): number {
+  if (loan.rateType === 'fixed' || !loan.euriborTenor) return loan.fixedRate ?? 0;
+
+  const reviewDate = addMonths(loan.startDate, installmentIndex - 1);
+  const rate =
+    findEuriborRate(loan.workspaceId, loan.euriborTenor, reviewDate) + (loan.spread ?? 0);
+  return Math.round(rate * 1000) / 1000;
+}
+
+/**
+ * Installment that repays a balance over the remaining months at a monthly rate.
+ */
+function installmentAmount(balance: number, monthlyRate: number, months: number): number {
+  if (monthlyRate === 0) return roundCents(balance / months);
+  return roundCents((balance * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months)));
+}
+
+/**
+ * Build a loan's amortization schedule with the French method: equal monthly
+ * installments, recomputed on the remaining balance at every rate review. The
+ * last installment clears whatever balance is left.
+ */
+function buildSchedule(loan: Loan): ScheduledInstallment[] {
+  const schedule: ScheduledInstallment[] = [];
+  let balance = loan.principal;
+  let rate = 0;
+  let payment = 0;
+
+  for (let index = 0; index < loan.termMonths; index++) {
+    if (index % reviewMonths(loan) === 0) {
+      rate = reviewRate(loan, index);
+      payment = installmentAmount(balance, rate / 100 / 12, loan.termMonths - index);
+    }
+
+    const interest = roundCents((balance * rate) / 100 / 12);
+    const isLast = index === loan.termMonths - 1;
+    const principal = isLast ? balance : Math.min(roundCents(payment - interest), balance);
+    balance = roundCents(balance - principal);
+
+    schedule.push({
+      number: index + 1,
+      date: addMonths(loan.startDate, index),
+      rate,
+      payment: roundCents(principal + interest),
+      interest,
+      principal,
+      balance,
+    });
+  }
+
+  return schedule;
+}
+
+function getLinkedPayments(loanId: number): PaymentRow[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `SELECT lp.installment_number, lp.transaction_id, t.amount, t.date
+      FROM loan_payments lp
+      JOIN transactions t ON lp.transaction_id = t.id
+      WHERE lp.loan_id = ? AND lp.status = 'linked'`
+    )
+    .all(loanId) as PaymentRow[];
+}
+
+function summarizeLoan(loan: Loan, schedule: LoanInstallment[], today: string): LoanSummary {
+  const due = schedule.filter((installment) => installment.date <= today);
+  const next = schedule.find((installment) => installment.date > today);
+  const current = next ?? schedule.at(-1)!;
+
+  return {
+    ...loan,
+    currentRate: current.rate,
+    monthlyPayment: current.payment,
+    remainingBalance: due.at(-1)?.balance ?? loan.principal,
+    interestPaid: roundCents(due.reduce((sum, installment) => sum + installment.interest, 0)),
+    dueInstallments: due.length,
+    linkedInstallments: schedule.filter((installment) => installment.transactionId !== null).length,
+    nextPaymentDate: next?.date ?? null,
+    payoffDate: schedule.at(-1)!.date,
+  };
+}
+
+/**
+ * Get a single loan, scoped to its workspace.
+ */
+export function getLoan(loanId: number, workspaceId: number): Loan {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT ${LOAN_COLUMNS} FROM loans WHERE id = ? AND workspace_id = ?`)
+    .get(loanId, workspaceId) as LoanRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('Loan not found');
+  }
+
+  return mapLoanRow(row);
+}
+
+/**
+ * Get a loan's amortization schedule, with the payment linked to each
+ * installment.
+ */
+export function getLoanSchedule(loanId: number, workspaceId: number): LoanInstallment[] {
+  const loan = getLoan(loanId, workspaceId);
+  const payments = new Map(
+    getLinkedPayments(loanId).map((payment) => [payment.installment_number, payment])
+  );
+
+  return buildSchedule(loan).map((installment) => {
+    const payment = payments.get(installment.number);
+    return {
+      ...installment,
+      transactionId: payment?.transaction_id ?? null,
+      paidAmount: payment?.amount ?? null,
+      paidDate: payment?.date ?? null,
+    };
+  });
+}
+
+/**
+ * List a workspace's loans by name, with their remaining balance and payoff
+ * date as of `date`.
+ */
+export function listLoans(workspaceId: number, date: string = todayIso()): LoanSummary[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(`SELECT ${LOAN_COLUMNS} FROM loans WHERE workspace_id = ? ORDER BY name ASC`)
+    .all(workspaceId) as LoanRow[];
+
+  return rows.map((row) =>
+    summarizeLoan(mapLoanRow(row), getLoanSchedule(row.id, workspaceId), date)
+  );
+}
+
+/**
+ * Create a loan. Its currency defaults to the workspace base currency, and
+ * installments already paid are linked right away.
+ */
+export function createLoan(data: CreateLoanRequest): LoanSummary {
+  const loan = {
+    rateType: data.rateType,
+    fixedRate: data.rateType === 'fixed' ? (data.fixedRate ?? null) : null,
+    euriborTenor: data.rateType === 'euribor' ? (data.euriborTenor ?? null) : null,
+    spread: data.rateType === 'euribor' ? (data.spread ?? null) : null,
+  };
+  assertRateTerms(loan);
+  if (data.accountId != null) {
+    getAccount(data.accountId, data.workspaceId);
+  }
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `INSERT INTO loans (workspace_id, name, principal, currency, rate_type, fixed_rate, euribor_tenor, spread, term_months, start_date, account_id, description_pattern)
+       VALUES (?, ?, ?, COALESCE(?, (SELECT base_currency FROM workspaces WHERE id = ?)), ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      data.workspaceId,
+      data.name,
+      data.principal,
+      data.currency ?? null,
+      data.workspaceId,
+      loan.rateType,
+      loan.fixedRate,
+      loan.euriborTenor,
+      loan.spread,
+      data.termMonths,
+      data.startDate,
+      data.accountId ?? null,
+      data.descriptionPattern || null
+    );
+
+  const loanId = Number(result.lastInsertRowid);
+  linkLoanPayments(loanId, data.workspaceId);
+  return getLoanSummary(loanId, data.workspaceId);
+}
+
+/**
+ * Update a loan. Changing its terms rebuilds the schedule; payments already
+ * linked keep their installment.
+ */
+export function updateLoan(
+  loanId: number,
+  workspaceId: number,
+  data: UpdateLoanRequest
+): LoanSummary {
+  const existing = getLoan(loanId, workspaceId);
+  const fields: Array<[string, unknown]> = [];
+
+  if (data.name !== undefined) fields.push(['name', data.name]);
+  if (data.principal !== undefined) fields.push(['principal', data.principal]);
+  if (data.currency !== undefined) fields.push(['currency', data.currency]);
+  if (data.rateType !== undefined) fields.push(['rate_type', data.rateType]);
+  if (data.fixedRate !== undefined) fields.push(['fixed_rate', data.fixedRate]);
+  if (data.euriborTenor !== undefined) fields.push(['euribor_tenor', data.euriborTenor]);
+  if (data.spread !== undefined) fields.push(['spread', data.spread]);
+  if (data.termMonths !== undefined) fields.push(['term_months', data.termMonths]);
+  if (data.startDate !== undefined) fields.push(['start_date', data.startDate]);
+  if (data.accountId !== undefined) fields.push(['account_id', data.accountId]);
+  if (data.descriptionPattern !== undefined) {
+    fields.push(['description_pattern', data.descriptionPattern || null]);
+  }
+
+  if (fields.length === 0) {
+    throw AppError.badRequest('No fields to update');
+  }
+
+  assertRateTerms({
+    rateType: data.rateType ?? existing.rateType,
+    fixedRate: data.fixedRate !== undefined ? data.fixedRate : existing.fixedRate,
+    euriborTenor: data.euriborTenor !== undefined ? data.euriborTenor : existing.euriborTenor,
+    spread: data.spread !== undefined ? data.spread : existing.spread,
+  });
+  if (data.accountId != null) {
+    getAccount(data.accountId, workspaceId);
+  }
+
+  const db = getDatabase();
+  db.prepare(
+    `UPDATE loans SET ${fields.map(([column]) => `${column} = ?`).join(', ')}
+     WHERE id = ? AND workspace_id = ?`
+  ).run(...fields.map(([, value]) => value), loanId, workspaceId);
+
+  linkLoanPayments(loanId, workspaceId);
+  return getLoanSummary(loanId, workspaceId);
+}
+
+/**
+ * Delete a loan. Its payment transactions are kept.
+ */
+export function deleteLoan(loanId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const result = db
+    .prepare('DELETE FROM loans WHERE id = ? AND workspace_id = ?')
+    .run(loanId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Loan not found');
+  }
+}
+
+/**
+ * Get a loan with its remaining balance and payoff date as of `date`.
+ */
+export function getLoanSummary(
+  loanId: number,
+  workspaceId: number,
+  date: string = todayIso()
+): LoanSummary {
+  const loan = getLoan(loanId, workspaceId);
+  return summarizeLoan(loan, getLoanSchedule(loanId, workspaceId), date);
+}
+
+/**
+ * Whether a transaction looks like a loan's installment: it is paid from the
+ * loan's account, when it has one, and its description contains the loan's
+ * pattern, or it is a bank-typed loan payment when the loan has no pattern.
+ */
+function isPaymentCandidate(loan: Loan, candidate: CandidateRow): boolean {
+  if (loan.accountId !== null && candidate.account_id !== loan.accountId) return false;
+  if (loan.descriptionPattern) {
+    return candidate.description.toLowerCase().includes(loan.descriptionPattern.toLowerCase());
+  }
+  return candidate.transaction_type === 'LOAN_PAYMENT';
+}
+
+/**
+ * Link a loan's unpaid installments to the expenses that pay them: each takes
+ * the closest candidate at most LOAN_PAYMENT_MATCH_DAYS from its due date whose
+ * amount is within LOAN_PAYMENT_AMOUNT_TOLERANCE of the installment.
+ * Transactions already linked to a loan, and links that were undone, are
+ * skipped. Returns the number of payments linked.
+ */
+export function linkLoanPayments(loanId: number, workspaceId: number): number {
+  const loan = getLoan(loanId, workspaceId);
+  const db = getDatabase();
+  const candidates = (
+    db
+      .prepare(
+        `
+        SELECT t.id, t.date, t.amount, t.description, t.transaction_type, l.account_id
+        FROM transactions t
+        JOIN ledgers l ON t.ledger_id = l.id
+        WHERE l.workspace_id = ? AND l.status = 'confirmed' AND t.is_income = 0
+          AND ${NOT_TRANSFER_CONDITION}
+          AND t.id NOT IN (
+            SELECT transaction_id FROM loan_payments WHERE status = 'linked' OR loan_id = ?
+          )
+        ORDER BY t.date ASC, t.id ASC
+      `
+      )
+      .all(workspaceId, loanId) as CandidateRow[]
+  ).filter((candidate) => isPaymentCandidate(loan, candidate));
+
+  const linkedInstallments = new Set(
+    getLinkedPayments(loanId).map((payment) => payment.installment_number)
+  );
+  const used = new Set<number>();
+  const links: Array<[number, number]> = [];
+
+  for (const installment of buildSchedule(loan)) {
+    if (linkedInstallments.has(installment.number)) continue;
+
+    let best: CandidateRow | null = null;
+    for (const candidate of candidates) {
+      if (used.has(candidate.id)) continue;
+      if (
+        Math.abs(candidate.amount - installment.payment) >
+        installment.payment * LOAN_PAYMENT_AMOUNT_TOLERANCE
+      ) {
+        continue;
+      }
+
+      const days = daysBetween(candidate.date, installment.date);
+      if (days > LOAN_PAYMENT_MATCH_DAYS) continue;
+      if (!best || days < daysBetween(best.date, installment.date)) {
+        best = candidate;
+      }
+    }
+
+    if (best) {
+      used.add(best.id);
+      links.push([installment.number, best.id]);
+    }
+  }
+
+  if (links.length === 0) return 0;
+
+  const insert = db.prepare(
+    'INSERT INTO loan_payments (loan_id, transaction_id, installment_number) VALUES (?, ?, ?)'
+  );
+  const insertAll = db.transaction(() => {
+    for (const [installmentNumber, transactionId] of links) {
+      insert.run(loanId, transactionId, installmentNumber);
+    }
+  });
+  insertAll();
+
+  return links.length;
+}
+
+/**
+ * Link the installments of every loan in a workspace. Returns the number of
+ * payments linked.
+ */
+export function linkAllLoanPayments(workspaceId: number): number {
+  const db = getDatabase();
+  const loans = db
+    .prepare('SELECT id FROM loans WHERE workspace_id = ?')
+    .all(workspaceId) as Array<{
+    id: number;
+  }>;
+
+  return loans.reduce((sum, loan) => sum + linkLoanPayments(loan.id, workspaceId), 0);
+}
+
+/**
+ * Undo the link between a loan and a payment. The transaction will not be
+ * linked to the loan again.
+ */
+export function unlinkLoanPayment(
+  loanId: number,
+  workspaceId: number,
+  transactionId: number
+): void {
+  getLoan(loanId, workspaceId);
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "UPDATE loan_payments SET status = 'unlinked' WHERE loan_id = ? AND transaction_id = ? AND status = 'linked'"
+    )
+    .run(loanId, transactionId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Loan payment not found');
+  }
+}
+
+/**
+ * List a workspace's Euribor values, newest first, optionally for one tenor.
+ */
+export function listEuriborRates(workspaceId: number, tenor?: EuriborTenor): EuriborRate[] {
+  const db = getDatabase();
+  const condition = tenor ? 'AND tenor = ?' : '';
+  const rows = db
+    .prepare(
+      `SELECT ${EURIBOR_COLUMNS} FROM euribor_rates
+      WHERE workspace_id = ? ${condition}
+      ORDER BY date DESC, tenor ASC`
+    )
+    .all(...(tenor ? [workspaceId, tenor] : [workspaceId])) as EuriborRateRow[];
+
+  return rows.map(mapEuriborRateRow);
+}
+
+/**
+ * Set the Euribor value of a tenor on a date, replacing any value already set
+ * for it.
+ */
+export function setEuriborRate(
+  workspaceId: number,
+  data: { tenor: EuriborTenor; date: string; rate: number }
+): EuriborRate {
+  const db = getDatabase();
+  db.prepare(
+    `INSERT INTO euribor_rates (workspace_id, tenor, date, rate) VALUES (?, ?, ?, ?)
+     ON CONFLICT(workspace_id, tenor, date) DO UPDATE SET rate = excluded.rate`
+  ).run(workspaceId, data.tenor, data.date, data.rate);
+
+  const row = db
+    .prepare(
+      `SELECT ${EURIBOR_COLUMNS} FROM euribor_rates WHERE workspace_id = ? AND tenor = ? AND date = ?`
+    )
+    .get(workspaceId, data.tenor, data.date) as EuriborRateRow;
+
+  return mapEuriborRateRow(row);
+}
+
+/**
+ * Delete a Euribor value of the workspace.
+ */
+export function deleteEuriborRate(rateId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const result = db
+    .prepare('DELETE FROM euribor_rates WHERE id = ? AND workspace_id = ?')
+    .run(rateId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Euribor rate not found');
+  }
+}
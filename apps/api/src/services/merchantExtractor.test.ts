@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { extractMerchantName, merchantKey } from './merchantExtractor.js';
+
+describe('extractMerchantName', () => {
+  it('should strip the Novo Banco card purchase prefix, card number and location', () => {
+    expect(extractMerchantName('Compra Mb Cartão 1234 Pingo Doce Lisboa', 'novo_banco')).toBe(
+      'Pingo Doce'
+    );
+  });
+
+  it('should strip the CGD card purchase prefix and title-case upper-case names', () => {
+    expect(extractMerchantName('COMPRA 5678 CONTINENTE ALMADA', 'cgd')).toBe('Continente');
+  });
+
+  it('should strip several trailing locations ignoring accents', () => {
+    expect(
+      extractMerchantName('Compra Mb Cartão 1234 Farmacia Central Setúbal PT', 'novo_banco')
+    ).toBe('Farmacia Central');
+  });
+
+  it('should keep a name that is only a location', () => {
+    expect(extractMerchantName('Compra Mb Cartão 1234 Porto', 'novo_banco')).toBe('Porto');
+  });
+
+  it('should strip transfer prefixes to the counterparty name', () => {
+    expect(extractMerchantName('Trf Imediata Sepa+ De Joana Silva', 'novo_banco')).toBe(
+      'Joana Silva'
+    );
+  });
+
+  it('should remove dates, masked card numbers and references for any bank', () => {
+    expect(extractMerchantName('NETFLIX.COM 12/03 ****4321 123456789', 'ofx')).toBe('Netflix.com');
+  });
+
+  it('should use only the generic cleanup for unknown banks', () => {
+    expect(extractMerchantName('Spotify AB 2025-01-03', 'csv:3')).toBe('Spotify AB');
+  });
+
+  it('should return null for ATM withdrawals and bank fees', () => {
+    expect(
+      extractMerchantName('Levantamento Mb Cartão 1234 Lisboa', 'novo_banco', 'ATM')
+    ).toBeNull();
+    expect(extractMerchantName('Manutencao Conta', 'novo_banco', 'BANK_FEE')).toBeNull();
+  });
+
+  it('should return null when no name is left', () => {
+    expect(extractMerchantName('Compra Mb Cartão 1234 123456789', 'novo_banco')).toBeNull();
+  });
+});
+
+describe('merchantKey', () => {
+  it('should ignore case, accents and punctuation', () => {
+    expect(merchantKey('Café Nicola, Lda.')).toBe('CAFE NICOLA LDA');
+    expect(merchantKey('CAFE NICOLA LDA')).toBe('CAFE NICOLA LDA');
+  });
+});
@@ -0,0 +1,95 @@
+import type { TransactionType } from '@compasso/shared';
+import { BANK_MERCHANT_RULES } from '../parsers/registry.js';
+import type { MerchantRules } from '../parsers/types.js';
+
+/**
+ * Merchant name extraction from transaction descriptions.
+ *
+ * The bank's merchant rules strip transaction-type prefixes and card numbers,
+ * then dates, masked card numbers and long references are removed for every
+ * bank, and the bank's locations are dropped from the end of what remains
+ * (ignoring case and accents). ATM withdrawals and bank fees have no merchant.
+ */
+
+const NO_MERCHANT_TYPES: ReadonlySet<TransactionType> = new Set(['ATM', 'BANK_FEE']);
+
+const GENERIC_STRIP_PATTERNS = [
+  /\b\d{4}-\d{2}-\d{2}\b/g, // ISO dates
+  /\b\d{2}[./-]\d{2}([./-]\d{2,4})?\b/g, // DD/MM(/YYYY) dates
+  /[*X]{2,}\d{2,4}\b/gi, // Masked card numbers, e.g. ****1234
+  /\b\d{6,}\b/g, // Reference numbers
+];
+
+const NO_RULES: MerchantRules = { stripPatterns: [], locations: [] };
+
+// Upper case without accents, so "Setúbal" matches the location "Setubal"
+function fold(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase();
+}
+
+function stripTrailingLocations(text: string, locations: string[]): string {
+  const folded = locations.map(fold).sort((a, b) => b.length - a.length);
+  let result = text;
+  let stripped = true;
+
+  // Repeat for "... Lisboa PT"; a name that is only a location is kept
+  while (stripped) {
+    stripped = false;
+    const current = fold(result);
+    for (const location of folded) {
+      if (current.length > location.length && current.endsWith(` ${location}`)) {
+        result = result.slice(0, result.length - location.length - 1).trimEnd();
+        stripped = true;
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+// "PINGO DOCE" -> "Pingo Doce"; mixed-case names are kept as written
+function toDisplayName(text: string): string {
+  if (text !== text.toUpperCase()) return text;
+  return text.toLowerCase().replace(/(^|\s)(\S)/g, (_, space, char) => space + char.toUpperCase());
+}
+
+/**
+ * Normalized form of a merchant name used to match aliases: upper case,
+ * without accents or punctuation.
+ */
+export function merchantKey(name: string): string {
+  return fold(name)
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extract the merchant name from a description, or null when nothing that
+ * looks like a name is left (or the transaction type has no merchant).
+ */
+export function extractMerchantName(
+  description: string,
+  bankId: string,
+  transactionType?: TransactionType | null
+): string | null {
+  if (transactionType && NO_MERCHANT_TYPES.has(transactionType)) return null;
+
+  const rules = BANK_MERCHANT_RULES[bankId] ?? NO_RULES;
+  let text = description.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+  for (const pattern of rules.stripPatterns) {
+    text = text.replace(pattern, '').trim();
+  }
+  for (const pattern of GENERIC_STRIP_PATTERNS) {
+    text = text.replace(pattern, ' ');
+  }
+  text = text.replace(/\s+/g, ' ').replace(/^[\s\-–*/.,:;]+|[\s\-–*/.,:;]+$/g, '');
+  text = stripTrailingLocations(text, rules.locations);
+
+  if (!/\p{L}{2}/u.test(text)) return null;
+  return toDisplayName(text);
+}
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import {
+  listMerchants,
+  getMerchant,
+  resolveMerchantId,
+  findOrCreateMerchant,
+  assignMissingMerchants,
+  renameMerchant,
+  mergeMerchants,
+} from './merchantService.js';
+
+const mockDb = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
+
+const merchantRow = {
+  id: 7,
+  workspace_id: 1,
+  name: 'Pingo Doce',
+  created_at: '2025-01-01',
+  transaction_count: 20,
+};
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// listMerchants / getMerchant
+// ---------------------------------------------------------------------------
+describe('listMerchants', () => {
+  it('returns paginated merchants with their aliases', () => {
+    const mockAll = vi.fn().mockReturnValue([merchantRow]);
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('COUNT(*) as count')) return { get: vi.fn().mockReturnValue({ count: 1 }) };
+      if (sql.includes('FROM merchant_aliases')) {
+        return {
+          all: vi.fn().mockReturnValue([
+            { merchant_id: 7, alias: 'PINGO DOCE' },
+            { merchant_id: 7, alias: 'PINGO DOCE EXPRESS' },
+          ]),
+        };
+      }
+      return { all: mockAll };
+    });
+
+    const result = listMerchants(1, 50, 0, 'pingo');
+
+    expect(result).toEqual({
+      items: [
+        {
+          id: 7,
+          workspaceId: 1,
+          name: 'Pingo Doce',
+          aliases: ['PINGO DOCE', 'PINGO DOCE EXPRESS'],
+          transactionCount: 20,
+          createdAt: '2025-01-01',
+        },
+      ],
+      total: 1,
+      limit: 50,
+      offset: 0,
+    });
+    expect(mockAll).toHaveBeenCalledWith(1, '%pingo%', 50, 0);
+  });
+});
+
+describe('getMerchant', () => {
+  it('throws not found for a merchant of another workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => getMerchant(7, 2)).toThrow('Merchant not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveMerchantId / findOrCreateMerchant
+// ---------------------------------------------------------------------------
+describe('resolveMerchantId', () => {
+  it('returns the merchant an existing alias points to', () => {
+    const mockGet = vi.fn().mockReturnValue({ merchant_id: 7 });
+    mockDb.prepare.mockReturnValue({ get: mockGet, run: vi.fn() });
+
+    expect(resolveMerchantId(1, 'Pingo Doce')).toBe(7);
+    expect(mockGet).toHaveBeenCalledWith(1, 'PINGO DOCE');
+  });
+
+  it('creates a merchant with the name as its first alias', () => {
+    const mockAliasInsert = vi.fn();
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT merchant_id')) return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INSERT INTO merchants')) {
+        return { run: vi.fn().mockReturnValue({ lastInsertRowid: 9 }) };
+      }
+      return { run: mockAliasInsert };
+    });
+
+    expect(resolveMerchantId(1, 'Café Nicola')).toBe(9);
+    expect(mockAliasInsert).toHaveBeenCalledWith(9, 1, 'CAFE NICOLA');
+  });
+});
+
+describe('findOrCreateMerchant', () => {
+  it('returns null without touching the database when there is no merchant', () => {
+    expect(findOrCreateMerchant(1, 'novo_banco', 'Manutencao Conta', 'BANK_FEE')).toBeNull();
+    expect(mockDb.prepare).not.toHaveBeenCalled();
+  });
+
+  it('resolves the merchant extracted with the bank rules', () => {
+    const mockGet = vi.fn().mockReturnValue({ merchant_id: 7 });
+    mockDb.prepare.mockReturnValue({ get: mockGet });
+
+    expect(findOrCreateMerchant(1, 'novo_banco', 'Compra Mb Cartão 1234 Pingo Doce Lisboa')).toBe(
+      7
+    );
+    expect(mockGet).toHaveBeenCalledWith(1, 'PINGO DOCE');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// assignMissingMerchants
+// ---------------------------------------------------------------------------
+describe('assignMissingMerchants', () => {
+  it('links transactions without a merchant and skips those without a name', () => {
+    const mockUpdate = vi.fn();
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('t.merchant_id IS NULL')) {
+        return {
+          all: vi.fn().mockReturnValue([
+            {
+              id: 1,
+              description: 'Compra Mb Cartão 1234 Pingo Doce Lisboa',
+              transaction_type: 'CARD_PURCHASE',
+              bank_id: 'novo_banco',
+            },
+            {
+              id: 2,
+              description: 'Manutencao Conta',
+              transaction_type: 'BANK_FEE',
+              bank_id: 'novo_banco',
+            },
+          ]),
+        };
+      }
+      if (sql.includes('SELECT merchant_id'))
+        return { get: vi.fn().mockReturnValue({ merchant_id: 7 }) };
+      return { run: mockUpdate };
+    });
+
+    expect(assignMissingMerchants(1)).toBe(1);
+    expect(mockUpdate).toHaveBeenCalledWith(7, 1);
+    expect(mockUpdate).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renameMerchant
+// ---------------------------------------------------------------------------
+describe('renameMerchant', () => {
+  it('renames the merchant and adds the new name as an alias', () => {
+    const mockRename = vi.fn();
+    const mockAlias = vi.fn();
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id FROM merchants WHERE id'))
+        return { get: vi.fn().mockReturnValue({ id: 7 }) };
+      if (sql.includes('COLLATE NOCASE')) return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('UPDATE merchants')) return { run: mockRename };
+      if (sql.includes('INSERT OR IGNORE')) return { run: mockAlias };
+      if (sql.includes('FROM merchant_aliases')) return { all: vi.fn().mockReturnValue([]) };
+      return { get: vi.fn().mockReturnValue({ ...merchantRow, name: 'Pingo Doce Supermercados' }) };
+    });
+
+    const result = renameMerchant(7, 1, 'Pingo Doce Supermercados');
+
+    expect(mockRename).toHaveBeenCalledWith('Pingo Doce Supermercados', 7);
+    expect(mockAlias).toHaveBeenCalledWith(7, 1, 'PINGO DOCE SUPERMERCADOS');
+    expect(result.name).toBe('Pingo Doce Supermercados');
+  });
+
+  it('rejects a name another merchant already has', () => {
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('COLLATE NOCASE')) return { get: vi.fn().mockReturnValue({ id: 8 }) };
+      return { get: vi.fn().mockReturnValue({ id: 7 }) };
+    });
+
+    expect(() => renameMerchant(7, 1, 'Continente')).toThrow(AppError);
+    expect(() => renameMerchant(7, 1, 'Continente')).toThrow('merge them instead');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mergeMerchants
+// ---------------------------------------------------------------------------
+describe('mergeMerchants', () => {
+  it('moves transactions and aliases to the target and deletes the merged merchants', () => {
+    const runs: Record<string, ReturnType<typeof vi.fn>> = {
+      transactions: vi.fn(),
+      aliases: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id FROM merchants WHERE id'))
+        return { get: vi.fn().mockReturnValue({ id: 1 }) };
+      if (sql.includes('UPDATE transactions')) return { run: runs.transactions };
+      if (sql.includes('UPDATE merchant_aliases')) return { run: runs.aliases };
+      if (sql.includes('DELETE FROM merchants')) return { run: runs.delete };
+      if (sql.includes('FROM merchant_aliases')) return { all: vi.fn().mockReturnValue([]) };
+      return { get: vi.fn().mockReturnValue({ ...merchantRow, transaction_count: 35 }) };
+    });
+
+    const result = mergeMerchants(7, [8, 9], 1);
+
+    expect(runs.transactions).toHaveBeenCalledWith(7, 8, 9);
+    expect(runs.aliases).toHaveBeenCalledWith(7, 8, 9);
+    expect(runs.delete).toHaveBeenCalledWith(8, 9, 1);
+    expect(result.transactionCount).toBe(35);
+  });
+
+  it('rejects merging a merchant into itself', () => {
+    expect(() => mergeMerchants(7, [7], 1)).toThrow('A merchant cannot be merged into itself');
+  });
+
+  it('throws not found when a merged merchant belongs to another workspace', () => {
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValueOnce({ id: 7 }).mockReturnValueOnce(undefined),
+    });
+
+    expect(() => mergeMerchants(7, [8], 1)).toThrow('Merchant not found');
+  });
+});
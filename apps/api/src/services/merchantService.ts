@@ -0,0 +1,282 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { ErrorCode, type Merchant, type TransactionType } from '@compasso/shared';
+import { extractMerchantName, merchantKey } from './merchantExtractor.js';
+
+interface MerchantRow {
+  id: number;
+  workspace_id: number;
+  name: string;
+  created_at: string;
+  transaction_count: number;
+}
+
+interface MerchantListResult {
+  items: Merchant[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+function verifyMerchantOwnership(merchantId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const merchant = db
+    .prepare('SELECT id FROM merchants WHERE id = ? AND workspace_id = ?')
+    .get(merchantId, workspaceId);
+
+  if (!merchant) {
+    throw AppError.notFound('Merchant not found');
+  }
+}
+
+function getAliases(merchantIds: number[]): Map<number, string[]> {
+  const aliases = new Map<number, string[]>();
+  if (merchantIds.length === 0) return aliases;
+
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT merchant_id, alias FROM merchant_aliases
+       WHERE merchant_id IN (${merchantIds.map(() => '?').join(', ')})
+       ORDER BY alias`
+    )
+    .all(...merchantIds) as Array<{ merchant_id: number; alias: string }>;
+
+  for (const row of rows) {
+    const list = aliases.get(row.merchant_id) || [];
+    list.push(row.alias);
+    aliases.set(row.merchant_id, list);
+  }
+  return aliases;
+}
+
+function mapMerchantRow(row: MerchantRow, aliases: string[]): Merchant {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    aliases,
+    transactionCount: row.transaction_count,
+    createdAt: row.created_at,
+  };
+}
+
+const MERCHANT_SELECT = `
+  SELECT m.id, m.workspace_id, m.name, m.created_at, COUNT(t.id) as transaction_count
+  FROM merchants m
+  LEFT JOIN transactions t ON t.merchant_id = m.id
+`;
+
+/**
+ * List a workspace's merchants with their aliases and transaction counts,
+ * most used first.
+ */
+export function listMerchants(
+  workspaceId: number,
+  limit: number,
+  offset: number,
+  search?: string
+): MerchantListResult {
+  const db = getDatabase();
+  const conditions = ['m.workspace_id = ?'];
+  const params: unknown[] = [workspaceId];
+
+  if (search) {
+    conditions.push('m.name LIKE ?');
+    params.push(`%${search}%`);
+  }
+  const where = `WHERE ${conditions.join(' AND ')}`;
+
+  const countResult = db
+    .prepare(`SELECT COUNT(*) as count FROM merchants m ${where}`)
+    .get(...params) as { count: number };
+
+  const rows = db
+    .prepare(
+      `${MERCHANT_SELECT}
+      ${where}
+      GROUP BY m.id
+      ORDER BY transaction_count DESC, m.name ASC
+      LIMIT ? OFFSET ?`
+    )
+    .all(...params, limit, offset) as MerchantRow[];
+
+  const aliases = getAliases(rows.map((r) => r.id));
+
+  return {
+    items: rows.map((r) => mapMerchantRow(r, aliases.get(r.id) || [])),
+    total: countResult.count,
+    limit,
+    offset,
+  };
+}
+
+/**
+ * Get a single merchant with its aliases and transaction count.
+ */
+export function getMerchant(merchantId: number, workspaceId: number): Merchant {
+  const db = getDatabase();
+  const row = db
+    .prepare(`${MERCHANT_SELECT} WHERE m.id = ? AND m.workspace_id = ? GROUP BY m.id`)
+    .get(merchantId, workspaceId) as MerchantRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('Merchant not found');
+  }
+
+  return mapMerchantRow(row, getAliases([row.id]).get(row.id) || []);
+}
+
+/**
+ * Find the merchant an extracted name resolves to, creating it (with the name
+ * as its first alias) when no alias matches. Call inside a database
+ * transaction when linking a batch of transactions.
+ */
+export function resolveMerchantId(workspaceId: number, name: string): number {
+  const db = getDatabase();
+  const alias = merchantKey(name);
+
+  const existing = db
+    .prepare('SELECT merchant_id FROM merchant_aliases WHERE workspace_id = ? AND alias = ?')
+    .get(workspaceId, alias) as { merchant_id: number } | undefined;
+
+  if (existing) return existing.merchant_id;
+
+  const result = db
+    .prepare('INSERT INTO merchants (workspace_id, name) VALUES (?, ?)')
+    .run(workspaceId, name);
+  const merchantId = Number(result.lastInsertRowid);
+
+  db.prepare(
+    'INSERT INTO merchant_aliases (merchant_id, workspace_id, alias) VALUES (?, ?, ?)'
+  ).run(merchantId, workspaceId, alias);
+
+  return merchantId;
+}
+
+/**
+ * Extract the merchant of a description and resolve it within the workspace.
+ * Returns null when the description has no merchant.
+ */
+export function findOrCreateMerchant(
+  workspaceId: number,
+  bankId: string,
+  description: string,
+  transactionType?: TransactionType | null
+): number | null {
+  const name = extractMerchantName(description, bankId, transactionType);
+  return name ? resolveMerchantId(workspaceId, name) : null;
+}
+
+/**
+ * Link transactions that have no merchant yet (e.g. imported before merchants
+ * existed) to their extracted merchant. Returns the number of linked transactions.
+ */
+export function assignMissingMerchants(workspaceId: number): number {
+  const db = getDatabase();
+
+  const transactions = db
+    .prepare(
+      `
+      SELECT t.id, t.description, t.transaction_type, l.bank_id
+      FROM transactions t
+      JOIN ledgers l ON t.ledger_id = l.id
+      WHERE l.workspace_id = ? AND t.merchant_id IS NULL
+    `
+    )
+    .all(workspaceId) as Array<{
+    id: number;
+    description: string;
+    transaction_type: TransactionType | null;
+    bank_id: string;
+  }>;
+
+  const updateTransaction = db.prepare('UPDATE transactions SET merchant_id = ? WHERE id = ?');
+  let assigned = 0;
+
+  const assignAll = db.transaction(() => {
+    for (const tx of transactions) {
+      const merchantId = findOrCreateMerchant(
+        workspaceId,
+        tx.bank_id,
+        tx.description,
+        tx.transaction_type
+      );
+      if (merchantId === null) continue;
+      updateTransaction.run(merchantId, tx.id);
+      assigned++;
+    }
+  });
+
+  assignAll();
+
+  return assigned;
+}
+
+/**
+ * Rename a merchant. The new name also becomes an alias, unless another
+ * merchant already uses it.
+ */
+export function renameMerchant(merchantId: number, workspaceId: number, name: string): Merchant {
+  verifyMerchantOwnership(merchantId, workspaceId);
+
+  const db = getDatabase();
+  const duplicate = db
+    .prepare(
+      'SELECT id FROM merchants WHERE workspace_id = ? AND name = ? COLLATE NOCASE AND id != ?'
+    )
+    .get(workspaceId, name, merchantId);
+
+  if (duplicate) {
+    throw AppError.badRequest(
+      'Another merchant already has this name; merge them instead',
+      ErrorCode.DUPLICATE_RESOURCE
+    );
+  }
+
+  db.transaction(() => {
+    db.prepare('UPDATE merchants SET name = ? WHERE id = ?').run(name, merchantId);
+    db.prepare(
+      'INSERT OR IGNORE INTO merchant_aliases (merchant_id, workspace_id, alias) VALUES (?, ?, ?)'
+    ).run(merchantId, workspaceId, merchantKey(name));
+  })();
+
+  return getMerchant(merchantId, workspaceId);
+}
+
+/**
+ * Merge merchants into a target: their transactions and aliases move to the
+ * target and the merged merchants are deleted.
+ */
+export function mergeMerchants(
+  targetId: number,
+  sourceIds: number[],
+  workspaceId: number
+): Merchant {
+  if (sourceIds.includes(targetId)) {
+    throw AppError.badRequest('A merchant cannot be merged into itself');
+  }
+
+  verifyMerchantOwnership(targetId, workspaceId);
+  for (const sourceId of sourceIds) {
+    verifyMerchantOwnership(sourceId, workspaceId);
+  }
+
+  const db = getDatabase();
+  const placeholders = sourceIds.map(() => '?').join(', ');
+
+  db.transaction(() => {
+    db.prepare(
+      `UPDATE transactions SET merchant_id = ? WHERE merchant_id IN (${placeholders})`
+    ).run(targetId, ...sourceIds);
+    db.prepare(
+      `UPDATE merchant_aliases SET merchant_id = ? WHERE merchant_id IN (${placeholders})`
+    ).run(targetId, ...sourceIds);
+    db.prepare(`DELETE FROM merchants WHERE id IN (${placeholders}) AND workspace_id = ?`).run(
+      ...sourceIds,
+      workspaceId
+    );
+  })();
+
+  return getMerchant(targetId, workspaceId);
+}
@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+vi.mock('./accountService.js', () => ({ listAccounts: vi.fn() }));
+vi.mock('./exchangeRateService.js', () => ({ convertToBaseCurrency: vi.fn() }));
+vi.mock('./loanService.js', () => ({ listLoans: vi.fn(() => []) }));
+
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { listAccounts } from './accountService.js';
+import { convertToBaseCurrency } from './exchangeRateService.js';
+import { listLoans } from './loanService.js';
+import {
+  listNetWorthItems,
+  createNetWorthItem,
+  updateNetWorthItem,
+  deleteNetWorthItem,
+  getNetWorth,
+  recordNetWorthSnapshot,
+  recordAllNetWorthSnapshots,
+  listNetWorthSnapshots,
+} from './netWorthService.js';
+
+const mockDb = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
+
+const itemRow = {
+  id: 3,
+  workspace_id: 1,
+  kind: 'liability',
+  name: 'Mortgage',
+  value: 180000,
+  currency: 'EUR',
+  created_at: '2024-01-01',
+  updated_at: '2024-01-01',
+};
+
+const snapshotRow = {
+  id: 5,
+  workspace_id: 1,
+  date: '2024-01-31',
+  total_assets: 262000,
+  total_liabilities: 180200,
+  net_worth: 81800,
+  created_at: '2024-01-31',
+};
+
+function account(id: number, name: string, currentBalance: number, currency = 'EUR') {
+  return { id, name, currentBalance, currency } as any;
+}
+
+/** Routes the queries of getNetWorth: the workspace, then the manual items. */
+function mockNetWorth(items: unknown[], mockRun = vi.fn()) {
+  mockDb.prepare.mockImplementation((sql: string) => {
+    if (sql.includes('FROM workspaces'))
+      return { get: vi.fn().mockReturnValue({ base_currency: 'EUR' }) };
+    if (sql.includes('FROM net_worth_items')) return { all: vi.fn().mockReturnValue(items) };
+    if (sql.includes('INSERT INTO net_worth_snapshots')) return { run: mockRun };
+    return { get: vi.fn().mockReturnValue(snapshotRow) };
+  });
+  return mockRun;
+}
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+  vi.mocked(convertToBaseCurrency).mockImplementation((_ws, amount) => amount);
+  vi.mocked(listLoans).mockReturnValue([]);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Net worth items
+// ---------------------------------------------------------------------------
+describe('listNetWorthItems', () => {
+  it('maps the workspace items', () => {
+    const mockAll = vi.fn().mockReturnValue([itemRow]);
+    mockDb.prepare.mockReturnValue({ all: mockAll });
+
+    expect(listNetWorthItems(1)).toEqual([
+      {
+        id: 3,
+        workspaceId: 1,
+        kind: 'liability',
+        name: 'Mortgage',
+        value: 180000,
+        currency: 'EUR',
+        createdAt: '2024-01-01',
+        updatedAt: '2024-01-01',
+      },
+    ]);
+    expect(mockAll).toHaveBeenCalledWith(1);
+  });
+});
+
+describe('createNetWorthItem', () => {
+  it('defaults the currency to the workspace base currency', () => {
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 3 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('INSERT')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue(itemRow) };
+    });
+
+    const item = createNetWorthItem({
+      workspaceId: 1,
+      kind: 'liability',
+      name: 'Mortgage',
+      value: 180000,
+    });
+
+    expect(mockDb.prepare.mock.calls[0][0]).toContain('SELECT base_currency FROM workspaces');
+    expect(mockRun).toHaveBeenCalledWith(1, 'liability', 'Mortgage', 180000, null, 1);
+    expect(item.id).toBe(3);
+  });
+});
+
+describe('updateNetWorthItem', () => {
+  it('updates the given fields and the update time', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue({ ...itemRow, value: 179000 }) };
+    });
+
+    const item = updateNetWorthItem(3, 1, { value: 179000 });
+
+    expect(mockDb.prepare.mock.calls[0][0]).toContain(
+      "value = ?,\n       updated_at = datetime('now')"
+    );
+    expect(mockRun).toHaveBeenCalledWith(179000, 3, 1);
+    expect(item.value).toBe(179000);
+  });
+
+  it('rejects an empty update', () => {
+    expect(() => updateNetWorthItem(3, 1, {})).toThrow('No fields to update');
+  });
+
+  it('throws not found for an item of another workspace', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => updateNetWorthItem(3, 2, { name: 'Loan' })).toThrow(AppError);
+  });
+});
+
+describe('deleteNetWorthItem', () => {
+  it('throws not found when nothing was deleted', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => deleteNetWorthItem(3, 1)).toThrow('Net worth item not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getNetWorth
+// ---------------------------------------------------------------------------
+describe('getNetWorth', () => {
+  it('adds account balances and manual items', () => {
+    vi.mocked(listAccounts).mockReturnValue([account(1, 'Checking', 12000)]);
+    mockNetWorth([{ ...itemRow, id: 2, kind: 'asset', name: 'House', value: 250000 }, itemRow]);
+
+    const summary = getNetWorth(1, '2024-01-31');
+
+    expect(summary.assets.map((entry) => [entry.source, entry.name])).toEqual([
+      ['account', 'Checking'],
+      ['item', 'House'],
+    ]);
+    expect(summary.totalAssets).toBe(262000);
+    expect(summary.totalLiabilities).toBe(180000);
+    expect(summary.netWorth).toBe(82000);
+    expect(summary.baseCurrency).toBe('EUR');
+  });
+
+  it('counts an overdrawn account as a liability', () => {
+    vi.mocked(listAccounts).mockReturnValue([account(1, 'Credit card', -350.5)]);
+    mockNetWorth([]);
+
+    const summary = getNetWorth(1, '2024-01-31');
+
+    expect(summary.assets).toEqual([]);
+    expect(summary.liabilities[0]).toMatchObject({ name: 'Credit card', value: 350.5 });
+    expect(summary.netWorth).toBe(-350.5);
+  });
+
+  it('counts loans at their remaining balance as liabilities', () => {
+    vi.mocked(listAccounts).mockReturnValue([]);
+    vi.mocked(listLoans).mockReturnValue([
+      { id: 7, name: 'Mortgage', remainingBalance: 95000, currency: 'EUR' },
+      { id: 8, name: 'Car loan', remainingBalance: 0, currency: 'EUR' },
+    ] as any);
+    mockNetWorth([]);
+
+    const summary = getNetWorth(1, '2024-01-31');
+
+    expect(listLoans).toHaveBeenCalledWith(1, '2024-01-31');
+    expect(summary.liabilities).toEqual([
+      expect.objectContaining({ source: 'loan', id: 7, name: 'Mortgage', value: 95000 }),
+    ]);
+    expect(summary.netWorth).toBe(-95000);
+  });
+
+  it('converts values to the base currency with the rates of the date', () => {
+    vi.mocked(listAccounts).mockReturnValue([account(1, 'Savings', 1000, 'GBP')]);
+    vi.mocked(convertToBaseCurrency).mockReturnValue(1162.79);
+    mockNetWorth([]);
+
+    const summary = getNetWorth(1, '2024-01-31');
+
+    expect(convertToBaseCurrency).toHaveBeenCalledWith(1, 1000, 'GBP', '2024-01-31');
+    expect(summary.assets[0]).toMatchObject({ value: 1000, currency: 'GBP', baseValue: 1162.79 });
+    expect(summary.totalAssets).toBe(1162.79);
+  });
+
+  it('throws not found for a missing workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => getNetWorth(99)).toThrow('Workspace not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+describe('recordNetWorthSnapshot', () => {
+  it('upserts the totals of the date', () => {
+    vi.mocked(listAccounts).mockReturnValue([account(1, 'Checking', 12000)]);
+    const mockRun = mockNetWorth([itemRow]);
+
+    const snapshot = recordNetWorthSnapshot(1, '2024-01-31');
+
+    expect(mockRun).toHaveBeenCalledWith(1, '2024-01-31', 12000, 180000, -168000);
+    expect(snapshot).toEqual({
+      id: 5,
+      workspaceId: 1,
+      date: '2024-01-31',
+      totalAssets: 262000,
+      totalLiabilities: 180200,
+      netWorth: 81800,
+      createdAt: '2024-01-31',
+    });
+  });
+});
+
+describe('recordAllNetWorthSnapshots', () => {
+  it('records a snapshot for each workspace with accounts or items', () => {
+    vi.mocked(listAccounts).mockReturnValue([]);
+    const mockRun = vi.fn();
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('SELECT id FROM workspaces'))
+        return { all: vi.fn().mockReturnValue([{ id: 1 }, { id: 4 }]) };
+      if (sql.includes('FROM workspaces'))
+        return { get: vi.fn().mockReturnValue({ base_currency: 'EUR' }) };
+      if (sql.includes('FROM net_worth_items')) return { all: vi.fn().mockReturnValue([]) };
+      if (sql.includes('INSERT INTO net_worth_snapshots')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue(snapshotRow) };
+    });
+
+    expect(recordAllNetWorthSnapshots()).toBe(2);
+    expect(mockRun.mock.calls.map((args) => args[0])).toEqual([1, 4]);
+  });
+});
+
+describe('listNetWorthSnapshots', () => {
+  it('filters by date range', () => {
+    const mockAll = vi.fn().mockReturnValue([snapshotRow]);
+    mockDb.prepare.mockReturnValue({ all: mockAll });
+
+    const snapshots = listNetWorthSnapshots(1, '2024-01-01', '2024-12-31');
+
+    expect(mockDb.prepare.mock.calls[0][0]).toContain(
+      'workspace_id = ? AND date >= ? AND date <= ?'
+    );
+    expect(mockAll).toHaveBeenCalledWith(1, '2024-01-01', '2024-12-31');
+    expect(snapshots[0].netWorth).toBe(81800);
+  });
+});
@@ -0,0 +1,336 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { todayIso } from '../utils/dateHelpers.js';
+import { listAccounts } from './accountService.js';
+import { convertToBaseCurrency } from './exchangeRateService.js';
+import { listLoans } from './loanService.js';
+import type {
+  CreateNetWorthItemRequest,
+  NetWorthEntry,
+  NetWorthItem,
+  NetWorthItemKind,
+  NetWorthSnapshot,
+  NetWorthSummary,
+  UpdateNetWorthItemRequest,
+} from '@compasso/shared';
+
+interface NetWorthItemRow {
+  id: number;
+  workspace_id: number;
+  kind: NetWorthItemKind;
+  name: string;
+  value: number;
+  currency: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface NetWorthSnapshotRow {
+  id: number;
+  workspace_id: number;
+  date: string;
+  total_assets: number;
+  total_liabilities: number;
+  net_worth: number;
+  created_at: string;
+}
+
+const ITEM_COLUMNS = 'id, workspace_id, kind, name, value, currency, created_at, updated_at';
+
+const SNAPSHOT_COLUMNS =
+  'id, workspace_id, date, total_assets, total_liabilities, net_worth, created_at';
+
+function mapItemRow(row: NetWorthItemRow): NetWorthItem {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    kind: row.kind,
+    name: row.name,
+    value: row.value,
+    currency: row.currency,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapSnapshotRow(row: NetWorthSnapshotRow): NetWorthSnapshot {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    date: row.date,
+    totalAssets: row.total_assets,
+    totalLiabilities: row.total_liabilities,
+    netWorth: row.net_worth,
+    createdAt: row.created_at,
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sumBaseValues(entries: NetWorthEntry[]): number {
+  return roundCents(entries.reduce((sum, entry) => sum + entry.baseValue, 0));
+}
+
+/**
+ * List a workspace's manual assets and liabilities, assets first, by name.
+ */
+export function listNetWorthItems(workspaceId: number): NetWorthItem[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT ${ITEM_COLUMNS} FROM net_worth_items WHERE workspace_id = ?
+      ORDER BY kind ASC, name ASC`
+    )
+    .all(workspaceId) as NetWorthItemRow[];
+
+  return rows.map(mapItemRow);
+}
+
+/**
+ * Get a single net worth item, scoped to its workspace.
+ */
+export function getNetWorthItem(itemId: number, workspaceId: number): NetWorthItem {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT ${ITEM_COLUMNS} FROM net_worth_items WHERE id = ? AND workspace_id = ?`)
+    .get(itemId, workspaceId) as NetWorthItemRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('Net worth item not found');
+  }
+
+  return mapItemRow(row);
+}
+
+/**
+ * Create a manual asset or liability. Its currency defaults to the workspace
+ * base currency.
+ */
+export function createNetWorthItem(data: CreateNetWorthItemRequest): NetWorthItem {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `INSERT INTO net_worth_items (workspace_id, kind, name, value, currency)
+       VALUES (?, ?, ?, ?, COALESCE(?, (SELECT base_currency FROM workspaces WHERE id = ?)))`
+    )
+    .run(
+      data.workspaceId,
+      data.kind,
+      data.name,
+      data.value,
+      data.currency ?? null,
+      data.workspaceId
+    );
+
+  return getNetWorthItem(Number(result.lastInsertRowid), data.workspaceId);
+}
+
+/**
+ * Update a net worth item.
+ */
+export function updateNetWorthItem(
+  itemId: number,
+  workspaceId: number,
+  data: UpdateNetWorthItemRequest
+): NetWorthItem {
+  const fields: Array<[string, unknown]> = [];
+
+  if (data.kind !== undefined) fields.push(['kind', data.kind]);
+  if (data.name !== undefined) fields.push(['name', data.name]);
+  if (data.value !== undefined) fields.push(['value', data.value]);
+  if (data.currency !== undefined) fields.push(['currency', data.currency]);
+
+  if (fields.length === 0) {
+    throw AppError.badRequest('No fields to update');
+  }
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `UPDATE net_worth_items SET ${fields.map(([column]) => `${column} = ?`).join(', ')},
+       updated_at = datetime('now')
+       WHERE id = ? AND workspace_id = ?`
+    )
+    .run(...fields.map(([, value]) => value), itemId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Net worth item not found');
+  }
+
+  return getNetWorthItem(itemId, workspaceId);
+}
+
+/**
+ * Delete a net worth item. Snapshots already recorded keep its value.
+ */
+export function deleteNetWorthItem(itemId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const result = db
+    .prepare('DELETE FROM net_worth_items WHERE id = ? AND workspace_id = ?')
+    .run(itemId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Net worth item not found');
+  }
+}
+
+/**
+ * Compute a workspace's current net worth: its accounts at their current
+ * balance, its manual items and its loans at their remaining balance, converted
+ * to the base currency with the rates of `date`. Accounts with a negative
+ * balance count as liabilities.
+ */
+export function getNetWorth(workspaceId: number, date: string = todayIso()): NetWorthSummary {
+  const db = getDatabase();
+  const workspace = db
+    .prepare('SELECT base_currency FROM workspaces WHERE id = ?')
+    .get(workspaceId) as { base_currency: string } | undefined;
+
+  if (!workspace) {
+    throw AppError.notFound('Workspace not found');
+  }
+
+  const entries: NetWorthEntry[] = [
+    ...listAccounts(workspaceId).map(
+      (account): NetWorthEntry => ({
+        source: 'account',
+        id: account.id,
+        name: account.name,
+        kind: account.currentBalance < 0 ? 'liability' : 'asset',
+        value: Math.abs(account.currentBalance),
+        currency: account.currency,
+        baseValue: 0,
+      })
+    ),
+    ...listNetWorthItems(workspaceId).map(
+      (item): NetWorthEntry => ({
+        source: 'item',
+        id: item.id,
+        name: item.name,
+        kind: item.kind,
+        value: item.value,
+        currency: item.currency,
+        baseValue: 0,
+      })
+    ),
+    ...listLoans(workspaceId, date)
+      .filter((loan) => loan.remainingBalance > 0)
+      .map(
+        (loan): NetWorthEntry => ({
+          source: 'loan',
+          id: loan.id,
+          name: loan.name,
+          kind: 'liability',
+          value: loan.remainingBalance,
+          currency: loan.currency,
+          baseValue: 0,
+        })
+      ),
+  ];
+
+  for (const entry of entries) {
+    entry.baseValue = convertToBaseCurrency(workspaceId, entry.value, entry.currency, date);
+  }
+
+  const assets = entries.filter((entry) => entry.kind === 'asset');
+  const liabilities = entries.filter((entry) => entry.kind === 'liability');
+  const totalAssets = sumBaseValues(assets);
+  const totalLiabilities = sumBaseValues(liabilities);
+
+  return {
+    date,
+    baseCurrency: workspace.base_currency,
+    assets,
+    liabilities,
+    totalAssets,
+    totalLiabilities,
+    netWorth: roundCents(totalAssets - totalLiabilities),
+  };
+}
+
+/**
+ * Record the workspace's current net worth as the snapshot of `date`,
+ * replacing a snapshot already recorded that day.
+ */
+export function recordNetWorthSnapshot(
+  workspaceId: number,
+  date: string = todayIso()
+): NetWorthSnapshot {
+  const summary = getNetWorth(workspaceId, date);
+
+  const db = getDatabase();
+  db.prepare(
+    `INSERT INTO net_worth_snapshots (workspace_id, date, total_assets, total_liabilities, net_worth)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(workspace_id, date) DO UPDATE SET
+       total_assets = excluded.total_assets,
+       total_liabilities = excluded.total_liabilities,
+       net_worth = excluded.net_worth`
+  ).run(workspaceId, date, summary.totalAssets, summary.totalLiabilities, summary.netWorth);
+
+  const row = db
+    .prepare(
+      `SELECT ${SNAPSHOT_COLUMNS} FROM net_worth_snapshots WHERE workspace_id = ? AND date = ?`
+    )
+    .get(workspaceId, date) as NetWorthSnapshotRow;
+
+  return mapSnapshotRow(row);
+}
+
+/**
+ * Record today's snapshot for every workspace with accounts, net worth items or
+ * loans.
+ * Returns the number of snapshots recorded.
+ */
+export function recordAllNetWorthSnapshots(): number {
+  const db = getDatabase();
+  const workspaces = db
+    .prepare(
+      `SELECT id FROM workspaces w
+      WHERE EXISTS (SELECT 1 FROM accounts WHERE workspace_id = w.id)
+        OR EXISTS (SELECT 1 FROM net_worth_items WHERE workspace_id = w.id)
+        OR EXISTS (SELECT 1 FROM loans WHERE workspace_id = w.id)`
+    )
+    .all() as Array<{ id: number }>;
+
+  const date = todayIso();
+  for (const workspace of workspaces) {
+    recordNetWorthSnapshot(workspace.id, date);
+  }
+  return workspaces.length;
+}
+
+/**
+ * List a workspace's net worth snapshots, oldest first, optionally within a
+ * date range (inclusive).
+ */
+export function listNetWorthSnapshots(
+  workspaceId: number,
+  startDate?: string,
+  endDate?: string
+): NetWorthSnapshot[] {
+  const conditions = ['workspace_id = ?'];
+  const params: unknown[] = [workspaceId];
+
+  if (startDate) {
+    conditions.push('date >= ?');
+    params.push(startDate);
+  }
+  if (endDate) {
+    conditions.push('date <= ?');
+    params.push(endDate);
+  }
+
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT ${SNAPSHOT_COLUMNS} FROM net_worth_snapshots
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY date ASC`
+    )
+    .all(...params) as NetWorthSnapshotRow[];
+
+  return rows.map(mapSnapshotRow);
+}
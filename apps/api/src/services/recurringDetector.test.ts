@@ -178,6 +178,30 @@ describe('recurringDetector', () => {
       expect(pattern.transactionIds).toEqual([1, 2, 3, 4]);
     });
 
+    it('should group transactions by merchant when their descriptions differ', () => {
+      const transactions = [
+        { id: 1, description: 'Compra Mb Cartão 1234 Ginasio Solinca Lisboa', amount: 40, date: '2024-01-05', is_income: 0, merchant_name: 'Ginasio Solinca' },
+        { id: 2, description: 'Compra Mb Cartão 1234 Ginasio Solinca Almada', amount: 40, date: '2024-02-05', is_income: 0, merchant_name: 'Ginasio Solinca' },
+        { id: 3, description: 'Compra Mb Cartão 5678 Ginasio Solinca Lisboa', amount: 40, date: '2024-03-05', is_income: 0, merchant_name: 'Ginasio Solinca' },
+      ];
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('SELECT t.id')) {
+          return { all: vi.fn().mockReturnValue(transactions) };
+        }
+        if (sql.includes('INSERT INTO recurring_patterns')) {
+          return { run: vi.fn().mockReturnValue({ lastInsertRowid: 100 }) };
+        }
+        return { get: vi.fn(), all: vi.fn().mockReturnValue([]), run: vi.fn() };
+      });
+
+      const result = detectRecurringPatterns(1);
+
+      expect(result.patterns).toHaveLength(1);
+      expect(result.patterns[0].descriptionPattern).toBe('GINASIO SOLINCA');
+      expect(result.patterns[0].transactionIds).toEqual([1, 2, 3]);
+    });
+
     it('should not detect patterns with fewer than 3 transactions', () => {
       const transactions = [
         { id: 1, description: 'RARE PAYMENT', amount: -50, date: '2024-01-15', is_income: 0 },
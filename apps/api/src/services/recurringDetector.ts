@@ -1,5 +1,10 @@
 import { getDatabase } from '../db/database.js';
-import type { RecurringFrequency, TransactionWithCategory, RecurringSummary } from '@compasso/shared';
+import type {
+  RecurringFrequency,
+  TransactionWithCategory,
+  RecurringSummary,
+  TransactionType,
+} from '@compasso/shared';
 import { AppError } from '../errors.js';
 
 interface TransactionRow {
@@ -8,6 +13,7 @@ interface TransactionRow {
   amount: number;
   date: string;
   is_income: number;
+  merchant_name: string | null;
 }
 
 interface TransactionGroup {
@@ -105,20 +111,23 @@ export function detectRecurringPatterns(workspaceId: number): {
   const transactions = db
     .prepare(
       `
-      SELECT t.id, t.description, t.amount, t.date, t.is_income
+      SELECT t.id, t.description, t.amount, t.date, t.is_income, m.name as merchant_name
       FROM transactions t
       JOIN ledgers l ON t.ledger_id = l.id
+      LEFT JOIN merchants m ON t.merchant_id = m.id
       WHERE l.workspace_id = ?
       ORDER BY t.date ASC
     `
     )
     .all(workspaceId) as TransactionRow[];
 
-  // Group by normalized description
+  // Group by merchant, or by normalized description for transactions without one
   const groups: Map<string, TransactionGroup> = new Map();
 
   for (const tx of transactions) {
-    const normalized = normalizeDescription(tx.description);
+    const normalized = tx.merchant_name
+      ? tx.merchant_name.toUpperCase()
+      : normalizeDescription(tx.description);
     if (!groups.has(normalized)) {
       groups.set(normalized, { normalizedDescription: normalized, transactions: [] });
     }
@@ -357,9 +366,9 @@ export function getPatternTransactions(patternId: number, workspaceId: number):
   const results = db
     .prepare(`
       SELECT
-        t.id, t.ledger_id, t.date, t.description, t.amount, t.balance,
-        t.category_id, t.is_income, t.raw_text, t.created_at, t.recurring_pattern_id,
-        l.bank_id,
+        t.id, t.ledger_id, t.date, t.value_date, t.description, t.amount, t.balance,
+        t.category_id, t.is_income, t.raw_text, t.transaction_type, t.merchant_id, t.created_at,
+        t.recurring_pattern_id, l.bank_id,
         c.id as cat_id, c.name as cat_name, c.color as cat_color,
         c.icon as cat_icon, c.is_default as cat_is_default, c.created_at as cat_created_at
       FROM transactions t
@@ -372,12 +381,15 @@ export function getPatternTransactions(patternId: number, workspaceId: number):
       id: number;
       ledger_id: number;
       date: string;
+      value_date: string | null;
       description: string;
       amount: number;
       balance: number | null;
       category_id: number | null;
       is_income: number;
       raw_text: string | null;
+      transaction_type: TransactionType | null;
+      merchant_id: number | null;
       created_at: string;
       recurring_pattern_id: number | null;
       bank_id: string;
@@ -393,12 +405,15 @@ export function getPatternTransactions(patternId: number, workspaceId: number):
     id: r.id,
     ledgerId: r.ledger_id,
     date: r.date,
+    valueDate: r.value_date,
     description: r.description,
     amount: r.amount,
     balance: r.balance,
     categoryId: r.category_id,
     isIncome: r.is_income === 1,
     rawText: r.raw_text,
+    transactionType: r.transaction_type,
+    merchantId: r.merchant_id,
     createdAt: r.created_at,
     recurringPatternId: r.recurring_pattern_id,
     bankId: r.bank_id,
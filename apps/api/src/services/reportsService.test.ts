@@ -9,6 +9,8 @@ import {
   getYearlySummary,
   getCategoryTrends,
   getAvailableYearsForReports,
+  getTopMerchants,
+  getTagSpending,
 } from './reportsService.js';
 
 describe('reportsService', () => {
@@ -39,6 +41,10 @@ describe('reportsService', () => {
         { month: '2024-01', income: 2500, expenses: 1500 },
         { month: '2024-02', income: 2500, expenses: 1500 },
       ];
+      const typeBreakdown = [
+        { transaction_type: 'TRANSFER_IN', income: 5000, expenses: 0, count: 2 },
+        { transaction_type: null, income: 0, expenses: 3000, count: 48 },
+      ];
 
       let callIndex = 0;
       mockDb.prepare.mockImplementation(() => {
@@ -52,6 +58,9 @@ describe('reportsService', () => {
         if (callIndex === 3) {
           return { all: vi.fn().mockReturnValue(monthlyBreakdown) };
         }
+        if (callIndex === 4) {
+          return { all: vi.fn().mockReturnValue(typeBreakdown) };
+        }
         return { get: vi.fn(), all: vi.fn().mockReturnValue([]) };
       });
 
@@ -68,6 +77,42 @@ describe('reportsService', () => {
       expect(result.categoryBreakdown[1].percentage).toBe(50);
       expect(result.monthlyBreakdown).toHaveLength(2);
       expect(result.monthlyBreakdown[0].netSavings).toBe(1000);
+      expect(result.typeBreakdown).toEqual([
+        { transactionType: 'TRANSFER_IN', income: 5000, expenses: 0, count: 2 },
+        { transactionType: null, income: 0, expenses: 3000, count: 48 },
+      ]);
+    });
+
+    it('should roll subcategories up and drill down into a parent', () => {
+      const mockAll = vi.fn().mockReturnValue([
+        { category_id: 11, category_name: 'Restaurants', category_color: '#f00', has_children: 0, total: 300, count: 3 },
+      ]);
+      const sqls: string[] = [];
+      mockDb.prepare.mockImplementation((sql: string) => {
+        sqls.push(sql);
+        return {
+          get: vi.fn().mockReturnValue({ total_income: 0, total_expenses: 300, transaction_count: 3 }),
+          all: sql.includes('category_rollup') ? mockAll : vi.fn().mockReturnValue([]),
+        };
+      });
+
+      getYearlySummary(1, 2024);
+      expect(mockAll).toHaveBeenLastCalledWith(0, 1, '2024-01-01', '2025-01-01');
+      expect(sqls[1]).not.toContain('r.rollup_id IS NOT NULL');
+
+      const result = getYearlySummary(1, 2024, 'booking', false, 4);
+      expect(mockAll).toHaveBeenLastCalledWith(4, 1, '2024-01-01', '2025-01-01', 4);
+      expect(result.categoryBreakdown).toEqual([
+        {
+          categoryId: 11,
+          categoryName: 'Restaurants',
+          categoryColor: '#f00',
+          total: 300,
+          count: 3,
+          percentage: 100,
+          hasChildren: false,
+        },
+      ]);
     });
 
     it('should handle zero income (savingsRate = 0)', () => {
@@ -102,6 +147,61 @@ describe('reportsService', () => {
       expect(result.totalExpenses).toBe(0);
       expect(result.netSavings).toBe(0);
     });
+
+    it('should group by value date when asked', () => {
+      const sqls: string[] = [];
+      mockDb.prepare.mockImplementation((sql: string) => {
+        sqls.push(sql);
+        return {
+          get: vi.fn().mockReturnValue({ total_income: 0, total_expenses: 0, transaction_count: 0 }),
+          all: vi.fn().mockReturnValue([]),
+        };
+      });
+
+      getYearlySummary(1, 2024, 'value');
+
+      expect(sqls).toHaveLength(4);
+      for (const sql of sqls) {
+        expect(sql).toContain('COALESCE(t.value_date, t.date) >= ?');
+        expect(sql).not.toContain('t.date >= ?');
+      }
+      expect(sqls[2]).toContain('GROUP BY substr(COALESCE(t.value_date, t.date), 1, 7)');
+    });
+
+    it('should leave internal transfers out unless included', () => {
+      const sqls: string[] = [];
+      mockDb.prepare.mockImplementation((sql: string) => {
+        sqls.push(sql);
+        return {
+          get: vi.fn().mockReturnValue({ total_income: 0, total_expenses: 0, transaction_count: 0 }),
+          all: vi.fn().mockReturnValue([]),
+        };
+      });
+
+      getYearlySummary(1, 2024);
+      expect(sqls.every((sql) => sql.includes('FROM transfers'))).toBe(true);
+
+      sqls.length = 0;
+      getYearlySummary(1, 2024, 'booking', true);
+      expect(sqls.some((sql) => sql.includes('FROM transfers'))).toBe(false);
+    });
+
+    it('should count the parts of split transactions instead of the transactions', () => {
+      const sqls: string[] = [];
+      mockDb.prepare.mockImplementation((sql: string) => {
+        sqls.push(sql);
+        return {
+          get: vi.fn().mockReturnValue({ total_income: 0, total_expenses: 0, transaction_count: 0 }),
+          all: vi.fn().mockReturnValue([]),
+        };
+      });
+
+      getYearlySummary(1, 2024);
+
+      expect(sqls).toHaveLength(4);
+      expect(sqls.every((sql) => sql.includes('FROM transaction_splits s'))).toBe(true);
+      expect(sqls.some((sql) => sql.includes('COUNT(*)'))).toBe(false);
+    });
   });
 
   describe('getCategoryTrends', () => {
@@ -185,6 +285,112 @@ describe('reportsService', () => {
       expect(result[0].categoryName).toBe('Big');
       expect(result[1].categoryName).toBe('Small');
     });
+
+    it('should show the subcategories of a parent when drilling down', () => {
+      const mockAll = vi.fn().mockReturnValue([
+        { category_id: 11, category_name: 'Coffee', category_color: '#aaa', has_children: 1, month: '2024-01', total: 20 },
+        { category_id: 1, category_name: 'Dining', category_color: '#aaa', has_children: 1, month: '2024-01', total: 10 },
+      ]);
+      let trendsSql = '';
+      mockDb.prepare.mockImplementation((sql: string) => {
+        trendsSql = sql;
+        return { all: mockAll };
+      });
+
+      const result = getCategoryTrends(1, 6, 'booking', 1);
+
+      expect(trendsSql).toContain('r.rollup_id IS NOT NULL OR t.category_id = ?');
+      expect(mockAll).toHaveBeenCalledWith(1, 1, 6, 1);
+      expect(result.map((c) => [c.categoryId, c.hasChildren])).toEqual([
+        [11, true],
+        [1, false],
+      ]);
+    });
+  });
+
+  describe('getTopMerchants', () => {
+    it('should return merchants with their share of merchant spending', () => {
+      const mockAll = vi.fn().mockReturnValue([
+        { merchant_id: 7, merchant_name: 'Pingo Doce', total: 300, count: 12, all_merchants_total: 400 },
+        { merchant_id: 8, merchant_name: 'Galp', total: 100, count: 2, all_merchants_total: 400 },
+      ]);
+      mockDb.prepare.mockReturnValue({ all: mockAll });
+
+      const result = getTopMerchants(1, { year: 2025, month: 2, limit: 5 });
+
+      expect(result).toEqual([
+        { merchantId: 7, merchantName: 'Pingo Doce', total: 300, count: 12, percentage: 75 },
+        { merchantId: 8, merchantName: 'Galp', total: 100, count: 2, percentage: 25 },
+      ]);
+      expect(mockAll).toHaveBeenCalledWith(1, '2025-02-01', '2025-03-01', 5);
+    });
+
+    it('should cover all dates and default to ten merchants without a period', () => {
+      const mockAll = vi.fn().mockReturnValue([]);
+      mockDb.prepare.mockReturnValue({ all: mockAll });
+
+      getTopMerchants(1);
+
+      expect(mockAll).toHaveBeenCalledWith(1, 10);
+      expect(mockDb.prepare).toHaveBeenCalledWith(expect.not.stringContaining('t.date >='));
+    });
+  });
+
+  describe('getTagSpending', () => {
+    it('should group category totals by tag, largest tag first', () => {
+      const mockAll = vi.fn().mockReturnValue([
+        { tag_id: 3, tag_name: 'vacation-2025', tag_color: null, category_id: 6, category_name: 'Dining', category_color: '#f97316', total: 600, count: 8 },
+        { tag_id: 4, tag_name: 'kids', tag_color: '#ec4899', category_id: 4, category_name: 'Fitness', category_color: null, total: 300, count: 2 },
+        { tag_id: 3, tag_name: 'vacation-2025', tag_color: null, category_id: null, category_name: 'Uncategorized', category_color: null, total: 200, count: 1 },
+      ]);
+      // One vacation transaction is split between Dining and Uncategorized
+      const mockCounts = vi.fn().mockReturnValue([
+        { tag_id: 3, count: 8 },
+        { tag_id: 4, count: 2 },
+      ]);
+      mockDb.prepare.mockImplementation((sql: string) =>
+        sql.includes('category_rollup') ? { all: mockAll } : { all: mockCounts }
+      );
+
+      const result = getTagSpending(1, { year: 2025 });
+
+      expect(result).toEqual([
+        {
+          tagId: 3,
+          tagName: 'vacation-2025',
+          tagColor: null,
+          total: 800,
+          count: 8,
+          categories: [
+            { categoryId: 6, categoryName: 'Dining', categoryColor: '#f97316', total: 600, count: 8, percentage: 75 },
+            { categoryId: null, categoryName: 'Uncategorized', categoryColor: null, total: 200, count: 1, percentage: 25 },
+          ],
+        },
+        {
+          tagId: 4,
+          tagName: 'kids',
+          tagColor: '#ec4899',
+          total: 300,
+          count: 2,
+          categories: [
+            { categoryId: 4, categoryName: 'Fitness', categoryColor: null, total: 300, count: 2, percentage: 100 },
+          ],
+        },
+      ]);
+      // Top-level rollup first, then the workspace and period
+      expect(mockAll).toHaveBeenCalledWith(0, 1, '2025-01-01', '2026-01-01');
+      expect(mockCounts).toHaveBeenCalledWith(1, '2025-01-01', '2026-01-01');
+    });
+
+    it('should leave out income and internal transfers', () => {
+      mockDb.prepare.mockReturnValue({ all: vi.fn().mockReturnValue([]) });
+
+      expect(getTagSpending(1)).toEqual([]);
+      const sql = mockDb.prepare.mock.calls[0][0] as string;
+      expect(sql).toContain('t.is_income = 0');
+      expect(sql).toContain('FROM transfers');
+      expect(sql).toContain('FROM transaction_splits s');
+    });
   });
 
   describe('getAvailableYearsForReports', () => {
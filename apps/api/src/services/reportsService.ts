@@ -1,5 +1,22 @@
 import { getDatabase } from '../db/database.js';
-import { yearRange } from '../utils/dateHelpers.js';
+import { yearRange, monthRange, dateColumn } from '../utils/dateHelpers.js';
+import { NOT_TRANSFER_CONDITION } from '../utils/transferHelpers.js';
+import { BASE_AMOUNT } from '../utils/currencyHelpers.js';
+import { TRANSACTION_PARTS } from '../utils/splitHelpers.js';
+import {
+  CATEGORY_ROLLUP_CTE,
+  CATEGORY_ROLLUP_JOIN,
+  ROLLUP_CATEGORY_ID,
+  IN_ROLLUP_PARENT_CONDITION,
+  HAS_CHILDREN,
+} from '../utils/categoryHelpers.js';
+import type {
+  DateBasis,
+  TagSpending,
+  TopMerchant,
+  TransactionType,
+  TransactionTypeBreakdown,
+} from '@compasso/shared';
 
 interface YearlySummary {
   year: number;
@@ -15,6 +32,7 @@ interface YearlySummary {
     total: number;
     count: number;
     percentage: number;
+    hasChildren: boolean;
   }>;
   monthlyBreakdown: Array<{
     month: string;
@@ -22,6 +40,7 @@ interface YearlySummary {
     expenses: number;
     netSavings: number;
   }>;
+  typeBreakdown: TransactionTypeBreakdown[];
 }
 
 interface CategoryTrend {
@@ -34,25 +53,39 @@ interface CategoryTrend {
   }>;
   trend: 'up' | 'down' | 'stable';
   avgMonthly: number;
+  hasChildren: boolean;
 }
 
 /**
- * Get yearly summary for a workspace
+ * Get yearly summary for a workspace, placing transactions in months by the
+ * given date basis. Amounts are in the workspace base currency. Internal
+ * transfers are left out unless includeTransfers is set. The category
+ * breakdown rolls subcategories up into top-level categories, or into the
+ * subcategories of parentCategoryId when given, and counts the parts of split
+ * transactions in their own categories.
  */
-export function getYearlySummary(workspaceId: number, year: number): YearlySummary {
+export function getYearlySummary(
+  workspaceId: number,
+  year: number,
+  dateBasis: DateBasis = 'booking',
+  includeTransfers = false,
+  parentCategoryId?: number
+): YearlySummary {
   const db = getDatabase();
+  const date = dateColumn(dateBasis);
+  const transfers = includeTransfers ? '' : `AND ${NOT_TRANSFER_CONDITION}`;
 
   // Get yearly totals
   const yearlyTotals = db
     .prepare(
       `
       SELECT
-        SUM(CASE WHEN t.is_income = 1 THEN t.amount ELSE 0 END) as total_income,
-        SUM(CASE WHEN t.is_income = 0 THEN t.amount ELSE 0 END) as total_expenses,
-        COUNT(*) as transaction_count
-      FROM transactions t
+        SUM(CASE WHEN t.is_income = 1 THEN ${BASE_AMOUNT} ELSE 0 END) as total_income,
+        SUM(CASE WHEN t.is_income = 0 THEN ${BASE_AMOUNT} ELSE 0 END) as total_expenses,
+        COUNT(DISTINCT t.id) as transaction_count
+      FROM ${TRANSACTION_PARTS} t
       JOIN ledgers l ON t.ledger_id = l.id
-      WHERE l.workspace_id = ? AND t.date >= ? AND t.date < ?
+      WHERE l.workspace_id = ? AND ${date} >= ? AND ${date} < ? ${transfers}
     `
     )
     .get(workspaceId, yearRange(year).start, yearRange(year).end) as {
@@ -67,27 +100,37 @@ export function getYearlySummary(workspaceId: number, year: number): YearlySumma
   const savingsRate = totalIncome > 0 ? (netSavings / totalIncome) * 100 : 0;
 
   // Get category breakdown (expenses only)
+  const drillDown = parentCategoryId ? `AND ${IN_ROLLUP_PARENT_CONDITION}` : '';
   const categoryBreakdown = db
     .prepare(
       `
+      ${CATEGORY_ROLLUP_CTE}
       SELECT
         c.id as category_id,
         COALESCE(c.name, 'Uncategorized') as category_name,
         c.color as category_color,
-        SUM(t.amount) as total,
-        COUNT(*) as count
-      FROM transactions t
+        ${HAS_CHILDREN} as has_children,
+        SUM(${BASE_AMOUNT}) as total,
+        COUNT(DISTINCT t.id) as count
+      FROM ${TRANSACTION_PARTS} t
       JOIN ledgers l ON t.ledger_id = l.id
-      LEFT JOIN categories c ON t.category_id = c.id
-      WHERE l.workspace_id = ? AND t.date >= ? AND t.date < ? AND t.is_income = 0
-      GROUP BY t.category_id
+      ${CATEGORY_ROLLUP_JOIN}
+      WHERE l.workspace_id = ? AND ${date} >= ? AND ${date} < ? AND t.is_income = 0 ${transfers} ${drillDown}
+      GROUP BY ${ROLLUP_CATEGORY_ID}
       ORDER BY total DESC
     `
     )
-    .all(workspaceId, yearRange(year).start, yearRange(year).end) as Array<{
+    .all(
+      parentCategoryId ?? 0,
+      workspaceId,
+      yearRange(year).start,
+      yearRange(year).end,
+      ...(parentCategoryId ? [parentCategoryId] : [])
+    ) as Array<{
     category_id: number | null;
     category_name: string;
     category_color: string | null;
+    has_children: number | null;
     total: number;
     count: number;
   }>;
@@ -99,13 +142,13 @@ export function getYearlySummary(workspaceId: number, year: number): YearlySumma
     .prepare(
       `
       SELECT
-        substr(t.date, 1, 7) as month,
-        SUM(CASE WHEN t.is_income = 1 THEN t.amount ELSE 0 END) as income,
-        SUM(CASE WHEN t.is_income = 0 THEN t.amount ELSE 0 END) as expenses
-      FROM transactions t
+        substr(${date}, 1, 7) as month,
+        SUM(CASE WHEN t.is_income = 1 THEN ${BASE_AMOUNT} ELSE 0 END) as income,
+        SUM(CASE WHEN t.is_income = 0 THEN ${BASE_AMOUNT} ELSE 0 END) as expenses
+      FROM ${TRANSACTION_PARTS} t
       JOIN ledgers l ON t.ledger_id = l.id
-      WHERE l.workspace_id = ? AND t.date >= ? AND t.date < ?
-      GROUP BY substr(t.date, 1, 7)
+      WHERE l.workspace_id = ? AND ${date} >= ? AND ${date} < ? ${transfers}
+      GROUP BY substr(${date}, 1, 7)
       ORDER BY month ASC
     `
     )
@@ -115,6 +158,29 @@ export function getYearlySummary(workspaceId: number, year: number): YearlySumma
     expenses: number;
   }>;
 
+  // Get breakdown by transaction type (e.g. ATM withdrawals versus card payments)
+  const typeBreakdown = db
+    .prepare(
+      `
+      SELECT
+        t.transaction_type,
+        SUM(CASE WHEN t.is_income = 1 THEN ${BASE_AMOUNT} ELSE 0 END) as income,
+        SUM(CASE WHEN t.is_income = 0 THEN ${BASE_AMOUNT} ELSE 0 END) as expenses,
+        COUNT(DISTINCT t.id) as count
+      FROM ${TRANSACTION_PARTS} t
+      JOIN ledgers l ON t.ledger_id = l.id
+      WHERE l.workspace_id = ? AND ${date} >= ? AND ${date} < ? ${transfers}
+      GROUP BY t.transaction_type
+      ORDER BY (income + expenses) DESC
+    `
+    )
+    .all(workspaceId, yearRange(year).start, yearRange(year).end) as Array<{
+    transaction_type: TransactionType | null;
+    income: number;
+    expenses: number;
+    count: number;
+  }>;
+
   return {
     year,
     totalIncome,
@@ -130,6 +196,7 @@ export function getYearlySummary(workspaceId: number, year: number): YearlySumma
       count: c.count,
       percentage:
         totalExpensesForPercentage > 0 ? (c.total / totalExpensesForPercentage) * 100 : 0,
+      hasChildren: c.has_children === 1 && c.category_id !== parentCategoryId,
     })),
     monthlyBreakdown: monthlyBreakdown.map((m) => ({
       month: m.month,
@@ -137,42 +204,63 @@ export function getYearlySummary(workspaceId: number, year: number): YearlySumma
       expenses: m.expenses,
       netSavings: m.income - m.expenses,
     })),
+    typeBreakdown: typeBreakdown.map((t) => ({
+      transactionType: t.transaction_type,
+      income: t.income,
+      expenses: t.expenses,
+      count: t.count,
+    })),
   };
 }
 
 /**
- * Get category spending trends over time
+ * Get category spending trends over time, leaving out internal transfers.
+ * Subcategories are rolled up like in the yearly summary.
  */
 export function getCategoryTrends(
   workspaceId: number,
-  months: number = 12
+  months: number = 12,
+  dateBasis: DateBasis = 'booking',
+  parentCategoryId?: number
 ): CategoryTrend[] {
   const db = getDatabase();
+  const date = dateColumn(dateBasis);
+  const drillDown = parentCategoryId ? `AND ${IN_ROLLUP_PARENT_CONDITION}` : '';
 
   // Get monthly spending by category for the last N months
   const monthlyData = db
     .prepare(
       `
+      ${CATEGORY_ROLLUP_CTE}
       SELECT
-        t.category_id,
+        ${ROLLUP_CATEGORY_ID} as category_id,
         COALESCE(c.name, 'Uncategorized') as category_name,
         c.color as category_color,
-        substr(t.date, 1, 7) as month,
-        SUM(t.amount) as total
-      FROM transactions t
+        ${HAS_CHILDREN} as has_children,
+        substr(${date}, 1, 7) as month,
+        SUM(${BASE_AMOUNT}) as total
+      FROM ${TRANSACTION_PARTS} t
       JOIN ledgers l ON t.ledger_id = l.id
-      LEFT JOIN categories c ON t.category_id = c.id
+      ${CATEGORY_ROLLUP_JOIN}
       WHERE l.workspace_id = ?
         AND t.is_income = 0
-        AND t.date >= date('now', '-' || ? || ' months')
-      GROUP BY t.category_id, substr(t.date, 1, 7)
+        AND ${date} >= date('now', '-' || ? || ' months')
+        AND ${NOT_TRANSFER_CONDITION}
+        ${drillDown}
+      GROUP BY ${ROLLUP_CATEGORY_ID}, substr(${date}, 1, 7)
       ORDER BY category_name, month
     `
     )
-    .all(workspaceId, months) as Array<{
+    .all(
+      parentCategoryId ?? 0,
+      workspaceId,
+      months,
+      ...(parentCategoryId ? [parentCategoryId] : [])
+    ) as Array<{
     category_id: number | null;
     category_name: string;
     category_color: string | null;
+    has_children: number | null;
     month: string;
     total: number;
   }>;
@@ -184,6 +272,7 @@ export function getCategoryTrends(
       categoryId: number | null;
       categoryName: string;
       categoryColor: string | null;
+      hasChildren: boolean;
       monthlyData: Array<{ month: string; total: number }>;
     }
   >();
@@ -195,6 +284,7 @@ export function getCategoryTrends(
         categoryId: row.category_id,
         categoryName: row.category_name,
         categoryColor: row.category_color,
+        hasChildren: row.has_children === 1 && row.category_id !== parentCategoryId,
         monthlyData: [],
       });
     }
@@ -243,6 +333,7 @@ export function getCategoryTrends(
       monthlyData: data,
       trend,
       avgMonthly,
+      hasChildren: category.hasChildren,
     });
   }
 
@@ -252,16 +343,180 @@ export function getCategoryTrends(
   return trends;
 }
 
+/**
+ * Get the merchants with the highest spending, optionally within a year or
+ * month. Percentages are shares of all expenses that have a merchant.
+ */
+export function getTopMerchants(
+  workspaceId: number,
+  options: { year?: number; month?: number; limit?: number; dateBasis?: DateBasis } = {}
+): TopMerchant[] {
+  const db = getDatabase();
+  const date = dateColumn(options.dateBasis);
+  const conditions = ['l.workspace_id = ?', 't.is_income = 0', NOT_TRANSFER_CONDITION];
+  const params: unknown[] = [workspaceId];
+
+  if (options.year) {
+    const range = options.month ? monthRange(options.year, options.month) : yearRange(options.year);
+    conditions.push(`${date} >= ? AND ${date} < ?`);
+    params.push(range.start, range.end);
+  }
+
+  const rows = db
+    .prepare(
+      `
+      SELECT
+        m.id as merchant_id,
+        m.name as merchant_name,
+        SUM(${BASE_AMOUNT}) as total,
+        COUNT(DISTINCT t.id) as count,
+        SUM(SUM(${BASE_AMOUNT})) OVER () as all_merchants_total
+      FROM ${TRANSACTION_PARTS} t
+      JOIN ledgers l ON t.ledger_id = l.id
+      JOIN merchants m ON t.merchant_id = m.id
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY m.id
+      ORDER BY total DESC
+      LIMIT ?
+    `
+    )
+    .all(...params, options.limit ?? 10) as Array<{
+    merchant_id: number;
+    merchant_name: string;
+    total: number;
+    count: number;
+    all_merchants_total: number;
+  }>;
+
+  return rows.map((r) => ({
+    merchantId: r.merchant_id,
+    merchantName: r.merchant_name,
+    total: r.total,
+    count: r.count,
+    percentage: r.all_merchants_total > 0 ? (r.total / r.all_merchants_total) * 100 : 0,
+  }));
+}
+
+/**
+ * Get expenses per tag, optionally within a year or month, each broken down by
+ * top-level category (subcategories rolled up). A transaction with several tags
+ * counts towards each of them, and a split transaction counts once towards a
+ * tag even when its parts are in several categories. Internal transfers are
+ * left out; amounts are in the workspace base currency.
+ */
+export function getTagSpending(
+  workspaceId: number,
+  options: { year?: number; month?: number; dateBasis?: DateBasis } = {}
+): TagSpending[] {
+  const db = getDatabase();
+  const date = dateColumn(options.dateBasis);
+  const conditions = ['g.workspace_id = ?', 't.is_income = 0', NOT_TRANSFER_CONDITION];
+  const params: unknown[] = [workspaceId];
+
+  if (options.year) {
+    const range = options.month ? monthRange(options.year, options.month) : yearRange(options.year);
+    conditions.push(`${date} >= ? AND ${date} < ?`);
+    params.push(range.start, range.end);
+  }
+
+  const where = conditions.join(' AND ');
+
+  const rows = db
+    .prepare(
+      `
+      ${CATEGORY_ROLLUP_CTE}
+      SELECT
+        g.id as tag_id,
+        g.name as tag_name,
+        g.color as tag_color,
+        ${ROLLUP_CATEGORY_ID} as category_id,
+        COALESCE(c.name, 'Uncategorized') as category_name,
+        c.color as category_color,
+        SUM(${BASE_AMOUNT}) as total,
+        COUNT(DISTINCT t.id) as count
+      FROM transaction_tags tt
+      JOIN tags g ON g.id = tt.tag_id
+      JOIN ${TRANSACTION_PARTS} t ON t.id = tt.transaction_id
+      JOIN ledgers l ON t.ledger_id = l.id
+      ${CATEGORY_ROLLUP_JOIN}
+      WHERE ${where}
+      GROUP BY g.id, ${ROLLUP_CATEGORY_ID}
+      ORDER BY total DESC
+    `
+    )
+    .all(0, ...params) as Array<{
+    tag_id: number;
+    tag_name: string;
+    tag_color: string | null;
+    category_id: number | null;
+    category_name: string;
+    category_color: string | null;
+    total: number;
+    count: number;
+  }>;
+
+  // Transactions per tag, counted apart since the parts of a split transaction
+  // can fall under several of the tag's categories
+  const counts = db
+    .prepare(
+      `
+      SELECT g.id as tag_id, COUNT(DISTINCT t.id) as count
+      FROM transaction_tags tt
+      JOIN tags g ON g.id = tt.tag_id
+      JOIN transactions t ON t.id = tt.transaction_id
+      JOIN ledgers l ON t.ledger_id = l.id
+      WHERE ${where}
+      GROUP BY g.id
+    `
+    )
+    .all(...params) as Array<{ tag_id: number; count: number }>;
+  const countByTag = new Map(counts.map((c) => [c.tag_id, c.count]));
+
+  const tags = new Map<number, TagSpending>();
+  for (const r of rows) {
+    const tag = tags.get(r.tag_id) ?? {
+      tagId: r.tag_id,
+      tagName: r.tag_name,
+      tagColor: r.tag_color,
+      total: 0,
+      count: countByTag.get(r.tag_id) ?? 0,
+      categories: [],
+    };
+    tag.total += r.total;
+    tag.categories.push({
+      categoryId: r.category_id,
+      categoryName: r.category_name,
+      categoryColor: r.category_color,
+      total: r.total,
+      count: r.count,
+      percentage: 0,
+    });
+    tags.set(r.tag_id, tag);
+  }
+
+  for (const tag of tags.values()) {
+    for (const category of tag.categories) {
+      category.percentage = tag.total > 0 ? (category.total / tag.total) * 100 : 0;
+    }
+  }
+
+  return [...tags.values()].sort((a, b) => b.total - a.total);
+}
+
 /**
  * Get available years for reports
  */
-export function getAvailableYearsForReports(workspaceId: number): number[] {
+export function getAvailableYearsForReports(
+  workspaceId: number,
+  dateBasis: DateBasis = 'booking'
+): number[] {
   const db = getDatabase();
+  const date = dateColumn(dateBasis);
 
   const years = db
     .prepare(
       `
-      SELECT DISTINCT substr(t.date, 1, 4) as year
+      SELECT DISTINCT substr(${date}, 1, 4) as year
       FROM transactions t
       JOIN ledgers l ON t.ledger_id = l.id
       WHERE l.workspace_id = ?
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import { splitTransaction, removeTransactionSplit, getTransactionSplits } from './splitService.js';
+
+const mockDb = { prepare: vi.fn(), transaction: vi.fn() };
+
+const parts = [
+  { categoryId: 4, amount: 30.1, note: 'Groceries' },
+  { categoryId: 6, amount: 12.2 },
+  { categoryId: null, amount: 0.2 },
+];
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+  mockDb.transaction.mockImplementation((fn) => fn);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+function mockTransaction(amount: number | undefined, categoryCount = 2) {
+  const mockInsert = vi.fn();
+  const mockDelete = vi.fn();
+  mockDb.prepare.mockImplementation((sql: string) => {
+    if (sql.includes('SELECT t.amount')) {
+      return { get: vi.fn().mockReturnValue(amount === undefined ? undefined : { amount }) };
+    }
+    if (sql.includes('FROM categories')) {
+      return { get: vi.fn().mockReturnValue({ count: categoryCount }) };
+    }
+    if (sql.includes('DELETE FROM transaction_splits')) return { run: mockDelete };
+    if (sql.includes('INSERT INTO transaction_splits')) return { run: mockInsert };
+    return { all: vi.fn().mockReturnValue([]) };
+  });
+  return { mockInsert, mockDelete };
+}
+
+describe('splitTransaction', () => {
+  it('replaces the split with the given parts', () => {
+    const { mockInsert, mockDelete } = mockTransaction(42.5);
+
+    splitTransaction(9, 1, parts);
+
+    expect(mockDelete).toHaveBeenCalledWith(9);
+    expect(mockInsert).toHaveBeenCalledTimes(3);
+    expect(mockInsert).toHaveBeenCalledWith(9, 4, 30.1, 'Groceries');
+    expect(mockInsert).toHaveBeenCalledWith(9, null, 0.2, null);
+  });
+
+  it('rejects parts that do not add up to the transaction amount', () => {
+    const { mockInsert } = mockTransaction(50);
+
+    expect(() => splitTransaction(9, 1, parts)).toThrow(
+      'Split amounts must add up to the transaction amount'
+    );
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects a category of another workspace', () => {
+    mockTransaction(42.5, 1);
+
+    expect(() => splitTransaction(9, 1, parts)).toThrow('Category not found');
+  });
+
+  it('throws not found for a transaction of another workspace', () => {
+    mockTransaction(undefined);
+
+    expect(() => splitTransaction(9, 1, parts)).toThrow('Transaction not found');
+  });
+});
+
+describe('removeTransactionSplit', () => {
+  it('deletes the parts of the transaction', () => {
+    const mockDelete = vi.fn();
+    mockDb.prepare.mockImplementation((sql: string) =>
+      sql.includes('DELETE') ? { run: mockDelete } : { get: vi.fn().mockReturnValue({ id: 9 }) }
+    );
+
+    removeTransactionSplit(9, 1);
+
+    expect(mockDelete).toHaveBeenCalledWith(9);
+  });
+
+  it('throws not found for a transaction of another workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => removeTransactionSplit(9, 1)).toThrow('Transaction not found');
+  });
+});
+
+describe('getTransactionSplits', () => {
+  it('groups the parts by transaction', () => {
+    mockDb.prepare.mockReturnValue({
+      all: vi.fn().mockReturnValue([
+        { id: 1, transaction_id: 9, category_id: 4, amount: 30, note: 'Groceries' },
+        { id: 2, transaction_id: 9, category_id: null, amount: 12.5, note: null },
+      ]),
+    });
+
+    expect(getTransactionSplits([9, 10])).toEqual(
+      new Map([
+        [
+          9,
+          [
+            { id: 1, categoryId: 4, amount: 30, note: 'Groceries' },
+            { id: 2, categoryId: null, amount: 12.5, note: null },
+          ],
+        ],
+      ])
+    );
+  });
+
+  it('skips the query without transactions', () => {
+    expect(getTransactionSplits([])).toEqual(new Map());
+    expect(mockDb.prepare).not.toHaveBeenCalled();
+  });
+});
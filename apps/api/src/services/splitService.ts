@@ -0,0 +1,136 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { ErrorCode, type TransactionSplit } from '@compasso/shared';
+
+interface SplitRow {
+  id: number;
+  transaction_id: number;
+  category_id: number | null;
+  amount: number;
+  note: string | null;
+}
+
+export interface SplitPart {
+  categoryId: number | null;
+  amount: number;
+  note?: string | null;
+}
+
+function mapSplitRow(row: SplitRow): TransactionSplit {
+  return {
+    id: row.id,
+    categoryId: row.category_id,
+    amount: row.amount,
+    note: row.note,
+  };
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Split a transaction into parts, each with its own category, amount and
+ * optional note, replacing any earlier split. The parts must add up to the
+ * transaction's amount and their categories belong to its workspace.
+ */
+export function splitTransaction(
+  transactionId: number,
+  workspaceId: number,
+  parts: SplitPart[]
+): TransactionSplit[] {
+  const db = getDatabase();
+  const transaction = db
+    .prepare(
+      `SELECT t.amount FROM transactions t
+       JOIN ledgers l ON t.ledger_id = l.id
+       WHERE t.id = ? AND l.workspace_id = ?`
+    )
+    .get(transactionId, workspaceId) as { amount: number } | undefined;
+
+  if (!transaction) {
+    throw AppError.notFound('Transaction not found');
+  }
+
+  const total = parts.reduce((sum, part) => sum + toCents(part.amount), 0);
+  if (total !== toCents(transaction.amount)) {
+    throw AppError.badRequest(
+      'Split amounts must add up to the transaction amount',
+      ErrorCode.VALIDATION_ERROR
+    );
+  }
+
+  const categoryIds = [
+    ...new Set(parts.map((part) => part.categoryId).filter((id): id is number => id !== null)),
+  ];
+  if (categoryIds.length > 0) {
+    const found = db
+      .prepare(
+        `SELECT COUNT(*) as count FROM categories
+         WHERE workspace_id = ? AND id IN (${categoryIds.map(() => '?').join(', ')})`
+      )
+      .get(workspaceId, ...categoryIds) as { count: number };
+
+    if (found.count !== categoryIds.length) {
+      throw AppError.badRequest('Category not found');
+    }
+  }
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM transaction_splits WHERE transaction_id = ?').run(transactionId);
+    const insert = db.prepare(
+      'INSERT INTO transaction_splits (transaction_id, category_id, amount, note) VALUES (?, ?, ?, ?)'
+    );
+    for (const part of parts) {
+      insert.run(transactionId, part.categoryId, part.amount, part.note || null);
+    }
+  })();
+
+  return getTransactionSplits([transactionId]).get(transactionId) ?? [];
+}
+
+/**
+ * Undo a transaction's split, so it counts as a whole in its own category again.
+ */
+export function removeTransactionSplit(transactionId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const transaction = db
+    .prepare(
+      `SELECT t.id FROM transactions t
+       JOIN ledgers l ON t.ledger_id = l.id
+       WHERE t.id = ? AND l.workspace_id = ?`
+    )
+    .get(transactionId, workspaceId);
+
+  if (!transaction) {
+    throw AppError.notFound('Transaction not found');
+  }
+
+  db.prepare('DELETE FROM transaction_splits WHERE transaction_id = ?').run(transactionId);
+}
+
+/**
+ * Get the split parts of each of the given transactions, in the order they
+ * were entered. Transactions that aren't split are left out of the map.
+ */
+export function getTransactionSplits(transactionIds: number[]): Map<number, TransactionSplit[]> {
+  const splits = new Map<number, TransactionSplit[]>();
+  if (transactionIds.length === 0) return splits;
+
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT id, transaction_id, category_id, amount, note
+       FROM transaction_splits
+       WHERE transaction_id IN (${transactionIds.map(() => '?').join(', ')})
+       ORDER BY id`
+    )
+    .all(...transactionIds) as SplitRow[];
+
+  for (const row of rows) {
+    const list = splits.get(row.transaction_id) || [];
+    list.push(mapSplitRow(row));
+    splits.set(row.transaction_id, list);
+  }
+  return splits;
+}
@@ -0,0 +1,252 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+vi.mock('../parsers/registry.js', () => ({ registerTemplateBank: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import { registerTemplateBank } from '../parsers/registry.js';
+import { AppError } from '../errors.js';
+import {
+  toStatementTemplateBankId,
+  parseStatementTemplateBankId,
+  listStatementTemplates,
+  getStatementTemplate,
+  createStatementTemplate,
+  updateStatementTemplate,
+  deleteStatementTemplate,
+  statementTemplateExists,
+  loadStatementTemplateFiles,
+} from './statementTemplateService.js';
+
+const mockDb: any = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
+
+const definition = {
+  dateFormat: 'DD/MM/YYYY',
+  decimalFormat: 'european' as const,
+  transaction: { pattern: '^(?<date>\\d{2}/\\d{2}/\\d{4})\\s+' },
+  amountLayouts: [{ amount: 0, balance: 1, incomeFrom: 'sign' as const }],
+};
+
+const templateRow = {
+  id: 4,
+  workspace_id: 1,
+  name: 'Millennium',
+  currency: 'EUR',
+  definition: JSON.stringify(definition),
+  created_at: '2025-01-01',
+};
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Bank ID helpers
+// ---------------------------------------------------------------------------
+describe('statement template bank IDs', () => {
+  it('round-trips template IDs', () => {
+    expect(toStatementTemplateBankId(4)).toBe('template:4');
+    expect(parseStatementTemplateBankId('template:4')).toBe(4);
+  });
+
+  it('returns null for other banks and malformed IDs', () => {
+    expect(parseStatementTemplateBankId('novo_banco')).toBeNull();
+    expect(parseStatementTemplateBankId('csv:4')).toBeNull();
+    expect(parseStatementTemplateBankId('template:x')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// listStatementTemplates / getStatementTemplate
+// ---------------------------------------------------------------------------
+describe('listStatementTemplates', () => {
+  it('maps rows to templates with a bank ID and parsed definition', () => {
+    mockDb.prepare.mockReturnValue({ all: vi.fn().mockReturnValue([templateRow]) });
+
+    expect(listStatementTemplates(1)).toEqual([
+      {
+        id: 4,
+        workspaceId: 1,
+        bankId: 'template:4',
+        name: 'Millennium',
+        currency: 'EUR',
+        definition,
+        createdAt: '2025-01-01',
+      },
+    ]);
+  });
+});
+
+describe('getStatementTemplate', () => {
+  it('throws not found for a template outside the workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => getStatementTemplate(4, 2)).toThrow('Statement template not found');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createStatementTemplate / updateStatementTemplate
+// ---------------------------------------------------------------------------
+describe('createStatementTemplate', () => {
+  it('stores the definition as JSON with the default currency', () => {
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 4 });
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('AND name = ?')) return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INSERT')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue(templateRow) };
+    });
+
+    const result = createStatementTemplate({ workspaceId: 1, name: 'Millennium', definition });
+
+    expect(mockRun).toHaveBeenCalledWith(1, 'Millennium', 'EUR', JSON.stringify(definition));
+    expect(result.bankId).toBe('template:4');
+  });
+
+  it('throws on duplicate name', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue({ id: 9 }) });
+
+    expect(() =>
+      createStatementTemplate({ workspaceId: 1, name: 'Millennium', definition })
+    ).toThrow(AppError);
+  });
+});
+
+describe('updateStatementTemplate', () => {
+  it('updates only the provided fields', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    let updateSql = '';
+
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE')) {
+        updateSql = sql;
+        return { run: mockRun };
+      }
+      return { get: vi.fn().mockReturnValue(templateRow) };
+    });
+
+    updateStatementTemplate(4, 1, { currency: 'USD', definition });
+
+    expect(updateSql).toContain('currency = ?, definition = ?');
+    expect(mockRun).toHaveBeenCalledWith('USD', JSON.stringify(definition), 4, 1);
+  });
+
+  it('throws when no fields are provided', () => {
+    expect(() => updateStatementTemplate(4, 1, {})).toThrow('No fields to update');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// deleteStatementTemplate / statementTemplateExists
+// ---------------------------------------------------------------------------
+describe('deleteStatementTemplate', () => {
+  it('deletes the template and its category patterns', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    mockDb.prepare.mockReturnValue({ run: mockRun });
+
+    deleteStatementTemplate(4, 1);
+
+    expect(mockRun).toHaveBeenCalledWith(4, 1);
+    expect(mockRun).toHaveBeenCalledWith('template:4', 1);
+  });
+
+  it('throws not found for a missing template', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => deleteStatementTemplate(4, 1)).toThrow('Statement template not found');
+  });
+});
+
+describe('statementTemplateExists', () => {
+  it('returns false for other banks without querying', () => {
+    expect(statementTemplateExists('csv:4', 1)).toBe(false);
+    expect(mockDb.prepare).not.toHaveBeenCalled();
+  });
+
+  it('checks the template belongs to the workspace', () => {
+    const mockGet = vi.fn().mockReturnValue({ id: 4 });
+    mockDb.prepare.mockReturnValue({ get: mockGet });
+
+    expect(statementTemplateExists('template:4', 1)).toBe(true);
+    expect(mockGet).toHaveBeenCalledWith(4, 1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadStatementTemplateFiles
+// ---------------------------------------------------------------------------
+describe('loadStatementTemplateFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'compasso-templates-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('registers valid files and reports invalid ones', () => {
+    fs.writeFileSync(
+      path.join(dir, 'millennium.json'),
+      JSON.stringify({ id: 'millennium', name: 'Millennium BCP', country: 'pt', definition })
+    );
+    fs.writeFileSync(
+      path.join(dir, 'broken.json'),
+      JSON.stringify({
+        id: 'broken',
+        name: 'Broken',
+        definition: { ...definition, amountLayouts: [] },
+      })
+    );
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+    const result = loadStatementTemplateFiles(dir);
+
+    expect(result.loaded).toEqual(['millennium']);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatch(/^broken\.json: /);
+    expect(registerTemplateBank).toHaveBeenCalledWith(
+      {
+        config: {
+          id: 'millennium',
+          name: 'Millennium BCP',
+          country: 'PT',
+          currency: 'EUR',
+          dateFormat: 'DD/MM/YYYY',
+          decimalFormat: 'european',
+          format: 'pdf',
+        },
+        fingerprint: { patterns: [] },
+        transactionPatterns: {},
+        merchantRules: { stripPatterns: [], locations: [] },
+        categoryPatterns: {},
+      },
+      definition
+    );
+  });
+
+  it('reports files that are not valid JSON', () => {
+    fs.writeFileSync(path.join(dir, 'bad.json'), '{');
+
+    const result = loadStatementTemplateFiles(dir);
+
+    expect(result.loaded).toEqual([]);
+    expect(result.errors[0]).toMatch(/^bad\.json: /);
+  });
+
+  it('loads nothing from a missing directory', () => {
+    expect(loadStatementTemplateFiles(path.join(dir, 'missing'))).toEqual({
+      loaded: [],
+      errors: [],
+    });
+  });
+});
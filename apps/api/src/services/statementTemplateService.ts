@@ -0,0 +1,249 @@
+import fs from 'fs';
+import path from 'path';
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { registerTemplateBank } from '../parsers/registry.js';
+import { getTemplateFingerprint } from '../parsers/fingerprint.js';
+import { statementTemplateFileSchema } from '../schemas/statementTemplates.js';
+import {
+  STATEMENT_TEMPLATE_BANK_PREFIX,
+  ErrorCode,
+  type StatementTemplate,
+  type StatementTemplateDefinition,
+  type CreateStatementTemplateRequest,
+  type UpdateStatementTemplateRequest,
+} from '@compasso/shared';
+
+interface StatementTemplateRow {
+  id: number;
+  workspace_id: number;
+  name: string;
+  currency: string;
+  definition: string;
+  created_at: string;
+}
+
+const TEMPLATE_COLUMNS = 'id, workspace_id, name, currency, definition, created_at';
+
+/**
+ * Build the bank ID under which a workspace template appears in the bank list,
+ * category patterns and ledgers (e.g. "template:4").
+ */
+export function toStatementTemplateBankId(templateId: number): string {
+  return `${STATEMENT_TEMPLATE_BANK_PREFIX}${templateId}`;
+}
+
+/**
+ * Extract the template ID from a template bank ID, or null for other banks.
+ */
+export function parseStatementTemplateBankId(bankId: string): number | null {
+  if (!bankId.startsWith(STATEMENT_TEMPLATE_BANK_PREFIX)) return null;
+  const id = Number(bankId.slice(STATEMENT_TEMPLATE_BANK_PREFIX.length));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function mapTemplateRow(row: StatementTemplateRow): StatementTemplate {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    bankId: toStatementTemplateBankId(row.id),
+    name: row.name,
+    currency: row.currency,
+    definition: JSON.parse(row.definition) as StatementTemplateDefinition,
+    createdAt: row.created_at,
+  };
+}
+
+function assertNameAvailable(workspaceId: number, name: string, excludeId?: number): void {
+  const db = getDatabase();
+  const existing = db
+    .prepare('SELECT id FROM statement_templates WHERE workspace_id = ? AND name = ? AND id != ?')
+    .get(workspaceId, name, excludeId ?? 0);
+
+  if (existing) {
+    throw AppError.badRequest(
+      'A statement template with this name already exists in this workspace',
+      ErrorCode.DUPLICATE_RESOURCE
+    );
+  }
+}
+
+/**
+ * List all statement templates of a workspace.
+ */
+export function listStatementTemplates(workspaceId: number): StatementTemplate[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT ${TEMPLATE_COLUMNS} FROM statement_templates WHERE workspace_id = ? ORDER BY name ASC`
+    )
+    .all(workspaceId) as StatementTemplateRow[];
+
+  return rows.map(mapTemplateRow);
+}
+
+/**
+ * Get a single statement template, scoped to its workspace.
+ */
+export function getStatementTemplate(templateId: number, workspaceId: number): StatementTemplate {
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      `SELECT ${TEMPLATE_COLUMNS} FROM statement_templates WHERE id = ? AND workspace_id = ?`
+    )
+    .get(templateId, workspaceId) as StatementTemplateRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('Statement template not found');
+  }
+
+  return mapTemplateRow(row);
+}
+
+/**
+ * Create a statement template in a workspace.
+ */
+export function createStatementTemplate(data: CreateStatementTemplateRequest): StatementTemplate {
+  assertNameAvailable(data.workspaceId, data.name);
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      'INSERT INTO statement_templates (workspace_id, name, currency, definition) VALUES (?, ?, ?, ?)'
+    )
+    .run(data.workspaceId, data.name, data.currency || 'EUR', JSON.stringify(data.definition));
+
+  return getStatementTemplate(Number(result.lastInsertRowid), data.workspaceId);
+}
+
+/**
+ * Update a statement template.
+ */
+export function updateStatementTemplate(
+  templateId: number,
+  workspaceId: number,
+  data: UpdateStatementTemplateRequest
+): StatementTemplate {
+  const fields: Array<[string, unknown]> = [];
+
+  if (data.name !== undefined) fields.push(['name', data.name]);
+  if (data.currency !== undefined) fields.push(['currency', data.currency]);
+  if (data.definition !== undefined) fields.push(['definition', JSON.stringify(data.definition)]);
+
+  if (fields.length === 0) {
+    throw AppError.badRequest('No fields to update');
+  }
+
+  if (data.name !== undefined) {
+    assertNameAvailable(workspaceId, data.name, templateId);
+  }
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `UPDATE statement_templates SET ${fields.map(([column]) => `${column} = ?`).join(', ')}
+       WHERE id = ? AND workspace_id = ?`
+    )
+    .run(...fields.map(([, value]) => value), templateId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Statement template not found');
+  }
+
+  return getStatementTemplate(templateId, workspaceId);
+}
+
+/**
+ * Delete a statement template and the category patterns registered under its
+ * bank ID. Ledgers imported with the template are kept.
+ */
+export function deleteStatementTemplate(templateId: number, workspaceId: number): void {
+  const db = getDatabase();
+
+  const deleteTemplate = db.transaction(() => {
+    const result = db
+      .prepare('DELETE FROM statement_templates WHERE id = ? AND workspace_id = ?')
+      .run(templateId, workspaceId);
+
+    if (result.changes === 0) {
+      throw AppError.notFound('Statement template not found');
+    }
+
+    db.prepare(`
+      DELETE FROM category_patterns
+      WHERE bank_id = ? AND category_id IN (SELECT id FROM categories WHERE workspace_id = ?)
+    `).run(toStatementTemplateBankId(templateId), workspaceId);
+  });
+
+  deleteTemplate();
+}
+
+/**
+ * Check whether a bank ID refers to a statement template of the given workspace.
+ */
+export function statementTemplateExists(bankId: string, workspaceId: number): boolean {
+  const templateId = parseStatementTemplateBankId(bankId);
+  if (templateId === null) return false;
+
+  const db = getDatabase();
+  const row = db
+    .prepare('SELECT id FROM statement_templates WHERE id = ? AND workspace_id = ?')
+    .get(templateId, workspaceId);
+  return !!row;
+}
+
+/**
+ * Register the instance-wide template banks found as *.json files in a
+ * directory. Invalid files are reported and skipped; a missing directory
+ * simply loads nothing.
+ */
+export function loadStatementTemplateFiles(dir: string): { loaded: string[]; errors: string[] } {
+  const loaded: string[] = [];
+  const errors: string[] = [];
+
+  if (!fs.existsSync(dir)) {
+    return { loaded, errors };
+  }
+
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => file.toLowerCase().endsWith('.json'))
+    .sort();
+
+  for (const file of files) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+      const parsed = statementTemplateFileSchema.safeParse(raw);
+      if (!parsed.success) {
+        errors.push(`${file}: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`);
+        continue;
+      }
+
+      const { id, name, country, currency, categoryPatterns } = parsed.data;
+      const definition = parsed.data.definition as StatementTemplateDefinition;
+      registerTemplateBank(
+        {
+          config: {
+            id,
+            name,
+            country: country ?? '',
+            currency: currency ?? 'EUR',
+            dateFormat: definition.dateFormat,
+            decimalFormat: definition.decimalFormat,
+            format: 'pdf',
+          },
+          fingerprint: getTemplateFingerprint(definition),
+          transactionPatterns: {},
+          merchantRules: { stripPatterns: [], locations: [] },
+          categoryPatterns: categoryPatterns ?? {},
+        },
+        definition
+      );
+      loaded.push(id);
+    } catch (err) {
+      errors.push(`${file}: ${(err as Error).message}`);
+    }
+  }
+
+  return { loaded, errors };
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import {
+  listTags,
+  createTag,
+  updateTag,
+  deleteTag,
+  addTagToTransactions,
+  removeTagFromTransactions,
+  getTransactionTags,
+} from './tagService.js';
+
+const mockDb = { prepare: vi.fn() };
+
+const tagRow = {
+  id: 3,
+  workspace_id: 1,
+  name: 'vacation-2025',
+  color: '#3b82f6',
+  created_at: '2025-01-01',
+  transaction_count: 4,
+};
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('listTags', () => {
+  it('returns the workspace tags with their transaction counts', () => {
+    const mockAll = vi.fn().mockReturnValue([tagRow]);
+    mockDb.prepare.mockReturnValue({ all: mockAll });
+
+    expect(listTags(1)).toEqual([
+      {
+        id: 3,
+        workspaceId: 1,
+        name: 'vacation-2025',
+        color: '#3b82f6',
+        transactionCount: 4,
+        createdAt: '2025-01-01',
+      },
+    ]);
+    expect(mockAll).toHaveBeenCalledWith(1);
+  });
+});
+
+describe('createTag', () => {
+  it('inserts the tag', () => {
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 3 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('id IS NOT ?')) return { get: vi.fn().mockReturnValue(undefined) };
+      if (sql.includes('INSERT INTO tags')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue(tagRow) };
+    });
+
+    const tag = createTag(1, 'vacation-2025', '#3b82f6');
+
+    expect(mockRun).toHaveBeenCalledWith(1, 'vacation-2025', '#3b82f6');
+    expect(tag.id).toBe(3);
+  });
+
+  it('rejects a name already used in the workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue({ id: 5 }) });
+
+    expect(() => createTag(1, 'Kids')).toThrow('Tag name already exists in this workspace');
+  });
+});
+
+describe('updateTag', () => {
+  it('keeps the name when only the color changes', () => {
+    const mockRun = vi.fn();
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.startsWith('UPDATE tags')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue(tagRow) };
+    });
+
+    updateTag(3, 1, { color: null });
+
+    expect(mockRun).toHaveBeenCalledWith('vacation-2025', null, 3);
+  });
+
+  it('throws not found for a tag of another workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => updateTag(3, 2, { name: 'kids' })).toThrow('Tag not found');
+  });
+});
+
+describe('deleteTag', () => {
+  it('throws not found when nothing was deleted', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => deleteTag(3, 2)).toThrow('Tag not found');
+  });
+});
+
+describe('addTagToTransactions', () => {
+  it('only tags transactions of the workspace', () => {
+    let insertSql = '';
+    const mockRun = vi.fn().mockReturnValue({ changes: 2 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('INSERT OR IGNORE INTO transaction_tags')) {
+        insertSql = sql;
+        return { run: mockRun };
+      }
+      return { get: vi.fn().mockReturnValue(tagRow) };
+    });
+
+    expect(addTagToTransactions(3, [10, 11], 1)).toBe(2);
+    expect(insertSql).toContain('l.workspace_id = ?');
+    expect(mockRun).toHaveBeenCalledWith(3, 1, 10, 11);
+  });
+
+  it('throws not found for a tag of another workspace', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => addTagToTransactions(3, [10], 2)).toThrow('Tag not found');
+  });
+});
+
+describe('removeTagFromTransactions', () => {
+  it('returns the number of transactions that had the tag', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('DELETE FROM transaction_tags')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue(tagRow) };
+    });
+
+    expect(removeTagFromTransactions(3, [10, 11], 1)).toBe(1);
+    expect(mockRun).toHaveBeenCalledWith(3, 10, 11);
+  });
+});
+
+describe('getTransactionTags', () => {
+  it('groups tags by transaction', () => {
+    mockDb.prepare.mockReturnValue({
+      all: vi.fn().mockReturnValue([
+        { transaction_id: 10, id: 4, name: 'kids', color: null },
+        { transaction_id: 10, id: 3, name: 'vacation-2025', color: '#3b82f6' },
+        { transaction_id: 11, id: 4, name: 'kids', color: null },
+      ]),
+    });
+
+    const tags = getTransactionTags([10, 11]);
+
+    expect(tags.get(10)).toEqual([
+      { id: 4, name: 'kids', color: null },
+      { id: 3, name: 'vacation-2025', color: '#3b82f6' },
+    ]);
+    expect(tags.get(11)).toHaveLength(1);
+  });
+
+  it('does not query without transactions', () => {
+    expect(getTransactionTags([]).size).toBe(0);
+    expect(mockDb.prepare).not.toHaveBeenCalled();
+  });
+});
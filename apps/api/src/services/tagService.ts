@@ -0,0 +1,201 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { ErrorCode, type Tag, type TransactionTag } from '@compasso/shared';
+
+interface TagRow {
+  id: number;
+  workspace_id: number;
+  name: string;
+  color: string | null;
+  created_at: string;
+  transaction_count: number;
+}
+
+function mapTagRow(row: TagRow): Tag {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    color: row.color,
+    transactionCount: row.transaction_count,
+    createdAt: row.created_at,
+  };
+}
+
+const TAG_SELECT = `
+  SELECT g.id, g.workspace_id, g.name, g.color, g.created_at, COUNT(tt.transaction_id) as transaction_count
+  FROM tags g
+  LEFT JOIN transaction_tags tt ON tt.tag_id = g.id
+`;
+
+function assertUniqueName(workspaceId: number, name: string, tagId: number | null): void {
+  const db = getDatabase();
+  const duplicate = db
+    .prepare('SELECT id FROM tags WHERE workspace_id = ? AND name = ? AND id IS NOT ?')
+    .get(workspaceId, name, tagId);
+
+  if (duplicate) {
+    throw AppError.badRequest(
+      'Tag name already exists in this workspace',
+      ErrorCode.DUPLICATE_RESOURCE
+    );
+  }
+}
+
+/**
+ * List a workspace's tags by name, with their transaction counts.
+ */
+export function listTags(workspaceId: number): Tag[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(`${TAG_SELECT} WHERE g.workspace_id = ? GROUP BY g.id ORDER BY g.name`)
+    .all(workspaceId) as TagRow[];
+
+  return rows.map(mapTagRow);
+}
+
+/**
+ * Get a single tag with its transaction count.
+ */
+export function getTag(tagId: number, workspaceId: number): Tag {
+  const db = getDatabase();
+  const row = db
+    .prepare(`${TAG_SELECT} WHERE g.id = ? AND g.workspace_id = ? GROUP BY g.id`)
+    .get(tagId, workspaceId) as TagRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('Tag not found');
+  }
+
+  return mapTagRow(row);
+}
+
+/**
+ * Create a tag. Names are unique per workspace, ignoring case.
+ */
+export function createTag(workspaceId: number, name: string, color?: string | null): Tag {
+  assertUniqueName(workspaceId, name, null);
+
+  const db = getDatabase();
+  const result = db
+    .prepare('INSERT INTO tags (workspace_id, name, color) VALUES (?, ?, ?)')
+    .run(workspaceId, name, color || null);
+
+  return getTag(Number(result.lastInsertRowid), workspaceId);
+}
+
+/**
+ * Rename a tag or change its color.
+ */
+export function updateTag(
+  tagId: number,
+  workspaceId: number,
+  data: { name?: string; color?: string | null }
+): Tag {
+  const existing = getTag(tagId, workspaceId);
+  if (data.name !== undefined) {
+    assertUniqueName(workspaceId, data.name, tagId);
+  }
+
+  const db = getDatabase();
+  db.prepare('UPDATE tags SET name = ?, color = ? WHERE id = ?').run(
+    data.name ?? existing.name,
+    data.color !== undefined ? data.color || null : existing.color,
+    tagId
+  );
+
+  return getTag(tagId, workspaceId);
+}
+
+/**
+ * Delete a tag. Its transactions are kept, without the tag.
+ */
+export function deleteTag(tagId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const result = db
+    .prepare('DELETE FROM tags WHERE id = ? AND workspace_id = ?')
+    .run(tagId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Tag not found');
+  }
+}
+
+/**
+ * Add a tag to transactions of its workspace. Transactions of other workspaces
+ * and those that already have the tag are skipped. Returns the number tagged.
+ */
+export function addTagToTransactions(
+  tagId: number,
+  transactionIds: number[],
+  workspaceId: number
+): number {
+  getTag(tagId, workspaceId);
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `
+      INSERT OR IGNORE INTO transaction_tags (transaction_id, tag_id)
+      SELECT t.id, ?
+      FROM transactions t
+      JOIN ledgers l ON t.ledger_id = l.id
+      WHERE l.workspace_id = ? AND t.id IN (${transactionIds.map(() => '?').join(', ')})
+    `
+    )
+    .run(tagId, workspaceId, ...transactionIds);
+
+  return result.changes;
+}
+
+/**
+ * Remove a tag from transactions. Returns the number of transactions that had it.
+ */
+export function removeTagFromTransactions(
+  tagId: number,
+  transactionIds: number[],
+  workspaceId: number
+): number {
+  getTag(tagId, workspaceId);
+
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `DELETE FROM transaction_tags
+       WHERE tag_id = ? AND transaction_id IN (${transactionIds.map(() => '?').join(', ')})`
+    )
+    .run(tagId, ...transactionIds);
+
+  return result.changes;
+}
+
+/**
+ * Get the tags of each of the given transactions, by name.
+ */
+export function getTransactionTags(transactionIds: number[]): Map<number, TransactionTag[]> {
+  const tags = new Map<number, TransactionTag[]>();
+  if (transactionIds.length === 0) return tags;
+
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT tt.transaction_id, g.id, g.name, g.color
+       FROM transaction_tags tt
+       JOIN tags g ON g.id = tt.tag_id
+       WHERE tt.transaction_id IN (${transactionIds.map(() => '?').join(', ')})
+       ORDER BY g.name`
+    )
+    .all(...transactionIds) as Array<{
+    transaction_id: number;
+    id: number;
+    name: string;
+    color: string | null;
+  }>;
+
+  for (const row of rows) {
+    const list = tags.get(row.transaction_id) || [];
+    list.push({ id: row.id, name: row.name, color: row.color });
+    tags.set(row.transaction_id, list);
+  }
+  return tags;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ParsedTransaction } from '@compasso/shared';
+
+vi.mock('../parsers/registry.js', () => ({
+  BANK_TRANSACTION_PATTERNS: {
+    novo_banco: {
+      CARD_PURCHASE: /^Compra\s+(Mb\s+)?Cartão/i,
+      TRANSFER_IN: /^Trf\s+Cred\s+Sepa/i,
+      ATM: /^Levantamento\s+Mb\s+Cartão/i,
+      BANK_FEE: /^Manutencao\s+Conta/i,
+    },
+  },
+}));
+
+import { classifyTransaction, classifyTransactions } from './transactionClassifier.js';
+
+function tx(description: string, amount: number): ParsedTransaction {
+  return {
+    date: '2025-01-02',
+    valueDate: '2025-01-02',
+    description,
+    amount: Math.abs(amount),
+    balance: null,
+    isIncome: amount > 0,
+    rawText: '',
+    suggestedCategoryId: null,
+    suggestedCategoryName: null,
+  };
+}
+
+describe('classifyTransaction', () => {
+  const patterns = { ATM: /^Levantamento/i, BANK_FEE: /^Manutencao/i };
+
+  it('should return the type whose pattern matches the description', () => {
+    expect(classifyTransaction('LEVANTAMENTO MB CARTÃO 1234', false, patterns)).toBe('ATM');
+  });
+
+  it('should leave descriptions without a matching pattern unclassified', () => {
+    expect(classifyTransaction('Pingo Doce', false, patterns)).toBeNull();
+  });
+
+  it('should take the direction of a transfer from the amount', () => {
+    const transfers = { TRANSFER_IN: /^TRF\s+/i };
+
+    expect(classifyTransaction('TRF JOAO SILVA', true, transfers)).toBe('TRANSFER_IN');
+    expect(classifyTransaction('TRF JOAO SILVA', false, transfers)).toBe('TRANSFER_OUT');
+  });
+});
+
+describe('classifyTransactions', () => {
+  it("should classify with the bank's patterns", () => {
+    const result = classifyTransactions(
+      [tx('Compra Mb Cartão Continente', -12.5), tx('Manutencao Conta', -5), tx('Lidl', -3)],
+      'novo_banco'
+    );
+
+    expect(result.map((t) => t.transactionType)).toEqual(['CARD_PURCHASE', 'BANK_FEE', null]);
+  });
+
+  it('should leave transactions of banks without patterns unclassified', () => {
+    const result = classifyTransactions([tx('Levantamento Mb Cartão', -20)], 'csv:3');
+
+    expect(result[0].transactionType).toBeNull();
+  });
+});
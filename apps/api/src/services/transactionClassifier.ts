@@ -0,0 +1,39 @@
+import { TRANSACTION_TYPES, type ParsedTransaction, type TransactionType } from '@compasso/shared';
+import { BANK_TRANSACTION_PATTERNS } from '../parsers/registry.js';
+import type { TransactionPatterns } from '../parsers/types.js';
+
+/**
+ * Transaction type classification from each bank's `transactionPatterns`.
+ *
+ * The first type (in TRANSACTION_TYPES order) whose pattern matches the
+ * description wins. A matched transfer takes its direction from the amount,
+ * since banks often use one prefix for both incoming and outgoing transfers.
+ * Banks without patterns (CSV profiles, workspace templates, OFX, camt,
+ * MT940) leave transactions unclassified.
+ */
+
+export function classifyTransaction(
+  description: string,
+  isIncome: boolean,
+  patterns: TransactionPatterns
+): TransactionType | null {
+  const type = TRANSACTION_TYPES.find((candidate) => patterns[candidate]?.test(description));
+  if (type === 'TRANSFER_IN' || type === 'TRANSFER_OUT') {
+    return isIncome ? 'TRANSFER_IN' : 'TRANSFER_OUT';
+  }
+  return type ?? null;
+}
+
+/**
+ * Set `transactionType` on parsed transactions using the bank's patterns.
+ */
+export function classifyTransactions(
+  transactions: ParsedTransaction[],
+  bankId: string
+): ParsedTransaction[] {
+  const patterns = BANK_TRANSACTION_PATTERNS[bankId] ?? {};
+  return transactions.map((tx) => ({
+    ...tx,
+    transactionType: classifyTransaction(tx.description, tx.isIncome, patterns),
+  }));
+}
@@ -5,13 +5,45 @@ vi.mock('../db/database.js', () => ({
   getDatabase: vi.fn(),
 }));
 
+vi.mock('./merchantService.js', () => ({
+  findOrCreateMerchant: vi.fn(() => null),
+}));
+
+vi.mock('./accountService.js', () => ({
+  getAccount: vi.fn(),
+}));
+
+vi.mock('./transferService.js', () => ({
+  detectTransfers: vi.fn(() => 0),
+}));
+
+vi.mock('./loanService.js', () => ({
+  linkAllLoanPayments: vi.fn(() => 0),
+}));
+
+vi.mock('./tagService.js', () => ({
+  getTransactionTags: vi.fn(() => new Map()),
+}));
+
+vi.mock('./splitService.js', () => ({
+  getTransactionSplits: vi.fn(() => new Map()),
+}));
+
 import { getDatabase } from '../db/database.js';
+import { findOrCreateMerchant } from './merchantService.js';
+import { getAccount } from './accountService.js';
+import { detectTransfers } from './transferService.js';
+import { linkAllLoanPayments } from './loanService.js';
+import { getTransactionTags } from './tagService.js';
+import { getTransactionSplits } from './splitService.js';
 import { AppError } from '../errors.js';
 import {
   listTransactions,
   confirmTransactions,
   updateTransactionCategory,
   deleteTransaction,
+  createManualTransaction,
+  updateManualTransaction,
 } from './transactionService.js';
 
 const DEFAULT_WORKSPACE_ID = 1;
@@ -210,6 +242,132 @@ describe('transactionService', () => {
       expect(capturedParams).toContain(0);
     });
 
+    it('should filter by transaction type', () => {
+      let capturedSql = '';
+      let capturedParams: unknown[] = [];
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        capturedSql = sql;
+        if (sql.includes('COUNT(*)')) {
+          return {
+            get: vi.fn((...params: unknown[]) => {
+              capturedParams = params;
+              return { count: 0 };
+            }),
+          };
+        }
+        return { all: vi.fn().mockReturnValue([]) };
+      });
+
+      listTransactions({ workspaceId: DEFAULT_WORKSPACE_ID, transactionType: 'ATM' });
+
+      expect(capturedSql).toContain('t.transaction_type = ?');
+      expect(capturedParams).toContain('ATM');
+    });
+
+    it('should filter unclassified transactions', () => {
+      let countSql = '';
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('COUNT(*)')) {
+          countSql = sql;
+          return { get: vi.fn().mockReturnValue({ count: 0 }) };
+        }
+        return { all: vi.fn().mockReturnValue([]) };
+      });
+
+      listTransactions({ workspaceId: DEFAULT_WORKSPACE_ID, transactionType: 'none' });
+
+      expect(countSql).toContain('t.transaction_type IS NULL');
+    });
+
+    it('should filter by merchant and return the merchant name', () => {
+      let countSql = '';
+      let capturedParams: unknown[] = [];
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('COUNT(*)')) {
+          countSql = sql;
+          return {
+            get: vi.fn((...params: unknown[]) => {
+              capturedParams = params;
+              return { count: 1 };
+            }),
+          };
+        }
+        return {
+          all: vi.fn().mockReturnValue([
+            { id: 1, ledger_id: 1, is_income: 0, merchant_id: 7, merchant_name: 'Pingo Doce', cat_id: null },
+          ]),
+        };
+      });
+
+      const result = listTransactions({ workspaceId: DEFAULT_WORKSPACE_ID, merchantId: 7 });
+
+      expect(countSql).toContain('t.merchant_id = ?');
+      expect(capturedParams).toEqual([DEFAULT_WORKSPACE_ID, 7]);
+      expect(result.items[0]).toMatchObject({ merchantId: 7, merchantName: 'Pingo Doce' });
+    });
+
+    it('should filter by tag name and attach the tags of each transaction', () => {
+      let countSql = '';
+      let capturedParams: unknown[] = [];
+      vi.mocked(getTransactionTags).mockReturnValue(
+        new Map([[1, [{ id: 3, name: 'vacation-2025', color: null }]]])
+      );
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('COUNT(*)')) {
+          countSql = sql;
+          return {
+            get: vi.fn((...params: unknown[]) => {
+              capturedParams = params;
+              return { count: 1 };
+            }),
+          };
+        }
+        return {
+          all: vi.fn().mockReturnValue([{ id: 1, ledger_id: 1, is_income: 0, cat_id: null }]),
+        };
+      });
+
+      const result = listTransactions({ workspaceId: DEFAULT_WORKSPACE_ID, tag: 'vacation-2025' });
+
+      expect(countSql).toContain('FROM transaction_tags tt JOIN tags g');
+      expect(capturedParams).toEqual([DEFAULT_WORKSPACE_ID, 'vacation-2025']);
+      expect(getTransactionTags).toHaveBeenCalledWith([1]);
+      expect(result.items[0].tags).toEqual([{ id: 3, name: 'vacation-2025', color: null }]);
+    });
+
+    it('should filter by category through the parts of split transactions', () => {
+      let countSql = '';
+      let capturedParams: unknown[] = [];
+      vi.mocked(getTransactionSplits).mockReturnValue(
+        new Map([[1, [{ id: 8, categoryId: 4, amount: 20, note: null }]]])
+      );
+
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('COUNT(*)')) {
+          countSql = sql;
+          return {
+            get: vi.fn((...params: unknown[]) => {
+              capturedParams = params;
+              return { count: 1 };
+            }),
+          };
+        }
+        return {
+          all: vi.fn().mockReturnValue([{ id: 1, ledger_id: 1, is_income: 0, cat_id: null }]),
+        };
+      });
+
+      const result = listTransactions({ workspaceId: DEFAULT_WORKSPACE_ID, categoryId: 4 });
+
+      expect(countSql).toContain('s.category_id = ?');
+      expect(capturedParams).toEqual([DEFAULT_WORKSPACE_ID, 4, 4]);
+      expect(result.items[0].splits).toEqual([{ id: 8, categoryId: 4, amount: 20, note: null }]);
+    });
+
     it('should return empty results when no transactions match', () => {
       mockDb.prepare.mockImplementation((sql: string) => {
         if (sql.includes('COUNT(*)')) {
@@ -280,8 +438,8 @@ describe('transactionService', () => {
 
       const mockRun = vi.fn();
       mockDb.prepare.mockImplementation((sql: string) => {
-        if (sql.includes('SELECT id FROM ledgers')) {
-          return { get: vi.fn().mockReturnValue({ id: 1 }) };
+        if (sql.includes('FROM ledgers WHERE id')) {
+          return { get: vi.fn().mockReturnValue({ id: 1, bank_id: 'novo_banco', workspace_id: 1, status: 'draft' }) };
         }
         if (sql.includes('INSERT INTO transactions')) {
           return { run: mockRun };
@@ -295,6 +453,189 @@ describe('transactionService', () => {
 
       expect(result).toBe(2);
       expect(mockRun).toHaveBeenCalledTimes(2);
+      expect(detectTransfers).toHaveBeenCalledWith(1);
+      expect(linkAllLoanPayments).toHaveBeenCalledWith(1);
+    });
+
+    it('should store the classified transaction type', () => {
+      const mockRun = vi.fn();
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('FROM ledgers WHERE id')) {
+          return { get: vi.fn().mockReturnValue({ id: 1, bank_id: 'novo_banco', workspace_id: 1, status: 'draft' }) };
+        }
+        return { run: mockRun };
+      });
+      mockDb.transaction.mockImplementation((fn) => fn);
+
+      confirmTransactions(1, [
+        {
+          date: '2024-11-15',
+          description: 'Levantamento Mb Cartão',
+          amount: 40,
+          balance: null,
+          categoryId: null,
+          isIncome: false,
+          rawText: null,
+          transactionType: 'ATM',
+        },
+      ]);
+
+      expect(mockRun).toHaveBeenCalledWith(
+        1,
+        '2024-11-15',
+        'Levantamento Mb Cartão',
+        40,
+        null,
+        null,
+        0,
+        null,
+        null,
+        'ATM',
+        null,
+        null
+      );
+    });
+
+    it('should store the value date', () => {
+      const mockRun = vi.fn();
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('FROM ledgers WHERE id')) {
+          return { get: vi.fn().mockReturnValue({ id: 1, bank_id: 'novo_banco', workspace_id: 1, status: 'draft' }) };
+        }
+        return { run: mockRun };
+      });
+      mockDb.transaction.mockImplementation((fn) => fn);
+
+      confirmTransactions(1, [
+        {
+          date: '2024-12-02',
+          valueDate: '2024-11-29',
+          description: 'Compra Mb Cartão 1234 Pingo Doce Lisboa',
+          amount: 23.5,
+          balance: null,
+          categoryId: null,
+          isIncome: false,
+          rawText: null,
+        },
+      ]);
+
+      // value_date is the last positional arg
+      expect(mockRun.mock.calls[0].at(-1)).toBe('2024-11-29');
+    });
+
+    it('should attach the ledger to an account of its workspace', () => {
+      const mockAttach = vi.fn();
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('FROM ledgers WHERE id')) {
+          return { get: vi.fn().mockReturnValue({ id: 1, bank_id: 'novo_banco', workspace_id: 3, status: 'draft' }) };
+        }
+        if (sql.includes('SET account_id')) return { run: mockAttach };
+        return { run: vi.fn() };
+      });
+      mockDb.transaction.mockImplementation((fn) => fn);
+
+      confirmTransactions(
+        1,
+        [
+          {
+            date: '2024-12-02',
+            description: 'Manutencao Conta',
+            amount: 5,
+            balance: null,
+            categoryId: null,
+            isIncome: false,
+            rawText: null,
+          },
+        ],
+        7
+      );
+
+      expect(getAccount).toHaveBeenCalledWith(7, 3);
+      expect(mockAttach).toHaveBeenCalledWith(7, 1);
+    });
+
+    it('should link each transaction to the merchant extracted for the ledger workspace and bank', () => {
+      const mockRun = vi.fn();
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('FROM ledgers WHERE id')) {
+          return { get: vi.fn().mockReturnValue({ id: 1, bank_id: 'novo_banco', workspace_id: 3, status: 'draft' }) };
+        }
+        return { run: mockRun };
+      });
+      mockDb.transaction.mockImplementation((fn) => fn);
+      vi.mocked(findOrCreateMerchant).mockReturnValueOnce(12);
+
+      confirmTransactions(1, [
+        {
+          date: '2024-11-15',
+          description: 'Compra Mb Cartão 1234 Pingo Doce Lisboa',
+          amount: 23.5,
+          balance: null,
+          categoryId: null,
+          isIncome: false,
+          rawText: null,
+          transactionType: 'CARD_PURCHASE',
+        },
+      ]);
+
+      expect(findOrCreateMerchant).toHaveBeenCalledWith(
+        3,
+        'novo_banco',
+        'Compra Mb Cartão 1234 Pingo Doce Lisboa',
+        'CARD_PURCHASE'
+      );
+      // merchant_id is the 11th positional arg
+      expect(mockRun.mock.calls[0][10]).toBe(12);
+    });
+
+    it('should mark the ledger as confirmed and drop its draft preview', () => {
+      const mockConfirm = vi.fn();
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('FROM ledgers WHERE id')) {
+          return { get: vi.fn().mockReturnValue({ id: 4, bank_id: 'novo_banco', workspace_id: 1, status: 'draft' }) };
+        }
+        if (sql.includes("status = 'confirmed'")) {
+          return { run: mockConfirm };
+        }
+        return { get: vi.fn(), run: vi.fn() };
+      });
+
+      mockDb.transaction.mockImplementation((fn) => fn);
+
+      confirmTransactions(4, []);
+
+      expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining('draft_data = NULL'));
+      expect(mockConfirm).toHaveBeenCalledWith(4);
+    });
+
+    it('should replace the ledger of an earlier upload of the same file', () => {
+      const mockDelete = vi.fn();
+      const mockTakeHash = vi.fn();
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('FROM ledgers WHERE id = ?') && sql.includes('status')) {
+          return {
+            get: vi.fn().mockReturnValue({
+              id: 4,
+              bank_id: 'novo_banco',
+              workspace_id: 1,
+              status: 'draft',
+              replaces_ledger_id: 2,
+            }),
+          };
+        }
+        if (sql.includes('SELECT file_hash')) {
+          return { get: vi.fn().mockReturnValue({ file_hash: 'abc123' }) };
+        }
+        if (sql === 'DELETE FROM ledgers WHERE id = ?') return { run: mockDelete };
+        if (sql.includes('SET file_hash')) return { run: mockTakeHash };
+        return { get: vi.fn(), run: vi.fn() };
+      });
+      mockDb.transaction.mockImplementation((fn) => fn);
+
+      confirmTransactions(4, []);
+
+      expect(mockDelete).toHaveBeenCalledWith(2);
+      expect(mockTakeHash).toHaveBeenCalledWith('abc123', 4);
     });
 
     it('should throw bad request when ledgerId is missing', () => {
@@ -313,7 +654,7 @@ describe('transactionService', () => {
 
     it('should throw not found when ledger does not exist', () => {
       mockDb.prepare.mockImplementation((sql: string) => {
-        if (sql.includes('SELECT id FROM ledgers')) {
+        if (sql.includes('FROM ledgers WHERE id')) {
           return { get: vi.fn().mockReturnValue(undefined) };
         }
         return { get: vi.fn(), run: vi.fn() };
@@ -323,11 +664,27 @@ describe('transactionService', () => {
       expect(() => confirmTransactions(999, [] as any)).toThrow('Ledger not found');
     });
 
+    it('should throw conflict when the ledger is already confirmed', () => {
+      const mockRun = vi.fn();
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('FROM ledgers WHERE id')) {
+          return {
+            get: vi.fn().mockReturnValue({ id: 1, bank_id: 'novo_banco', workspace_id: 1, status: 'confirmed' }),
+          };
+        }
+        return { get: vi.fn(), run: mockRun };
+      });
+
+      expect(() => confirmTransactions(1, [] as any)).toThrow('Ledger is already confirmed');
+      expect(mockRun).not.toHaveBeenCalled();
+      expect(detectTransfers).not.toHaveBeenCalled();
+    });
+
     it('should handle empty transactions array', () => {
       const mockRun = vi.fn();
       mockDb.prepare.mockImplementation((sql: string) => {
-        if (sql.includes('SELECT id FROM ledgers')) {
-          return { get: vi.fn().mockReturnValue({ id: 1 }) };
+        if (sql.includes('FROM ledgers WHERE id')) {
+          return { get: vi.fn().mockReturnValue({ id: 1, bank_id: 'novo_banco', workspace_id: 1, status: 'draft' }) };
         }
         if (sql.includes('INSERT INTO transactions')) {
           return { run: mockRun };
@@ -420,4 +777,197 @@ describe('transactionService', () => {
       expect(() => deleteTransaction(999, 1)).toThrow('Transaction not found');
     });
   });
+
+  describe('createManualTransaction', () => {
+    const manualRow = {
+      id: 12,
+      ledger_id: 30,
+      date: '2024-03-10',
+      value_date: null,
+      description: 'Farmers market',
+      amount: 25,
+      balance: null,
+      category_id: 4,
+      is_income: 0,
+      raw_text: null,
+      transaction_type: null,
+      merchant_id: null,
+      merchant_name: null,
+      created_at: '2024-03-10T12:00:00',
+      recurring_pattern_id: null,
+      bank_id: 'manual',
+      account_id: 6,
+      cat_id: null,
+    };
+
+    it('stores the transaction in the account manual ledger as manually categorized', () => {
+      const mockInsert = vi.fn().mockReturnValue({ lastInsertRowid: 12 });
+      mockDb.transaction.mockImplementation((fn) => fn);
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('AND account_id IS ?')) return { get: vi.fn().mockReturnValue({ id: 30 }) };
+        if (sql.includes('INSERT INTO transactions')) return { run: mockInsert };
+        return { get: vi.fn().mockReturnValue(manualRow) };
+      });
+
+      const result = createManualTransaction({
+        workspaceId: 1,
+        accountId: 6,
+        date: '2024-03-10',
+        description: 'Farmers market',
+        amount: 25,
+        isIncome: false,
+        categoryId: 4,
+      });
+
+      expect(getAccount).toHaveBeenCalledWith(6, 1);
+      expect(mockInsert).toHaveBeenCalledWith(
+        30,
+        '2024-03-10',
+        null,
+        'Farmers market',
+        25,
+        4,
+        0,
+        1,
+        null,
+        null
+      );
+      expect(result).toMatchObject({ id: 12, bankId: 'manual', accountId: 6 });
+    });
+
+    it('creates the manual ledger on first use', () => {
+      const mockLedgerInsert = vi.fn().mockReturnValue({ lastInsertRowid: 31 });
+      const mockInsert = vi.fn().mockReturnValue({ lastInsertRowid: 12 });
+      mockDb.transaction.mockImplementation((fn) => fn);
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('AND account_id IS ?')) return { get: vi.fn().mockReturnValue(undefined) };
+        if (sql.includes('INSERT INTO ledgers')) return { run: mockLedgerInsert };
+        if (sql.includes('INSERT INTO transactions')) return { run: mockInsert };
+        return { get: vi.fn().mockReturnValue({ ...manualRow, account_id: null }) };
+      });
+
+      createManualTransaction({
+        workspaceId: 1,
+        date: '2024-03-10',
+        description: 'Farmers market',
+        amount: 25,
+        isIncome: false,
+      });
+
+      expect(getAccount).not.toHaveBeenCalled();
+      expect(mockLedgerInsert).toHaveBeenCalledWith('Manual entries', 'manual', 1, null, 1);
+      expect(mockInsert.mock.calls[0][0]).toBe(31);
+    });
+  });
+
+  describe('updateManualTransaction', () => {
+    const details = {
+      workspaceId: 1,
+      date: '2024-03-11',
+      description: 'Lunch',
+      amount: 12.5,
+      isIncome: false,
+    };
+
+    it('refuses to edit a transaction imported from a statement', () => {
+      mockDb.prepare.mockReturnValue({
+        get: vi.fn().mockReturnValue({ id: 5, bank_id: 'novo_banco', cat_id: null }),
+      });
+
+      expect(() => updateManualTransaction(5, details)).toThrow(
+        'Only manually entered transactions can be edited'
+      );
+    });
+
+    it('throws not found for a transaction of another workspace', () => {
+      mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+      expect(() => updateManualTransaction(5, details)).toThrow('Transaction not found');
+    });
+
+    it('replaces the details of a manual transaction', () => {
+      const mockUpdate = vi.fn();
+      const mockDelete = vi.fn();
+      mockDb.transaction.mockImplementation((fn) => fn);
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('AND account_id IS ?')) return { get: vi.fn().mockReturnValue({ id: 30 }) };
+        if (sql.includes('UPDATE transactions')) return { run: mockUpdate };
+        if (sql.includes('DELETE')) return { run: mockDelete };
+        return {
+          get: vi.fn().mockReturnValue({
+            id: 5,
+            bank_id: 'manual',
+            date: '2024-03-11',
+            amount: 12.5,
+            is_income: 0,
+            account_id: null,
+            cat_id: null,
+          }),
+        };
+      });
+
+      updateManualTransaction(5, { ...details, description: 'Lunch' });
+
+      expect(mockUpdate).toHaveBeenCalledWith(
+        30,
+        '2024-03-11',
+        null,
+        'Lunch',
+        12.5,
+        null,
+        0,
+        0,
+        null,
+        null,
+        5
+      );
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(detectTransfers).not.toHaveBeenCalled();
+    });
+
+    it('drops the links of a transaction whose amount changes and pairs it again', () => {
+      const mockDelete = vi.fn();
+      mockDb.transaction.mockImplementation((fn) => fn);
+      mockDb.prepare.mockImplementation((sql: string) => {
+        if (sql.includes('AND account_id IS ?')) return { get: vi.fn().mockReturnValue({ id: 30 }) };
+        if (sql.includes('UPDATE transactions')) return { run: vi.fn() };
+        if (sql.includes('DELETE')) return { run: mockDelete };
+        return {
+          get: vi.fn().mockReturnValue({
+            id: 5,
+            bank_id: 'manual',
+            date: '2024-03-11',
+            amount: 20,
+            is_income: 0,
+            account_id: null,
+            cat_id: null,
+          }),
+        };
+      });
+
+      updateManualTransaction(5, details);
+
+      expect(mockDb.prepare).toHaveBeenCalledWith(
+        'DELETE FROM transfers WHERE outgoing_transaction_id = ? OR incoming_transaction_id = ?'
+      );
+      expect(mockDb.prepare).toHaveBeenCalledWith(
+        'DELETE FROM loan_payments WHERE transaction_id = ?'
+      );
+      expect(mockDelete).toHaveBeenCalledWith(5, 5);
+      expect(mockDelete).toHaveBeenCalledWith(5);
+      expect(detectTransfers).toHaveBeenCalledWith(1);
+      expect(linkAllLoanPayments).toHaveBeenCalledWith(1);
+    });
+
+    it('refuses to change the amount of a split transaction', () => {
+      vi.mocked(getTransactionSplits).mockReturnValue(
+        new Map([[5, [{ id: 8, categoryId: 4, amount: 10, note: null }]]])
+      );
+      mockDb.prepare.mockReturnValue({
+        get: vi.fn().mockReturnValue({ id: 5, bank_id: 'manual', amount: 20, cat_id: null }),
+      });
+
+      expect(() => updateManualTransaction(5, details)).toThrow('Remove the split');
+    });
+  });
 });
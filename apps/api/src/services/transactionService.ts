@@ -1,14 +1,33 @@
 import { getDatabase } from '../db/database.js';
 import { AppError } from '../errors.js';
-import { type TransactionWithCategory, type ConfirmTransactionsRequest } from '@compasso/shared';
-import { yearRange, monthRange } from '../utils/dateHelpers.js';
+import {
+  ErrorCode,
+  MANUAL_BANK_ID,
+  type TransactionWithCategory,
+  type ConfirmTransactionsRequest,
+  type ManualTransactionRequest,
+  type TransactionType,
+  type DateBasis,
+} from '@compasso/shared';
+import { yearRange, monthRange, dateColumn } from '../utils/dateHelpers.js';
+import { BASE_AMOUNT, TRANSACTION_CURRENCY } from '../utils/currencyHelpers.js';
+import { findOrCreateMerchant } from './merchantService.js';
+import { getAccount } from './accountService.js';
+import { detectTransfers } from './transferService.js';
+import { linkAllLoanPayments } from './loanService.js';
+import { getTransactionTags } from './tagService.js';
+import { getTransactionSplits } from './splitService.js';
 
 interface TransactionFilters {
   workspaceId: number;
   year?: number;
   month?: number;
-  categoryId?: number | 'none';
+  categoryId?: number | 'none'; // Split transactions match by the categories of their parts
   isIncome?: boolean;
+  transactionType?: TransactionType | 'none';
+  merchantId?: number;
+  tag?: string; // Tag name, ignoring case
+  dateBasis?: DateBasis;
   search?: string;
   limit?: number;
   offset?: number;
@@ -25,15 +44,22 @@ interface TransactionRow {
   id: number;
   ledger_id: number;
   date: string;
+  value_date: string | null;
   description: string;
   amount: number;
+  currency: string;
+  base_amount: number;
   balance: number | null;
   category_id: number | null;
   is_income: number;
   raw_text: string | null;
+  transaction_type: TransactionType | null;
+  merchant_id: number | null;
+  merchant_name: string | null;
   created_at: string;
   recurring_pattern_id: number | null;
   bank_id: string;
+  account_id: number | null;
   cat_id: number | null;
   cat_name: string | null;
   cat_color: string | null;
@@ -44,32 +70,43 @@ interface TransactionRow {
 
 interface ExportRow {
   date: string;
+  value_date: string | null;
   description: string;
   amount: number;
+  currency: string;
+  base_amount: number;
   balance: number | null;
   is_income: number;
   category_name: string;
+  tag_names: string | null;
 }
 
+const IS_SPLIT = 'EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)';
+
 function buildTransactionFilters(filters: TransactionFilters): { where: string; params: unknown[] } {
   const conditions: string[] = ['l.workspace_id = ?'];
   const params: unknown[] = [filters.workspaceId];
+  const date = dateColumn(filters.dateBasis);
 
   if (filters.year && filters.month) {
     const range = monthRange(filters.year, filters.month);
-    conditions.push('t.date >= ? AND t.date < ?');
+    conditions.push(`${date} >= ? AND ${date} < ?`);
     params.push(range.start, range.end);
   } else if (filters.year) {
     const range = yearRange(filters.year);
-    conditions.push('t.date >= ? AND t.date < ?');
+    conditions.push(`${date} >= ? AND ${date} < ?`);
     params.push(range.start, range.end);
   }
 
   if (filters.categoryId === 'none') {
-    conditions.push('t.category_id IS NULL');
+    conditions.push(`CASE WHEN ${IS_SPLIT}
+      THEN EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id AND s.category_id IS NULL)
+      ELSE t.category_id IS NULL END`);
   } else if (filters.categoryId !== undefined) {
-    conditions.push('t.category_id = ?');
-    params.push(filters.categoryId);
+    conditions.push(`CASE WHEN ${IS_SPLIT}
+      THEN EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id AND s.category_id = ?)
+      ELSE t.category_id = ? END`);
+    params.push(filters.categoryId, filters.categoryId);
   }
 
   if (filters.isIncome !== undefined) {
@@ -77,6 +114,26 @@ function buildTransactionFilters(filters: TransactionFilters): { where: string;
     params.push(filters.isIncome ? 1 : 0);
   }
 
+  if (filters.transactionType === 'none') {
+    conditions.push('t.transaction_type IS NULL');
+  } else if (filters.transactionType !== undefined) {
+    conditions.push('t.transaction_type = ?');
+    params.push(filters.transactionType);
+  }
+
+  if (filters.merchantId !== undefined) {
+    conditions.push('t.merchant_id = ?');
+    params.push(filters.merchantId);
+  }
+
+  if (filters.tag !== undefined) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM transaction_tags tt JOIN tags g ON g.id = tt.tag_id
+      WHERE tt.transaction_id = t.id AND g.workspace_id = l.workspace_id AND g.name = ?
+    )`);
+    params.push(filters.tag);
+  }
+
   if (filters.search) {
     conditions.push('t.description LIKE ?');
     params.push(`%${filters.search}%`);
@@ -85,20 +142,33 @@ function buildTransactionFilters(filters: TransactionFilters): { where: string;
   return { where: `WHERE ${conditions.join(' AND ')}`, params };
 }
 
-function mapTransactionRow(r: TransactionRow): TransactionWithCategory {
+function mapTransactionRow(
+  r: TransactionRow,
+  tags: TransactionWithCategory['tags'] = [],
+  splits: TransactionWithCategory['splits'] = []
+): TransactionWithCategory {
   return {
     id: r.id,
     ledgerId: r.ledger_id,
     date: r.date,
+    valueDate: r.value_date,
     description: r.description,
     amount: r.amount,
     balance: r.balance,
     categoryId: r.category_id,
     isIncome: r.is_income === 1,
     rawText: r.raw_text,
+    transactionType: r.transaction_type,
+    merchantId: r.merchant_id,
+    merchantName: r.merchant_name,
     createdAt: r.created_at,
     recurringPatternId: r.recurring_pattern_id,
     bankId: r.bank_id,
+    accountId: r.account_id,
+    currency: r.currency,
+    baseAmount: r.base_amount,
+    tags,
+    splits,
     category: r.cat_id
       ? {
           id: r.cat_id,
@@ -112,8 +182,24 @@ function mapTransactionRow(r: TransactionRow): TransactionWithCategory {
   };
 }
 
+const TRANSACTION_SELECT = `
+  SELECT
+    t.id, t.ledger_id, t.date, t.value_date, t.description, t.amount, t.balance,
+    t.category_id, t.is_income, t.raw_text, t.transaction_type, t.created_at,
+    t.recurring_pattern_id, t.merchant_id, m.name as merchant_name,
+    l.bank_id, l.account_id,
+    ${TRANSACTION_CURRENCY} as currency, ${BASE_AMOUNT} as base_amount,
+    c.id as cat_id, c.name as cat_name, c.color as cat_color,
+    c.icon as cat_icon, c.is_default as cat_is_default, c.created_at as cat_created_at
+  FROM transactions t
+  JOIN ledgers l ON t.ledger_id = l.id
+  LEFT JOIN categories c ON t.category_id = c.id
+  LEFT JOIN merchants m ON t.merchant_id = m.id
+`;
+
 /**
- * List transactions with filtering and pagination.
+ * List transactions with filtering and pagination, newest first by the
+ * filter's date basis. Each transaction comes with its tags and split parts.
  */
 export function listTransactions(filters: TransactionFilters): TransactionListResult {
   const db = getDatabase();
@@ -127,25 +213,19 @@ export function listTransactions(filters: TransactionFilters): TransactionListRe
 
   const results = db
     .prepare(
-      `
-      SELECT
-        t.id, t.ledger_id, t.date, t.description, t.amount, t.balance,
-        t.category_id, t.is_income, t.raw_text, t.created_at, t.recurring_pattern_id,
-        l.bank_id,
-        c.id as cat_id, c.name as cat_name, c.color as cat_color,
-        c.icon as cat_icon, c.is_default as cat_is_default, c.created_at as cat_created_at
-      FROM transactions t
-      JOIN ledgers l ON t.ledger_id = l.id
-      LEFT JOIN categories c ON t.category_id = c.id
+      `${TRANSACTION_SELECT}
       ${where}
-      ORDER BY t.date DESC, t.id DESC
+      ORDER BY ${dateColumn(filters.dateBasis)} DESC, t.id DESC
       LIMIT ? OFFSET ?
     `
     )
     .all(...params, limit, offset) as TransactionRow[];
+  const ids = results.map((r) => r.id);
+  const tags = getTransactionTags(ids);
+  const splits = getTransactionSplits(ids);
 
   return {
-    items: results.map(mapTransactionRow),
+    items: results.map((r) => mapTransactionRow(r, tags.get(r.id), splits.get(r.id))),
     total: countResult.count,
     limit,
     offset,
@@ -153,40 +233,68 @@ export function listTransactions(filters: TransactionFilters): TransactionListRe
 }
 
 /**
- * Export all transactions matching filters (no pagination).
+ * Export all transactions matching filters (no pagination), with each amount
+ * in its original currency and in the workspace base currency, and the names
+ * of its tags. A split transaction is exported as one row per part, with the
+ * part's amount and category; filtered by category, only its parts in that
+ * category are exported.
  */
 export function exportTransactions(
   filters: Omit<TransactionFilters, 'limit' | 'offset'>
-): Array<{ date: string; description: string; isIncome: boolean; amount: number; categoryName: string; balance: number | null }> {
+): Array<{ date: string; valueDate: string | null; description: string; isIncome: boolean; amount: number; currency: string; baseAmount: number; categoryName: string; balance: number | null; tags: string[] }> {
   const db = getDatabase();
   const { where, params } = buildTransactionFilters(filters);
+  let partCondition = '';
+  if (filters.categoryId === 'none') {
+    partCondition = 'AND (sp.id IS NULL OR sp.category_id IS NULL)';
+  } else if (filters.categoryId !== undefined) {
+    partCondition = 'AND (sp.id IS NULL OR sp.category_id = ?)';
+    params.push(filters.categoryId);
+  }
 
+  // A part's base amount is its share of the transaction's, converted at the same rate
   const results = db.prepare(`
-    SELECT t.date, t.description, t.amount, t.balance, t.is_income,
-           COALESCE(c.name, 'Uncategorized') as category_name
+    SELECT t.date, t.value_date, t.description, COALESCE(sp.amount, t.amount) as amount, t.balance, t.is_income,
+           ${TRANSACTION_CURRENCY} as currency,
+           CASE WHEN sp.id IS NULL THEN ${BASE_AMOUNT}
+             ELSE ROUND(${BASE_AMOUNT} * sp.amount / t.amount, 2) END as base_amount,
+           COALESCE(c.name, 'Uncategorized') as category_name,
+           (SELECT group_concat(name, char(1)) FROM (
+             SELECT g.name FROM transaction_tags tt JOIN tags g ON g.id = tt.tag_id
+             WHERE tt.transaction_id = t.id ORDER BY g.name
+           )) as tag_names
     FROM transactions t
     JOIN ledgers l ON t.ledger_id = l.id
-    LEFT JOIN categories c ON t.category_id = c.id
-    ${where}
-    ORDER BY t.date DESC, t.id DESC
+    LEFT JOIN transaction_splits sp ON sp.transaction_id = t.id
+    LEFT JOIN categories c ON c.id = CASE WHEN sp.id IS NULL THEN t.category_id ELSE sp.category_id END
+    ${where} ${partCondition}
+    ORDER BY ${dateColumn(filters.dateBasis)} DESC, t.id DESC, sp.id
   `).all(...params) as ExportRow[];
 
   return results.map((r) => ({
     date: r.date,
+    valueDate: r.value_date,
     description: r.description,
     isIncome: r.is_income === 1,
     amount: r.amount,
+    currency: r.currency,
+    baseAmount: r.base_amount,
     categoryName: r.category_name,
     balance: r.balance,
+    tags: r.tag_names ? r.tag_names.split('\x01') : [],
   }));
 }
 
 /**
- * Confirm and insert a batch of transactions for a ledger.
+ * Confirm and insert a batch of transactions for a ledger, turning a draft ledger into a confirmed one.
+ * Each transaction is linked to the workspace merchant extracted from its description. With an
+ * account ID, the ledger is attached to that account (or detached from any with null). The new
+ * transactions are then paired with the workspace's other ledgers as internal transfers.
  */
 export function confirmTransactions(
   ledgerId: number,
-  transactions: ConfirmTransactionsRequest['transactions']
+  transactions: ConfirmTransactionsRequest['transactions'],
+  accountId?: number | null
 ): number {
   if (!ledgerId || !transactions || !Array.isArray(transactions)) {
     throw AppError.badRequest('Invalid request: ledgerId and transactions array required');
@@ -195,18 +303,41 @@ export function confirmTransactions(
   const db = getDatabase();
 
   const ledger = db
-    .prepare('SELECT id FROM ledgers WHERE id = ?')
-    .get(ledgerId);
+    .prepare(
+      'SELECT id, bank_id, workspace_id, status, replaces_ledger_id FROM ledgers WHERE id = ?'
+    )
+    .get(ledgerId) as
+    | {
+        id: number;
+        bank_id: string;
+        workspace_id: number;
+        status: string;
+        replaces_ledger_id: number | null;
+      }
+    | undefined;
 
   if (!ledger) {
     throw AppError.notFound('Ledger not found');
   }
 
+  // Only a draft has a preview left to confirm; confirming again would import the batch twice
+  if (ledger.status !== 'draft') {
+    throw AppError.conflict('Ledger is already confirmed');
+  }
+
+  if (accountId) {
+    getAccount(accountId, ledger.workspace_id);
+  }
+
   const insert = db.prepare(`
-    INSERT INTO transactions (ledger_id, date, description, amount, balance, category_id, is_income, raw_text)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO transactions (ledger_id, date, description, amount, balance, category_id, is_income, raw_text, external_id, transaction_type, merchant_id, value_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const confirmLedger = db.prepare(
+    "UPDATE ledgers SET status = 'confirmed', draft_data = NULL WHERE id = ?"
+  );
+
   const insertMany = db.transaction((txs: ConfirmTransactionsRequest['transactions']) => {
     for (const tx of txs) {
       insert.run(
@@ -217,12 +348,34 @@ export function confirmTransactions(
         tx.balance,
         tx.categoryId,
         tx.isIncome ? 1 : 0,
-        tx.rawText
+        tx.rawText,
+        tx.externalId ?? null,
+        tx.transactionType ?? null,
+        findOrCreateMerchant(ledger.workspace_id, ledger.bank_id, tx.description, tx.transactionType),
+        tx.valueDate ?? null
       );
     }
+    // The ledger's draft preview is no longer needed once its transactions exist
+    confirmLedger.run(ledgerId);
+    // A re-upload of an imported file replaces the earlier ledger and takes over its file hash
+    if (ledger.replaces_ledger_id) {
+      const replaced = db
+        .prepare('SELECT file_hash FROM ledgers WHERE id = ?')
+        .get(ledger.replaces_ledger_id) as { file_hash: string | null } | undefined;
+      db.prepare('DELETE FROM ledgers WHERE id = ?').run(ledger.replaces_ledger_id);
+      db.prepare('UPDATE ledgers SET file_hash = ?, replaces_ledger_id = NULL WHERE id = ?').run(
+        replaced?.file_hash ?? null,
+        ledgerId
+      );
+    }
+    if (accountId !== undefined) {
+      db.prepare('UPDATE ledgers SET account_id = ? WHERE id = ?').run(accountId, ledgerId);
+    }
   });
 
   insertMany(transactions);
+  detectTransfers(ledger.workspace_id);
+  linkAllLoanPayments(ledger.workspace_id);
 
   return transactions.length;
 }
@@ -279,3 +432,171 @@ export function deleteTransaction(transactionId: number, userId: number): void {
 
   db.prepare('DELETE FROM transactions WHERE id = ?').run(transactionId);
 }
+
+/**
+ * Find the manual ledger of an account, or of the workspace for entries without an
+ * account, creating it on first use. Manual ledgers have no statement file.
+ */
+function getManualLedgerId(workspaceId: number, accountId: number | null): number {
+  const db = getDatabase();
+  const existing = db
+    .prepare(
+      'SELECT id FROM ledgers WHERE workspace_id = ? AND bank_id = ? AND account_id IS ? ORDER BY id LIMIT 1'
+    )
+    .get(workspaceId, MANUAL_BANK_ID, accountId) as { id: number } | undefined;
+
+  if (existing) return existing.id;
+
+  // Entries without an account are in the base currency the workspace has when they start
+  const result = db
+    .prepare(
+      `INSERT INTO ledgers (filename, bank_id, workspace_id, account_id, currency, status)
+      VALUES (?, ?, ?, ?, (SELECT base_currency FROM workspaces WHERE id = ?), 'confirmed')`
+    )
+    .run('Manual entries', MANUAL_BANK_ID, workspaceId, accountId, workspaceId);
+
+  return Number(result.lastInsertRowid);
+}
+
+function getTransaction(transactionId: number, workspaceId: number): TransactionWithCategory {
+  const db = getDatabase();
+  const row = db
+    .prepare(`${TRANSACTION_SELECT} WHERE t.id = ? AND l.workspace_id = ?`)
+    .get(transactionId, workspaceId) as TransactionRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('Transaction not found');
+  }
+
+  return mapTransactionRow(
+    row,
+    getTransactionTags([row.id]).get(row.id),
+    getTransactionSplits([row.id]).get(row.id)
+  );
+}
+
+/**
+ * Create a manually entered transaction, e.g. cash spending, in the manual ledger
+ * of its account. A category chosen here counts as a manual categorization. It can
+ * then be paired with a transaction of another ledger as an internal transfer.
+ */
+export function createManualTransaction(data: ManualTransactionRequest): TransactionWithCategory {
+  const accountId = data.accountId ?? null;
+  if (accountId !== null) {
+    getAccount(accountId, data.workspaceId);
+  }
+
+  const db = getDatabase();
+  const transactionId = db.transaction(() => {
+    const merchantId = findOrCreateMerchant(
+      data.workspaceId,
+      MANUAL_BANK_ID,
+      data.description,
+      data.transactionType
+    );
+    const result = db
+      .prepare(
+        `
+        INSERT INTO transactions (ledger_id, date, value_date, description, amount, category_id, is_income, is_manual, transaction_type, merchant_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        getManualLedgerId(data.workspaceId, accountId),
+        data.date,
+        data.valueDate ?? null,
+        data.description,
+        data.amount,
+        data.categoryId ?? null,
+        data.isIncome ? 1 : 0,
+        data.categoryId ? 1 : 0,
+        data.transactionType ?? null,
+        merchantId
+      );
+    return Number(result.lastInsertRowid);
+  })();
+  detectTransfers(data.workspaceId);
+  linkAllLoanPayments(data.workspaceId);
+
+  return getTransaction(transactionId, data.workspaceId);
+}
+
+/**
+ * Replace the details of a manually entered transaction. Transactions imported
+ * from a statement cannot be edited, only recategorized. The amount of a split
+ * transaction can only change once the split is removed. A change of amount,
+ * direction, date or account drops the transaction's transfer and loan payment
+ * links, including unlinked ones, and pairs it again as a new entry.
+ */
+export function updateManualTransaction(
+  transactionId: number,
+  data: ManualTransactionRequest
+): TransactionWithCategory {
+  const existing = getTransaction(transactionId, data.workspaceId);
+  if (existing.bankId !== MANUAL_BANK_ID) {
+    throw AppError.badRequest(
+      'Only manually entered transactions can be edited',
+      ErrorCode.VALIDATION_ERROR
+    );
+  }
+  if (existing.splits?.length && data.amount !== existing.amount) {
+    throw AppError.badRequest(
+      'Remove the split before changing the amount of a split transaction',
+      ErrorCode.VALIDATION_ERROR
+    );
+  }
+
+  const accountId = data.accountId ?? null;
+  if (accountId !== null) {
+    getAccount(accountId, data.workspaceId);
+  }
+
+  const relink =
+    data.amount !== existing.amount ||
+    data.isIncome !== existing.isIncome ||
+    data.date !== existing.date ||
+    accountId !== (existing.accountId ?? null);
+
+  const db = getDatabase();
+  db.transaction(() => {
+    if (relink) {
+      db.prepare(
+        'DELETE FROM transfers WHERE outgoing_transaction_id = ? OR incoming_transaction_id = ?'
+      ).run(transactionId, transactionId);
+      db.prepare('DELETE FROM loan_payments WHERE transaction_id = ?').run(transactionId);
+    }
+
+    const merchantId = findOrCreateMerchant(
+      data.workspaceId,
+      MANUAL_BANK_ID,
+      data.description,
+      data.transactionType
+    );
+    db.prepare(
+      `
+      UPDATE transactions
+      SET ledger_id = ?, date = ?, value_date = ?, description = ?, amount = ?, category_id = ?,
+          is_income = ?, is_manual = ?, transaction_type = ?, merchant_id = ?
+      WHERE id = ?
+    `
+    ).run(
+      getManualLedgerId(data.workspaceId, accountId),
+      data.date,
+      data.valueDate ?? null,
+      data.description,
+      data.amount,
+      data.categoryId ?? null,
+      data.isIncome ? 1 : 0,
+      data.categoryId ? 1 : 0,
+      data.transactionType ?? null,
+      merchantId,
+      transactionId
+    );
+  })();
+  if (relink) {
+    detectTransfers(data.workspaceId);
+    linkAllLoanPayments(data.workspaceId);
+  }
+
+  return getTransaction(transactionId, data.workspaceId);
+}
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db/database.js', () => ({ getDatabase: vi.fn() }));
+
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import {
+  detectTransfers,
+  listTransfers,
+  confirmTransfer,
+  unlinkTransfer,
+} from './transferService.js';
+
+const mockDb = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
+
+function candidate(
+  id: number,
+  date: string,
+  amount: number,
+  isIncome: boolean,
+  ledgerId: number,
+  accountId: number | null = null,
+  currency = 'EUR'
+) {
+  return {
+    id,
+    date,
+    amount,
+    currency,
+    is_income: isIncome ? 1 : 0,
+    ledger_id: ledgerId,
+    account_id: accountId,
+  };
+}
+
+function mockDetection(candidates: unknown[], unlinked: unknown[] = []) {
+  const mockInsert = vi.fn();
+  mockDb.prepare.mockImplementation((sql: string) => {
+    if (sql.includes('FROM transactions t')) return { all: vi.fn().mockReturnValue(candidates) };
+    if (sql.includes("status = 'unlinked'")) return { all: vi.fn().mockReturnValue(unlinked) };
+    return { run: mockInsert };
+  });
+  return mockInsert;
+}
+
+const transferRow = {
+  id: 3,
+  workspace_id: 1,
+  status: 'suggested',
+  created_at: '2025-01-10',
+  amount: 500,
+  currency: 'EUR',
+  out_id: 10,
+  out_date: '2025-01-05',
+  out_description: 'Trf para Poupanca',
+  out_bank_id: 'novo_banco',
+  out_account_id: 1,
+  out_account_name: 'Main',
+  in_id: 20,
+  in_date: '2025-01-06',
+  in_description: 'Trf de Conta Principal',
+  in_bank_id: 'cgd',
+  in_account_id: 2,
+  in_account_name: 'Savings',
+};
+
+beforeEach(() => {
+  vi.mocked(getDatabase).mockReturnValue(mockDb as any);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// detectTransfers
+// ---------------------------------------------------------------------------
+describe('detectTransfers', () => {
+  it('pairs an expense with the closest same-amount income of another ledger', () => {
+    const mockInsert = mockDetection([
+      candidate(1, '2025-01-05', 500, false, 1),
+      candidate(2, '2025-01-03', 500, true, 2),
+      candidate(3, '2025-01-06', 500, true, 2),
+      candidate(4, '2025-01-06', 499.99, true, 2),
+    ]);
+
+    expect(detectTransfers(1)).toBe(1);
+    expect(mockInsert).toHaveBeenCalledWith(1, 1, 3);
+  });
+
+  it('skips incomes of the same ledger, of the same account and too far apart', () => {
+    const mockInsert = mockDetection([
+      candidate(1, '2025-01-05', 80, false, 1, 7),
+      candidate(2, '2025-01-05', 80, true, 1, 7),
+      candidate(3, '2025-01-06', 80, true, 2, 7),
+      candidate(4, '2025-01-09', 80, true, 3, 8),
+    ]);
+
+    expect(detectTransfers(1)).toBe(0);
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('pairs each income once and skips unlinked pairs', () => {
+    const mockInsert = mockDetection(
+      [
+        candidate(1, '2025-01-05', 50, false, 1),
+        candidate(2, '2025-01-05', 50, false, 1),
+        candidate(3, '2025-01-05', 50, true, 2),
+        candidate(4, '2025-01-06', 50, true, 3),
+      ],
+      [{ outgoing_transaction_id: 1, incoming_transaction_id: 3 }]
+    );
+
+    expect(detectTransfers(1)).toBe(2);
+    expect(mockInsert).toHaveBeenCalledWith(1, 1, 4);
+    expect(mockInsert).toHaveBeenCalledWith(1, 2, 3);
+  });
+
+  it('only pairs transactions in the same currency', () => {
+    const mockInsert = mockDetection([
+      candidate(1, '2025-01-05', 100, false, 1, null, 'EUR'),
+      candidate(2, '2025-01-05', 100, true, 2, null, 'GBP'),
+      candidate(3, '2025-01-07', 100, true, 3, null, 'EUR'),
+    ]);
+
+    expect(detectTransfers(1)).toBe(1);
+    expect(mockInsert).toHaveBeenCalledWith(1, 1, 3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// listTransfers
+// ---------------------------------------------------------------------------
+describe('listTransfers', () => {
+  it('maps both sides of each transfer', () => {
+    const mockAll = vi.fn().mockReturnValue([transferRow]);
+    mockDb.prepare.mockReturnValue({ all: mockAll });
+
+    expect(listTransfers(1)).toEqual([
+      {
+        id: 3,
+        workspaceId: 1,
+        status: 'suggested',
+        amount: 500,
+        currency: 'EUR',
+        outgoing: {
+          id: 10,
+          date: '2025-01-05',
+          description: 'Trf para Poupanca',
+          bankId: 'novo_banco',
+          accountId: 1,
+          accountName: 'Main',
+        },
+        incoming: {
+          id: 20,
+          date: '2025-01-06',
+          description: 'Trf de Conta Principal',
+          bankId: 'cgd',
+          accountId: 2,
+          accountName: 'Savings',
+        },
+        createdAt: '2025-01-10',
+      },
+    ]);
+    expect(mockDb.prepare.mock.calls[0][0]).toContain("tr.status != 'unlinked'");
+    expect(mockAll).toHaveBeenCalledWith(1);
+  });
+
+  it('filters by status', () => {
+    const mockAll = vi.fn().mockReturnValue([]);
+    mockDb.prepare.mockReturnValue({ all: mockAll });
+
+    listTransfers(1, 'unlinked');
+
+    expect(mockAll).toHaveBeenCalledWith(1, 'unlinked');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// confirmTransfer / unlinkTransfer
+// ---------------------------------------------------------------------------
+describe('confirmTransfer', () => {
+  it('confirms the transfer and returns it', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('UPDATE transfers')) return { run: mockRun };
+      return { get: vi.fn().mockReturnValue({ ...transferRow, status: 'confirmed' }) };
+    });
+
+    expect(confirmTransfer(3, 1).status).toBe('confirmed');
+    expect(mockRun).toHaveBeenCalledWith(3, 1);
+  });
+
+  it('throws not found for an unlinked or unknown transfer', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => confirmTransfer(3, 1)).toThrow(AppError);
+  });
+});
+
+describe('unlinkTransfer', () => {
+  it('marks the transfer as unlinked', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    mockDb.prepare.mockReturnValue({ run: mockRun });
+
+    unlinkTransfer(3, 1);
+
+    expect(mockDb.prepare.mock.calls[0][0]).toContain("SET status = 'unlinked'");
+    expect(mockRun).toHaveBeenCalledWith(3, 1);
+  });
+
+  it('throws not found when nothing was unlinked', () => {
+    mockDb.prepare.mockReturnValue({ run: vi.fn().mockReturnValue({ changes: 0 }) });
+
+    expect(() => unlinkTransfer(3, 1)).toThrow('Transfer not found');
+  });
+});
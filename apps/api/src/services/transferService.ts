@@ -0,0 +1,251 @@
+import { getDatabase } from '../db/database.js';
+import { AppError } from '../errors.js';
+import { NOT_TRANSFER_CONDITION } from '../utils/transferHelpers.js';
+import { TRANSACTION_CURRENCY } from '../utils/currencyHelpers.js';
+import { TRANSFER_MATCH_DAYS, type InternalTransfer, type TransferStatus } from '@compasso/shared';
+
+interface CandidateRow {
+  id: number;
+  date: string;
+  amount: number;
+  currency: string;
+  is_income: number;
+  ledger_id: number;
+  account_id: number | null;
+}
+
+interface TransferRow {
+  id: number;
+  workspace_id: number;
+  status: TransferStatus;
+  created_at: string;
+  amount: number;
+  currency: string;
+  out_id: number;
+  out_date: string;
+  out_description: string;
+  out_bank_id: string;
+  out_account_id: number | null;
+  out_account_name: string | null;
+  in_id: number;
+  in_date: string;
+  in_description: string;
+  in_bank_id: string;
+  in_account_id: number | null;
+  in_account_name: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The outgoing ledger is aliased `l` for TRANSACTION_CURRENCY
+const TRANSFER_SELECT = `
+  SELECT tr.id, tr.workspace_id, tr.status, tr.created_at, o.amount,
+    ${TRANSACTION_CURRENCY} as currency,
+    o.id as out_id, o.date as out_date, o.description as out_description,
+    l.bank_id as out_bank_id, l.account_id as out_account_id, oa.name as out_account_name,
+    i.id as in_id, i.date as in_date, i.description as in_description,
+    il.bank_id as in_bank_id, il.account_id as in_account_id, ia.name as in_account_name
+  FROM transfers tr
+  JOIN transactions o ON tr.outgoing_transaction_id = o.id
+  JOIN ledgers l ON o.ledger_id = l.id
+  LEFT JOIN accounts oa ON l.account_id = oa.id
+  JOIN transactions i ON tr.incoming_transaction_id = i.id
+  JOIN ledgers il ON i.ledger_id = il.id
+  LEFT JOIN accounts ia ON il.account_id = ia.id
+`;
+
+function mapTransferRow(row: TransferRow): InternalTransfer {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    status: row.status,
+    amount: row.amount,
+    currency: row.currency,
+    outgoing: {
+      id: row.out_id,
+      date: row.out_date,
+      description: row.out_description,
+      bankId: row.out_bank_id,
+      accountId: row.out_account_id,
+      accountName: row.out_account_name,
+    },
+    incoming: {
+      id: row.in_id,
+      date: row.in_date,
+      description: row.in_description,
+      bankId: row.in_bank_id,
+      accountId: row.in_account_id,
+      accountName: row.in_account_name,
+    },
+    createdAt: row.created_at,
+  };
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+/**
+ * Whether two transactions can be the sides of a transfer: they come from
+ * different ledgers, and not from two ledgers of the same account.
+ */
+function isTransferCandidate(outgoing: CandidateRow, incoming: CandidateRow): boolean {
+  if (outgoing.ledger_id === incoming.ledger_id) return false;
+  return (
+    outgoing.account_id === null ||
+    incoming.account_id === null ||
+    outgoing.account_id !== incoming.account_id
+  );
+}
+
+/**
+ * Pair expenses with income of the same amount and currency in another ledger
+ * of the workspace, at most TRANSFER_MATCH_DAYS apart, as suggested internal
+ * transfers. Each expense takes the closest unpaired income; transactions
+ * already in a transfer and pairs that were unlinked are skipped. Returns the
+ * number of transfers created.
+ */
+export function detectTransfers(workspaceId: number): number {
+  const db = getDatabase();
+  const candidates = db
+    .prepare(
+      `
+      SELECT t.id, t.date, t.amount, ${TRANSACTION_CURRENCY} as currency, t.is_income, t.ledger_id, l.account_id
+      FROM transactions t
+      JOIN ledgers l ON t.ledger_id = l.id
+      WHERE l.workspace_id = ? AND l.status = 'confirmed' AND ${NOT_TRANSFER_CONDITION}
+      ORDER BY t.date ASC, t.id ASC
+    `
+    )
+    .all(workspaceId) as CandidateRow[];
+
+  const unlinked = new Set(
+    (
+      db
+        .prepare(
+          "SELECT outgoing_transaction_id, incoming_transaction_id FROM transfers WHERE workspace_id = ? AND status = 'unlinked'"
+        )
+        .all(workspaceId) as Array<{
+        outgoing_transaction_id: number;
+        incoming_transaction_id: number;
+      }>
+    ).map((row) => `${row.outgoing_transaction_id}:${row.incoming_transaction_id}`)
+  );
+
+  // Incomes by currency and amount in cents, so expenses only look at
+  // candidates of the same amount in the same currency
+  const amountKey = (row: CandidateRow) => `${row.currency}:${Math.round(row.amount * 100)}`;
+  const incomesByAmount = new Map<string, CandidateRow[]>();
+  for (const row of candidates) {
+    if (!row.is_income) continue;
+    const key = amountKey(row);
+    const list = incomesByAmount.get(key) || [];
+    list.push(row);
+    incomesByAmount.set(key, list);
+  }
+
+  const paired = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+
+  for (const outgoing of candidates) {
+    if (outgoing.is_income) continue;
+
+    let best: CandidateRow | null = null;
+    for (const incoming of incomesByAmount.get(amountKey(outgoing)) || []) {
+      if (paired.has(incoming.id)) continue;
+      if (!isTransferCandidate(outgoing, incoming)) continue;
+      if (unlinked.has(`${outgoing.id}:${incoming.id}`)) continue;
+
+      const days = daysBetween(outgoing.date, incoming.date);
+      if (days > TRANSFER_MATCH_DAYS) continue;
+      if (!best || days < daysBetween(outgoing.date, best.date)) {
+        best = incoming;
+      }
+    }
+
+    if (best) {
+      paired.add(best.id);
+      pairs.push([outgoing.id, best.id]);
+    }
+  }
+
+  if (pairs.length === 0) return 0;
+
+  const insert = db.prepare(
+    'INSERT INTO transfers (workspace_id, outgoing_transaction_id, incoming_transaction_id) VALUES (?, ?, ?)'
+  );
+  const insertAll = db.transaction(() => {
+    for (const [outgoingId, incomingId] of pairs) {
+      insert.run(workspaceId, outgoingId, incomingId);
+    }
+  });
+  insertAll();
+
+  return pairs.length;
+}
+
+/**
+ * List a workspace's internal transfers, newest first. Without a status,
+ * suggested and confirmed transfers are listed.
+ */
+export function listTransfers(workspaceId: number, status?: TransferStatus): InternalTransfer[] {
+  const db = getDatabase();
+  const statusCondition = status ? 'tr.status = ?' : "tr.status != 'unlinked'";
+  const rows = db
+    .prepare(
+      `${TRANSFER_SELECT}
+      WHERE tr.workspace_id = ? AND ${statusCondition}
+      ORDER BY o.date DESC, tr.id DESC`
+    )
+    .all(...(status ? [workspaceId, status] : [workspaceId])) as TransferRow[];
+
+  return rows.map(mapTransferRow);
+}
+
+function getTransfer(transferId: number, workspaceId: number): InternalTransfer {
+  const db = getDatabase();
+  const row = db
+    .prepare(`${TRANSFER_SELECT} WHERE tr.id = ? AND tr.workspace_id = ?`)
+    .get(transferId, workspaceId) as TransferRow | undefined;
+
+  if (!row) {
+    throw AppError.notFound('Transfer not found');
+  }
+
+  return mapTransferRow(row);
+}
+
+/**
+ * Confirm a suggested transfer. Unlinked transfers cannot be confirmed again.
+ */
+export function confirmTransfer(transferId: number, workspaceId: number): InternalTransfer {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "UPDATE transfers SET status = 'confirmed' WHERE id = ? AND workspace_id = ? AND status != 'unlinked'"
+    )
+    .run(transferId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Transfer not found');
+  }
+
+  return getTransfer(transferId, workspaceId);
+}
+
+/**
+ * Unlink a transfer: both transactions count as income and expense again, and
+ * detection does not pair them with each other again.
+ */
+export function unlinkTransfer(transferId: number, workspaceId: number): void {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "UPDATE transfers SET status = 'unlinked' WHERE id = ? AND workspace_id = ? AND status != 'unlinked'"
+    )
+    .run(transferId, workspaceId);
+
+  if (result.changes === 0) {
+    throw AppError.notFound('Transfer not found');
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('./uploadService.js', () => ({ processUpload: vi.fn() }));
+vi.mock('../parsers/registry.js', () => ({ getStatementFormat: vi.fn(() => 'pdf') }));
+vi.mock('../utils/fileValidation.js', () => ({ assertStatementUpload: vi.fn() }));
+
+import { processUpload } from './uploadService.js';
+import { assertStatementUpload } from '../utils/fileValidation.js';
+import { createUploadJob, getUploadJob } from './uploadJobService.js';
+
+const file = (filename: string) => ({ filename, buffer: Buffer.from(filename) });
+
+describe('uploadJobService', () => {
+  beforeEach(() => {
+    vi.mocked(processUpload).mockImplementation(
+      async (_buffer, filename) =>
+        ({
+          ledgerId: filename === 'jan.pdf' ? 1 : 2,
+          transactionCount: 10,
+        }) as any
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return a queued job and parse each file in the background', async () => {
+    const job = createUploadJob([file('jan.pdf'), file('feb.pdf')], 'novo_banco', 3, 1);
+
+    expect(job.status).toBe('queued');
+    expect(job.total).toBe(2);
+    expect(job.files.map((f) => f.status)).toEqual(['queued', 'queued']);
+
+    await vi.waitFor(() => expect(getUploadJob(job.id, 1).status).toBe('completed'));
+
+    const finished = getUploadJob(job.id, 1);
+    expect(finished.processed).toBe(2);
+    expect(finished.files).toEqual([
+      { filename: 'jan.pdf', status: 'completed', ledgerId: 1, transactionCount: 10, error: null },
+      { filename: 'feb.pdf', status: 'completed', ledgerId: 2, transactionCount: 10, error: null },
+    ]);
+    expect(processUpload).toHaveBeenCalledWith(expect.any(Buffer), 'jan.pdf', 'novo_banco', 3);
+  });
+
+  it('should mark a failing file and keep processing the rest', async () => {
+    vi.mocked(assertStatementUpload).mockImplementationOnce(() => {
+      throw new Error('Unrecognized statement file');
+    });
+
+    const job = createUploadJob([file('notes.txt'), file('feb.pdf')], undefined, 3, 1);
+    await vi.waitFor(() => expect(getUploadJob(job.id, 1).status).toBe('completed'));
+
+    const [failed, parsed] = getUploadJob(job.id, 1).files;
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('Unrecognized statement file');
+    expect(parsed.status).toBe('completed');
+    expect(processUpload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not show a job to another user', () => {
+    const job = createUploadJob([file('jan.pdf')], undefined, 3, 1);
+
+    expect(() => getUploadJob(job.id, 2)).toThrow('Upload job not found');
+  });
+
+  it('should throw for an unknown job', () => {
+    expect(() => getUploadJob('missing', 1)).toThrow('Upload job not found');
+  });
+});
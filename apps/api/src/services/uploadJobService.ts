@@ -0,0 +1,127 @@
+import { randomUUID } from 'crypto';
+import { processUpload } from './uploadService.js';
+import { getStatementFormat } from '../parsers/registry.js';
+import { assertStatementUpload } from '../utils/fileValidation.js';
+import { AppError } from '../errors.js';
+import type { UploadBatchJob } from '@compasso/shared';
+
+/**
+ * Background parsing of multi-file batch uploads.
+ *
+ * Jobs are kept in memory and run one file at a time on a single queue, so a
+ * year of PDFs never parses concurrently. Each file is validated and parsed
+ * like a single upload and becomes a draft ledger; a file that fails only
+ * marks itself as failed. Finished jobs are forgotten after an hour; their
+ * drafts remain.
+ */
+
+interface UploadJobInput {
+  filename: string;
+  buffer: Buffer;
+}
+
+interface StoredJob {
+  job: UploadBatchJob;
+  userId: number;
+  bankId: string | undefined;
+  inputs: Array<UploadJobInput | null>; // Released once the file is processed
+  finishedAt: number | null;
+}
+
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+const jobs = new Map<string, StoredJob>();
+let queue: Promise<void> = Promise.resolve();
+
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, stored] of jobs) {
+    if (stored.finishedAt !== null && stored.finishedAt < cutoff) jobs.delete(id);
+  }
+}
+
+async function runJob(stored: StoredJob): Promise<void> {
+  const { job } = stored;
+  job.status = 'processing';
+
+  for (const [index, file] of job.files.entries()) {
+    const input = stored.inputs[index]!;
+    file.status = 'processing';
+    // Let status requests through between files
+    await new Promise((resolve) => setImmediate(resolve));
+
+    try {
+      assertStatementUpload(input.buffer, stored.bankId ? getStatementFormat(stored.bankId) : null);
+      const result = await processUpload(
+        input.buffer,
+        input.filename,
+        stored.bankId,
+        job.workspaceId
+      );
+      file.status = 'completed';
+      file.ledgerId = result.ledgerId;
+      file.transactionCount = result.transactionCount;
+    } catch (err) {
+      file.status = 'failed';
+      file.error = err instanceof Error ? err.message : 'Failed to parse file';
+    }
+
+    stored.inputs[index] = null;
+    job.processed++;
+  }
+
+  job.status = 'completed';
+  stored.finishedAt = Date.now();
+}
+
+/**
+ * Queue a batch of statement files for background parsing. Returns the job
+ * immediately; poll it with getUploadJob.
+ */
+export function createUploadJob(
+  files: UploadJobInput[],
+  requestedBankId: string | undefined,
+  workspaceId: number,
+  userId: number
+): UploadBatchJob {
+  pruneFinishedJobs();
+
+  const job: UploadBatchJob = {
+    id: randomUUID(),
+    workspaceId,
+    status: 'queued',
+    total: files.length,
+    processed: 0,
+    files: files.map((file) => ({
+      filename: file.filename,
+      status: 'queued',
+      ledgerId: null,
+      transactionCount: null,
+      error: null,
+    })),
+    createdAt: new Date().toISOString(),
+  };
+
+  const stored: StoredJob = {
+    job,
+    userId,
+    bankId: requestedBankId,
+    inputs: [...files],
+    finishedAt: null,
+  };
+  jobs.set(job.id, stored);
+  queue = queue.then(() => runJob(stored)).catch((err) => console.error('Upload job failed:', err));
+
+  return job;
+}
+
+/**
+ * Get a batch job's status. Jobs are only visible to the user who created them.
+ */
+export function getUploadJob(jobId: string, userId: number): UploadBatchJob {
+  const stored = jobs.get(jobId);
+  if (!stored || stored.userId !== userId) {
+    throw AppError.notFound('Upload job not found');
+  }
+  return stored.job;
+}
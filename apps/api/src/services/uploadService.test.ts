@@ -17,14 +17,68 @@ vi.mock('../parsers/registry.js', () => ({
 vi.mock('./categoryMatcher.js', () => ({
   applyCategorySuggestions: vi.fn(),
 }));
+vi.mock('../parsers/csv.js', () => ({
+  parseCSVStatement: vi.fn(),
+}));
+vi.mock('../parsers/template.js', () => ({
+  parseTemplateStatement: vi.fn(),
+}));
+vi.mock('./statementTemplateService.js', () => ({
+  getStatementTemplate: vi.fn(),
+  parseStatementTemplateBankId: vi.fn((bankId: string) =>
+    bankId.startsWith('template:') ? Number(bankId.slice(9)) : null
+  ),
+}));
+vi.mock('./duplicateDetector.js', () => ({
+  markProbableDuplicates: vi.fn((transactions: unknown[]) => ({
+    transactions,
+    probableDuplicates: 0,
+  })),
+}));
+vi.mock('./transactionClassifier.js', () => ({
+  classifyTransactions: vi.fn((transactions: unknown[]) => transactions),
+}));
+vi.mock('./bankDetector.js', () => ({
+  resolveStatementBank: vi.fn(async (_buffer: Buffer, bankId: string) => ({
+    bankId,
+    detection: null,
+    iban: null,
+  })),
+}));
+vi.mock('./accountService.js', () => ({
+  findMatchingAccount: vi.fn(() => null),
+  getAccount: vi.fn(),
+}));
+vi.mock('./csvProfileService.js', () => ({
+  getCsvProfile: vi.fn(),
+  parseCsvProfileBankId: vi.fn((bankId: string) =>
+    bankId.startsWith('csv:') ? Number(bankId.slice(4)) : null
+  ),
+}));
 
 import { getDatabase } from '../db/database.js';
 import { getParser } from '../parsers/registry.js';
+import { parseCSVStatement } from '../parsers/csv.js';
+import { parseTemplateStatement } from '../parsers/template.js';
+import { getCsvProfile } from './csvProfileService.js';
+import { getStatementTemplate } from './statementTemplateService.js';
 import { applyCategorySuggestions } from './categoryMatcher.js';
+import { resolveStatementBank } from './bankDetector.js';
+import { markProbableDuplicates } from './duplicateDetector.js';
+import { findMatchingAccount, getAccount } from './accountService.js';
 import { AppError } from '../errors.js';
-import { processUpload, listLedgers, deleteLedger, getLedgerWorkspaceId } from './uploadService.js';
-
-const mockDb = { prepare: vi.fn() };
+import {
+  processUpload,
+  listLedgers,
+  deleteLedger,
+  setLedgerAccount,
+  getLedgerWorkspaceId,
+  listDraftLedgers,
+  getDraftLedger,
+  purgeStaleDrafts,
+} from './uploadService.js';
+
+const mockDb = { prepare: vi.fn(), transaction: vi.fn((fn: any) => fn) };
 
 beforeEach(() => {
   vi.mocked(getDatabase).mockReturnValue(mockDb as any);
@@ -51,8 +105,20 @@ describe('processUpload', () => {
   };
 
   const categorizedTransactions = [
-    { date: '2024-01-15', description: 'Test Transaction', amount: 100, type: 'credit', categoryId: 1 },
-    { date: '2024-01-20', description: 'Another Transaction', amount: -50, type: 'debit', categoryId: 2 },
+    {
+      date: '2024-01-15',
+      description: 'Test Transaction',
+      amount: 100,
+      type: 'credit',
+      categoryId: 1,
+    },
+    {
+      date: '2024-01-20',
+      description: 'Another Transaction',
+      amount: -50,
+      type: 'debit',
+      categoryId: 2,
+    },
   ];
 
   const mockParseFn = vi.fn();
@@ -72,8 +138,12 @@ describe('processUpload', () => {
 
     const result = await processUpload(buffer, filename, bankId, workspaceId);
 
-    expect(mockParseFn).toHaveBeenCalledWith(buffer);
-    expect(applyCategorySuggestions).toHaveBeenCalledWith(parseResult.transactions, bankId, workspaceId);
+    expect(mockParseFn).toHaveBeenCalledWith(buffer, { password: undefined });
+    expect(applyCategorySuggestions).toHaveBeenCalledWith(
+      parseResult.transactions,
+      bankId,
+      workspaceId
+    );
     expect(result).toMatchObject({
       ledgerId: 42,
       filename,
@@ -85,11 +155,38 @@ describe('processUpload', () => {
     });
   });
 
-  it('should delete existing ledger when duplicate file hash is found', async () => {
+  it('should create a draft ledger holding the upload preview', async () => {
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 42 });
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined), run: mockRun });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining("'draft'"));
+    expect(mockDb.prepare).toHaveBeenCalledWith('UPDATE ledgers SET draft_data = ? WHERE id = ?');
+    expect(mockRun).toHaveBeenLastCalledWith(JSON.stringify(result), 42);
+    expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not create a draft when building the preview fails', async () => {
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockImplementationOnce(() => {
+      throw new Error('boom');
+    });
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined), run: vi.fn() });
+
+    await expect(processUpload(buffer, filename, bankId, workspaceId)).rejects.toThrow('boom');
+
+    expect(mockDb.prepare).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO ledgers'));
+  });
+
+  it('should delete an existing draft when duplicate file hash is found', async () => {
     mockParseFn.mockResolvedValue(parseResult as any);
     vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
 
-    const existingLedger = { id: 10, filename: 'old-statement.pdf' };
+    const existingLedger = { id: 10, status: 'draft' };
     const mockGet = vi.fn().mockReturnValueOnce(existingLedger);
     const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 43 });
 
@@ -97,29 +194,353 @@ describe('processUpload', () => {
 
     const result = await processUpload(buffer, filename, bankId, workspaceId);
 
-    expect(mockParseFn).toHaveBeenCalledWith(buffer);
+    expect(mockParseFn).toHaveBeenCalledWith(buffer, { password: undefined });
     expect(result.ledgerId).toBe(43);
     // The duplicate check query should have been prepared
     expect(mockDb.prepare).toHaveBeenCalledWith(
-      expect.stringContaining('SELECT id, filename FROM ledgers WHERE file_hash'),
+      expect.stringContaining('SELECT id, status FROM ledgers WHERE file_hash')
     );
     // A DELETE should have been issued for the old ledger
-    expect(mockRun).toHaveBeenCalled();
+    expect(mockRun).toHaveBeenCalledWith(10);
+  });
+
+  it('should keep a confirmed ledger with the same file hash until the draft is confirmed', async () => {
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+
+    const mockDeleteLedger = vi.fn();
+    const mockDeleteDrafts = vi.fn();
+    const mockInsert = vi.fn().mockReturnValue({ lastInsertRowid: 44 });
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('WHERE file_hash')) {
+        return { get: vi.fn().mockReturnValue({ id: 10, status: 'confirmed' }) };
+      }
+      if (sql === 'DELETE FROM ledgers WHERE id = ?') return { run: mockDeleteLedger };
+      if (sql.includes('DELETE FROM ledgers WHERE replaces_ledger_id')) {
+        return { run: mockDeleteDrafts };
+      }
+      if (sql.includes('INSERT INTO ledgers')) return { run: mockInsert };
+      return { get: vi.fn(), run: vi.fn() };
+    });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(result.ledgerId).toBe(44);
+    expect(mockDeleteLedger).not.toHaveBeenCalled();
+    expect(mockDeleteDrafts).toHaveBeenCalledWith(10);
+    // The draft holds no file hash and points at the ledger it replaces
+    expect(mockInsert.mock.calls[0][4]).toBeNull();
+    expect(mockInsert.mock.calls[0].at(-1)).toBe(10);
+  });
+
+  it('should not create a ledger on a dry run and pass diagnostics through', async () => {
+    const diagnostics = {
+      skippedLines: [{ page: 1, line: 12, text: 'SALDO INTERMEDIO' }],
+      dateWithoutAmount: [],
+    };
+    mockParseFn.mockResolvedValue({ ...parseResult, diagnostics } as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+
+    const mockRun = vi.fn();
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined), run: mockRun });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId, { dryRun: true });
+
+    expect(result).toMatchObject({ ledgerId: null, dryRun: true, diagnostics });
+    expect(result.transactions).toEqual(categorizedTransactions);
+    expect(mockRun).not.toHaveBeenCalled();
+    expect(mockDb.prepare).not.toHaveBeenCalledWith(expect.stringContaining('ledgers'));
+  });
+
+  it('should read an encrypted PDF with its password without storing it', async () => {
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 45 });
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined), run: mockRun });
+
+    await processUpload(buffer, filename, bankId, workspaceId, { password: 's3cret' });
+
+    expect(resolveStatementBank).toHaveBeenCalledWith(buffer, bankId, workspaceId, {
+      password: 's3cret',
+    });
+    expect(mockParseFn).toHaveBeenCalledWith(buffer, { password: 's3cret' });
+    expect(mockRun.mock.calls.flat()).not.toContainEqual(expect.stringContaining('s3cret'));
+  });
+
+  it('should default to empty diagnostics for parsers without them', async () => {
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 44 }),
+    });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(result.dryRun).toBe(false);
+    expect(result.diagnostics).toEqual({ skippedLines: [], dateWithoutAmount: [] });
+  });
+
+  it('should flag rows that break the running balance and summarize the check', async () => {
+    const row = { valueDate: '2024-01-15', rawText: '', isIncome: false };
+    mockParseFn.mockResolvedValue({
+      ...parseResult,
+      openingBalance: 1000,
+      closingBalance: 930,
+      transactions: [
+        { ...row, date: '2024-01-15', description: 'Shop', amount: 50, balance: 950 },
+        {
+          ...row,
+          date: '2024-01-20',
+          description: 'Fuel',
+          amount: 30,
+          balance: 930,
+          isIncome: true,
+        },
+      ],
+    } as any);
+    vi.mocked(applyCategorySuggestions).mockImplementation((transactions) => transactions);
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 45 }),
+    });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(result.transactions.map((tx) => tx.expectedBalance)).toEqual([undefined, 980]);
+    expect(result.reconciliation).toEqual({
+      status: 'mismatch',
+      openingBalance: 1000,
+      closingBalance: 930,
+      computedClosingBalance: 930,
+      checkedRows: 2,
+      mismatchedRows: 1,
+    });
+  });
+
+  it('should mark probable duplicates against the parsed file hash', async () => {
+    const marked = [{ ...parseResult.transactions[0], duplicateOf: 7 }];
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(markProbableDuplicates).mockReturnValueOnce({
+      transactions: marked as any,
+      probableDuplicates: 1,
+    });
+    vi.mocked(applyCategorySuggestions).mockImplementation((transactions) => transactions);
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 46 }),
+    });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(markProbableDuplicates).toHaveBeenCalledWith(
+      parseResult.transactions,
+      bankId,
+      workspaceId,
+      'abc123hash'
+    );
+    expect(result.probableDuplicates).toBe(1);
+    expect(result.transactions).toEqual(marked);
   });
 
   it('should throw AppError for unsupported bank ID', async () => {
     vi.mocked(getParser).mockResolvedValue(undefined as any);
 
-    await expect(processUpload(buffer, filename, 'unknown_bank', workspaceId)).rejects.toThrow(AppError);
     await expect(processUpload(buffer, filename, 'unknown_bank', workspaceId)).rejects.toThrow(
-      /Unsupported bank/,
+      AppError
+    );
+    await expect(processUpload(buffer, filename, 'unknown_bank', workspaceId)).rejects.toThrow(
+      /Unsupported bank/
+    );
+  });
+
+  it('should parse CSV profile uploads with the workspace profile', async () => {
+    const profile = { id: 3, bankId: 'csv:3', delimiter: ';' };
+    vi.mocked(getCsvProfile).mockReturnValue(profile as any);
+    vi.mocked(parseCSVStatement).mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 47 }),
+    });
+
+    const result = await processUpload(buffer, 'export.csv', 'csv:3', workspaceId);
+
+    expect(getCsvProfile).toHaveBeenCalledWith(3, workspaceId);
+    expect(parseCSVStatement).toHaveBeenCalledWith(buffer, profile);
+    expect(getParser).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ ledgerId: 47, bankId: 'csv:3' });
+  });
+
+  it('should parse statement template uploads with the workspace template', async () => {
+    const definition = { dateFormat: 'DD.MM.YY', decimalFormat: 'european' };
+    vi.mocked(getStatementTemplate).mockReturnValue({ id: 5, definition } as any);
+    vi.mocked(parseTemplateStatement).mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 48 }),
+    });
+
+    const result = await processUpload(buffer, filename, 'template:5', workspaceId);
+
+    expect(getStatementTemplate).toHaveBeenCalledWith(5, workspaceId);
+    expect(parseTemplateStatement).toHaveBeenCalledWith(buffer, definition, {
+      password: undefined,
+    });
+    expect(getParser).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ ledgerId: 48, bankId: 'template:5' });
+  });
+
+  it('should skip transactions whose external ID was already imported or repeats in the file', async () => {
+    const ofxResult = {
+      ...parseResult,
+      transactions: [
+        { date: '2024-01-15', description: 'Known', amount: 10, externalId: 'ACC:1' },
+        { date: '2024-01-16', description: 'New', amount: 20, externalId: 'ACC:2' },
+        { date: '2024-01-16', description: 'New again', amount: 20, externalId: 'ACC:2' },
+        { date: '2024-01-17', description: 'No ID', amount: 30 },
+      ],
+    };
+    mockParseFn.mockResolvedValue(ofxResult as any);
+    vi.mocked(applyCategorySuggestions).mockImplementation((txs) => txs as any);
+
+    const findExisting = vi.fn((externalId: string) =>
+      externalId === 'ACC:1' ? { 1: 1 } : undefined
     );
+    mockDb.prepare.mockImplementation((sql: string) => {
+      if (sql.includes('external_id')) return { get: findExisting };
+      return {
+        get: vi.fn().mockReturnValue(undefined),
+        run: vi.fn().mockReturnValue({ lastInsertRowid: 48 }),
+      };
+    });
+
+    const result = await processUpload(buffer, 'statement.ofx', 'ofx', workspaceId);
+
+    expect(findExisting).toHaveBeenCalledWith('ACC:1', workspaceId, 'ofx', 'abc123hash');
+    expect(result.duplicatesSkipped).toBe(2);
+    expect(result.transactions.map((tx) => tx.description)).toEqual(['New', 'No ID']);
+  });
+
+  it('should report no skipped duplicates for files without external IDs', async () => {
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 49 }),
+    });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(result.duplicatesSkipped).toBe(0);
+    expect(mockDb.prepare).not.toHaveBeenCalledWith(expect.stringContaining('external_id'));
+  });
+
+  it('should pass parser warnings through, defaulting to none', async () => {
+    mockParseFn.mockResolvedValueOnce({
+      ...parseResult,
+      warnings: ['Closing balance mismatch'],
+    } as any);
+    mockParseFn.mockResolvedValueOnce(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 50 }),
+    });
+
+    const withWarnings = await processUpload(buffer, 'statement.xml', bankId, workspaceId);
+    const withoutWarnings = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(withWarnings.warnings).toEqual(['Closing balance mismatch']);
+    expect(withoutWarnings.warnings).toEqual([]);
+  });
+
+  it('should parse with the detected bank when none is given', async () => {
+    vi.mocked(resolveStatementBank).mockResolvedValueOnce({
+      bankId,
+      detection: { bankId, confidence: 0.67 },
+      iban: null,
+    });
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 51 }),
+    });
+
+    const result = await processUpload(buffer, filename, undefined, workspaceId);
+
+    expect(resolveStatementBank).toHaveBeenCalledWith(buffer, undefined, workspaceId, {
+      password: undefined,
+    });
+    expect(result.bankId).toBe(bankId);
+    expect(result.detection).toEqual({ bankId, confidence: 0.67 });
+  });
+
+  it('should attach the draft to the account of the IBAN printed on the statement', async () => {
+    vi.mocked(resolveStatementBank).mockResolvedValueOnce({
+      bankId,
+      detection: null,
+      iban: 'PT50000700000012345678923',
+    });
+    vi.mocked(findMatchingAccount).mockReturnValueOnce(3);
+    mockParseFn.mockResolvedValue(parseResult as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+    const mockRun = vi.fn().mockReturnValue({ lastInsertRowid: 46 });
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined), run: mockRun });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(findMatchingAccount).toHaveBeenCalledWith(
+      workspaceId,
+      bankId,
+      'PT50000700000012345678923'
+    );
+    expect(mockRun).toHaveBeenCalledWith(
+      filename,
+      '2024-01-01',
+      '2024-01-31',
+      bankId,
+      'abc123hash',
+      workspaceId,
+      3,
+      'EUR',
+      null
+    );
+    expect(result).toMatchObject({ accountNumber: 'PT50000700000012345678923', accountId: 3 });
+  });
+
+  it('should prefer the account number declared by the statement format', async () => {
+    vi.mocked(resolveStatementBank).mockResolvedValueOnce({
+      bankId,
+      detection: null,
+      iban: 'PT50000700000012345678923',
+    });
+    mockParseFn.mockResolvedValue({ ...parseResult, accountNumber: 'NL81ASNB9999999999' } as any);
+    vi.mocked(applyCategorySuggestions).mockReturnValue(categorizedTransactions as any);
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue(undefined),
+      run: vi.fn().mockReturnValue({ lastInsertRowid: 47 }),
+    });
+
+    const result = await processUpload(buffer, filename, bankId, workspaceId);
+
+    expect(findMatchingAccount).toHaveBeenCalledWith(workspaceId, bankId, 'NL81ASNB9999999999');
+    expect(result).toMatchObject({ accountNumber: 'NL81ASNB9999999999', accountId: null });
   });
 
   it('should throw AppError for bank without parser implementation', async () => {
     vi.mocked(getParser).mockResolvedValue(undefined as any);
 
-    await expect(processUpload(buffer, filename, 'unknown_bank', workspaceId)).rejects.toThrow(AppError);
+    await expect(processUpload(buffer, filename, 'unknown_bank', workspaceId)).rejects.toThrow(
+      AppError
+    );
   });
 
   it('should pass the correct workspace ID to the duplicate check query', async () => {
@@ -148,7 +569,11 @@ describe('processUpload', () => {
 
     await processUpload(buffer, filename, bankId, workspaceId);
 
-    expect(applyCategorySuggestions).toHaveBeenCalledWith(parseResult.transactions, bankId, workspaceId);
+    expect(applyCategorySuggestions).toHaveBeenCalledWith(
+      parseResult.transactions,
+      bankId,
+      workspaceId
+    );
   });
 
   it('should return the correct transaction count', async () => {
@@ -238,6 +663,18 @@ describe('listLedgers', () => {
     expect(mockAll).toHaveBeenCalled();
   });
 
+  it('leaves out the manual ledgers', () => {
+    const mockGet = vi.fn().mockReturnValue({ count: 0 });
+    const mockAll = vi.fn().mockReturnValue([]);
+
+    mockDb.prepare.mockReturnValue({ get: mockGet, all: mockAll });
+
+    listLedgers(1, 5, 10);
+
+    expect(mockGet).toHaveBeenCalledWith(1, 'manual');
+    expect(mockAll).toHaveBeenCalledWith(1, 'manual', 5, 10);
+  });
+
   it('should map database columns to camelCase properties', () => {
     const mockRow = {
       id: 3,
@@ -321,6 +758,101 @@ describe('deleteLedger', () => {
   });
 });
 
+describe('setLedgerAccount', () => {
+  it('should attach the ledger to an account of its workspace', () => {
+    const mockRun = vi.fn();
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue({ id: 1, workspace_id: 5 }),
+      run: mockRun,
+    });
+
+    setLedgerAccount(1, 100, 3);
+
+    expect(getAccount).toHaveBeenCalledWith(3, 5);
+    expect(mockRun).toHaveBeenCalledWith(3, 1);
+  });
+
+  it('should detach the ledger without looking up an account', () => {
+    const mockRun = vi.fn();
+    mockDb.prepare.mockReturnValue({
+      get: vi.fn().mockReturnValue({ id: 1, workspace_id: 5 }),
+      run: mockRun,
+    });
+
+    setLedgerAccount(1, 100, null);
+
+    expect(getAccount).not.toHaveBeenCalled();
+    expect(mockRun).toHaveBeenCalledWith(null, 1);
+  });
+
+  it('should throw AppError not found when the user cannot access the ledger', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => setLedgerAccount(1, 100, 3)).toThrow('Ledger not found');
+  });
+});
+
+describe('listDraftLedgers', () => {
+  it('should list the workspace drafts with their parsed transaction count', () => {
+    const mockAll = vi.fn().mockReturnValue([
+      {
+        id: 3,
+        filename: 'jan.pdf',
+        upload_date: '2025-02-01 10:00:00',
+        period_start: '2025-01-01',
+        period_end: '2025-01-31',
+        bank_id: 'novo_banco',
+        transaction_count: 12,
+      },
+    ]);
+    mockDb.prepare.mockReturnValue({ all: mockAll });
+
+    expect(listDraftLedgers(1)).toEqual([
+      {
+        id: 3,
+        filename: 'jan.pdf',
+        uploadDate: '2025-02-01 10:00:00',
+        periodStart: '2025-01-01',
+        periodEnd: '2025-01-31',
+        bankId: 'novo_banco',
+        transactionCount: 12,
+      },
+    ]);
+    expect(mockAll).toHaveBeenCalledWith(1);
+    expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining("status = 'draft'"));
+  });
+});
+
+describe('getDraftLedger', () => {
+  it('should return the stored preview of a draft the user can access', () => {
+    const preview = { ledgerId: 3, filename: 'jan.pdf', transactions: [] };
+    const mockGet = vi.fn().mockReturnValue({ draft_data: JSON.stringify(preview) });
+    mockDb.prepare.mockReturnValue({ get: mockGet });
+
+    expect(getDraftLedger(3, 100)).toEqual(preview);
+    expect(mockGet).toHaveBeenCalledWith(3, 100);
+    expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining('workspace_members'));
+  });
+
+  it('should throw AppError not found for confirmed or unknown ledgers', () => {
+    mockDb.prepare.mockReturnValue({ get: vi.fn().mockReturnValue(undefined) });
+
+    expect(() => getDraftLedger(3, 100)).toThrow(AppError);
+    expect(() => getDraftLedger(3, 100)).toThrow(/Draft not found/);
+  });
+});
+
+describe('purgeStaleDrafts', () => {
+  it('should delete drafts older than the retention period', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 2 });
+    mockDb.prepare.mockReturnValue({ run: mockRun });
+
+    expect(purgeStaleDrafts(7)).toBe(2);
+    expect(mockRun).toHaveBeenCalledWith('-7 days');
+    expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining("status = 'draft'"));
+  });
+});
+
 describe('getLedgerWorkspaceId', () => {
   it('should return the workspace_id for a given ledger', () => {
     const mockGet = vi.fn().mockReturnValue({ workspace_id: 5 });
@@ -1,8 +1,28 @@
 import { getDatabase } from '../db/database.js';
 import { BANK_CONFIGS, getParser } from '../parsers/registry.js';
+import { parseCSVStatement } from '../parsers/csv.js';
+import { parseTemplateStatement } from '../parsers/template.js';
+import { createParseDiagnostics } from '../parsers/diagnostics.js';
 import { applyCategorySuggestions } from './categoryMatcher.js';
+import { resolveStatementBank } from './bankDetector.js';
+import { reconcileBalances } from './balanceReconciler.js';
+import { markProbableDuplicates } from './duplicateDetector.js';
+import { classifyTransactions } from './transactionClassifier.js';
+import { getCsvProfile, parseCsvProfileBankId } from './csvProfileService.js';
+import { findMatchingAccount, getAccount } from './accountService.js';
+import {
+  getStatementTemplate,
+  parseStatementTemplateBankId,
+} from './statementTemplateService.js';
 import { AppError } from '../errors.js';
-import type { UploadResponse } from '@compasso/shared';
+import type { ParseOptions } from '../parsers/types.js';
+import { MANUAL_BANK_ID } from '@compasso/shared';
+import type {
+  DraftLedger,
+  ParsedTransaction,
+  ParseResult,
+  UploadResponse,
+} from '@compasso/shared';
 
 interface LedgerListResult {
   items: Array<{
@@ -13,6 +33,8 @@ interface LedgerListResult {
     periodEnd: string | null;
     bankId: string;
     workspaceId: number;
+    accountId: number | null;
+    currency: string | null;
     transactionCount: number;
   }>;
   total: number;
@@ -20,96 +42,312 @@ interface LedgerListResult {
   offset: number;
 }
 
+interface StatementParser {
+  parse: (buffer: Buffer, options?: ParseOptions) => Promise<ParseResult>;
+  currency: string | null;
+}
+
 /**
- * Process a PDF upload: parse, deduplicate by hash, create ledger, and apply category suggestions.
+ * Resolve the parse function and statement currency for a bank ID: a built-in
+ * parser from the registry, the generic CSV parser bound to one of the
+ * workspace's CSV profiles, or the template engine bound to one of the
+ * workspace's statement templates.
  */
-export async function processUpload(
-  buffer: Buffer,
-  filename: string,
-  bankId: string,
-  workspaceId: number
-): Promise<UploadResponse> {
+async function resolveParser(bankId: string, workspaceId: number): Promise<StatementParser> {
+  const csvProfileId = parseCsvProfileBankId(bankId);
+  if (csvProfileId !== null) {
+    const profile = getCsvProfile(csvProfileId, workspaceId);
+    return { parse: (buffer) => parseCSVStatement(buffer, profile), currency: profile.currency };
+  }
+
+  const templateId = parseStatementTemplateBankId(bankId);
+  if (templateId !== null) {
+    const template = getStatementTemplate(templateId, workspaceId);
+    return {
+      parse: (buffer, options) => parseTemplateStatement(buffer, template.definition, options),
+      currency: template.currency,
+    };
+  }
+
   const parse = await getParser(bankId);
   if (!parse) {
     throw AppError.badRequest(
       `Unsupported bank: ${bankId}. Supported banks: ${Object.keys(BANK_CONFIGS).join(', ')}`
     );
   }
+  return { parse, currency: BANK_CONFIGS[bankId]?.currency ?? null };
+}
+
+/**
+ * Drop transactions whose bank-assigned external ID (e.g. OFX FITID) was already
+ * imported for this bank in the workspace, or that repeat within the same file.
+ * An earlier upload of the same file doesn't count, since confirming replaces it.
+ */
+function removeKnownExternalIds(
+  transactions: ParsedTransaction[],
+  bankId: string,
+  workspaceId: number,
+  fileHash: string
+): { transactions: ParsedTransaction[]; duplicatesSkipped: number } {
+  if (!transactions.some((tx) => tx.externalId)) {
+    return { transactions, duplicatesSkipped: 0 };
+  }
 
-  // Parse the PDF based on bank
-  const parseResult = await parse(buffer);
+  const db = getDatabase();
+  const findExisting = db.prepare(`
+    SELECT 1 FROM transactions t
+    JOIN ledgers l ON t.ledger_id = l.id
+    WHERE t.external_id = ? AND l.workspace_id = ? AND l.bank_id = ? AND l.file_hash IS NOT ?
+    LIMIT 1
+  `);
+
+  const seen = new Set<string>();
+  const unique = transactions.filter((tx) => {
+    if (!tx.externalId) return true;
+    if (seen.has(tx.externalId)) return false;
+    seen.add(tx.externalId);
+    return !findExisting.get(tx.externalId, workspaceId, bankId, fileHash);
+  });
 
+  return { transactions: unique, duplicatesSkipped: transactions.length - unique.length };
+}
+
+function createLedger(
+  parseResult: ParseResult,
+  filename: string,
+  bankId: string,
+  workspaceId: number,
+  accountId: number | null,
+  currency: string | null
+): number {
   const db = getDatabase();
 
   // Check for duplicate upload in this workspace
   const existingLedger = db
-    .prepare('SELECT id, filename FROM ledgers WHERE file_hash = ? AND workspace_id = ?')
-    .get(parseResult.fileHash, workspaceId) as { id: number; filename: string } | undefined;
+    .prepare('SELECT id, status FROM ledgers WHERE file_hash = ? AND workspace_id = ?')
+    .get(parseResult.fileHash, workspaceId) as { id: number; status: string } | undefined;
 
-  if (existingLedger) {
+  // A draft of the same file is replaced right away. A confirmed ledger is only replaced when
+  // the new draft is confirmed, so discarding the draft keeps its transactions; until then the
+  // draft holds no file hash, and earlier drafts replacing the same ledger are dropped
+  let replacesLedgerId: number | null = null;
+  if (existingLedger?.status === 'draft') {
     db.prepare('DELETE FROM ledgers WHERE id = ?').run(existingLedger.id);
+  } else if (existingLedger) {
+    replacesLedgerId = existingLedger.id;
+    db.prepare("DELETE FROM ledgers WHERE replaces_ledger_id = ? AND status = 'draft'").run(
+      existingLedger.id
+    );
   }
 
-  // Create ledger record
+  // Create ledger record; it stays a draft until its transactions are confirmed
   const ledgerResult = db
     .prepare(
-      'INSERT INTO ledgers (filename, period_start, period_end, bank_id, file_hash, workspace_id) VALUES (?, ?, ?, ?, ?, ?)'
+      "INSERT INTO ledgers (filename, period_start, period_end, bank_id, file_hash, workspace_id, account_id, currency, replaces_ledger_id, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft')"
     )
     .run(
       filename,
       parseResult.periodStart,
       parseResult.periodEnd,
       bankId,
-      parseResult.fileHash,
-      workspaceId
+      replacesLedgerId === null ? parseResult.fileHash : null,
+      workspaceId,
+      accountId,
+      currency,
+      replacesLedgerId
     );
 
-  const ledgerId = ledgerResult.lastInsertRowid as number;
+  return ledgerResult.lastInsertRowid as number;
+}
 
-  // Apply category suggestions
+/**
+ * Process a statement upload: parse, check running balances, deduplicate by hash and external IDs,
+ * mark probable duplicates of imported transactions, match the statement's account, classify
+ * transaction types, apply category suggestions and create a draft ledger. The draft is created
+ * together with its stored preview, so it can be resumed until confirmation. A dry run parses and returns the same preview with diagnostics, but creates
+ * no ledger. The password of an encrypted PDF is only used to read it and is never stored.
+ */
+export async function processUpload(
+  buffer: Buffer,
+  filename: string,
+  requestedBankId: string | undefined,
+  workspaceId: number,
+  options: { dryRun?: boolean; password?: string } = {}
+): Promise<UploadResponse> {
+  const dryRun = options.dryRun ?? false;
+  const parseOptions: ParseOptions = { password: options.password };
+  const { bankId, detection, iban } = await resolveStatementBank(
+    buffer,
+    requestedBankId,
+    workspaceId,
+    parseOptions
+  );
+  const { parse, currency } = await resolveParser(bankId, workspaceId);
+
+  // Parse the statement based on bank
+  const parseResult = await parse(buffer, parseOptions);
+
+  // Text formats declare their account; for PDFs, the IBAN printed on the statement is used
+  const accountNumber = parseResult.accountNumber ?? iban;
+  const accountId = findMatchingAccount(workspaceId, bankId, accountNumber);
+
+  // Balances chain through every row of the statement, so check them before dropping duplicates
+  const reconciled = reconcileBalances(parseResult);
+
+  const { transactions, duplicatesSkipped } = removeKnownExternalIds(
+    reconciled.transactions,
+    bankId,
+    workspaceId,
+    parseResult.fileHash
+  );
+
+  const { transactions: checkedTransactions, probableDuplicates } = markProbableDuplicates(
+    transactions,
+    bankId,
+    workspaceId,
+    parseResult.fileHash
+  );
+
+  // Classify transaction types and apply category suggestions
   const transactionsWithCategories = applyCategorySuggestions(
-    parseResult.transactions,
+    classifyTransactions(checkedTransactions, bankId),
     bankId,
     workspaceId
   );
 
-  return {
-    ledgerId,
+  const preview: UploadResponse = {
+    ledgerId: null,
+    dryRun,
     filename,
     bankId,
     transactionCount: transactionsWithCategories.length,
     transactions: transactionsWithCategories,
     periodStart: parseResult.periodStart,
     periodEnd: parseResult.periodEnd,
+    duplicatesSkipped,
+    probableDuplicates,
+    warnings: parseResult.warnings ?? [],
+    detection,
+    diagnostics: parseResult.diagnostics ?? createParseDiagnostics(),
+    reconciliation: reconciled.reconciliation,
+    accountNumber,
+    accountId,
   };
+
+  if (dryRun) return preview;
+
+  // The draft is only created once its preview is built, and both are written together, so a
+  // failed upload leaves no draft behind that can't be resumed
+  const db = getDatabase();
+  const saveDraft = db.transaction(() => {
+    const ledgerId = createLedger(parseResult, filename, bankId, workspaceId, accountId, currency);
+    const response: UploadResponse = { ...preview, ledgerId };
+    db.prepare('UPDATE ledgers SET draft_data = ? WHERE id = ?').run(
+      JSON.stringify(response),
+      ledgerId
+    );
+    return response;
+  });
+
+  return saveDraft();
 }
 
 /**
- * List ledgers for a workspace with pagination and transaction counts.
+ * List a workspace's draft ledgers, newest first.
+ */
+export function listDraftLedgers(workspaceId: number): DraftLedger[] {
+  const db = getDatabase();
+  const drafts = db
+    .prepare(
+      `
+      SELECT id, filename, upload_date, period_start, period_end, bank_id,
+        COALESCE(json_extract(draft_data, '$.transactionCount'), 0) as transaction_count
+      FROM ledgers
+      WHERE workspace_id = ? AND status = 'draft'
+      ORDER BY upload_date DESC, id DESC
+    `
+    )
+    .all(workspaceId) as Array<{
+    id: number;
+    filename: string;
+    upload_date: string;
+    period_start: string | null;
+    period_end: string | null;
+    bank_id: string;
+    transaction_count: number;
+  }>;
+
+  return drafts.map((d) => ({
+    id: d.id,
+    filename: d.filename,
+    uploadDate: d.upload_date,
+    periodStart: d.period_start,
+    periodEnd: d.period_end,
+    bankId: d.bank_id,
+    transactionCount: d.transaction_count,
+  }));
+}
+
+/**
+ * Get the stored upload preview of a draft ledger, verifying workspace membership.
+ */
+export function getDraftLedger(ledgerId: number, userId: number): UploadResponse {
+  const db = getDatabase();
+
+  const draft = db.prepare(`
+    SELECT l.draft_data
+    FROM ledgers l
+    JOIN workspace_members wm ON wm.workspace_id = l.workspace_id
+    WHERE l.id = ? AND wm.user_id = ? AND l.status = 'draft'
+  `).get(ledgerId, userId) as { draft_data: string | null } | undefined;
+
+  if (!draft?.draft_data) {
+    throw AppError.notFound('Draft not found');
+  }
+
+  return JSON.parse(draft.draft_data) as UploadResponse;
+}
+
+/**
+ * Delete drafts uploaded more than `maxAgeDays` days ago. Returns the number deleted.
+ */
+export function purgeStaleDrafts(maxAgeDays: number): number {
+  const db = getDatabase();
+  const result = db
+    .prepare("DELETE FROM ledgers WHERE status = 'draft' AND upload_date < datetime('now', ?)")
+    .run(`-${maxAgeDays} days`);
+  return result.changes;
+}
+
+/**
+ * List confirmed ledgers for a workspace with pagination and transaction counts.
+ * Manual ledgers are not uploaded statements and are left out.
  */
 export function listLedgers(workspaceId: number, limit: number, offset: number): LedgerListResult {
   const db = getDatabase();
 
   const countResult = db
-    .prepare('SELECT COUNT(*) as count FROM ledgers WHERE workspace_id = ?')
-    .get(workspaceId) as { count: number };
+    .prepare(
+      "SELECT COUNT(*) as count FROM ledgers WHERE workspace_id = ? AND status = 'confirmed' AND bank_id != ?"
+    )
+    .get(workspaceId, MANUAL_BANK_ID) as { count: number };
 
   const ledgers = db
     .prepare(
       `
       SELECT
         l.id, l.filename, l.upload_date, l.period_start, l.period_end,
-        l.bank_id, l.workspace_id,
+        l.bank_id, l.workspace_id, l.account_id, l.currency,
         COUNT(t.id) as transaction_count
       FROM ledgers l
       LEFT JOIN transactions t ON l.id = t.ledger_id
-      WHERE l.workspace_id = ?
+      WHERE l.workspace_id = ? AND l.status = 'confirmed' AND l.bank_id != ?
       GROUP BY l.id
       ORDER BY l.upload_date DESC
       LIMIT ? OFFSET ?
     `
     )
-    .all(workspaceId, limit, offset) as Array<{
+    .all(workspaceId, MANUAL_BANK_ID, limit, offset) as Array<{
     id: number;
     filename: string;
     upload_date: string;
@@ -117,6 +355,8 @@ export function listLedgers(workspaceId: number, limit: number, offset: number):
     period_end: string | null;
     bank_id: string;
     workspace_id: number;
+    account_id: number | null;
+    currency: string | null;
     transaction_count: number;
   }>;
 
@@ -129,6 +369,8 @@ export function listLedgers(workspaceId: number, limit: number, offset: number):
       periodEnd: l.period_end,
       bankId: l.bank_id,
       workspaceId: l.workspace_id,
+      accountId: l.account_id,
+      currency: l.currency,
       transactionCount: l.transaction_count,
     })),
     total: countResult.count,
@@ -161,6 +403,31 @@ export function deleteLedger(ledgerId: number, userId: number): void {
   db.prepare('DELETE FROM ledgers WHERE id = ?').run(ledgerId);
 }
 
+/**
+ * Attach a ledger to an account of its workspace, or detach it with null,
+ * verifying the user has access via workspace membership.
+ */
+export function setLedgerAccount(ledgerId: number, userId: number, accountId: number | null): void {
+  const db = getDatabase();
+
+  const ledger = db.prepare(`
+    SELECT l.id, l.workspace_id
+    FROM ledgers l
+    JOIN workspace_members wm ON wm.workspace_id = l.workspace_id
+    WHERE l.id = ? AND wm.user_id = ?
+  `).get(ledgerId, userId) as { id: number; workspace_id: number } | undefined;
+
+  if (!ledger) {
+    throw AppError.notFound('Ledger not found');
+  }
+
+  if (accountId !== null) {
+    getAccount(accountId, ledger.workspace_id);
+  }
+
+  db.prepare('UPDATE ledgers SET account_id = ? WHERE id = ?').run(accountId, ledgerId);
+}
+
 /**
  * Get the workspace ID for a given ledger.
  */
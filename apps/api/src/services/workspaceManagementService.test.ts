@@ -111,6 +111,16 @@ describe('updateWorkspace', () => {
     expect(vi.mocked(requireWorkspaceRole)).toHaveBeenCalledWith(1, 10, ['owner', 'editor']);
   });
 
+  it('should update the base currency', () => {
+    const mockRun = vi.fn().mockReturnValue({ changes: 1 });
+    mockDb.prepare.mockReturnValue({ run: mockRun });
+
+    updateWorkspace(1, 10, { baseCurrency: 'USD' });
+
+    expect(mockDb.prepare.mock.calls[0][0]).toContain('base_currency = ?');
+    expect(mockRun).toHaveBeenCalledWith('USD', 1);
+  });
+
   it('should throw bad request when no fields are provided', () => {
     expect(() => updateWorkspace(1, 10, {})).toThrow(AppError);
     expect(() => updateWorkspace(1, 10, {})).toThrow('No fields to update');
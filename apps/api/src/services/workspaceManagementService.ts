@@ -2,7 +2,12 @@ import { getDatabase } from '../db/database.js';
 import { seedCategoriesForWorkspace } from '../db/seed.js';
 import { AppError } from '../errors.js';
 import { requireWorkspaceRole } from './workspaceService.js';
-import { DEFAULT_LOCALE, type Workspace, type SupportedLocale } from '@compasso/shared';
+import {
+  DEFAULT_BASE_CURRENCY,
+  DEFAULT_LOCALE,
+  type Workspace,
+  type SupportedLocale,
+} from '@compasso/shared';
 
 interface DbWorkspace {
   id: number;
@@ -11,6 +16,7 @@ interface DbWorkspace {
   color: string;
   icon: string;
   is_default: number;
+  base_currency: string;
   created_at: string;
   role: string;
 }
@@ -25,7 +31,7 @@ export function listUserWorkspaces(userId: number): Workspace[] {
     .prepare(
       `
       SELECT w.id, w.name, w.description, w.color, w.icon, w.is_default,
-             w.created_at, wm.role
+             w.base_currency, w.created_at, wm.role
       FROM workspaces w
       JOIN workspace_members wm ON wm.workspace_id = w.id
       WHERE wm.user_id = ?
@@ -41,6 +47,7 @@ export function listUserWorkspaces(userId: number): Workspace[] {
     color: w.color,
     icon: w.icon,
     isDefault: w.is_default === 1,
+    baseCurrency: w.base_currency,
     createdAt: w.created_at,
     role: w.role as Workspace['role'],
   }));
@@ -56,7 +63,7 @@ export function getWorkspace(workspaceId: number, userId: number): Workspace {
     .prepare(
       `
       SELECT w.id, w.name, w.description, w.color, w.icon, w.is_default,
-             w.created_at, wm.role
+             w.base_currency, w.created_at, wm.role
       FROM workspaces w
       JOIN workspace_members wm ON wm.workspace_id = w.id
       WHERE w.id = ? AND wm.user_id = ?
@@ -75,6 +82,7 @@ export function getWorkspace(workspaceId: number, userId: number): Workspace {
     color: workspace.color,
     icon: workspace.icon,
     isDefault: workspace.is_default === 1,
+    baseCurrency: workspace.base_currency,
     createdAt: workspace.created_at,
     role: workspace.role as Workspace['role'],
   };
@@ -85,7 +93,7 @@ export function getWorkspace(workspaceId: number, userId: number): Workspace {
  */
 export function createWorkspace(
   userId: number,
-  data: { name: string; description?: string; color?: string; icon?: string }
+  data: { name: string; description?: string; color?: string; icon?: string; baseCurrency?: string }
 ): Workspace {
   if (!data.name) {
     throw AppError.badRequest('Workspace name is required');
@@ -95,13 +103,14 @@ export function createWorkspace(
 
   const result = db
     .prepare(
-      'INSERT INTO workspaces (name, description, color, icon, is_default) VALUES (?, ?, ?, ?, 0)'
+      'INSERT INTO workspaces (name, description, color, icon, is_default, base_currency) VALUES (?, ?, ?, ?, 0, ?)'
     )
     .run(
       data.name,
       data.description || null,
       data.color || '#6366f1',
-      data.icon || 'briefcase'
+      data.icon || 'briefcase',
+      data.baseCurrency || DEFAULT_BASE_CURRENCY
     );
 
   const workspaceId = result.lastInsertRowid as number;
@@ -125,18 +134,19 @@ export function createWorkspace(
     color: data.color || '#6366f1',
     icon: data.icon || 'briefcase',
     isDefault: false,
+    baseCurrency: data.baseCurrency || DEFAULT_BASE_CURRENCY,
     createdAt: new Date().toISOString(),
     role: 'owner',
   };
 }
 
 /**
- * Update a workspace's name, description, color, or icon. Requires owner or editor role.
+ * Update a workspace's name, description, color, icon, or base currency. Requires owner or editor role.
  */
 export function updateWorkspace(
   workspaceId: number,
   userId: number,
-  data: { name?: string; description?: string; color?: string; icon?: string }
+  data: { name?: string; description?: string; color?: string; icon?: string; baseCurrency?: string }
 ): void {
   requireWorkspaceRole(workspaceId, userId, ['owner', 'editor']);
 
@@ -163,6 +173,11 @@ export function updateWorkspace(
     params.push(data.icon);
   }
 
+  if (data.baseCurrency !== undefined) {
+    updates.push('base_currency = ?');
+    params.push(data.baseCurrency);
+  }
+
   if (updates.length === 0) {
     throw AppError.badRequest('No fields to update');
   }
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setupTestApp,
+  cleanupTestApp,
+  createTestUser,
+  createTestLedger,
+  createTestTransaction,
+  type TestUser,
+} from './integration-helpers.js';
+import { getDatabase } from '../db/database.js';
+import type supertest from 'supertest';
+
+let agent: supertest.Agent;
+
+beforeEach(() => {
+  agent = setupTestApp();
+});
+
+afterEach(() => {
+  cleanupTestApp();
+});
+
+describe('Accounts Integration', () => {
+  let user: TestUser;
+
+  beforeEach(() => {
+    user = createTestUser('accountuser', 'password123', 'account@test.com');
+  });
+
+  async function createAccount(body: Record<string, unknown>) {
+    return agent
+      .post('/api/accounts')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, ...body });
+  }
+
+  it('tracks balances of the ledgers attached to an account', async () => {
+    const created = await createAccount({
+      name: 'Novo Banco Main',
+      bankId: 'novo_banco',
+      accountNumber: 'PT50 0007 0000 0012 3456 7892 3',
+      openingBalance: 1000,
+    });
+    expect(created.status).toBe(201);
+    const accountId = created.body.data.id;
+
+    const ledgerId = createTestLedger(user.workspaceId, { bankId: 'novo_banco' });
+    createTestTransaction(ledgerId, { date: '2024-01-02', amount: 50, balance: 950 });
+    createTestTransaction(ledgerId, { date: '2024-01-05', amount: 200, isIncome: true });
+
+    const attached = await agent
+      .put(`/api/upload/ledgers/${ledgerId}/account`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ accountId });
+    expect(attached.status).toBe(200);
+
+    const list = await agent
+      .get('/api/accounts')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+
+    expect(list.body.data).toEqual([
+      expect.objectContaining({
+        name: 'Novo Banco Main',
+        accountNumber: 'PT50000700000012345678923',
+        currentBalance: 1150,
+        lastTransactionDate: '2024-01-05',
+        ledgerCount: 1,
+        transactionCount: 2,
+      }),
+    ]);
+
+    const history = await agent
+      .get(`/api/accounts/${accountId}/balance-history`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+
+    expect(history.body.data).toEqual([
+      { date: '2024-01-02', balance: 950 },
+      { date: '2024-01-05', balance: 1150 },
+    ]);
+  });
+
+  it('keeps ledgers when their account is deleted', async () => {
+    const created = await createAccount({ name: 'Cash' });
+    const ledgerId = createTestLedger(user.workspaceId);
+    getDatabase()
+      .prepare('UPDATE ledgers SET account_id = ? WHERE id = ?')
+      .run(created.body.data.id, ledgerId);
+
+    const res = await agent
+      .delete(`/api/accounts/${created.body.data.id}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+
+    expect(res.status).toBe(200);
+    const ledger = getDatabase()
+      .prepare('SELECT account_id FROM ledgers WHERE id = ?')
+      .get(ledgerId) as { account_id: number | null };
+    expect(ledger.account_id).toBeNull();
+  });
+
+  it('rejects attaching a ledger to an account of another workspace', async () => {
+    const other = createTestUser('otheruser', 'password123', 'other@test.com');
+    const otherAccount = await agent
+      .post('/api/accounts')
+      .set('Authorization', `Bearer ${other.sessionId}`)
+      .send({ workspaceId: other.workspaceId, name: 'Other' });
+    const ledgerId = createTestLedger(user.workspaceId);
+
+    const res = await agent
+      .put(`/api/upload/ledgers/${ledgerId}/account`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ accountId: otherAccount.body.data.id });
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -283,4 +283,194 @@ describe('Backup Integration', () => {
       expect(importedTx.category_name).toBe('NameRef Cat');
     });
   });
+
+  describe('Base currency', () => {
+    it('is restored into the importing workspace', async () => {
+      await agent
+        .put(`/api/workspaces/${user.workspaceId}`)
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ baseCurrency: 'GBP' });
+
+      const exportRes = await agent
+        .get('/api/backup/export')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId });
+
+      const newWsRes = await agent
+        .post('/api/workspaces')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ name: 'Currency Target' });
+      const newWorkspaceId = newWsRes.body.data.id;
+      expect(newWsRes.body.data.baseCurrency).toBe('EUR');
+
+      const importRes = await agent
+        .post('/api/backup/import')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: newWorkspaceId })
+        .attach('file', Buffer.from(exportRes.text), {
+          filename: 'backup.json',
+          contentType: 'application/json',
+        });
+      expect(importRes.status).toBe(200);
+
+      const workspaceRes = await agent
+        .get(`/api/workspaces/${newWorkspaceId}`)
+        .set('Authorization', `Bearer ${user.sessionId}`);
+      expect(workspaceRes.body.data.baseCurrency).toBe('GBP');
+    });
+  });
+
+  describe('CSV profile references', () => {
+    it('are remapped to the profiles of the importing workspace', async () => {
+      const createProfile = (workspaceId: number, name: string) =>
+        agent
+          .post('/api/csv-profiles')
+          .set('Authorization', `Bearer ${user.sessionId}`)
+          .send({
+            workspaceId,
+            name,
+            delimiter: ';',
+            dateFormat: 'DD/MM/YYYY',
+            decimalFormat: 'european',
+            columns: { date: 0, description: [1], amount: 2 },
+          });
+
+      const profile = (await createProfile(user.workspaceId, 'My Bank CSV')).body.data;
+      const db = getDatabase();
+      const groceries = db
+        .prepare("SELECT id FROM categories WHERE workspace_id = ? AND name = 'Groceries'")
+        .get(user.workspaceId) as { id: number };
+      db.prepare('INSERT INTO category_patterns (category_id, bank_id, pattern) VALUES (?, ?, ?)').run(
+        groceries.id,
+        profile.bankId,
+        'MERCADO'
+      );
+      createTestLedger(user.workspaceId, { filename: 'jan.csv', bankId: profile.bankId });
+
+      const exportRes = await agent
+        .get('/api/backup/export')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId });
+      const backup = JSON.parse(exportRes.text);
+      expect(backup.csvProfiles).toEqual([
+        expect.objectContaining({ bankId: profile.bankId, name: 'My Bank CSV', delimiter: ';' }),
+      ]);
+
+      const newWsRes = await agent
+        .post('/api/workspaces')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ name: 'CSV Target' });
+      const newWorkspaceId = newWsRes.body.data.id;
+      // Takes the profile's ID in the new workspace, so the import can't keep the old one
+      await createProfile(newWorkspaceId, 'Other CSV');
+
+      const importRes = await agent
+        .post('/api/backup/import')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: newWorkspaceId })
+        .attach('file', Buffer.from(JSON.stringify(backup)), {
+          filename: 'backup.json',
+          contentType: 'application/json',
+        });
+      expect(importRes.body.data.csvProfilesImported).toBe(1);
+
+      const imported = db
+        .prepare("SELECT id FROM csv_profiles WHERE workspace_id = ? AND name = 'My Bank CSV'")
+        .get(newWorkspaceId) as { id: number };
+      const bankId = `csv:${imported.id}`;
+      expect(bankId).not.toBe(profile.bankId);
+      expect(
+        db.prepare('SELECT bank_id FROM ledgers WHERE workspace_id = ?').all(newWorkspaceId)
+      ).toEqual([{ bank_id: bankId }]);
+      expect(
+        db
+          .prepare(
+            `SELECT cp.bank_id FROM category_patterns cp
+             JOIN categories c ON cp.category_id = c.id
+             WHERE c.workspace_id = ? AND cp.pattern = 'MERCADO'`
+          )
+          .all(newWorkspaceId)
+      ).toEqual([{ bank_id: bankId }]);
+    });
+  });
+
+  describe('Statement template references', () => {
+    it('are remapped to the templates of the importing workspace', async () => {
+      const createTemplate = (workspaceId: number, name: string) =>
+        agent
+          .post('/api/statement-templates')
+          .set('Authorization', `Bearer ${user.sessionId}`)
+          .send({
+            workspaceId,
+            name,
+            definition: {
+              dateFormat: 'DD/MM/YYYY',
+              decimalFormat: 'european',
+              transaction: { pattern: '^(?<date>\\d{2}/\\d{2}/\\d{4})\\s+' },
+              amountLayouts: [{ amount: 0, balance: 1, incomeFrom: 'sign' }],
+            },
+          });
+
+      const template = (await createTemplate(user.workspaceId, 'Local Bank')).body.data;
+      const db = getDatabase();
+      const groceries = db
+        .prepare("SELECT id FROM categories WHERE workspace_id = ? AND name = 'Groceries'")
+        .get(user.workspaceId) as { id: number };
+      db.prepare('INSERT INTO category_patterns (category_id, bank_id, pattern) VALUES (?, ?, ?)').run(
+        groceries.id,
+        template.bankId,
+        'MERCADO'
+      );
+      createTestLedger(user.workspaceId, { filename: 'jan.pdf', bankId: template.bankId });
+
+      const exportRes = await agent
+        .get('/api/backup/export')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId });
+      const backup = JSON.parse(exportRes.text);
+      expect(backup.statementTemplates).toEqual([
+        {
+          bankId: template.bankId,
+          name: 'Local Bank',
+          currency: 'EUR',
+          definition: template.definition,
+        },
+      ]);
+
+      const newWsRes = await agent
+        .post('/api/workspaces')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ name: 'Template Target' });
+      const newWorkspaceId = newWsRes.body.data.id;
+      await createTemplate(newWorkspaceId, 'Other Bank');
+
+      const importRes = await agent
+        .post('/api/backup/import')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: newWorkspaceId })
+        .attach('file', Buffer.from(JSON.stringify(backup)), {
+          filename: 'backup.json',
+          contentType: 'application/json',
+        });
+      expect(importRes.body.data.statementTemplatesImported).toBe(1);
+
+      const imported = db
+        .prepare("SELECT id FROM statement_templates WHERE workspace_id = ? AND name = 'Local Bank'")
+        .get(newWorkspaceId) as { id: number };
+      const bankId = `template:${imported.id}`;
+      expect(bankId).not.toBe(template.bankId);
+      expect(
+        db.prepare('SELECT bank_id FROM ledgers WHERE workspace_id = ?').all(newWorkspaceId)
+      ).toEqual([{ bank_id: bankId }]);
+      expect(
+        db
+          .prepare(
+            `SELECT cp.bank_id FROM category_patterns cp
+             JOIN categories c ON cp.category_id = c.id
+             WHERE c.workspace_id = ? AND cp.pattern = 'MERCADO'`
+          )
+          .all(newWorkspaceId)
+      ).toEqual([{ bank_id: bankId }]);
+    });
+  });
 });
@@ -138,6 +138,65 @@ describe('Categories & Patterns Integration', () => {
     });
   });
 
+  describe('Subcategories', () => {
+    async function create(name: string, parentId?: number) {
+      return agent
+        .post('/api/categories')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ name, parentId, workspaceId: user.workspaceId });
+    }
+
+    it('lists subcategories right after their parent', async () => {
+      const dining = (await create('Eating Out')).body.data.id;
+      await create('Restaurants', dining);
+      await create('Coffee', dining);
+      await create('Eating Out Again');
+
+      const res = await agent
+        .get('/api/categories')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, limit: 100 });
+
+      const names = res.body.data.items.map((c: { name: string }) => c.name);
+      expect(names.indexOf('Coffee')).toBe(names.indexOf('Eating Out') + 1);
+      expect(names.indexOf('Restaurants')).toBe(names.indexOf('Eating Out') + 2);
+      expect(names.indexOf('Eating Out Again')).toBeGreaterThan(names.indexOf('Restaurants'));
+      const coffee = res.body.data.items.find((c: { name: string }) => c.name === 'Coffee');
+      expect(coffee.parentId).toBe(dining);
+    });
+
+    it('rejects nesting deeper than three levels and moves that create a cycle', async () => {
+      const dining = (await create('Eating Out')).body.data.id;
+      const coffee = (await create('Coffee', dining)).body.data.id;
+      const espresso = (await create('Espresso', coffee)).body.data.id;
+
+      const tooDeep = await create('Ristretto', espresso);
+      expect(tooDeep.status).toBe(400);
+
+      const cycle = await agent
+        .put(`/api/categories/${dining}`)
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ parentId: coffee, workspaceId: user.workspaceId });
+      expect(cycle.status).toBe(400);
+    });
+
+    it('moves subcategories up when their parent is deleted', async () => {
+      const dining = (await create('Eating Out')).body.data.id;
+      const coffee = (await create('Coffee', dining)).body.data.id;
+      const espresso = (await create('Espresso', coffee)).body.data.id;
+
+      await agent
+        .delete(`/api/categories/${coffee}`)
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId });
+
+      const row = getDatabase()
+        .prepare('SELECT parent_id FROM categories WHERE id = ?')
+        .get(espresso) as { parent_id: number | null };
+      expect(row.parent_id).toBe(dining);
+    });
+  });
+
   describe('Patterns', () => {
     it('creates a pattern and recategorizes matching uncategorized transactions', async () => {
       // Create category
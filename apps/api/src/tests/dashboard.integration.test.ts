@@ -164,6 +164,68 @@ describe('Dashboard & Reports Integration', () => {
     });
   });
 
+  describe('Category rollups', () => {
+    let dining: number;
+    let restaurants: number;
+    let coffee: number;
+
+    async function create(name: string, parentId?: number): Promise<number> {
+      const res = await agent
+        .post('/api/categories')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ name, parentId, workspaceId: user.workspaceId });
+      return res.body.data.id;
+    }
+
+    beforeEach(async () => {
+      dining = await create('Eating Out');
+      restaurants = await create('Restaurants', dining);
+      coffee = await create('Coffee', dining);
+      const espresso = await create('Espresso', coffee);
+
+      const ledgerId = createTestLedger(user.workspaceId);
+      createTestTransaction(ledgerId, { date: '2024-03-01', amount: 100, categoryId: restaurants });
+      createTestTransaction(ledgerId, { date: '2024-03-02', amount: 20, categoryId: coffee });
+      createTestTransaction(ledgerId, { date: '2024-03-03', amount: 5, categoryId: espresso });
+      createTestTransaction(ledgerId, { date: '2024-03-04', amount: 10, categoryId: dining });
+      createTestTransaction(ledgerId, { date: '2024-03-05', amount: 50 });
+    });
+
+    it('rolls subcategories up into top-level categories', async () => {
+      const res = await agent
+        .get('/api/dashboard')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2024 });
+
+      expect(res.body.data.categoryBreakdown).toEqual([
+        expect.objectContaining({ categoryId: dining, total: 135, count: 4, hasChildren: true }),
+        expect.objectContaining({ categoryId: null, total: 50, count: 1, hasChildren: false }),
+      ]);
+    });
+
+    it('drills down into a parent category', async () => {
+      const res = await agent
+        .get('/api/reports/yearly')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2024, parentCategoryId: dining });
+
+      expect(res.body.data.categoryBreakdown).toEqual([
+        expect.objectContaining({ categoryId: restaurants, total: 100, hasChildren: false }),
+        expect.objectContaining({ categoryId: coffee, total: 25, hasChildren: true }),
+        expect.objectContaining({ categoryId: dining, total: 10, hasChildren: false }),
+      ]);
+    });
+
+    it('filters the dashboard by a category and its subcategories', async () => {
+      const res = await agent
+        .get('/api/dashboard')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2024, categoryId: coffee });
+
+      expect(res.body.data.summary.totalExpenses).toBe(25);
+    });
+  });
+
   describe('GET /api/reports/category-trends', () => {
     it('returns category spending trends', async () => {
       const ledgerId = createTestLedger(user.workspaceId);
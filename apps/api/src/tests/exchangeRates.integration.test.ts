@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setupTestApp,
+  cleanupTestApp,
+  createTestUser,
+  createTestLedger,
+  createTestTransaction,
+  type TestUser,
+} from './integration-helpers.js';
+import type supertest from 'supertest';
+
+let agent: supertest.Agent;
+
+beforeEach(() => {
+  agent = setupTestApp();
+});
+
+afterEach(() => {
+  cleanupTestApp();
+});
+
+describe('Exchange Rates Integration', () => {
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = createTestUser('rateuser', 'password123', 'rate@test.com');
+
+    const euroLedger = createTestLedger(user.workspaceId);
+    const poundLedger = createTestLedger(user.workspaceId, { bankId: 'revolut', currency: 'GBP' });
+    createTestTransaction(euroLedger, { date: '2024-01-10', amount: 100 });
+    createTestTransaction(poundLedger, { date: '2024-01-10', amount: 86 });
+
+    const account = await agent
+      .post('/api/accounts')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, name: 'Dollar wallet', type: 'cash', currency: 'USD' });
+    await agent
+      .post('/api/transactions/manual')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        accountId: account.body.data.id,
+        date: '2024-01-12',
+        description: 'Diner',
+        amount: 54.6,
+        isIncome: false,
+      });
+  });
+
+  async function setRate(currency: string, date: string, rate: number) {
+    return agent
+      .put('/api/exchange-rates')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, currency, date, rate });
+  }
+
+  async function getTotalExpenses() {
+    const res = await agent
+      .get('/api/dashboard')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, year: 2024 });
+    return res.body.data.summary.totalExpenses;
+  }
+
+  it('converts amounts to the base currency once rates are set', async () => {
+    // Without rates, amounts are summed as they are
+    expect(await getTotalExpenses()).toBeCloseTo(240.6);
+
+    await setRate('GBP', '2024-01-09', 0.86);
+    await setRate('USD', '2024-01-15', 1.092);
+    expect(await getTotalExpenses()).toBeCloseTo(250);
+
+    const transactions = await agent
+      .get('/api/transactions')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(transactions.body.data.items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ amount: 86, currency: 'GBP', baseAmount: 100 }),
+        expect.objectContaining({ amount: 54.6, currency: 'USD', baseAmount: 50 }),
+      ])
+    );
+
+    const exported = await agent
+      .get('/api/transactions/export')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(exported.text).toContain('Expense,-86.00,GBP,-100.00');
+  });
+
+  it('converts through the euro when the base currency changes', async () => {
+    await setRate('GBP', '2024-01-09', 0.86);
+    await setRate('USD', '2024-01-09', 1.092);
+
+    const updated = await agent
+      .put(`/api/workspaces/${user.workspaceId}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ baseCurrency: 'usd' });
+    expect(updated.status).toBe(200);
+
+    expect(await getTotalExpenses()).toBeCloseTo(109.2 + 109.2 + 54.6);
+  });
+
+  it('imports ECB reference rates', async () => {
+    const csv = 'Date,USD,JPY,GBP,\n2024-01-05,1.0921,158.6,0.86,\n';
+    const res = await agent
+      .post('/api/exchange-rates/import')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId })
+      .attach('file', Buffer.from(csv), 'eurofxref.csv');
+    expect(res.body.data).toEqual({ imported: 3 });
+
+    const rates = await agent
+      .get('/api/exchange-rates')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, currency: 'GBP' });
+    expect(rates.body.data).toEqual([
+      expect.objectContaining({ currency: 'GBP', date: '2024-01-05', rate: 0.86 }),
+    ]);
+  });
+
+  it('does not let members of other workspaces delete a rate', async () => {
+    const rate = await setRate('GBP', '2024-01-09', 0.86);
+    const other = createTestUser('otheruser', 'password123', 'other@test.com');
+
+    const res = await agent
+      .delete(`/api/exchange-rates/${rate.body.data.id}`)
+      .set('Authorization', `Bearer ${other.sessionId}`)
+      .query({ workspaceId: other.workspaceId });
+
+    expect(res.status).toBe(404);
+  });
+});
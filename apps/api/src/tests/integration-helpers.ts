@@ -101,12 +101,14 @@ export function createTestLedger(
     fileHash?: string;
     periodStart?: string;
     periodEnd?: string;
+    currency?: string;
+    status?: 'draft' | 'confirmed';
   } = {}
 ): number {
   const db = getDatabase();
   const result = db
     .prepare(
-      'INSERT INTO ledgers (filename, bank_id, file_hash, workspace_id, period_start, period_end) VALUES (?, ?, ?, ?, ?, ?)'
+      'INSERT INTO ledgers (filename, bank_id, file_hash, workspace_id, period_start, period_end, currency, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
     )
     .run(
       options.filename || 'test.pdf',
@@ -114,7 +116,9 @@ export function createTestLedger(
       options.fileHash || null,
       workspaceId,
       options.periodStart || null,
-      options.periodEnd || null
+      options.periodEnd || null,
+      options.currency || null,
+      options.status || 'confirmed'
     );
   return Number(result.lastInsertRowid);
 }
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setupTestApp,
+  cleanupTestApp,
+  createTestUser,
+  createTestLedger,
+  createTestTransaction,
+  type TestUser,
+} from './integration-helpers.js';
+import type supertest from 'supertest';
+
+let agent: supertest.Agent;
+
+beforeEach(() => {
+  agent = setupTestApp();
+});
+
+afterEach(() => {
+  cleanupTestApp();
+});
+
+describe('Loans Integration', () => {
+  let user: TestUser;
+
+  beforeEach(() => {
+    user = createTestUser('loanuser', 'password123', 'loan@test.com');
+  });
+
+  function get(path: string) {
+    return agent
+      .get(path)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+  }
+
+  it('builds the schedule and links installment payments', async () => {
+    const ledgerId = createTestLedger(user.workspaceId);
+    const first = createTestTransaction(ledgerId, {
+      date: '2024-01-10',
+      description: 'Prestação Crédito Auto',
+      amount: 1019.61,
+    });
+    createTestTransaction(ledgerId, {
+      date: '2024-02-09',
+      description: 'Prestação Crédito Auto',
+      amount: 1019.61,
+    });
+    createTestTransaction(ledgerId, {
+      date: '2024-01-10',
+      description: 'Groceries',
+      amount: 1019.61,
+    });
+
+    const created = await agent
+      .post('/api/loans')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        name: 'Car loan',
+        principal: 12000,
+        rateType: 'fixed',
+        fixedRate: 3.6,
+        termMonths: 12,
+        startDate: '2024-01-10',
+        descriptionPattern: 'crédito auto',
+      });
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({
+      currency: 'EUR',
+      monthlyPayment: 1019.57,
+      remainingBalance: 0,
+      linkedInstallments: 2,
+      payoffDate: '2024-12-10',
+    });
+
+    const loanId = created.body.data.id;
+    const schedule = await get(`/api/loans/${loanId}/schedule`);
+
+    expect(schedule.body.data).toHaveLength(12);
+    expect(schedule.body.data[0]).toMatchObject({ interest: 36, transactionId: first });
+    expect(schedule.body.data[1]).toMatchObject({ paidDate: '2024-02-09' });
+
+    const unlinked = await agent
+      .delete(`/api/loans/${loanId}/payments/${first}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(unlinked.status).toBe(200);
+
+    const relinked = await agent
+      .post(`/api/loans/${loanId}/link`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId });
+    expect(relinked.body.data.linked).toBe(0);
+
+    const netWorth = await get('/api/net-worth');
+    expect(netWorth.body.data.liabilities).toEqual([]);
+  });
+
+  it('keeps unlinked payments unlinked through a backup export and import', async () => {
+    const ledgerId = createTestLedger(user.workspaceId);
+    const first = createTestTransaction(ledgerId, {
+      date: '2024-01-10',
+      description: 'Prestação Crédito Auto',
+      amount: 1019.61,
+    });
+    createTestTransaction(ledgerId, {
+      date: '2024-02-09',
+      description: 'Prestação Crédito Auto',
+      amount: 1019.61,
+    });
+
+    const created = await agent
+      .post('/api/loans')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        name: 'Car loan',
+        principal: 12000,
+        rateType: 'fixed',
+        fixedRate: 3.6,
+        termMonths: 12,
+        startDate: '2024-01-10',
+        descriptionPattern: 'crédito auto',
+      });
+    await agent
+      .delete(`/api/loans/${created.body.data.id}/payments/${first}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId })
+      .expect(200);
+
+    const exportRes = await get('/api/backup/export');
+    const newWsRes = await agent
+      .post('/api/workspaces')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ name: 'Loans Import Target' });
+    const workspaceId = newWsRes.body.data.id;
+    const importRes = await agent
+      .post('/api/backup/import')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId })
+      .attach('file', Buffer.from(exportRes.text), {
+        filename: 'backup.json',
+        contentType: 'application/json',
+      });
+    expect(importRes.body.data).toMatchObject({ loanPaymentsImported: 2, loanPaymentsSkipped: 0 });
+
+    const loans = await agent
+      .get('/api/loans')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId });
+    expect(loans.body.data).toEqual([
+      expect.objectContaining({ name: 'Car loan', linkedInstallments: 1 }),
+    ]);
+
+    const schedule = await agent
+      .get(`/api/loans/${loans.body.data[0].id}/schedule`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId });
+    expect(schedule.body.data[0].transactionId).toBeNull();
+    expect(schedule.body.data[1]).toMatchObject({ paidDate: '2024-02-09' });
+  });
+
+  it('revises a Euribor loan with the values entered', async () => {
+    await agent
+      .put('/api/loans/euribor-rates')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, tenor: '3M', date: '2024-01-01', rate: 3 });
+    await agent
+      .put('/api/loans/euribor-rates')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, tenor: '3M', date: '2024-03-28', rate: 1.8 });
+
+    const created = await agent
+      .post('/api/loans')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        name: 'Mortgage',
+        principal: 6000,
+        rateType: 'euribor',
+        euriborTenor: '3M',
+        spread: 1,
+        termMonths: 6,
+        startDate: '2024-02-01',
+      });
+    const schedule = await get(`/api/loans/${created.body.data.id}/schedule`);
+
+    expect(schedule.body.data.map((row: { rate: number }) => row.rate)).toEqual([
+      4, 4, 4, 2.8, 2.8, 2.8,
+    ]);
+    expect(schedule.body.data[5].balance).toBe(0);
+
+    const rates = await get('/api/loans/euribor-rates');
+    expect(rates.body.data).toHaveLength(2);
+  });
+
+  it('does not show loans of another workspace', async () => {
+    const created = await agent
+      .post('/api/loans')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        name: 'Car loan',
+        principal: 12000,
+        rateType: 'fixed',
+        fixedRate: 3.6,
+        termMonths: 12,
+        startDate: '2024-01-10',
+      });
+    const other = createTestUser('otherloan', 'password123', 'otherloan@test.com');
+
+    const res = await agent
+      .get(`/api/loans/${created.body.data.id}/schedule`)
+      .set('Authorization', `Bearer ${other.sessionId}`)
+      .query({ workspaceId: other.workspaceId });
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setupTestApp,
+  cleanupTestApp,
+  createTestUser,
+  createTestLedger,
+  createTestTransaction,
+  type TestUser,
+} from './integration-helpers.js';
+import type supertest from 'supertest';
+
+let agent: supertest.Agent;
+
+beforeEach(() => {
+  agent = setupTestApp();
+});
+
+afterEach(() => {
+  cleanupTestApp();
+});
+
+describe('Net Worth Integration', () => {
+  let user: TestUser;
+
+  beforeEach(() => {
+    user = createTestUser('networthuser', 'password123', 'networth@test.com');
+  });
+
+  function post(path: string, body: Record<string, unknown>) {
+    return agent
+      .post(path)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, ...body });
+  }
+
+  it('adds account balances and manual items and records snapshots', async () => {
+    const account = await post('/api/accounts', { name: 'Checking', openingBalance: 1000 });
+    const ledgerId = createTestLedger(user.workspaceId);
+    createTestTransaction(ledgerId, { date: '2024-01-05', amount: 200, balance: 2500 });
+    await agent
+      .put(`/api/upload/ledgers/${ledgerId}/account`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ accountId: account.body.data.id });
+
+    await post('/api/net-worth/items', { kind: 'asset', name: 'Car', value: 12000 });
+    const mortgage = await post('/api/net-worth/items', {
+      kind: 'liability',
+      name: 'Mortgage',
+      value: 9000,
+    });
+    expect(mortgage.status).toBe(201);
+    expect(mortgage.body.data.currency).toBe('EUR');
+
+    const summary = await agent
+      .get('/api/net-worth')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+
+    expect(summary.status).toBe(200);
+    expect(summary.body.data.totalAssets).toBe(14500);
+    expect(summary.body.data.totalLiabilities).toBe(9000);
+    expect(summary.body.data.netWorth).toBe(5500);
+
+    const first = await post('/api/net-worth/snapshots', {});
+    await agent
+      .put(`/api/net-worth/items/${mortgage.body.data.id}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, value: 8500 });
+    const second = await post('/api/net-worth/snapshots', {});
+
+    expect(second.body.data.id).toBe(first.body.data.id);
+    expect(second.body.data.netWorth).toBe(6000);
+
+    const series = await agent
+      .get('/api/net-worth/snapshots')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+
+    expect(series.body.data).toHaveLength(1);
+    expect(series.body.data[0].totalLiabilities).toBe(8500);
+  });
+
+  it('does not let another workspace delete an item', async () => {
+    const item = await post('/api/net-worth/items', { kind: 'asset', name: 'Car', value: 12000 });
+    const other = createTestUser('otheruser', 'password123', 'other@test.com');
+
+    const res = await agent
+      .delete(`/api/net-worth/items/${item.body.data.id}`)
+      .set('Authorization', `Bearer ${other.sessionId}`)
+      .query({ workspaceId: other.workspaceId });
+
+    expect(res.status).toBe(404);
+  });
+});
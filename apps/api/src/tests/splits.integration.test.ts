@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setupTestApp,
+  cleanupTestApp,
+  createTestUser,
+  createTestLedger,
+  createTestTransaction,
+  type TestUser,
+} from './integration-helpers.js';
+import { getDatabase } from '../db/database.js';
+import type supertest from 'supertest';
+
+let agent: supertest.Agent;
+
+beforeEach(() => {
+  agent = setupTestApp();
+});
+
+afterEach(() => {
+  cleanupTestApp();
+});
+
+describe('Split Transactions Integration', () => {
+  let user: TestUser;
+  let supermarket: number;
+  let categories: Record<string, number>;
+
+  beforeEach(() => {
+    user = createTestUser('splituser', 'password123', 'split@test.com');
+
+    const rows = getDatabase()
+      .prepare('SELECT id, name FROM categories WHERE workspace_id = ?')
+      .all(user.workspaceId) as Array<{ id: number; name: string }>;
+    categories = Object.fromEntries(rows.map((r) => [r.name, r.id]));
+
+    const ledgerId = createTestLedger(user.workspaceId);
+    supermarket = createTestTransaction(ledgerId, {
+      date: '2025-09-01',
+      description: 'SUPERMARKET',
+      amount: 100,
+      categoryId: categories.Groceries,
+    });
+    createTestTransaction(ledgerId, {
+      date: '2025-09-03',
+      description: 'GREENGROCER',
+      amount: 40,
+      categoryId: categories.Groceries,
+    });
+  });
+
+  async function split(parts: Array<{ categoryId: number | null; amount: number; note?: string }>) {
+    return agent
+      .put(`/api/transactions/${supermarket}/splits`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, splits: parts });
+  }
+
+  const parts = () => [
+    { categoryId: categories.Groceries, amount: 60 },
+    { categoryId: categories.Shopping, amount: 25, note: 'Detergent' },
+    { categoryId: categories.Health, amount: 15, note: 'Pharmacy' },
+  ];
+
+  it('counts the parts of a split transaction in the dashboard and yearly report', async () => {
+    const res = await split(parts());
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(3);
+
+    const dashboard = await agent
+      .get('/api/dashboard')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, year: 2025 });
+    expect(dashboard.body.data.summary).toMatchObject({ totalExpenses: 140, transactionCount: 2 });
+    expect(
+      dashboard.body.data.categoryBreakdown.map((c: any) => [c.categoryName, c.total, c.count])
+    ).toEqual([
+      ['Groceries', 100, 2],
+      ['Shopping', 25, 1],
+      ['Health', 15, 1],
+    ]);
+
+    const report = await agent
+      .get('/api/reports/yearly')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, year: 2025 });
+    expect(report.body.data.totalExpenses).toBe(140);
+    expect(report.body.data.transactionCount).toBe(2);
+    expect(report.body.data.categoryBreakdown.map((c: any) => [c.categoryName, c.total])).toEqual([
+      ['Groceries', 100],
+      ['Shopping', 25],
+      ['Health', 15],
+    ]);
+  });
+
+  it('lists a split transaction with its parts under the categories of its parts', async () => {
+    await split(parts());
+
+    const res = await agent
+      .get('/api/transactions')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, categoryId: categories.Health });
+
+    expect(res.body.data.total).toBe(1);
+    expect(res.body.data.items[0].description).toBe('SUPERMARKET');
+    expect(res.body.data.items[0].splits).toEqual([
+      expect.objectContaining({ categoryId: categories.Groceries, amount: 60, note: null }),
+      expect.objectContaining({ categoryId: categories.Shopping, amount: 25, note: 'Detergent' }),
+      expect.objectContaining({ categoryId: categories.Health, amount: 15, note: 'Pharmacy' }),
+    ]);
+  });
+
+  it('lists a split transaction among the recent ones of each of its parts categories', async () => {
+    await split(parts());
+
+    async function recent(categoryId: number) {
+      const res = await agent
+        .get('/api/dashboard')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2025, categoryId });
+      return res.body.data.recentTransactions.map((t: any) => t.description);
+    }
+
+    expect(await recent(categories.Health)).toEqual(['SUPERMARKET']);
+    expect(await recent(categories.Groceries)).toEqual(['GREENGROCER', 'SUPERMARKET']);
+  });
+
+  it('exports a split transaction as one row per part', async () => {
+    await split(parts());
+
+    const exportCsv = async (query: Record<string, unknown> = {}) => {
+      const res = await agent
+        .get('/api/transactions/export')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, ...query });
+      return res.text.replace('\uFEFF', '').trim().split('\r\n').slice(1);
+    };
+
+    expect(await exportCsv()).toEqual([
+      '2025-09-03,,GREENGROCER,Expense,-40.00,EUR,-40.00,Groceries,,',
+      '2025-09-01,,SUPERMARKET,Expense,-60.00,EUR,-60.00,Groceries,,',
+      '2025-09-01,,SUPERMARKET,Expense,-25.00,EUR,-25.00,Shopping,,',
+      '2025-09-01,,SUPERMARKET,Expense,-15.00,EUR,-15.00,Health,,',
+    ]);
+    expect(await exportCsv({ categoryId: categories.Health })).toEqual([
+      '2025-09-01,,SUPERMARKET,Expense,-15.00,EUR,-15.00,Health,,',
+    ]);
+  });
+
+  it('rejects parts that do not add up to the transaction amount', async () => {
+    const res = await split([
+      { categoryId: categories.Groceries, amount: 60 },
+      { categoryId: categories.Shopping, amount: 30 },
+    ]);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('counts the transaction as a whole again once the split is removed', async () => {
+    await split(parts());
+
+    const removed = await agent
+      .delete(`/api/transactions/${supermarket}/splits`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(removed.status).toBe(200);
+
+    const dashboard = await agent
+      .get('/api/dashboard')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, year: 2025 });
+    expect(
+      dashboard.body.data.categoryBreakdown.map((c: any) => [c.categoryName, c.total])
+    ).toEqual([['Groceries', 140]]);
+  });
+
+  it('keeps splits through a backup export and import', async () => {
+    await split(parts());
+
+    const exportRes = await agent
+      .get('/api/backup/export')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    const backup = JSON.parse(exportRes.text);
+
+    const newWsRes = await agent
+      .post('/api/workspaces')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ name: 'Split Import Target' });
+    const newWorkspaceId = newWsRes.body.data.id;
+
+    const importRes = await agent
+      .post('/api/backup/import')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: newWorkspaceId })
+      .attach('file', Buffer.from(JSON.stringify(backup)), {
+        filename: 'backup.json',
+        contentType: 'application/json',
+      });
+    expect(importRes.status).toBe(200);
+
+    const report = await agent
+      .get('/api/reports/yearly')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: newWorkspaceId, year: 2025 });
+    expect(report.body.data.categoryBreakdown.map((c: any) => [c.categoryName, c.total])).toEqual([
+      ['Groceries', 100],
+      ['Shopping', 25],
+      ['Health', 15],
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setupTestApp,
+  cleanupTestApp,
+  createTestUser,
+  createTestLedger,
+  createTestTransaction,
+  type TestUser,
+} from './integration-helpers.js';
+import { getDatabase } from '../db/database.js';
+import type supertest from 'supertest';
+
+let agent: supertest.Agent;
+
+beforeEach(() => {
+  agent = setupTestApp();
+});
+
+afterEach(() => {
+  cleanupTestApp();
+});
+
+describe('Tags Integration', () => {
+  let user: TestUser;
+  let hotel: number;
+  let dinner: number;
+  let salary: number;
+  let diningId: number;
+
+  beforeEach(() => {
+    user = createTestUser('taguser', 'password123', 'tag@test.com');
+
+    const category = getDatabase()
+      .prepare("SELECT id FROM categories WHERE workspace_id = ? AND name = 'Dining'")
+      .get(user.workspaceId) as { id: number };
+    diningId = category.id;
+
+    const ledgerId = createTestLedger(user.workspaceId);
+    hotel = createTestTransaction(ledgerId, {
+      date: '2025-08-01',
+      description: 'HOTEL',
+      amount: 300,
+    });
+    dinner = createTestTransaction(ledgerId, {
+      date: '2025-08-02',
+      description: 'RESTAURANT',
+      amount: 60,
+      categoryId: diningId,
+    });
+    salary = createTestTransaction(ledgerId, {
+      date: '2025-08-25',
+      description: 'SALARY',
+      amount: 2000,
+      isIncome: true,
+    });
+  });
+
+  async function createTag(name: string) {
+    const res = await agent
+      .post('/api/tags')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, name });
+    return res.body.data.id as number;
+  }
+
+  async function tag(tagId: number, transactionIds: number[], action: 'add' | 'remove' = 'add') {
+    return agent
+      .post(`/api/tags/${tagId}/${action}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, transactionIds });
+  }
+
+  it('adds and removes tags in bulk and filters transactions by tag', async () => {
+    const vacation = await createTag('vacation-2025');
+
+    const added = await tag(vacation, [hotel, dinner, salary]);
+    expect(added.body.data).toEqual({ added: 3 });
+    const removed = await tag(vacation, [salary], 'remove');
+    expect(removed.body.data).toEqual({ removed: 1 });
+
+    const list = await agent
+      .get('/api/transactions')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, tag: 'Vacation-2025' });
+    expect(list.body.data.total).toBe(2);
+    expect(list.body.data.items[0].tags).toEqual([
+      { id: vacation, name: 'vacation-2025', color: null },
+    ]);
+
+    const tags = await agent
+      .get('/api/tags')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(tags.body.data).toEqual([
+      expect.objectContaining({ name: 'vacation-2025', transactionCount: 2 }),
+    ]);
+  });
+
+  it('rejects a tag name already used in the workspace, ignoring case', async () => {
+    await createTag('kids');
+
+    const res = await agent
+      .post('/api/tags')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId, name: 'Kids' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('does not tag transactions of another workspace', async () => {
+    const other = createTestUser('othertaguser', 'password123', 'othertag@test.com');
+    const otherTransaction = createTestTransaction(createTestLedger(other.workspaceId));
+    const kids = await createTag('kids');
+
+    const res = await tag(kids, [otherTransaction]);
+
+    expect(res.body.data).toEqual({ added: 0 });
+  });
+
+  it('exports the tags of each transaction and filters the export by tag', async () => {
+    const vacation = await createTag('vacation-2025');
+    const kids = await createTag('kids');
+    await tag(vacation, [hotel, dinner]);
+    await tag(kids, [dinner]);
+
+    const res = await agent
+      .get('/api/transactions/export')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, tag: 'kids' });
+
+    const lines = res.text.replace('\uFEFF', '').trim().split('\r\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toMatch(/^2025-08-02,.*,kids; vacation-2025$/);
+  });
+
+  it('reports spending per tag broken down by category', async () => {
+    const vacation = await createTag('vacation-2025');
+    await tag(vacation, [hotel, dinner, salary]);
+
+    const res = await agent
+      .get('/api/reports/tags')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, year: 2025 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual([
+      {
+        tagId: vacation,
+        tagName: 'vacation-2025',
+        tagColor: null,
+        total: 360,
+        count: 2,
+        categories: [
+          expect.objectContaining({ categoryId: null, total: 300, percentage: (300 / 360) * 100 }),
+          expect.objectContaining({ categoryId: diningId, categoryName: 'Dining', total: 60 }),
+        ],
+      },
+    ]);
+  });
+
+  it('counts a split transaction once per tag', async () => {
+    const vacation = await createTag('vacation-2025');
+    await tag(vacation, [hotel]);
+    await agent
+      .put(`/api/transactions/${hotel}/splits`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        splits: [
+          { categoryId: diningId, amount: 80 },
+          { categoryId: null, amount: 220 },
+        ],
+      })
+      .expect(200);
+
+    const res = await agent
+      .get('/api/reports/tags')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, year: 2025 });
+
+    expect(res.body.data).toEqual([
+      expect.objectContaining({
+        total: 300,
+        count: 1,
+        categories: [
+          expect.objectContaining({ categoryId: null, total: 220, count: 1 }),
+          expect.objectContaining({ categoryId: diningId, total: 80, count: 1 }),
+        ],
+      }),
+    ]);
+  });
+
+  it('keeps tags through a backup export and import', async () => {
+    const vacation = await createTag('vacation-2025');
+    await tag(vacation, [hotel]);
+
+    const exportRes = await agent
+      .get('/api/backup/export')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    const backup = JSON.parse(exportRes.text);
+
+    const newWsRes = await agent
+      .post('/api/workspaces')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ name: 'Tag Import Target' });
+    const newWorkspaceId = newWsRes.body.data.id;
+
+    const importRes = await agent
+      .post('/api/backup/import')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: newWorkspaceId })
+      .attach('file', Buffer.from(JSON.stringify(backup)), {
+        filename: 'backup.json',
+        contentType: 'application/json',
+      });
+    expect(importRes.body.data.tagsImported).toBe(1);
+
+    const list = await agent
+      .get('/api/transactions')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: newWorkspaceId, tag: 'vacation-2025' });
+    expect(list.body.data.items).toEqual([
+      expect.objectContaining({
+        description: 'HOTEL',
+        tags: [expect.objectContaining({ name: 'vacation-2025' })],
+      }),
+    ]);
+  });
+});
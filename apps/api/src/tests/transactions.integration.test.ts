@@ -174,6 +174,172 @@ describe('Transactions Integration', () => {
     });
   });
 
+  describe('Merchants', () => {
+    it('links confirmed transactions to one merchant per store and reports top merchants', async () => {
+      const confirm = await agent
+        .post('/api/transactions/confirm')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({
+          ledgerId: createTestLedger(user.workspaceId, { status: 'draft' }),
+          transactions: [
+            { date: '2024-06-01', description: 'Compra Mb Cartão 1234 Pingo Doce Lisboa', amount: 30, isIncome: false },
+            { date: '2024-06-08', description: 'Compra Mb Cartão 1234 Pingo Doce Almada', amount: 20, isIncome: false },
+            { date: '2024-06-09', description: 'Compra Mb Cartão 1234 Galp Porto', amount: 50, isIncome: false },
+          ],
+        });
+      expect(confirm.status).toBe(200);
+
+      const merchants = await agent
+        .get('/api/merchants')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId });
+
+      expect(merchants.body.data.items.map((m: { name: string }) => m.name)).toEqual([
+        'Pingo Doce',
+        'Galp',
+      ]);
+      const [pingoDoce, galp] = merchants.body.data.items;
+      expect(pingoDoce.transactionCount).toBe(2);
+
+      const merged = await agent
+        .post(`/api/merchants/${pingoDoce.id}/merge`)
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ workspaceId: user.workspaceId, sourceIds: [galp.id] });
+
+      expect(merged.status).toBe(200);
+      expect(merged.body.data.aliases).toEqual(['GALP', 'PINGO DOCE']);
+
+      const top = await agent
+        .get('/api/reports/top-merchants')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2024 });
+
+      expect(top.body.data).toEqual([
+        { merchantId: pingoDoce.id, merchantName: 'Pingo Doce', total: 100, count: 3, percentage: 100 },
+      ]);
+    });
+  });
+
+  describe('Value date', () => {
+    it('places a card purchase in the month it was made when filtering by value date', async () => {
+      const confirm = await agent
+        .post('/api/transactions/confirm')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({
+          ledgerId: createTestLedger(user.workspaceId, { status: 'draft' }),
+          transactions: [
+            { date: '2024-02-01', valueDate: '2024-01-30', description: 'Compra Mb Cartão 1234 Galp Porto', amount: 50, isIncome: false },
+            { date: '2024-01-15', description: 'Manutencao Conta', amount: 5, isIncome: false },
+          ],
+        });
+      expect(confirm.status).toBe(200);
+
+      const byBooking = await agent
+        .get('/api/transactions')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2024, month: 1 });
+      expect(byBooking.body.data.items.map((t: { description: string }) => t.description)).toEqual([
+        'Manutencao Conta',
+      ]);
+
+      const byValue = await agent
+        .get('/api/transactions')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2024, month: 1, dateBasis: 'value' });
+      expect(byValue.body.data.items).toHaveLength(2);
+      expect(byValue.body.data.items[0]).toMatchObject({ date: '2024-02-01', valueDate: '2024-01-30' });
+      expect(byValue.body.data.items[1].valueDate).toBeNull();
+
+      const dashboard = await agent
+        .get('/api/dashboard')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2024, month: 1, dateBasis: 'value' });
+      expect(dashboard.body.data.summary.totalExpenses).toBe(55);
+    });
+  });
+
+  describe('Manual transactions', () => {
+    it('records cash spending in a cash wallet and counts it in the dashboard', async () => {
+      const wallet = await agent
+        .post('/api/accounts')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ workspaceId: user.workspaceId, name: 'Wallet', type: 'cash', openingBalance: 100 });
+      expect(wallet.status).toBe(201);
+
+      const created = await agent
+        .post('/api/transactions/manual')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({
+          workspaceId: user.workspaceId,
+          accountId: wallet.body.data.id,
+          date: '2024-03-10',
+          description: 'Farmers market',
+          amount: 25,
+          isIncome: false,
+        });
+      expect(created.status).toBe(201);
+      expect(created.body.data).toMatchObject({
+        description: 'Farmers market',
+        amount: 25,
+        bankId: 'manual',
+        accountId: wallet.body.data.id,
+      });
+
+      const updated = await agent
+        .put(`/api/transactions/manual/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({
+          workspaceId: user.workspaceId,
+          accountId: wallet.body.data.id,
+          date: '2024-03-10',
+          description: 'Farmers market',
+          amount: 30,
+          isIncome: false,
+        });
+      expect(updated.status).toBe(200);
+      expect(updated.body.data.amount).toBe(30);
+
+      const dashboard = await agent
+        .get('/api/dashboard')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, year: 2024, month: 3 });
+      expect(dashboard.body.data.summary.totalExpenses).toBe(30);
+
+      const accounts = await agent
+        .get('/api/accounts')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId });
+      expect(accounts.body.data[0]).toMatchObject({ currentBalance: 70, ledgerCount: 0 });
+
+      // The manual ledger is not an uploaded statement
+      const ledgers = await agent
+        .get('/api/upload/ledgers')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId });
+      expect(ledgers.body.data.items.map((l: { bankId: string }) => l.bankId)).not.toContain(
+        'manual'
+      );
+    });
+
+    it('refuses to edit a transaction imported from a statement', async () => {
+      const txId = createTestTransaction(ledgerId, { description: 'Imported', amount: 10 });
+
+      const res = await agent
+        .put(`/api/transactions/manual/${txId}`)
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({
+          workspaceId: user.workspaceId,
+          date: '2024-03-10',
+          description: 'Changed',
+          amount: 20,
+          isIncome: false,
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Only manually entered transactions can be edited');
+    });
+  });
+
   describe('Cross-workspace isolation', () => {
     it('cannot access another workspace transactions', async () => {
       const userB = createTestUser('txuserb', 'password123', 'txuserb@test.com');
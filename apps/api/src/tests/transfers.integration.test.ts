@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setupTestApp,
+  cleanupTestApp,
+  createTestUser,
+  createTestLedger,
+  createTestTransaction,
+  type TestUser,
+} from './integration-helpers.js';
+import type supertest from 'supertest';
+
+let agent: supertest.Agent;
+
+beforeEach(() => {
+  agent = setupTestApp();
+});
+
+afterEach(() => {
+  cleanupTestApp();
+});
+
+describe('Transfers Integration', () => {
+  let user: TestUser;
+
+  beforeEach(() => {
+    user = createTestUser('transferuser', 'password123', 'transfer@test.com');
+
+    const checking = createTestLedger(user.workspaceId, { bankId: 'novo_banco' });
+    const savings = createTestLedger(user.workspaceId, { bankId: 'cgd' });
+    createTestTransaction(checking, { date: '2024-03-01', amount: 2000, isIncome: true });
+    createTestTransaction(checking, { date: '2024-03-05', amount: 500 });
+    createTestTransaction(checking, { date: '2024-03-10', amount: 120 });
+    createTestTransaction(savings, { date: '2024-03-06', amount: 500, isIncome: true });
+  });
+
+  async function getSummary(query: Record<string, unknown> = {}) {
+    const res = await agent
+      .get('/api/dashboard')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, year: 2024, ...query });
+    return res.body.data.summary;
+  }
+
+  async function detect() {
+    return agent
+      .post('/api/transfers/detect')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId });
+  }
+
+  it('leaves detected transfers out of income and expenses until unlinked', async () => {
+    expect(await getSummary()).toEqual(
+      expect.objectContaining({ totalIncome: 2500, totalExpenses: 620 })
+    );
+
+    const detected = await detect();
+    expect(detected.body.data).toEqual({ detected: 1 });
+
+    const list = await agent
+      .get('/api/transfers')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(list.body.data).toEqual([
+      expect.objectContaining({
+        status: 'suggested',
+        amount: 500,
+        outgoing: expect.objectContaining({ date: '2024-03-05', bankId: 'novo_banco' }),
+        incoming: expect.objectContaining({ date: '2024-03-06', bankId: 'cgd' }),
+      }),
+    ]);
+
+    expect(await getSummary()).toEqual(
+      expect.objectContaining({ totalIncome: 2000, totalExpenses: 120 })
+    );
+    expect(await getSummary({ includeTransfers: 'true' })).toEqual(
+      expect.objectContaining({ totalIncome: 2500, totalExpenses: 620 })
+    );
+
+    const yearly = await agent
+      .get('/api/reports/yearly')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId, year: 2024 });
+    expect(yearly.body.data.savingsRate).toBe(94);
+
+    const transferId = list.body.data[0].id;
+    const confirmed = await agent
+      .post(`/api/transfers/${transferId}/confirm`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId });
+    expect(confirmed.body.data.status).toBe('confirmed');
+
+    const unlinked = await agent
+      .delete(`/api/transfers/${transferId}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(unlinked.status).toBe(200);
+
+    expect(await getSummary()).toEqual(
+      expect.objectContaining({ totalIncome: 2500, totalExpenses: 620 })
+    );
+
+    // An unlinked pair is not suggested again
+    const redetected = await detect();
+    expect(redetected.body.data).toEqual({ detected: 0 });
+  });
+
+  it('pairs a manual transaction as soon as it is entered', async () => {
+    const created = await agent
+      .post('/api/transactions/manual')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        date: '2024-03-11',
+        description: 'Levantamento para carteira',
+        amount: 120,
+        isIncome: true,
+      });
+    expect(created.status).toBe(201);
+
+    const list = await agent
+      .get('/api/transfers')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(list.body.data).toHaveLength(2);
+  });
+
+  it('unpairs a manual transaction once its amount no longer matches', async () => {
+    const created = await agent
+      .post('/api/transactions/manual')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        date: '2024-03-11',
+        description: 'Levantamento para carteira',
+        amount: 120,
+        isIncome: true,
+      });
+
+    const edited = await agent
+      .put(`/api/transactions/manual/${created.body.data.id}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({
+        workspaceId: user.workspaceId,
+        date: '2024-03-11',
+        description: 'Levantamento para carteira',
+        amount: 100,
+        isIncome: true,
+      });
+    expect(edited.status).toBe(200);
+
+    const list = await agent
+      .get('/api/transfers')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(list.body.data).toEqual([expect.objectContaining({ amount: 500 })]);
+    expect(await getSummary()).toEqual(
+      expect.objectContaining({ totalIncome: 2100, totalExpenses: 120 })
+    );
+  });
+
+  it('does not pair transactions in different currencies', async () => {
+    const pounds = createTestLedger(user.workspaceId, { bankId: 'revolut', currency: 'GBP' });
+    createTestTransaction(pounds, { date: '2024-03-11', amount: 120, isIncome: true });
+
+    const detected = await detect();
+    expect(detected.body.data).toEqual({ detected: 1 });
+
+    const list = await agent
+      .get('/api/transfers')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    expect(list.body.data).toEqual([expect.objectContaining({ amount: 500, currency: 'EUR' })]);
+  });
+
+  it('keeps transfers and their status through a backup export and import', async () => {
+    const checking = createTestLedger(user.workspaceId, { bankId: 'novo_banco' });
+    const savings = createTestLedger(user.workspaceId, { bankId: 'cgd' });
+    createTestTransaction(checking, { date: '2024-04-02', amount: 300 });
+    createTestTransaction(savings, { date: '2024-04-02', amount: 300, isIncome: true });
+    expect((await detect()).body.data).toEqual({ detected: 2 });
+
+    const list = await agent
+      .get('/api/transfers')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    const [toUnlink, toConfirm] = list.body.data;
+    await agent
+      .post(`/api/transfers/${toConfirm.id}/confirm`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ workspaceId: user.workspaceId })
+      .expect(200);
+    await agent
+      .delete(`/api/transfers/${toUnlink.id}`)
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId })
+      .expect(200);
+
+    const exportRes = await agent
+      .get('/api/backup/export')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+    const newWsRes = await agent
+      .post('/api/workspaces')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .send({ name: 'Transfers Import Target' });
+    const workspaceId = newWsRes.body.data.id;
+    const importRes = await agent
+      .post('/api/backup/import')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId })
+      .attach('file', Buffer.from(exportRes.text), {
+        filename: 'backup.json',
+        contentType: 'application/json',
+      });
+    expect(importRes.body.data.transfersImported).toBe(2);
+
+    const listStatus = async (status?: string) =>
+      (
+        await agent
+          .get('/api/transfers')
+          .set('Authorization', `Bearer ${user.sessionId}`)
+          .query({ workspaceId, status })
+      ).body.data;
+    expect(await listStatus()).toEqual([
+      expect.objectContaining({ status: 'confirmed', amount: 500 }),
+    ]);
+    expect(await listStatus('unlinked')).toEqual([
+      expect.objectContaining({ status: 'unlinked', amount: 300 }),
+    ]);
+
+    const summary = await agent
+      .get('/api/dashboard')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId, year: 2024 });
+    expect(summary.body.data.summary).toEqual(
+      expect.objectContaining({ totalIncome: 2300, totalExpenses: 420 })
+    );
+  });
+
+  it('does not let members of other workspaces unlink a transfer', async () => {
+    await detect();
+    const other = createTestUser('otheruser', 'password123', 'other@test.com');
+    const list = await agent
+      .get('/api/transfers')
+      .set('Authorization', `Bearer ${user.sessionId}`)
+      .query({ workspaceId: user.workspaceId });
+
+    const res = await agent
+      .delete(`/api/transfers/${list.body.data[0].id}`)
+      .set('Authorization', `Bearer ${other.sessionId}`)
+      .query({ workspaceId: other.workspaceId });
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -29,7 +29,7 @@ describe('Upload Flow Integration', () => {
 
   describe('POST /api/transactions/confirm', () => {
     it('confirms upload and creates transactions with categories', async () => {
-      const ledgerId = createTestLedger(user.workspaceId, { bankId: 'novo_banco' });
+      const ledgerId = createTestLedger(user.workspaceId, { bankId: 'novo_banco', status: 'draft' });
 
       // Get a category to assign
       const catRes = await agent
@@ -77,6 +77,235 @@ describe('Upload Flow Integration', () => {
       expect(txs[0].description).toBe('Test transaction 1');
       expect(txs[1].description).toBe('Test transaction 2');
     });
+
+    it('refuses to confirm the same ledger twice', async () => {
+      const ledgerId = createTestLedger(user.workspaceId, { status: 'draft' });
+      const transactions = [
+        { date: '2024-01-15', description: 'Test transaction', amount: 100, isIncome: false },
+      ];
+
+      const first = await agent
+        .post('/api/transactions/confirm')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ ledgerId, transactions });
+      expect(first.status).toBe(200);
+
+      const second = await agent
+        .post('/api/transactions/confirm')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({ ledgerId, transactions });
+      expect(second.status).toBe(409);
+
+      const count = getDatabase()
+        .prepare('SELECT COUNT(*) as count FROM transactions WHERE ledger_id = ?')
+        .get(ledgerId) as { count: number };
+      expect(count.count).toBe(1);
+    });
+  });
+
+  describe('CSV profile import', () => {
+    it('confirms rows of a profile without a balance column', async () => {
+      const profile = await agent
+        .post('/api/csv-profiles')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({
+          workspaceId: user.workspaceId,
+          name: 'No Balance CSV',
+          delimiter: ';',
+          dateFormat: 'YYYY-MM-DD',
+          decimalFormat: 'european',
+          columns: { date: 0, description: [1], amount: 2 },
+        });
+      const csv = 'Date;Description;Amount\n2025-02-03;MERCADO;-12,50\n';
+
+      const uploaded = await agent
+        .post('/api/upload')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, bank: profile.body.data.bankId })
+        .attach('file', Buffer.from(csv), 'feb.csv');
+      expect(uploaded.status).toBe(200);
+      expect(uploaded.body.data.transactions).toEqual([
+        expect.objectContaining({ description: 'MERCADO', balance: null }),
+      ]);
+
+      // Sent back as the upload page does, balance included
+      const confirmed = await agent
+        .post('/api/transactions/confirm')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({
+          ledgerId: uploaded.body.data.ledgerId,
+          transactions: uploaded.body.data.transactions.map((tx: any) => ({
+            date: tx.date,
+            description: tx.description,
+            amount: tx.amount,
+            balance: tx.balance,
+            isIncome: tx.isIncome,
+            categoryId: null,
+          })),
+        });
+      expect(confirmed.status).toBe(200);
+
+      const rows = getDatabase()
+        .prepare('SELECT amount, balance FROM transactions WHERE ledger_id = ?')
+        .all(uploaded.body.data.ledgerId);
+      expect(rows).toEqual([{ amount: 12.5, balance: null }]);
+    });
+  });
+
+  describe('OFX import', () => {
+    function ofxFile(transactions: Array<[string, string, string]>): Buffer {
+      const entries = transactions
+        .map(
+          ([fitId, date, amount]) =>
+            `<STMTTRN><TRNTYPE>OTHER<DTPOSTED>${date}<TRNAMT>${amount}<FITID>${fitId}<NAME>TX ${fitId}</STMTTRN>`
+        )
+        .join('\n');
+      return Buffer.from(
+        `OFXHEADER:100\nDATA:OFXSGML\n\n<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><ACCTID>PT500001<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST><DTSTART>20250101<DTEND>20250131
+${entries}
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`
+      );
+    }
+
+    it('confirms statements with and without a ledger balance as the upload page sends them', async () => {
+      const uploadAndConfirm = async (file: Buffer, filename: string) => {
+        const uploaded = await agent
+          .post('/api/upload')
+          .set('Authorization', `Bearer ${user.sessionId}`)
+          .query({ workspaceId: user.workspaceId, bank: 'ofx' })
+          .attach('file', file, filename);
+        expect(uploaded.status).toBe(200);
+
+        await agent
+          .post('/api/transactions/confirm')
+          .set('Authorization', `Bearer ${user.sessionId}`)
+          .send({
+            ledgerId: uploaded.body.data.ledgerId,
+            transactions: uploaded.body.data.transactions.map((tx: any) => ({
+              date: tx.date,
+              description: tx.description,
+              amount: tx.amount,
+              balance: tx.balance,
+              isIncome: tx.isIncome,
+              categoryId: null,
+              externalId: tx.externalId,
+            })),
+          })
+          .expect(200);
+
+        return getDatabase()
+          .prepare('SELECT date, balance FROM transactions WHERE ledger_id = ? ORDER BY date')
+          .all(uploaded.body.data.ledgerId);
+      };
+
+      expect(await uploadAndConfirm(ofxFile([['1', '20250105', '-10.00']]), 'jan.ofx')).toEqual([
+        { date: '2025-01-05', balance: null },
+      ]);
+
+      const withBalance = Buffer.from(
+        ofxFile([['2', '20250205', '-10.00'], ['3', '20250210', '250.00']])
+          .toString()
+          .replace('</STMTRS>', '<LEDGERBAL><BALAMT>740.00<DTASOF>20250228</LEDGERBAL></STMTRS>')
+      );
+      expect(await uploadAndConfirm(withBalance, 'feb.ofx')).toEqual([
+        { date: '2025-02-05', balance: 490 },
+        { date: '2025-02-10', balance: 740 },
+      ]);
+    });
+
+    it('skips transactions already imported from an overlapping file', async () => {
+      const first = await agent
+        .post('/api/upload')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, bank: 'ofx' })
+        .attach('file', ofxFile([['1', '20250105', '-10.00'], ['2', '20250110', '250.00']]), 'jan.ofx');
+
+      expect(first.status).toBe(200);
+      expect(first.body.data.periodStart).toBe('2025-01-01');
+      expect(first.body.data.transactionCount).toBe(2);
+      expect(first.body.data.duplicatesSkipped).toBe(0);
+
+      await agent
+        .post('/api/transactions/confirm')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .send({
+          ledgerId: first.body.data.ledgerId,
+          transactions: first.body.data.transactions.map((tx: any) => ({
+            date: tx.date,
+            description: tx.description,
+            amount: tx.amount,
+            isIncome: tx.isIncome,
+            categoryId: null,
+            rawText: tx.rawText,
+            externalId: tx.externalId,
+          })),
+        })
+        .expect(200);
+
+      const second = await agent
+        .post('/api/upload')
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .query({ workspaceId: user.workspaceId, bank: 'ofx' })
+        .attach('file', ofxFile([['2', '20250110', '250.00'], ['3', '20250120', '-5.50']]), 'jan-late.ofx');
+
+      expect(second.status).toBe(200);
+      expect(second.body.data.duplicatesSkipped).toBe(1);
+      expect(second.body.data.transactions.map((tx: any) => tx.externalId)).toEqual(['PT500001:3']);
+    });
+
+    it('keeps the imported ledger until a re-upload of the same file is confirmed', async () => {
+      const file = ofxFile([['1', '20250105', '-10.00'], ['2', '20250110', '250.00']]);
+      const upload = () =>
+        agent
+          .post('/api/upload')
+          .set('Authorization', `Bearer ${user.sessionId}`)
+          .query({ workspaceId: user.workspaceId, bank: 'ofx' })
+          .attach('file', file, 'jan.ofx');
+      const confirm = (data: any) =>
+        agent
+          .post('/api/transactions/confirm')
+          .set('Authorization', `Bearer ${user.sessionId}`)
+          .send({
+            ledgerId: data.ledgerId,
+            transactions: data.transactions.map((tx: any) => ({
+              date: tx.date,
+              description: tx.description,
+              amount: tx.amount,
+              isIncome: tx.isIncome,
+              categoryId: null,
+              externalId: tx.externalId,
+            })),
+          })
+          .expect(200);
+      const db = getDatabase();
+      const countTransactions = () =>
+        (db.prepare('SELECT COUNT(*) as count FROM transactions').get() as { count: number }).count;
+
+      const first = await upload();
+      await confirm(first.body.data);
+
+      // Discarding the re-upload leaves the imported transactions alone
+      const discarded = await upload();
+      expect(discarded.body.data.transactionCount).toBe(2);
+      await agent
+        .delete(`/api/upload/ledgers/${discarded.body.data.ledgerId}`)
+        .set('Authorization', `Bearer ${user.sessionId}`)
+        .expect(200);
+      expect(countTransactions()).toBe(2);
+
+      const replacement = await upload();
+      await confirm(replacement.body.data);
+
+      const ledgers = db
+        .prepare('SELECT id, file_hash FROM ledgers WHERE workspace_id = ?')
+        .all(user.workspaceId) as Array<{ id: number; file_hash: string | null }>;
+      expect(ledgers).toEqual([
+        { id: replacement.body.data.ledgerId, file_hash: expect.any(String) },
+      ]);
+      expect(countTransactions()).toBe(2);
+    });
   });
 
   describe('Duplicate file hash', () => {
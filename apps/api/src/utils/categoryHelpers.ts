@@ -0,0 +1,52 @@
+/**
+ * Recursive CTE `category_rollup(id, rollup_id)` that maps every category at
+ * or below one level of the tree to the category it is reported under: each
+ * child of the given parent stands for itself and all of its descendants.
+ * Takes the parent's id as its only parameter, or 0 for the top level.
+ */
+export const CATEGORY_ROLLUP_CTE = `WITH RECURSIVE category_rollup(id, rollup_id) AS (
+  SELECT id, id FROM categories WHERE COALESCE(parent_id, 0) = ?
+  UNION ALL
+  SELECT sub.id, r.rollup_id FROM categories sub JOIN category_rollup r ON sub.parent_id = r.id
+)`;
+
+/**
+ * SQL expression for the category a transaction is reported under. Outside
+ * the rolled-up level (uncategorized, or a drilled-down parent's own
+ * transactions) it is the transaction's own category.
+ */
+export const ROLLUP_CATEGORY_ID = 'COALESCE(r.rollup_id, t.category_id)';
+
+/**
+ * Join on transaction alias `t` that adds the rollup alias `r` of
+ * CATEGORY_ROLLUP_CTE and the categories alias `c` of the category reported.
+ */
+export const CATEGORY_ROLLUP_JOIN = `LEFT JOIN category_rollup r ON r.id = t.category_id
+      LEFT JOIN categories c ON c.id = ${ROLLUP_CATEGORY_ID}`;
+
+/**
+ * SQL condition that keeps, when drilling down into a parent, only the
+ * transactions of the parent and its descendants. Takes the parent's id as
+ * its only parameter.
+ */
+export const IN_ROLLUP_PARENT_CONDITION = '(r.rollup_id IS NOT NULL OR t.category_id = ?)';
+
+/**
+ * SQL condition on transaction alias `t` that keeps the transactions of a
+ * category and of all its descendants. Takes the category's id as its only
+ * parameter.
+ */
+export const IN_CATEGORY_SUBTREE_CONDITION = `t.category_id IN (
+  WITH RECURSIVE subtree(id) AS (
+    SELECT ?
+    UNION ALL
+    SELECT sub.id FROM categories sub JOIN subtree s ON sub.parent_id = s.id
+  )
+  SELECT id FROM subtree
+)`;
+
+/**
+ * SQL expression, on categories alias `c`, that is 1 when the category has
+ * subcategories.
+ */
+export const HAS_CHILDREN = 'EXISTS (SELECT 1 FROM categories ch WHERE ch.parent_id = c.id)';
@@ -0,0 +1,40 @@
+import { DEFAULT_BASE_CURRENCY, EXCHANGE_RATE_REFERENCE_CURRENCY } from '@compasso/shared';
+
+/**
+ * SQL expression for the currency of a transaction, on ledger alias `l`: the
+ * currency of the ledger's account, else the ledger's statement currency.
+ * Ledgers imported before currencies were stored hold euro statements.
+ */
+export const TRANSACTION_CURRENCY = `COALESCE(
+  (SELECT currency FROM accounts WHERE id = l.account_id),
+  l.currency,
+  '${DEFAULT_BASE_CURRENCY}'
+)`;
+
+const BASE_CURRENCY = '(SELECT base_currency FROM workspaces WHERE id = l.workspace_id)';
+
+/**
+ * Units of a currency per 1 EUR on the transaction's date: the workspace's
+ * latest rate on or before it, else its earliest rate after it. NULL when the
+ * workspace has no rate for the currency.
+ */
+function rateFor(currency: string): string {
+  return `CASE WHEN ${currency} = '${EXCHANGE_RATE_REFERENCE_CURRENCY}' THEN 1 ELSE COALESCE(
+    (SELECT rate FROM exchange_rates
+      WHERE workspace_id = l.workspace_id AND currency = ${currency} AND date <= t.date
+      ORDER BY date DESC LIMIT 1),
+    (SELECT rate FROM exchange_rates
+      WHERE workspace_id = l.workspace_id AND currency = ${currency} AND date > t.date
+      ORDER BY date ASC LIMIT 1)
+  ) END`;
+}
+
+/**
+ * SQL expression for a transaction's amount in the workspace base currency, on
+ * transaction alias `t` and ledger alias `l`. Amounts are converted through EUR
+ * with the rates of the transaction's date and rounded to cents; without a rate
+ * for either currency, the original amount is kept.
+ */
+export const BASE_AMOUNT = `(CASE WHEN ${TRANSACTION_CURRENCY} = ${BASE_CURRENCY} THEN t.amount
+  ELSE COALESCE(ROUND(t.amount * ${rateFor(BASE_CURRENCY)} / ${rateFor(TRANSACTION_CURRENCY)}, 2), t.amount)
+END)`;
@@ -1,3 +1,26 @@
+import type { DateBasis } from '@compasso/shared';
+
+/**
+ * Today's date in ISO format (UTC).
+ */
+export function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Add months to an ISO date, keeping its day of the month or the month's last
+ * day when the month is shorter.
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
 /**
  * Compute an ISO date range for a full year.
  */
@@ -15,3 +38,11 @@ export function monthRange(year: number, month: number): { start: string; end: s
   const nm = String(nextMonth).padStart(2, '0');
   return { start: `${year}-${m}-01`, end: `${nextYear}-${nm}-01` };
 }
+
+/**
+ * SQL expression for the date of transaction alias `t` that places it in a
+ * period. Transactions without a stored value date fall back to the booking date.
+ */
+export function dateColumn(dateBasis: DateBasis = 'booking'): string {
+  return dateBasis === 'value' ? 'COALESCE(t.value_date, t.date)' : 't.date';
+}
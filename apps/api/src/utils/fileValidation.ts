@@ -0,0 +1,76 @@
+import { ErrorCode, type StatementFormat } from '@compasso/shared';
+import { AppError } from '../errors.js';
+
+const SNIFF_LENGTH = 8192;
+
+interface FormatCheck {
+  matches: (head: Buffer) => boolean;
+  message: string;
+}
+
+const FORMAT_CHECKS: Record<StatementFormat, FormatCheck> = {
+  // PDF magic bytes (%PDF)
+  pdf: {
+    matches: (head) => head.subarray(0, 4).toString('ascii') === '%PDF',
+    message: 'File is not a valid PDF',
+  },
+  // Text files never contain NUL bytes; this rejects PDFs, spreadsheets and images
+  csv: {
+    matches: (head) =>
+      head.length > 0 && !head.includes(0) && head.subarray(0, 4).toString('ascii') !== '%PDF',
+    message: 'File is not a valid CSV',
+  },
+  // OFX 1.x starts with an "OFXHEADER:" block, OFX 2.x is XML with an <OFX> root
+  ofx: {
+    matches: (head) => /OFXHEADER|<OFX>/i.test(head.toString('latin1')),
+    message: 'File is not a valid OFX/QFX statement',
+  },
+  // ISO 20022 documents carry the camt namespace and a statement or report root
+  camt: {
+    matches: (head) => /BkToCstmrStmt|BkToCstmrAcctRpt|camt\.05[23]/.test(head.toString('utf8')),
+    message: 'File is not a valid camt.053/052 statement',
+  },
+  // Every MT940 statement starts with a :20: reference and has a :60F:/:60M: opening balance
+  mt940: {
+    matches: (head) => /:20:[\s\S]*:60[FM]:/.test(head.toString('latin1')),
+    message: 'File is not a valid MT940 statement',
+  },
+};
+
+// CSV accepts any text, so it is only assumed when no structured format matches
+const DETECTION_ORDER: StatementFormat[] = ['pdf', 'ofx', 'camt', 'mt940', 'csv'];
+
+/**
+ * Validate uploaded file content against the expected statement format,
+ * regardless of the client-sent mimetype or extension.
+ */
+export function assertStatementFile(buffer: Buffer, format: StatementFormat): void {
+  const check = FORMAT_CHECKS[format];
+  if (!check.matches(buffer.subarray(0, SNIFF_LENGTH))) {
+    throw AppError.badRequest(check.message, ErrorCode.INVALID_FILE);
+  }
+}
+
+/**
+ * Identify the statement format from file content, or null for binary files
+ * that are none of the supported formats.
+ */
+export function detectStatementFormat(buffer: Buffer): StatementFormat | null {
+  const head = buffer.subarray(0, SNIFF_LENGTH);
+  return DETECTION_ORDER.find((format) => FORMAT_CHECKS[format].matches(head)) ?? null;
+}
+
+/**
+ * Validate an upload: against the selected bank's format, or, without a bank
+ * (format null), check that it is a recognizable statement file at all.
+ */
+export function assertStatementUpload(buffer: Buffer, format: StatementFormat | null): void {
+  if (format) {
+    assertStatementFile(buffer, format);
+  } else if (!detectStatementFormat(buffer)) {
+    throw AppError.badRequest(
+      'Unrecognized statement file. Upload a PDF, CSV, OFX/QFX, camt XML or MT940 file.',
+      ErrorCode.INVALID_FILE
+    );
+  }
+}
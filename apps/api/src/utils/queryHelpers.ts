@@ -20,3 +20,16 @@ export function optionalQueryInt(req: Request, name: string, defaultVal?: number
 export function optionalQueryString(req: Request, name: string): string | undefined {
   return req.query[name] as string | undefined;
 }
+
+export function optionalQueryEnum<T extends string>(
+  req: Request,
+  name: string,
+  values: readonly T[]
+): T | undefined {
+  const val = req.query[name];
+  if (!val) return undefined;
+  if (!values.includes(val as T)) {
+    throw AppError.badRequest(`${name} must be one of: ${values.join(', ')}`);
+  }
+  return val as T;
+}
@@ -0,0 +1,18 @@
+/**
+ * SQL source to use as transaction alias `t` in aggregations: every transaction
+ * that isn't split, plus one row per part of each split transaction with the
+ * part's category and amount and the transaction's other columns. Totals stay
+ * the same while category breakdowns count each part in its own category;
+ * count transactions with `COUNT(DISTINCT t.id)`.
+ */
+export const TRANSACTION_PARTS = `(
+  SELECT tx.id, tx.ledger_id, tx.date, tx.value_date, tx.is_income, tx.transaction_type,
+         tx.merchant_id, tx.category_id, tx.amount
+  FROM transactions tx
+  WHERE NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = tx.id)
+  UNION ALL
+  SELECT tx.id, tx.ledger_id, tx.date, tx.value_date, tx.is_income, tx.transaction_type,
+         tx.merchant_id, s.category_id, s.amount
+  FROM transaction_splits s
+  JOIN transactions tx ON tx.id = s.transaction_id
+)`;
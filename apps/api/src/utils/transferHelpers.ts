@@ -0,0 +1,10 @@
+/**
+ * SQL condition on transaction alias `t` that leaves out both sides of
+ * suggested and confirmed internal transfers, so moving money between the
+ * workspace's own accounts is neither income nor an expense.
+ */
+export const NOT_TRANSFER_CONDITION = `t.id NOT IN (
+  SELECT outgoing_transaction_id FROM transfers WHERE status != 'unlinked'
+  UNION ALL
+  SELECT incoming_transaction_id FROM transfers WHERE status != 'unlinked'
+)`;
@@ -18,6 +18,10 @@ const ForgotPassword = lazy(() => import('./pages/ForgotPassword'));
 const ResetPassword = lazy(() => import('./pages/ResetPassword'));
 const Reports = lazy(() => import('./pages/Reports'));
 const Recurring = lazy(() => import('./pages/Recurring'));
+const Merchants = lazy(() => import('./pages/Merchants'));
+const Accounts = lazy(() => import('./pages/Accounts'));
+const Transfers = lazy(() => import('./pages/Transfers'));
+const Loans = lazy(() => import('./pages/Loans'));
 const Profile = lazy(() => import('./pages/Profile'));
 const Invitations = lazy(() => import('./pages/Invitations'));
 
@@ -86,6 +90,10 @@ function App() {
                               <Route path="/categories" element={<RequireWorkspace><Categories /></RequireWorkspace>} />
                               <Route path="/reports" element={<RequireWorkspace><Reports /></RequireWorkspace>} />
                               <Route path="/recurring" element={<RequireWorkspace><Recurring /></RequireWorkspace>} />
+                              <Route path="/merchants" element={<RequireWorkspace><Merchants /></RequireWorkspace>} />
+                              <Route path="/accounts" element={<RequireWorkspace><Accounts /></RequireWorkspace>} />
+                              <Route path="/transfers" element={<RequireWorkspace><Transfers /></RequireWorkspace>} />
+                              <Route path="/loans" element={<RequireWorkspace><Loans /></RequireWorkspace>} />
                               <Route path="/workspaces" element={<WorkspaceSettings />} />
                               <Route path="/profile" element={<Profile />} />
                               <Route path="/invitations" element={<Invitations />} />
@@ -0,0 +1,80 @@
+import { useTranslation } from 'react-i18next';
+import { Files, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import type { UploadBatchJob, UploadJobStatus } from '@compasso/shared';
+
+interface BatchUploadProgressProps {
+  job: UploadBatchJob;
+  onDismiss: () => void;
+}
+
+const STATUS_VARIANTS: Record<
+  UploadJobStatus,
+  'secondary' | 'outline' | 'success' | 'destructive'
+> = {
+  queued: 'outline',
+  processing: 'secondary',
+  completed: 'success',
+  failed: 'destructive',
+};
+
+// Per-file progress of a background batch upload; parsed files appear as drafts
+export function BatchUploadProgress({ job, onDismiss }: BatchUploadProgressProps) {
+  const { t } = useTranslation();
+  const finished = job.status === 'completed';
+  const percent = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Files className="h-5 w-5" />
+            {t('upload.batch.title')}
+          </CardTitle>
+          {finished && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDismiss}
+              aria-label={t('upload.batch.dismiss')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {t(finished ? 'upload.batch.finished' : 'upload.batch.progress', {
+            processed: job.processed,
+            total: job.total,
+          })}
+        </p>
+        <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {job.files.map((file, index) => (
+            <li key={index} className="flex items-center justify-between gap-4 py-2">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{file.filename}</p>
+                {file.error && <p className="text-sm text-red-600">{file.error}</p>}
+                {file.status === 'completed' && (
+                  <p className="text-sm text-muted-foreground">
+                    {t('upload.batch.parsed', { count: file.transactionCount ?? 0 })}
+                  </p>
+                )}
+              </div>
+              <Badge variant={STATUS_VARIANTS[file.status]} className="shrink-0">
+                {t(`upload.batch.status.${file.status}`)}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
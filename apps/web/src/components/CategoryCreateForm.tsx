@@ -13,10 +13,12 @@ import {
 } from '@/services/api';
 import { ColorPicker } from '@/components/ui/ColorPicker';
 import { COLORS } from '@/lib/constants';
-import type { BankId } from '@compasso/shared';
+import { parentCandidates } from '@/lib/categoryTree';
+import type { BankId, Category } from '@compasso/shared';
 
 interface CategoryCreateFormProps {
   workspaceId: number;
+  categories: Category[];
   banks: Array<{ id: string; name: string }>;
   onCreated: () => void;
   onCancel: () => void;
@@ -25,6 +27,7 @@ interface CategoryCreateFormProps {
 
 export function CategoryCreateForm({
   workspaceId,
+  categories,
   banks,
   onCreated,
   onCancel,
@@ -33,6 +36,7 @@ export function CategoryCreateForm({
   const { t } = useTranslation();
   const [name, setName] = useState('');
   const [color, setColor] = useState(COLORS[0].value);
+  const [parentId, setParentId] = useState('');
   const [patterns, setPatterns] = useState<Array<{ bankId: BankId; pattern: string }>>([]);
   const [patternBank, setPatternBank] = useState<BankId>('novo_banco');
   const [patternText, setPatternText] = useState('');
@@ -77,6 +81,7 @@ export function CategoryCreateForm({
       const newCategory = await createCategory({
         name: name.trim(),
         color,
+        parentId: parentId ? Number(parentId) : null,
         workspaceId,
       });
 
@@ -113,6 +118,20 @@ export function CategoryCreateForm({
               onChange={(e) => setName(e.target.value)}
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('categories.parent')}</label>
+            <Select
+              value={parentId}
+              onChange={(e) => setParentId(e.target.value)}
+              options={[
+                { value: '', label: t('categories.noParent') },
+                ...parentCandidates(categories, null).map(({ category, depth }) => ({
+                  value: String(category.id),
+                  label: `${'\u2014 '.repeat(depth)}${category.name}`,
+                })),
+              ]}
+            />
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">{t('categories.color')}</label>
             <ColorPicker value={color} onChange={setColor} />
@@ -4,12 +4,16 @@ import { Trash2, ChevronDown, ChevronUp, Pencil, Check, X } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
 import { CategoryPatterns } from '@/components/CategoryPatterns';
 import { ColorPicker } from '@/components/ui/ColorPicker';
+import { parentCandidates } from '@/lib/categoryTree';
 import type { Category, CategoryWithPatterns } from '@compasso/shared';
 
 interface CategoryListItemProps {
   category: Category;
+  depth: number; // 0 for a top-level category
+  categories: Category[]; // All of the workspace's categories, to pick a parent from
   isExpanded: boolean;
   categoryDetails: CategoryWithPatterns | null;
   banks: Array<{ id: string; name: string }>;
@@ -18,11 +22,14 @@ interface CategoryListItemProps {
   onDelete: (id: number, name: string) => void;
   onUpdateColor: (categoryId: number, color: string) => void;
   onRename: (categoryId: number, newName: string) => Promise<boolean>;
+  onMove: (categoryId: number, parentId: number | null) => void;
   onPatternChanged: () => void;
 }
 
 export function CategoryListItem({
   category,
+  depth,
+  categories,
   isExpanded,
   categoryDetails,
   banks,
@@ -31,6 +38,7 @@ export function CategoryListItem({
   onDelete,
   onUpdateColor,
   onRename,
+  onMove,
   onPatternChanged,
 }: CategoryListItemProps) {
   const { t } = useTranslation();
@@ -74,7 +82,7 @@ export function CategoryListItem({
   };
 
   return (
-    <Card>
+    <Card style={depth ? { marginLeft: `${depth * 1.5}rem` } : undefined}>
       <div
         className="group flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50"
         onClick={onToggleExpand}
@@ -162,6 +170,23 @@ export function CategoryListItem({
             />
           </div>
 
+          {/* Parent category */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('categories.parent')}</label>
+            <Select
+              value={category.parentId ? String(category.parentId) : ''}
+              onChange={(e) => onMove(category.id, e.target.value ? Number(e.target.value) : null)}
+              options={[
+                { value: '', label: t('categories.noParent') },
+                ...parentCandidates(categories, category.id).map((entry) => ({
+                  value: String(entry.category.id),
+                  label: `${'\u2014 '.repeat(entry.depth)}${entry.category.name}`,
+                })),
+              ]}
+              className="w-64"
+            />
+          </div>
+
           {/* Patterns */}
           <CategoryPatterns
             categoryDetails={categoryDetails}
@@ -10,6 +10,7 @@ import { useToast } from '@/components/ui/Toast';
 import { createCategory, addCategoryPattern } from '@/services/api';
 import { ColorPicker } from '@/components/ui/ColorPicker';
 import { COLORS } from '@/lib/constants';
+import { flattenCategoryTree } from '@/lib/categoryTree';
 import { cn } from '@/lib/utils';
 import type { Category, BankId } from '@compasso/shared';
 
@@ -79,10 +80,14 @@ export function CategorySelect({
   const options = useMemo(
     () => [
       { value: '', label: t('categories.noCategory') },
-      ...categories
-        .filter((c) => c.name.toLowerCase() !== 'uncategorized')
-        .sort((a, b) => a.name.localeCompare(b.name))
-        .map((c) => ({ value: String(c.id), label: c.name, color: c.color ?? undefined })),
+      ...flattenCategoryTree(categories)
+        .filter(({ category }) => category.name.toLowerCase() !== 'uncategorized')
+        .map(({ category, depth }) => ({
+          value: String(category.id),
+          label: category.name,
+          color: category.color ?? undefined,
+          depth,
+        })),
     ],
     [categories, t]
   );
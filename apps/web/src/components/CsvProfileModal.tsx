@@ -0,0 +1,414 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { createCsvProfile, updateCsvProfile } from '@/services/api';
+import { previewCsvRows, detectCsvDelimiter } from '@/lib/csv';
+import {
+  CSV_DATE_FORMATS,
+  CSV_DELIMITERS,
+  type CsvProfile,
+  type CsvDateFormat,
+  type CsvDelimiter,
+  type CsvColumnMapping,
+} from '@compasso/shared';
+
+interface CsvProfileModalProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved: (profile: CsvProfile) => void;
+  workspaceId: number;
+  profile: CsvProfile | null;
+}
+
+type AmountMode = 'signed' | 'debitCredit';
+
+const DELIMITER_LABEL_KEYS: Record<CsvDelimiter, string> = {
+  ',': 'upload.csvProfile.delimiterComma',
+  ';': 'upload.csvProfile.delimiterSemicolon',
+  '\t': 'upload.csvProfile.delimiterTab',
+  '|': 'upload.csvProfile.delimiterPipe',
+};
+
+// Column count offered when no sample file has been loaded
+const DEFAULT_COLUMN_COUNT = 10;
+
+export function CsvProfileModal({
+  open,
+  onClose,
+  onSaved,
+  workspaceId,
+  profile,
+}: CsvProfileModalProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('DD/MM/YYYY');
+  const [decimalFormat, setDecimalFormat] = useState<'european' | 'standard'>('european');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [skipRows, setSkipRows] = useState(0);
+  const [currency, setCurrency] = useState('EUR');
+  const [amountMode, setAmountMode] = useState<AmountMode>('signed');
+  const [columns, setColumns] = useState<CsvColumnMapping>({ date: 0, description: [1], amount: 2 });
+  const [sampleText, setSampleText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(profile?.name ?? '');
+    setDelimiter(profile?.delimiter ?? ',');
+    setDateFormat(profile?.dateFormat ?? 'DD/MM/YYYY');
+    setDecimalFormat(profile?.decimalFormat ?? 'european');
+    setHasHeader(profile?.hasHeader ?? true);
+    setSkipRows(profile?.skipRows ?? 0);
+    setCurrency(profile?.currency ?? 'EUR');
+    setColumns(profile?.columns ?? { date: 0, description: [1], amount: 2 });
+    setAmountMode(profile && profile.columns.amount == null ? 'debitCredit' : 'signed');
+    setSampleText('');
+    setError(null);
+  }, [open, profile]);
+
+  const previewRows = useMemo(
+    () => (sampleText ? previewCsvRows(sampleText, delimiter, skipRows + 6) : []),
+    [sampleText, delimiter, skipRows]
+  );
+
+  const headerRow = hasHeader ? previewRows[skipRows] : undefined;
+  const dataRows = previewRows.slice(skipRows + (hasHeader ? 1 : 0));
+  const columnCount =
+    previewRows.length > 0
+      ? Math.max(...previewRows.map((row) => row.length))
+      : DEFAULT_COLUMN_COUNT;
+
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => {
+    const header = headerRow?.[index];
+    const label = t('upload.csvProfile.columnN', { n: index + 1 });
+    return { value: index, label: header ? `${label} · ${header}` : label };
+  });
+  const optionalColumnOptions = [
+    { value: '', label: t('upload.csvProfile.notMapped') },
+    ...columnOptions,
+  ];
+
+  const handleSampleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setSampleText(text);
+    if (!profile) {
+      setDelimiter(detectCsvDelimiter(text, CSV_DELIMITERS) as CsvDelimiter);
+    }
+  };
+
+  const setColumn = (field: keyof Omit<CsvColumnMapping, 'description'>, value: string) => {
+    setColumns((prev) => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  const setDescriptionColumn = (position: number, value: string) => {
+    setColumns((prev) => {
+      const description = [...prev.description];
+      if (value === '') {
+        description.splice(position, 1);
+      } else {
+        description[position] = Number(value);
+      }
+      return { ...prev, description };
+    });
+  };
+
+  const handleSave = async () => {
+    const mapping: CsvColumnMapping =
+      amountMode === 'signed'
+        ? { ...columns, debit: null, credit: null }
+        : { ...columns, amount: null };
+
+    if (
+      (amountMode === 'signed' && mapping.amount == null) ||
+      (amountMode === 'debitCredit' && (mapping.debit == null || mapping.credit == null))
+    ) {
+      setError(t('upload.csvProfile.amountRequired'));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const data = {
+      name: name.trim(),
+      delimiter,
+      dateFormat,
+      decimalFormat,
+      hasHeader,
+      skipRows,
+      currency: currency.trim().toUpperCase(),
+      columns: mapping,
+    };
+
+    try {
+      const saved = profile
+        ? await updateCsvProfile(profile.id, workspaceId, data)
+        : await createCsvProfile({ ...data, workspaceId });
+      onSaved(saved);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('upload.csvProfile.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={profile ? t('upload.csvProfile.editTitle') : t('upload.csvProfile.newTitle')}
+      className="max-w-2xl"
+    >
+      <div className="space-y-4 max-h-[75vh] overflow-y-auto">
+        {error && <div className="p-3 bg-red-50 text-red-800 rounded-lg text-sm">{error}</div>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.csvProfile.name')}
+            </label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('upload.csvProfile.namePlaceholder')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.csvProfile.sampleFile')}
+            </label>
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleSampleFile(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.csvProfile.delimiter')}
+            </label>
+            <Select
+              value={delimiter}
+              onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+              options={CSV_DELIMITERS.map((d) => ({ value: d, label: t(DELIMITER_LABEL_KEYS[d]) }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.csvProfile.dateFormat')}
+            </label>
+            <Select
+              value={dateFormat}
+              onChange={(e) => setDateFormat(e.target.value as CsvDateFormat)}
+              options={CSV_DATE_FORMATS.map((f) => ({ value: f, label: f }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.csvProfile.decimalFormat')}
+            </label>
+            <Select
+              value={decimalFormat}
+              onChange={(e) => setDecimalFormat(e.target.value as 'european' | 'standard')}
+              options={[
+                { value: 'european', label: t('upload.csvProfile.decimalEuropean') },
+                { value: 'standard', label: t('upload.csvProfile.decimalStandard') },
+              ]}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.csvProfile.skipRows')}
+            </label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={skipRows}
+              onChange={(e) => setSkipRows(Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.csvProfile.currency')}
+            </label>
+            <Input value={currency} maxLength={3} onChange={(e) => setCurrency(e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer self-end h-10">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => setHasHeader(e.target.checked)}
+              className="rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            <span className="text-sm text-gray-700">{t('upload.csvProfile.hasHeader')}</span>
+          </label>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <h3 className="text-sm font-semibold text-gray-900">
+            {t('upload.csvProfile.columnMapping')}
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('upload.csvProfile.dateColumn')}
+              </label>
+              <Select
+                value={columns.date}
+                onChange={(e) => setColumn('date', e.target.value)}
+                options={columnOptions}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('upload.csvProfile.valueDateColumn')}
+              </label>
+              <Select
+                value={columns.valueDate ?? ''}
+                onChange={(e) => setColumn('valueDate', e.target.value)}
+                options={optionalColumnOptions}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('upload.csvProfile.descriptionColumn')}
+              </label>
+              <Select
+                value={columns.description[0] ?? 0}
+                onChange={(e) => setDescriptionColumn(0, e.target.value)}
+                options={columnOptions}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('upload.csvProfile.extraDescriptionColumn')}
+              </label>
+              <Select
+                value={columns.description[1] ?? ''}
+                onChange={(e) => setDescriptionColumn(1, e.target.value)}
+                options={optionalColumnOptions}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-4">
+            {(['signed', 'debitCredit'] as const).map((mode) => (
+              <label key={mode} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="amountMode"
+                  checked={amountMode === mode}
+                  onChange={() => setAmountMode(mode)}
+                  className="border-gray-300 text-primary focus:ring-primary"
+                />
+                <span className="text-sm text-gray-700">
+                  {t(`upload.csvProfile.amountMode.${mode}`)}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {amountMode === 'signed' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('upload.csvProfile.amountColumn')}
+                </label>
+                <Select
+                  value={columns.amount ?? ''}
+                  onChange={(e) => setColumn('amount', e.target.value)}
+                  options={optionalColumnOptions}
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('upload.csvProfile.debitColumn')}
+                  </label>
+                  <Select
+                    value={columns.debit ?? ''}
+                    onChange={(e) => setColumn('debit', e.target.value)}
+                    options={optionalColumnOptions}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('upload.csvProfile.creditColumn')}
+                  </label>
+                  <Select
+                    value={columns.credit ?? ''}
+                    onChange={(e) => setColumn('credit', e.target.value)}
+                    options={optionalColumnOptions}
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('upload.csvProfile.balanceColumn')}
+              </label>
+              <Select
+                value={columns.balance ?? ''}
+                onChange={(e) => setColumn('balance', e.target.value)}
+                options={optionalColumnOptions}
+              />
+            </div>
+          </div>
+        </div>
+
+        {dataRows.length > 0 && (
+          <div className="border-t pt-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">
+              {t('upload.csvProfile.preview')}
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="text-xs border w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {columnOptions.map((option) => (
+                      <th key={option.value} className="px-2 py-1 text-left font-medium whitespace-nowrap">
+                        {option.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataRows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-t">
+                      {columnOptions.map((option) => (
+                        <td key={option.value} className="px-2 py-1 whitespace-nowrap">
+                          {row[option.value] ?? ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? t('common.saving') : t('common.save')}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,27 @@
+import { useTranslation } from 'react-i18next';
+import { Select } from '@/components/ui/Select';
+import type { DateBasis } from '@compasso/shared';
+
+interface DateBasisSelectProps {
+  value: DateBasis;
+  onChange: (dateBasis: DateBasis) => void;
+  className?: string;
+}
+
+// Chooses whether periods are filtered and grouped by booking date or value date
+export function DateBasisSelect({ value, onChange, className }: DateBasisSelectProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Select
+      value={value}
+      onChange={(e) => onChange(e.target.value as DateBasis)}
+      options={[
+        { value: 'booking', label: t('dateBasis.booking') },
+        { value: 'value', label: t('dateBasis.value') },
+      ]}
+      title={t('dateBasis.label')}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,69 @@
+import { useTranslation } from 'react-i18next';
+import { History, Play, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { formatDate } from '@/lib/utils';
+import type { DraftLedger } from '@compasso/shared';
+
+interface DraftLedgersProps {
+  drafts: DraftLedger[];
+  banks: Array<{ id: string; name: string }>;
+  resumingId: number | null;
+  onResume: (draft: DraftLedger) => void;
+  onDiscard: (draft: DraftLedger) => void;
+}
+
+// Uploads whose transactions were never confirmed, kept until they are resumed, discarded or purged
+export function DraftLedgers({
+  drafts,
+  banks,
+  resumingId,
+  onResume,
+  onDiscard,
+}: DraftLedgersProps) {
+  const { t } = useTranslation();
+
+  if (drafts.length === 0) return null;
+
+  const getBankName = (bankId: string) => banks.find((b) => b.id === bankId)?.name ?? bankId;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {t('upload.drafts.title')}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t('upload.drafts.description')}</p>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {drafts.map((draft) => (
+            <li key={draft.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{draft.filename}</p>
+                <p className="text-sm text-muted-foreground">
+                  {t('upload.drafts.summary', {
+                    bank: getBankName(draft.bankId),
+                    count: draft.transactionCount,
+                    date: formatDate(draft.uploadDate),
+                  })}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button size="sm" onClick={() => onResume(draft)} disabled={resumingId !== null}>
+                  <Play className="h-4 w-4 mr-1" />
+                  {resumingId === draft.id ? t('common.loading') : t('upload.drafts.resume')}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onDiscard(draft)}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  {t('upload.drafts.discard')}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,17 +1,61 @@
 import { useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useDropzone } from 'react-dropzone';
-import { Upload as UploadIcon } from 'lucide-react';
+import { Upload as UploadIcon, Plus, Pencil, Trash2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
 import { Select } from '@/components/ui/Select';
-import type { BankId } from '@compasso/shared';
+import type { BankId, StatementFormat } from '@compasso/shared';
+
+const ACCEPTED_FILES: Record<StatementFormat, Record<string, string[]>> = {
+  pdf: { 'application/pdf': ['.pdf'] },
+  csv: { 'text/csv': ['.csv'], 'application/vnd.ms-excel': ['.csv'], 'text/plain': ['.csv'] },
+  ofx: {
+    'application/x-ofx': ['.ofx', '.qfx'],
+    'application/vnd.intu.qfx': ['.qfx'],
+    'application/octet-stream': ['.ofx', '.qfx'],
+  },
+  camt: { 'application/xml': ['.xml'], 'text/xml': ['.xml'] },
+  mt940: {
+    'text/plain': ['.sta', '.mt940', '.940', '.txt'],
+    'application/octet-stream': ['.sta', '.mt940', '.940'],
+  },
+};
+
+// Without a bank any statement format can be dropped; the server detects the bank
+const ANY_STATEMENT_FILE: Record<string, string[]> = {};
+for (const accepted of Object.values(ACCEPTED_FILES)) {
+  for (const [mime, extensions] of Object.entries(accepted)) {
+    ANY_STATEMENT_FILE[mime] = [...new Set([...(ANY_STATEMENT_FILE[mime] ?? []), ...extensions])];
+  }
+}
+
+// Matches the server's batch upload limit
+const MAX_BATCH_FILES = 24;
+
+const DRAG_DROP_KEYS: Record<StatementFormat, string> = {
+  pdf: 'upload.dragDrop',
+  csv: 'upload.dragDropCsv',
+  ofx: 'upload.dragDropOfx',
+  camt: 'upload.dragDropCamt',
+  mt940: 'upload.dragDropMt940',
+};
 
 interface DropzoneUploaderProps {
-  banks: Array<{ id: string; name: string }>;
+  banks: Array<{ id: string; name: string; format?: StatementFormat }>;
   selectedBank: BankId;
   onBankChange: (bank: BankId) => void;
   uploading: boolean;
   onUpload: (file: File) => void;
+  onBatchUpload: (files: File[]) => void;
+  dryRun: boolean;
+  onDryRunChange: (dryRun: boolean) => void;
+  onNewCsvProfile?: () => void;
+  onEditCsvProfile?: () => void;
+  onDeleteCsvProfile?: () => void;
+  onNewStatementTemplate?: () => void;
+  onEditStatementTemplate?: () => void;
+  onDeleteStatementTemplate?: () => void;
 }
 
 export function DropzoneUploader({
@@ -20,52 +64,121 @@ export function DropzoneUploader({
   onBankChange,
   uploading,
   onUpload,
+  onBatchUpload,
+  dryRun,
+  onDryRunChange,
+  onNewCsvProfile,
+  onEditCsvProfile,
+  onDeleteCsvProfile,
+  onNewStatementTemplate,
+  onEditStatementTemplate,
+  onDeleteStatementTemplate,
 }: DropzoneUploaderProps) {
   const { t } = useTranslation();
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
       if (acceptedFiles.length === 0) return;
-      onUpload(acceptedFiles[0]);
+      // Several statements are parsed in the background and kept as drafts
+      if (acceptedFiles.length > 1) onBatchUpload(acceptedFiles);
+      else onUpload(acceptedFiles[0]);
     },
-    [onUpload]
+    [onUpload, onBatchUpload]
   );
 
-  const noBankSelected = !selectedBank;
+  const format = selectedBank
+    ? (banks.find((b) => b.id === selectedBank)?.format ?? 'pdf')
+    : null;
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf'],
-    },
-    maxFiles: 1,
-    disabled: uploading || noBankSelected,
+    accept: format ? ACCEPTED_FILES[format] : ANY_STATEMENT_FILE,
+    maxFiles: MAX_BATCH_FILES,
+    disabled: uploading,
   });
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Select Bank & Upload PDF</CardTitle>
+        <CardTitle>Select Bank & Upload Statement</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">{t('upload.selectBank')}</label>
-          <Select
-            value={selectedBank}
-            onChange={(e) => onBankChange(e.target.value as BankId)}
-            options={banks.map((b) => ({ value: b.id, label: b.name }))}
-            placeholder={t('upload.selectBankPlaceholder')}
-            required
-            className="w-full max-w-xs"
-          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={selectedBank}
+              onChange={(e) => onBankChange(e.target.value as BankId)}
+              options={[
+                { value: '', label: t('upload.autoDetect') },
+                ...banks.map((b) => ({ value: b.id, label: b.name })),
+              ]}
+              className="w-full max-w-xs"
+            />
+            {format === 'csv' && onEditCsvProfile && (
+              <Button variant="outline" size="sm" onClick={onEditCsvProfile}>
+                <Pencil className="h-4 w-4 mr-1" />
+                {t('upload.editCsvProfile')}
+              </Button>
+            )}
+            {format === 'csv' && onDeleteCsvProfile && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onDeleteCsvProfile}
+                aria-label={t('upload.deleteCsvProfile')}
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            )}
+            {onEditStatementTemplate && (
+              <Button variant="outline" size="sm" onClick={onEditStatementTemplate}>
+                <Pencil className="h-4 w-4 mr-1" />
+                {t('upload.editStatementTemplate')}
+              </Button>
+            )}
+            {onDeleteStatementTemplate && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onDeleteStatementTemplate}
+                aria-label={t('upload.deleteStatementTemplate')}
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            )}
+            {onNewCsvProfile && (
+              <Button variant="ghost" size="sm" onClick={onNewCsvProfile}>
+                <Plus className="h-4 w-4 mr-1" />
+                {t('upload.newCsvProfile')}
+              </Button>
+            )}
+            {onNewStatementTemplate && (
+              <Button variant="ghost" size="sm" onClick={onNewStatementTemplate}>
+                <Plus className="h-4 w-4 mr-1" />
+                {t('upload.newStatementTemplate')}
+              </Button>
+            )}
+          </div>
         </div>
 
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={dryRun}
+            onChange={(e) => onDryRunChange(e.target.checked)}
+            className="rounded border-gray-300 text-primary focus:ring-primary"
+          />
+          <span className="text-sm text-gray-700">{t('upload.dryRun')}</span>
+          <span className="text-xs text-muted-foreground">{t('upload.dryRunHelp')}</span>
+        </label>
+
         <div
           {...getRootProps()}
           className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
             isDragActive
               ? 'border-primary bg-primary/5'
               : 'border-gray-300 hover:border-primary'
-          } ${uploading || noBankSelected ? 'opacity-50 cursor-not-allowed' : ''}`}
+          } ${uploading ? 'opacity-50 cursor-not-allowed' : ''}`}
         >
           <input {...getInputProps()} />
           <div className="flex flex-col items-center gap-2">
@@ -78,7 +191,10 @@ export function DropzoneUploader({
               <>
                 <UploadIcon className="h-10 w-10 text-muted-foreground" />
                 <p className="text-lg font-medium">
-                  {t('upload.dragDrop')}
+                  {t(format ? DRAG_DROP_KEYS[format] : 'upload.dragDropAny')}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {t('upload.batch.hint', { max: MAX_BATCH_FILES })}
                 </p>
               </>
             )}
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2, AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { getEuriborRates, setEuriborRate, deleteEuriborRate } from '@/services/api';
+import { formatDate } from '@/lib/utils';
+import { EURIBOR_TENORS } from '@compasso/shared';
+import type { EuriborRate, EuriborTenor } from '@compasso/shared';
+
+interface EuriborRatesProps {
+  workspaceId: number;
+  onChange: () => void; // Called after a value is set or deleted
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Euribor values entered by hand, used to revise variable-rate loans
+export function EuriborRates({ workspaceId, onChange }: EuriborRatesProps) {
+  const { t } = useTranslation();
+  const [rates, setRates] = useState<EuriborRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rate form
+  const [showForm, setShowForm] = useState(false);
+  const [tenor, setTenor] = useState<EuriborTenor>('12M');
+  const [date, setDate] = useState(today);
+  const [rate, setRate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setError(null);
+      setRates(await getEuriborRates(workspaceId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load Euribor rates');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadRates();
+  }, [loadRates]);
+
+  const handleSave = async () => {
+    const value = Number(rate);
+    if (!date || rate.trim() === '' || !Number.isFinite(value)) {
+      setError(t('loans.invalidEuribor'));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await setEuriborRate(workspaceId, { tenor, date, rate: value });
+      setRate('');
+      setShowForm(false);
+      await loadRates();
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save Euribor rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rateId: number) => {
+    try {
+      await deleteEuriborRate(rateId, workspaceId);
+      setRates((prev) => prev.filter((r) => r.id !== rateId));
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete Euribor rate');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 text-red-800 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">{t('loans.euriborHint')}</p>
+        {!showForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            {t('loans.addEuribor')}
+          </Button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+          <div className="flex gap-2">
+            <Select
+              value={tenor}
+              onChange={(e) => setTenor(e.target.value as EuriborTenor)}
+              options={EURIBOR_TENORS.map((value) => ({ value, label: value }))}
+              className="w-24"
+            />
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-40"
+            />
+            <Input
+              type="number"
+              step="0.001"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder={t('loans.euriborPlaceholder')}
+              className="flex-1"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowForm(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              {saving ? t('common.saving') : t('common.save')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {rates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('loans.noEuribor')}</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {rates.map((r) => (
+            <div key={r.id} className="flex items-center justify-between py-2 text-sm">
+              <div className="flex items-center gap-4">
+                <span className="w-24 text-muted-foreground">{formatDate(r.date)}</span>
+                <span className="w-12 font-medium">{r.tenor}</span>
+                <span>{r.rate}%</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(r.id)}
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                title={t('common.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2, Upload, AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useToast } from '@/components/ui/Toast';
+import {
+  getExchangeRates,
+  setExchangeRate,
+  deleteExchangeRate,
+  importEcbRates,
+} from '@/services/api';
+import { formatDate } from '@/lib/utils';
+import { EXCHANGE_RATE_REFERENCE_CURRENCY } from '@compasso/shared';
+import type { ExchangeRate, WorkspaceRole } from '@compasso/shared';
+
+interface ExchangeRatesProps {
+  workspaceId: number;
+  currentRole: WorkspaceRole | null;
+}
+
+const VISIBLE_RATES = 50;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export default function ExchangeRates({ workspaceId, currentRole }: ExchangeRatesProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currencyFilter, setCurrencyFilter] = useState('');
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Rate form
+  const [showForm, setShowForm] = useState(false);
+  const [currency, setCurrency] = useState('');
+  const [date, setDate] = useState(today);
+  const [rate, setRate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const canEdit = currentRole === 'owner' || currentRole === 'editor';
+
+  const loadRates = async () => {
+    try {
+      setError(null);
+      setRates(await getExchangeRates(workspaceId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load exchange rates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadRates();
+  }, [workspaceId]);
+
+  const currencies = useMemo(() => [...new Set(rates.map((r) => r.currency))].sort(), [rates]);
+
+  const filteredRates = useMemo(
+    () => (currencyFilter ? rates.filter((r) => r.currency === currencyFilter) : rates),
+    [rates, currencyFilter]
+  );
+
+  const handleSave = async () => {
+    const value = Number(rate);
+    if (!/^[A-Za-z]{3}$/.test(currency.trim())) {
+      setFormError(t('exchangeRates.invalidCurrency'));
+      return;
+    }
+    if (!date || !Number.isFinite(value) || value <= 0) {
+      setFormError(t('exchangeRates.invalidRate'));
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      await setExchangeRate(workspaceId, {
+        currency: currency.trim().toUpperCase(),
+        date,
+        rate: value,
+      });
+      setCurrency('');
+      setRate('');
+      setShowForm(false);
+      await loadRates();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save exchange rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rateId: number) => {
+    try {
+      await deleteExchangeRate(rateId, workspaceId);
+      setRates((prev) => prev.filter((r) => r.id !== rateId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete exchange rate');
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const result = await importEcbRates(workspaceId, file);
+      showToast(t('exchangeRates.imported', { count: result.imported }), 'success');
+      await loadRates();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('exchangeRates.importFailed'), 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".csv"
+        className="hidden"
+        onChange={handleImportFile}
+      />
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 text-red-800 rounded-lg text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">
+            {t('exchangeRates.title')} ({rates.length})
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            {t('exchangeRates.hint', { currency: EXCHANGE_RATE_REFERENCE_CURRENCY })}
+          </p>
+        </div>
+        {canEdit && !showForm && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importing}
+            >
+              {importing ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-1" />
+              )}
+              {t('exchangeRates.importEcb')}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setShowForm(true);
+                setFormError(null);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              {t('exchangeRates.addRate')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Rate form */}
+      {showForm && (
+        <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+          {formError && (
+            <div className="flex items-center gap-2 text-red-600 text-sm">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{formError}</span>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              placeholder={t('exchangeRates.currencyPlaceholder')}
+              maxLength={3}
+              className="w-24"
+            />
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-40"
+            />
+            <Input
+              type="number"
+              step="any"
+              min="0"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder={t('exchangeRates.ratePlaceholder')}
+              className="flex-1"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowForm(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              {saving ? t('common.saving') : t('common.save')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {rates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('exchangeRates.noRates')}</p>
+      ) : (
+        <div className="space-y-2">
+          {currencies.length > 1 && (
+            <Select
+              value={currencyFilter}
+              onChange={(e) => setCurrencyFilter(e.target.value)}
+              options={[
+                { value: '', label: t('exchangeRates.allCurrencies') },
+                ...currencies.map((c) => ({ value: c, label: c })),
+              ]}
+              className="w-40"
+            />
+          )}
+          <div className="divide-y divide-gray-100">
+            {filteredRates.slice(0, VISIBLE_RATES).map((r) => (
+              <div key={r.id} className="flex items-center justify-between py-2 text-sm">
+                <div className="flex items-center gap-4">
+                  <span className="w-24 text-muted-foreground">{formatDate(r.date)}</span>
+                  <span className="w-12 font-medium">{r.currency}</span>
+                  <span>
+                    1 {EXCHANGE_RATE_REFERENCE_CURRENCY} = {r.rate} {r.currency}
+                  </span>
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(r.id)}
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    title={t('common.delete')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          {filteredRates.length > VISIBLE_RATES && (
+            <p className="text-xs text-muted-foreground">
+              {t('exchangeRates.showingLatest', {
+                count: VISIBLE_RATES,
+                total: filteredRates.length,
+              })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
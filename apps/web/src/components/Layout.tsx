@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { Compass, LayoutDashboard, Upload, List, Tag, BarChart3, Repeat, LogIn, LogOut, User, ChevronDown, Mail, MoreHorizontal } from 'lucide-react';
+import { Compass, LayoutDashboard, Upload, List, Tag, BarChart3, Repeat, Store, Landmark, ArrowLeftRight, Banknote, LogIn, LogOut, User, ChevronDown, Mail, MoreHorizontal } from 'lucide-react';
 import WorkspaceSelector from './WorkspaceSelector';
 import { Button } from './ui/Button';
 import { DropdownMenu, DropdownMenuItem, DropdownMenuSeparator } from './ui/DropdownMenu';
@@ -32,6 +32,10 @@ export default function Layout({ children }: LayoutProps) {
     { path: '/categories', label: t('nav.categories'), icon: Tag },
     { path: '/reports', label: t('nav.reports'), icon: BarChart3 },
     { path: '/recurring', label: t('nav.recurring'), icon: Repeat },
+    { path: '/merchants', label: t('nav.merchants'), icon: Store },
+    { path: '/accounts', label: t('nav.accounts'), icon: Landmark },
+    { path: '/transfers', label: t('nav.transfers'), icon: ArrowLeftRight },
+    { path: '/loans', label: t('nav.loans'), icon: Banknote },
   ];
   const [invitationCount, setInvitationCount] = useState(0);
 
@@ -14,9 +14,9 @@ import {
 } from '@/components/ui/Table';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { useToast } from '@/components/ui/Toast';
-import { getLedgers, deleteLedger, type LedgerItem } from '@/services/api';
+import { getLedgers, deleteLedger, setLedgerAccount, type LedgerItem } from '@/services/api';
 import { formatDate } from '@/lib/utils';
-import type { PaginatedResponse } from '@compasso/shared';
+import type { Account, PaginatedResponse } from '@compasso/shared';
 
 interface Bank {
   id: string;
@@ -26,6 +26,7 @@ interface Bank {
 interface LedgersManagementProps {
   workspaceId: number;
   banks?: Bank[];
+  accounts?: Account[];
   onLedgerDeleted?: () => void;
 }
 
@@ -34,6 +35,7 @@ const PAGE_SIZE = 20;
 export function LedgersManagement({
   workspaceId,
   banks = [],
+  accounts = [],
   onLedgerDeleted,
 }: LedgersManagementProps) {
   const { t } = useTranslation();
@@ -93,6 +95,22 @@ export function LedgersManagement({
     }
   };
 
+  const handleAccountChange = async (ledger: LedgerItem, accountId: number | null) => {
+    try {
+      await setLedgerAccount(ledger.id, accountId);
+      setLedgersData((prev) =>
+        prev
+          ? {
+              ...prev,
+              items: prev.items.map((l) => (l.id === ledger.id ? { ...l, accountId } : l)),
+            }
+          : prev
+      );
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('upload.ledgerAccountFailed'), 'error');
+    }
+  };
+
   // Extract unique years from ledger periods
   const availableYears = useMemo(() => {
     const years = new Set<string>();
@@ -210,6 +228,7 @@ export function LedgersManagement({
                     <TableRow>
                       <TableHead>Filename</TableHead>
                       <TableHead>Bank</TableHead>
+                      {accounts.length > 0 && <TableHead>{t('upload.account.label')}</TableHead>}
                       <TableHead>Upload Date</TableHead>
                       <TableHead>Period</TableHead>
                       <TableHead className="text-right">Transactions</TableHead>
@@ -221,6 +240,25 @@ export function LedgersManagement({
                       <TableRow key={ledger.id}>
                         <TableCell className="font-medium">{ledger.filename}</TableCell>
                         <TableCell>{getBankName(ledger.bankId)}</TableCell>
+                        {accounts.length > 0 && (
+                          <TableCell>
+                            <Select
+                              className="h-8 min-w-[140px]"
+                              value={ledger.accountId ?? ''}
+                              onChange={(e) =>
+                                handleAccountChange(
+                                  ledger,
+                                  e.target.value ? parseInt(e.target.value) : null
+                                )
+                              }
+                              options={[
+                                { value: '', label: t('upload.account.none') },
+                                ...accounts.map((a) => ({ value: a.id, label: a.name })),
+                              ]}
+                              aria-label={t('upload.account.label')}
+                            />
+                          </TableCell>
+                        )}
                         <TableCell className="whitespace-nowrap">
                           {formatDate(ledger.uploadDate)}
                         </TableCell>
@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import { createLoan, updateLoan } from '@/services/api';
+import { EURIBOR_TENORS, LOAN_RATE_TYPES } from '@compasso/shared';
+import type { AccountSummary, EuriborTenor, Loan, LoanRateType } from '@compasso/shared';
+
+interface LoanModalProps {
+  open: boolean;
+  loan: Loan | null; // Null to create a new one
+  workspaceId: number;
+  baseCurrency: string;
+  accounts: AccountSummary[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface LoanForm {
+  name: string;
+  principal: string;
+  currency: string;
+  rateType: LoanRateType;
+  fixedRate: string;
+  euriborTenor: EuriborTenor;
+  spread: string;
+  termMonths: string;
+  startDate: string;
+  accountId: string;
+  descriptionPattern: string;
+}
+
+function emptyForm(currency: string): LoanForm {
+  return {
+    name: '',
+    principal: '',
+    currency,
+    rateType: 'fixed',
+    fixedRate: '',
+    euriborTenor: '12M',
+    spread: '',
+    termMonths: '',
+    startDate: new Date().toISOString().slice(0, 10),
+    accountId: '',
+    descriptionPattern: '',
+  };
+}
+
+export function LoanModal({
+  open,
+  loan,
+  workspaceId,
+  baseCurrency,
+  accounts,
+  onClose,
+  onSaved,
+}: LoanModalProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [form, setForm] = useState<LoanForm>(emptyForm(baseCurrency));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      loan
+        ? {
+            name: loan.name,
+            principal: String(loan.principal),
+            currency: loan.currency,
+            rateType: loan.rateType,
+            fixedRate: loan.fixedRate !== null ? String(loan.fixedRate) : '',
+            euriborTenor: loan.euriborTenor ?? '12M',
+            spread: loan.spread !== null ? String(loan.spread) : '',
+            termMonths: String(loan.termMonths),
+            startDate: loan.startDate,
+            accountId: loan.accountId !== null ? String(loan.accountId) : '',
+            descriptionPattern: loan.descriptionPattern ?? '',
+          }
+        : emptyForm(baseCurrency)
+    );
+  }, [open, loan, baseCurrency]);
+
+  const principal = parseFloat(form.principal);
+  const termMonths = parseInt(form.termMonths, 10);
+  const rate = parseFloat(form.rateType === 'fixed' ? form.fixedRate : form.spread);
+  const valid = Boolean(
+    form.name.trim() &&
+    principal > 0 &&
+    termMonths > 0 &&
+    Number.isFinite(rate) &&
+    form.startDate &&
+    /^[A-Z]{3}$/.test(form.currency)
+  );
+
+  const handleSave = async () => {
+    if (!valid) return;
+    const data = {
+      name: form.name.trim(),
+      principal,
+      currency: form.currency,
+      rateType: form.rateType,
+      fixedRate: form.rateType === 'fixed' ? rate : null,
+      euriborTenor: form.rateType === 'euribor' ? form.euriborTenor : null,
+      spread: form.rateType === 'euribor' ? rate : null,
+      termMonths,
+      startDate: form.startDate,
+      accountId: form.accountId ? Number(form.accountId) : null,
+      descriptionPattern: form.descriptionPattern.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      if (loan) {
+        await updateLoan(loan.id, workspaceId, data);
+      } else {
+        await createLoan({ workspaceId, ...data });
+      }
+      showToast(t('loans.saved'), 'success');
+      onSaved();
+      onClose();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('loans.failedToSave'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title={loan ? t('loans.editLoan') : t('loans.addLoan')}>
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('loans.name')}</label>
+          <Input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder={t('loans.namePlaceholder')}
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('loans.principal')}
+            </label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.principal}
+              onChange={(e) => setForm({ ...form, principal: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('loans.currency')}
+            </label>
+            <Input
+              value={form.currency}
+              maxLength={3}
+              onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('loans.rateType')}
+            </label>
+            <Select
+              value={form.rateType}
+              onChange={(e) => setForm({ ...form, rateType: e.target.value as LoanRateType })}
+              options={LOAN_RATE_TYPES.map((type) => ({
+                value: type,
+                label: t(`loans.rateTypes.${type}`),
+              }))}
+            />
+          </div>
+          {form.rateType === 'fixed' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('loans.fixedRate')}
+              </label>
+              <Input
+                type="number"
+                min="0"
+                step="0.001"
+                value={form.fixedRate}
+                onChange={(e) => setForm({ ...form, fixedRate: e.target.value })}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('loans.tenor')}
+                </label>
+                <Select
+                  value={form.euriborTenor}
+                  onChange={(e) =>
+                    setForm({ ...form, euriborTenor: e.target.value as EuriborTenor })
+                  }
+                  options={EURIBOR_TENORS.map((tenor) => ({ value: tenor, label: tenor }))}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('loans.spread')}
+                </label>
+                <Input
+                  type="number"
+                  step="0.001"
+                  value={form.spread}
+                  onChange={(e) => setForm({ ...form, spread: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('loans.termMonths')}
+            </label>
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              value={form.termMonths}
+              onChange={(e) => setForm({ ...form, termMonths: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('loans.firstPayment')}
+            </label>
+            <Input
+              type="date"
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('loans.account')}
+          </label>
+          <Select
+            value={form.accountId}
+            onChange={(e) => setForm({ ...form, accountId: e.target.value })}
+            options={[
+              { value: '', label: t('loans.anyAccount') },
+              ...accounts.map((a) => ({ value: String(a.id), label: a.name })),
+            ]}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('loans.descriptionPattern')}
+          </label>
+          <Input
+            value={form.descriptionPattern}
+            onChange={(e) => setForm({ ...form, descriptionPattern: e.target.value })}
+            placeholder={t('loans.descriptionPatternPlaceholder')}
+          />
+          <p className="text-xs text-muted-foreground mt-1">{t('loans.descriptionPatternHint')}</p>
+        </div>
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !valid}>
+            {saving ? t('common.saving') : t('common.save')}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
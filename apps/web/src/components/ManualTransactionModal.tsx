@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import { CategorySelect } from '@/components/CategorySelect';
+import { createManualTransaction, updateManualTransaction } from '@/services/api';
+import type { Account, Category, TransactionWithCategory } from '@compasso/shared';
+
+interface ManualTransactionModalProps {
+  open: boolean;
+  transaction: TransactionWithCategory | null; // Null to create a new one
+  workspaceId: number;
+  accounts: Account[];
+  categories: Category[];
+  onClose: () => void;
+  onSaved: () => void;
+  onCategoryCreated: (category: Category) => void;
+}
+
+interface ManualTransactionForm {
+  date: string;
+  description: string;
+  amount: string;
+  isIncome: boolean;
+  categoryId: number | null;
+  accountId: number | null;
+}
+
+function emptyForm(accounts: Account[]): ManualTransactionForm {
+  // Cash spending is the common case, so a cash wallet is picked when there is one
+  const wallet = accounts.find((a) => a.type === 'cash');
+  return {
+    date: new Date().toISOString().slice(0, 10),
+    description: '',
+    amount: '',
+    isIncome: false,
+    categoryId: null,
+    accountId: wallet?.id ?? null,
+  };
+}
+
+export function ManualTransactionModal({
+  open,
+  transaction,
+  workspaceId,
+  accounts,
+  categories,
+  onClose,
+  onSaved,
+  onCategoryCreated,
+}: ManualTransactionModalProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [form, setForm] = useState<ManualTransactionForm>(() => emptyForm(accounts));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      transaction
+        ? {
+            date: transaction.date,
+            description: transaction.description,
+            amount: String(transaction.amount),
+            isIncome: transaction.isIncome,
+            categoryId: transaction.categoryId,
+            accountId: transaction.accountId ?? null,
+          }
+        : emptyForm(accounts)
+    );
+  }, [open, transaction, accounts]);
+
+  const amount = parseFloat(form.amount);
+  const valid = Boolean(form.date && form.description.trim() && amount > 0);
+
+  const handleSave = async () => {
+    if (!valid) return;
+    const data = {
+      workspaceId,
+      accountId: form.accountId,
+      date: form.date,
+      description: form.description.trim(),
+      amount,
+      isIncome: form.isIncome,
+      categoryId: form.categoryId,
+    };
+
+    setSaving(true);
+    try {
+      if (transaction) {
+        await updateManualTransaction(transaction.id, data);
+        showToast(t('transactions.manual.updated'), 'success');
+      } else {
+        await createManualTransaction(data);
+        showToast(t('transactions.manual.created'), 'success');
+      }
+      onSaved();
+      onClose();
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : t('transactions.manual.failedToSave'),
+        'error'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={transaction ? t('transactions.manual.edit') : t('transactions.manual.add')}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('transactions.date')}
+            </label>
+            <Input
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('transactions.manual.type')}
+            </label>
+            <Select
+              value={form.isIncome ? 'income' : 'expense'}
+              onChange={(e) => setForm({ ...form, isIncome: e.target.value === 'income' })}
+              options={[
+                { value: 'expense', label: t('transactions.expense') },
+                { value: 'income', label: t('transactions.income') },
+              ]}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('transactions.description')}
+          </label>
+          <Input
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('transactions.amount')}
+            </label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('transactions.category')}
+            </label>
+            <CategorySelect
+              value={form.categoryId}
+              categories={categories}
+              workspaceId={workspaceId}
+              onChange={(categoryId) => setForm({ ...form, categoryId })}
+              onCategoryCreated={onCategoryCreated}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('transactions.manual.account')}
+          </label>
+          <Select
+            value={form.accountId ?? ''}
+            onChange={(e) =>
+              setForm({ ...form, accountId: e.target.value ? parseInt(e.target.value) : null })
+            }
+            options={[
+              { value: '', label: t('upload.account.none') },
+              ...accounts.map((a) => ({ value: a.id, label: a.name })),
+            ]}
+          />
+        </div>
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !valid}>
+            {saving ? t('common.saving') : t('common.save')}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import { createNetWorthItem, updateNetWorthItem } from '@/services/api';
+import type { NetWorthItem, NetWorthItemKind } from '@compasso/shared';
+
+interface NetWorthItemModalProps {
+  open: boolean;
+  item: NetWorthItem | null; // Null to create a new one
+  workspaceId: number;
+  baseCurrency: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface NetWorthItemForm {
+  kind: NetWorthItemKind;
+  name: string;
+  value: string;
+  currency: string;
+}
+
+export function NetWorthItemModal({
+  open,
+  item,
+  workspaceId,
+  baseCurrency,
+  onClose,
+  onSaved,
+}: NetWorthItemModalProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [form, setForm] = useState<NetWorthItemForm>({
+    kind: 'asset',
+    name: '',
+    value: '',
+    currency: baseCurrency,
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      item
+        ? { kind: item.kind, name: item.name, value: String(item.value), currency: item.currency }
+        : { kind: 'asset', name: '', value: '', currency: baseCurrency }
+    );
+  }, [open, item, baseCurrency]);
+
+  const value = parseFloat(form.value);
+  const valid = Boolean(form.name.trim() && value >= 0 && /^[A-Z]{3}$/.test(form.currency));
+
+  const handleSave = async () => {
+    if (!valid) return;
+    const data = {
+      kind: form.kind,
+      name: form.name.trim(),
+      value,
+      currency: form.currency,
+    };
+
+    setSaving(true);
+    try {
+      if (item) {
+        await updateNetWorthItem(item.id, workspaceId, data);
+      } else {
+        await createNetWorthItem({ workspaceId, ...data });
+      }
+      showToast(t('netWorth.itemSaved'), 'success');
+      onSaved();
+      onClose();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('netWorth.failedToSave'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={item ? t('netWorth.editItem') : t('netWorth.addItem')}
+    >
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('netWorth.kind')}
+          </label>
+          <Select
+            value={form.kind}
+            onChange={(e) => setForm({ ...form, kind: e.target.value as NetWorthItemKind })}
+            options={[
+              { value: 'asset', label: t('netWorth.asset') },
+              { value: 'liability', label: t('netWorth.liability') },
+            ]}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('netWorth.name')}
+          </label>
+          <Input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder={
+              form.kind === 'asset'
+                ? t('netWorth.assetPlaceholder')
+                : t('netWorth.liabilityPlaceholder')
+            }
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {form.kind === 'asset' ? t('netWorth.value') : t('netWorth.amountOwed')}
+            </label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.value}
+              onChange={(e) => setForm({ ...form, value: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('netWorth.currency')}
+            </label>
+            <Input
+              value={form.currency}
+              maxLength={3}
+              onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !valid}>
+            {saving ? t('common.saving') : t('common.save')}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Camera, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { ErrorAlert } from '@/components/ui/ErrorAlert';
+import { LoadingPlaceholder } from '@/components/ui/LoadingPlaceholder';
+import { useToast } from '@/components/ui/Toast';
+import { NetWorthItemModal } from '@/components/NetWorthItemModal';
+import {
+  getNetWorth,
+  getNetWorthItems,
+  getNetWorthSnapshots,
+  recordNetWorthSnapshot,
+  deleteNetWorthItem,
+} from '@/services/api';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { DEFAULT_BASE_CURRENCY } from '@compasso/shared';
+import type {
+  NetWorthEntry,
+  NetWorthItem,
+  NetWorthSnapshot,
+  NetWorthSummary,
+} from '@compasso/shared';
+
+interface NetWorthReportProps {
+  workspaceId: number;
+}
+
+// Current assets and liabilities with the net worth recorded in snapshots over time
+export function NetWorthReport({ workspaceId }: NetWorthReportProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [summary, setSummary] = useState<NetWorthSummary | null>(null);
+  const [items, setItems] = useState<NetWorthItem[]>([]);
+  const [snapshots, setSnapshots] = useState<NetWorthSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<NetWorthItem | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<NetWorthItem | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadNetWorth = useCallback(async () => {
+    setError(null);
+    try {
+      const [summaryData, itemsData, snapshotsData] = await Promise.all([
+        getNetWorth(workspaceId),
+        getNetWorthItems(workspaceId),
+        getNetWorthSnapshots(workspaceId),
+      ]);
+      setSummary(summaryData);
+      setItems(itemsData);
+      setSnapshots(snapshotsData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load net worth');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadNetWorth();
+  }, [loadNetWorth]);
+
+  const handleRecord = async () => {
+    setRecording(true);
+    try {
+      await recordNetWorthSnapshot(workspaceId);
+      showToast(t('netWorth.snapshotRecorded'), 'success');
+      await loadNetWorth();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('netWorth.failedToSave'), 'error');
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setDeleting(true);
+    try {
+      await deleteNetWorthItem(deleteTarget.id, workspaceId);
+      setDeleteTarget(null);
+      await loadNetWorth();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('netWorth.failedToSave'), 'error');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const openForm = (item: NetWorthItem | null) => {
+    setEditing(item);
+    setFormOpen(true);
+  };
+
+  const renderEntries = (entries: NetWorthEntry[], total: number, title: string) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-700">{title}</h4>
+        <span className="text-sm font-medium">{formatCurrency(total)}</span>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('netWorth.none')}</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {entries.map((entry) => {
+            const item = entry.source === 'item' ? items.find((i) => i.id === entry.id) : undefined;
+            return (
+              <div
+                key={`${entry.source}-${entry.id}`}
+                className="flex items-center justify-between py-2 text-sm"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="truncate">{entry.name}</span>
+                  {entry.source === 'account' && (
+                    <Badge variant="secondary">{t('netWorth.account')}</Badge>
+                  )}
+                  {entry.source === 'loan' && (
+                    <Badge variant="secondary">{t('netWorth.loan')}</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="whitespace-nowrap">
+                    {formatCurrency(entry.value, entry.currency)}
+                  </span>
+                  {item && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openForm(item)}
+                        className="h-8 w-8 text-muted-foreground"
+                        title={t('common.edit')}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleteTarget(item)}
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>{t('netWorth.title')}</CardTitle>
+          {summary && (
+            <div
+              className={`text-2xl font-bold mt-1 ${
+                summary.netWorth >= 0 ? 'text-green-600' : 'text-red-600'
+              }`}
+            >
+              {formatCurrency(summary.netWorth)}
+            </div>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleRecord} disabled={recording}>
+            <Camera className="h-4 w-4 mr-1" />
+            {t('netWorth.recordSnapshot')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            {t('netWorth.addItem')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <ErrorAlert message={error} />}
+
+        {loading ? (
+          <LoadingPlaceholder text={t('common.loading')} />
+        ) : (
+          <>
+            {snapshots.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={snapshots}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(value) => formatDate(value)}
+                    fontSize={12}
+                  />
+                  <YAxis fontSize={12} tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`} />
+                  <Tooltip
+                    formatter={(value: number) => formatCurrency(value)}
+                    labelFormatter={(label) => formatDate(label)}
+                  />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="netWorth"
+                    name={t('netWorth.title')}
+                    stroke="#3b82f6"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="totalAssets"
+                    name={t('netWorth.assets')}
+                    stroke="#22c55e"
+                    dot={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="totalLiabilities"
+                    name={t('netWorth.liabilities')}
+                    stroke="#ef4444"
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                {t('netWorth.noSnapshots')}
+              </div>
+            )}
+
+            {summary && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {renderEntries(summary.assets, summary.totalAssets, t('netWorth.assets'))}
+                {renderEntries(
+                  summary.liabilities,
+                  summary.totalLiabilities,
+                  t('netWorth.liabilities')
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <NetWorthItemModal
+        open={formOpen}
+        item={editing}
+        workspaceId={workspaceId}
+        baseCurrency={summary?.baseCurrency ?? DEFAULT_BASE_CURRENCY}
+        onClose={() => setFormOpen(false)}
+        onSaved={loadNetWorth}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={t('netWorth.deleteItem')}
+        message={t('netWorth.deleteConfirm', { name: deleteTarget?.name ?? '' })}
+        confirmLabel={t('common.delete')}
+        cancelLabel={t('common.cancel')}
+        variant="danger"
+        loading={deleting}
+      />
+    </Card>
+  );
+}
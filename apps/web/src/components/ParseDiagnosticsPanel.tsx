@@ -0,0 +1,67 @@
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import type { ParseDiagnosticLine, ParseDiagnostics } from '@compasso/shared';
+
+interface ParseDiagnosticsPanelProps {
+  diagnostics: ParseDiagnostics;
+}
+
+function DiagnosticLines({ title, lines }: { title: string; lines: ParseDiagnosticLine[] }) {
+  const { t } = useTranslation();
+  if (lines.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">
+        {title} ({lines.length})
+      </h3>
+      <div className="border rounded-lg max-h-64 overflow-y-auto">
+        <table className="w-full text-xs">
+          <tbody>
+            {lines.map((line) => (
+              <tr key={`${line.page}-${line.line}`} className="border-b last:border-0">
+                <td className="px-3 py-1.5 whitespace-nowrap text-muted-foreground align-top">
+                  {line.page !== null
+                    ? t('upload.diagnostics.pageLine', { page: line.page, line: line.line })
+                    : t('upload.diagnostics.line', { line: line.line })}
+                </td>
+                <td className="px-3 py-1.5 font-mono break-all">{line.text}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// Lines the parser passed over, with their page and line, to attach to parser bug reports
+export function ParseDiagnosticsPanel({ diagnostics }: ParseDiagnosticsPanelProps) {
+  const { t } = useTranslation();
+
+  const isEmpty =
+    diagnostics.skippedLines.length === 0 && diagnostics.dateWithoutAmount.length === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          {t('upload.diagnostics.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEmpty && <p className="text-sm text-muted-foreground">{t('upload.diagnostics.none')}</p>}
+        <DiagnosticLines
+          title={t('upload.diagnostics.dateWithoutAmount')}
+          lines={diagnostics.dateWithoutAmount}
+        />
+        <DiagnosticLines
+          title={t('upload.diagnostics.skippedLines')}
+          lines={diagnostics.skippedLines}
+        />
+      </CardContent>
+    </Card>
+  );
+}
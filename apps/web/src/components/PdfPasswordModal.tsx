@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Lock } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+interface PdfPasswordModalProps {
+  open: boolean;
+  filename: string;
+  incorrect: boolean;
+  loading: boolean;
+  onClose: () => void;
+  onSubmit: (password: string) => void;
+}
+
+// Asks for the password of an encrypted PDF; it is sent with the retried upload and never saved
+export function PdfPasswordModal({
+  open,
+  filename,
+  incorrect,
+  loading,
+  onClose,
+  onSubmit,
+}: PdfPasswordModalProps) {
+  const { t } = useTranslation();
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    if (open) setPassword('');
+  }, [open, incorrect]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) onSubmit(password);
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title={t('upload.pdfPassword.title')}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex gap-3">
+          <div className="flex-shrink-0 w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center">
+            <Lock className="h-5 w-5 text-gray-600" />
+          </div>
+          <p className="text-sm text-gray-600">
+            {t('upload.pdfPassword.description', { name: filename })}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('upload.pdfPassword.label')}
+          </label>
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="off"
+            autoFocus
+            className="w-full"
+          />
+          {incorrect && (
+            <p className="text-sm text-red-600 mt-1">{t('upload.pdfPassword.incorrect')}</p>
+          )}
+          <p className="text-xs text-gray-500 mt-1">{t('upload.pdfPassword.notStored')}</p>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+            {t('common.cancel')}
+          </Button>
+          <Button type="submit" disabled={!password || loading}>
+            {loading ? t('common.loading') : t('upload.pdfPassword.unlock')}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
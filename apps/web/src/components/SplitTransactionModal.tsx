@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useToast } from '@/components/ui/Toast';
+import { CategorySelect } from '@/components/CategorySelect';
+import { splitTransaction, removeTransactionSplit } from '@/services/api';
+import { formatCurrency } from '@/lib/utils';
+import type { Category, TransactionWithCategory } from '@compasso/shared';
+
+interface SplitTransactionModalProps {
+  transaction: TransactionWithCategory | null; // Null when closed
+  workspaceId: number;
+  categories: Category[];
+  onClose: () => void;
+  onSaved: () => void;
+  onCategoryCreated: (category: Category) => void;
+}
+
+interface SplitPartForm {
+  categoryId: number | null;
+  amount: string;
+  note: string;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+// Starts from the transaction's parts, or from its whole amount in its
+// category plus an empty part
+function initialParts(transaction: TransactionWithCategory): SplitPartForm[] {
+  if (transaction.splits?.length) {
+    return transaction.splits.map((s) => ({
+      categoryId: s.categoryId,
+      amount: String(s.amount),
+      note: s.note ?? '',
+    }));
+  }
+  return [
+    { categoryId: transaction.categoryId, amount: String(transaction.amount), note: '' },
+    { categoryId: null, amount: '', note: '' },
+  ];
+}
+
+export function SplitTransactionModal({
+  transaction,
+  workspaceId,
+  categories,
+  onClose,
+  onSaved,
+  onCategoryCreated,
+}: SplitTransactionModalProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [parts, setParts] = useState<SplitPartForm[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (transaction) setParts(initialParts(transaction));
+  }, [transaction]);
+
+  if (!transaction) return null;
+
+  const amounts = parts.map((p) => parseFloat(p.amount));
+  const remainingCents =
+    toCents(transaction.amount) - amounts.reduce((sum, a) => sum + (a > 0 ? toCents(a) : 0), 0);
+  const valid = parts.length >= 2 && amounts.every((a) => a > 0) && remainingCents === 0;
+
+  const updatePart = (index: number, changes: Partial<SplitPartForm>) => {
+    setParts((prev) => prev.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const handleSave = async () => {
+    if (!valid) return;
+    setSaving(true);
+    try {
+      await splitTransaction(
+        transaction.id,
+        workspaceId,
+        parts.map((p, i) => ({
+          categoryId: p.categoryId,
+          amount: amounts[i],
+          note: p.note.trim() || null,
+        }))
+      );
+      showToast(t('transactions.split.saved'), 'success');
+      onSaved();
+      onClose();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('transactions.split.failedToSave'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    try {
+      await removeTransactionSplit(transaction.id, workspaceId);
+      showToast(t('transactions.split.removed'), 'success');
+      onSaved();
+      onClose();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('transactions.split.failedToSave'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal open onClose={onClose} title={t('transactions.split.title')} className="max-w-2xl">
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {transaction.description} · {formatCurrency(transaction.amount, transaction.currency)}
+        </p>
+        <div className="space-y-2">
+          {parts.map((part, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <CategorySelect
+                value={part.categoryId}
+                categories={categories}
+                workspaceId={workspaceId}
+                onChange={(categoryId) => updatePart(index, { categoryId })}
+                onCategoryCreated={onCategoryCreated}
+                className="w-44"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={part.amount}
+                onChange={(e) => updatePart(index, { amount: e.target.value })}
+                placeholder={t('transactions.amount')}
+                className="w-28"
+              />
+              <Input
+                value={part.note}
+                onChange={(e) => updatePart(index, { note: e.target.value })}
+                placeholder={t('transactions.split.note')}
+                maxLength={200}
+                className="flex-1"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setParts((prev) => prev.filter((_, i) => i !== index))}
+                disabled={parts.length <= 2}
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                title={t('transactions.split.removePart')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setParts((prev) => [...prev, { categoryId: null, amount: '', note: '' }])
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('transactions.split.addPart')}
+          </Button>
+          <span
+            className={`text-sm ${remainingCents === 0 ? 'text-muted-foreground' : 'text-red-600'}`}
+          >
+            {t('transactions.split.remaining', {
+              amount: formatCurrency(remainingCents / 100, transaction.currency),
+            })}
+          </span>
+        </div>
+        <div className="flex gap-2 justify-end">
+          {transaction.splits?.length ? (
+            <Button variant="outline" onClick={handleRemove} disabled={saving} className="mr-auto">
+              {t('transactions.split.removeSplit')}
+            </Button>
+          ) : null}
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !valid}>
+            {saving ? t('common.saving') : t('common.save')}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
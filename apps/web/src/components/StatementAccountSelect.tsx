@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Landmark, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { useToast } from '@/components/ui/Toast';
+import { createAccount } from '@/services/api';
+import type { Account, UploadResponse } from '@compasso/shared';
+
+interface StatementAccountSelectProps {
+  uploadResult: UploadResponse;
+  accounts: Account[];
+  banks: Array<{ id: string; name: string }>;
+  workspaceId: number;
+  accountId: number | null;
+  onAccountChange: (accountId: number | null) => void;
+  onAccountCreated: (account: Account) => void;
+}
+
+export function StatementAccountSelect({
+  uploadResult,
+  accounts,
+  banks,
+  workspaceId,
+  accountId,
+  onAccountChange,
+  onAccountCreated,
+}: StatementAccountSelectProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [creating, setCreating] = useState(false);
+
+  const { accountNumber } = uploadResult;
+  const bankName = banks.find((b) => b.id === uploadResult.bankId)?.name ?? uploadResult.bankId;
+
+  const handleCreate = async () => {
+    if (!accountNumber) return;
+    setCreating(true);
+    try {
+      const account = await createAccount({
+        workspaceId,
+        name: `${bankName} ${accountNumber.slice(-4)}`,
+        bankId: uploadResult.bankId,
+        accountNumber,
+        openingBalance: uploadResult.reconciliation.openingBalance ?? 0,
+      });
+      onAccountCreated(account);
+      onAccountChange(account.id);
+      showToast(t('accounts.created'), 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('accounts.failedToSave'), 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+      <Landmark className="h-4 w-4 text-muted-foreground shrink-0" />
+      <span className="text-muted-foreground shrink-0">
+        {accountNumber
+          ? t('upload.account.detected', { number: accountNumber })
+          : t('upload.account.label')}
+      </span>
+      <Select
+        className="sm:w-64"
+        value={accountId ?? ''}
+        onChange={(e) => onAccountChange(e.target.value ? parseInt(e.target.value) : null)}
+        options={[
+          { value: '', label: t('upload.account.none') },
+          ...accounts.map((a) => ({ value: a.id, label: a.name })),
+        ]}
+        aria-label={t('upload.account.label')}
+      />
+      {accountNumber && accountId === null && (
+        <Button variant="outline" size="sm" onClick={handleCreate} disabled={creating}>
+          <Plus className="h-4 w-4 mr-1" />
+          {creating ? t('common.saving') : t('upload.account.createFromStatement')}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { createStatementTemplate, updateStatementTemplate } from '@/services/api';
+import type { StatementTemplate, StatementTemplateDefinition } from '@compasso/shared';
+
+interface StatementTemplateModalProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved: (template: StatementTemplate) => void;
+  workspaceId: number;
+  template: StatementTemplate | null;
+}
+
+// Starting point for new templates: one line per transaction, "date description amount balance"
+const EXAMPLE_DEFINITION: StatementTemplateDefinition = {
+  dateFormat: 'DD/MM/YYYY',
+  decimalFormat: 'european',
+  period: { pattern: '(\\d{2}/\\d{2}/\\d{4}) a (\\d{2}/\\d{2}/\\d{4})' },
+  skipLines: ['^Data\\s+Descri'],
+  transaction: { pattern: '^(?<date>\\d{2}/\\d{2}/\\d{4})\\s+' },
+  amountLayouts: [{ amount: -2, balance: -1, incomeFrom: 'sign' }],
+  continuation: 'append',
+};
+
+function formatDefinition(definition: StatementTemplateDefinition): string {
+  return JSON.stringify(definition, null, 2);
+}
+
+export function StatementTemplateModal({
+  open,
+  onClose,
+  onSaved,
+  workspaceId,
+  template,
+}: StatementTemplateModalProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [currency, setCurrency] = useState('EUR');
+  const [definitionText, setDefinitionText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? '');
+    setCurrency(template?.currency ?? 'EUR');
+    setDefinitionText(formatDefinition(template?.definition ?? EXAMPLE_DEFINITION));
+    setError(null);
+  }, [open, template]);
+
+  // Accepts either a bare definition or a template file ({ name, currency, definition })
+  const handleTemplateFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const content = JSON.parse(await file.text());
+      if (content.definition) {
+        if (typeof content.name === 'string' && !name) setName(content.name);
+        if (typeof content.currency === 'string') setCurrency(content.currency);
+        setDefinitionText(formatDefinition(content.definition));
+      } else {
+        setDefinitionText(formatDefinition(content));
+      }
+      setError(null);
+    } catch {
+      setError(t('upload.statementTemplate.invalidJson'));
+    }
+  };
+
+  const handleSave = async () => {
+    let definition: StatementTemplateDefinition;
+    try {
+      definition = JSON.parse(definitionText);
+    } catch {
+      setError(t('upload.statementTemplate.invalidJson'));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const data = {
+      name: name.trim(),
+      currency: currency.trim().toUpperCase(),
+      definition,
+    };
+
+    try {
+      const saved = template
+        ? await updateStatementTemplate(template.id, workspaceId, data)
+        : await createStatementTemplate({ ...data, workspaceId });
+      onSaved(saved);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('upload.statementTemplate.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={
+        template ? t('upload.statementTemplate.editTitle') : t('upload.statementTemplate.newTitle')
+      }
+      className="max-w-2xl"
+    >
+      <div className="space-y-4 max-h-[75vh] overflow-y-auto">
+        {error && <div className="p-3 bg-red-50 text-red-800 rounded-lg text-sm">{error}</div>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.statementTemplate.name')}
+            </label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('upload.statementTemplate.namePlaceholder')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('upload.statementTemplate.currency')}
+            </label>
+            <Input value={currency} maxLength={3} onChange={(e) => setCurrency(e.target.value)} />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('upload.statementTemplate.templateFile')}
+          </label>
+          <Input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleTemplateFile(e.target.files?.[0])}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('upload.statementTemplate.definition')}
+          </label>
+          <textarea
+            value={definitionText}
+            onChange={(e) => setDefinitionText(e.target.value)}
+            rows={16}
+            spellCheck={false}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            {t('upload.statementTemplate.definitionHelp')}
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? t('common.saving') : t('common.save')}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
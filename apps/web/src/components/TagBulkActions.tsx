@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Tag as TagIcon, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useToast } from '@/components/ui/Toast';
+import { addTagToTransactions, createTag, removeTagFromTransactions } from '@/services/api';
+import type { Tag } from '@compasso/shared';
+
+interface TagBulkActionsProps {
+  workspaceId: number;
+  tags: Tag[];
+  transactionIds: number[];
+  onClear: () => void;
+  onTagged: () => void;
+}
+
+// Adds a tag to, or removes it from, the selected transactions. Adding a
+// name that isn't a tag yet creates it.
+export function TagBulkActions({
+  workspaceId,
+  tags,
+  transactionIds,
+  onClear,
+  onTagged,
+}: TagBulkActionsProps) {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const trimmed = name.trim();
+  const existing = tags.find((tag) => tag.name.toLowerCase() === trimmed.toLowerCase());
+
+  const handleAdd = async () => {
+    if (!trimmed) return;
+    setSaving(true);
+    try {
+      const tag = existing ?? (await createTag(workspaceId, { name: trimmed }));
+      const { added } = await addTagToTransactions(tag.id, workspaceId, transactionIds);
+      showToast(t('tags.tagAdded', { count: added, name: tag.name }), 'success');
+      setName('');
+      onTagged();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('tags.tagFailed'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!existing) return;
+    setSaving(true);
+    try {
+      const { removed } = await removeTagFromTransactions(existing.id, workspaceId, transactionIds);
+      showToast(t('tags.tagRemoved', { count: removed, name: existing.name }), 'success');
+      setName('');
+      onTagged();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('tags.tagFailed'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/30 p-3">
+      <TagIcon className="h-4 w-4 text-muted-foreground" />
+      <span className="text-sm font-medium">
+        {t('tags.selectedCount', { count: transactionIds.length })}
+      </span>
+      <Input
+        list="transaction-tags"
+        placeholder={t('tags.tagName')}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleAdd();
+        }}
+        maxLength={50}
+        className="w-48"
+      />
+      <datalist id="transaction-tags">
+        {tags.map((tag) => (
+          <option key={tag.id} value={tag.name} />
+        ))}
+      </datalist>
+      <Button size="sm" onClick={handleAdd} disabled={saving || !trimmed}>
+        {t('tags.addTag')}
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleRemove} disabled={saving || !existing}>
+        {t('tags.removeTag')}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onClear} className="ml-auto">
+        <X className="h-4 w-4 mr-1" />
+        {t('tags.clearSelection')}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { Fragment } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import { formatCurrency } from '@/lib/utils';
+import type { TagSpending } from '@compasso/shared';
+
+interface TagSpendingTableProps {
+  tags: TagSpending[];
+}
+
+// Expenses per tag, each followed by its breakdown by category
+export function TagSpendingTable({ tags }: TagSpendingTableProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('tags.spendingByTag')}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {tags.length > 0 ? (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('tags.tagHeader')}</TableHead>
+                  <TableHead className="text-right">{t('reports.amountHeader')}</TableHead>
+                  <TableHead className="text-right">{t('reports.transactionsHeader')}</TableHead>
+                  <TableHead className="text-right">{t('reports.percentHeader')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tags.map((tag) => (
+                  <Fragment key={tag.tagId}>
+                    <TableRow className="bg-muted/30">
+                      <TableCell className="font-medium">
+                        <Link
+                          to={`/transactions?tag=${encodeURIComponent(tag.tagName)}`}
+                          className="flex items-center gap-2 hover:underline"
+                        >
+                          <span
+                            className="w-3 h-3 rounded-full"
+                            style={{ backgroundColor: tag.tagColor || '#6b7280' }}
+                          />
+                          {tag.tagName}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(tag.total)}
+                      </TableCell>
+                      <TableCell className="text-right">{tag.count}</TableCell>
+                      <TableCell />
+                    </TableRow>
+                    {tag.categories.map((category) => (
+                      <TableRow key={`${tag.tagId}-${category.categoryId ?? 'none'}`}>
+                        <TableCell className="pl-10 text-muted-foreground">
+                          {category.categoryName === 'Uncategorized'
+                            ? t('categories.uncategorized')
+                            : category.categoryName}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(category.total)}
+                        </TableCell>
+                        <TableCell className="text-right">{category.count}</TableCell>
+                        <TableCell className="text-right">
+                          {category.percentage.toFixed(1)}%
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">{t('tags.noTagSpending')}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import { formatCurrency } from '@/lib/utils';
+import type { TopMerchant } from '@compasso/shared';
+
+interface TopMerchantsTableProps {
+  merchants: TopMerchant[];
+}
+
+// Merchants with the highest expenses, each linking to its transactions
+export function TopMerchantsTable({ merchants }: TopMerchantsTableProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('merchants.topMerchants')}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {merchants.length > 0 ? (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('merchants.merchantHeader')}</TableHead>
+                  <TableHead className="text-right">{t('reports.amountHeader')}</TableHead>
+                  <TableHead className="text-right">{t('reports.transactionsHeader')}</TableHead>
+                  <TableHead className="text-right">{t('reports.percentHeader')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {merchants.map((merchant) => (
+                  <TableRow key={merchant.merchantId}>
+                    <TableCell>
+                      <Link
+                        to={`/transactions?merchant=${merchant.merchantId}`}
+                        className="hover:underline"
+                      >
+                        {merchant.merchantName}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(merchant.total)}
+                    </TableCell>
+                    <TableCell className="text-right">{merchant.count}</TableCell>
+                    <TableCell className="text-right">{merchant.percentage.toFixed(1)}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">{t('reports.noExpenseData')}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
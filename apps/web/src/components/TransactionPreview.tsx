@@ -3,7 +3,10 @@ import { useTranslation } from 'react-i18next';
 import { FileText, Check } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
 import { CategorySelect } from '@/components/CategorySelect';
+import { ParseDiagnosticsPanel } from '@/components/ParseDiagnosticsPanel';
+import { StatementAccountSelect } from '@/components/StatementAccountSelect';
 import {
   Table,
   TableBody,
@@ -13,7 +16,7 @@ import {
   TableRow,
 } from '@/components/ui/Table';
 import { formatCurrency, formatDate } from '@/lib/utils';
-import type { Category, BankId, UploadResponse, ParsedTransaction } from '@compasso/shared';
+import type { Account, Category, BankId, UploadResponse, ParsedTransaction } from '@compasso/shared';
 
 interface TransactionWithSelection extends ParsedTransaction {
   selected: boolean;
@@ -27,6 +30,8 @@ interface TransactionPreviewProps {
   transactions: TransactionWithSelection[];
   categories: Category[];
   banks: Array<{ id: string; name: string }>;
+  accounts: Account[];
+  accountId: number | null;
   selectedBank: BankId;
   workspaceId: number;
   confirming: boolean;
@@ -34,6 +39,8 @@ interface TransactionPreviewProps {
   onTransactionsChange: (updater: (prev: TransactionWithSelection[]) => TransactionWithSelection[]) => void;
   onCategoryChange: (index: number, categoryId: number | null) => void;
   onCategoryCreated: (category: Category) => void;
+  onAccountChange: (accountId: number | null) => void;
+  onAccountCreated: (account: Account) => void;
   onConfirm: () => void;
   onReset: () => void;
 }
@@ -43,6 +50,8 @@ export function TransactionPreview({
   transactions,
   categories,
   banks,
+  accounts,
+  accountId,
   selectedBank,
   workspaceId,
   confirming,
@@ -50,12 +59,29 @@ export function TransactionPreview({
   onTransactionsChange,
   onCategoryChange,
   onCategoryCreated,
+  onAccountChange,
+  onAccountCreated,
   onConfirm,
   onReset,
 }: TransactionPreviewProps) {
   const { t } = useTranslation();
   const [currentPage, setCurrentPage] = useState(0);
 
+  const { diagnostics } = uploadResult;
+  const hasDiagnostics =
+    diagnostics.skippedLines.length > 0 || diagnostics.dateWithoutAmount.length > 0;
+
+  const { reconciliation } = uploadResult;
+  const closingMismatch =
+    reconciliation.closingBalance !== null &&
+    reconciliation.computedClosingBalance !== null &&
+    Math.abs(reconciliation.closingBalance - reconciliation.computedClosingBalance) >= 0.005;
+
+  const detection = uploadResult.detection;
+  const detectedBankName = detection
+    ? (banks.find((b) => b.id === detection.bankId)?.name ?? detection.bankId)
+    : '';
+
   const totalPages = Math.ceil(transactions.length / PAGE_SIZE);
   const paginatedTransactions = transactions.slice(
     currentPage * PAGE_SIZE,
@@ -91,6 +117,89 @@ export function TransactionPreview({
                     <> ({uploadResult.periodStart} to {uploadResult.periodEnd})</>
                   )}
                 </p>
+                {uploadResult.dryRun && (
+                  <p className="text-sm font-medium text-blue-700">{t('upload.dryRunNotice')}</p>
+                )}
+                {detection && (
+                  <p
+                    className={`text-sm ${
+                      detection.bankId === uploadResult.bankId
+                        ? 'text-muted-foreground'
+                        : 'text-amber-700'
+                    }`}
+                  >
+                    {t(
+                      detection.bankId === uploadResult.bankId
+                        ? 'upload.bankDetected'
+                        : 'upload.bankDetectedOther',
+                      {
+                        bank: detectedBankName,
+                        confidence: Math.round(detection.confidence * 100),
+                      }
+                    )}
+                  </p>
+                )}
+                {reconciliation.status === 'reconciled' && (
+                  <p className="text-sm text-green-700">
+                    {t('upload.reconciliation.reconciled', { count: reconciliation.checkedRows })}
+                  </p>
+                )}
+                {reconciliation.status === 'mismatch' && (
+                  <div className="text-sm text-red-700">
+                    <p className="font-medium">
+                      {t('upload.reconciliation.mismatch', {
+                        count: reconciliation.mismatchedRows,
+                        checked: reconciliation.checkedRows,
+                      })}
+                    </p>
+                    {closingMismatch && (
+                      <p>
+                        {t('upload.reconciliation.closingMismatch', {
+                          closing: formatCurrency(reconciliation.closingBalance!),
+                          computed: formatCurrency(reconciliation.computedClosingBalance!),
+                        })}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {reconciliation.status === 'unchecked' && (
+                  <p className="text-sm text-muted-foreground">
+                    {t('upload.reconciliation.unchecked')}
+                  </p>
+                )}
+                {uploadResult.probableDuplicates > 0 && (
+                  <p className="text-sm text-amber-700">
+                    {t('upload.probableDuplicates', { count: uploadResult.probableDuplicates })}
+                  </p>
+                )}
+                {uploadResult.duplicatesSkipped > 0 && (
+                  <p className="text-sm text-amber-700">
+                    {t('upload.duplicatesSkipped', { count: uploadResult.duplicatesSkipped })}
+                  </p>
+                )}
+                {uploadResult.warnings.length > 0 && (
+                  <div className="text-sm text-amber-700">
+                    <p className="font-medium">{t('upload.parseWarnings')}</p>
+                    <ul className="list-disc pl-5">
+                      {uploadResult.warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {!uploadResult.dryRun && (
+                  <div className="mt-2">
+                    <StatementAccountSelect
+                      uploadResult={uploadResult}
+                      accounts={accounts}
+                      banks={banks}
+                      workspaceId={workspaceId}
+                      accountId={accountId}
+                      onAccountChange={onAccountChange}
+                      onAccountCreated={onAccountCreated}
+                    />
+                  </div>
+                )}
               </div>
             </div>
             <Button variant="outline" onClick={onReset}>
@@ -100,6 +209,10 @@ export function TransactionPreview({
         </CardContent>
       </Card>
 
+      {(uploadResult.dryRun || hasDiagnostics) && (
+        <ParseDiagnosticsPanel diagnostics={diagnostics} />
+      )}
+
       {/* Transaction review */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -131,7 +244,7 @@ export function TransactionPreview({
                 {paginatedTransactions.map((tx, pageIndex) => {
                   const actualIndex = getActualIndex(pageIndex);
                   return (
-                    <TableRow key={actualIndex} className={!tx.selected ? 'opacity-50' : ''}>
+                    <TableRow key={actualIndex} className={`${!tx.selected ? 'opacity-50' : ''} ${tx.expectedBalance !== undefined ? 'bg-red-50' : ''}`}>
                       <TableCell>
                         <button
                           onClick={() => handleToggleSelect(actualIndex)}
@@ -147,7 +260,14 @@ export function TransactionPreview({
                       <TableCell className="whitespace-nowrap">
                         {formatDate(tx.date)}
                       </TableCell>
-                      <TableCell className="max-w-xs truncate">{tx.description}</TableCell>
+                      <TableCell className="max-w-xs truncate">
+                        {tx.duplicateOf !== undefined && (
+                          <Badge variant="warning" className="mr-2">
+                            {t('upload.probableDuplicate')}
+                          </Badge>
+                        )}
+                        {tx.description}
+                      </TableCell>
                       <TableCell>
                         <CategorySelect
                           value={tx.categoryId}
@@ -178,6 +298,14 @@ export function TransactionPreview({
                           {tx.isIncome ? '+' : '-'}
                           {formatCurrency(tx.amount)}
                         </span>
+                        {tx.expectedBalance !== undefined && tx.balance !== null && (
+                          <p className="text-xs text-red-700">
+                            {t('upload.reconciliation.rowMismatch', {
+                              balance: formatCurrency(tx.balance),
+                              expected: formatCurrency(tx.expectedBalance),
+                            })}
+                          </p>
+                        )}
                       </TableCell>
                     </TableRow>
                   );
@@ -219,9 +347,11 @@ export function TransactionPreview({
             <Button variant="outline" onClick={onReset}>
               {t('upload.uploadAnother')}
             </Button>
-            <Button onClick={onConfirm} disabled={confirming || selectedCount === 0}>
-              {confirming ? t('upload.confirming') : t('upload.confirm')}
-            </Button>
+            {!uploadResult.dryRun && (
+              <Button onClick={onConfirm} disabled={confirming || selectedCount === 0}>
+                {confirming ? t('upload.confirming') : t('upload.confirm')}
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,65 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import { formatCurrency } from '@/lib/utils';
+import type { TransactionTypeBreakdown as TypeBreakdownEntry } from '@compasso/shared';
+
+interface TransactionTypeBreakdownProps {
+  breakdown: TypeBreakdownEntry[];
+}
+
+// Income and expenses per transaction type (card purchases, direct debits, transfers, ...)
+export function TransactionTypeBreakdown({ breakdown }: TransactionTypeBreakdownProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('transactionTypes.breakdownTitle')}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {breakdown.length > 0 ? (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('transactionTypes.typeHeader')}</TableHead>
+                  <TableHead className="text-right">{t('dashboard.income')}</TableHead>
+                  <TableHead className="text-right">{t('dashboard.expenses')}</TableHead>
+                  <TableHead className="text-right">{t('reports.transactionsHeader')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {breakdown.map((entry) => (
+                  <TableRow key={entry.transactionType ?? 'none'}>
+                    <TableCell>
+                      {t(`transactionTypes.${entry.transactionType ?? 'none'}`)}
+                    </TableCell>
+                    <TableCell className="text-right text-green-600">
+                      {formatCurrency(entry.income)}
+                    </TableCell>
+                    <TableCell className="text-right text-red-600">
+                      {formatCurrency(entry.expenses)}
+                    </TableCell>
+                    <TableCell className="text-right">{entry.count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            {t('common.noDataAvailable')}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
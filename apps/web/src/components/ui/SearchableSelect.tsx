@@ -7,6 +7,7 @@ export interface SearchableSelectOption {
   value: string | number;
   label: string;
   color?: string;
+  depth?: number; // Indents the option, e.g. for subcategories
 }
 
 interface SearchableSelectProps {
@@ -167,6 +168,7 @@ export function SearchableSelect({
                   highlightedIndex === i ? 'bg-gray-100' : 'hover:bg-gray-50',
                   String(opt.value) === value && 'font-medium',
                 )}
+                style={opt.depth ? { paddingLeft: `${0.75 + opt.depth * 1}rem` } : undefined}
                 onClick={() => selectOption(String(opt.value))}
                 onMouseEnter={() => setHighlightedIndex(i)}
               >
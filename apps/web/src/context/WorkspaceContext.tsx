@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
 import type { Workspace, WorkspaceRole } from '@compasso/shared';
 import { useAuth } from './AuthContext';
+import { setBaseCurrency } from '@/lib/utils';
 
 const STORAGE_KEY = 'compasso-workspace-id';
 
@@ -58,6 +59,7 @@ export function WorkspaceProvider({ children }: WorkspaceProviderProps) {
       }
 
       if (selectedWorkspace) {
+        setBaseCurrency(selectedWorkspace.baseCurrency);
         setCurrentWorkspaceState(selectedWorkspace);
         localStorage.setItem(storageKey, selectedWorkspace.id.toString());
       } else {
@@ -83,6 +85,7 @@ export function WorkspaceProvider({ children }: WorkspaceProviderProps) {
 
   const setCurrentWorkspace = useCallback(
     (workspace: Workspace) => {
+      setBaseCurrency(workspace.baseCurrency);
       setCurrentWorkspaceState(workspace);
       const storageKey = user ? `${STORAGE_KEY}-${user.id}` : STORAGE_KEY;
       localStorage.setItem(storageKey, workspace.id.toString());
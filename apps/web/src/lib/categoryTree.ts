@@ -0,0 +1,63 @@
+import { CATEGORY_MAX_DEPTH, type Category } from '@compasso/shared';
+
+export interface CategoryTreeEntry {
+  category: Category;
+  depth: number; // 0 for a top-level category
+}
+
+/**
+ * Order categories as a tree: each category followed by its subcategories,
+ * siblings sorted by name. Categories whose parent isn't in the list are
+ * placed at the top level.
+ */
+export function flattenCategoryTree(categories: Category[]): CategoryTreeEntry[] {
+  const ids = new Set(categories.map((c) => c.id));
+  const children = new Map<number | null, Category[]>();
+  for (const category of categories) {
+    const parentId = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), category]);
+  }
+
+  const entries: CategoryTreeEntry[] = [];
+  const visit = (parentId: number | null, depth: number) => {
+    const siblings = [...(children.get(parentId) ?? [])].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    for (const category of siblings) {
+      entries.push({ category, depth });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return entries;
+}
+
+/**
+ * Categories that a category (null for a new one) can be placed under: not
+ * itself or one of its subcategories, and deep enough to leave room for its
+ * subtree within CATEGORY_MAX_DEPTH levels.
+ */
+export function parentCandidates(
+  categories: Category[],
+  categoryId: number | null
+): CategoryTreeEntry[] {
+  const entries = flattenCategoryTree(categories);
+
+  // The category's subtree follows it in tree order, at greater depths
+  const subtree = new Set<number>();
+  let height = 1;
+  const start = entries.findIndex((e) => e.category.id === categoryId);
+  if (start >= 0) {
+    const baseDepth = entries[start].depth;
+    for (let i = start; i < entries.length; i++) {
+      if (i > start && entries[i].depth <= baseDepth) break;
+      subtree.add(entries[i].category.id);
+      height = Math.max(height, entries[i].depth - baseDepth + 1);
+    }
+  }
+
+  return entries.filter(
+    (e) => !subtree.has(e.category.id) && e.depth + 1 + height <= CATEGORY_MAX_DEPTH
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Split the first rows of a CSV file into cells for the column-mapping preview.
+ * Handles quoted fields and escaped quotes; the server-side parser remains the
+ * source of truth for imports.
+ */
+export function previewCsvRows(text: string, delimiter: string, maxRows = 8): string[][] {
+  const rows: string[][] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  for (const line of lines) {
+    if (rows.length >= maxRows) break;
+
+    const cells: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (inQuotes) {
+        if (char === '"' && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && cell.trim() === '') {
+        cell = '';
+        inQuotes = true;
+      } else if (char === delimiter) {
+        cells.push(cell.trim());
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell.trim());
+    rows.push(cells);
+  }
+
+  return rows;
+}
+
+/**
+ * Guess the delimiter of a CSV sample by counting candidates in its first line.
+ */
+export function detectCsvDelimiter(text: string, candidates: readonly string[]): string {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '';
+  let best = candidates[0];
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
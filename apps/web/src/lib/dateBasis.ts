@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react';
+import { DATE_BASES, type DateBasis } from '@compasso/shared';
+
+const STORAGE_KEY = 'compasso-date-basis';
+
+function readStoredDateBasis(): DateBasis {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return DATE_BASES.includes(stored as DateBasis) ? (stored as DateBasis) : 'booking';
+}
+
+/**
+ * The date (booking or value) that places transactions in a period. Shared by
+ * the dashboard, reports and transaction filters and remembered across visits.
+ */
+export function useDateBasis(): [DateBasis, (dateBasis: DateBasis) => void] {
+  const [dateBasis, setDateBasisState] = useState<DateBasis>(readStoredDateBasis);
+
+  const setDateBasis = useCallback((next: DateBasis) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setDateBasisState(next);
+  }, []);
+
+  return [dateBasis, setDateBasis];
+}
@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import i18n from 'i18next';
+import { DEFAULT_BASE_CURRENCY } from '@compasso/shared';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -15,10 +16,17 @@ function getIntlLocale(): string {
   return INTL_LOCALE_MAP[i18n.language] || 'pt-PT';
 }
 
-export function formatCurrency(amount: number): string {
+// Base currency of the current workspace; totals from the API are in this currency
+let baseCurrency = DEFAULT_BASE_CURRENCY;
+
+export function setBaseCurrency(currency: string): void {
+  baseCurrency = currency;
+}
+
+export function formatCurrency(amount: number, currency: string = baseCurrency): string {
   return new Intl.NumberFormat(getIntlLocale(), {
     style: 'currency',
-    currency: 'EUR',
+    currency,
   }).format(amount);
 }
 
@@ -0,0 +1,441 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Landmark, Plus, Pencil, Trash2 } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import { useToast } from '@/components/ui/Toast';
+import { Modal } from '@/components/ui/Modal';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { ErrorAlert } from '@/components/ui/ErrorAlert';
+import { LoadingPlaceholder } from '@/components/ui/LoadingPlaceholder';
+import {
+  getAccounts,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  getAccountBalanceHistory,
+  getSupportedBanks,
+  type SupportedBank,
+} from '@/services/api';
+import { ACCOUNT_TYPES } from '@compasso/shared';
+import type { AccountBalancePoint, AccountSummary, AccountType } from '@compasso/shared';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+
+interface AccountForm {
+  name: string;
+  type: AccountType;
+  bankId: string;
+  accountNumber: string;
+  currency: string;
+  openingBalance: string;
+}
+
+const EMPTY_FORM: AccountForm = {
+  name: '',
+  type: 'bank',
+  bankId: '',
+  accountNumber: '',
+  currency: 'EUR',
+  openingBalance: '0',
+};
+
+export default function Accounts() {
+  const { t } = useTranslation();
+  const { currentWorkspace, loading: workspaceLoading } = useWorkspace();
+  const { showToast } = useToast();
+
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [banks, setBanks] = useState<SupportedBank[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Balance history of the selected account
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [history, setHistory] = useState<AccountBalancePoint[]>([]);
+
+  // Create/edit state
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<AccountSummary | null>(null);
+  const [form, setForm] = useState<AccountForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  // Delete state
+  const [deleteTarget, setDeleteTarget] = useState<AccountSummary | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadAccounts = useCallback(async () => {
+    if (!currentWorkspace) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [accountsData, banksData] = await Promise.all([
+        getAccounts(currentWorkspace.id),
+        getSupportedBanks(currentWorkspace.id),
+      ]);
+      setAccounts(accountsData);
+      setBanks(banksData);
+      setSelectedId((prev) =>
+        accountsData.some((a) => a.id === prev) ? prev : (accountsData[0]?.id ?? null)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load accounts');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentWorkspace]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  useEffect(() => {
+    if (!currentWorkspace || selectedId === null) {
+      setHistory([]);
+      return;
+    }
+    getAccountBalanceHistory(selectedId, currentWorkspace.id)
+      .then(setHistory)
+      .catch((err) => console.error('Failed to load balance history:', err));
+  }, [currentWorkspace, selectedId, accounts]);
+
+  const getBankName = (bankId: string | null) =>
+    bankId ? (banks.find((b) => b.id === bankId)?.name ?? bankId) : '-';
+
+  const handleFormOpen = (account: AccountSummary | null) => {
+    setEditing(account);
+    setForm(
+      account
+        ? {
+            name: account.name,
+            type: account.type,
+            bankId: account.bankId ?? '',
+            accountNumber: account.accountNumber ?? '',
+            currency: account.currency,
+            openingBalance: String(account.openingBalance),
+          }
+        : EMPTY_FORM
+    );
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!currentWorkspace) return;
+    const data = {
+      name: form.name.trim(),
+      type: form.type,
+      bankId: form.bankId || null,
+      accountNumber: form.accountNumber.trim() || null,
+      currency: form.currency.trim().toUpperCase(),
+      openingBalance: parseFloat(form.openingBalance) || 0,
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await updateAccount(editing.id, currentWorkspace.id, data);
+        showToast(t('accounts.updated'), 'success');
+      } else {
+        await createAccount({ ...data, workspaceId: currentWorkspace.id });
+        showToast(t('accounts.created'), 'success');
+      }
+      setFormOpen(false);
+      await loadAccounts();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('accounts.failedToSave'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget || !currentWorkspace) return;
+    setDeleting(true);
+    try {
+      await deleteAccount(deleteTarget.id, currentWorkspace.id);
+      showToast(t('accounts.deleted'), 'success');
+      setDeleteTarget(null);
+      await loadAccounts();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('accounts.failedToDelete'), 'error');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const selectedAccount = accounts.find((a) => a.id === selectedId);
+
+  if (workspaceLoading || !currentWorkspace) {
+    return <LoadingPlaceholder text={t('common.loadingWorkspace')} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('accounts.title')}</h1>
+          <p className="text-muted-foreground">{t('accounts.subtitle')}</p>
+        </div>
+        <Button onClick={() => handleFormOpen(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t('accounts.addAccount')}
+        </Button>
+      </div>
+
+      {error && <ErrorAlert message={error} />}
+
+      {/* Create/edit modal */}
+      <Modal
+        open={formOpen}
+        onClose={() => setFormOpen(false)}
+        title={editing ? t('accounts.editAccount') : t('accounts.addAccount')}
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('accounts.name')}
+            </label>
+            <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('accounts.type')}
+            </label>
+            <Select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as AccountType })}
+              options={ACCOUNT_TYPES.map((type) => ({
+                value: type,
+                label: t(`accounts.types.${type}`),
+              }))}
+            />
+          </div>
+          {form.type === 'bank' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('accounts.bank')}
+                </label>
+                <Select
+                  value={form.bankId}
+                  onChange={(e) => setForm({ ...form, bankId: e.target.value })}
+                  options={[
+                    { value: '', label: t('accounts.noBank') },
+                    ...banks.map((b) => ({ value: b.id, label: b.name })),
+                  ]}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('accounts.accountNumber')}
+                </label>
+                <Input
+                  value={form.accountNumber}
+                  onChange={(e) => setForm({ ...form, accountNumber: e.target.value })}
+                  placeholder="PT50 0000 0000 0000 0000 0000 0"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t('accounts.accountNumberHint')}
+                </p>
+              </div>
+            </>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('accounts.currency')}
+              </label>
+              <Input
+                value={form.currency}
+                maxLength={3}
+                onChange={(e) => setForm({ ...form, currency: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('accounts.openingBalance')}
+              </label>
+              <Input
+                type="number"
+                step="0.01"
+                value={form.openingBalance}
+                onChange={(e) => setForm({ ...form, openingBalance: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim() || form.currency.trim().length !== 3}
+            >
+              {saving ? t('common.saving') : t('common.save')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={t('accounts.deleteAccount')}
+        message={t('accounts.deleteConfirm', { name: deleteTarget?.name ?? '' })}
+        confirmLabel={t('common.delete')}
+        cancelLabel={t('common.cancel')}
+        variant="danger"
+        loading={deleting}
+      />
+
+      {/* Accounts table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('accounts.accountCount', { count: accounts.length })}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingPlaceholder text={t('common.loading')} />
+          ) : accounts.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64 gap-4">
+              <Landmark className="h-12 w-12 text-muted-foreground" />
+              <div className="text-center">
+                <p className="text-muted-foreground">{t('accounts.noAccounts')}</p>
+                <p className="text-sm text-muted-foreground mt-1">{t('accounts.noAccountsHint')}</p>
+              </div>
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('accounts.name')}</TableHead>
+                    <TableHead>{t('accounts.bank')}</TableHead>
+                    <TableHead>{t('accounts.accountNumber')}</TableHead>
+                    <TableHead>{t('accounts.lastActivity')}</TableHead>
+                    <TableHead className="text-right">{t('reports.transactionsHeader')}</TableHead>
+                    <TableHead className="text-right">{t('accounts.balance')}</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {accounts.map((account) => (
+                    <TableRow
+                      key={account.id}
+                      onClick={() => setSelectedId(account.id)}
+                      className={cn('cursor-pointer', account.id === selectedId && 'bg-muted/50')}
+                    >
+                      <TableCell className="font-medium">{account.name}</TableCell>
+                      <TableCell>
+                        {account.type === 'cash'
+                          ? t('accounts.types.cash')
+                          : getBankName(account.bankId)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {account.accountNumber ?? '-'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {account.lastTransactionDate
+                          ? formatDate(account.lastTransactionDate)
+                          : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{account.transactionCount}</TableCell>
+                      <TableCell className="text-right font-medium whitespace-nowrap">
+                        {formatCurrency(account.currentBalance, account.currency)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleFormOpen(account)}
+                            title={t('accounts.editAccount')}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setDeleteTarget(account)}
+                            title={t('accounts.deleteAccount')}
+                            className="text-muted-foreground hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Balance history */}
+      {selectedAccount && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('accounts.balanceHistory', { name: selectedAccount.name })}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('accounts.noHistory')}</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={history}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(value) => formatDate(value)}
+                    fontSize={12}
+                    minTickGap={24}
+                  />
+                  <YAxis
+                    fontSize={12}
+                    tickFormatter={(value) => formatCurrency(value, selectedAccount.currency)}
+                    width={90}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => formatCurrency(value, selectedAccount.currency)}
+                    labelFormatter={(label) => formatDate(label)}
+                  />
+                  <Line
+                    type="stepAfter"
+                    dataKey="balance"
+                    name={t('accounts.balance')}
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Plus } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
@@ -16,6 +16,7 @@ import {
   getSupportedBanks,
 } from '@/services/api';
 import { useWorkspace } from '@/context/WorkspaceContext';
+import { flattenCategoryTree } from '@/lib/categoryTree';
 import type { Category, CategoryWithPatterns, PaginatedResponse } from '@compasso/shared';
 
 const PAGE_SIZE = 50;
@@ -25,6 +26,7 @@ export default function Categories() {
   const { currentWorkspace, loading: workspaceLoading } = useWorkspace();
   const { showToast } = useToast();
   const [categoriesData, setCategoriesData] = useState<PaginatedResponse<Category> | null>(null);
+  const [allCategories, setAllCategories] = useState<Category[]>([]);
   const [banks, setBanks] = useState<Array<{ id: string; name: string }>>([]);
   const [expandedCategory, setExpandedCategory] = useState<number | null>(null);
   const [categoryDetails, setCategoryDetails] = useState<CategoryWithPatterns | null>(null);
@@ -49,7 +51,7 @@ export default function Categories() {
 
   async function loadBanks() {
     try {
-      const banksData = await getSupportedBanks();
+      const banksData = await getSupportedBanks(currentWorkspace?.id);
       setBanks(banksData);
     } catch (err) {
       console.error('Failed to load banks:', err);
@@ -60,11 +62,16 @@ export default function Categories() {
     if (!currentWorkspace) return;
     setLoading(true);
     try {
-      const data = await getCategories(currentWorkspace.id, {
-        limit: PAGE_SIZE,
-        offset: page * PAGE_SIZE,
-      });
+      // The page is listed in tree order; all categories give depths and parent choices
+      const [data, all] = await Promise.all([
+        getCategories(currentWorkspace.id, {
+          limit: PAGE_SIZE,
+          offset: page * PAGE_SIZE,
+        }),
+        getCategories(currentWorkspace.id, { limit: 1000 }),
+      ]);
       setCategoriesData(data);
+      setAllCategories(all.items);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load categories');
     } finally {
@@ -154,6 +161,22 @@ export default function Categories() {
     }
   };
 
+  const handleMove = async (categoryId: number, parentId: number | null) => {
+    if (!currentWorkspace) return;
+    try {
+      await updateCategory(categoryId, currentWorkspace.id, { parentId });
+      showToast(t('categories.categoryMoved'), 'success');
+      await loadCategories();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('categories.categoryMoveFailed'), 'error');
+    }
+  };
+
+  const depths = useMemo(
+    () => new Map(flattenCategoryTree(allCategories).map((e) => [e.category.id, e.depth])),
+    [allCategories]
+  );
+
   const categories = categoriesData?.items ?? [];
   const totalPages = categoriesData ? Math.ceil(categoriesData.total / PAGE_SIZE) : 0;
 
@@ -180,6 +203,7 @@ export default function Categories() {
       {showCreateForm && (
         <CategoryCreateForm
           workspaceId={currentWorkspace.id}
+          categories={allCategories}
           banks={banks}
           showToast={showToast}
           onCreated={() => {
@@ -197,6 +221,8 @@ export default function Categories() {
           <CategoryListItem
             key={category.id}
             category={category}
+            depth={depths.get(category.id) ?? 0}
+            categories={allCategories}
             isExpanded={expandedCategory === category.id}
             categoryDetails={expandedCategory === category.id ? categoryDetails : null}
             banks={banks}
@@ -205,6 +231,7 @@ export default function Categories() {
             onDelete={(id, name) => setDeleteConfirm({ id, name })}
             onUpdateColor={handleUpdateColor}
             onRename={handleRename}
+            onMove={handleMove}
             onPatternChanged={() => loadCategoryDetails(category.id)}
           />
         ))}
@@ -9,6 +9,7 @@ import {
   ArrowDownRight,
   Repeat,
   RefreshCw,
+  ArrowLeft,
 } from 'lucide-react';
 import {
   BarChart,
@@ -24,12 +25,15 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Select } from '@/components/ui/Select';
+import { DateBasisSelect } from '@/components/DateBasisSelect';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { ErrorAlert } from '@/components/ui/ErrorAlert';
 import { LoadingPlaceholder } from '@/components/ui/LoadingPlaceholder';
+import { TransactionTypeBreakdown } from '@/components/TransactionTypeBreakdown';
 import { getDashboard, getAvailableYears, getRecurringPatterns, detectRecurringPatterns, type RecurringPatternResponse } from '@/services/api';
 import { formatCurrency, formatDate, formatMonth } from '@/lib/utils';
+import { useDateBasis } from '@/lib/dateBasis';
 import { useWorkspace } from '@/context/WorkspaceContext';
 import type { DashboardData } from '@compasso/shared';
 
@@ -40,6 +44,9 @@ export default function Dashboard() {
   const [years, setYears] = useState<number[]>([]);
   const [selectedYear, setSelectedYear] = useState<number | undefined>();
   const [selectedMonth, setSelectedMonth] = useState<number | undefined>();
+  const [dateBasis, setDateBasis] = useDateBasis();
+  // Parent category whose subcategories the expense breakdown shows
+  const [drillCategory, setDrillCategory] = useState<{ id: number; name: string } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [recurringPatterns, setRecurringPatterns] = useState<RecurringPatternResponse[]>([]);
@@ -70,6 +77,8 @@ export default function Dashboard() {
         const dashboardData = await getDashboard(currentWorkspace.id, {
           year: selectedYear,
           month: selectedMonth,
+          parentCategoryId: drillCategory?.id,
+          dateBasis,
         });
         setData(dashboardData);
       } catch (err) {
@@ -79,7 +88,7 @@ export default function Dashboard() {
       }
     }
     loadDashboard();
-  }, [currentWorkspace, selectedYear, selectedMonth]);
+  }, [currentWorkspace, selectedYear, selectedMonth, dateBasis, drillCategory]);
 
   useEffect(() => {
     async function loadRecurringPatterns() {
@@ -136,7 +145,7 @@ export default function Dashboard() {
     );
   }
 
-  const { summary, categoryBreakdown, monthlyTrends, recentTransactions, recurringSummary } = data;
+  const { summary, categoryBreakdown, typeBreakdown, monthlyTrends, recentTransactions, recurringSummary } = data;
 
   return (
     <div className="space-y-6">
@@ -178,6 +187,7 @@ export default function Dashboard() {
             ]}
             className="w-36"
           />
+          <DateBasisSelect value={dateBasis} onChange={setDateBasis} className="w-40" />
         </div>
       </div>
 
@@ -287,8 +297,14 @@ export default function Dashboard() {
 
         {/* Category Breakdown */}
         <Card>
-          <CardHeader>
-            <CardTitle>{t('dashboard.expensesByCategory')}</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{drillCategory?.name ?? t('dashboard.expensesByCategory')}</CardTitle>
+            {drillCategory && (
+              <Button variant="ghost" size="sm" onClick={() => setDrillCategory(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                {t('dashboard.allCategories')}
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             {categoryBreakdown.length > 0 ? (() => {
@@ -310,11 +326,18 @@ export default function Dashboard() {
                       percentage > 5 ? `${categoryName} (${percentage.toFixed(0)}%)` : ''
                     }
                     labelLine={false}
+                    onClick={(_, index) => {
+                      const entry = translatedBreakdown[index];
+                      if (entry?.hasChildren && entry.categoryId !== null) {
+                        setDrillCategory({ id: entry.categoryId, name: entry.categoryName });
+                      }
+                    }}
                   >
                     {translatedBreakdown.map((entry, index) => (
                       <Cell
                         key={`cell-${index}`}
                         fill={entry.categoryColor || `hsl(${index * 30}, 70%, 50%)`}
+                        className={entry.hasChildren ? 'cursor-pointer' : undefined}
                       />
                     ))}
                   </Pie>
@@ -331,6 +354,9 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {/* Transaction Types */}
+      <TransactionTypeBreakdown breakdown={typeBreakdown} />
+
       {/* Recurring Patterns */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -441,7 +467,7 @@ export default function Dashboard() {
                       }`}
                     >
                       {tx.isIncome ? '+' : '-'}
-                      {formatCurrency(tx.amount)}
+                      {formatCurrency(tx.amount, tx.currency)}
                     </span>
                   </div>
                 </div>
@@ -0,0 +1,366 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Banknote, Link2, Pencil, Plus, Trash2, Unlink } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import { useToast } from '@/components/ui/Toast';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { ErrorAlert } from '@/components/ui/ErrorAlert';
+import { LoadingPlaceholder } from '@/components/ui/LoadingPlaceholder';
+import { LoanModal } from '@/components/LoanModal';
+import { EuriborRates } from '@/components/EuriborRates';
+import {
+  getLoans,
+  getLoanSchedule,
+  deleteLoan,
+  linkLoanPayments,
+  unlinkLoanPayment,
+  getAccounts,
+} from '@/services/api';
+import type { AccountSummary, LoanInstallment, LoanSummary } from '@compasso/shared';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+
+export default function Loans() {
+  const { t } = useTranslation();
+  const { currentWorkspace, loading: workspaceLoading } = useWorkspace();
+  const { showToast } = useToast();
+
+  const [loans, setLoans] = useState<LoanSummary[]>([]);
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Amortization schedule of the selected loan
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [schedule, setSchedule] = useState<LoanInstallment[]>([]);
+  const [linking, setLinking] = useState(false);
+
+  // Create/edit state
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<LoanSummary | null>(null);
+
+  // Delete state
+  const [deleteTarget, setDeleteTarget] = useState<LoanSummary | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadLoans = useCallback(async () => {
+    if (!currentWorkspace) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [loansData, accountsData] = await Promise.all([
+        getLoans(currentWorkspace.id),
+        getAccounts(currentWorkspace.id),
+      ]);
+      setLoans(loansData);
+      setAccounts(accountsData);
+      setSelectedId((prev) =>
+        loansData.some((l) => l.id === prev) ? prev : (loansData[0]?.id ?? null)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load loans');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentWorkspace]);
+
+  useEffect(() => {
+    loadLoans();
+  }, [loadLoans]);
+
+  useEffect(() => {
+    if (!currentWorkspace || selectedId === null) {
+      setSchedule([]);
+      return;
+    }
+    getLoanSchedule(selectedId, currentWorkspace.id)
+      .then(setSchedule)
+      .catch((err) => console.error('Failed to load amortization schedule:', err));
+  }, [currentWorkspace, selectedId, loans]);
+
+  const handleLink = async () => {
+    if (!currentWorkspace || selectedId === null) return;
+    setLinking(true);
+    try {
+      const result = await linkLoanPayments(selectedId, currentWorkspace.id);
+      showToast(t('loans.linked', { count: result.linked }), 'success');
+      await loadLoans();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('loans.failedToLink'), 'error');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const handleUnlink = async (installment: LoanInstallment) => {
+    if (!currentWorkspace || selectedId === null || installment.transactionId === null) return;
+    try {
+      await unlinkLoanPayment(selectedId, currentWorkspace.id, installment.transactionId);
+      await loadLoans();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('loans.failedToLink'), 'error');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget || !currentWorkspace) return;
+    setDeleting(true);
+    try {
+      await deleteLoan(deleteTarget.id, currentWorkspace.id);
+      showToast(t('loans.deleted'), 'success');
+      setDeleteTarget(null);
+      await loadLoans();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('loans.failedToDelete'), 'error');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const openForm = (loan: LoanSummary | null) => {
+    setEditing(loan);
+    setFormOpen(true);
+  };
+
+  const selectedLoan = loans.find((l) => l.id === selectedId);
+
+  if (workspaceLoading || !currentWorkspace) {
+    return <LoadingPlaceholder text={t('common.loadingWorkspace')} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('loans.title')}</h1>
+          <p className="text-muted-foreground">{t('loans.subtitle')}</p>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t('loans.addLoan')}
+        </Button>
+      </div>
+
+      {error && <ErrorAlert message={error} />}
+
+      <LoanModal
+        open={formOpen}
+        loan={editing}
+        workspaceId={currentWorkspace.id}
+        baseCurrency={currentWorkspace.baseCurrency}
+        accounts={accounts}
+        onClose={() => setFormOpen(false)}
+        onSaved={loadLoans}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={t('loans.deleteLoan')}
+        message={t('loans.deleteConfirm', { name: deleteTarget?.name ?? '' })}
+        confirmLabel={t('common.delete')}
+        cancelLabel={t('common.cancel')}
+        variant="danger"
+        loading={deleting}
+      />
+
+      {/* Loans table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('loans.loanCount', { count: loans.length })}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingPlaceholder text={t('common.loading')} />
+          ) : loans.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64 gap-4">
+              <Banknote className="h-12 w-12 text-muted-foreground" />
+              <div className="text-center">
+                <p className="text-muted-foreground">{t('loans.noLoans')}</p>
+                <p className="text-sm text-muted-foreground mt-1">{t('loans.noLoansHint')}</p>
+              </div>
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('loans.name')}</TableHead>
+                    <TableHead>{t('loans.rate')}</TableHead>
+                    <TableHead className="text-right">{t('loans.monthlyPayment')}</TableHead>
+                    <TableHead className="text-right">{t('loans.remainingBalance')}</TableHead>
+                    <TableHead className="text-right">{t('loans.interestPaid')}</TableHead>
+                    <TableHead>{t('loans.nextPayment')}</TableHead>
+                    <TableHead>{t('loans.payoffDate')}</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loans.map((loan) => (
+                    <TableRow
+                      key={loan.id}
+                      onClick={() => setSelectedId(loan.id)}
+                      className={cn('cursor-pointer', loan.id === selectedId && 'bg-muted/50')}
+                    >
+                      <TableCell className="font-medium">{loan.name}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {loan.currentRate}%
+                        {loan.rateType === 'euribor' && (
+                          <span className="text-xs text-muted-foreground ml-1">
+                            {t('loans.euriborSpread', {
+                              tenor: loan.euriborTenor,
+                              spread: loan.spread,
+                            })}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatCurrency(loan.monthlyPayment, loan.currency)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium whitespace-nowrap">
+                        {formatCurrency(loan.remainingBalance, loan.currency)}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatCurrency(loan.interestPaid, loan.currency)}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {loan.nextPaymentDate ? formatDate(loan.nextPaymentDate) : '-'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(loan.payoffDate)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openForm(loan)}
+                            title={t('loans.editLoan')}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setDeleteTarget(loan)}
+                            title={t('loans.deleteLoan')}
+                            className="text-muted-foreground hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Amortization schedule */}
+      {selectedLoan && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>{t('loans.schedule', { name: selectedLoan.name })}</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                {t('loans.linkedInstallments', {
+                  linked: selectedLoan.linkedInstallments,
+                  due: selectedLoan.dueInstallments,
+                })}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleLink} disabled={linking}>
+              <Link2 className="h-4 w-4 mr-1" />
+              {t('loans.linkPayments')}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg overflow-auto max-h-[32rem]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>{t('loans.dueDate')}</TableHead>
+                    <TableHead className="text-right">{t('loans.rate')}</TableHead>
+                    <TableHead className="text-right">{t('loans.payment')}</TableHead>
+                    <TableHead className="text-right">{t('loans.interest')}</TableHead>
+                    <TableHead className="text-right">{t('loans.principalPaid')}</TableHead>
+                    <TableHead className="text-right">{t('loans.balance')}</TableHead>
+                    <TableHead>{t('loans.paid')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedule.map((installment) => (
+                    <TableRow key={installment.number}>
+                      <TableCell className="text-muted-foreground">{installment.number}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(installment.date)}
+                      </TableCell>
+                      <TableCell className="text-right">{installment.rate}%</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatCurrency(installment.payment, selectedLoan.currency)}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatCurrency(installment.interest, selectedLoan.currency)}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatCurrency(installment.principal, selectedLoan.currency)}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatCurrency(installment.balance, selectedLoan.currency)}
+                      </TableCell>
+                      <TableCell>
+                        {installment.transactionId !== null && installment.paidDate && (
+                          <div className="flex items-center gap-1">
+                            <Badge variant="secondary" className="whitespace-nowrap">
+                              {formatDate(installment.paidDate)} ·{' '}
+                              {formatCurrency(installment.paidAmount ?? 0, selectedLoan.currency)}
+                            </Badge>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleUnlink(installment)}
+                              className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                              title={t('loans.unlink')}
+                            >
+                              <Unlink className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Euribor values */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('loans.euriborRates')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <EuriborRates workspaceId={currentWorkspace.id} onChange={loadLoans} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
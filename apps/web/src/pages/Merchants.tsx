@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Store, Search, Pencil, Merge, Wand2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Badge } from '@/components/ui/Badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import { useToast } from '@/components/ui/Toast';
+import { Modal } from '@/components/ui/Modal';
+import { Pagination } from '@/components/ui/Pagination';
+import { ErrorAlert } from '@/components/ui/ErrorAlert';
+import { LoadingPlaceholder } from '@/components/ui/LoadingPlaceholder';
+import {
+  getMerchants,
+  renameMerchant,
+  mergeMerchants,
+  assignMerchants,
+  type MerchantListResponse,
+} from '@/services/api';
+import type { Merchant } from '@compasso/shared';
+import { useWorkspace } from '@/context/WorkspaceContext';
+
+const PAGE_SIZE = 50;
+
+export default function Merchants() {
+  const { t } = useTranslation();
+  const { currentWorkspace, loading: workspaceLoading } = useWorkspace();
+  const { showToast } = useToast();
+
+  const [data, setData] = useState<MerchantListResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [assigning, setAssigning] = useState(false);
+
+  // Selection for merging
+  const [selected, setSelected] = useState<Merchant[]>([]);
+
+  // Rename state
+  const [renameTarget, setRenameTarget] = useState<Merchant | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Merge state
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const loadMerchants = useCallback(async () => {
+    if (!currentWorkspace) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getMerchants(currentWorkspace.id, {
+        search: search || undefined,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+      });
+      setData(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load merchants');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentWorkspace, search, page]);
+
+  useEffect(() => {
+    loadMerchants();
+  }, [loadMerchants]);
+
+  const toggleSelected = (merchant: Merchant) => {
+    setSelected((prev) =>
+      prev.some((m) => m.id === merchant.id)
+        ? prev.filter((m) => m.id !== merchant.id)
+        : [...prev, merchant]
+    );
+  };
+
+  const handleAssign = async () => {
+    if (!currentWorkspace) return;
+    setAssigning(true);
+    try {
+      const result = await assignMerchants(currentWorkspace.id);
+      showToast(t('merchants.assigned', { count: result.assigned }), 'success');
+      await loadMerchants();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('merchants.failedToAssign'), 'error');
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const handleRenameOpen = (merchant: Merchant) => {
+    setRenameTarget(merchant);
+    setRenameValue(merchant.name);
+  };
+
+  const handleRenameSave = async () => {
+    if (!renameTarget || !currentWorkspace) return;
+    const name = renameValue.trim();
+    if (!name || name === renameTarget.name) {
+      setRenameTarget(null);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await renameMerchant(renameTarget.id, currentWorkspace.id, name);
+      setData((prev) =>
+        prev ? { ...prev, items: prev.items.map((m) => (m.id === updated.id ? updated : m)) } : prev
+      );
+      showToast(t('merchants.renamed'), 'success');
+      setRenameTarget(null);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('merchants.failedToRename'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMergeOpen = () => {
+    // Default to the most used merchant as the one to keep
+    const target = [...selected].sort((a, b) => b.transactionCount - a.transactionCount)[0];
+    setMergeTargetId(target?.id ?? null);
+    setMergeOpen(true);
+  };
+
+  const handleMerge = async () => {
+    if (!currentWorkspace || mergeTargetId === null) return;
+    setMerging(true);
+    try {
+      const sourceIds = selected.filter((m) => m.id !== mergeTargetId).map((m) => m.id);
+      const merged = await mergeMerchants(mergeTargetId, currentWorkspace.id, sourceIds);
+      showToast(t('merchants.merged', { name: merged.name }), 'success');
+      setMergeOpen(false);
+      setSelected([]);
+      await loadMerchants();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('merchants.failedToMerge'), 'error');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const totalPages = data ? Math.ceil(data.total / PAGE_SIZE) : 0;
+
+  if (workspaceLoading || !currentWorkspace) {
+    return <LoadingPlaceholder text={t('common.loadingWorkspace')} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('merchants.title')}</h1>
+          <p className="text-muted-foreground">{t('merchants.subtitle')}</p>
+        </div>
+        <Button variant="outline" onClick={handleAssign} disabled={assigning}>
+          <Wand2 className="h-4 w-4 mr-2" />
+          {assigning ? t('merchants.assigning') : t('merchants.assignMissing')}
+        </Button>
+      </div>
+
+      {error && <ErrorAlert message={error} />}
+
+      {/* Rename modal */}
+      <Modal
+        open={!!renameTarget}
+        onClose={() => setRenameTarget(null)}
+        title={t('merchants.renameMerchant')}
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('merchants.name')}
+            </label>
+            <Input value={renameValue} onChange={(e) => setRenameValue(e.target.value)} />
+            <p className="text-xs text-muted-foreground mt-1">{t('merchants.renameHint')}</p>
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => setRenameTarget(null)} disabled={saving}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleRenameSave} disabled={saving || !renameValue.trim()}>
+              {saving ? t('common.saving') : t('common.save')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Merge modal */}
+      <Modal
+        open={mergeOpen}
+        onClose={() => setMergeOpen(false)}
+        title={t('merchants.mergeMerchants')}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {t('merchants.mergeDescription', { count: selected.length })}
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('merchants.keepAs')}
+            </label>
+            <Select
+              value={mergeTargetId ?? ''}
+              onChange={(e) => setMergeTargetId(parseInt(e.target.value))}
+              options={selected.map((m) => ({ value: m.id, label: m.name }))}
+            />
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => setMergeOpen(false)} disabled={merging}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleMerge} disabled={merging || mergeTargetId === null}>
+              {merging ? t('merchants.merging') : t('merchants.merge')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Merchants table */}
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <CardTitle>{t('merchants.merchantCount', { count: data?.total ?? 0 })}</CardTitle>
+          <div className="flex items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={t('merchants.search')}
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setPage(0);
+                }}
+                className="pl-9"
+              />
+            </div>
+            <Button onClick={handleMergeOpen} disabled={selected.length < 2}>
+              <Merge className="h-4 w-4 mr-2" />
+              {t('merchants.mergeSelected', { count: selected.length })}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingPlaceholder text={t('common.loading')} />
+          ) : data?.items.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64 gap-4">
+              <Store className="h-12 w-12 text-muted-foreground" />
+              <div className="text-center">
+                <p className="text-muted-foreground">{t('merchants.noMerchants')}</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {t('merchants.noMerchantsHint')}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <>
+              <Pagination
+                page={page}
+                totalPages={totalPages}
+                total={data?.total ?? 0}
+                pageSize={PAGE_SIZE}
+                onPageChange={setPage}
+              />
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>{t('merchants.name')}</TableHead>
+                      <TableHead>{t('merchants.aliases')}</TableHead>
+                      <TableHead className="text-right">
+                        {t('reports.transactionsHeader')}
+                      </TableHead>
+                      <TableHead className="w-24" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data?.items.map((merchant) => (
+                      <TableRow key={merchant.id}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 rounded border-gray-300"
+                            checked={selected.some((m) => m.id === merchant.id)}
+                            onChange={() => toggleSelected(merchant)}
+                            aria-label={t('merchants.selectMerchant', { name: merchant.name })}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          <Link
+                            to={`/transactions?merchant=${merchant.id}`}
+                            className="hover:underline"
+                          >
+                            {merchant.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {merchant.aliases.map((alias) => (
+                              <Badge key={alias} variant="outline">
+                                {alias}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{merchant.transactionCount}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRenameOpen(merchant)}
+                            title={t('merchants.renameMerchant')}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import {
   DollarSign,
   CreditCard,
   BarChart3,
+  ArrowLeft,
+  ChevronRight,
 } from 'lucide-react';
 import {
   BarChart,
@@ -23,6 +25,12 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Select } from '@/components/ui/Select';
+import { Button } from '@/components/ui/Button';
+import { TransactionTypeBreakdown } from '@/components/TransactionTypeBreakdown';
+import { TopMerchantsTable } from '@/components/TopMerchantsTable';
+import { TagSpendingTable } from '@/components/TagSpendingTable';
+import { NetWorthReport } from '@/components/NetWorthReport';
+import { DateBasisSelect } from '@/components/DateBasisSelect';
 import {
   Table,
   TableBody,
@@ -35,10 +43,14 @@ import {
   getReportYears,
   getYearlySummary,
   getCategoryTrends,
+  getTopMerchants,
+  getTagSpending,
   type YearlySummary,
   type CategoryTrend,
 } from '@/services/api';
 import { formatCurrency, formatMonth } from '@/lib/utils';
+import { useDateBasis } from '@/lib/dateBasis';
+import type { TagSpending, TopMerchant } from '@compasso/shared';
 import { useWorkspace } from '@/context/WorkspaceContext';
 
 export default function Reports() {
@@ -48,6 +60,11 @@ export default function Reports() {
   const [selectedYear, setSelectedYear] = useState<number | undefined>();
   const [summary, setSummary] = useState<YearlySummary | null>(null);
   const [trends, setTrends] = useState<CategoryTrend[]>([]);
+  const [topMerchants, setTopMerchants] = useState<TopMerchant[]>([]);
+  const [tagSpending, setTagSpending] = useState<TagSpending[]>([]);
+  const [dateBasis, setDateBasis] = useDateBasis();
+  // Parent category whose subcategories the category breakdown and trends show
+  const [drillCategory, setDrillCategory] = useState<{ id: number; name: string } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -77,12 +94,16 @@ export default function Reports() {
       setLoading(true);
       setError(null);
       try {
-        const [summaryData, trendsData] = await Promise.all([
-          getYearlySummary(currentWorkspace.id, selectedYear),
-          getCategoryTrends(currentWorkspace.id, 12),
+        const [summaryData, trendsData, merchantsData, tagsData] = await Promise.all([
+          getYearlySummary(currentWorkspace.id, selectedYear, dateBasis, drillCategory?.id),
+          getCategoryTrends(currentWorkspace.id, 12, dateBasis, drillCategory?.id),
+          getTopMerchants(currentWorkspace.id, { year: selectedYear, dateBasis }),
+          getTagSpending(currentWorkspace.id, { year: selectedYear, dateBasis }),
         ]);
         setSummary(summaryData);
         setTrends(trendsData);
+        setTopMerchants(merchantsData);
+        setTagSpending(tagsData);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load reports');
       } finally {
@@ -90,7 +111,7 @@ export default function Reports() {
       }
     }
     loadData();
-  }, [currentWorkspace, selectedYear]);
+  }, [currentWorkspace, selectedYear, dateBasis, drillCategory]);
 
   const translateCat = (name: string) => name === 'Uncategorized' ? t('categories.uncategorized') : name;
 
@@ -124,6 +145,7 @@ export default function Reports() {
             {t('reports.uploadToSee')}
           </p>
         </div>
+        <NetWorthReport workspaceId={currentWorkspace.id} />
       </div>
     );
   }
@@ -136,12 +158,15 @@ export default function Reports() {
           <h1 className="text-2xl font-bold text-gray-900">{t('reports.title')}</h1>
           <p className="text-muted-foreground">{t('reports.subtitle')}</p>
         </div>
-        <Select
-          value={selectedYear?.toString() || ''}
-          onChange={(e) => setSelectedYear(parseInt(e.target.value))}
-          options={years.map((y) => ({ value: y, label: y.toString() }))}
-          className="w-32"
-        />
+        <div className="flex gap-2">
+          <Select
+            value={selectedYear?.toString() || ''}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+            options={years.map((y) => ({ value: y, label: y.toString() }))}
+            className="w-32"
+          />
+          <DateBasisSelect value={dateBasis} onChange={setDateBasis} className="w-40" />
+        </div>
       </div>
 
       {loading ? (
@@ -252,8 +277,14 @@ export default function Reports() {
 
           {/* Category breakdown table */}
           <Card>
-            <CardHeader>
-              <CardTitle>{t('reports.expensesByCategory')}</CardTitle>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>{drillCategory?.name ?? t('reports.expensesByCategory')}</CardTitle>
+              {drillCategory && (
+                <Button variant="ghost" size="sm" onClick={() => setDrillCategory(null)}>
+                  <ArrowLeft className="h-4 w-4 mr-1" />
+                  {t('reports.allCategories')}
+                </Button>
+              )}
             </CardHeader>
             <CardContent>
               {summary.categoryBreakdown.length > 0 ? (
@@ -276,7 +307,21 @@ export default function Reports() {
                                 className="w-3 h-3 rounded-full"
                                 style={{ backgroundColor: cat.categoryColor || '#a1a1aa' }}
                               />
-                              {translateCat(cat.categoryName)}
+                              {cat.hasChildren && cat.categoryId !== null ? (
+                                <button
+                                  type="button"
+                                  className="flex items-center gap-1 hover:underline"
+                                  title={t('reports.showSubcategories')}
+                                  onClick={() =>
+                                    setDrillCategory({ id: cat.categoryId!, name: cat.categoryName })
+                                  }
+                                >
+                                  {cat.categoryName}
+                                  <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />
+                                </button>
+                              ) : (
+                                translateCat(cat.categoryName)
+                              )}
                             </div>
                           </TableCell>
                           <TableCell className="text-right font-medium">
@@ -297,10 +342,23 @@ export default function Reports() {
             </CardContent>
           </Card>
 
+          {/* Transaction type breakdown */}
+          <TransactionTypeBreakdown breakdown={summary.typeBreakdown} />
+
+          {/* Top merchants */}
+          <TopMerchantsTable merchants={topMerchants} />
+
+          {/* Spending by tag */}
+          <TagSpendingTable tags={tagSpending} />
+
           {/* Category trends */}
           <Card>
             <CardHeader>
-              <CardTitle>{t('reports.categoryTrends')}</CardTitle>
+              <CardTitle>
+                {drillCategory
+                  ? `${t('reports.categoryTrends')}: ${drillCategory.name}`
+                  : t('reports.categoryTrends')}
+              </CardTitle>
             </CardHeader>
             <CardContent>
               {trends.length > 0 ? (
@@ -381,6 +439,9 @@ export default function Reports() {
           </Card>
         </>
       ) : null}
+
+      {/* Net worth over time */}
+      <NetWorthReport workspaceId={currentWorkspace.id} />
     </div>
   );
 }
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useSearchParams } from 'react-router-dom';
-import { Search, ArrowUpRight, ArrowDownRight, Trash2, Repeat, Download } from 'lucide-react';
+import { Search, ArrowUpRight, ArrowDownRight, Trash2, Repeat, Download, Store, X, Plus, Pencil, Scissors } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -15,6 +15,10 @@ import {
   TableRow,
 } from '@/components/ui/Table';
 import { CategorySelect } from '@/components/CategorySelect';
+import { DateBasisSelect } from '@/components/DateBasisSelect';
+import { ManualTransactionModal } from '@/components/ManualTransactionModal';
+import { TagBulkActions } from '@/components/TagBulkActions';
+import { SplitTransactionModal } from '@/components/SplitTransactionModal';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { ErrorAlert } from '@/components/ui/ErrorAlert';
 import { LoadingPlaceholder } from '@/components/ui/LoadingPlaceholder';
@@ -24,14 +28,25 @@ import {
   getCategories,
   getAvailableYears,
   getSupportedBanks,
+  getAccounts,
+  getTags,
   updateTransaction,
   deleteTransaction,
   exportTransactionsCsv,
 } from '@/services/api';
 import { Pagination } from '@/components/ui/Pagination';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import { useDateBasis } from '@/lib/dateBasis';
 import { useWorkspace } from '@/context/WorkspaceContext';
-import type { TransactionWithCategory, Category, PaginatedResponse } from '@compasso/shared';
+import { MANUAL_BANK_ID, TRANSACTION_TYPES } from '@compasso/shared';
+import type {
+  Account,
+  TransactionWithCategory,
+  Category,
+  PaginatedResponse,
+  Tag,
+  TransactionType,
+} from '@compasso/shared';
 
 const MONTH_KEYS = [
   'january', 'february', 'march', 'april', 'may', 'june',
@@ -54,6 +69,12 @@ export default function Transactions() {
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [manualModal, setManualModal] = useState<{ transaction: TransactionWithCategory | null } | null>(null);
+  const [splitTarget, setSplitTarget] = useState<TransactionWithCategory | null>(null);
+  const [dateBasis, setDateBasis] = useDateBasis();
 
   // Derive filter state from URL search params
   const selectedYear = searchParams.get('year') ? parseInt(searchParams.get('year')!) : undefined;
@@ -63,6 +84,12 @@ export default function Transactions() {
     ? 'none'
     : selectedCategoryRaw ? parseInt(selectedCategoryRaw) : undefined;
   const selectedType = (searchParams.get('type') || 'all') as 'all' | 'income' | 'expense';
+  const selectedTransactionType = (searchParams.get('transactionType') || undefined) as
+    | TransactionType
+    | 'none'
+    | undefined;
+  const selectedMerchant = searchParams.get('merchant') ? parseInt(searchParams.get('merchant')!) : undefined;
+  const selectedTag = searchParams.get('tag') || undefined;
   const search = searchParams.get('search') || '';
   const page = searchParams.get('page') ? parseInt(searchParams.get('page')!) : 0;
 
@@ -84,14 +111,18 @@ export default function Transactions() {
     async function loadInitialData() {
       if (!currentWorkspace) return;
       try {
-        const [yearsData, categoriesData, banksData] = await Promise.all([
+        const [yearsData, categoriesData, banksData, accountsData, tagsData] = await Promise.all([
           getAvailableYears(currentWorkspace.id),
           getCategories(currentWorkspace.id, { limit: 1000 }),
-          getSupportedBanks(),
+          getSupportedBanks(currentWorkspace.id),
+          getAccounts(currentWorkspace.id),
+          getTags(currentWorkspace.id),
         ]);
         setYears(yearsData);
         setCategories(categoriesData.items);
         setBanks(banksData);
+        setAccounts(accountsData);
+        setTags(tagsData);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load initial data');
       }
@@ -103,11 +134,12 @@ export default function Transactions() {
     if (currentWorkspace) {
       loadTransactions();
     }
-  }, [currentWorkspace, selectedYear, selectedMonth, selectedCategory, selectedType, search, page]);
+  }, [currentWorkspace, selectedYear, selectedMonth, selectedCategory, selectedType, selectedTransactionType, selectedMerchant, selectedTag, dateBasis, search, page]);
 
   async function loadTransactions() {
     if (!currentWorkspace) return;
     setLoading(true);
+    setSelectedIds([]);
     try {
       const result = await getTransactions(currentWorkspace.id, {
         year: selectedYear,
@@ -115,6 +147,10 @@ export default function Transactions() {
         categoryId: selectedCategory,
         isIncome: selectedType === 'all' ? undefined : selectedType === 'income',
         search: search || undefined,
+        transactionType: selectedTransactionType,
+        merchantId: selectedMerchant,
+        tag: selectedTag,
+        dateBasis,
         limit: PAGE_SIZE,
         offset: page * PAGE_SIZE,
       });
@@ -173,6 +209,25 @@ export default function Transactions() {
     setCategories((prev) => [...prev, newCategory]);
   };
 
+  const toggleSelected = (transactionId: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(transactionId) ? prev.filter((id) => id !== transactionId) : [...prev, transactionId]
+    );
+  };
+
+  const pageIds = data?.items.map((tx) => tx.id) ?? [];
+  const allSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+
+  const handleTagged = async () => {
+    if (!currentWorkspace) return;
+    loadTransactions();
+    try {
+      setTags(await getTags(currentWorkspace.id));
+    } catch (err) {
+      console.error('Failed to reload tags:', err);
+    }
+  };
+
   const handleExport = async () => {
     if (!currentWorkspace) return;
     setExporting(true);
@@ -183,6 +238,10 @@ export default function Transactions() {
         categoryId: selectedCategory,
         isIncome: selectedType === 'all' ? undefined : selectedType === 'income',
         search: search || undefined,
+        transactionType: selectedTransactionType,
+        merchantId: selectedMerchant,
+        tag: selectedTag,
+        dateBasis,
       });
       showToast(t('transactions.exportSuccess'), 'success');
     } catch (err) {
@@ -211,7 +270,7 @@ export default function Transactions() {
       {/* Filters */}
       <Card>
         <CardContent className="pt-6">
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
@@ -268,7 +327,56 @@ export default function Transactions() {
                 { value: 'expense', label: t('transactions.expensesOnly') },
               ]}
             />
+            <SearchableSelect
+              value={selectedTransactionType ?? ''}
+              onChange={(val) => {
+                updateParams({ transactionType: val || undefined, page: undefined });
+              }}
+              options={[
+                { value: '', label: t('transactions.allTransactionTypes') },
+                { value: 'none', label: t('transactionTypes.none') },
+                ...TRANSACTION_TYPES.map((type) => ({
+                  value: type,
+                  label: t(`transactionTypes.${type}`),
+                })),
+              ]}
+            />
+            <SearchableSelect
+              value={selectedTag ?? ''}
+              onChange={(val) => {
+                updateParams({ tag: val || undefined, page: undefined });
+              }}
+              options={[
+                { value: '', label: t('tags.allTags') },
+                ...tags.map((tag) => ({ value: tag.name, label: tag.name, color: tag.color ?? undefined })),
+              ]}
+            />
+            <DateBasisSelect
+              value={dateBasis}
+              onChange={(basis) => {
+                setDateBasis(basis);
+                updateParams({ page: undefined });
+              }}
+            />
           </div>
+          {selectedMerchant && (
+            <div className="mt-4 flex items-center gap-2 text-sm">
+              <Store className="h-4 w-4 text-muted-foreground" />
+              <span>
+                {t('transactions.merchantFilter', {
+                  name: data?.items[0]?.merchantName ?? `#${selectedMerchant}`,
+                })}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateParams({ merchant: undefined, page: undefined })}
+              >
+                <X className="h-4 w-4 mr-1" />
+                {t('transactions.clearMerchantFilter')}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -278,10 +386,16 @@ export default function Transactions() {
           <CardTitle>
             {t('transactions.transactionCount', { count: data?.total ?? 0 })}
           </CardTitle>
-          <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || !data?.total}>
-            <Download className="h-4 w-4 mr-2" />
-            {exporting ? t('transactions.exporting') : t('transactions.exportCsv')}
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || !data?.total}>
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? t('transactions.exporting') : t('transactions.exportCsv')}
+            </Button>
+            <Button size="sm" onClick={() => setManualModal({ transaction: null })}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t('transactions.manual.add')}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -302,10 +416,30 @@ export default function Transactions() {
                 pageSize={PAGE_SIZE}
                 onPageChange={(p) => updateParams({ page: p.toString() })}
               />
+              {selectedIds.length > 0 && (
+                <div className="mt-4">
+                  <TagBulkActions
+                    workspaceId={currentWorkspace.id}
+                    tags={tags}
+                    transactionIds={selectedIds}
+                    onClear={() => setSelectedIds([])}
+                    onTagged={handleTagged}
+                  />
+                </div>
+              )}
               <div className="border rounded-lg mt-4">
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-10">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 rounded border-gray-300"
+                          checked={allSelected}
+                          onChange={() => setSelectedIds(allSelected ? [] : pageIds)}
+                          aria-label={t('tags.selectAll')}
+                        />
+                      </TableHead>
                       <TableHead className="w-10"></TableHead>
                       <TableHead>{t('transactions.date')}</TableHead>
                       <TableHead>{t('transactions.description')}</TableHead>
@@ -317,6 +451,15 @@ export default function Transactions() {
                   <TableBody>
                     {data?.items.map((tx) => (
                       <TableRow key={tx.id}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 rounded border-gray-300"
+                            checked={selectedIds.includes(tx.id)}
+                            onChange={() => toggleSelected(tx.id)}
+                            aria-label={t('tags.selectTransaction', { description: tx.description })}
+                          />
+                        </TableCell>
                         <TableCell>
                           <div
                             className={`p-1.5 rounded-full ${
@@ -332,29 +475,88 @@ export default function Transactions() {
                         </TableCell>
                         <TableCell className="whitespace-nowrap">
                           {formatDate(tx.date)}
+                          {tx.valueDate && tx.valueDate !== tx.date && (
+                            <div className="text-xs text-muted-foreground">
+                              {t('transactions.valueDateShort', { date: formatDate(tx.valueDate) })}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="max-w-xs">
                           <div className="flex items-center gap-2">
                             <span className="truncate block">{tx.description}</span>
+                            {tx.merchantName && tx.merchantId !== selectedMerchant && (
+                              <button
+                                type="button"
+                                className="flex-shrink-0 text-xs text-blue-600 hover:underline"
+                                title={t('transactions.filterByMerchant')}
+                                onClick={() => updateParams({ merchant: tx.merchantId!.toString(), page: undefined })}
+                              >
+                                {tx.merchantName}
+                              </button>
+                            )}
+                            {tx.transactionType && (
+                              <span className="flex-shrink-0 text-xs text-muted-foreground">
+                                {t(`transactionTypes.${tx.transactionType}`)}
+                              </span>
+                            )}
                             {tx.recurringPatternId && (
                               <span title={t('transactions.recurringTransaction')} className="flex-shrink-0">
                                 <Repeat className="h-3.5 w-3.5 text-blue-500" />
                               </span>
                             )}
                           </div>
+                          {tx.tags && tx.tags.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {tx.tags.map((tag) => (
+                                <button
+                                  key={tag.id}
+                                  type="button"
+                                  className="rounded-full border px-2 py-0.5 text-xs hover:bg-muted"
+                                  style={tag.color ? { borderColor: tag.color, color: tag.color } : undefined}
+                                  title={t('tags.filterByTag')}
+                                  onClick={() => updateParams({ tag: tag.name, page: undefined })}
+                                >
+                                  {tag.name}
+                                </button>
+                              ))}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
-                          <CategorySelect
-                            value={tx.categoryId}
-                            categories={categories}
-                            workspaceId={currentWorkspace.id}
-                            onChange={(categoryId) => handleCategoryChange(tx.id, categoryId)}
-                            onCategoryCreated={handleCategoryCreated}
-                            className="w-40"
-                            transactionDescription={tx.description}
-                            banks={banks}
-                            defaultBankId={tx.bankId}
-                          />
+                          {tx.splits && tx.splits.length > 0 ? (
+                            <button
+                              type="button"
+                              className="w-40 text-left text-sm hover:underline"
+                              title={t('transactions.split.edit')}
+                              onClick={() => setSplitTarget(tx)}
+                            >
+                              <span className="flex items-center gap-1">
+                                <Scissors className="h-3.5 w-3.5 text-muted-foreground" />
+                                {t('transactions.split.summary', { count: tx.splits.length })}
+                              </span>
+                              <span className="block truncate text-xs text-muted-foreground">
+                                {tx.splits
+                                  .map(
+                                    (part) =>
+                                      categories.find((c) => c.id === part.categoryId)?.name ??
+                                      t('categories.noCategory')
+                                  )
+                                  .join(', ')}
+                              </span>
+                            </button>
+                          ) : (
+                            <CategorySelect
+                              value={tx.categoryId}
+                              categories={categories}
+                              workspaceId={currentWorkspace.id}
+                              onChange={(categoryId) => handleCategoryChange(tx.id, categoryId)}
+                              onCategoryCreated={handleCategoryCreated}
+                              className="w-40"
+                              transactionDescription={tx.description}
+                              banks={tx.bankId === MANUAL_BANK_ID ? undefined : banks}
+                              defaultBankId={tx.bankId}
+                            />
+                          )}
                         </TableCell>
                         <TableCell className="text-right whitespace-nowrap">
                           <span
@@ -363,10 +565,35 @@ export default function Transactions() {
                             }`}
                           >
                             {tx.isIncome ? '+' : '-'}
-                            {formatCurrency(tx.amount)}
+                            {formatCurrency(tx.amount, tx.currency)}
                           </span>
+                          {tx.currency && tx.currency !== currentWorkspace?.baseCurrency && (
+                            <div className="text-xs text-muted-foreground">
+                              {formatCurrency(tx.baseAmount ?? tx.amount)}
+                            </div>
+                          )}
                         </TableCell>
-                        <TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {tx.bankId === MANUAL_BANK_ID && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setManualModal({ transaction: tx })}
+                              className="h-8 w-8 text-muted-foreground"
+                              title={t('transactions.manual.edit')}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setSplitTarget(tx)}
+                            className="h-8 w-8 text-muted-foreground"
+                            title={t('transactions.split.edit')}
+                          >
+                            <Scissors className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -406,6 +633,26 @@ export default function Transactions() {
         variant="danger"
         loading={deleting}
       />
+
+      <ManualTransactionModal
+        open={manualModal !== null}
+        transaction={manualModal?.transaction ?? null}
+        workspaceId={currentWorkspace.id}
+        accounts={accounts}
+        categories={categories}
+        onClose={() => setManualModal(null)}
+        onSaved={loadTransactions}
+        onCategoryCreated={handleCategoryCreated}
+      />
+
+      <SplitTransactionModal
+        transaction={splitTarget}
+        workspaceId={currentWorkspace.id}
+        categories={categories}
+        onClose={() => setSplitTarget(null)}
+        onSaved={loadTransactions}
+        onCategoryCreated={handleCategoryCreated}
+      />
     </div>
   );
 }
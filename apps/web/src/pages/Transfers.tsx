@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeftRight, ArrowRight, Check, RefreshCw, Unlink } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { Badge } from '@/components/ui/Badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/Table';
+import { useToast } from '@/components/ui/Toast';
+import { ErrorAlert } from '@/components/ui/ErrorAlert';
+import { LoadingPlaceholder } from '@/components/ui/LoadingPlaceholder';
+import { getTransfers, detectTransfers, confirmTransfer, unlinkTransfer } from '@/services/api';
+import type { InternalTransfer, TransferTransaction } from '@compasso/shared';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+type StatusFilter = 'all' | 'suggested' | 'confirmed';
+
+export default function Transfers() {
+  const { t } = useTranslation();
+  const { currentWorkspace, loading: workspaceLoading } = useWorkspace();
+  const { showToast } = useToast();
+
+  const [transfers, setTransfers] = useState<InternalTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [detecting, setDetecting] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  const loadTransfers = useCallback(async () => {
+    if (!currentWorkspace) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setTransfers(await getTransfers(currentWorkspace.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transfers');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentWorkspace]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  const filteredTransfers = useMemo(
+    () =>
+      statusFilter === 'all' ? transfers : transfers.filter((tr) => tr.status === statusFilter),
+    [transfers, statusFilter]
+  );
+
+  const suggestedCount = transfers.filter((tr) => tr.status === 'suggested').length;
+
+  const handleDetect = async () => {
+    if (!currentWorkspace) return;
+    setDetecting(true);
+    setError(null);
+    try {
+      const result = await detectTransfers(currentWorkspace.id);
+      showToast(t('transfers.detected', { count: result.detected }), 'success');
+      await loadTransfers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to detect transfers');
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  const handleConfirm = async (transfer: InternalTransfer) => {
+    if (!currentWorkspace) return;
+    setBusyId(transfer.id);
+    try {
+      const updated = await confirmTransfer(transfer.id, currentWorkspace.id);
+      setTransfers((prev) => prev.map((tr) => (tr.id === updated.id ? updated : tr)));
+      showToast(t('transfers.confirmed'), 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('transfers.failedToUpdate'), 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUnlink = async (transfer: InternalTransfer) => {
+    if (!currentWorkspace) return;
+    setBusyId(transfer.id);
+    try {
+      await unlinkTransfer(transfer.id, currentWorkspace.id);
+      setTransfers((prev) => prev.filter((tr) => tr.id !== transfer.id));
+      showToast(t('transfers.unlinked'), 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('transfers.failedToUpdate'), 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderSide = (side: TransferTransaction) => (
+    <div className="min-w-0">
+      <div className="truncate max-w-[240px]" title={side.description}>
+        {side.description}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {formatDate(side.date)}
+        {side.accountName && ` · ${side.accountName}`}
+      </div>
+    </div>
+  );
+
+  if (workspaceLoading || !currentWorkspace) {
+    return <LoadingPlaceholder text={t('common.loading')} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('transfers.title')}</h1>
+          <p className="text-muted-foreground">{t('transfers.subtitle')}</p>
+        </div>
+        <Button onClick={handleDetect} disabled={detecting}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${detecting ? 'animate-spin' : ''}`} />
+          {detecting ? t('transfers.detecting') : t('transfers.detect')}
+        </Button>
+      </div>
+
+      {error && <ErrorAlert message={error} />}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>
+            {t('transfers.transferCount', { count: filteredTransfers.length })}
+            {suggestedCount > 0 && (
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                {t('transfers.toReview', { count: suggestedCount })}
+              </span>
+            )}
+          </CardTitle>
+          <Select
+            className="w-48"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            options={[
+              { value: 'all', label: t('transfers.allStatuses') },
+              { value: 'suggested', label: t('transfers.status.suggested') },
+              { value: 'confirmed', label: t('transfers.status.confirmed') },
+            ]}
+          />
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingPlaceholder text={t('common.loading')} />
+          ) : filteredTransfers.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-48 gap-2">
+              <ArrowLeftRight className="h-8 w-8 text-muted-foreground" />
+              <p className="text-muted-foreground">{t('transfers.noTransfers')}</p>
+              <p className="text-sm text-muted-foreground">{t('transfers.noTransfersHint')}</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('transfers.from')}</TableHead>
+                    <TableHead className="w-8" />
+                    <TableHead>{t('transfers.to')}</TableHead>
+                    <TableHead className="text-right">{t('transactions.amount')}</TableHead>
+                    <TableHead>{t('transfers.statusHeader')}</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredTransfers.map((transfer) => (
+                    <TableRow key={transfer.id}>
+                      <TableCell>{renderSide(transfer.outgoing)}</TableCell>
+                      <TableCell>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                      </TableCell>
+                      <TableCell>{renderSide(transfer.incoming)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap font-medium">
+                        {formatCurrency(transfer.amount, transfer.currency)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={transfer.status === 'confirmed' ? 'success' : 'warning'}>
+                          {t(`transfers.status.${transfer.status}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1 justify-end">
+                          {transfer.status === 'suggested' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleConfirm(transfer)}
+                              disabled={busyId === transfer.id}
+                              className="h-8 w-8 text-muted-foreground hover:text-green-600"
+                              title={t('transfers.confirm')}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleUnlink(transfer)}
+                            disabled={busyId === transfer.id}
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            title={t('transfers.unlink')}
+                          >
+                            <Unlink className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,17 +4,49 @@ import { useNavigate } from 'react-router-dom';
 import { AlertCircle } from 'lucide-react';
 import { DropzoneUploader } from '@/components/DropzoneUploader';
 import { TransactionPreview } from '@/components/TransactionPreview';
+import { DraftLedgers } from '@/components/DraftLedgers';
+import { BatchUploadProgress } from '@/components/BatchUploadProgress';
 import { LedgersManagement } from '@/components/LedgersManagement';
 import { PatternModal } from '@/components/PatternModal';
+import { CsvProfileModal } from '@/components/CsvProfileModal';
+import { StatementTemplateModal } from '@/components/StatementTemplateModal';
+import { PdfPasswordModal } from '@/components/PdfPasswordModal';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { useToast } from '@/components/ui/Toast';
 import {
-  uploadPDF,
+  uploadStatement,
+  uploadStatementBatch,
+  getUploadBatch,
   confirmTransactions,
+  getAccounts,
   getCategories,
   getSupportedBanks,
   createQuickPattern,
+  getCsvProfiles,
+  deleteCsvProfile,
+  getStatementTemplates,
+  deleteStatementTemplate,
+  getDraftLedgers,
+  getDraftLedger,
+  deleteLedger,
+  ApiError,
+  type SupportedBank,
 } from '@/services/api';
 import { useWorkspace } from '@/context/WorkspaceContext';
-import type { ParsedTransaction, Category, BankId, UploadResponse } from '@compasso/shared';
+import { ErrorCode } from '@compasso/shared';
+import type {
+  Account,
+  ParsedTransaction,
+  Category,
+  BankId,
+  UploadResponse,
+  CsvProfile,
+  StatementTemplate,
+  DraftLedger,
+  UploadBatchJob,
+} from '@compasso/shared';
+
+const BATCH_POLL_INTERVAL_MS = 1000;
 
 interface TransactionWithSelection extends ParsedTransaction {
   selected: boolean;
@@ -25,12 +57,16 @@ export default function Upload() {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const { currentWorkspace, loading: workspaceLoading } = useWorkspace();
-  const [banks, setBanks] = useState<Array<{ id: string; name: string }>>([]);
+  const { showToast } = useToast();
+  const [banks, setBanks] = useState<SupportedBank[]>([]);
   const [selectedBank, setSelectedBank] = useState<BankId>('');
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<number | null>(null);
   const [uploadResult, setUploadResult] = useState<UploadResponse | null>(null);
   const [transactions, setTransactions] = useState<TransactionWithSelection[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [dryRun, setDryRun] = useState(false);
   const [confirming, setConfirming] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -42,16 +78,59 @@ export default function Upload() {
     categoryName: string;
   } | null>(null);
 
+  // CSV profile state
+  const [csvProfiles, setCsvProfiles] = useState<CsvProfile[]>([]);
+  const [showCsvProfileModal, setShowCsvProfileModal] = useState(false);
+  const [editingCsvProfile, setEditingCsvProfile] = useState<CsvProfile | null>(null);
+  const [deleteCsvProfileConfirm, setDeleteCsvProfileConfirm] = useState<CsvProfile | null>(null);
+  const [deletingCsvProfile, setDeletingCsvProfile] = useState(false);
+
+  // Draft ledger state
+  const [drafts, setDrafts] = useState<DraftLedger[]>([]);
+  const [resumingDraftId, setResumingDraftId] = useState<number | null>(null);
+  const [discardDraftConfirm, setDiscardDraftConfirm] = useState<DraftLedger | null>(null);
+  const [discardingDraft, setDiscardingDraft] = useState(false);
+
+  // Encrypted PDF awaiting its password; the password itself is never kept
+  const [passwordFile, setPasswordFile] = useState<File | null>(null);
+  const [passwordIncorrect, setPasswordIncorrect] = useState(false);
+
+  // Batch upload state
+  const [batchJob, setBatchJob] = useState<UploadBatchJob | null>(null);
+
+  // Statement template state
+  const [statementTemplates, setStatementTemplates] = useState<StatementTemplate[]>([]);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<StatementTemplate | null>(null);
+  const [deleteTemplateConfirm, setDeleteTemplateConfirm] = useState<StatementTemplate | null>(null);
+  const [deletingTemplate, setDeletingTemplate] = useState(false);
+
   useEffect(() => {
     async function loadData() {
       if (!currentWorkspace) return;
       try {
-        const [banksData, categoriesData] = await Promise.all([
-          getSupportedBanks(),
+        const [
+          banksData,
+          categoriesData,
+          csvProfilesData,
+          templatesData,
+          draftsData,
+          accountsData,
+        ] = await Promise.all([
+          getSupportedBanks(currentWorkspace.id),
           getCategories(currentWorkspace.id, { limit: 1000 }),
+          getCsvProfiles(currentWorkspace.id),
+          getStatementTemplates(currentWorkspace.id),
+          getDraftLedgers(currentWorkspace.id),
+          getAccounts(currentWorkspace.id),
         ]);
         setBanks(banksData);
         setCategories(categoriesData.items);
+        setCsvProfiles(csvProfilesData);
+        setStatementTemplates(templatesData);
+        setDrafts(draftsData);
+        // Statements only belong to bank accounts, never to cash wallets
+        setAccounts(accountsData.filter((a) => a.type === 'bank'));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load initial data');
       }
@@ -59,39 +138,201 @@ export default function Upload() {
     loadData();
   }, [currentWorkspace]);
 
+  const reloadCsvProfiles = async () => {
+    if (!currentWorkspace) return;
+    const [banksData, csvProfilesData] = await Promise.all([
+      getSupportedBanks(currentWorkspace.id),
+      getCsvProfiles(currentWorkspace.id),
+    ]);
+    setBanks(banksData);
+    setCsvProfiles(csvProfilesData);
+  };
+
+  const selectedCsvProfile = csvProfiles.find((p) => p.bankId === selectedBank) ?? null;
+
+  const handleCsvProfileSaved = async (profile: CsvProfile) => {
+    showToast(t('upload.csvProfileSaved'), 'success');
+    await reloadCsvProfiles();
+    setSelectedBank(profile.bankId);
+  };
+
+  const handleDeleteCsvProfile = async () => {
+    if (!deleteCsvProfileConfirm || !currentWorkspace) return;
+    setDeletingCsvProfile(true);
+    try {
+      await deleteCsvProfile(deleteCsvProfileConfirm.id, currentWorkspace.id);
+      showToast(t('upload.csvProfileDeleted'), 'success');
+      setSelectedBank('');
+      await reloadCsvProfiles();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('upload.csvProfileDeleteFailed'), 'error');
+    } finally {
+      setDeletingCsvProfile(false);
+      setDeleteCsvProfileConfirm(null);
+    }
+  };
+
+  const reloadStatementTemplates = async () => {
+    if (!currentWorkspace) return;
+    const [banksData, templatesData] = await Promise.all([
+      getSupportedBanks(currentWorkspace.id),
+      getStatementTemplates(currentWorkspace.id),
+    ]);
+    setBanks(banksData);
+    setStatementTemplates(templatesData);
+  };
+
+  const selectedTemplate = statementTemplates.find((tpl) => tpl.bankId === selectedBank) ?? null;
+
+  const handleTemplateSaved = async (template: StatementTemplate) => {
+    showToast(t('upload.statementTemplateSaved'), 'success');
+    await reloadStatementTemplates();
+    setSelectedBank(template.bankId);
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!deleteTemplateConfirm || !currentWorkspace) return;
+    setDeletingTemplate(true);
+    try {
+      await deleteStatementTemplate(deleteTemplateConfirm.id, currentWorkspace.id);
+      showToast(t('upload.statementTemplateDeleted'), 'success');
+      setSelectedBank('');
+      await reloadStatementTemplates();
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : t('upload.statementTemplateDeleteFailed'),
+        'error'
+      );
+    } finally {
+      setDeletingTemplate(false);
+      setDeleteTemplateConfirm(null);
+    }
+  };
+
   const allDescriptions = useMemo(
     () => transactions.map((tx) => tx.description),
     [transactions]
   );
 
-  const handleUpload = async (file: File) => {
+  const reloadDrafts = async () => {
     if (!currentWorkspace) return;
-    if (!selectedBank) {
-      setError(t('upload.selectBankFirst'));
-      return;
+    try {
+      setDrafts(await getDraftLedgers(currentWorkspace.id));
+    } catch (err) {
+      console.error('Failed to load drafts:', err);
+    }
+  };
+
+  const showPreview = (result: UploadResponse) => {
+    setUploadResult(result);
+    setSelectedBank(result.bankId);
+    // Drafts saved before accounts existed have no account
+    setSelectedAccountId(result.accountId ?? null);
+
+    setTransactions(
+      result.transactions.map((tx) => ({
+        ...tx,
+        // Probable duplicates of imported transactions are skipped unless reselected
+        selected: tx.duplicateOf === undefined,
+        categoryId: tx.suggestedCategoryId,
+      }))
+    );
+  };
+
+  const handleResumeDraft = async (draft: DraftLedger) => {
+    setResumingDraftId(draft.id);
+    setError(null);
+    try {
+      showPreview(await getDraftLedger(draft.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('upload.drafts.resumeFailed'));
+      await reloadDrafts();
+    } finally {
+      setResumingDraftId(null);
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!discardDraftConfirm) return;
+    setDiscardingDraft(true);
+    try {
+      await deleteLedger(discardDraftConfirm.id);
+      showToast(t('upload.drafts.discarded'), 'success');
+      await reloadDrafts();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : t('upload.drafts.discardFailed'), 'error');
+    } finally {
+      setDiscardingDraft(false);
+      setDiscardDraftConfirm(null);
     }
+  };
+
+  const handleUpload = async (file: File, password?: string) => {
+    if (!currentWorkspace) return;
 
     setUploading(true);
     setError(null);
 
     try {
-      const result = await uploadPDF(file, currentWorkspace.id, selectedBank);
-      setUploadResult(result);
-
-      setTransactions(
-        result.transactions.map((tx) => ({
-          ...tx,
-          selected: true,
-          categoryId: tx.suggestedCategoryId,
-        }))
-      );
+      const result = await uploadStatement(file, currentWorkspace.id, selectedBank || undefined, {
+        dryRun,
+        password,
+      });
+      setPasswordFile(null);
+      showPreview(result);
     } catch (err) {
+      if (
+        err instanceof ApiError &&
+        (err.code === ErrorCode.PDF_PASSWORD_REQUIRED ||
+          err.code === ErrorCode.PDF_PASSWORD_INCORRECT)
+      ) {
+        setPasswordFile(file);
+        setPasswordIncorrect(err.code === ErrorCode.PDF_PASSWORD_INCORRECT);
+        return;
+      }
+      setPasswordFile(null);
       setError(err instanceof Error ? err.message : 'Failed to upload file');
     } finally {
       setUploading(false);
     }
   };
 
+  const handleBatchUpload = async (files: File[]) => {
+    if (!currentWorkspace) return;
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      setBatchJob(
+        await uploadStatementBatch(files, currentWorkspace.id, selectedBank || undefined)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload files');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Poll a running batch until every file is parsed, then list the new drafts
+  const batchJobId = batchJob?.id;
+  const batchFinished = batchJob?.status === 'completed';
+  useEffect(() => {
+    if (!batchJobId || batchFinished) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const job = await getUploadBatch(batchJobId);
+        setBatchJob(job);
+        if (job.status === 'completed') reloadDrafts();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t('upload.batch.statusFailed'));
+        setBatchJob(null);
+      }
+    }, BATCH_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [batchJobId, batchFinished]);
+
   const handleCategoryChange = (index: number, categoryId: number | null) => {
     setTransactions((prev) =>
       prev.map((tx, i) => (i === index ? { ...tx, categoryId } : tx))
@@ -148,7 +389,7 @@ export default function Upload() {
   };
 
   const handleConfirm = async () => {
-    if (!uploadResult) return;
+    if (!uploadResult || uploadResult.ledgerId === null) return;
 
     const selectedTransactions = transactions.filter((tx) => tx.selected);
     if (selectedTransactions.length === 0) {
@@ -164,13 +405,17 @@ export default function Upload() {
         ledgerId: uploadResult.ledgerId,
         transactions: selectedTransactions.map((tx) => ({
           date: tx.date,
+          valueDate: tx.valueDate,
           description: tx.description,
           amount: tx.amount,
           balance: tx.balance,
           isIncome: tx.isIncome,
           categoryId: tx.categoryId,
           rawText: tx.rawText,
+          externalId: tx.externalId,
+          transactionType: tx.transactionType,
         })),
+        accountId: selectedAccountId,
       });
 
       navigate('/');
@@ -185,6 +430,8 @@ export default function Upload() {
     setUploadResult(null);
     setTransactions([]);
     setError(null);
+    // The upload just left stays resumable as a draft
+    reloadDrafts();
   };
 
   if (workspaceLoading || !currentWorkspace) {
@@ -211,6 +458,20 @@ export default function Upload() {
         </div>
       )}
 
+      {!uploadResult && batchJob && (
+        <BatchUploadProgress job={batchJob} onDismiss={() => setBatchJob(null)} />
+      )}
+
+      {!uploadResult && (
+        <DraftLedgers
+          drafts={drafts}
+          banks={banks}
+          resumingId={resumingDraftId}
+          onResume={handleResumeDraft}
+          onDiscard={setDiscardDraftConfirm}
+        />
+      )}
+
       {!uploadResult ? (
         <DropzoneUploader
           banks={banks}
@@ -218,6 +479,39 @@ export default function Upload() {
           onBankChange={setSelectedBank}
           uploading={uploading}
           onUpload={handleUpload}
+          onBatchUpload={handleBatchUpload}
+          dryRun={dryRun}
+          onDryRunChange={setDryRun}
+          onNewCsvProfile={() => {
+            setEditingCsvProfile(null);
+            setShowCsvProfileModal(true);
+          }}
+          onEditCsvProfile={
+            selectedCsvProfile
+              ? () => {
+                  setEditingCsvProfile(selectedCsvProfile);
+                  setShowCsvProfileModal(true);
+                }
+              : undefined
+          }
+          onDeleteCsvProfile={
+            selectedCsvProfile ? () => setDeleteCsvProfileConfirm(selectedCsvProfile) : undefined
+          }
+          onNewStatementTemplate={() => {
+            setEditingTemplate(null);
+            setShowTemplateModal(true);
+          }}
+          onEditStatementTemplate={
+            selectedTemplate
+              ? () => {
+                  setEditingTemplate(selectedTemplate);
+                  setShowTemplateModal(true);
+                }
+              : undefined
+          }
+          onDeleteStatementTemplate={
+            selectedTemplate ? () => setDeleteTemplateConfirm(selectedTemplate) : undefined
+          }
         />
       ) : (
         <TransactionPreview
@@ -225,6 +519,8 @@ export default function Upload() {
           transactions={transactions}
           categories={categories}
           banks={banks}
+          accounts={accounts}
+          accountId={selectedAccountId}
           selectedBank={selectedBank}
           workspaceId={currentWorkspace.id}
           confirming={confirming}
@@ -232,12 +528,14 @@ export default function Upload() {
           onTransactionsChange={setTransactions}
           onCategoryChange={handleCategoryChange}
           onCategoryCreated={(newCat) => setCategories((prev) => [...prev, newCat])}
+          onAccountChange={setSelectedAccountId}
+          onAccountCreated={(account) => setAccounts((prev) => [...prev, account])}
           onConfirm={handleConfirm}
           onReset={handleReset}
         />
       )}
 
-      <LedgersManagement workspaceId={currentWorkspace.id} banks={banks} />
+      <LedgersManagement workspaceId={currentWorkspace.id} banks={banks} accounts={accounts} />
 
       <PatternModal
         open={showPatternModal}
@@ -254,6 +552,64 @@ export default function Upload() {
         categoryName={patternTransaction?.categoryName || ''}
         allDescriptions={allDescriptions}
       />
+
+      <PdfPasswordModal
+        open={passwordFile !== null}
+        filename={passwordFile?.name ?? ''}
+        incorrect={passwordIncorrect}
+        loading={uploading}
+        onClose={() => setPasswordFile(null)}
+        onSubmit={(password) => passwordFile && handleUpload(passwordFile, password)}
+      />
+
+      <CsvProfileModal
+        open={showCsvProfileModal}
+        onClose={() => setShowCsvProfileModal(false)}
+        onSaved={handleCsvProfileSaved}
+        workspaceId={currentWorkspace.id}
+        profile={editingCsvProfile}
+      />
+
+      <ConfirmDialog
+        open={discardDraftConfirm !== null}
+        onClose={() => setDiscardDraftConfirm(null)}
+        onConfirm={handleDiscardDraft}
+        title={t('upload.drafts.discard')}
+        message={t('upload.drafts.discardConfirm', { name: discardDraftConfirm?.filename })}
+        confirmLabel={t('upload.drafts.discard')}
+        variant="danger"
+        loading={discardingDraft}
+      />
+
+      <ConfirmDialog
+        open={deleteCsvProfileConfirm !== null}
+        onClose={() => setDeleteCsvProfileConfirm(null)}
+        onConfirm={handleDeleteCsvProfile}
+        title={t('upload.deleteCsvProfile')}
+        message={t('upload.deleteCsvProfileConfirm', { name: deleteCsvProfileConfirm?.name })}
+        confirmLabel={t('common.delete')}
+        variant="danger"
+        loading={deletingCsvProfile}
+      />
+
+      <StatementTemplateModal
+        open={showTemplateModal}
+        onClose={() => setShowTemplateModal(false)}
+        onSaved={handleTemplateSaved}
+        workspaceId={currentWorkspace.id}
+        template={editingTemplate}
+      />
+
+      <ConfirmDialog
+        open={deleteTemplateConfirm !== null}
+        onClose={() => setDeleteTemplateConfirm(null)}
+        onConfirm={handleDeleteTemplate}
+        title={t('upload.deleteStatementTemplate')}
+        message={t('upload.deleteStatementTemplateConfirm', { name: deleteTemplateConfirm?.name })}
+        confirmLabel={t('common.delete')}
+        variant="danger"
+        loading={deletingTemplate}
+      />
     </div>
   );
 }
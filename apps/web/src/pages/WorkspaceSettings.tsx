@@ -1,6 +1,6 @@
 import { useState, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Plus, Pencil, Trash2, AlertCircle, Briefcase, User, Building2, Users, ChevronDown, ChevronRight, Download, Upload } from 'lucide-react';
+import { Plus, Pencil, Trash2, AlertCircle, Briefcase, User, Building2, Users, ChevronDown, ChevronRight, Download, Upload, Coins } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -8,6 +8,8 @@ import { useWorkspace } from '@/context/WorkspaceContext';
 import { createWorkspace, updateWorkspace, deleteWorkspace, exportWorkspaceBackup, importWorkspaceBackup } from '@/services/api';
 import { useToast } from '@/components/ui/Toast';
 import WorkspaceMembers from '@/components/WorkspaceMembers';
+import ExchangeRates from '@/components/ExchangeRates';
+import { DEFAULT_BASE_CURRENCY } from '@compasso/shared';
 import type { Workspace } from '@compasso/shared';
 
 const WORKSPACE_COLORS = [
@@ -28,6 +30,7 @@ interface WorkspaceFormData {
   description: string;
   color: string;
   icon: string;
+  baseCurrency: string;
 }
 
 const defaultFormData: WorkspaceFormData = {
@@ -35,6 +38,7 @@ const defaultFormData: WorkspaceFormData = {
   description: '',
   color: WORKSPACE_COLORS[0],
   icon: 'briefcase',
+  baseCurrency: DEFAULT_BASE_CURRENCY,
 };
 
 export default function WorkspaceSettings() {
@@ -56,6 +60,7 @@ export default function WorkspaceSettings() {
   const [error, setError] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
   const [expandedMembers, setExpandedMembers] = useState<number | null>(null);
+  const [expandedRates, setExpandedRates] = useState<number | null>(null);
   const [exporting, setExporting] = useState<number | null>(null);
   const [importing, setImporting] = useState<number | null>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
@@ -76,6 +81,7 @@ export default function WorkspaceSettings() {
         description: formData.description.trim() || undefined,
         color: formData.color,
         icon: formData.icon,
+        baseCurrency: formData.baseCurrency,
       });
 
       // Update UI immediately
@@ -109,6 +115,7 @@ export default function WorkspaceSettings() {
         description: formData.description.trim() || undefined,
         color: formData.color,
         icon: formData.icon,
+        baseCurrency: formData.baseCurrency,
       });
 
       await refetchWorkspaces();
@@ -179,13 +186,25 @@ export default function WorkspaceSettings() {
     try {
       const stats = await importWorkspaceBackup(workspaceId, file);
       const parts: string[] = [];
+      if (stats.csvProfilesImported > 0) parts.push(`${stats.csvProfilesImported} CSV profiles`);
+      if (stats.statementTemplatesImported > 0) parts.push(`${stats.statementTemplatesImported} statement templates`);
       if (stats.categoriesImported > 0) parts.push(`${stats.categoriesImported} categories`);
       if (stats.ledgersImported > 0) parts.push(`${stats.ledgersImported} ledgers`);
       if (stats.transactionsImported > 0) parts.push(`${stats.transactionsImported} transactions`);
+      if (stats.transfersImported > 0) parts.push(`${stats.transfersImported} transfers`);
       if (stats.patternsImported > 0) parts.push(`${stats.patternsImported} patterns`);
+      if (stats.merchantsImported > 0) parts.push(`${stats.merchantsImported} merchants`);
+      if (stats.tagsImported > 0) parts.push(`${stats.tagsImported} tags`);
+      if (stats.accountsImported > 0) parts.push(`${stats.accountsImported} accounts`);
+      if (stats.exchangeRatesImported > 0) parts.push(`${stats.exchangeRatesImported} exchange rates`);
+      if (stats.netWorthItemsImported > 0) parts.push(`${stats.netWorthItemsImported} net worth items`);
+      if (stats.netWorthSnapshotsImported > 0) parts.push(`${stats.netWorthSnapshotsImported} net worth snapshots`);
+      if (stats.loansImported > 0) parts.push(`${stats.loansImported} loans`);
+      if (stats.loanPaymentsImported > 0) parts.push(`${stats.loanPaymentsImported} loan payments`);
+      if (stats.euriborRatesImported > 0) parts.push(`${stats.euriborRatesImported} Euribor rates`);
       if (stats.recurringPatternsImported > 0) parts.push(`${stats.recurringPatternsImported} recurring patterns`);
 
-      const skipped = stats.categoriesSkipped + stats.ledgersSkipped + stats.patternsSkipped + stats.recurringPatternsSkipped;
+      const skipped = stats.csvProfilesSkipped + stats.statementTemplatesSkipped + stats.categoriesSkipped + stats.ledgersSkipped + stats.transfersSkipped + stats.patternsSkipped + stats.merchantsSkipped + stats.tagsSkipped + stats.accountsSkipped + stats.exchangeRatesSkipped + stats.netWorthItemsSkipped + stats.netWorthSnapshotsSkipped + stats.loansSkipped + stats.loanPaymentsSkipped + stats.euriborRatesSkipped + stats.recurringPatternsSkipped;
       const msg = parts.length > 0
         ? `Imported ${parts.join(', ')}${skipped > 0 ? ` (${skipped} duplicates skipped)` : ''}`
         : 'No new data to import (all duplicates skipped)';
@@ -205,6 +224,7 @@ export default function WorkspaceSettings() {
       description: workspace.description || '',
       color: workspace.color,
       icon: workspace.icon,
+      baseCurrency: workspace.baseCurrency,
     });
     setShowCreateForm(false);
     setError(null);
@@ -250,6 +270,17 @@ export default function WorkspaceSettings() {
           />
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('workspaces.baseCurrency')}</label>
+          <Input
+            value={formData.baseCurrency}
+            onChange={(e) => setFormData({ ...formData, baseCurrency: e.target.value.toUpperCase() })}
+            maxLength={3}
+            className="w-24"
+          />
+          <p className="text-xs text-muted-foreground mt-1">{t('workspaces.baseCurrencyHint')}</p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">{t('workspaces.color')}</label>
           <div className="flex flex-wrap gap-2">
@@ -360,6 +391,7 @@ export default function WorkspaceSettings() {
           const isDeleting = deleteConfirm === workspace.id;
 
           const isMembersExpanded = expandedMembers === workspace.id;
+          const isRatesExpanded = expandedRates === workspace.id;
 
           return (
             <Card key={workspace.id}>
@@ -390,6 +422,9 @@ export default function WorkspaceSettings() {
                             {t(`members.${workspace.role}`)}
                           </span>
                         )}
+                        <span className="px-2 py-0.5 text-xs bg-gray-50 text-gray-500 rounded">
+                          {workspace.baseCurrency}
+                        </span>
                       </div>
                       {workspace.description && (
                         <p className="text-sm text-gray-500">{workspace.description}</p>
@@ -434,6 +469,21 @@ export default function WorkspaceSettings() {
                             <ChevronRight className="w-3 h-3 ml-1" />
                           )}
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setExpandedRates(isRatesExpanded ? null : workspace.id)
+                          }
+                        >
+                          <Coins className="w-4 h-4 mr-1" />
+                          {t('workspaces.exchangeRates')}
+                          {isRatesExpanded ? (
+                            <ChevronDown className="w-3 h-3 ml-1" />
+                          ) : (
+                            <ChevronRight className="w-3 h-3 ml-1" />
+                          )}
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -493,6 +543,16 @@ export default function WorkspaceSettings() {
                     />
                   </div>
                 )}
+
+                {/* Expandable exchange rates section */}
+                {isRatesExpanded && (
+                  <div className="mt-4 pt-4 border-t border-gray-100">
+                    <ExchangeRates
+                      workspaceId={workspace.id}
+                      currentRole={workspace.role ?? null}
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
           );
@@ -0,0 +1,45 @@
+import { fetchApi } from './client';
+import type {
+  Account,
+  AccountSummary,
+  AccountBalancePoint,
+  CreateAccountRequest,
+  UpdateAccountRequest,
+} from '@compasso/shared';
+
+export async function getAccounts(workspaceId: number): Promise<AccountSummary[]> {
+  return fetchApi<AccountSummary[]>(`/accounts?workspaceId=${workspaceId}`);
+}
+
+export async function createAccount(data: CreateAccountRequest): Promise<Account> {
+  return fetchApi<Account>('/accounts', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateAccount(
+  id: number,
+  workspaceId: number,
+  data: UpdateAccountRequest
+): Promise<Account> {
+  return fetchApi<Account>(`/accounts/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ ...data, workspaceId }),
+  });
+}
+
+export async function deleteAccount(id: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/accounts/${id}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getAccountBalanceHistory(
+  id: number,
+  workspaceId: number
+): Promise<AccountBalancePoint[]> {
+  return fetchApi<AccountBalancePoint[]>(
+    `/accounts/${id}/balance-history?workspaceId=${workspaceId}`
+  );
+}
@@ -2,13 +2,37 @@ import { ApiError, API_BASE } from './client';
 import type { ApiResponse } from '@compasso/shared';
 
 export interface ImportResult {
+  csvProfilesImported: number;
+  csvProfilesSkipped: number;
+  statementTemplatesImported: number;
+  statementTemplatesSkipped: number;
   categoriesImported: number;
   categoriesSkipped: number;
   patternsImported: number;
   patternsSkipped: number;
+  merchantsImported: number;
+  merchantsSkipped: number;
+  tagsImported: number;
+  tagsSkipped: number;
+  accountsImported: number;
+  accountsSkipped: number;
+  exchangeRatesImported: number;
+  exchangeRatesSkipped: number;
+  netWorthItemsImported: number;
+  netWorthItemsSkipped: number;
+  netWorthSnapshotsImported: number;
+  netWorthSnapshotsSkipped: number;
+  loansImported: number;
+  loansSkipped: number;
+  euriborRatesImported: number;
+  euriborRatesSkipped: number;
   ledgersImported: number;
   ledgersSkipped: number;
   transactionsImported: number;
+  transfersImported: number;
+  transfersSkipped: number;
+  loanPaymentsImported: number;
+  loanPaymentsSkipped: number;
   recurringPatternsImported: number;
   recurringPatternsSkipped: number;
 }
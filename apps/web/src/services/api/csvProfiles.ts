@@ -0,0 +1,34 @@
+import { fetchApi } from './client';
+import type {
+  CsvProfile,
+  CreateCsvProfileRequest,
+  UpdateCsvProfileRequest,
+} from '@compasso/shared';
+
+export async function getCsvProfiles(workspaceId: number): Promise<CsvProfile[]> {
+  return fetchApi<CsvProfile[]>(`/csv-profiles?workspaceId=${workspaceId}`);
+}
+
+export async function createCsvProfile(data: CreateCsvProfileRequest): Promise<CsvProfile> {
+  return fetchApi<CsvProfile>('/csv-profiles', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateCsvProfile(
+  id: number,
+  workspaceId: number,
+  data: UpdateCsvProfileRequest
+): Promise<CsvProfile> {
+  return fetchApi<CsvProfile>(`/csv-profiles/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ ...data, workspaceId }),
+  });
+}
+
+export async function deleteCsvProfile(id: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/csv-profiles/${id}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
@@ -1,5 +1,5 @@
 import { fetchApi } from './client';
-import type { DashboardData } from '@compasso/shared';
+import type { DashboardData, DateBasis } from '@compasso/shared';
 
 export async function getDashboard(
   workspaceId: number,
@@ -7,6 +7,8 @@ export async function getDashboard(
     year?: number;
     month?: number;
     categoryId?: number;
+    parentCategoryId?: number;
+    dateBasis?: DateBasis;
   }
 ): Promise<DashboardData> {
   const params = new URLSearchParams();
@@ -14,6 +16,10 @@ export async function getDashboard(
   if (filters?.year) params.set('year', filters.year.toString());
   if (filters?.month) params.set('month', filters.month.toString());
   if (filters?.categoryId) params.set('categoryId', filters.categoryId.toString());
+  if (filters?.parentCategoryId) {
+    params.set('parentCategoryId', filters.parentCategoryId.toString());
+  }
+  if (filters?.dateBasis) params.set('dateBasis', filters.dateBasis);
 
   return fetchApi<DashboardData>(`/dashboard?${params.toString()}`);
 }
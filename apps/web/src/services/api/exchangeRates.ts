@@ -0,0 +1,66 @@
+import { fetchApi, ApiError, API_BASE } from './client';
+import type { ApiResponse, ExchangeRate } from '@compasso/shared';
+
+export interface SetExchangeRateData {
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+export async function getExchangeRates(
+  workspaceId: number,
+  currency?: string
+): Promise<ExchangeRate[]> {
+  const params = new URLSearchParams();
+  params.set('workspaceId', workspaceId.toString());
+  if (currency) params.set('currency', currency);
+  return fetchApi<ExchangeRate[]>(`/exchange-rates?${params.toString()}`);
+}
+
+export async function setExchangeRate(
+  workspaceId: number,
+  data: SetExchangeRateData
+): Promise<ExchangeRate> {
+  return fetchApi<ExchangeRate>('/exchange-rates', {
+    method: 'PUT',
+    body: JSON.stringify({ workspaceId, ...data }),
+  });
+}
+
+export async function deleteExchangeRate(rateId: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/exchange-rates/${rateId}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function importEcbRates(
+  workspaceId: number,
+  file: File
+): Promise<{ imported: number }> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/exchange-rates/import?workspaceId=${workspaceId}`, {
+      method: 'POST',
+      credentials: 'include',
+      body: formData,
+    });
+  } catch {
+    throw new ApiError('Unable to connect to the server', 0);
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (!contentType || !contentType.includes('application/json')) {
+    throw new ApiError(`Server error (${response.status})`, response.status);
+  }
+
+  const data: ApiResponse<{ imported: number }> = await response.json();
+
+  if (!data.success) {
+    throw new ApiError(data.error || 'Failed to import exchange rates', response.status, data.code);
+  }
+
+  return data.data as { imported: number };
+}
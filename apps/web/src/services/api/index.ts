@@ -4,7 +4,16 @@ export * from './workspaces';
 export * from './categories';
 export * from './transactions';
 export * from './upload';
+export * from './csvProfiles';
+export * from './statementTemplates';
 export * from './dashboard';
 export * from './reports';
 export * from './recurring';
+export * from './merchants';
+export * from './accounts';
 export * from './backup';
+export * from './transfers';
+export * from './exchangeRates';
+export * from './netWorth';
+export * from './loans';
+export * from './tags';
@@ -0,0 +1,87 @@
+import { fetchApi } from './client';
+import type {
+  CreateLoanRequest,
+  EuriborRate,
+  EuriborTenor,
+  LoanInstallment,
+  LoanSummary,
+  UpdateLoanRequest,
+} from '@compasso/shared';
+
+export async function getLoans(workspaceId: number): Promise<LoanSummary[]> {
+  return fetchApi<LoanSummary[]>(`/loans?workspaceId=${workspaceId}`);
+}
+
+export async function getLoanSchedule(id: number, workspaceId: number): Promise<LoanInstallment[]> {
+  return fetchApi<LoanInstallment[]>(`/loans/${id}/schedule?workspaceId=${workspaceId}`);
+}
+
+export async function createLoan(data: CreateLoanRequest): Promise<LoanSummary> {
+  return fetchApi<LoanSummary>('/loans', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateLoan(
+  id: number,
+  workspaceId: number,
+  data: UpdateLoanRequest
+): Promise<LoanSummary> {
+  return fetchApi<LoanSummary>(`/loans/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ ...data, workspaceId }),
+  });
+}
+
+export async function deleteLoan(id: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/loans/${id}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function linkLoanPayments(
+  id: number,
+  workspaceId: number
+): Promise<{ linked: number }> {
+  return fetchApi<{ linked: number }>(`/loans/${id}/link`, {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId }),
+  });
+}
+
+export async function unlinkLoanPayment(
+  id: number,
+  workspaceId: number,
+  transactionId: number
+): Promise<void> {
+  await fetchApi(`/loans/${id}/payments/${transactionId}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getEuriborRates(
+  workspaceId: number,
+  tenor?: EuriborTenor
+): Promise<EuriborRate[]> {
+  const params = new URLSearchParams();
+  params.set('workspaceId', workspaceId.toString());
+  if (tenor) params.set('tenor', tenor);
+  return fetchApi<EuriborRate[]>(`/loans/euribor-rates?${params.toString()}`);
+}
+
+export async function setEuriborRate(
+  workspaceId: number,
+  data: { tenor: EuriborTenor; date: string; rate: number }
+): Promise<EuriborRate> {
+  return fetchApi<EuriborRate>('/loans/euribor-rates', {
+    method: 'PUT',
+    body: JSON.stringify({ ...data, workspaceId }),
+  });
+}
+
+export async function deleteEuriborRate(id: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/loans/euribor-rates/${id}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
@@ -0,0 +1,50 @@
+import { fetchApi } from './client';
+import type { Merchant } from '@compasso/shared';
+
+export interface MerchantListResponse {
+  items: Merchant[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export async function getMerchants(
+  workspaceId: number,
+  options: { search?: string; limit?: number; offset?: number } = {}
+): Promise<MerchantListResponse> {
+  const params = new URLSearchParams();
+  params.set('workspaceId', workspaceId.toString());
+  if (options.search) params.set('search', options.search);
+  if (options.limit) params.set('limit', options.limit.toString());
+  if (options.offset) params.set('offset', options.offset.toString());
+  return fetchApi<MerchantListResponse>(`/merchants?${params.toString()}`);
+}
+
+export async function renameMerchant(
+  merchantId: number,
+  workspaceId: number,
+  name: string
+): Promise<Merchant> {
+  return fetchApi<Merchant>(`/merchants/${merchantId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ workspaceId, name }),
+  });
+}
+
+export async function mergeMerchants(
+  targetId: number,
+  workspaceId: number,
+  sourceIds: number[]
+): Promise<Merchant> {
+  return fetchApi<Merchant>(`/merchants/${targetId}/merge`, {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId, sourceIds }),
+  });
+}
+
+export async function assignMerchants(workspaceId: number): Promise<{ assigned: number }> {
+  return fetchApi('/merchants/assign', {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId }),
+  });
+}
@@ -0,0 +1,58 @@
+import { fetchApi } from './client';
+import type {
+  CreateNetWorthItemRequest,
+  NetWorthItem,
+  NetWorthSnapshot,
+  NetWorthSummary,
+  UpdateNetWorthItemRequest,
+} from '@compasso/shared';
+
+export async function getNetWorth(workspaceId: number): Promise<NetWorthSummary> {
+  return fetchApi<NetWorthSummary>(`/net-worth?workspaceId=${workspaceId}`);
+}
+
+export async function getNetWorthItems(workspaceId: number): Promise<NetWorthItem[]> {
+  return fetchApi<NetWorthItem[]>(`/net-worth/items?workspaceId=${workspaceId}`);
+}
+
+export async function createNetWorthItem(data: CreateNetWorthItemRequest): Promise<NetWorthItem> {
+  return fetchApi<NetWorthItem>('/net-worth/items', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateNetWorthItem(
+  id: number,
+  workspaceId: number,
+  data: UpdateNetWorthItemRequest
+): Promise<NetWorthItem> {
+  return fetchApi<NetWorthItem>(`/net-worth/items/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ ...data, workspaceId }),
+  });
+}
+
+export async function deleteNetWorthItem(id: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/net-worth/items/${id}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getNetWorthSnapshots(
+  workspaceId: number,
+  range: { startDate?: string; endDate?: string } = {}
+): Promise<NetWorthSnapshot[]> {
+  const params = new URLSearchParams();
+  params.set('workspaceId', workspaceId.toString());
+  if (range.startDate) params.set('startDate', range.startDate);
+  if (range.endDate) params.set('endDate', range.endDate);
+  return fetchApi<NetWorthSnapshot[]>(`/net-worth/snapshots?${params.toString()}`);
+}
+
+export async function recordNetWorthSnapshot(workspaceId: number): Promise<NetWorthSnapshot> {
+  return fetchApi<NetWorthSnapshot>('/net-worth/snapshots', {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId }),
+  });
+}
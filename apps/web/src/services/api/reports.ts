@@ -1,4 +1,10 @@
 import { fetchApi } from './client';
+import type {
+  DateBasis,
+  TagSpending,
+  TopMerchant,
+  TransactionTypeBreakdown,
+} from '@compasso/shared';
 
 export interface YearlySummary {
   year: number;
@@ -14,6 +20,7 @@ export interface YearlySummary {
     total: number;
     count: number;
     percentage: number;
+    hasChildren: boolean;
   }>;
   monthlyBreakdown: Array<{
     month: string;
@@ -21,6 +28,7 @@ export interface YearlySummary {
     expenses: number;
     netSavings: number;
   }>;
+  typeBreakdown: TransactionTypeBreakdown[];
 }
 
 export interface CategoryTrend {
@@ -33,19 +41,62 @@ export interface CategoryTrend {
   }>;
   trend: 'up' | 'down' | 'stable';
   avgMonthly: number;
+  hasChildren: boolean;
 }
 
 export async function getReportYears(workspaceId: number): Promise<number[]> {
   return fetchApi<number[]>(`/reports/years?workspaceId=${workspaceId}`);
 }
 
-export async function getYearlySummary(workspaceId: number, year: number): Promise<YearlySummary> {
-  return fetchApi<YearlySummary>(`/reports/yearly?workspaceId=${workspaceId}&year=${year}`);
+export async function getYearlySummary(
+  workspaceId: number,
+  year: number,
+  dateBasis?: DateBasis,
+  parentCategoryId?: number
+): Promise<YearlySummary> {
+  const params = new URLSearchParams();
+  params.set('workspaceId', workspaceId.toString());
+  params.set('year', year.toString());
+  if (dateBasis) params.set('dateBasis', dateBasis);
+  if (parentCategoryId) params.set('parentCategoryId', parentCategoryId.toString());
+  return fetchApi<YearlySummary>(`/reports/yearly?${params.toString()}`);
 }
 
-export async function getCategoryTrends(workspaceId: number, months?: number): Promise<CategoryTrend[]> {
+export async function getCategoryTrends(
+  workspaceId: number,
+  months?: number,
+  dateBasis?: DateBasis,
+  parentCategoryId?: number
+): Promise<CategoryTrend[]> {
   const params = new URLSearchParams();
   params.set('workspaceId', workspaceId.toString());
   if (months) params.set('months', months.toString());
+  if (dateBasis) params.set('dateBasis', dateBasis);
+  if (parentCategoryId) params.set('parentCategoryId', parentCategoryId.toString());
   return fetchApi<CategoryTrend[]>(`/reports/category-trends?${params.toString()}`);
 }
+
+export async function getTopMerchants(
+  workspaceId: number,
+  options: { year?: number; month?: number; limit?: number; dateBasis?: DateBasis } = {}
+): Promise<TopMerchant[]> {
+  const params = new URLSearchParams();
+  params.set('workspaceId', workspaceId.toString());
+  if (options.year) params.set('year', options.year.toString());
+  if (options.month) params.set('month', options.month.toString());
+  if (options.limit) params.set('limit', options.limit.toString());
+  if (options.dateBasis) params.set('dateBasis', options.dateBasis);
+  return fetchApi<TopMerchant[]>(`/reports/top-merchants?${params.toString()}`);
+}
+
+export async function getTagSpending(
+  workspaceId: number,
+  options: { year?: number; month?: number; dateBasis?: DateBasis } = {}
+): Promise<TagSpending[]> {
+  const params = new URLSearchParams();
+  params.set('workspaceId', workspaceId.toString());
+  if (options.year) params.set('year', options.year.toString());
+  if (options.month) params.set('month', options.month.toString());
+  if (options.dateBasis) params.set('dateBasis', options.dateBasis);
+  return fetchApi<TagSpending[]>(`/reports/tags?${params.toString()}`);
+}
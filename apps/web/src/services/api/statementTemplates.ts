@@ -0,0 +1,36 @@
+import { fetchApi } from './client';
+import type {
+  StatementTemplate,
+  CreateStatementTemplateRequest,
+  UpdateStatementTemplateRequest,
+} from '@compasso/shared';
+
+export async function getStatementTemplates(workspaceId: number): Promise<StatementTemplate[]> {
+  return fetchApi<StatementTemplate[]>(`/statement-templates?workspaceId=${workspaceId}`);
+}
+
+export async function createStatementTemplate(
+  data: CreateStatementTemplateRequest
+): Promise<StatementTemplate> {
+  return fetchApi<StatementTemplate>('/statement-templates', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateStatementTemplate(
+  id: number,
+  workspaceId: number,
+  data: UpdateStatementTemplateRequest
+): Promise<StatementTemplate> {
+  return fetchApi<StatementTemplate>(`/statement-templates/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ ...data, workspaceId }),
+  });
+}
+
+export async function deleteStatementTemplate(id: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/statement-templates/${id}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
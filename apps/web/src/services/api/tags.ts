@@ -0,0 +1,55 @@
+import { fetchApi } from './client';
+import type { Tag } from '@compasso/shared';
+
+export async function getTags(workspaceId: number): Promise<Tag[]> {
+  return fetchApi<Tag[]>(`/tags?workspaceId=${workspaceId}`);
+}
+
+export async function createTag(
+  workspaceId: number,
+  data: { name: string; color?: string }
+): Promise<Tag> {
+  return fetchApi<Tag>('/tags', {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId, ...data }),
+  });
+}
+
+export async function updateTag(
+  tagId: number,
+  workspaceId: number,
+  data: { name?: string; color?: string | null }
+): Promise<Tag> {
+  return fetchApi<Tag>(`/tags/${tagId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ workspaceId, ...data }),
+  });
+}
+
+export async function deleteTag(tagId: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/tags/${tagId}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function addTagToTransactions(
+  tagId: number,
+  workspaceId: number,
+  transactionIds: number[]
+): Promise<{ added: number }> {
+  return fetchApi(`/tags/${tagId}/add`, {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId, transactionIds }),
+  });
+}
+
+export async function removeTagFromTransactions(
+  tagId: number,
+  workspaceId: number,
+  transactionIds: number[]
+): Promise<{ removed: number }> {
+  return fetchApi(`/tags/${tagId}/remove`, {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId, transactionIds }),
+  });
+}
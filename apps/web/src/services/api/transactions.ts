@@ -3,6 +3,10 @@ import type {
   TransactionWithCategory,
   PaginatedResponse,
   ConfirmTransactionsRequest,
+  ManualTransactionRequest,
+  TransactionType,
+  TransactionSplit,
+  DateBasis,
 } from '@compasso/shared';
 
 export async function getTransactions(
@@ -13,6 +17,10 @@ export async function getTransactions(
     categoryId?: number | 'none';
     isIncome?: boolean;
     search?: string;
+    transactionType?: TransactionType | 'none';
+    merchantId?: number;
+    tag?: string;
+    dateBasis?: DateBasis;
     limit?: number;
     offset?: number;
   }
@@ -24,6 +32,10 @@ export async function getTransactions(
   if (filters?.categoryId) params.set('categoryId', filters.categoryId.toString());
   if (filters?.isIncome !== undefined) params.set('isIncome', filters.isIncome.toString());
   if (filters?.search) params.set('search', filters.search);
+  if (filters?.transactionType) params.set('transactionType', filters.transactionType);
+  if (filters?.merchantId) params.set('merchantId', filters.merchantId.toString());
+  if (filters?.tag) params.set('tag', filters.tag);
+  if (filters?.dateBasis) params.set('dateBasis', filters.dateBasis);
   if (filters?.limit) params.set('limit', filters.limit.toString());
   if (filters?.offset) params.set('offset', filters.offset.toString());
 
@@ -43,12 +55,48 @@ export async function updateTransaction(
   });
 }
 
+export async function createManualTransaction(
+  data: ManualTransactionRequest
+): Promise<TransactionWithCategory> {
+  return fetchApi<TransactionWithCategory>('/transactions/manual', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateManualTransaction(
+  id: number,
+  data: ManualTransactionRequest
+): Promise<TransactionWithCategory> {
+  return fetchApi<TransactionWithCategory>(`/transactions/manual/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
 export async function deleteTransaction(id: number, workspaceId: number): Promise<void> {
   await fetchApi(`/transactions/${id}?workspaceId=${workspaceId}`, {
     method: 'DELETE',
   });
 }
 
+export async function splitTransaction(
+  id: number,
+  workspaceId: number,
+  splits: Array<Omit<TransactionSplit, 'id'>>
+): Promise<TransactionSplit[]> {
+  return fetchApi<TransactionSplit[]>(`/transactions/${id}/splits`, {
+    method: 'PUT',
+    body: JSON.stringify({ workspaceId, splits }),
+  });
+}
+
+export async function removeTransactionSplit(id: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/transactions/${id}/splits?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
+
 export async function confirmTransactions(
   request: ConfirmTransactionsRequest
 ): Promise<{ count: number }> {
@@ -60,7 +108,17 @@ export async function confirmTransactions(
 
 export async function exportTransactionsCsv(
   workspaceId: number,
-  filters?: { year?: number; month?: number; categoryId?: number | 'none'; isIncome?: boolean; search?: string }
+  filters?: {
+    year?: number;
+    month?: number;
+    categoryId?: number | 'none';
+    isIncome?: boolean;
+    search?: string;
+    transactionType?: TransactionType | 'none';
+    merchantId?: number;
+    tag?: string;
+    dateBasis?: DateBasis;
+  }
 ): Promise<void> {
   const params = new URLSearchParams();
   params.set('workspaceId', workspaceId.toString());
@@ -69,6 +127,10 @@ export async function exportTransactionsCsv(
   if (filters?.categoryId) params.set('categoryId', filters.categoryId.toString());
   if (filters?.isIncome !== undefined) params.set('isIncome', filters.isIncome.toString());
   if (filters?.search) params.set('search', filters.search);
+  if (filters?.transactionType) params.set('transactionType', filters.transactionType);
+  if (filters?.merchantId) params.set('merchantId', filters.merchantId.toString());
+  if (filters?.tag) params.set('tag', filters.tag);
+  if (filters?.dateBasis) params.set('dateBasis', filters.dateBasis);
 
   let response: Response;
   try {
@@ -0,0 +1,35 @@
+import { fetchApi } from './client';
+import type { InternalTransfer, TransferStatus } from '@compasso/shared';
+
+export async function getTransfers(
+  workspaceId: number,
+  status?: TransferStatus
+): Promise<InternalTransfer[]> {
+  const params = new URLSearchParams();
+  params.set('workspaceId', workspaceId.toString());
+  if (status) params.set('status', status);
+  return fetchApi<InternalTransfer[]>(`/transfers?${params.toString()}`);
+}
+
+export async function detectTransfers(workspaceId: number): Promise<{ detected: number }> {
+  return fetchApi('/transfers/detect', {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId }),
+  });
+}
+
+export async function confirmTransfer(
+  transferId: number,
+  workspaceId: number
+): Promise<InternalTransfer> {
+  return fetchApi<InternalTransfer>(`/transfers/${transferId}/confirm`, {
+    method: 'POST',
+    body: JSON.stringify({ workspaceId }),
+  });
+}
+
+export async function unlinkTransfer(transferId: number, workspaceId: number): Promise<void> {
+  await fetchApi(`/transfers/${transferId}?workspaceId=${workspaceId}`, {
+    method: 'DELETE',
+  });
+}
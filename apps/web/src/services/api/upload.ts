@@ -4,19 +4,62 @@ import type {
   BankId,
   PaginatedResponse,
   ApiResponse,
+  StatementFormat,
+  DraftLedger,
+  UploadBatchJob,
 } from '@compasso/shared';
 
-export async function uploadPDF(
+export interface SupportedBank {
+  id: string;
+  name: string;
+  country: string;
+  currency: string;
+  format: StatementFormat;
+}
+
+export async function uploadStatement(
   file: File,
   workspaceId: number,
-  bankId: BankId = 'novo_banco'
+  bankId?: BankId,
+  options: { dryRun?: boolean; password?: string } = {}
 ): Promise<UploadResponse> {
   const formData = new FormData();
   formData.append('file', file);
+  // The password of an encrypted PDF goes in the body so it never appears in URLs or logs
+  if (options.password) formData.append('password', options.password);
+
+  // Without a bank the server detects it from the statement
+  const params = new URLSearchParams({ workspaceId: String(workspaceId) });
+  if (bankId) params.set('bank', bankId);
+  if (options.dryRun) params.set('dryRun', 'true');
+
+  return postStatementForm<UploadResponse>(`/upload?${params}`, formData);
+}
+
+// Upload a batch of statements; each is parsed in the background into a draft ledger
+export async function uploadStatementBatch(
+  files: File[],
+  workspaceId: number,
+  bankId?: BankId
+): Promise<UploadBatchJob> {
+  const formData = new FormData();
+  for (const file of files) formData.append('files', file);
+
+  const params = new URLSearchParams({ workspaceId: String(workspaceId) });
+  if (bankId) params.set('bank', bankId);
+
+  return postStatementForm<UploadBatchJob>(`/upload/batch?${params}`, formData);
+}
+
+export async function getUploadBatch(jobId: string): Promise<UploadBatchJob> {
+  return fetchApi(`/upload/batch/${jobId}`);
+}
 
+// Multipart uploads bypass fetchApi, which always sends JSON
+async function postStatementForm<T>(endpoint: string, formData: FormData): Promise<T> {
   let response: Response;
   try {
-    response = await fetch(`${API_BASE}/upload?bank=${bankId}&workspaceId=${workspaceId}`, {
+    response = await fetch(`${API_BASE}${endpoint}`, {
       method: 'POST',
       credentials: 'include',
       body: formData,
@@ -30,7 +73,7 @@ export async function uploadPDF(
     throw new ApiError(`Server error (${response.status})`, response.status);
   }
 
-  const data: ApiResponse<UploadResponse> = await response.json();
+  const data: ApiResponse<T> = await response.json();
 
   if (!data.success) {
     throw new ApiError(
@@ -40,13 +83,12 @@ export async function uploadPDF(
     );
   }
 
-  return data.data as UploadResponse;
+  return data.data as T;
 }
 
-export async function getSupportedBanks(): Promise<
-  Array<{ id: string; name: string; country: string; currency: string }>
-> {
-  return fetchApi('/upload/banks');
+export async function getSupportedBanks(workspaceId?: number): Promise<SupportedBank[]> {
+  const query = workspaceId ? `?workspaceId=${workspaceId}` : '';
+  return fetchApi(`/upload/banks${query}`);
 }
 
 export interface LedgerItem {
@@ -56,6 +98,7 @@ export interface LedgerItem {
   periodStart: string | null;
   periodEnd: string | null;
   bankId: string;
+  accountId: number | null;
   transactionCount: number;
 }
 
@@ -73,8 +116,24 @@ export async function getLedgers(
   return fetchApi(`/upload/ledgers?${params.toString()}`);
 }
 
+// Attach a ledger to an account, or detach it with null
+export async function setLedgerAccount(id: number, accountId: number | null): Promise<void> {
+  await fetchApi(`/upload/ledgers/${id}/account`, {
+    method: 'PUT',
+    body: JSON.stringify({ accountId }),
+  });
+}
+
 export async function deleteLedger(id: number): Promise<void> {
   await fetchApi(`/upload/ledgers/${id}`, {
     method: 'DELETE',
   });
 }
+
+export async function getDraftLedgers(workspaceId: number): Promise<DraftLedger[]> {
+  return fetchApi(`/upload/drafts?workspaceId=${workspaceId}`);
+}
+
+export async function getDraftLedger(id: number): Promise<UploadResponse> {
+  return fetchApi(`/upload/drafts/${id}`);
+}
@@ -2,6 +2,9 @@ import type { SupportedLocale } from './types.js';
 
 export type BankId = string;
 
+// Statement file formats accepted by the upload flow
+export type StatementFormat = 'pdf' | 'csv' | 'ofx' | 'camt' | 'mt940';
+
 // Bank metadata
 export interface BankConfig {
   id: string;
@@ -10,8 +13,110 @@ export interface BankConfig {
   currency: string;
   dateFormat: string;
   decimalFormat: 'european' | 'standard'; // European: 1.234,56 | Standard: 1,234.56
+  format: StatementFormat;
 }
 
+// Transaction types, classified on upload from each bank's transactionPatterns
+export const TRANSACTION_TYPES = [
+  'CARD_PURCHASE',
+  'DIRECT_DEBIT',
+  'TRANSFER_IN',
+  'TRANSFER_OUT',
+  'ATM',
+  'BILL_PAYMENT',
+  'LOAN_PAYMENT',
+  'STANDING_ORDER',
+  'BANK_FEE',
+] as const;
+
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
+// Which date places a transaction in a period: the booking date, or the value
+// date (falling back to the booking date when a transaction has none)
+export const DATE_BASES = ['booking', 'value'] as const;
+
+export type DateBasis = (typeof DATE_BASES)[number];
+
+// CSV import profiles
+export const CSV_DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'DD/MM/YYYY',
+  'DD-MM-YYYY',
+  'DD.MM.YYYY',
+  'DD.MM.YY',
+  'MM/DD/YYYY',
+] as const;
+
+export type CsvDateFormat = (typeof CSV_DATE_FORMATS)[number];
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+// Bank IDs of CSV profiles are namespaced so they never collide with built-in parsers
+export const CSV_PROFILE_BANK_PREFIX = 'csv:';
+export const STATEMENT_TEMPLATE_BANK_PREFIX = 'template:';
+
+// Bank ID of the ledgers holding manually entered transactions (one per account,
+// plus one for entries without an account); they have no statement file
+export const MANUAL_BANK_ID = 'manual';
+
+// Bank accounts receive uploaded statements; cash wallets only hold manual entries
+export const ACCOUNT_TYPES = ['bank', 'cash'] as const;
+
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
+// Internal transfers pair an expense with income of the same amount in another
+// ledger of the workspace. Detected pairs are suggested until confirmed;
+// unlinked pairs are kept so detection does not pair them again.
+export const TRANSFER_STATUSES = ['suggested', 'confirmed', 'unlinked'] as const;
+
+export type TransferStatus = (typeof TRANSFER_STATUSES)[number];
+
+// Most days between the two sides of a transfer
+export const TRANSFER_MATCH_DAYS = 3;
+
+// Exchange rates are stored as units of a currency per 1 EUR, the convention of
+// the ECB reference rates, so EUR itself needs no rate
+export const EXCHANGE_RATE_REFERENCE_CURRENCY = 'EUR';
+
+// Base currency of new workspaces
+export const DEFAULT_BASE_CURRENCY = 'EUR';
+
+// Manual net worth items: assets such as property or a car, and liabilities
+// such as a mortgage or a car loan
+export const NET_WORTH_ITEM_KINDS = ['asset', 'liability'] as const;
+
+export type NetWorthItemKind = (typeof NET_WORTH_ITEM_KINDS)[number];
+
+// Loans charge a fixed annual rate, or a Euribor tenor plus a spread that is
+// revised at the start of every tenor period
+export const LOAN_RATE_TYPES = ['fixed', 'euribor'] as const;
+
+export type LoanRateType = (typeof LOAN_RATE_TYPES)[number];
+
+export const EURIBOR_TENORS = ['3M', '6M', '12M'] as const;
+
+export type EuriborTenor = (typeof EURIBOR_TENORS)[number];
+
+// Payments linked to a loan's installments; unlinked payments are kept so
+// linking does not pick them for the loan again
+export const LOAN_PAYMENT_STATUSES = ['linked', 'unlinked'] as const;
+
+export type LoanPaymentStatus = (typeof LOAN_PAYMENT_STATUSES)[number];
+
+// Most days between an installment's due date and the payment that settles it
+export const LOAN_PAYMENT_MATCH_DAYS = 5;
+
+// Largest difference between a payment and its installment, as a fraction of
+// the installment
+export const LOAN_PAYMENT_AMOUNT_TOLERANCE = 0.05;
+
+// Most levels in the category tree: a top-level category, its subcategories
+// and theirs
+export const CATEGORY_MAX_DEPTH = 3;
+
 // Default categories (shared across all banks)
 export interface DefaultCategory {
   name: string;
@@ -9,6 +9,8 @@ export const ErrorCode = {
   FORBIDDEN: 'FORBIDDEN',
   INVALID_FILE: 'INVALID_FILE',
   PARSE_ERROR: 'PARSE_ERROR',
+  PDF_PASSWORD_REQUIRED: 'PDF_PASSWORD_REQUIRED',
+  PDF_PASSWORD_INCORRECT: 'PDF_PASSWORD_INCORRECT',
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   ALREADY_MEMBER: 'ALREADY_MEMBER',
   ALREADY_INVITED: 'ALREADY_INVITED',
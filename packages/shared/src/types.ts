@@ -1,3 +1,15 @@
+import type {
+  AccountType,
+  CsvDateFormat,
+  CsvDelimiter,
+  DateBasis,
+  EuriborTenor,
+  LoanRateType,
+  NetWorthItemKind,
+  TransactionType,
+  TransferStatus,
+} from './constants.js';
+
 // Locale types
 export type SupportedLocale = 'en' | 'pt';
 export const SUPPORTED_LOCALES: SupportedLocale[] = ['en', 'pt'];
@@ -41,6 +53,7 @@ export interface Workspace {
   color: string;
   icon: string;
   isDefault: boolean;
+  baseCurrency: string; // Dashboard, reports and exports convert amounts to this currency
   createdAt: string;
   role?: WorkspaceRole;
 }
@@ -89,6 +102,7 @@ export interface CreateWorkspaceRequest {
   description?: string;
   color?: string;
   icon?: string;
+  baseCurrency?: string;
 }
 
 export interface UpdateWorkspaceRequest {
@@ -96,6 +110,7 @@ export interface UpdateWorkspaceRequest {
   description?: string;
   color?: string;
   icon?: string;
+  baseCurrency?: string;
 }
 
 // Category types
@@ -107,6 +122,7 @@ export interface Category {
   isDefault: boolean;
   createdAt: string;
   workspaceId?: number;
+  parentId?: number | null; // Null for a top-level category
 }
 
 export interface CategoryPattern {
@@ -122,6 +138,219 @@ export interface CategoryWithPatterns extends Category {
   patterns: CategoryPattern[];
 }
 
+// Merchant types
+// Merchants are extracted from transaction descriptions. Aliases are the
+// normalized names that resolve to the merchant; a merge adds the merged
+// merchants' aliases, so later uploads keep matching the surviving merchant.
+export interface Merchant {
+  id: number;
+  workspaceId: number;
+  name: string;
+  aliases: string[];
+  transactionCount: number;
+  createdAt: string;
+}
+
+export interface TopMerchant {
+  merchantId: number;
+  merchantName: string;
+  total: number;
+  count: number;
+  percentage: number; // Share of the period's expenses with a merchant
+}
+
+// Tag types
+// Tags are per-workspace labels; unlike categories, a transaction can have many.
+export interface Tag {
+  id: number;
+  workspaceId: number;
+  name: string;
+  color: string | null;
+  transactionCount: number;
+  createdAt: string;
+}
+
+export type TransactionTag = Pick<Tag, 'id' | 'name' | 'color'>;
+
+export interface TagSpending {
+  tagId: number;
+  tagName: string;
+  tagColor: string | null;
+  total: number;
+  count: number;
+  categories: Array<{
+    categoryId: number | null; // Top-level category, subcategories rolled up
+    categoryName: string;
+    categoryColor: string | null;
+    total: number;
+    count: number;
+    percentage: number; // Share of the tag's expenses
+  }>;
+}
+
+// CSV import profile types
+// Column positions are zero-based indexes into each CSV row.
+export interface CsvColumnMapping {
+  date: number;
+  description: number[];
+  amount?: number | null;
+  debit?: number | null;
+  credit?: number | null;
+  balance?: number | null;
+  valueDate?: number | null;
+}
+
+export interface CsvProfile {
+  id: number;
+  workspaceId: number;
+  bankId: string;
+  name: string;
+  delimiter: CsvDelimiter;
+  dateFormat: CsvDateFormat;
+  decimalFormat: 'european' | 'standard';
+  hasHeader: boolean;
+  skipRows: number;
+  currency: string;
+  columns: CsvColumnMapping;
+  createdAt: string;
+}
+
+export interface CreateCsvProfileRequest {
+  workspaceId: number;
+  name: string;
+  delimiter: CsvDelimiter;
+  dateFormat: CsvDateFormat;
+  decimalFormat: 'european' | 'standard';
+  hasHeader?: boolean;
+  skipRows?: number;
+  currency?: string;
+  columns: CsvColumnMapping;
+}
+
+export type UpdateCsvProfileRequest = Partial<Omit<CreateCsvProfileRequest, 'workspaceId'>>;
+
+// Statement template types
+// Patterns are JavaScript regular expression sources, optionally written as
+// "/source/flags" (e.g. "/saldo anterior/i"). They are matched against text
+// lines extracted from the PDF, with runs of whitespace collapsed.
+export interface StatementTemplateAmountLayout {
+  count?: number; // Only use this layout when the line has exactly this many amounts
+  // Amount positions: zero-based index into the amounts found on the line, negative counts from the end
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  balance?: number;
+  // How to tell income from expense for a single amount column:
+  // "sign" = positive amounts are income, "balance" = compare with the previous balance
+  incomeFrom?: 'sign' | 'balance';
+}
+
+// Columns a template can locate by their header label
+export type StatementTemplateColumn =
+  | 'date'
+  | 'valueDate'
+  | 'description'
+  | 'amount'
+  | 'debit'
+  | 'credit'
+  | 'balance';
+
+export interface StatementTemplateDefinition {
+  dateFormat: string; // e.g. "DD.MM.YY", "YYYY-MM-DD"
+  decimalFormat: 'european' | 'standard';
+  period?: {
+    pattern: string; // Two capture groups: start and end date
+    dateFormat?: string; // Defaults to dateFormat
+  };
+  sections?: {
+    start: string[]; // Transactions are only read between a start and an end marker
+    end: string[];
+  };
+  skipLines?: string[];
+  stripPatterns?: string[]; // Removed from a line before it is matched as a transaction
+  openingBalancePattern?: string; // Line holding the opening balance (its last amount is used)
+  closingBalancePattern?: string; // Line holding the closing balance (its last amount is used)
+  transaction: {
+    pattern: string; // Matches the start of a transaction line; named groups "date" and optional "valueDate"
+    amountPattern?: string; // Defaults to a pattern for the decimal format
+  };
+  amountLayouts: StatementTemplateAmountLayout[]; // The first layout matching the amount count is used
+  // Header label pattern per column. Below a header row, amounts, balance and description are
+  // read from the cells under each header; amountLayouts only apply to lines without columns
+  columns?: {
+    headers: Partial<Record<StatementTemplateColumn, string>>;
+    incomeFrom?: 'sign' | 'balance'; // For a single amount column, as in amount layouts
+  };
+  continuation?: 'append' | 'ignore'; // Lines that don't start a transaction extend the previous description
+  incomePatterns?: string[]; // Fallback for incomeFrom "balance" when there is no previous balance
+  fingerprint?: {
+    patterns: string[]; // Text unique to the bank's statements (headers, footers, legal notices)
+    ibanPrefixes?: string[]; // Country code, check digits and bank code, e.g. "PT500007"
+  };
+}
+
+export interface StatementTemplate {
+  id: number;
+  workspaceId: number;
+  bankId: string;
+  name: string;
+  currency: string;
+  definition: StatementTemplateDefinition;
+  createdAt: string;
+}
+
+export interface CreateStatementTemplateRequest {
+  workspaceId: number;
+  name: string;
+  currency?: string;
+  definition: StatementTemplateDefinition;
+}
+
+export type UpdateStatementTemplateRequest = Partial<
+  Omit<CreateStatementTemplateRequest, 'workspaceId'>
+>;
+
+// Account types
+// Bank accounts group the ledgers imported from the same account. The account
+// number is the IBAN or its last digits; uploads whose statement shows a
+// matching number are attached to the account automatically. Cash wallets have
+// no statements; their transactions are entered by hand.
+export interface Account {
+  id: number;
+  workspaceId: number;
+  name: string;
+  type: AccountType;
+  bankId: string | null;
+  accountNumber: string | null;
+  currency: string;
+  openingBalance: number; // Balance before the account's first transaction
+  createdAt: string;
+}
+
+export interface AccountSummary extends Account {
+  currentBalance: number; // End-of-day balance of the last transaction date
+  lastTransactionDate: string | null;
+  ledgerCount: number; // Uploaded statements; the manual ledger is not counted
+  transactionCount: number;
+}
+
+export interface AccountBalancePoint {
+  date: string;
+  balance: number; // End-of-day balance
+}
+
+export interface CreateAccountRequest {
+  workspaceId: number;
+  name: string;
+  type?: AccountType;
+  bankId?: string | null;
+  accountNumber?: string | null;
+  currency?: string;
+  openingBalance?: number;
+}
+
+export type UpdateAccountRequest = Partial<Omit<CreateAccountRequest, 'workspaceId'>>;
+
 // Ledger types
 export interface Ledger {
   id: number;
@@ -132,6 +361,22 @@ export interface Ledger {
   bankId: string;
   fileHash: string;
   workspaceId?: number;
+  accountId: number | null;
+  currency: string | null; // Statement currency, EUR when null; the account's currency takes precedence
+  status: LedgerStatus;
+}
+
+// Drafts hold an upload's parsed preview until its transactions are confirmed or it is discarded
+export type LedgerStatus = 'draft' | 'confirmed';
+
+export interface DraftLedger {
+  id: number;
+  filename: string;
+  uploadDate: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  bankId: string;
+  transactionCount: number; // Parsed transactions waiting for confirmation
 }
 
 // Transaction types
@@ -139,19 +384,37 @@ export interface Transaction {
   id: number;
   ledgerId: number;
   date: string;
+  valueDate: string | null; // Null for transactions imported before value dates were stored
   description: string;
   amount: number;
   balance: number | null;
   categoryId: number | null;
   isIncome: boolean;
   rawText: string | null;
+  transactionType: TransactionType | null; // Null when no pattern of the bank matched
+  merchantId: number | null;
   createdAt: string;
 }
 
 export interface TransactionWithCategory extends Transaction {
   category: Category | null;
+  merchantName?: string | null;
   recurringPatternId?: number | null;
   bankId?: string;
+  accountId?: number | null;
+  currency?: string; // Of the account, else of the ledger
+  baseAmount?: number; // Amount converted to the workspace base currency
+  tags?: TransactionTag[];
+  splits?: TransactionSplit[]; // Empty unless the transaction is split across categories
+}
+
+// A part of a split transaction. The parts add up to the transaction's amount,
+// and totals count each part in its own category instead of the transaction.
+export interface TransactionSplit {
+  id: number;
+  categoryId: number | null;
+  amount: number;
+  note: string | null;
 }
 
 // Parsed transaction (before saving to DB)
@@ -165,6 +428,10 @@ export interface ParsedTransaction {
   rawText: string;
   suggestedCategoryId: number | null;
   suggestedCategoryName: string | null;
+  externalId?: string; // Stable ID assigned by the bank (e.g. OFX FITID), used for deduplication
+  expectedBalance?: number; // Set when balance is not the previous balance ± amount
+  duplicateOf?: number; // ID of an imported transaction with the same date, amount, description and balance
+  transactionType?: TransactionType | null;
 }
 
 // Dashboard types
@@ -177,6 +444,8 @@ export interface DashboardSummary {
   periodEnd: string;
 }
 
+// Totals of subcategories are rolled up into the category shown; hasChildren
+// tells whether it can be drilled down into
 export interface CategoryBreakdown {
   categoryId: number | null;
   categoryName: string;
@@ -184,6 +453,15 @@ export interface CategoryBreakdown {
   total: number;
   count: number;
   percentage: number;
+  hasChildren: boolean;
+}
+
+// Income and expenses per transaction type; transactionType is null for unclassified transactions
+export interface TransactionTypeBreakdown {
+  transactionType: TransactionType | null;
+  income: number;
+  expenses: number;
+  count: number;
 }
 
 export interface MonthlyTrend {
@@ -197,40 +475,109 @@ export interface DashboardData {
   summary: DashboardSummary;
   categoryBreakdown: CategoryBreakdown[];
   monthlyTrends: MonthlyTrend[];
+  typeBreakdown: TransactionTypeBreakdown[];
   recentTransactions: TransactionWithCategory[];
   recurringSummary: RecurringSummary;
 }
 
 // API request/response types
 export interface UploadResponse {
-  ledgerId: number;
+  ledgerId: number | null; // Null for dry runs, which create no ledger
+  dryRun: boolean;
   filename: string;
   bankId: string;
   transactionCount: number;
   transactions: ParsedTransaction[];
   periodStart: string | null;
   periodEnd: string | null;
+  duplicatesSkipped: number;
+  probableDuplicates: number; // Transactions marked with duplicateOf, deselected in the preview
+  warnings: string[];
+  detection: BankDetection | null;
+  diagnostics: ParseDiagnostics;
+  reconciliation: BalanceReconciliation;
+  accountNumber: string | null; // IBAN or account number printed on the statement
+  accountId: number | null; // The workspace account the statement was matched to
+}
+
+// Running-balance check of a statement: each row's balance against the previous balance ± amount,
+// and the balance after the last row against the statement's closing balance
+export interface BalanceReconciliation {
+  status: 'reconciled' | 'mismatch' | 'unchecked'; // Unchecked: no balances to compare
+  openingBalance: number | null;
+  closingBalance: number | null;
+  computedClosingBalance: number | null; // Balance after the last row (printed, or carried by the amounts)
+  checkedRows: number;
+  mismatchedRows: number;
+}
+
+// Batch uploads are parsed one file at a time in the background; each parsed file becomes a draft
+export type UploadJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface UploadJobFile {
+  filename: string;
+  status: UploadJobStatus;
+  ledgerId: number | null; // The file's draft ledger once parsed
+  transactionCount: number | null;
+  error: string | null;
+}
+
+export interface UploadBatchJob {
+  id: string;
+  workspaceId: number;
+  status: 'queued' | 'processing' | 'completed'; // Completed once every file is parsed or failed
+  total: number;
+  processed: number;
+  files: UploadJobFile[];
+  createdAt: string;
+}
+
+// Bank recognised from a statement's fingerprint; confidence is the share of signals found (0-1)
+export interface BankDetection {
+  bankId: string;
+  confidence: number;
 }
 
 export interface ConfirmTransactionsRequest {
   ledgerId: number;
+  accountId?: number | null; // Attaches the ledger to an account (null detaches it)
   transactions: {
     date: string;
+    valueDate?: string | null;
     description: string;
     amount: number;
     balance: number | null;
     isIncome: boolean;
     categoryId: number | null;
     rawText: string | null;
+    externalId?: string | null;
+    transactionType?: TransactionType | null;
   }[];
 }
 
+// A transaction entered by hand, stored in the manual ledger of its account
+// (or of the workspace when it has no account)
+export interface ManualTransactionRequest {
+  workspaceId: number;
+  accountId?: number | null;
+  date: string;
+  valueDate?: string | null;
+  description: string;
+  amount: number; // Positive; isIncome gives the direction
+  isIncome: boolean;
+  categoryId?: number | null;
+  transactionType?: TransactionType | null;
+}
+
 export interface TransactionFilters {
   workspaceId?: number;
   year?: number;
   month?: number;
   categoryId?: number;
   isIncome?: boolean;
+  transactionType?: TransactionType;
+  merchantId?: number;
+  dateBasis?: DateBasis;
   search?: string;
   limit?: number;
   offset?: number;
@@ -240,6 +587,7 @@ export interface CreateCategoryRequest {
   name: string;
   color?: string;
   icon?: string;
+  parentId?: number | null;
   workspaceId?: number;
 }
 
@@ -247,6 +595,7 @@ export interface UpdateCategoryRequest {
   name?: string;
   color?: string;
   icon?: string;
+  parentId?: number | null;
 }
 
 export interface AddPatternRequest {
@@ -261,6 +610,23 @@ export interface ParseResult {
   periodStart: string | null;
   periodEnd: string | null;
   fileHash: string;
+  warnings?: string[]; // Non-fatal issues found while parsing (e.g. balance mismatches)
+  openingBalance?: number | null; // As printed on the statement
+  closingBalance?: number | null;
+  diagnostics?: ParseDiagnostics;
+  accountNumber?: string | null; // IBAN or account number, for formats that declare one
+}
+
+// A statement line the parser read but did not turn into a transaction
+export interface ParseDiagnosticLine {
+  page: number | null; // 1-based PDF page, null for text formats
+  line: number; // 1-based, within the page for PDFs and within the file otherwise
+  text: string;
+}
+
+export interface ParseDiagnostics {
+  skippedLines: ParseDiagnosticLine[]; // Inside transaction sections, but not a transaction or continuation
+  dateWithoutAmount: ParseDiagnosticLine[]; // Started like a transaction, but no amount could be read
 }
 
 // API response wrapper
@@ -300,3 +666,167 @@ export interface RecurringSummary {
   totalActive: number;
   estimatedMonthlyCost: number;
 }
+
+// Internal transfer types
+// The two sides of a transfer are left out of income and expense totals while
+// the pair is suggested or confirmed.
+export interface TransferTransaction {
+  id: number;
+  date: string;
+  description: string;
+  bankId: string;
+  accountId: number | null;
+  accountName: string | null;
+}
+
+export interface InternalTransfer {
+  id: number;
+  workspaceId: number;
+  status: TransferStatus;
+  amount: number;
+  currency: string; // Of the outgoing transaction; detection only pairs transactions in the same currency
+  outgoing: TransferTransaction;
+  incoming: TransferTransaction;
+  createdAt: string;
+}
+
+// Exchange rate types
+// Rates are units of the currency per 1 EUR on a date. An amount is converted
+// with the latest rate on or before its date, or the earliest one after it.
+export interface ExchangeRate {
+  id: number;
+  workspaceId: number;
+  currency: string;
+  date: string;
+  rate: number;
+  createdAt: string;
+}
+
+// Net worth types
+// Assets are the workspace's accounts at their current balance plus manual
+// assets; an account with a negative balance counts as a liability, as do
+// loans at their remaining balance. Values are converted to the workspace base
+// currency.
+export interface NetWorthItem {
+  id: number;
+  workspaceId: number;
+  kind: NetWorthItemKind;
+  name: string;
+  value: number; // Current value, or the amount owed for a liability
+  currency: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateNetWorthItemRequest {
+  workspaceId: number;
+  kind: NetWorthItemKind;
+  name: string;
+  value: number;
+  currency?: string;
+}
+
+export type UpdateNetWorthItemRequest = Partial<Omit<CreateNetWorthItemRequest, 'workspaceId'>>;
+
+export interface NetWorthEntry {
+  source: 'account' | 'item' | 'loan';
+  id: number; // Account, item or loan ID
+  name: string;
+  kind: NetWorthItemKind;
+  value: number; // Positive, in the entry's currency
+  currency: string;
+  baseValue: number; // In the workspace base currency
+}
+
+export interface NetWorthSummary {
+  date: string;
+  baseCurrency: string;
+  assets: NetWorthEntry[];
+  liabilities: NetWorthEntry[];
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+}
+
+export interface NetWorthSnapshot {
+  id: number;
+  workspaceId: number;
+  date: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  createdAt: string;
+}
+
+// Loan types
+// Loans are repaid in equal monthly installments (French amortization) from
+// the start date, the first installment's due date. Euribor loans recompute the
+// installment on the remaining balance whenever the rate is revised.
+export interface Loan {
+  id: number;
+  workspaceId: number;
+  name: string;
+  principal: number;
+  currency: string;
+  rateType: LoanRateType;
+  fixedRate: number | null; // Annual %, for fixed-rate loans
+  euriborTenor: EuriborTenor | null; // For Euribor loans
+  spread: number | null; // Annual % added to Euribor
+  termMonths: number;
+  startDate: string;
+  accountId: number | null; // Account the installments are paid from
+  descriptionPattern: string | null; // Text in the installment descriptions
+  createdAt: string;
+}
+
+export interface LoanSummary extends Loan {
+  currentRate: number; // Annual %
+  monthlyPayment: number; // Installment due now, or the first one
+  remainingBalance: number; // After the installments due up to today
+  interestPaid: number; // Interest of the installments due up to today
+  dueInstallments: number;
+  linkedInstallments: number; // Installments matched to a payment
+  nextPaymentDate: string | null;
+  payoffDate: string;
+}
+
+export interface LoanInstallment {
+  number: number;
+  date: string;
+  rate: number; // Annual %
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // Remaining after this installment
+  transactionId: number | null; // Linked payment
+  paidAmount: number | null; // Amount of the linked payment
+  paidDate: string | null;
+}
+
+export interface CreateLoanRequest {
+  workspaceId: number;
+  name: string;
+  principal: number;
+  currency?: string;
+  rateType: LoanRateType;
+  fixedRate?: number | null;
+  euriborTenor?: EuriborTenor | null;
+  spread?: number | null;
+  termMonths: number;
+  startDate: string;
+  accountId?: number | null;
+  descriptionPattern?: string | null;
+}
+
+export type UpdateLoanRequest = Partial<Omit<CreateLoanRequest, 'workspaceId'>>;
+
+// Euribor values are entered by hand; a review uses the latest value on or
+// before its date, else the earliest one after it
+export interface EuriborRate {
+  id: number;
+  workspaceId: number;
+  tenor: EuriborTenor;
+  date: string;
+  rate: number; // Annual %
+  createdAt: string;
+}